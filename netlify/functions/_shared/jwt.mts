@@ -10,7 +10,7 @@ function base64UrlEncode(data: Uint8Array): string {
   return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
 }
 
-function base64UrlDecode(str: string): Uint8Array {
+function base64UrlDecode(str: string): Uint8Array<ArrayBuffer> {
   const padded = str + '='.repeat((4 - (str.length % 4)) % 4)
   const base64 = padded.replace(/-/g, '+').replace(/_/g, '/')
   const binary = atob(base64)
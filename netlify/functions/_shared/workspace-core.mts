@@ -0,0 +1,917 @@
+/**
+ * Fortuna Engine — Workspace Core (Netlify Blobs)
+ *
+ * Storage-agnostic implementation of the workspace.php v2 contract used by
+ * src/engine/workspace-api.ts. Takes its blob stores as arguments so the
+ * Netlify function and tests (with an in-memory stand-in) share one code path.
+ *
+ * Blob layout (workspace store):
+ *   ws:{id}              — workspace record
+ *   members:{id}         — member list with roles
+ *   memberships:{userId} — workspace ids + active workspace for a user
+ *   invite:{code}        — invite with role, max uses, expiry
+ *   state:{id}           — shared FortunaState + version
+ *   resources:{id}       — shared resources
+ *   keys:{id}            — shared AI keys
+ *   activity:{id}        — activity log (newest first)
+ *   index:resource:{uuid} / index:key:{id} — reverse lookups to workspace id
+ *   counter:{name}       — numeric id sequences
+ */
+
+import { verifyJWT, type JWTPayload } from "./jwt.mts"
+
+// ---- Types ----
+
+/** Subset of the @netlify/blobs Store API the workspace backend relies on */
+export interface BlobStore {
+  get(key: string, options: { type: "json" }): Promise<any>
+  setJSON(key: string, value: unknown): Promise<unknown>
+  delete(key: string): Promise<unknown>
+}
+
+export interface WorkspaceDeps {
+  workspaces: BlobStore
+  users: BlobStore        // fortuna-users store, read-only here (user:{id})
+  secret: string
+  now?: () => Date
+}
+
+export type Role = "owner" | "admin" | "member" | "viewer"
+
+interface WorkspaceRecord {
+  id: number
+  uuid: string
+  name: string
+  description: string | null
+  slug: string
+  owner_id: string
+  max_members: number
+  created_at: string
+  updated_at: string
+}
+
+interface MemberRecord {
+  user_id: string
+  role: Role
+  joined_at: string
+  last_active_at: string | null
+}
+
+interface Memberships {
+  workspace_ids: number[]
+  active_workspace_id: number | null
+}
+
+interface InviteRecord {
+  code: string
+  workspace_id: number
+  role: Role
+  max_uses: number          // 0 = unlimited
+  uses: number
+  expires_at: string | null // null = never
+  email: string | null      // Restrict to a single address
+  created_by: string
+  created_at: string
+}
+
+interface StateRecord {
+  state_data: unknown
+  version: number
+  checksum: string
+  last_edited_by: string
+  last_synced_at: string
+}
+
+interface ResourceRecord {
+  uuid: string
+  type: string
+  title: string
+  description: string | null
+  content: string | null
+  file_name: string | null
+  tags: string[]
+  is_pinned: boolean
+  uploaded_by_id: string
+  created_at: string
+  updated_at: string
+}
+
+interface KeyRecord {
+  id: number
+  provider: string
+  label: string
+  api_key: string
+  is_active: boolean
+  usage_count: number
+  last_used_at: string | null
+  added_by_id: string
+  created_at: string
+}
+
+interface ActivityRecord {
+  action: string
+  detail: string | null
+  user_id: string
+  created_at: string
+}
+
+interface UserRecord {
+  id: string
+  email: string
+  display_name: string | null
+}
+
+interface Ctx {
+  deps: WorkspaceDeps
+  user: JWTPayload
+  now: string
+}
+
+// ---- Constants ----
+
+export const ROLES: Role[] = ["owner", "admin", "member", "viewer"]
+const ROLE_RANK: Record<Role, number> = { owner: 3, admin: 2, member: 1, viewer: 0 }
+const DEFAULT_MAX_MEMBERS = 10
+const DEFAULT_INVITE_USES = 1
+const DEFAULT_INVITE_HOURS = 72
+const MAX_ACTIVITY = 500
+const STATE_LIMIT = 5 * 1024 * 1024
+
+export const ROLE_PERMISSIONS: Record<Role, {
+  can_edit_data: boolean
+  can_manage_members: boolean
+  can_manage_keys: boolean
+  can_export: boolean
+  can_use_advisor: boolean
+}> = {
+  owner:  { can_edit_data: true,  can_manage_members: true,  can_manage_keys: true,  can_export: true,  can_use_advisor: true },
+  admin:  { can_edit_data: true,  can_manage_members: true,  can_manage_keys: true,  can_export: true,  can_use_advisor: true },
+  member: { can_edit_data: true,  can_manage_members: false, can_manage_keys: false, can_export: true,  can_use_advisor: true },
+  viewer: { can_edit_data: false, can_manage_members: false, can_manage_keys: false, can_export: false, can_use_advisor: true },
+}
+
+// ---- Helpers ----
+
+class WorkspaceError extends Error {
+  status: number
+  code?: string
+
+  constructor(message: string, status = 400, code?: string) {
+    super(message)
+    this.status = status
+    this.code = code
+  }
+}
+
+function json(data: object, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+function error(message: string, status = 400, code?: string): Response {
+  return json({ error: true, message, code }, status)
+}
+
+async function extractUser(req: Request, secret: string): Promise<JWTPayload | null> {
+  const auth = req.headers.get("authorization")
+  if (!auth?.startsWith("Bearer ")) return null
+  return verifyJWT(auth.slice(7), secret)
+}
+
+async function nextId(store: BlobStore, name: string): Promise<number> {
+  const current = ((await store.get(`counter:${name}`, { type: "json" })) as number | null) || 0
+  await store.setJSON(`counter:${name}`, current + 1)
+  return current + 1
+}
+
+function inviteCode(): string {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+  const bytes = crypto.getRandomValues(new Uint8Array(10))
+  return [...bytes].map(b => alphabet[b % alphabet.length]).join("")
+}
+
+function slugify(name: string, uuid: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40)
+  return `${base || "workspace"}-${uuid.slice(0, 6)}`
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("")
+}
+
+function keyPreview(apiKey: string): string {
+  return apiKey.length <= 8 ? "••••" : `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`
+}
+
+function workspaceId(value: unknown): number {
+  const id = typeof value === "number" ? value : parseInt(String(value ?? ""), 10)
+  if (!Number.isInteger(id) || id <= 0) throw new WorkspaceError("workspace_id is required")
+  return id
+}
+
+// ---- Request Payloads ----
+
+type Body = Record<string, unknown>
+
+interface WorkspacePayload { workspace_id: number }
+interface CreatePayload { name: string; description: string | null }
+interface UpdatePayload extends WorkspacePayload { name?: string; description?: string | null }
+interface MemberPayload extends WorkspacePayload { target_user_uuid: string }
+interface MemberRolePayload extends MemberPayload { role: Role }
+interface InvitePayload extends WorkspacePayload {
+  role: Role
+  max_uses?: number
+  expires_hours?: number
+  email: string | null
+}
+interface JoinPayload { invite_code: string }
+interface SaveStatePayload extends WorkspacePayload { state_data: unknown; expected_version?: number; force: boolean }
+interface ResourcePayload extends WorkspacePayload {
+  title: string
+  resource_type: string
+  description: string | null
+  content: string | null
+  file_name: string | null
+  tags: string[]
+  is_pinned: boolean
+}
+interface DeleteResourcePayload { uuid: string }
+interface KeyPayload extends WorkspacePayload { provider: string; api_key: string; label: string | null }
+interface DeleteKeyPayload { key_id: number }
+interface SwitchPayload { workspace_id: number | null }
+
+/** POST bodies must be JSON objects; fields are narrowed per action below */
+function asBody(raw: unknown): Body {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new WorkspaceError("Request body must be a JSON object")
+  }
+  return raw as Body
+}
+
+/** String field, "" when absent */
+function text(body: Body, key: string): string {
+  const value = body[key]
+  if (value === undefined || value === null) return ""
+  if (typeof value !== "string" && typeof value !== "number") throw new WorkspaceError(`${key} must be a string`)
+  return String(value)
+}
+
+function optionalText(body: Body, key: string): string | null {
+  return text(body, key) || null
+}
+
+function optionalNumber(body: Body, key: string): number | undefined {
+  const value = body[key]
+  if (value === undefined || value === null) return undefined
+  const n = typeof value === "number" ? value : Number(value)
+  if (typeof value === "boolean" || !Number.isFinite(n)) throw new WorkspaceError(`${key} must be a number`)
+  return n
+}
+
+function flag(body: Body, key: string): boolean {
+  const value = body[key]
+  if (value === undefined || value === null) return false
+  if (typeof value !== "boolean") throw new WorkspaceError(`${key} must be true or false`)
+  return value
+}
+
+function role(body: Body, key: string, message: string, fallback?: Role): Role {
+  const value = body[key] ?? fallback
+  if (!ROLES.includes(value as Role)) throw new WorkspaceError(message)
+  return value as Role
+}
+
+const parse = {
+  create: (body: Body): CreatePayload => ({ name: text(body, "name").trim(), description: optionalText(body, "description") }),
+  workspace: (body: Body): WorkspacePayload => ({ workspace_id: workspaceId(body.workspace_id) }),
+  update: (body: Body): UpdatePayload => ({
+    workspace_id: workspaceId(body.workspace_id),
+    ...(body.name !== undefined ? { name: text(body, "name").trim() } : {}),
+    ...(body.description !== undefined ? { description: optionalText(body, "description") } : {}),
+  }),
+  member: (body: Body): MemberPayload => ({
+    workspace_id: workspaceId(body.workspace_id),
+    target_user_uuid: text(body, "target_user_uuid"),
+  }),
+  memberRole: (body: Body): MemberRolePayload => ({ ...parse.member(body), role: role(body, "role", "Invalid role") }),
+  invite: (body: Body): InvitePayload => {
+    const invited = role(body, "role", "Invalid invite role", "member")
+    if (invited === "owner") throw new WorkspaceError("Invalid invite role")
+    return {
+      workspace_id: workspaceId(body.workspace_id),
+      role: invited,
+      max_uses: optionalNumber(body, "max_uses"),
+      expires_hours: optionalNumber(body, "expires_hours"),
+      email: optionalText(body, "email")?.toLowerCase() ?? null,
+    }
+  },
+  join: (body: Body): JoinPayload => ({ invite_code: text(body, "invite_code") }),
+  saveState: (body: Body): SaveStatePayload => {
+    if (body.state_data === undefined || body.state_data === null) throw new WorkspaceError("state_data is required")
+    return {
+      workspace_id: workspaceId(body.workspace_id),
+      state_data: body.state_data,
+      expected_version: optionalNumber(body, "expected_version"),
+      force: flag(body, "force"),
+    }
+  },
+  resource: (body: Body): ResourcePayload => {
+    if (body.tags !== undefined && !Array.isArray(body.tags)) throw new WorkspaceError("tags must be a list")
+    return {
+      workspace_id: workspaceId(body.workspace_id),
+      title: text(body, "title").trim(),
+      resource_type: text(body, "resource_type") || "note",
+      description: optionalText(body, "description"),
+      content: optionalText(body, "content"),
+      file_name: optionalText(body, "file_name"),
+      tags: ((body.tags as unknown[] | undefined) || []).map(String),
+      is_pinned: flag(body, "is_pinned"),
+    }
+  },
+  deleteResource: (body: Body): DeleteResourcePayload => ({ uuid: text(body, "uuid") }),
+  key: (body: Body): KeyPayload => ({
+    workspace_id: workspaceId(body.workspace_id),
+    provider: text(body, "provider").trim(),
+    api_key: text(body, "api_key").trim(),
+    label: optionalText(body, "label"),
+  }),
+  deleteKey: (body: Body): DeleteKeyPayload => ({ key_id: optionalNumber(body, "key_id") ?? 0 }),
+  switch: (body: Body): SwitchPayload => ({ workspace_id: body.workspace_id ? workspaceId(body.workspace_id) : null }),
+}
+
+// ---- Store Access ----
+
+async function getWorkspace(ctx: Ctx, id: number): Promise<WorkspaceRecord> {
+  const ws = (await ctx.deps.workspaces.get(`ws:${id}`, { type: "json" })) as WorkspaceRecord | null
+  if (!ws) throw new WorkspaceError("Workspace not found", 404, "NOT_FOUND")
+  return ws
+}
+
+async function getMembers(ctx: Ctx, id: number): Promise<MemberRecord[]> {
+  return ((await ctx.deps.workspaces.get(`members:${id}`, { type: "json" })) as MemberRecord[] | null) || []
+}
+
+async function getMemberships(ctx: Ctx, userId: string): Promise<Memberships> {
+  return ((await ctx.deps.workspaces.get(`memberships:${userId}`, { type: "json" })) as Memberships | null)
+    || { workspace_ids: [], active_workspace_id: null }
+}
+
+async function addMembership(ctx: Ctx, userId: string, id: number): Promise<void> {
+  const m = await getMemberships(ctx, userId)
+  if (!m.workspace_ids.includes(id)) m.workspace_ids.push(id)
+  await ctx.deps.workspaces.setJSON(`memberships:${userId}`, m)
+}
+
+async function dropMembership(ctx: Ctx, userId: string, id: number): Promise<void> {
+  const m = await getMemberships(ctx, userId)
+  m.workspace_ids = m.workspace_ids.filter(w => w !== id)
+  if (m.active_workspace_id === id) m.active_workspace_id = null
+  await ctx.deps.workspaces.setJSON(`memberships:${userId}`, m)
+}
+
+async function getUser(ctx: Ctx, userId: string): Promise<UserRecord | null> {
+  return (await ctx.deps.users.get(`user:${userId}`, { type: "json" })) as UserRecord | null
+}
+
+async function userName(ctx: Ctx, userId: string): Promise<string> {
+  const user = await getUser(ctx, userId)
+  return user?.display_name || user?.email || "Unknown"
+}
+
+/** Load the workspace and caller's membership, enforcing a minimum role */
+async function requireMember(ctx: Ctx, id: number, minRole: Role = "viewer") {
+  const ws = await getWorkspace(ctx, id)
+  const members = await getMembers(ctx, id)
+  const me = members.find(m => m.user_id === ctx.user.sub)
+  if (!me) throw new WorkspaceError("Not a member of this workspace", 403, "NOT_MEMBER")
+  if (ROLE_RANK[me.role] < ROLE_RANK[minRole]) {
+    throw new WorkspaceError(`Requires ${minRole} role or higher`, 403, "FORBIDDEN")
+  }
+  return { ws, members, me }
+}
+
+function requirePermission(role: Role, permission: keyof typeof ROLE_PERMISSIONS["owner"]): void {
+  if (!ROLE_PERMISSIONS[role][permission]) {
+    throw new WorkspaceError("You do not have permission for this action", 403, "FORBIDDEN")
+  }
+}
+
+async function logActivity(ctx: Ctx, id: number, action: string, detail: string | null = null): Promise<void> {
+  const log = ((await ctx.deps.workspaces.get(`activity:${id}`, { type: "json" })) as ActivityRecord[] | null) || []
+  log.unshift({ action, detail, user_id: ctx.user.sub, created_at: ctx.now })
+  await ctx.deps.workspaces.setJSON(`activity:${id}`, log.slice(0, MAX_ACTIVITY))
+}
+
+async function touchMember(ctx: Ctx, id: number, members: MemberRecord[]): Promise<void> {
+  const me = members.find(m => m.user_id === ctx.user.sub)
+  if (!me) return
+  me.last_active_at = ctx.now
+  await ctx.deps.workspaces.setJSON(`members:${id}`, members)
+}
+
+// ---- Workspace CRUD ----
+
+async function handleList(ctx: Ctx): Promise<Response> {
+  const m = await getMemberships(ctx, ctx.user.sub)
+  const workspaces = []
+  for (const id of m.workspace_ids) {
+    const ws = (await ctx.deps.workspaces.get(`ws:${id}`, { type: "json" })) as WorkspaceRecord | null
+    if (!ws) continue
+    const members = await getMembers(ctx, id)
+    const me = members.find(x => x.user_id === ctx.user.sub)
+    if (!me) continue
+    workspaces.push({
+      id: ws.id, uuid: ws.uuid, name: ws.name, description: ws.description, slug: ws.slug,
+      role: me.role, member_count: members.length, joined_at: me.joined_at,
+    })
+  }
+  return json({ success: true, workspaces, active_workspace_id: m.active_workspace_id })
+}
+
+async function handleCreate(ctx: Ctx, body: CreatePayload): Promise<Response> {
+  const name = body.name
+  if (!name) throw new WorkspaceError("Workspace name is required")
+  if (name.length > 100) throw new WorkspaceError("Workspace name must be 100 characters or less")
+
+  const id = await nextId(ctx.deps.workspaces, "workspace")
+  const uuid = crypto.randomUUID()
+  const ws: WorkspaceRecord = {
+    id, uuid, name,
+    description: body.description,
+    slug: slugify(name, uuid),
+    owner_id: ctx.user.sub,
+    max_members: DEFAULT_MAX_MEMBERS,
+    created_at: ctx.now,
+    updated_at: ctx.now,
+  }
+  await ctx.deps.workspaces.setJSON(`ws:${id}`, ws)
+  await ctx.deps.workspaces.setJSON(`members:${id}`, [
+    { user_id: ctx.user.sub, role: "owner", joined_at: ctx.now, last_active_at: ctx.now } satisfies MemberRecord,
+  ])
+  await addMembership(ctx, ctx.user.sub, id)
+  await logActivity(ctx, id, "workspace_created", name)
+
+  return json({
+    success: true,
+    workspace: {
+      id, uuid, name, description: ws.description, slug: ws.slug,
+      role: "owner", member_count: 1, max_members: ws.max_members, created_at: ws.created_at,
+    },
+  })
+}
+
+async function handleGet(ctx: Ctx, id: number): Promise<Response> {
+  const { ws, members, me } = await requireMember(ctx, id)
+  const owner = await getUser(ctx, ws.owner_id)
+  return json({
+    success: true,
+    workspace: {
+      id: ws.id, uuid: ws.uuid, name: ws.name, description: ws.description, slug: ws.slug,
+      role: me.role, member_count: members.length, owner: owner?.display_name || owner?.email,
+      max_members: ws.max_members, created_at: ws.created_at,
+    },
+    my_role: me.role,
+    permissions: ROLE_PERMISSIONS[me.role],
+  })
+}
+
+async function handleUpdate(ctx: Ctx, body: UpdatePayload): Promise<Response> {
+  const id = body.workspace_id
+  const { ws } = await requireMember(ctx, id, "admin")
+  if (body.name !== undefined) {
+    if (!body.name) throw new WorkspaceError("Workspace name is required")
+    ws.name = body.name
+  }
+  if (body.description !== undefined) ws.description = body.description
+  ws.updated_at = ctx.now
+  await ctx.deps.workspaces.setJSON(`ws:${id}`, ws)
+  await logActivity(ctx, id, "workspace_updated", ws.name)
+  return json({ success: true, updated: true })
+}
+
+async function handleDelete(ctx: Ctx, body: WorkspacePayload): Promise<Response> {
+  const id = body.workspace_id
+  const { members } = await requireMember(ctx, id, "owner")
+
+  for (const m of members) await dropMembership(ctx, m.user_id, id)
+  const resources = ((await ctx.deps.workspaces.get(`resources:${id}`, { type: "json" })) as ResourceRecord[] | null) || []
+  for (const r of resources) await ctx.deps.workspaces.delete(`index:resource:${r.uuid}`)
+  const keys = ((await ctx.deps.workspaces.get(`keys:${id}`, { type: "json" })) as KeyRecord[] | null) || []
+  for (const k of keys) await ctx.deps.workspaces.delete(`index:key:${k.id}`)
+  for (const prefix of ["ws", "members", "state", "resources", "keys", "activity"]) {
+    await ctx.deps.workspaces.delete(`${prefix}:${id}`)
+  }
+  return json({ success: true, deleted: true })
+}
+
+// ---- Members ----
+
+async function handleMembers(ctx: Ctx, id: number): Promise<Response> {
+  const { members } = await requireMember(ctx, id)
+  const result = []
+  for (const m of members) {
+    const user = await getUser(ctx, m.user_id)
+    result.push({
+      user_uuid: m.user_id,
+      email: user?.email || "",
+      display_name: user?.display_name || null,
+      role: m.role,
+      joined_at: m.joined_at,
+      last_active_at: m.last_active_at,
+      permissions: ROLE_PERMISSIONS[m.role],
+    })
+  }
+  return json({ success: true, members: result })
+}
+
+/** Owners manage everyone but themselves; admins manage members and viewers only */
+function assertCanManage(me: MemberRecord, target: MemberRecord, newRole?: Role): void {
+  requirePermission(me.role, "can_manage_members")
+  if (target.role === "owner") throw new WorkspaceError("The owner cannot be changed or removed", 403, "FORBIDDEN")
+  if (target.user_id === me.user_id) throw new WorkspaceError("You cannot change your own role", 403, "FORBIDDEN")
+  if (me.role !== "owner" && ROLE_RANK[target.role] >= ROLE_RANK[me.role]) {
+    throw new WorkspaceError("Admins can only manage members and viewers", 403, "FORBIDDEN")
+  }
+  if (newRole !== undefined) {
+    if (newRole === "owner") throw new WorkspaceError("Ownership cannot be assigned", 403, "FORBIDDEN")
+    if (me.role !== "owner" && ROLE_RANK[newRole] >= ROLE_RANK[me.role]) {
+      throw new WorkspaceError("Admins cannot grant admin", 403, "FORBIDDEN")
+    }
+  }
+}
+
+async function handleMemberRole(ctx: Ctx, body: MemberRolePayload): Promise<Response> {
+  const { workspace_id: id, role } = body
+  const { members, me } = await requireMember(ctx, id)
+  const target = members.find(m => m.user_id === body.target_user_uuid)
+  if (!target) throw new WorkspaceError("Member not found", 404, "NOT_FOUND")
+  assertCanManage(me, target, role)
+
+  const previous = target.role
+  target.role = role
+  await ctx.deps.workspaces.setJSON(`members:${id}`, members)
+  await logActivity(ctx, id, "member_role_changed", `${await userName(ctx, target.user_id)}: ${previous} → ${role}`)
+  return json({ success: true, updated: true })
+}
+
+async function handleRemoveMember(ctx: Ctx, body: MemberPayload): Promise<Response> {
+  const id = body.workspace_id
+  const { members, me } = await requireMember(ctx, id)
+  const target = members.find(m => m.user_id === body.target_user_uuid)
+  if (!target) throw new WorkspaceError("Member not found", 404, "NOT_FOUND")
+  assertCanManage(me, target)
+
+  await ctx.deps.workspaces.setJSON(`members:${id}`, members.filter(m => m.user_id !== target.user_id))
+  await dropMembership(ctx, target.user_id, id)
+  await logActivity(ctx, id, "member_removed", await userName(ctx, target.user_id))
+  return json({ success: true, removed: true })
+}
+
+async function handleLeave(ctx: Ctx, body: WorkspacePayload): Promise<Response> {
+  const id = body.workspace_id
+  const { members, me } = await requireMember(ctx, id)
+  if (me.role === "owner") {
+    throw new WorkspaceError("The owner cannot leave — delete the workspace instead", 403, "FORBIDDEN")
+  }
+  await ctx.deps.workspaces.setJSON(`members:${id}`, members.filter(m => m.user_id !== me.user_id))
+  await dropMembership(ctx, me.user_id, id)
+  await logActivity(ctx, id, "member_left", await userName(ctx, me.user_id))
+  return json({ success: true, left: true })
+}
+
+// ---- Invites ----
+
+async function handleInvite(ctx: Ctx, body: InvitePayload): Promise<Response> {
+  const { workspace_id: id, role } = body
+  const { me } = await requireMember(ctx, id)
+  requirePermission(me.role, "can_manage_members")
+
+  if (me.role !== "owner" && ROLE_RANK[role] >= ROLE_RANK[me.role]) {
+    throw new WorkspaceError("Admins cannot invite admins", 403, "FORBIDDEN")
+  }
+
+  const maxUses = body.max_uses === undefined ? DEFAULT_INVITE_USES : Math.max(0, Math.floor(body.max_uses))
+  const hours = body.expires_hours === undefined ? DEFAULT_INVITE_HOURS : Math.max(0, body.expires_hours)
+  const invite: InviteRecord = {
+    code: inviteCode(),
+    workspace_id: id,
+    role,
+    max_uses: maxUses,
+    uses: 0,
+    expires_at: hours > 0 ? new Date(Date.parse(ctx.now) + hours * 3600_000).toISOString() : null,
+    email: body.email,
+    created_by: ctx.user.sub,
+    created_at: ctx.now,
+  }
+  await ctx.deps.workspaces.setJSON(`invite:${invite.code}`, invite)
+  await logActivity(ctx, id, "invite_created", `${role}${invite.email ? ` for ${invite.email}` : ""}`)
+
+  return json({
+    success: true,
+    invite_code: invite.code,
+    role: invite.role,
+    max_uses: invite.max_uses,
+    expires_at: invite.expires_at,
+  })
+}
+
+/** Look up an invite and reject it if expired or used up */
+async function usableInvite(ctx: Ctx, code: string): Promise<InviteRecord> {
+  const normalized = code.trim().toUpperCase()
+  const invite = normalized
+    ? (await ctx.deps.workspaces.get(`invite:${normalized}`, { type: "json" })) as InviteRecord | null
+    : null
+  if (!invite) throw new WorkspaceError("Invite not found", 404, "INVITE_NOT_FOUND")
+  if (invite.expires_at && Date.parse(invite.expires_at) <= Date.parse(ctx.now)) {
+    throw new WorkspaceError("This invite has expired", 410, "INVITE_EXPIRED")
+  }
+  if (invite.max_uses > 0 && invite.uses >= invite.max_uses) {
+    throw new WorkspaceError("This invite has already been used", 410, "INVITE_EXHAUSTED")
+  }
+  return invite
+}
+
+async function handleInviteInfo(ctx: Ctx, code: string): Promise<Response> {
+  const invite = await usableInvite(ctx, code)
+  const ws = await getWorkspace(ctx, invite.workspace_id)
+  const members = await getMembers(ctx, invite.workspace_id)
+  return json({
+    success: true,
+    workspace_name: ws.name,
+    workspace_description: ws.description,
+    role: invite.role,
+    member_count: members.length,
+    restricted_email: !!invite.email,
+  })
+}
+
+async function handleJoin(ctx: Ctx, body: JoinPayload): Promise<Response> {
+  const invite = await usableInvite(ctx, body.invite_code)
+  if (invite.email && invite.email !== ctx.user.email.toLowerCase()) {
+    throw new WorkspaceError("This invite is for a different email address", 403, "INVITE_EMAIL_MISMATCH")
+  }
+
+  const id = invite.workspace_id
+  const ws = await getWorkspace(ctx, id)
+  const members = await getMembers(ctx, id)
+  if (members.some(m => m.user_id === ctx.user.sub)) {
+    throw new WorkspaceError("You are already a member of this workspace", 409, "ALREADY_MEMBER")
+  }
+  if (members.length >= ws.max_members) {
+    throw new WorkspaceError("Workspace is full", 403, "WORKSPACE_FULL")
+  }
+
+  members.push({ user_id: ctx.user.sub, role: invite.role, joined_at: ctx.now, last_active_at: ctx.now })
+  await ctx.deps.workspaces.setJSON(`members:${id}`, members)
+  await ctx.deps.workspaces.setJSON(`invite:${invite.code}`, { ...invite, uses: invite.uses + 1 })
+  await addMembership(ctx, ctx.user.sub, id)
+  await logActivity(ctx, id, "member_joined", `${await userName(ctx, ctx.user.sub)} as ${invite.role}`)
+
+  return json({ success: true, joined: true, workspace: { id, name: ws.name, role: invite.role } })
+}
+
+// ---- Shared State ----
+
+async function handleState(ctx: Ctx, id: number): Promise<Response> {
+  const { members } = await requireMember(ctx, id)
+  await touchMember(ctx, id, members)
+  const record = (await ctx.deps.workspaces.get(`state:${id}`, { type: "json" })) as StateRecord | null
+  if (!record) {
+    return json({ success: true, state_data: null, version: 0, checksum: null, last_edited_by: null, last_synced_at: null })
+  }
+  return json({
+    success: true,
+    state_data: record.state_data,
+    version: record.version,
+    checksum: record.checksum,
+    last_edited_by: await userName(ctx, record.last_edited_by),
+    last_synced_at: record.last_synced_at,
+  })
+}
+
+async function handleSaveState(ctx: Ctx, body: SaveStatePayload): Promise<Response> {
+  const id = body.workspace_id
+  const { me, members } = await requireMember(ctx, id)
+  requirePermission(me.role, "can_edit_data")
+
+  const stateStr = JSON.stringify(body.state_data)
+  if (stateStr.length > STATE_LIMIT) throw new WorkspaceError("State exceeds 5MB limit", 413)
+
+  const existing = (await ctx.deps.workspaces.get(`state:${id}`, { type: "json" })) as StateRecord | null
+  const currentVersion = existing?.version || 0
+  if (!body.force && body.expected_version !== undefined && currentVersion > body.expected_version) {
+    throw new WorkspaceError("Version conflict — workspace state is newer", 409, "VERSION_CONFLICT")
+  }
+
+  const record: StateRecord = {
+    state_data: body.state_data,
+    version: currentVersion + 1,
+    checksum: await sha256(stateStr),
+    last_edited_by: ctx.user.sub,
+    last_synced_at: ctx.now,
+  }
+  await ctx.deps.workspaces.setJSON(`state:${id}`, record)
+  await touchMember(ctx, id, members)
+  await logActivity(ctx, id, "state_saved", `v${record.version}`)
+  return json({ success: true, saved: true, version: record.version, checksum: record.checksum })
+}
+
+// ---- Shared Resources ----
+
+async function handleResources(ctx: Ctx, id: number, type: string | null): Promise<Response> {
+  await requireMember(ctx, id)
+  const resources = ((await ctx.deps.workspaces.get(`resources:${id}`, { type: "json" })) as ResourceRecord[] | null) || []
+  const filtered = resources
+    .filter(r => !type || r.type === type)
+    .sort((a, b) => Number(b.is_pinned) - Number(a.is_pinned) || b.created_at.localeCompare(a.created_at))
+
+  const result = []
+  for (const { uploaded_by_id, ...r } of filtered) {
+    result.push({ ...r, uploaded_by: await userName(ctx, uploaded_by_id) })
+  }
+  return json({ success: true, resources: result })
+}
+
+async function handleAddResource(ctx: Ctx, body: ResourcePayload): Promise<Response> {
+  const id = body.workspace_id
+  const { me } = await requireMember(ctx, id)
+  requirePermission(me.role, "can_edit_data")
+
+  const title = body.title
+  if (!title) throw new WorkspaceError("Title is required")
+
+  const resource: ResourceRecord = {
+    uuid: crypto.randomUUID(),
+    type: body.resource_type,
+    title,
+    description: body.description,
+    content: body.content,
+    file_name: body.file_name,
+    tags: body.tags,
+    is_pinned: body.is_pinned,
+    uploaded_by_id: ctx.user.sub,
+    created_at: ctx.now,
+    updated_at: ctx.now,
+  }
+  const resources = ((await ctx.deps.workspaces.get(`resources:${id}`, { type: "json" })) as ResourceRecord[] | null) || []
+  resources.push(resource)
+  await ctx.deps.workspaces.setJSON(`resources:${id}`, resources)
+  await ctx.deps.workspaces.setJSON(`index:resource:${resource.uuid}`, id)
+  await logActivity(ctx, id, "resource_added", title)
+  return json({ success: true, uuid: resource.uuid, created: true })
+}
+
+async function handleDeleteResource(ctx: Ctx, body: DeleteResourcePayload): Promise<Response> {
+  const uuid = body.uuid
+  const id = (await ctx.deps.workspaces.get(`index:resource:${uuid}`, { type: "json" })) as number | null
+  if (!id) throw new WorkspaceError("Resource not found", 404, "NOT_FOUND")
+
+  const { me } = await requireMember(ctx, id)
+  const resources = ((await ctx.deps.workspaces.get(`resources:${id}`, { type: "json" })) as ResourceRecord[] | null) || []
+  const resource = resources.find(r => r.uuid === uuid)
+  if (!resource) throw new WorkspaceError("Resource not found", 404, "NOT_FOUND")
+  if (resource.uploaded_by_id !== me.user_id) requirePermission(me.role, "can_manage_members")
+
+  await ctx.deps.workspaces.setJSON(`resources:${id}`, resources.filter(r => r.uuid !== uuid))
+  await ctx.deps.workspaces.delete(`index:resource:${uuid}`)
+  await logActivity(ctx, id, "resource_deleted", resource.title)
+  return json({ success: true, deleted: true })
+}
+
+// ---- Shared AI Keys ----
+
+async function handleKeys(ctx: Ctx, id: number): Promise<Response> {
+  await requireMember(ctx, id)
+  const keys = ((await ctx.deps.workspaces.get(`keys:${id}`, { type: "json" })) as KeyRecord[] | null) || []
+  const result = []
+  for (const { api_key, added_by_id, ...k } of keys) {
+    result.push({ ...k, key_preview: keyPreview(api_key), added_by: await userName(ctx, added_by_id) })
+  }
+  return json({ success: true, keys: result })
+}
+
+async function handleAddKey(ctx: Ctx, body: KeyPayload): Promise<Response> {
+  const id = body.workspace_id
+  const { me } = await requireMember(ctx, id)
+  requirePermission(me.role, "can_manage_keys")
+
+  const { provider, api_key: apiKey } = body
+  if (!provider || !apiKey) throw new WorkspaceError("Provider and API key are required")
+
+  const key: KeyRecord = {
+    id: await nextId(ctx.deps.workspaces, "key"),
+    provider,
+    label: body.label || provider,
+    api_key: apiKey,
+    is_active: true,
+    usage_count: 0,
+    last_used_at: null,
+    added_by_id: ctx.user.sub,
+    created_at: ctx.now,
+  }
+  const keys = ((await ctx.deps.workspaces.get(`keys:${id}`, { type: "json" })) as KeyRecord[] | null) || []
+  keys.push(key)
+  await ctx.deps.workspaces.setJSON(`keys:${id}`, keys)
+  await ctx.deps.workspaces.setJSON(`index:key:${key.id}`, id)
+  await logActivity(ctx, id, "key_added", `${provider} (${key.label})`)
+  return json({ success: true, added: true })
+}
+
+async function handleDeleteKey(ctx: Ctx, body: DeleteKeyPayload): Promise<Response> {
+  const keyId = body.key_id
+  const id = (await ctx.deps.workspaces.get(`index:key:${keyId}`, { type: "json" })) as number | null
+  if (!id) throw new WorkspaceError("Key not found", 404, "NOT_FOUND")
+
+  const { me } = await requireMember(ctx, id)
+  requirePermission(me.role, "can_manage_keys")
+  const keys = ((await ctx.deps.workspaces.get(`keys:${id}`, { type: "json" })) as KeyRecord[] | null) || []
+  const key = keys.find(k => k.id === keyId)
+  await ctx.deps.workspaces.setJSON(`keys:${id}`, keys.filter(k => k.id !== keyId))
+  await ctx.deps.workspaces.delete(`index:key:${keyId}`)
+  await logActivity(ctx, id, "key_deleted", key ? `${key.provider} (${key.label})` : null)
+  return json({ success: true, deleted: true })
+}
+
+// ---- Activity ----
+
+async function handleActivity(ctx: Ctx, id: number, limit: number): Promise<Response> {
+  await requireMember(ctx, id)
+  const log = ((await ctx.deps.workspaces.get(`activity:${id}`, { type: "json" })) as ActivityRecord[] | null) || []
+  const names = new Map<string, string>()
+  const activity = []
+  for (const entry of log.slice(0, Math.min(Math.max(limit, 1), 200))) {
+    if (!names.has(entry.user_id)) names.set(entry.user_id, await userName(ctx, entry.user_id))
+    activity.push({ action: entry.action, detail: entry.detail, user: names.get(entry.user_id)!, created_at: entry.created_at })
+  }
+  return json({ success: true, activity })
+}
+
+// ---- Switch Workspace ----
+
+async function handleSwitch(ctx: Ctx, body: SwitchPayload): Promise<Response> {
+  const id = body.workspace_id || 0
+  const m = await getMemberships(ctx, ctx.user.sub)
+  if (id) await requireMember(ctx, id)
+  m.active_workspace_id = id || null
+  await ctx.deps.workspaces.setJSON(`memberships:${ctx.user.sub}`, m)
+  return json({ success: true, switched: true, workspace_id: m.active_workspace_id, mode: id ? "workspace" : "personal" })
+}
+
+// ---- Router ----
+
+export async function handleWorkspaceRequest(req: Request, deps: WorkspaceDeps): Promise<Response> {
+  const url = new URL(req.url)
+  const action = url.searchParams.get("action") || ""
+
+  if (action === "health") {
+    return json({ status: "ok", service: "workspace", version: "2.0.0-netlify" })
+  }
+
+  const user = await extractUser(req, deps.secret)
+  if (!user) {
+    return error("Not authenticated", 401, "AUTH_REQUIRED")
+  }
+
+  const ctx: Ctx = { deps, user, now: (deps.now?.() ?? new Date()).toISOString() }
+  const idParam = () => workspaceId(url.searchParams.get("id"))
+
+  try {
+    if (req.method === "GET") {
+      switch (action) {
+        case "list":        return await handleList(ctx)
+        case "get":         return await handleGet(ctx, idParam())
+        case "members":     return await handleMembers(ctx, idParam())
+        case "invite_info": return await handleInviteInfo(ctx, url.searchParams.get("code") || "")
+        case "state":       return await handleState(ctx, idParam())
+        case "resources":   return await handleResources(ctx, idParam(), url.searchParams.get("type"))
+        case "keys":        return await handleKeys(ctx, idParam())
+        case "activity":    return await handleActivity(ctx, idParam(), parseInt(url.searchParams.get("limit") || "50", 10) || 50)
+      }
+    } else if (req.method === "POST") {
+      const body = asBody(await req.json().catch((): unknown => ({})))
+      switch (action) {
+        case "create":          return await handleCreate(ctx, parse.create(body))
+        case "update":          return await handleUpdate(ctx, parse.update(body))
+        case "delete":          return await handleDelete(ctx, parse.workspace(body))
+        case "member_role":     return await handleMemberRole(ctx, parse.memberRole(body))
+        case "remove_member":   return await handleRemoveMember(ctx, parse.member(body))
+        case "leave":           return await handleLeave(ctx, parse.workspace(body))
+        case "invite":          return await handleInvite(ctx, parse.invite(body))
+        case "join":            return await handleJoin(ctx, parse.join(body))
+        case "save_state":      return await handleSaveState(ctx, parse.saveState(body))
+        case "add_resource":    return await handleAddResource(ctx, parse.resource(body))
+        case "delete_resource": return await handleDeleteResource(ctx, parse.deleteResource(body))
+        case "add_key":         return await handleAddKey(ctx, parse.key(body))
+        case "delete_key":      return await handleDeleteKey(ctx, parse.deleteKey(body))
+        case "switch":          return await handleSwitch(ctx, parse.switch(body))
+      }
+    }
+    return error(`Unknown action: ${req.method} ${action}`, 400)
+  } catch (e) {
+    if (e instanceof WorkspaceError) return error(e.message, e.status, e.code)
+    throw e
+  }
+}
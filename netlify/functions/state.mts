@@ -5,13 +5,18 @@
  * Endpoints (via ?action= query param):
  *   POST save  — save full state
  *   GET  load  — load state
- *   POST merge — merge local/remote state
+ *   POST merge — three-way merge of local/remote state against the
+ *                last version this device synced (stored as an ancestor)
  *   GET  health — health check
+ * With no action, GET loads and POST saves.
  */
 
 import type { Context, Config } from "@netlify/functions"
-import { getStore } from "@netlify/blobs"
+import { getStore, type Store } from "@netlify/blobs"
 import { verifyJWT, type JWTPayload } from "./_shared/jwt.mts"
+import { threeWayMerge, stableStringify } from "../../src/engine/sync-merge.ts"
+
+const MAX_ANCESTORS = 20
 
 // ---- Helpers ----
 
@@ -36,6 +41,60 @@ async function extractUser(req: Request): Promise<JWTPayload | null> {
   return verifyJWT(auth.slice(7), getSecret())
 }
 
+async function prune(store: Store, prefix: string, keep: number): Promise<void> {
+  try {
+    const { blobs } = await store.list({ prefix })
+    if (blobs.length > keep) {
+      const toDelete = blobs
+        .sort((a, b) => a.key.localeCompare(b.key))
+        .slice(0, blobs.length - keep)
+      for (const blob of toDelete) {
+        await store.delete(blob.key)
+      }
+    }
+  } catch {
+    // Non-critical — ignore cleanup errors
+  }
+}
+
+function ancestorKey(sub: string, version: number): string {
+  // Zero-padded so lexical order matches version order when pruning
+  return `ancestor:${sub}:${String(version).padStart(10, "0")}`
+}
+
+/** Write the current state and keep a copy as the merge ancestor for that version */
+async function writeState(store: Store, sub: string, stateStr: string, version: number): Promise<{ version: number; syncedAt: string }> {
+  const syncedAt = new Date().toISOString()
+  await store.set(`state:${sub}`, stateStr, {
+    metadata: {
+      version,
+      last_synced_at: syncedAt,
+      state_size: stateStr.length,
+      user_id: sub,
+    },
+  })
+  await store.set(ancestorKey(sub, version), stateStr, {
+    metadata: { version, created_at: syncedAt },
+  })
+  await prune(store, `ancestor:${sub}:`, MAX_ANCESTORS)
+  return { version, syncedAt }
+}
+
+async function loadAncestor(store: Store, sub: string, version: number): Promise<any | null> {
+  const data = await store.get(ancestorKey(sub, version))
+  if (!data) return null
+  try {
+    return JSON.parse(data)
+  } catch {
+    return null
+  }
+}
+
+function withoutMeta(state: any): any {
+  const { lastUpdated: _lastUpdated, ux: _ux, ...rest } = state || {}
+  return rest
+}
+
 // ---- Route Handlers ----
 
 async function handleSave(req: Request): Promise<Response> {
@@ -45,7 +104,8 @@ async function handleSave(req: Request): Promise<Response> {
   }
 
   const body = await req.json()
-  const { state, version, force } = body
+  const { state, force } = body
+  const version: number | undefined = body.version ?? body.expected_version
 
   if (!state) {
     return error("State is required")
@@ -60,50 +120,23 @@ async function handleSave(req: Request): Promise<Response> {
   const stateStore = getStore("fortuna-state", { consistency: "strong" })
   const key = `state:${payload.sub}`
 
+  const existing = await stateStore.getMetadata(key)
+  const remoteVersion: number = (existing?.metadata as any)?.version || 0
+
   // Check version conflict (unless force)
-  if (!force && version !== undefined) {
-    const existing = await stateStore.getMetadata(key)
-    if (existing?.metadata) {
-      const remoteVersion = (existing.metadata as any).version || 0
-      if (remoteVersion > version) {
-        return error("Version conflict — remote is newer", 409, "VERSION_CONFLICT")
-      }
-    }
+  if (!force && version !== undefined && remoteVersion > version) {
+    return error("Version conflict — remote is newer", 409, "VERSION_CONFLICT")
   }
 
-  const newVersion = (version || 0) + 1
-  const syncedAt = new Date().toISOString()
-
-  // Save state with metadata
-  await stateStore.set(key, stateStr, {
-    metadata: {
-      version: newVersion,
-      last_synced_at: syncedAt,
-      state_size: stateStr.length,
-      user_id: payload.sub,
-    },
-  })
+  // Versions only move forward, even on force, so no device's merge base is overwritten
+  const { version: newVersion, syncedAt } = await writeState(stateStore, payload.sub, stateStr, remoteVersion + 1)
 
   // Save snapshot (keep last 20)
   const snapshotKey = `snapshot:${payload.sub}:${Date.now()}`
   await stateStore.set(snapshotKey, stateStr, {
     metadata: { version: newVersion, created_at: syncedAt },
   })
-
-  // Clean old snapshots (keep last 20)
-  try {
-    const { blobs } = await stateStore.list({ prefix: `snapshot:${payload.sub}:` })
-    if (blobs.length > 20) {
-      const toDelete = blobs
-        .sort((a, b) => a.key.localeCompare(b.key))
-        .slice(0, blobs.length - 20)
-      for (const blob of toDelete) {
-        await stateStore.delete(blob.key)
-      }
-    }
-  } catch {
-    // Non-critical — ignore snapshot cleanup errors
-  }
+  await prune(stateStore, `snapshot:${payload.sub}:`, 20)
 
   return json({
     success: true,
@@ -155,7 +188,8 @@ async function handleMerge(req: Request): Promise<Response> {
   }
 
   const body = await req.json()
-  const { state: localState, last_synced } = body
+  const localState = body.local_state ?? body.state
+  const baseVersion: number | undefined = body.base_version
 
   if (!localState) {
     return error("Local state is required")
@@ -168,23 +202,11 @@ async function handleMerge(req: Request): Promise<Response> {
 
   // No remote state — local wins
   if (!remote) {
-    const stateStr = JSON.stringify(localState)
-    const newVersion = 1
-    const syncedAt = new Date().toISOString()
-
-    await stateStore.set(key, stateStr, {
-      metadata: {
-        version: newVersion,
-        last_synced_at: syncedAt,
-        state_size: stateStr.length,
-        user_id: payload.sub,
-      },
-    })
-
+    const { version, syncedAt } = await writeState(stateStore, payload.sub, JSON.stringify(localState), 1)
     return json({
       success: true,
       resolution: "local_wins",
-      version: newVersion,
+      version,
       state: null, // No need to send back — local already has it
       synced_at: syncedAt,
     })
@@ -199,30 +221,30 @@ async function handleMerge(req: Request): Promise<Response> {
     remoteState = typeof remote.data === "string" ? JSON.parse(remote.data) : remote.data
   } catch {
     // Corrupted remote — local wins
-    const stateStr = JSON.stringify(localState)
-    const newVersion = remoteVersion + 1
-    const syncedAt = new Date().toISOString()
-    await stateStore.set(key, stateStr, {
-      metadata: { version: newVersion, last_synced_at: syncedAt, state_size: stateStr.length, user_id: payload.sub },
-    })
-    return json({ success: true, resolution: "local_wins", version: newVersion, state: null, synced_at: syncedAt })
+    const { version, syncedAt } = await writeState(stateStore, payload.sub, JSON.stringify(localState), remoteVersion + 1)
+    return json({ success: true, resolution: "local_wins", version, state: null, synced_at: syncedAt })
   }
 
-  // Determine winner by lastUpdated timestamp
-  const localUpdated = localState.lastUpdated || "1970-01-01"
-  const remoteUpdated = remoteState.lastUpdated || "1970-01-01"
-
-  if (localUpdated >= remoteUpdated) {
-    // Local wins
-    const stateStr = JSON.stringify(localState)
-    const newVersion = remoteVersion + 1
-    const syncedAt = new Date().toISOString()
-    await stateStore.set(key, stateStr, {
-      metadata: { version: newVersion, last_synced_at: syncedAt, state_size: stateStr.length, user_id: payload.sub },
+  // Common ancestor: the version this device last synced
+  const base = baseVersion ? await loadAncestor(stateStore, payload.sub, baseVersion) : null
+  const { merged, conflicts, stats } = threeWayMerge(base, localState, remoteState)
+
+  // Records changed on both sides — nothing is written until the client resolves them
+  if (conflicts.length > 0) {
+    return json({
+      success: true,
+      resolution: "conflict",
+      version: remoteVersion,
+      state: merged,
+      remote_state: remoteState,
+      conflicts,
+      stats,
+      synced_at: remoteSyncedAt,
     })
-    return json({ success: true, resolution: "local_wins", version: newVersion, state: null, synced_at: syncedAt })
-  } else {
-    // Remote wins — send it back
+  }
+
+  // Only remote changed — fast-forward the client
+  if (stableStringify(withoutMeta(merged)) === stableStringify(withoutMeta(remoteState))) {
     return json({
       success: true,
       resolution: "remote_wins",
@@ -231,13 +253,25 @@ async function handleMerge(req: Request): Promise<Response> {
       synced_at: remoteSyncedAt,
     })
   }
+
+  const { version, syncedAt } = await writeState(stateStore, payload.sub, JSON.stringify(merged), remoteVersion + 1)
+  const localOnly = stats.fromRemote === 0
+
+  return json({
+    success: true,
+    resolution: localOnly ? "local_wins" : "merged",
+    version,
+    state: localOnly ? null : merged,
+    stats,
+    synced_at: syncedAt,
+  })
 }
 
 // ---- Main Handler ----
 
 export default async (req: Request, context: Context) => {
   const url = new URL(req.url)
-  const action = url.searchParams.get("action") || ""
+  const action = url.searchParams.get("action") || (req.method === "POST" ? "save" : "load")
 
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 204 })
@@ -0,0 +1,44 @@
+/**
+ * Fortuna Engine — Workspace API (Netlify Serverless Function)
+ *
+ * Replaces PHP workspace.php with Netlify Functions + Blobs.
+ * Endpoints (via ?action= query param):
+ *   GET  list | get | members | invite_info | state | resources | keys | activity
+ *   POST create | update | delete | member_role | remove_member | leave
+ *        invite | join | save_state | add_resource | delete_resource
+ *        add_key | delete_key | switch
+ *   GET  health — health check
+ * Handlers live in _shared/workspace-core.mts.
+ */
+
+import type { Context, Config } from "@netlify/functions"
+import { getStore } from "@netlify/blobs"
+import { handleWorkspaceRequest } from "./_shared/workspace-core.mts"
+
+function getSecret(): string {
+  return Netlify.env.get("JWT_SECRET") || "fortuna-dev-secret-change-me"
+}
+
+export default async (req: Request, context: Context) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204 })
+  }
+
+  try {
+    return await handleWorkspaceRequest(req, {
+      workspaces: getStore("fortuna-workspaces", { consistency: "strong" }),
+      users: getStore("fortuna-users", { consistency: "strong" }),
+      secret: getSecret(),
+    })
+  } catch (e) {
+    console.error("[Workspace]", e)
+    return new Response(JSON.stringify({ error: true, message: "Internal server error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    })
+  }
+}
+
+export const config: Config = {
+  path: "/api/workspace.php",
+}
@@ -13,6 +13,7 @@ import { MobileBottomBar } from './components/MobileBottomBar'
 import { SaveStatusBar } from './components/SaveStatusBar'
 import { QuickStartWizard } from './components/QuickStartWizard'
 import { UXPreferencesToggle } from './components/UXPreferences'
+import { VaultGate } from './components/VaultLockScreen'
 import './App.css'
 
 // ─── Code-split views (React.lazy) ─────────────────────────────────────────
@@ -71,9 +72,14 @@ const FinTechConnections = lazy(() => import('./views/FinTechConnections'))
 const TransactionReview = lazy(() => import('./views/TransactionReview'))
 const FinTechHub = lazy(() => import('./views/FinTechHub'))
 const ReceiptReconciler = lazy(() => import('./views/ReceiptReconciler').then(m => ({ default: m.ReceiptReconciler })))
+const BankReconciliation = lazy(() => import('./views/BankReconciliation').then(m => ({ default: m.BankReconciliation })))
+const GeneralLedger = lazy(() => import('./views/GeneralLedger').then(m => ({ default: m.GeneralLedger })))
+const Invoicing = lazy(() => import('./views/Invoicing').then(m => ({ default: m.Invoicing })))
+const Vendors = lazy(() => import('./views/Vendors').then(m => ({ default: m.Vendors })))
+const Payroll = lazy(() => import('./views/Payroll').then(m => ({ default: m.Payroll })))
 const FinancialStatementsWizard = lazy(() => import('./views/FinancialStatementsWizard').then(m => ({ default: m.FinancialStatementsWizard })))
 
-export type ViewKey = 'dashboard' | 'tax' | 'entity' | 'revenue' | 'risk' | 'automations' | 'advisor' | 'setup' | 'scenarios' | 'timeline' | 'flow' | 'reports' | 'cashflow' | 'audit' | 'alerts' | 'calendar' | 'documents' | 'import' | 'receipt-scan' | 'workflows' | 'optimizer' | 'health' | 'cpa' | 'data' | 'history' | 'taxdocs' | 'retirement' | 'arbitrage' | 'multiyear' | 'depreciation' | 'credits' | 'nexus' | 'pnl' | 'paycheck' | 'deductions' | 'marginal' | 'goals' | 'taxprep' | 'workspace' | 'portfolio' | 'quickbooks' | 'fintech' | 'fintech-hub' | 'txn-review' | 'receipt-reconcile' | 'fin-statements'
+export type ViewKey = 'dashboard' | 'tax' | 'entity' | 'revenue' | 'risk' | 'automations' | 'advisor' | 'setup' | 'scenarios' | 'timeline' | 'flow' | 'reports' | 'cashflow' | 'audit' | 'alerts' | 'calendar' | 'documents' | 'import' | 'receipt-scan' | 'workflows' | 'optimizer' | 'health' | 'cpa' | 'data' | 'history' | 'taxdocs' | 'retirement' | 'arbitrage' | 'multiyear' | 'depreciation' | 'credits' | 'nexus' | 'pnl' | 'paycheck' | 'deductions' | 'marginal' | 'goals' | 'taxprep' | 'workspace' | 'portfolio' | 'quickbooks' | 'fintech' | 'fintech-hub' | 'txn-review' | 'receipt-reconcile' | 'bank-reconcile' | 'fin-statements' | 'ledger' | 'invoicing' | 'vendors' | 'payroll'
 
 const VALID_VIEWS = new Set<ViewKey>([
   'dashboard','tax','entity','revenue','risk','automations','advisor','setup',
@@ -81,7 +87,7 @@ const VALID_VIEWS = new Set<ViewKey>([
   'documents', 'import', 'receipt-scan', 'workflows', 'optimizer', 'health', 'cpa', 'data', 'history', 'taxdocs',
   'retirement','arbitrage','multiyear','depreciation','credits','nexus','pnl',
   'paycheck', 'deductions', 'marginal', 'goals', 'taxprep', 'workspace', 'portfolio', 'quickbooks', 'fintech', 'fintech-hub', 'txn-review', 'receipt-reconcile',
-  'fin-statements',
+  'bank-reconcile', 'fin-statements', 'ledger', 'invoicing', 'vendors', 'payroll',
 ])
 
 function AppInner() {
@@ -214,7 +220,12 @@ function AppInner() {
       case 'txn-review': return <TransactionReview />
       case 'fintech-hub': return <FinTechHub />
       case 'receipt-reconcile': return <ReceiptReconciler />
+      case 'bank-reconcile': return <BankReconciliation />
       case 'fin-statements': return <FinancialStatementsWizard />
+      case 'ledger': return <GeneralLedger />
+      case 'invoicing': return <Invoicing />
+      case 'vendors': return <Vendors />
+      case 'payroll': return <Payroll />
       default: return <Dashboard onNavigate={setActiveView} />
     }
   }, [activeView, state.onboardingComplete, setActiveView])
@@ -366,9 +377,11 @@ function AuthGate() {
   }
   
   return (
-    <FortunaProvider>
-      <AppInner />
-    </FortunaProvider>
+    <VaultGate>
+      <FortunaProvider>
+        <AppInner />
+      </FortunaProvider>
+    </VaultGate>
   )
 }
 
@@ -21,7 +21,7 @@ import {
   FileSpreadsheet, PiggyBank, MapPin, Search,
   CalendarRange, Package, Award,
   Brain, BarChart,
-  CreditCard, Layers, Target, ClipboardCheck, Radio, BookOpen, Landmark, ListChecks,
+  CreditCard, Layers, Target, ClipboardCheck, Radio, BookOpen, Landmark, ListChecks, CheckCheck, BookMarked, ReceiptText, Contact, Banknote,
 } from 'lucide-react'
 
 interface SidebarProps {
@@ -121,6 +121,11 @@ const sections: NavSection[] = [
       { key: 'quickbooks', label: 'QuickBooks Import', friendlyLabel: 'QuickBooks', icon: <BookOpen size={18} /> },
       { key: 'fintech', label: 'Linked Accounts', friendlyLabel: 'Bank Accounts', icon: <Landmark size={18} /> },
       { key: 'txn-review', label: 'Transaction Review', friendlyLabel: 'Transactions', icon: <ListChecks size={18} /> },
+      { key: 'bank-reconcile', label: 'Bank Reconciliation', friendlyLabel: 'Reconcile', icon: <CheckCheck size={18} /> },
+      { key: 'ledger', label: 'General Ledger', friendlyLabel: 'Books', icon: <BookMarked size={18} /> },
+      { key: 'invoicing', label: 'Invoicing', friendlyLabel: 'Invoices', icon: <ReceiptText size={18} /> },
+      { key: 'vendors', label: 'Vendors & 1099s', friendlyLabel: 'Contractors', icon: <Contact size={18} /> },
+      { key: 'payroll', label: 'Payroll', friendlyLabel: 'Pay Yourself', icon: <Banknote size={18} /> },
       { key: 'fintech-hub', label: 'FinTech Hub', friendlyLabel: 'FinTech APIs', icon: <Radio size={18} /> },
       { key: 'setup', label: 'Edit Profile', friendlyLabel: 'My Profile', icon: <Settings size={18} /> },
       { key: 'data', label: 'Data Manager', friendlyLabel: 'Manage Data', icon: <Database size={18} /> },
@@ -2,10 +2,12 @@
  * Fortuna Engine — Sync Status Indicator
  * 
  * Shows cloud sync status in the sidebar. Clickable to force sync or view details.
+ * When a sync finds records edited on two devices, opens a per-record review.
  */
 
 import { useState } from 'react'
-import { useAuth } from '../context/AuthContext'
+import { useAuth, type PendingMerge } from '../context/AuthContext'
+import { diffFields, type SyncConflict, type SyncSide } from '../engine/sync-merge'
 
 const STATUS_CONFIG = {
   idle: { icon: '☁️', label: 'Cloud', color: '#6b7280' },
@@ -17,8 +19,9 @@ const STATUS_CONFIG = {
 }
 
 export function SyncStatusBar() {
-  const { user, isLoggedIn, isOfflineMode, syncStatus, lastSyncedAt, cloudVersion, logout, connectAccount } = useAuth()
+  const { user, isLoggedIn, isOfflineMode, syncStatus, lastSyncedAt, cloudVersion, pendingMerge, resolveConflicts, logout, connectAccount } = useAuth()
   const [showDetails, setShowDetails] = useState(false)
+  const [showReview, setShowReview] = useState(false)
 
   // Offline mode — show "Connect Account" prompt
   if (!isLoggedIn && isOfflineMode) {
@@ -126,6 +129,24 @@ export function SyncStatusBar() {
             <span>Cloud version:</span>
             <span>v{cloudVersion}</span>
           </div>
+          {pendingMerge && pendingMerge.conflicts.length > 0 && (
+            <button
+              onClick={() => { setShowReview(true); setShowDetails(false) }}
+              style={{
+                width: '100%',
+                padding: '0.4rem',
+                marginBottom: '0.5rem',
+                background: 'rgba(249, 115, 22, 0.1)',
+                border: '1px solid rgba(249, 115, 22, 0.35)',
+                borderRadius: '6px',
+                color: '#fdba74',
+                fontSize: '0.7rem',
+                cursor: 'pointer',
+              }}
+            >
+              Review {pendingMerge.conflicts.length} conflict{pendingMerge.conflicts.length === 1 ? '' : 's'}
+            </button>
+          )}
           <button
             onClick={() => { logout(); setShowDetails(false) }}
             style={{
@@ -144,9 +165,166 @@ export function SyncStatusBar() {
         </div>
       )}
 
+      {showReview && pendingMerge && (
+        <ConflictReview
+          pending={pendingMerge}
+          onCancel={() => setShowReview(false)}
+          onApply={async choices => { setShowReview(false); await resolveConflicts(choices) }}
+        />
+      )}
+
       <style>{`
         @keyframes spin { from { transform: rotate(0deg); } to { transform: rotate(360deg); } }
       `}</style>
     </div>
   )
 }
+
+// ============================================
+//  CONFLICT REVIEW
+// ============================================
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—'
+  if (value === null) return 'null'
+  if (typeof value === 'number') return value.toLocaleString()
+  if (typeof value === 'string') return value || '""'
+  const text = JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text
+}
+
+function describeSide(conflict: SyncConflict, side: SyncSide): string | null {
+  const value = side === 'local' ? conflict.local : conflict.remote
+  if (value !== undefined) return null
+  return conflict.base === undefined ? 'Not present' : 'Deleted'
+}
+
+function ConflictReview({ pending, onCancel, onApply }: {
+  pending: PendingMerge
+  onCancel: () => void
+  onApply: (choices: Record<string, SyncSide>) => void
+}) {
+  const [choices, setChoices] = useState<Record<string, SyncSide>>({})
+
+  const chooseAll = (side: SyncSide) =>
+    setChoices(Object.fromEntries(pending.conflicts.map(c => [c.key, side])))
+
+  const sideButton = (conflict: SyncConflict, side: SyncSide) => {
+    const active = (choices[conflict.key] ?? 'local') === side
+    return (
+      <button
+        onClick={() => setChoices(prev => ({ ...prev, [conflict.key]: side }))}
+        style={{
+          flex: 1,
+          padding: '0.3rem',
+          background: active ? 'rgba(251, 191, 36, 0.15)' : 'transparent',
+          border: `1px solid ${active ? 'rgba(251, 191, 36, 0.5)' : 'rgba(75, 85, 99, 0.5)'}`,
+          borderRadius: '6px',
+          color: active ? '#fbbf24' : '#9ca3af',
+          fontSize: '0.7rem',
+          cursor: 'pointer',
+        }}
+      >
+        {side === 'local' ? 'Keep this device' : 'Keep cloud'}
+      </button>
+    )
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      background: 'rgba(0, 0, 0, 0.6)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      padding: '1rem',
+    }}>
+      <div style={{
+        width: '100%',
+        maxWidth: '640px',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#111827',
+        border: '1px solid rgba(249, 115, 22, 0.3)',
+        borderRadius: '12px',
+        boxShadow: '0 25px 50px rgba(0, 0, 0, 0.5)',
+        fontSize: '0.75rem',
+        color: '#d1d5db',
+      }}>
+        <div style={{ padding: '1rem 1.25rem', borderBottom: '1px solid rgba(75, 85, 99, 0.4)' }}>
+          <div style={{ fontSize: '1rem', fontWeight: 600, color: '#f3f4f6' }}>⚡ Sync Conflicts</div>
+          <div style={{ marginTop: '0.25rem', color: '#9ca3af' }}>
+            {pending.conflicts.length} item{pending.conflicts.length === 1 ? ' was' : 's were'} changed on this device and
+            in the cloud (v{pending.remoteVersion}). Everything else merged automatically.
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+            <button className="btn btn-ghost" onClick={() => chooseAll('local')}>Keep all from this device</button>
+            <button className="btn btn-ghost" onClick={() => chooseAll('remote')}>Keep all from cloud</button>
+          </div>
+        </div>
+
+        <div style={{ overflowY: 'auto', padding: '0.75rem 1.25rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {pending.conflicts.map(conflict => {
+            const localNote = describeSide(conflict, 'local')
+            const remoteNote = describeSide(conflict, 'remote')
+            const diffs = localNote || remoteNote ? [] : diffFields(conflict.local, conflict.remote)
+            return (
+              <div key={conflict.key} style={{
+                border: '1px solid rgba(75, 85, 99, 0.4)',
+                borderRadius: '8px',
+                padding: '0.6rem 0.75rem',
+              }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.4rem' }}>
+                  <span style={{ color: '#f3f4f6', fontWeight: 500 }}>{conflict.label}</span>
+                  <span style={{ color: '#6b7280' }}>{conflict.path}</span>
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.25rem 0.5rem', marginBottom: '0.5rem' }}>
+                  <span style={{ color: '#6b7280' }}>Field</span>
+                  <span style={{ color: '#6b7280' }}>This device</span>
+                  <span style={{ color: '#6b7280' }}>Cloud</span>
+                  {diffs.length === 0 ? (
+                    <>
+                      <span>—</span>
+                      <span>{localNote ?? 'Edited'}</span>
+                      <span>{remoteNote ?? 'Edited'}</span>
+                    </>
+                  ) : diffs.map(d => (
+                    <FieldRow key={d.field} field={d.field || conflict.field || 'value'} local={d.local} remote={d.remote} />
+                  ))}
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  {sideButton(conflict, 'local')}
+                  {sideButton(conflict, 'remote')}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div style={{
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '0.5rem',
+          padding: '0.75rem 1.25rem',
+          borderTop: '1px solid rgba(75, 85, 99, 0.4)',
+        }}>
+          <button className="btn btn-ghost" onClick={onCancel}>Later</button>
+          <button className="btn btn-primary" onClick={() => onApply(choices)}>Apply &amp; Sync</button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function FieldRow({ field, local, remote }: { field: string; local: unknown; remote: unknown }) {
+  return (
+    <>
+      <span style={{ color: '#9ca3af' }}>{field}</span>
+      <span style={{ wordBreak: 'break-word' }}>{formatValue(local)}</span>
+      <span style={{ wordBreak: 'break-word' }}>{formatValue(remote)}</span>
+    </>
+  )
+}
@@ -0,0 +1,170 @@
+/**
+ * Fortuna Engine — Vault Lock Screen
+ *
+ * Gate shown when local data is vault-encrypted and no session key is held.
+ * Children (the FortunaProvider tree) are unmounted on lock so no decrypted
+ * state stays in memory, and remount to reload once the vault is reopened.
+ */
+
+import { useState, useEffect, useRef, type ReactNode } from 'react'
+import { Storage } from '../engine/storage'
+import { VaultError, onVaultLock } from '../engine/vault'
+
+type GateStatus = 'checking' | 'locked' | 'open'
+
+export function VaultGate({ children }: { children: ReactNode }) {
+  const [status, setStatus] = useState<GateStatus>('checking')
+
+  useEffect(() => {
+    let cancelled = false
+    const refresh = () => Storage.getVaultStatus().then(s => {
+      if (!cancelled) setStatus(s.enabled && !s.unlocked ? 'locked' : 'open')
+    })
+    refresh()
+    // Re-check rather than assume: clearAll() also ends the session
+    const unsubscribe = onVaultLock(refresh)
+    return () => { cancelled = true; unsubscribe() }
+  }, [])
+
+  if (status === 'checking') return null
+  if (status === 'locked') return <VaultLockScreen onUnlock={() => setStatus('open')} />
+  return <>{children}</>
+}
+
+function VaultLockScreen({ onUnlock }: { onUnlock: () => void }) {
+  const [passphrase, setPassphrase] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => { inputRef.current?.focus() }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      await Storage.unlockVault(passphrase)
+      setPassphrase('')
+      onUnlock()
+    } catch (err) {
+      setError(err instanceof VaultError && err.code === 'BAD_PASSPHRASE'
+        ? 'Incorrect passphrase'
+        : err instanceof Error ? err.message : 'Could not unlock vault')
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <div style={styles.container}>
+      <form style={styles.card} onSubmit={handleSubmit}>
+        <div style={styles.logo}>
+          <div style={styles.logoIcon}>🔒</div>
+          <div style={styles.logoText}>Vault Locked</div>
+          <div style={styles.logoSub}>Your financial data is encrypted on this device</div>
+        </div>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        <label style={styles.label} htmlFor="vault-passphrase">Passphrase</label>
+        <input
+          id="vault-passphrase"
+          ref={inputRef}
+          type="password"
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          style={styles.input}
+          disabled={isUnlocking}
+        />
+
+        <button
+          type="submit"
+          style={{ ...styles.button, ...(isUnlocking || !passphrase ? styles.buttonDisabled : {}) }}
+          disabled={isUnlocking || !passphrase}
+        >
+          {isUnlocking ? 'Unlocking…' : 'Unlock'}
+        </button>
+
+        <div style={styles.hint}>
+          There is no recovery if the passphrase is lost. Restore from an export
+          bundle under Data Manager if you need to start over.
+        </div>
+      </form>
+    </div>
+  )
+}
+
+const styles = {
+  container: {
+    minHeight: '100vh',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    background: '#0a0e1a',
+    fontFamily: "'Inter', sans-serif",
+    padding: '1rem',
+  } as React.CSSProperties,
+  card: {
+    width: '100%',
+    maxWidth: '380px',
+    background: 'rgba(17, 24, 39, 0.8)',
+    border: '1px solid rgba(251, 191, 36, 0.15)',
+    borderRadius: '16px',
+    padding: '2.5rem 2rem',
+    boxShadow: '0 25px 50px rgba(0, 0, 0, 0.5)',
+  } as React.CSSProperties,
+  logo: { textAlign: 'center' as const, marginBottom: '1.5rem' },
+  logoIcon: { fontSize: '2.5rem', marginBottom: '0.5rem' },
+  logoText: { fontSize: '1.4rem', fontWeight: 700, color: '#fbbf24' },
+  logoSub: { fontSize: '0.8rem', color: '#9ca3af', marginTop: '0.25rem' },
+  label: {
+    display: 'block',
+    fontSize: '0.8rem',
+    fontWeight: 500,
+    color: '#d1d5db',
+    marginBottom: '0.4rem',
+  },
+  input: {
+    width: '100%',
+    padding: '0.7rem 0.9rem',
+    background: 'rgba(31, 41, 55, 0.8)',
+    border: '1px solid rgba(75, 85, 99, 0.5)',
+    borderRadius: '8px',
+    color: '#f3f4f6',
+    fontSize: '0.9rem',
+    outline: 'none',
+    boxSizing: 'border-box' as const,
+  } as React.CSSProperties,
+  button: {
+    width: '100%',
+    padding: '0.75rem',
+    background: 'linear-gradient(135deg, #f59e0b, #d97706)',
+    border: 'none',
+    borderRadius: '8px',
+    color: '#0a0e1a',
+    fontSize: '0.95rem',
+    fontWeight: 600,
+    cursor: 'pointer',
+    marginTop: '1rem',
+  } as React.CSSProperties,
+  buttonDisabled: { opacity: 0.6, cursor: 'not-allowed' },
+  error: {
+    background: 'rgba(239, 68, 68, 0.1)',
+    border: '1px solid rgba(239, 68, 68, 0.3)',
+    borderRadius: '8px',
+    padding: '0.6rem 0.8rem',
+    marginBottom: '1rem',
+    fontSize: '0.8rem',
+    color: '#fca5a5',
+  },
+  hint: {
+    marginTop: '1.25rem',
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    textAlign: 'center' as const,
+    lineHeight: 1.5,
+  },
+}
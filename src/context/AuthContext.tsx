@@ -3,6 +3,8 @@
  * 
  * Wraps the app with authentication state management.
  * Handles login/register/logout, token refresh, and sync triggers.
+ * Sync merges record-by-record against the last version this device
+ * synced; records edited on both sides wait for review as conflicts.
  * Works alongside FortunaProvider — auth wraps fortuna.
  */
 
@@ -21,6 +23,7 @@ import {
   type APIError,
 } from '../engine/api-client'
 import { Storage, type FortunaState } from '../engine/storage'
+import { applyResolutions, type SyncConflict, type SyncSide } from '../engine/sync-merge'
 
 // ============================================
 //  TYPES
@@ -29,6 +32,22 @@ import { Storage, type FortunaState } from '../engine/storage'
 export type AuthMode = 'login' | 'register'
 export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error' | 'offline' | 'conflict'
 
+/** Merge result held back from the cloud until the user resolves its conflicts */
+export interface PendingMerge {
+  conflicts: SyncConflict[]
+  merged: FortunaState       // Conflicts default to the local side
+  remoteVersion: number      // Cloud version the merge was computed against
+}
+
+const SYNC_BASE_KEY = 'fortuna:sync-base-version'
+
+/** Last cloud version this device synced — the common ancestor for merges */
+function getBaseVersion(): number | undefined {
+  const raw = localStorage.getItem(SYNC_BASE_KEY)
+  const version = raw ? parseInt(raw, 10) : NaN
+  return Number.isFinite(version) ? version : undefined
+}
+
 interface AuthContextType {
   // Auth state
   user: AuthUser | null
@@ -46,11 +65,13 @@ interface AuthContextType {
   syncStatus: SyncStatus
   lastSyncedAt: string | null
   cloudVersion: number
+  pendingMerge: PendingMerge | null
   
   // Sync actions
   syncToCloud: (state: FortunaState) => Promise<void>
   syncFromCloud: () => Promise<FortunaState | null>
   forceSync: (state: FortunaState) => Promise<void>
+  resolveConflicts: (choices: Record<string, SyncSide>) => Promise<void>
   
   // API config
   apiBaseUrl: string
@@ -76,12 +97,44 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle')
   const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null)
   const [cloudVersion, setCloudVersion] = useState(0)
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null)
   const [isOfflineMode, setIsOfflineMode] = useState(false)
   const [apiBaseUrl, setApiBaseUrlState] = useState(getAPIBaseUrl())
   const [isApiConfigured, setIsApiConfigured] = useState(false)
   
   const syncTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
+  const markSynced = useCallback((version: number, syncedAt?: string | null) => {
+    setCloudVersion(version)
+    localStorage.setItem(SYNC_BASE_KEY, String(version))
+    setLastSyncedAt(syncedAt || new Date().toISOString())
+    setSyncStatus('synced')
+  }, [])
+
+  // Three-way merge with the cloud copy; conflicts are parked for review
+  const mergeWithCloud = useCallback(async (localState: FortunaState, baseVersion = getBaseVersion()) => {
+    const result = await StateAPI.merge(localState, baseVersion)
+    if (result.resolution === 'conflict') {
+      setPendingMerge({
+        conflicts: result.conflicts || [],
+        merged: result.state as FortunaState,
+        remoteVersion: result.version,
+      })
+      setSyncStatus('conflict')
+      return
+    }
+
+    setPendingMerge(null)
+    markSynced(result.version, result.synced_at)
+
+    // If remote had changes, update local
+    if (result.resolution !== 'local_wins' && result.state) {
+      await Storage.saveFullState(result.state)
+      // Signal that state should be reloaded
+      window.dispatchEvent(new CustomEvent('fortuna:state-updated', { detail: result.state }))
+    }
+  }, [markSynced])
+
   // ---- Initialize auth state ----
   useEffect(() => {
     async function init() {
@@ -141,20 +194,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Trigger initial sync
       try {
         const localState = await Storage.getFullState()
-        const mergeResult = await StateAPI.merge(
-          localState,
-          localState.lastUpdated
-        )
-        setCloudVersion(mergeResult.version)
-        setSyncStatus('synced')
-        setLastSyncedAt(new Date().toISOString())
-        
-        // If remote had newer data, update local
-        if (mergeResult.resolution !== 'local_wins' && mergeResult.state) {
-          await Storage.saveFullState(mergeResult.state)
-          // Signal that state should be reloaded
-          window.dispatchEvent(new CustomEvent('fortuna:state-updated', { detail: mergeResult.state }))
-        }
+        await mergeWithCloud(localState)
       } catch (e) {
         console.warn('[Auth] Initial sync failed, continuing offline', e)
         setSyncStatus('offline')
@@ -170,7 +210,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
       return false
     }
-  }, [])
+  }, [mergeWithCloud])
 
   const register = useCallback(async (email: string, password: string, displayName?: string): Promise<boolean> => {
     setAuthError(null)
@@ -185,9 +225,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const localState = await Storage.getFullState()
         if (localState.onboardingComplete) {
           const saveResult = await StateAPI.save(localState, undefined, true)
-          setCloudVersion(saveResult.version)
-          setSyncStatus('synced')
-          setLastSyncedAt(saveResult.synced_at)
+          markSynced(saveResult.version, saveResult.synced_at)
         }
       } catch {
         setSyncStatus('offline')
@@ -203,7 +241,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
       return false
     }
-  }, [])
+  }, [markSynced])
 
   const logout = useCallback(async () => {
     try {
@@ -216,7 +254,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setSyncStatus('idle')
     setCloudVersion(0)
     setLastSyncedAt(null)
+    setPendingMerge(null)
     localStorage.removeItem('fortuna:offline-mode')
+    localStorage.removeItem(SYNC_BASE_KEY)
     clearAuthData()
   }, [])
 
@@ -236,26 +276,33 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   // ---- Sync Actions ----
 
   const syncToCloud = useCallback(async (state: FortunaState) => {
-    if (!user) return
+    // Hold further uploads until pending conflicts are reviewed
+    if (!user || pendingMerge) return
     
     setSyncStatus('syncing')
     try {
-      const result = await StateAPI.save(state, cloudVersion)
+      const result = await StateAPI.save(state, getBaseVersion())
       if (!result.skipped) {
-        setCloudVersion(result.version)
+        markSynced(result.version, result.synced_at)
+      } else {
+        setLastSyncedAt(result.synced_at)
+        setSyncStatus('synced')
       }
-      setLastSyncedAt(result.synced_at)
-      setSyncStatus('synced')
     } catch (e) {
       const apiError = e as APIError
-      if (apiError.code === 'STATE_CONFLICT') {
-        setSyncStatus('conflict')
-      } else {
-        setSyncStatus('error')
+      if (apiError.code === 'STATE_CONFLICT' || apiError.code === 'VERSION_CONFLICT') {
+        // Another device saved since our last sync — merge instead of overwriting
+        try {
+          await mergeWithCloud(state)
+        } catch {
+          setSyncStatus('error')
+        }
+        return
       }
+      setSyncStatus('error')
       console.warn('[Sync] Save failed:', apiError.message)
     }
-  }, [user, cloudVersion])
+  }, [user, pendingMerge, markSynced, mergeWithCloud])
 
   const syncFromCloud = useCallback(async (): Promise<FortunaState | null> => {
     if (!user) return null
@@ -264,9 +311,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const result = await StateAPI.load()
       if (result.state) {
-        setCloudVersion(result.version)
-        setLastSyncedAt(result.last_synced_at)
-        setSyncStatus('synced')
+        markSynced(result.version, result.last_synced_at)
         return result.state as FortunaState
       }
       setSyncStatus('synced')
@@ -275,7 +320,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setSyncStatus('error')
       return null
     }
-  }, [user])
+  }, [user, markSynced])
 
   const forceSync = useCallback(async (state: FortunaState) => {
     if (!user) return
@@ -283,13 +328,40 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setSyncStatus('syncing')
     try {
       const result = await StateAPI.save(state, undefined, true)
-      setCloudVersion(result.version)
-      setLastSyncedAt(result.synced_at)
-      setSyncStatus('synced')
+      setPendingMerge(null)
+      markSynced(result.version, result.synced_at)
     } catch {
       setSyncStatus('error')
     }
-  }, [user])
+  }, [user, markSynced])
+
+  const resolveConflicts = useCallback(async (choices: Record<string, SyncSide>) => {
+    if (!user || !pendingMerge) return
+
+    const resolved: FortunaState = {
+      ...applyResolutions(pendingMerge.merged, pendingMerge.conflicts, choices),
+      lastUpdated: new Date().toISOString(),
+    }
+    setSyncStatus('syncing')
+    try {
+      await Storage.saveFullState(resolved)
+      window.dispatchEvent(new CustomEvent('fortuna:state-updated', { detail: resolved }))
+
+      try {
+        const result = await StateAPI.save(resolved, pendingMerge.remoteVersion)
+        setPendingMerge(null)
+        markSynced(result.version, result.synced_at)
+      } catch (e) {
+        const apiError = e as APIError
+        if (apiError.code !== 'STATE_CONFLICT' && apiError.code !== 'VERSION_CONFLICT') throw e
+        // Cloud moved again while reviewing — merge on top of what we just resolved
+        await mergeWithCloud(resolved, pendingMerge.remoteVersion)
+      }
+    } catch (e) {
+      console.warn('[Sync] Conflict resolution failed:', (e as APIError).message)
+      setSyncStatus('conflict')
+    }
+  }, [user, pendingMerge, markSynced, mergeWithCloud])
 
   // ---- API Config ----
 
@@ -353,9 +425,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       syncStatus,
       lastSyncedAt,
       cloudVersion,
+      pendingMerge,
       syncToCloud,
       syncFromCloud,
       forceSync,
+      resolveConflicts,
       apiBaseUrl,
       setApiUrl,
       isApiConfigured,
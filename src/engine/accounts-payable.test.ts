@@ -0,0 +1,130 @@
+/**
+ * Accounts Payable — Test Suite
+ * Validates: vendor registry, W-9 tracking, payment tagging, 1099-NEC/MISC thresholds, FIRE export, recipient copies
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import {
+  addVendor, updateVendor, recordW9, tagVendorPayments, vendorPayments, vendor1099Summary, boxThreshold, build1099Filings,
+} from './accounts-payable'
+import { generateFireFile, fireFileIssues, recipientCopiesPdf } from './form-1099-export'
+
+describe('vendor 1099s', () => {
+  const now = new Date('2025-06-01T12:00:00Z')
+  const payment = (id: string, date: string, description: string, amount: number, extra: Partial<FortunaState['auditHistory'][number]> = {}): FortunaState['auditHistory'][number] =>
+    ({ id, date, description, amount: -amount, isReconciled: false, accountName: 'Biz Checking', entityId: 'llc-1', ...extra })
+  const address = { street: '1 Main St', city: 'Oakland', state: 'CA', zip: '94601' }
+  const payer = { name: 'Acme LLC', tin: '12-3456789', address, phone: '510-555-0100' }
+  const transmitter = { ...payer, tcc: 'A1B2C', contactName: 'Pat Lee', contactPhone: '5105550100', contactEmail: 'pat@acme.test' }
+
+  /** A contractor, a landlord, a corporation, and an attorney paid by Acme LLC in 2025 */
+  const setup = (): FortunaState => {
+    let state: FortunaState = {
+      ...createDefaultState(),
+      taxYear: 2025,
+      entities: [{ id: 'llc-1', name: 'Acme LLC', type: 'llc', state: 'CA', annualCost: 0, isActive: true }],
+      auditHistory: [
+        payment('p1', '2025-02-01', 'ZELLE TO JANE DOE', 400),
+        payment('p2', '2025-05-01', 'ZELLE TO JANE DOE', 300),
+        payment('p3', '2025-07-01', 'PAYPAL *JANEDOE', 900),
+        payment('p4', '2025-03-01', 'Office lease', 2500, { category: 'rent' }),
+        payment('p5', '2025-04-01', 'Initech Inc', 5000),
+        payment('p6', '2025-08-01', 'Smith Law', 1000),
+        payment('p7', '2025-09-01', 'JANE DOE', 250, { entityId: undefined }),
+      ],
+    }
+    state = addVendor(state, { entityId: 'llc-1', name: 'Jane Doe' }, now)
+    state = addVendor(state, { entityId: 'llc-1', name: 'Harbor Properties', defaultBox: 'misc1' }, now)
+    state = addVendor(state, { entityId: 'llc-1', name: 'Initech Inc' }, now)
+    state = addVendor(state, { entityId: 'llc-1', name: 'Smith Law', isAttorney: true }, now)
+    const [jane, , initech, smith] = state.vendors
+    state = tagVendorPayments(state, ['p4'], state.vendors[1].id)
+    state = recordW9(state, jane.id, { name: 'Jane Doe', tin: '123-45-6789', tinType: 'ssn', classification: 'individual', address }, '2025-01-10')
+    state = recordW9(state, initech.id, { name: 'Initech Inc', tin: '98-7654321', tinType: 'ein', classification: 'c_corp', address }, '2025-01-10')
+    state = recordW9(state, smith.id, { name: 'Smith Law PC', tin: '11-2233445', tinType: 'ein', classification: 'c_corp', address }, '2025-01-10')
+    return state
+  }
+
+  it('totals payments per vendor and box, leaving out card and payment-app payments', () => {
+    const state = setup()
+    const [jane, harbor, initech, smith] = state.vendors
+    expect(smith.aliases).toEqual(['Smith Law'])
+    expect(addVendor(state, { entityId: 'nope', name: 'Ghost' }, now)).toBe(state)
+    expect(recordW9(state, jane.id, { name: 'Jane Doe', tin: '111-11-1111', tinType: 'ssn', classification: 'individual', address }, '2025-01-10')).toBe(state)
+
+    const janePayments = vendorPayments(state, jane, 2025)
+    expect(janePayments.map(p => p.id)).toEqual(['p1', 'p2', 'p3'])   // p7 is a personal payment
+    expect(janePayments[2].channel).toBe('payment_network')
+
+    const summaries = vendor1099Summary(state, 2025, 'llc-1')
+    const byVendor = new Map(summaries.map(s => [s.vendor.id, s]))
+    expect(byVendor.get(jane.id)).toMatchObject({ boxes: { nec1: 700 }, excluded: 900, reportableBoxes: ['nec1'], requiresFiling: true, issues: [] })
+    expect(byVendor.get(harbor.id)).toMatchObject({ boxes: { misc1: 2500 }, requiresFiling: true })
+    expect(byVendor.get(harbor.id)!.issues).toEqual(['W-9 not received', 'Missing or invalid TIN', 'Missing mailing address'])
+    expect(byVendor.get(initech.id)).toMatchObject({ exempt: true, requiresFiling: false })
+    // Legal services to a corporation are still reportable
+    expect(byVendor.get(smith.id)).toMatchObject({ boxes: { nec1: 1000 }, requiresFiling: true })
+  })
+
+  it('applies each box threshold and the 2026 NEC threshold change', () => {
+    const state = setup()
+    const jane = state.vendors[0]
+    expect(boxThreshold('nec1', 2025)).toBe(600)
+    expect(boxThreshold('nec1', 2026)).toBe(2000)
+    expect(boxThreshold('misc2', 2026)).toBe(10)
+
+    const nextYear = { ...state, auditHistory: state.auditHistory.map(t => ({ ...t, date: t.date.replace('2025', '2026') })) }
+    const summary = vendor1099Summary(nextYear, 2026).find(s => s.vendor.id === jane.id)!
+    expect(summary.requiresFiling).toBe(false)
+
+    // Backup withholding makes any amount reportable
+    const withheld = updateVendor(nextYear, jane.id, { federalWithholding: 168 })
+    expect(vendor1099Summary(withheld, 2026).find(s => s.vendor.id === jane.id)!.requiresFiling).toBe(true)
+  })
+
+  it('writes a Publication 1220 FIRE file with NEC and MISC payers', () => {
+    let state = setup()
+    const harbor = state.vendors[1]
+    state = recordW9(state, harbor.id, { name: 'Harbor Properties', tin: '55-6677889', tinType: 'ein', classification: 'llc_p', address }, '2025-01-12')
+    const filings = build1099Filings(vendor1099Summary(state, 2025, 'llc-1'))
+    expect(filings.map(f => `${f.vendor.name}:${f.form}`)).toEqual(['Harbor Properties:MISC', 'Jane Doe:NEC', 'Smith Law PC:NEC'])
+
+    const options = { year: 2025, payer, transmitter, test: true }
+    expect(fireFileIssues(filings, options)).toEqual([])
+    expect(fireFileIssues(filings, { ...options, transmitter: { ...transmitter, tcc: '' } })).toContain('Transmitter Control Code must be 5 characters')
+
+    const records = generateFireFile(filings, options).split('\r\n').slice(0, -1)
+    expect(records.map(r => r[0]).join('')).toBe('TABBCABCF')
+    expect(records.every(r => r.length === 748)).toBe(true)
+    expect(records.map(r => r.slice(499, 507))).toEqual(['00000001', '00000002', '00000003', '00000004', '00000005', '00000006', '00000007', '00000008', '00000009'])
+
+    const [t, aNec, bJane, , cNec, aMisc, bHarbor, cMisc, f] = records
+    expect(t.slice(1, 5)).toBe('2025')
+    expect(t.slice(15, 20)).toBe('A1B2C')
+    expect(t[27]).toBe('T')
+    expect(aNec.slice(25, 27)).toBe('NE')
+    expect(aNec.slice(27, 28)).toBe('1')
+    expect(aMisc.slice(25, 27)).toBe('A ')
+    expect(bJane.slice(10, 20)).toBe('2123456789')
+    expect(bJane.slice(287, 295)).toBe('JANE DOE')
+    expect(bJane.slice(54, 66)).toBe('000000070000')
+    expect(bHarbor.slice(54, 66)).toBe('000000250000')
+    expect(cNec.slice(1, 9)).toBe('00000002')
+    expect(cNec.slice(15, 33)).toBe('000000000000170000')
+    expect(cMisc.slice(15, 33)).toBe('000000000000250000')
+    expect(f.slice(1, 9)).toBe('00000002')
+    expect(f.slice(49, 57)).toBe('00000003')
+  })
+
+  it('renders recipient copies with masked SSNs', () => {
+    const state = setup()
+    const filings = build1099Filings(vendor1099Summary(state, 2025, 'llc-1'))
+    const text = new TextDecoder('latin1').decode(recipientCopiesPdf(filings, payer, 2025))
+    expect(text.startsWith('%PDF-1.4')).toBe(true)
+    expect(text).toContain('/Count 3')
+    expect(text).toContain('(XXX-XX-6789)')
+    expect(text).not.toContain('123-45-6789')
+    expect(text).toContain('($700.00)')
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true)
+  })
+})
@@ -0,0 +1,367 @@
+/**
+ * Fortuna Engine — Accounts Payable & Vendor 1099s
+ *
+ * Vendor registry for each paying entity:
+ *   - W-9 tracking (requested / received), TIN and federal tax classification
+ *   - Per-vendor payments for a year from auditHistory (tagged or matched by
+ *     payee name) and from expenses paid outside the bank feed
+ *   - Box assignment (1099-NEC box 1, 1099-MISC boxes 1, 2, 3, 6, 10) and the
+ *     reporting threshold for each box
+ *   - Filing list for form-1099-export (FIRE file and recipient copies)
+ *
+ * Card and payment-network payments (PayPal, Venmo, Upwork…) are reported by
+ * the processor on 1099-K, so they never count toward the payer's 1099.
+ */
+
+import type { FortunaState, Vendor, Form1099Box, W9Classification, PostalAddress, BankTransaction } from './storage'
+import { fundingAccountId, PERSONAL } from './general-ledger'
+import { normalizePayee, payeeSimilarity } from './import-pipeline'
+import { getTaxParameters } from './tax-parameters'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface VendorInput {
+  entityId?: string
+  name: string
+  businessName?: string
+  aliases?: string[]
+  email?: string
+  defaultBox?: Form1099Box
+  isAttorney?: boolean
+}
+
+export interface W9Details {
+  name: string
+  businessName?: string
+  tin: string
+  tinType: 'ein' | 'ssn'
+  classification: W9Classification
+  address: PostalAddress
+}
+
+export type PaymentChannel = 'direct' | 'card' | 'payment_network'
+
+export interface VendorPayment {
+  id: string                   // auditHistory or expense id
+  source: 'bank' | 'expense'
+  date: string
+  amount: number               // Positive
+  description: string
+  box: Form1099Box
+  channel: PaymentChannel
+  matchedBy: 'tag' | 'payee'
+}
+
+export interface Vendor1099Summary {
+  vendor: Vendor
+  payments: VendorPayment[]
+  boxes: Partial<Record<Form1099Box, number>>    // Reportable (direct) payments per box
+  excluded: number             // Card / payment-network payments, reported on 1099-K instead
+  reportableBoxes: Form1099Box[]                 // Boxes at or over their threshold
+  exempt: boolean              // Corporation (and not an attorney / medical payment)
+  requiresFiling: boolean
+  issues: string[]             // Blocking problems for the filing: TIN, W-9, address
+}
+
+export interface Form1099Filing {
+  vendor: Vendor
+  form: 'NEC' | 'MISC'
+  amounts: Partial<Record<Form1099Box, number>>
+  federalWithholding: number
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const PAYEE_MATCH = 0.75
+const ROYALTY_THRESHOLD = 10       // §6050N — not changed with the §6041 threshold
+const ATTORNEY_THRESHOLD = 600     // §6045(f) gross proceeds
+const CORPORATE: W9Classification[] = ['c_corp', 's_corp', 'llc_c', 'llc_s', 'exempt']
+const PAYMENT_NETWORK = /\b(paypal|venmo|cash ?app|square|stripe|upwork|fiverr|toptal|etsy)\b/i
+
+export const FORM_1099_BOXES: Record<Form1099Box, { form: 'NEC' | 'MISC'; box: string; label: string }> = {
+  nec1: { form: 'NEC', box: '1', label: 'Nonemployee compensation' },
+  misc1: { form: 'MISC', box: '1', label: 'Rents' },
+  misc2: { form: 'MISC', box: '2', label: 'Royalties' },
+  misc3: { form: 'MISC', box: '3', label: 'Other income' },
+  misc6: { form: 'MISC', box: '6', label: 'Medical and health care payments' },
+  misc10: { form: 'MISC', box: '10', label: 'Gross proceeds paid to an attorney' },
+}
+
+// ===================================================================
+//  REGISTRY
+// ===================================================================
+
+function money(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function makeId(prefix: string, now: Date): string {
+  return `${prefix}_${now.getTime().toString(36)}_${Math.random().toString(36).slice(2, 6)}`
+}
+
+/** Digits-only TIN, or undefined when it isn't nine plausible digits */
+export function normalizeTin(tin: string | undefined): string | undefined {
+  const digits = (tin || '').replace(/\D/g, '')
+  if (digits.length !== 9 || /^(\d)\1{8}$/.test(digits)) return undefined
+  return digits
+}
+
+export function formatTin(tin: string, type: Vendor['tinType']): string {
+  return type === 'ein' ? `${tin.slice(0, 2)}-${tin.slice(2)}` : `${tin.slice(0, 3)}-${tin.slice(3, 5)}-${tin.slice(5)}`
+}
+
+/** Recipient copies show only the last four digits of an SSN */
+export function maskTin(tin: string, type: Vendor['tinType']): string {
+  return type === 'ein' ? formatTin(tin, type) : `XXX-XX-${tin.slice(5)}`
+}
+
+export function addVendor(state: FortunaState, input: VendorInput, now = new Date()): FortunaState {
+  const name = input.name.trim()
+  const entityId = input.entityId || PERSONAL
+  if (!name || (entityId !== PERSONAL && !state.entities.some(e => e.id === entityId))) return state
+  const aliases = (input.aliases || []).map(a => a.trim()).filter(Boolean)
+  const vendor: Vendor = {
+    id: makeId('vend', now),
+    entityId,
+    name,
+    w9Status: 'not_requested',
+    ...(input.businessName?.trim() ? { businessName: input.businessName.trim() } : {}),
+    ...(aliases.length > 0 ? { aliases } : {}),
+    ...(input.email?.trim() ? { email: input.email.trim() } : {}),
+    ...(input.defaultBox ? { defaultBox: input.defaultBox } : {}),
+    ...(input.isAttorney ? { isAttorney: true } : {}),
+    createdAt: now.toISOString(),
+  }
+  return { ...state, vendors: [...(state.vendors || []), vendor] }
+}
+
+export function updateVendor(state: FortunaState, vendorId: string, patch: Partial<Omit<Vendor, 'id' | 'createdAt'>>): FortunaState {
+  const vendors = state.vendors || []
+  if (!vendors.some(v => v.id === vendorId)) return state
+  if (patch.name !== undefined && !patch.name.trim()) return state
+  return { ...state, vendors: vendors.map(v => v.id === vendorId ? { ...v, ...patch } : v) }
+}
+
+/** Remove a vendor and clear its tags from transactions and expenses */
+export function removeVendor(state: FortunaState, vendorId: string): FortunaState {
+  if (!(state.vendors || []).some(v => v.id === vendorId)) return state
+  const untag = <T extends { vendorId?: string }>(row: T): T => row.vendorId === vendorId ? withoutVendor(row) : row
+  return {
+    ...state,
+    vendors: state.vendors.filter(v => v.id !== vendorId),
+    auditHistory: state.auditHistory.map(untag),
+    expenses: state.expenses.map(untag),
+  }
+}
+
+function withoutVendor<T extends { vendorId?: string }>(row: T): T {
+  const copy = { ...row }
+  delete copy.vendorId
+  return copy
+}
+
+export function requestW9(state: FortunaState, vendorId: string): FortunaState {
+  const vendor = (state.vendors || []).find(v => v.id === vendorId)
+  if (!vendor || vendor.w9Status === 'received') return state
+  return updateVendor(state, vendorId, { w9Status: 'requested' })
+}
+
+/**
+ * Store the details from a signed W-9. An invalid TIN leaves the vendor
+ * unchanged; a renamed vendor keeps its old name as an alias for matching.
+ */
+export function recordW9(state: FortunaState, vendorId: string, w9: W9Details, receivedDate: string): FortunaState {
+  const tin = normalizeTin(w9.tin)
+  const vendor = (state.vendors || []).find(v => v.id === vendorId)
+  const name = w9.name.trim()
+  if (!tin || !name || !vendor) return state
+  const aliases = vendor.name !== name && !vendor.aliases?.includes(vendor.name)
+    ? [...(vendor.aliases || []), vendor.name]
+    : vendor.aliases
+  return updateVendor(state, vendorId, {
+    name,
+    ...(aliases ? { aliases } : {}),
+    ...(w9.businessName?.trim() ? { businessName: w9.businessName.trim() } : {}),
+    tin,
+    tinType: w9.tinType,
+    classification: w9.classification,
+    address: w9.address,
+    w9Status: 'received',
+    w9ReceivedDate: receivedDate.slice(0, 10),
+  })
+}
+
+/** Tag bank payments to a vendor (or untag them with vendorId undefined) */
+export function tagVendorPayments(state: FortunaState, transactionIds: string[], vendorId: string | undefined): FortunaState {
+  const ids = new Set(transactionIds)
+  if (vendorId && !(state.vendors || []).some(v => v.id === vendorId)) return state
+  return {
+    ...state,
+    auditHistory: state.auditHistory.map(t => {
+      if (!ids.has(t.id)) return t
+      return vendorId ? { ...t, vendorId } : withoutVendor(t)
+    }),
+  }
+}
+
+// ===================================================================
+//  PAYMENTS
+// ===================================================================
+
+/** Default box for a payment from its category, unless the vendor sets one */
+export function boxForPayment(vendor: Vendor, category?: string): Form1099Box {
+  if (vendor.defaultBox) return vendor.defaultBox
+  const c = (category || '').toLowerCase()
+  if (/\brent|lease/.test(c) && !/equipment|vehicle/.test(c)) return 'misc1'
+  if (/royalt/.test(c)) return 'misc2'
+  if (/medical|health|dental/.test(c) && !/insurance/.test(c)) return 'misc6'
+  if (/prize|award/.test(c)) return 'misc3'
+  return 'nec1'
+}
+
+function paymentChannel(t: BankTransaction): PaymentChannel {
+  if (fundingAccountId(t.accountName).startsWith('card:')) return 'card'
+  if (PAYMENT_NETWORK.test(`${t.description} ${t.merchantName || ''}`)) return 'payment_network'
+  return 'direct'
+}
+
+function vendorMatcher(vendor: Vendor): (t: BankTransaction) => boolean {
+  const names = [vendor.name, vendor.businessName, ...(vendor.aliases || [])]
+    .filter((n): n is string => !!n)
+    .map(normalizePayee)
+    .filter(Boolean)
+  return t => {
+    const payee = normalizePayee(t.merchantName || t.description)
+    if (!payee) return false
+    // P2P descriptors wrap the name ("zelle to jane doe") or squash it ("paypal *janedoe")
+    const tokens = new Set(payee.split(' '))
+    return names.some(n => payeeSimilarity(n, payee) >= PAYEE_MATCH
+      || n.split(' ').every(w => tokens.has(w))
+      || n.replace(/ /g, '') === payee.replace(/ /g, ''))
+  }
+}
+
+/**
+ * A vendor's payments in a calendar year: bank payments tagged to it, or
+ * untagged ones from the same entity whose payee matches its name or aliases,
+ * plus expenses tagged to it that no bank row already covers.
+ */
+export function vendorPayments(state: FortunaState, vendor: Vendor, year: number): VendorPayment[] {
+  const prefix = `${year}-`
+  const matches = vendorMatcher(vendor)
+  const taggedElsewhere = (t: BankTransaction) => !!t.vendorId && t.vendorId !== vendor.id
+  const out: VendorPayment[] = []
+  const coveredExpenses = new Set<string>()
+
+  for (const t of state.auditHistory || []) {
+    if (t.amount >= 0 || taggedElsewhere(t)) continue
+    const tagged = t.vendorId === vendor.id
+    if (!tagged && ((t.entityId || PERSONAL) !== vendor.entityId || !matches(t))) continue
+    if (t.linkedExpenseId) coveredExpenses.add(t.linkedExpenseId)
+    if (!t.date.startsWith(prefix)) continue
+    out.push({
+      id: t.id,
+      source: 'bank',
+      date: t.date.slice(0, 10),
+      amount: money(-t.amount),
+      description: t.merchantName || t.description,
+      box: boxForPayment(vendor, t.category),
+      channel: paymentChannel(t),
+      matchedBy: tagged ? 'tag' : 'payee',
+    })
+  }
+
+  for (const e of state.expenses || []) {
+    if (e.vendorId !== vendor.id || coveredExpenses.has(e.id) || e.annualAmount <= 0) continue
+    if ((e.taxYear ?? state.taxYear) !== year) continue
+    out.push({
+      id: e.id,
+      source: 'expense',
+      date: `${year}-12-31`,
+      amount: money(e.annualAmount),
+      description: e.description,
+      box: boxForPayment(vendor, e.category),
+      channel: 'direct',
+      matchedBy: 'tag',
+    })
+  }
+
+  return out.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** Reporting threshold per box for a year */
+export function boxThreshold(box: Form1099Box, year: number): number {
+  if (box === 'misc2') return ROYALTY_THRESHOLD
+  if (box === 'misc10') return ATTORNEY_THRESHOLD
+  return getTaxParameters(year).informationReturns.form1099NEC
+}
+
+function isExemptPayment(vendor: Vendor, box: Form1099Box): boolean {
+  if (!vendor.classification || !CORPORATE.includes(vendor.classification)) return false
+  if (vendor.classification === 'exempt') return true
+  // Payments to corporations are reportable only for medical care and legal services
+  return !(box === 'misc6' || box === 'misc10' || (box === 'nec1' && vendor.isAttorney))
+}
+
+// ===================================================================
+//  1099 SUMMARY & FILINGS
+// ===================================================================
+
+/** Every vendor with payments in the year, what's reportable, and what blocks filing */
+export function vendor1099Summary(state: FortunaState, year: number, entityId?: string): Vendor1099Summary[] {
+  const out: Vendor1099Summary[] = []
+  for (const vendor of state.vendors || []) {
+    if (entityId && vendor.entityId !== entityId) continue
+    const payments = vendorPayments(state, vendor, year)
+    if (payments.length === 0) continue
+
+    const boxes: Partial<Record<Form1099Box, number>> = {}
+    let excluded = 0
+    for (const p of payments) {
+      if (p.channel !== 'direct') {
+        excluded = money(excluded + p.amount)
+        continue
+      }
+      boxes[p.box] = money((boxes[p.box] || 0) + p.amount)
+    }
+
+    const withheld = vendor.federalWithholding || 0
+    const reportableBoxes = (Object.keys(boxes) as Form1099Box[]).filter(box =>
+      !isExemptPayment(vendor, box) && ((boxes[box] || 0) >= boxThreshold(box, year) || withheld > 0))
+    const exempt = Object.keys(boxes).length > 0 && (Object.keys(boxes) as Form1099Box[]).every(box => isExemptPayment(vendor, box))
+    const requiresFiling = reportableBoxes.length > 0
+
+    const issues: string[] = []
+    if (requiresFiling) {
+      if (vendor.w9Status !== 'received') issues.push('W-9 not received')
+      if (!normalizeTin(vendor.tin)) issues.push('Missing or invalid TIN')
+      if (!vendor.address?.street || !vendor.address.zip) issues.push('Missing mailing address')
+    }
+
+    out.push({ vendor, payments, boxes, excluded, reportableBoxes, exempt, requiresFiling, issues })
+  }
+  return out.sort((a, b) => Number(b.requiresFiling) - Number(a.requiresFiling) || a.vendor.name.localeCompare(b.vendor.name))
+}
+
+/** One 1099-NEC and/or 1099-MISC per vendor that requires filing */
+export function build1099Filings(summaries: Vendor1099Summary[]): Form1099Filing[] {
+  const filings: Form1099Filing[] = []
+  for (const s of summaries) {
+    if (!s.requiresFiling) continue
+    for (const form of ['NEC', 'MISC'] as const) {
+      const amounts: Partial<Record<Form1099Box, number>> = {}
+      for (const box of s.reportableBoxes) {
+        if (FORM_1099_BOXES[box].form === form) amounts[box] = s.boxes[box]
+      }
+      if (Object.keys(amounts).length === 0) continue
+      // Backup withholding goes on the first form filed for the vendor
+      const federalWithholding = filings.some(f => f.vendor.id === s.vendor.id) ? 0 : money(s.vendor.federalWithholding || 0)
+      filings.push({ vendor: s.vendor, form, amounts, federalWithholding })
+    }
+  }
+  return filings
+}
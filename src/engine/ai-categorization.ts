@@ -1,5 +1,6 @@
 import type { ReceiptRecord, LegalEntity } from './storage'
 import { sendAIMessage } from './ai-providers'
+import { categorize, type CategorizerModel } from './categorizer'
 
 export interface AICategorizationResult {
     receiptId: string
@@ -18,11 +19,27 @@ export interface AICategorizationResult {
 /**
  * AI Categorization Bridge
  * Uses external LLMs to analyze receipt context against the user's business entities.
+ * A merchant the user has already categorized is answered from the learned model
+ * without calling the LLM.
  */
 export async function categorizeReceiptAI(
     receipt: ReceiptRecord,
-    entities: LegalEntity[]
+    entities: LegalEntity[],
+    model: CategorizerModel | null = null
 ): Promise<AICategorizationResult> {
+    const learned = model ? categorize({ description: receipt.merchantName, amount: -receipt.totalAmount }, model) : null
+    if (learned && (learned.source === 'memory' || learned.source === 'model')) {
+        const isBusiness = learned.category !== 'personal' && learned.category !== 'transfer'
+        return {
+            receiptId: receipt.id,
+            confidence: learned.confidence >= 0.9 ? 'high' : 'medium',
+            isBusiness,
+            category: learned.category,
+            reasoning: `Learned from your earlier categorization of ${receipt.merchantName}`,
+            lineItemAllocations: receipt.items.map(item => ({ itemId: item.id, category: learned.category, isBusiness }))
+        }
+    }
+
     const entityContext = entities.map(e => `${e.name} (${e.type}) - ${e.notes || 'No description'}`).join('\n')
 
     const systemPrompt = `
@@ -14,7 +14,7 @@ import { generateSmartScenarios, evaluateScenario } from './scenario-modeler'
 import { runUnifiedIntelligence, buildIntelligenceBrief } from './unified-intelligence'
 import { buildPortfolioAIContext } from './portfolio-bridge'
 
-export async function buildSystemPrompt(state: FortunaState): Promise<string> {
+export async function buildSystemPrompt(state: FortunaState, options: { tools?: boolean } = {}): Promise<string> {
   const report = generateTaxReport(state)
   const strategies = detectStrategies(state)
   const risks = analyzeRisks(state)
@@ -23,7 +23,8 @@ export async function buildSystemPrompt(state: FortunaState): Promise<string> {
     state.incomeStreams
       .filter(s => ['business', 'freelance'].includes(s.type) && s.isActive)
       .reduce((sum, s) => sum + s.annualAmount, 0),
-    state.profile
+    state.profile,
+    state.taxYear,
   )
 
   const stateName = STATE_TAX_RATES[state.profile.state]?.name || state.profile.state
@@ -316,7 +317,25 @@ FINTECH API INTEGRATION HUB:
 • Transaction Enrichment Engine: 3-tier rule system (MCC → merchant name → category) with confidence scoring, custom user rules, 1099 detection, tax payment identification
 The FinTech Hub provides the "connect your bank" flow that feeds live financial data into all Fortuna engines.
 
-When the user asks questions, draw from ALL of this data — including metamodel fields like depreciation assets, retirement accounts, goals, estimated payments, entity-level P&L, and household data — to provide comprehensive, tailored advice. Always connect recommendations back to their specific numbers. Proactively mention compound opportunities across multiple strategy areas. If the user asks about investments, positions, or portfolio strategy, reference their actual portfolio data. If asked about market conditions, reference live data from the Market Intelligence view. If asked about how to use Fortuna, guide them to specific features by name.`
+When the user asks questions, draw from ALL of this data — including metamodel fields like depreciation assets, retirement accounts, goals, estimated payments, entity-level P&L, and household data — to provide comprehensive, tailored advice. Always connect recommendations back to their specific numbers. Proactively mention compound opportunities across multiple strategy areas. If the user asks about investments, positions, or portfolio strategy, reference their actual portfolio data. If asked about market conditions, reference live data from the Market Intelligence view. If asked about how to use Fortuna, guide them to specific features by name.${options.tools ? buildToolInstructions(state) : ''}`
+}
+
+/** Tool-use rules and the record ids the model needs for propose_state_patch */
+function buildToolInstructions(state: FortunaState): string {
+  const ids = (label: string, rows: { id: string; name: string }[]) =>
+    rows.length ? `${label}:\n${rows.map(r => `- ${r.id}: ${r.name}`).join('\n')}` : `${label}: none`
+
+  return `
+
+TOOLS:
+You can call evaluate_scenario, compare_entities, optimize_roth_conversion and calculate_state_tax. Prefer calling a tool over estimating when the user asks "what if" or wants exact numbers, and quote the tool's figures.
+To change the user's saved data, call propose_state_patch. The user reviews and approves every patch, so never say a change has been made — say it is ready for their approval. Only propose changes the user asked for or agreed to.
+
+RECORD IDS (for update/remove operations):
+${ids('Income streams', state.incomeStreams.map(s => ({ id: s.id, name: `${s.name} (${s.type}, $${s.annualAmount.toLocaleString()})` })))}
+${ids('Expenses', state.expenses.map(e => ({ id: e.id, name: `${e.description} ($${e.annualAmount.toLocaleString()})` })))}
+${ids('Deductions', state.deductions.map(d => ({ id: d.id, name: `${d.description} ($${d.amount.toLocaleString()})` })))}
+${ids('Entities', state.entities.map(e => ({ id: e.id, name: `${e.name} (${e.type})` })))}`
 }
 
 export function buildConversationMessages(
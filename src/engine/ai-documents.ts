@@ -19,6 +19,7 @@ import { generateTaxReport, calculateSCorpSavings, calculateMaxSEPIRA, calculate
 import { generateProactiveAlerts, getFinancialPulse, getQuarterContext } from './proactive-intelligence'
 import { detectStrategies, analyzeRisks, calculateHealthScore } from './strategy-detector'
 import { sendAIMessage, getAISettings, type ChatMessage, type AIResponse } from './ai-providers'
+import { createRedactor } from './ai-redaction'
 
 // ─── Types ────────────────────────────────────────────────────────────
 
@@ -123,9 +124,9 @@ function buildFinancialContext(state: FortunaState): string {
   let scorpAnalysis = ''
   if (selfEmployment > 40000) {
     const salary = Math.round(Math.max(selfEmployment * 0.5, Math.min(selfEmployment * 0.7, 80000)))
-    const savings = calculateSCorpSavings(selfEmployment, salary)
-    const maxSEP = calculateMaxSEPIRA(selfEmployment)
-    const max401k = calculateMaxSolo401k(selfEmployment, profile.age)
+    const savings = calculateSCorpSavings(selfEmployment, salary, state.taxYear)
+    const maxSEP = calculateMaxSEPIRA(selfEmployment, state.taxYear)
+    const max401k = calculateMaxSolo401k(selfEmployment, profile.age, state.taxYear)
     scorpAnalysis = `
 S-CORP ANALYSIS:
   Current SE tax: $${savings.currentSETax.toLocaleString()}
@@ -370,7 +371,8 @@ export async function generateAIDocument(
   onStatus?.('generating')
   const messages: ChatMessage[] = [{ role: 'user', content: user }]
 
-  const response: AIResponse = await sendAIMessage(messages, system)
+  // Names, EINs and addresses are tokenized out and restored in the document
+  const response: AIResponse = await sendAIMessage(messages, system, undefined, { redactor: createRedactor(state, 'document') })
 
   // Phase 4: Wrap in styled document
   onStatus?.('complete')
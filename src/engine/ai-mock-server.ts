@@ -0,0 +1,138 @@
+/**
+ * Fortuna Engine — Mock Local Model Server
+ *
+ * In-process stand-in for an OpenAI-compatible server (the API Ollama and
+ * llama.cpp expose), used by tests and offline demos of the local provider.
+ * Hand its `fetch` to `vi.stubGlobal('fetch', server.fetch)` and point
+ * `AISettings.localBaseUrl` at `server.baseUrl`.
+ *
+ * Serves `GET /models` and `POST /chat/completions` (JSON or SSE stream).
+ * Replies are scripted; streams honour the request's AbortSignal the way
+ * a real fetch does.
+ */
+
+import { DEFAULT_LOCAL_BASE_URL } from './ai-providers'
+
+// ============================================
+//  TYPES
+// ============================================
+
+export type MockReply = string | {
+  text?: string
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[]
+}
+
+export interface MockAIServerOptions {
+  baseUrl?: string
+  replies: MockReply[]        // One per completion request, in order; the last repeats
+  models?: string[]
+  chunkSize?: number          // Characters per streamed delta
+}
+
+export interface MockAIRequest {
+  method: string
+  url: string
+  body?: Record<string, unknown>
+}
+
+export interface MockAIServer {
+  baseUrl: string
+  requests: MockAIRequest[]
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>
+}
+
+// ============================================
+//  SERVER
+// ============================================
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError')
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+/** SSE response that emits one event per pull, erroring once `signal` aborts */
+function sse(events: string[], signal?: AbortSignal | null): Response {
+  const encoder = new TextEncoder()
+  let i = 0
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (signal?.aborted) {
+        controller.error(abortError())
+      } else if (i < events.length) {
+        controller.enqueue(encoder.encode(`data: ${events[i++]}\n\n`))
+      } else {
+        controller.close()
+      }
+    },
+  }, { highWaterMark: 0 })  // Pull only on read, so an abort stops the very next event
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+export function createMockAIServer(options: MockAIServerOptions): MockAIServer {
+  const baseUrl = (options.baseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '')
+  const models = options.models || ['llama3.1:8b']
+  const chunkSize = Math.max(1, options.chunkSize || 4)
+  const requests: MockAIRequest[] = []
+  let served = 0
+
+  const completion = (body: Record<string, unknown>, signal?: AbortSignal | null): Response => {
+    const script = options.replies[Math.min(served++, options.replies.length - 1)] ?? ''
+    const reply = typeof script === 'string' ? { text: script } : script
+    const text = reply.text || ''
+    const toolCalls = (reply.toolCalls || []).map((c, i) => ({
+      id: `call_${served}_${i}`, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.arguments) },
+    }))
+    const model = String(body.model || models[0])
+    const usage = { prompt_tokens: estimateTokens(JSON.stringify(body.messages || [])), completion_tokens: estimateTokens(text) }
+    const finish = toolCalls.length ? 'tool_calls' : 'stop'
+
+    if (!body.stream) {
+      return json({
+        id: `chatcmpl-${served}`, object: 'chat.completion', model,
+        choices: [{ index: 0, message: { role: 'assistant', content: text, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) }, finish_reason: finish }],
+        usage,
+      })
+    }
+
+    const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) =>
+      JSON.stringify({ id: `chatcmpl-${served}`, object: 'chat.completion.chunk', model, choices: [{ index: 0, delta, finish_reason: finishReason }] })
+    const events = [chunk({ role: 'assistant', content: '' })]
+    for (let i = 0; i < text.length; i += chunkSize) events.push(chunk({ content: text.slice(i, i + chunkSize) }))
+    toolCalls.forEach((call, index) => {
+      // Name first, then the arguments split in two, as real servers send them
+      const args = call.function.arguments
+      const half = Math.ceil(args.length / 2)
+      events.push(chunk({ tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.function.name, arguments: '' } }] }))
+      events.push(chunk({ tool_calls: [{ index, function: { arguments: args.slice(0, half) } }] }))
+      events.push(chunk({ tool_calls: [{ index, function: { arguments: args.slice(half) } }] }))
+    })
+    events.push(chunk({}, finish))
+    events.push(JSON.stringify({ id: `chatcmpl-${served}`, object: 'chat.completion.chunk', model, choices: [], usage }))
+    events.push('[DONE]')
+    return sse(events, signal)
+  }
+
+  const fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const method = (init.method || 'GET').toUpperCase()
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) as Record<string, unknown> : undefined
+    requests.push({ method, url, body })
+
+    if (init.signal?.aborted) throw abortError()
+    if (!url.startsWith(baseUrl)) throw new TypeError('fetch failed')
+
+    const path = url.slice(baseUrl.length).split('?')[0]
+    if (method === 'GET' && path === '/models') {
+      return json({ object: 'list', data: models.map(id => ({ id, object: 'model', owned_by: 'local' })) })
+    }
+    if (method === 'POST' && path === '/chat/completions' && body) return completion(body, init.signal)
+    return json({ error: { message: `No route for ${method} ${path}` } }, 404)
+  }
+
+  return { baseUrl, requests, fetch }
+}
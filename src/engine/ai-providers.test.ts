@@ -0,0 +1,145 @@
+/**
+ * AI Providers — Test Suite
+ * Validates: local-model streaming and model listing, streamed tool calls, cancellation, Anthropic SSE parsing, proxy and local JSON fallback
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createDefaultState } from './storage'
+import { sendAIMessage, sendAIMessageWithTools, fetchLocalModels, type AISettings } from './ai-providers'
+import { executeToolCall, FORTUNA_TOOLS } from './ai-tools'
+import { createMockAIServer } from './ai-mock-server'
+
+describe('AI streaming and local models', () => {
+  const local: AISettings = { mode: 'proxy', provider: 'local', model: 'llama3.1:8b', clientKeys: {}, localBaseUrl: 'http://127.0.0.1:8080/v1/' }
+
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('streams tokens from a local server and bypasses the proxy', async () => {
+    const server = createMockAIServer({ baseUrl: 'http://127.0.0.1:8080/v1', replies: ['Max out your 401(k) first.'], chunkSize: 5 })
+    vi.stubGlobal('fetch', server.fetch)
+
+    const deltas: string[] = []
+    const result = await sendAIMessage([{ role: 'user', content: 'Where should I save?' }], 'system', local, { onToken: d => deltas.push(d) })
+
+    expect(result).toMatchObject({ text: 'Max out your 401(k) first.', provider: 'local', model: 'llama3.1:8b' })
+    expect(deltas.length).toBeGreaterThan(1)
+    expect(deltas.join('')).toBe(result.text)
+    expect(result.usage?.output_tokens).toBeGreaterThan(0)
+    expect(server.requests).toHaveLength(1)
+    expect(server.requests[0].url).toBe('http://127.0.0.1:8080/v1/chat/completions')
+    expect(server.requests[0].body).toMatchObject({ model: 'llama3.1:8b', stream: true })
+  })
+
+  it('answers without streaming and lists installed models', async () => {
+    const server = createMockAIServer({ replies: ['Plain answer.'], models: ['qwen2.5:14b', 'phi3'] })
+    vi.stubGlobal('fetch', server.fetch)
+
+    const result = await sendAIMessage([{ role: 'user', content: 'Hi' }], 'system', { ...local, localBaseUrl: server.baseUrl })
+    expect(result.text).toBe('Plain answer.')
+    expect(server.requests[0].body?.stream).toBeUndefined()
+
+    expect(await fetchLocalModels(server.baseUrl)).toEqual(['qwen2.5:14b', 'phi3'])
+    expect(await fetchLocalModels('http://localhost:9999/v1')).toBeNull()
+    await expect(sendAIMessage([{ role: 'user', content: 'Hi' }], 'system', { ...local, localBaseUrl: 'http://localhost:9999/v1' }))
+      .rejects.toThrow('Local model server not reachable at http://localhost:9999/v1')
+  })
+
+  it('reassembles streamed tool calls across rounds', async () => {
+    const server = createMockAIServer({
+      replies: [
+        { text: 'Let me check. ', toolCalls: [{ name: 'calculate_state_tax', arguments: { grossIncome: 100000, stateCode: 'CA' } }] },
+        'California tax would be significant.',
+      ],
+    })
+    vi.stubGlobal('fetch', server.fetch)
+
+    const state = createDefaultState()
+    let streamed = ''
+    const result = await sendAIMessageWithTools(
+      [{ role: 'user', content: 'What if I move to CA?' }], 'system', FORTUNA_TOOLS,
+      call => executeToolCall(state, call).result, { ...local, localBaseUrl: server.baseUrl },
+      { onToken: d => { streamed += d } },
+    )
+
+    expect(result.text).toBe('California tax would be significant.')
+    expect(result.toolCalls).toEqual([{ id: 'call_1_0', name: 'calculate_state_tax', arguments: { grossIncome: 100000, stateCode: 'CA' } }])
+    expect(JSON.parse(result.toolResults[0].content).stateCode).toBe('CA')
+    expect(streamed).toBe('Let me check. California tax would be significant.')
+    const second = server.requests[1].body as { messages: { role: string; tool_call_id?: string }[] }
+    expect(second.messages.some(m => m.role === 'tool' && m.tool_call_id === 'call_1_0')).toBe(true)
+  })
+
+  it('cancels a stream mid-response', async () => {
+    const server = createMockAIServer({ replies: ['x'.repeat(400)], chunkSize: 10 })
+    vi.stubGlobal('fetch', server.fetch)
+
+    const controller = new AbortController()
+    const deltas: string[] = []
+    const pending = sendAIMessage([{ role: 'user', content: 'Long answer please' }], 'system', { ...local, localBaseUrl: server.baseUrl }, {
+      signal: controller.signal,
+      onToken: d => { deltas.push(d); if (deltas.length === 3) controller.abort() },
+    })
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+    expect(deltas).toHaveLength(3)
+  })
+
+  it('parses Anthropic server-sent events including tool input', async () => {
+    const events = [
+      { type: 'message_start', message: { usage: { input_tokens: 42 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Compar' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'ing.' } },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_9', name: 'compare_entities' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"net' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: 'Income": 5}' } },
+      { type: 'message_delta', usage: { output_tokens: 17 } },
+      { type: 'message_stop' },
+    ]
+    const sse = events.map(e => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join('')
+    let body: Record<string, unknown> = {}
+    vi.stubGlobal('fetch', async (_url: string, init: { body: string }) => {
+      body = JSON.parse(init.body)
+      return new Response(sse, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+    })
+
+    const deltas: string[] = []
+    const settings: AISettings = { mode: 'direct', provider: 'anthropic', model: 'claude-sonnet-4-20250514', clientKeys: { anthropic: 'key' } }
+    const result = await sendAIMessage([{ role: 'user', content: 'Entity?' }], 'system', settings, { onToken: d => deltas.push(d) })
+
+    expect(body.stream).toBe(true)
+    expect(deltas).toEqual(['Compar', 'ing.'])
+    expect(result.text).toBe('Comparing.')
+    expect(result.toolCalls).toEqual([{ id: 'toolu_9', name: 'compare_entities', arguments: { netIncome: 5 } }])
+    expect(result.usage).toEqual({ input_tokens: 42, output_tokens: 17 })
+  })
+
+  it('falls back to JSON when the proxy answers without streaming', async () => {
+    const store = new Map<string, string>([['fortuna:api-config', JSON.stringify({ baseUrl: 'https://api.example.com' })]])
+    vi.stubGlobal('localStorage', { getItem: (k: string) => store.get(k) ?? null, setItem: () => {}, removeItem: () => {} })
+    vi.stubGlobal('fetch', async () => new Response(
+      JSON.stringify({ content: [{ type: 'text', text: 'Buffered reply.' }], model: 'claude-sonnet-4-20250514', usage: { input_tokens: 9, output_tokens: 3 } }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } },
+    ))
+
+    const deltas: string[] = []
+    const settings: AISettings = { mode: 'proxy', provider: 'anthropic', model: 'claude-sonnet-4-20250514', clientKeys: {} }
+    const result = await sendAIMessage([{ role: 'user', content: 'Hi' }], 'system', settings, { onToken: d => deltas.push(d) })
+
+    expect(result.text).toBe('Buffered reply.')
+    expect(result.usage).toEqual({ input_tokens: 9, output_tokens: 3 })
+    expect(deltas).toEqual(['Buffered reply.'])
+  })
+
+  it('falls back to JSON when a local server ignores stream', async () => {
+    vi.stubGlobal('fetch', async () => new Response(
+      JSON.stringify({ choices: [{ message: { content: 'Unstreamed local reply.' } }], usage: { prompt_tokens: 7, completion_tokens: 4 } }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } },
+    ))
+
+    const deltas: string[] = []
+    const result = await sendAIMessage([{ role: 'user', content: 'Hi' }], 'system', local, { onToken: d => deltas.push(d) })
+
+    expect(result).toMatchObject({ text: 'Unstreamed local reply.', provider: 'local', model: 'llama3.1:8b' })
+    expect(deltas).toEqual(['Unstreamed local reply.'])
+  })
+})
@@ -1,17 +1,29 @@
 /**
  * Fortuna Engine — Multi-Provider AI Client
  * 
- * Supports Anthropic, OpenAI, Google Gemini, and OpenRouter.
+ * Supports Anthropic, OpenAI, Google Gemini, OpenRouter, and a local
+ * OpenAI-compatible server (Ollama, llama.cpp) for households that keep
+ * financial data off cloud vendors.
  * Two modes:
  *   1. Server proxy (keys on server) — preferred, secure
  *   2. Direct browser calls (user enters own keys) — fallback
+ * The local provider always goes direct, whatever the mode.
+ *
+ * Tool calling uses each provider's native format (Anthropic tool_use,
+ * OpenAI/OpenRouter function tools, Gemini functionDeclarations).
+ * `sendAIMessageWithTools` runs the call → execute → respond loop.
+ * Passing `onToken` streams the reply over SSE; `signal` cancels it.
+ * Passing a `redactor` (ai-redaction) tokenizes PII on the way out,
+ * restores it in the reply, and writes the request to the AI audit log.
  */
 
+import type { PIIKind, Redactor, SharingPolicy } from './ai-redaction'
+
 // ============================================
 //  TYPES
 // ============================================
 
-export type ProviderId = 'anthropic' | 'openai' | 'gemini' | 'openrouter'
+export type ProviderId = 'anthropic' | 'openai' | 'gemini' | 'openrouter' | 'local'
 
 export interface ProviderConfig {
   id: ProviderId
@@ -26,6 +38,9 @@ export interface AISettings {
   model: string
   // Client-side keys (only used in 'direct' mode)
   clientKeys: Partial<Record<ProviderId, string>>
+  toolsEnabled?: boolean            // Advisor may call engines and propose edits (default on)
+  localBaseUrl?: string             // OpenAI-compatible endpoint for the local provider
+  redaction?: Partial<Record<PIIKind, SharingPolicy>>  // Per-field sharing; unset kinds are redacted
 }
 
 export interface ChatMessagePart {
@@ -39,6 +54,8 @@ export interface ChatMessagePart {
 export interface ChatMessage {
   role: 'user' | 'assistant'
   content: string | ChatMessagePart[]
+  toolCalls?: AIToolCall[]      // Assistant turn that requested tools
+  toolResults?: AIToolResult[]  // User turn carrying the tool outputs back
 }
 
 export interface AIResponse {
@@ -46,6 +63,34 @@ export interface AIResponse {
   provider: ProviderId
   model: string
   usage?: { input_tokens?: number; output_tokens?: number }
+  toolCalls?: AIToolCall[]
+}
+
+/** Tool the model may call; `parameters` is a JSON Schema object */
+export interface AIToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface AIToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export interface AIToolResult {
+  toolCallId: string
+  name: string
+  content: string
+  isError?: boolean
+}
+
+export interface AIRequestOptions {
+  tools?: AIToolDefinition[]
+  onToken?: (delta: string) => void  // Set to stream; called with each text delta
+  signal?: AbortSignal
+  redactor?: Redactor
 }
 
 // ============================================
@@ -71,6 +116,12 @@ export const DEFAULT_PROVIDERS: ProviderConfig[] = [
     models: ['gemini-2.0-flash', 'gemini-2.0-flash-lite', 'gemini-1.5-pro', 'gemini-1.5-flash'],
     defaultModel: 'gemini-2.0-flash',
   },
+  {
+    id: 'local',
+    name: 'Local (Ollama / llama.cpp)',
+    models: ['llama3.1:8b', 'qwen2.5:14b', 'mistral-nemo'],
+    defaultModel: 'llama3.1:8b',
+  },
   {
     id: 'openrouter',
     name: 'OpenRouter',
@@ -88,6 +139,9 @@ export const DEFAULT_PROVIDERS: ProviderConfig[] = [
   },
 ]
 
+/** Ollama's OpenAI-compatible endpoint; llama.cpp's server uses http://localhost:8080/v1 */
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'
+
 // ============================================
 //  SETTINGS PERSISTENCE
 // ============================================
@@ -115,6 +169,7 @@ function defaultSettings(): AISettings {
     provider: 'openrouter',
     model: 'anthropic/claude-sonnet-4',
     clientKeys: {},
+    toolsEnabled: true,
   }
 }
 
@@ -159,6 +214,20 @@ export async function fetchServerProviders(): Promise<{
   }
 }
 
+/** Model ids installed on a local server (`GET /models`), or null when unreachable */
+export async function fetchLocalModels(baseUrl: string = DEFAULT_LOCAL_BASE_URL, apiKey?: string): Promise<string[] | null> {
+  try {
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    })
+    if (!res.ok) return null
+    const data = await res.json()
+    return (data.data || []).map((m: { id: string }) => m.id)
+  } catch {
+    return null
+  }
+}
+
 // ============================================
 //  SEND MESSAGE (UNIFIED)
 // ============================================
@@ -167,13 +236,80 @@ export async function sendAIMessage(
   messages: ChatMessage[],
   system: string,
   settings?: AISettings,
+  options: AIRequestOptions = {},
 ): Promise<AIResponse> {
   const s = settings || getAISettings()
-  
-  if (s.mode === 'proxy') {
-    return sendViaProxy(messages, system, s)
+  const { redactor, ...rest } = options
+
+  if (!redactor) return dispatch(messages, system, s, rest)
+
+  const outbound = redactor.redactMessages(messages)
+  const outboundSystem = redactor.redact(system)
+  redactor.audit({ provider: s.provider, model: s.model, system: outboundSystem, messages: outbound })
+  const stream = rest.onToken ? redactor.streamRehydrator(rest.onToken) : undefined
+  try {
+    return redactor.rehydrateResponse(await dispatch(outbound, outboundSystem, s, { ...rest, onToken: stream?.push }))
+  } finally {
+    // Also on Stop, so text held back as a possible token still reaches the caller
+    stream?.flush()
+  }
+}
+
+function dispatch(messages: ChatMessage[], system: string, s: AISettings, options: AIRequestOptions): Promise<AIResponse> {
+  if (s.provider === 'local') {
+    return directLocal(messages, system, s, options)
+  } else if (s.mode === 'proxy') {
+    return sendViaProxy(messages, system, s, options)
   } else {
-    return sendDirect(messages, system, s)
+    return sendDirect(messages, system, s, options)
+  }
+}
+
+export interface ToolConversationResult extends AIResponse {
+  messages: ChatMessage[]        // Input plus the tool turns exchanged
+  toolCalls: AIToolCall[]        // Every call made, in order
+  toolResults: AIToolResult[]
+}
+
+/**
+ * Send with tools and keep answering tool calls until the model replies
+ * with text only (or `maxRounds` is reached). When streaming, `onToken`
+ * receives the text of every round.
+ */
+export async function sendAIMessageWithTools(
+  messages: ChatMessage[],
+  system: string,
+  tools: AIToolDefinition[],
+  executeTool: (call: AIToolCall) => AIToolResult | Promise<AIToolResult>,
+  settings?: AISettings,
+  options: { maxRounds?: number; onToken?: (delta: string) => void; signal?: AbortSignal; redactor?: Redactor } = {},
+): Promise<ToolConversationResult> {
+  const { maxRounds = 5, onToken, signal, redactor } = options
+  const conversation = [...messages]
+  const allCalls: AIToolCall[] = []
+  const allResults: AIToolResult[] = []
+
+  for (let round = 0; ; round++) {
+    const response = await sendAIMessage(conversation, system, settings, { tools, onToken, signal, redactor })
+    // Calls still pending after maxRounds are dropped; the text so far is the answer
+    if (!response.toolCalls?.length || round >= maxRounds) {
+      return { ...response, messages: conversation, toolCalls: allCalls, toolResults: allResults }
+    }
+
+    const results: AIToolResult[] = []
+    for (const call of response.toolCalls) {
+      try {
+        results.push(await executeTool(call))
+      } catch (err) {
+        results.push({ toolCallId: call.id, name: call.name, content: `Error: ${err instanceof Error ? err.message : String(err)}`, isError: true })
+      }
+    }
+    allCalls.push(...response.toolCalls)
+    allResults.push(...results)
+    conversation.push(
+      { role: 'assistant', content: response.text, toolCalls: response.toolCalls },
+      { role: 'user', content: '', toolResults: results },
+    )
   }
 }
 
@@ -185,6 +321,7 @@ async function sendViaProxy(
   messages: ChatMessage[],
   system: string,
   settings: AISettings,
+  options: AIRequestOptions,
 ): Promise<AIResponse> {
   const apiConfig = localStorage.getItem('fortuna:api-config')
   if (!apiConfig) throw new Error('API not configured. Set up your backend URL or switch to direct mode.')
@@ -201,16 +338,20 @@ async function sendViaProxy(
   
   const res = await fetch(`${baseUrl}/advisor.php`, {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'Content-Type': 'application/json',
       ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
     },
     body: JSON.stringify({
-      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      // Anthropic-shaped; the server translates for other providers
+      messages: toAnthropicMessages(messages),
       system,
       provider: settings.provider,
       model: settings.model,
       max_tokens: 4000,
+      ...(options.tools?.length ? { tools: toAnthropicTools(options.tools) } : {}),
+      ...(options.onToken ? { stream: true } : {}),
       ...(workspaceId ? { workspace_id: workspaceId } : {}),
     }),
   })
@@ -220,17 +361,27 @@ async function sendViaProxy(
     throw new Error(err.message || `Proxy error: ${res.status}`)
   }
   
+  // Streamed replies are relayed in Anthropic's SSE format; a proxy that
+  // ignores `stream` answers with plain JSON instead
+  const streamed = (res.headers.get('Content-Type') || '').includes('text/event-stream')
+  if (options.onToken && streamed) {
+    return { ...await readAnthropicStream(res, options.onToken), provider: settings.provider, model: settings.model }
+  }
+  
   const data = await res.json()
   const text = data.content
     ?.filter((b: any) => b.type === 'text')
     .map((b: any) => b.text)
     .join('\n') || ''
+  const toolCalls = fromAnthropicToolUse(data.content)
+  if (options.onToken && text) options.onToken(text)
   
   return {
     text,
     provider: data.provider || settings.provider,
     model: data.model || settings.model,
     usage: data.usage,
+    ...(toolCalls.length ? { toolCalls } : {}),
   }
 }
 
@@ -242,6 +393,7 @@ async function sendDirect(
   messages: ChatMessage[],
   system: string,
   settings: AISettings,
+  options: AIRequestOptions,
 ): Promise<AIResponse> {
   const apiKey = settings.clientKeys[settings.provider]
   if (!apiKey) {
@@ -250,22 +402,23 @@ async function sendDirect(
   
   switch (settings.provider) {
     case 'anthropic':
-      return directAnthropic(messages, system, settings.model, apiKey)
+      return directAnthropic(messages, system, settings.model, apiKey, options)
     case 'openai':
-      return directOpenAI(messages, system, settings.model, apiKey)
+      return directOpenAI(messages, system, settings.model, apiKey, options)
     case 'gemini':
-      return directGemini(messages, system, settings.model, apiKey)
+      return directGemini(messages, system, settings.model, apiKey, options)
     case 'openrouter':
-      return directOpenRouter(messages, system, settings.model, apiKey)
+      return directOpenRouter(messages, system, settings.model, apiKey, options)
     default:
       throw new Error(`Unknown provider: ${settings.provider}`)
   }
 }
 
 // ---- Anthropic Direct ----
-async function directAnthropic(messages: ChatMessage[], system: string, model: string, apiKey: string): Promise<AIResponse> {
+async function directAnthropic(messages: ChatMessage[], system: string, model: string, apiKey: string, options: AIRequestOptions): Promise<AIResponse> {
   const res = await fetch('https://api.anthropic.com/v1/messages', {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'Content-Type': 'application/json',
       'x-api-key': apiKey,
@@ -276,7 +429,9 @@ async function directAnthropic(messages: ChatMessage[], system: string, model: s
       model,
       max_tokens: 4000,
       system: system || undefined,
-      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      messages: toAnthropicMessages(messages),
+      ...(options.tools?.length ? { tools: toAnthropicTools(options.tools) } : {}),
+      ...(options.onToken ? { stream: true } : {}),
     }),
   })
   
@@ -285,24 +440,29 @@ async function directAnthropic(messages: ChatMessage[], system: string, model: s
     throw new Error(err.error?.message || `Anthropic error: ${res.status}`)
   }
   
+  if (options.onToken) return { ...await readAnthropicStream(res, options.onToken), provider: 'anthropic', model }
+  
   const data = await res.json()
   const text = (data.content || []).filter((b: any) => b.type === 'text').map((b: any) => b.text).join('\n')
-  return { text, provider: 'anthropic', model, usage: data.usage }
+  const toolCalls = fromAnthropicToolUse(data.content)
+  return { text, provider: 'anthropic', model, usage: data.usage, ...(toolCalls.length ? { toolCalls } : {}) }
 }
 
 // ---- OpenAI Direct ----
-async function directOpenAI(messages: ChatMessage[], system: string, model: string, apiKey: string): Promise<AIResponse> {
-  const apiMessages: any[] = []
-  if (system) apiMessages.push({ role: 'system', content: system })
-  messages.forEach(m => apiMessages.push({ role: m.role, content: m.content }))
+async function directOpenAI(messages: ChatMessage[], system: string, model: string, apiKey: string, options: AIRequestOptions): Promise<AIResponse> {
+  const apiMessages = toOpenAIMessages(messages, system)
   
   const res = await fetch('https://api.openai.com/v1/chat/completions', {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${apiKey}`,
     },
-    body: JSON.stringify({ model, max_tokens: 4000, messages: apiMessages, temperature: 0.7 }),
+    body: JSON.stringify({
+      model, max_tokens: 4000, messages: apiMessages, temperature: 0.7, ...toOpenAITools(options.tools),
+      ...(options.onToken ? { stream: true, stream_options: { include_usage: true } } : {}),
+    }),
   })
   
   if (!res.ok) {
@@ -310,15 +470,19 @@ async function directOpenAI(messages: ChatMessage[], system: string, model: stri
     throw new Error(err.error?.message || `OpenAI error: ${res.status}`)
   }
   
+  if (options.onToken) return { ...await readOpenAIStream(res, options.onToken), provider: 'openai', model }
+  
   const data = await res.json()
-  return { text: data.choices[0]?.message?.content || '', provider: 'openai', model, usage: data.usage }
+  return { ...fromOpenAIChoice(data.choices[0]?.message), provider: 'openai', model, usage: data.usage }
 }
 
 // ---- Gemini Direct ----
-async function directGemini(messages: ChatMessage[], system: string, model: string, apiKey: string): Promise<AIResponse> {
+async function directGemini(messages: ChatMessage[], system: string, model: string, apiKey: string, options: AIRequestOptions): Promise<AIResponse> {
   const contents = messages.map(m => {
     let parts: any[] = []
-    if (typeof m.content === 'string') {
+    if (m.toolResults?.length) {
+      parts = m.toolResults.map(r => ({ functionResponse: { name: r.name, response: { content: r.content, isError: !!r.isError } } }))
+    } else if (typeof m.content === 'string') {
       parts = [{ text: m.content }]
     } else {
       parts = m.content.map(part => {
@@ -333,6 +497,7 @@ async function directGemini(messages: ChatMessage[], system: string, model: stri
         return null
       }).filter(Boolean)
     }
+    for (const call of m.toolCalls || []) parts.push({ functionCall: { name: call.name, args: call.arguments } })
     return {
       role: m.role === 'assistant' ? 'model' : 'user',
       parts,
@@ -346,10 +511,14 @@ async function directGemini(messages: ChatMessage[], system: string, model: stri
   if (system) {
     payload.systemInstruction = { parts: [{ text: system }] }
   }
+  if (options.tools?.length) {
+    payload.tools = [{ functionDeclarations: options.tools.map(t => ({ name: t.name, description: t.description, parameters: t.parameters })) }]
+  }
   
+  const endpoint = options.onToken ? 'streamGenerateContent?alt=sse&' : 'generateContent?'
   const res = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(payload) }
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:${endpoint}key=${apiKey}`,
+    { method: 'POST', signal: options.signal, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(payload) }
   )
   
   if (!res.ok) {
@@ -357,31 +526,37 @@ async function directGemini(messages: ChatMessage[], system: string, model: stri
     throw new Error(err.error?.message || `Gemini error: ${res.status}`)
   }
   
+  if (options.onToken) return { ...await readGeminiStream(res, options.onToken), provider: 'gemini', model }
+  
   const data = await res.json()
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text || ''
+  const parts: GeminiPart[] = data.candidates?.[0]?.content?.parts || []
+  const text = parts.filter(p => typeof p.text === 'string').map(p => p.text).join('\n')
+  const toolCalls = fromGeminiParts(parts)
   const usage = data.usageMetadata ? {
     input_tokens: data.usageMetadata.promptTokenCount,
     output_tokens: data.usageMetadata.candidatesTokenCount,
   } : undefined
   
-  return { text, provider: 'gemini', model, usage }
+  return { text, provider: 'gemini', model, usage, ...(toolCalls.length ? { toolCalls } : {}) }
 }
 
 // ---- OpenRouter Direct ----
-async function directOpenRouter(messages: ChatMessage[], system: string, model: string, apiKey: string): Promise<AIResponse> {
-  const apiMessages: any[] = []
-  if (system) apiMessages.push({ role: 'system', content: system })
-  messages.forEach(m => apiMessages.push({ role: m.role, content: m.content }))
+async function directOpenRouter(messages: ChatMessage[], system: string, model: string, apiKey: string, options: AIRequestOptions): Promise<AIResponse> {
+  const apiMessages = toOpenAIMessages(messages, system)
   
   const res = await fetch('https://openrouter.ai/api/v1/chat/completions', {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${apiKey}`,
       'HTTP-Referer': 'https://fortuna.unlessrx.com',
       'X-Title': 'Fortuna Engine',
     },
-    body: JSON.stringify({ model, max_tokens: 4000, messages: apiMessages }),
+    body: JSON.stringify({
+      model, max_tokens: 4000, messages: apiMessages, ...toOpenAITools(options.tools),
+      ...(options.onToken ? { stream: true } : {}),
+    }),
   })
   
   if (!res.ok) {
@@ -389,8 +564,307 @@ async function directOpenRouter(messages: ChatMessage[], system: string, model:
     throw new Error(err.error?.message || `OpenRouter error: ${res.status}`)
   }
   
+  if (options.onToken) return { ...await readOpenAIStream(res, options.onToken), provider: 'openrouter', model }
+  const data = await res.json()
+  return { ...fromOpenAIChoice(data.choices[0]?.message), provider: 'openrouter', model, usage: data.usage }
+}
+
+// ---- Local (OpenAI-compatible: Ollama, llama.cpp server) ----
+async function directLocal(messages: ChatMessage[], system: string, settings: AISettings, options: AIRequestOptions): Promise<AIResponse> {
+  const baseUrl = (settings.localBaseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '')
+  const apiKey = settings.clientKeys.local  // Only if the server was started with one
+  const model = settings.model
+  
+  let res: Response
+  try {
+    res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model, max_tokens: 4000, messages: toOpenAIMessages(messages, system), ...toOpenAITools(options.tools),
+        ...(options.onToken ? { stream: true } : {}),
+      }),
+    })
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') throw err
+    throw new Error(`Local model server not reachable at ${baseUrl}. Start Ollama or llama.cpp, or change the base URL in AI Settings.`)
+  }
+  
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}))
+    throw new Error(err.error?.message || `Local model error: ${res.status}`)
+  }
+  
+  // Older llama.cpp and Ollama builds ignore `stream` and answer with plain JSON
+  const streamed = (res.headers.get('Content-Type') || '').includes('text/event-stream')
+  if (options.onToken && streamed) return { ...await readOpenAIStream(res, options.onToken), provider: 'local', model }
   const data = await res.json()
-  return { text: data.choices[0]?.message?.content || '', provider: 'openrouter', model, usage: data.usage }
+  const reply = fromOpenAIChoice(data.choices?.[0]?.message)
+  if (options.onToken && reply.text) options.onToken(reply.text)
+  return { ...reply, provider: 'local', model, usage: data.usage }
+}
+
+// ============================================
+//  TOOL-CALL FORMATS
+// ============================================
+
+type ApiPayload = Record<string, unknown>
+
+interface AnthropicContentBlock {
+  type: string
+  id?: string
+  name?: string
+  input?: Record<string, unknown>
+}
+
+interface OpenAIResponseMessage {
+  content?: string | null
+  tool_calls?: { id: string; function?: { name?: string; arguments?: string } }[]
+}
+
+function toAnthropicTools(tools: AIToolDefinition[]): ApiPayload[] {
+  return tools.map(t => ({ name: t.name, description: t.description, input_schema: t.parameters }))
+}
+
+function toAnthropicMessages(messages: ChatMessage[]): ApiPayload[] {
+  return messages.map(m => {
+    if (m.toolResults?.length) {
+      return {
+        role: 'user',
+        content: m.toolResults.map(r => ({ type: 'tool_result', tool_use_id: r.toolCallId, content: r.content, ...(r.isError ? { is_error: true } : {}) })),
+      }
+    }
+    if (m.toolCalls?.length) {
+      const text = typeof m.content === 'string' ? m.content : ''
+      return {
+        role: 'assistant',
+        content: [
+          ...(text ? [{ type: 'text', text }] : []),
+          ...m.toolCalls.map(c => ({ type: 'tool_use', id: c.id, name: c.name, input: c.arguments })),
+        ],
+      }
+    }
+    return { role: m.role, content: m.content }
+  })
+}
+
+function fromAnthropicToolUse(content: AnthropicContentBlock[] | undefined): AIToolCall[] {
+  return (content || [])
+    .filter(b => b.type === 'tool_use')
+    .map(b => ({ id: b.id || '', name: b.name || '', arguments: b.input || {} }))
+}
+
+function toOpenAITools(tools: AIToolDefinition[] | undefined): { tools?: ApiPayload[] } {
+  if (!tools?.length) return {}
+  return { tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })) }
+}
+
+function toOpenAIMessages(messages: ChatMessage[], system: string): ApiPayload[] {
+  const apiMessages: ApiPayload[] = []
+  if (system) apiMessages.push({ role: 'system', content: system })
+  for (const m of messages) {
+    if (m.toolResults?.length) {
+      // One `tool` message per result
+      m.toolResults.forEach(r => apiMessages.push({ role: 'tool', tool_call_id: r.toolCallId, content: r.content }))
+    } else if (m.toolCalls?.length) {
+      apiMessages.push({
+        role: 'assistant',
+        content: typeof m.content === 'string' && m.content ? m.content : null,
+        tool_calls: m.toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.arguments) } })),
+      })
+    } else {
+      apiMessages.push({ role: m.role, content: m.content })
+    }
+  }
+  return apiMessages
+}
+
+/** Malformed arguments reach the tool as {} and it reports what is missing */
+function parseToolArguments(json: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || '{}')
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+function fromOpenAIChoice(message: OpenAIResponseMessage | undefined): { text: string; toolCalls?: AIToolCall[] } {
+  const toolCalls: AIToolCall[] = (message?.tool_calls || []).map(c => ({
+    id: c.id, name: c.function?.name || '', arguments: parseToolArguments(c.function?.arguments),
+  }))
+  return { text: message?.content || '', ...(toolCalls.length ? { toolCalls } : {}) }
+}
+
+interface GeminiPart {
+  text?: string
+  functionCall?: { name: string; args?: Record<string, unknown> }
+}
+
+// Gemini has no call ids; number them so results can be paired
+function fromGeminiParts(parts: GeminiPart[], offset = 0): AIToolCall[] {
+  return parts
+    .filter(p => p.functionCall)
+    .map((p, i) => ({ id: `gemini-${offset + i}`, name: p.functionCall!.name, arguments: p.functionCall!.args || {} }))
+}
+
+// ============================================
+//  STREAMING (SSE)
+// ============================================
+
+type StreamedReply = Pick<AIResponse, 'text' | 'usage' | 'toolCalls'>
+
+/** Yields the `data:` payload of each server-sent event */
+async function* readSSE(res: Response): AsyncGenerator<string> {
+  if (!res.body) return
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let data: string[] = []
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = done ? '' : lines.pop() ?? ''
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length) yield data.join('\n')
+          data = []
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''))
+        }
+        // Comments (": keep-alive") and event:/id: fields carry nothing we need
+      }
+      if (done) break
+    }
+    if (data.length) yield data.join('\n')
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function parseEvent<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T
+  } catch {
+    return null
+  }
+}
+
+interface AnthropicStreamEvent {
+  type: string
+  index?: number
+  message?: { usage?: { input_tokens?: number } }
+  content_block?: AnthropicContentBlock
+  delta?: { type?: string; text?: string; partial_json?: string }
+  usage?: { output_tokens?: number }
+  error?: { message?: string }
+}
+
+async function readAnthropicStream(res: Response, onToken: (delta: string) => void): Promise<StreamedReply> {
+  let text = ''
+  const usage: NonNullable<AIResponse['usage']> = {}
+  const tools = new Map<number, { id: string; name: string; json: string }>()
+
+  for await (const data of readSSE(res)) {
+    const event = parseEvent<AnthropicStreamEvent>(data)
+    if (!event) continue
+    if (event.type === 'error') throw new Error(event.error?.message || 'Stream error')
+    if (event.type === 'message_start') usage.input_tokens = event.message?.usage?.input_tokens
+    if (event.type === 'message_delta') usage.output_tokens = event.usage?.output_tokens
+    if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+      tools.set(event.index ?? 0, { id: event.content_block.id || '', name: event.content_block.name || '', json: '' })
+    }
+    if (event.type === 'content_block_delta') {
+      if (event.delta?.type === 'text_delta' && event.delta.text) {
+        text += event.delta.text
+        onToken(event.delta.text)
+      } else if (event.delta?.type === 'input_json_delta') {
+        const tool = tools.get(event.index ?? 0)
+        if (tool) tool.json += event.delta.partial_json || ''
+      }
+    }
+  }
+
+  const toolCalls = [...tools.values()].map(t => ({ id: t.id, name: t.name, arguments: parseToolArguments(t.json) }))
+  return { text, usage, ...(toolCalls.length ? { toolCalls } : {}) }
+}
+
+interface OpenAIStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[]
+    }
+  }[]
+  usage?: { prompt_tokens?: number; completion_tokens?: number }
+  error?: { message?: string }
+}
+
+async function readOpenAIStream(res: Response, onToken: (delta: string) => void): Promise<StreamedReply> {
+  let text = ''
+  let usage: AIResponse['usage']
+  const tools = new Map<number, { id: string; name: string; json: string }>()
+
+  for await (const data of readSSE(res)) {
+    if (data === '[DONE]') break
+    const chunk = parseEvent<OpenAIStreamChunk>(data)
+    if (!chunk) continue
+    if (chunk.error) throw new Error(chunk.error.message || 'Stream error')
+    if (chunk.usage) usage = { input_tokens: chunk.usage.prompt_tokens, output_tokens: chunk.usage.completion_tokens }
+    const delta = chunk.choices?.[0]?.delta
+    if (delta?.content) {
+      text += delta.content
+      onToken(delta.content)
+    }
+    // Tool calls arrive in pieces keyed by index: id and name first, then argument fragments
+    for (const part of delta?.tool_calls || []) {
+      const tool = tools.get(part.index) ?? { id: '', name: '', json: '' }
+      if (part.id) tool.id = part.id
+      if (part.function?.name) tool.name += part.function.name
+      tool.json += part.function?.arguments || ''
+      tools.set(part.index, tool)
+    }
+  }
+
+  const toolCalls = [...tools.values()].map(t => ({ id: t.id, name: t.name, arguments: parseToolArguments(t.json) }))
+  return { text, usage, ...(toolCalls.length ? { toolCalls } : {}) }
+}
+
+interface GeminiStreamChunk {
+  candidates?: { content?: { parts?: GeminiPart[] } }[]
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number }
+  error?: { message?: string }
+}
+
+async function readGeminiStream(res: Response, onToken: (delta: string) => void): Promise<StreamedReply> {
+  let text = ''
+  let usage: AIResponse['usage']
+  const toolCalls: AIToolCall[] = []
+
+  for await (const data of readSSE(res)) {
+    const chunk = parseEvent<GeminiStreamChunk>(data)
+    if (!chunk) continue
+    if (chunk.error) throw new Error(chunk.error.message || 'Stream error')
+    const parts = chunk.candidates?.[0]?.content?.parts || []
+    for (const part of parts) {
+      if (part.text) {
+        text += part.text
+        onToken(part.text)
+      }
+    }
+    toolCalls.push(...fromGeminiParts(parts, toolCalls.length))
+    if (chunk.usageMetadata) {
+      usage = { input_tokens: chunk.usageMetadata.promptTokenCount, output_tokens: chunk.usageMetadata.candidatesTokenCount }
+    }
+  }
+
+  return { text, usage, ...(toolCalls.length ? { toolCalls } : {}) }
 }
 
 // ============================================
@@ -403,6 +877,7 @@ export function getProviderIcon(id: ProviderId): string {
     openai: '🟢',
     gemini: '🔵',
     openrouter: '🟣',
+    local: '🏠',
   }
   return icons[id] || '⚪'
 }
@@ -0,0 +1,138 @@
+/**
+ * AI PII Redaction — Test Suite
+ * Validates: tokenizing and restoring PII, sharing policies, streamed rehydration, provider requests, audit log and its quota
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import { createRedactor, getAIAuditLog } from './ai-redaction'
+import { FORTUNA_TOOLS } from './ai-tools'
+import { sendAIMessage, sendAIMessageWithTools, type AISettings } from './ai-providers'
+import { createMockAIServer } from './ai-mock-server'
+
+describe('AI PII redaction', () => {
+  function householdState(): FortunaState {
+    const state = createDefaultState()
+    state.profile.name = 'Jordan Rivera'
+    state.household.members = [{ id: 'primary', name: 'Jordan Rivera', role: 'primary', ssn: '123456789' }]
+    state.incomeStreams = [{ id: 'inc-1', name: 'Globex salary', type: 'w2', annualAmount: 95000, isActive: true, w2: { employerName: 'Globex' } }]
+    state.entities = [{
+      id: 'llc-1', name: 'Rivera Design LLC', type: 'llc', state: 'TX', einNumber: '12-3456789', annualCost: 300, isActive: true,
+      address: { street: '500 Congress Ave', city: 'Austin', state: 'TX', zip: '78701' },
+    }]
+    return state
+  }
+
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('tokenizes known and typed PII and restores it', () => {
+    const redactor = createRedactor(householdState(), 'advisor', {})
+    const text = 'Jordan Rivera (SSN 123-45-6789) works at Globex and owns Rivera Design LLC, EIN 12-3456789, at 500 Congress Ave, Austin, TX 78701. '
+      + 'Email jordan@example.com, call (512) 555-0142, checking account #000123456789.'
+    const redacted = redactor.redact(text)
+
+    for (const pii of ['Jordan', '123-45-6789', 'Globex', 'Rivera Design', '12-3456789', 'Congress', 'jordan@example.com', '555-0142', '000123456789']) {
+      expect(redacted).not.toContain(pii)
+    }
+    expect(redacted).toContain('[PERSON_1] (SSN [SSN_1]) works at [EMPLOYER_1] and owns [BUSINESS_1], EIN [EIN_1], at [ADDRESS_1].')
+    // Known values rehydrate to the form stored in state
+    expect(redactor.rehydrate(redacted)).toBe(text.replace('123-45-6789', '123456789'))
+
+    // Same state, same tokens; shared kinds pass through
+    expect(createRedactor(householdState(), 'advisor', {}).redact('Globex')).toBe('[EMPLOYER_1]')
+    expect(createRedactor(householdState(), 'advisor', { employer: 'share' }).redact('Globex pays $95,000')).toBe('Globex pays $95,000')
+  })
+
+  it('rehydrates tokens split across streamed deltas', () => {
+    const redactor = createRedactor(householdState(), 'advisor', {})
+    redactor.redact('Jordan Rivera at Globex')
+    const out: string[] = []
+    const stream = redactor.streamRehydrator(d => out.push(d))
+    for (const delta of ['Hi [PER', 'SON_1], your [', 'EMPLOYER_1] W-2 [looks', ' fine] [PERSON_']) stream.push(delta)
+    stream.flush()
+    expect(out.join('')).toBe('Hi Jordan Rivera, your Globex W-2 [looks fine] [PERSON_')
+    expect(out[0]).toBe('Hi ')
+  })
+
+  it('keeps PII out of provider requests and logs what was sent', async () => {
+    const store = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => { store.set(k, v) },
+      removeItem: (k: string) => { store.delete(k) },
+    })
+    const server = createMockAIServer({
+      replies: [
+        { text: 'Checking [BUSINESS_1]. ', toolCalls: [{ name: 'propose_state_patch', arguments: { summary: 'Rename [BUSINESS_1]', operations: [] } }] },
+        '[PERSON_1], file Schedule C for [BUSINESS_1].',
+      ],
+    })
+    vi.stubGlobal('fetch', server.fetch)
+
+    const state = householdState()
+    const redactor = createRedactor(state, 'advisor', {})
+    const seen: string[] = []
+    let streamed = ''
+    const result = await sendAIMessageWithTools(
+      [{ role: 'user', content: 'Jordan Rivera here — does Rivera Design LLC (EIN 12-3456789) need a 1065?' }],
+      'Profile: Jordan Rivera, employer Globex', FORTUNA_TOOLS,
+      call => { seen.push(JSON.stringify(call.arguments)); return { toolCallId: call.id, name: call.name, content: 'Entity Rivera Design LLC found' } },
+      { mode: 'direct', provider: 'local', model: 'llama3.1:8b', clientKeys: {}, localBaseUrl: server.baseUrl },
+      { redactor, onToken: d => { streamed += d } },
+    )
+
+    const wire = JSON.stringify(server.requests.map(r => r.body))
+    for (const pii of ['Jordan', 'Rivera', 'Globex', '12-3456789']) expect(wire).not.toContain(pii)
+    expect(seen[0]).toContain('Rename Rivera Design LLC')
+    expect(result.text).toBe('Jordan Rivera, file Schedule C for Rivera Design LLC.')
+    expect(streamed).toBe('Checking Rivera Design LLC. Jordan Rivera, file Schedule C for Rivera Design LLC.')
+
+    const log = getAIAuditLog()
+    expect(log).toHaveLength(2)
+    expect(log[0]).toMatchObject({ purpose: 'advisor', provider: 'local', images: 0, shared: [] })
+    expect(log[1].redacted).toEqual({ person: 1, employer: 1, business: 1, ein: 1 })
+    expect(log[0].sent).toContain('[tool result propose_state_patch] Entity [BUSINESS_1] found')
+    expect(log[0].sent).not.toContain('Rivera')
+  })
+
+  it('delivers held-back text when the stream is stopped', async () => {
+    const event = { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Thanks, [PERSON_1' } }
+    let sent = false
+    vi.stubGlobal('fetch', async () => new Response(new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent) return controller.error(new DOMException('Stopped', 'AbortError'))
+        sent = true
+        controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`))
+      },
+    }), { status: 200, headers: { 'Content-Type': 'text/event-stream' } }))
+
+    let streamed = ''
+    const settings: AISettings = { mode: 'direct', provider: 'anthropic', model: 'claude-sonnet-4-20250514', clientKeys: { anthropic: 'key' } }
+    const pending = sendAIMessage([{ role: 'user', content: 'Hi' }], 'system', settings, {
+      redactor: createRedactor(householdState(), 'advisor', {}), onToken: d => { streamed += d },
+    })
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+    expect(streamed).toBe('Thanks, [PERSON_1')
+  })
+
+  it('trims the audit log until it fits the storage quota', () => {
+    const store = new Map<string, string>()
+    let quota = Infinity
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => { if (v.length > quota) throw new DOMException('full', 'QuotaExceededError'); store.set(k, v) },
+      removeItem: (k: string) => { store.delete(k) },
+    })
+    const redactor = createRedactor(householdState(), 'advisor', {})
+    const send = () => redactor.audit({ provider: 'anthropic', model: 'm', system: 'system', messages: [{ role: 'user', content: 'x'.repeat(500) }] })
+
+    for (let i = 0; i < 8; i++) send()
+    quota = JSON.stringify(getAIAuditLog().slice(0, 2)).length
+    send()
+    expect(getAIAuditLog()).toHaveLength(2)
+
+    quota = 0
+    expect(send).not.toThrow()
+    expect(getAIAuditLog()).toHaveLength(2)
+  })
+})
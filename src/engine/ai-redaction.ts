@@ -0,0 +1,344 @@
+/**
+ * Fortuna Engine — AI Redaction Layer
+ *
+ * Reversible PII redaction between FortunaState and outbound AI requests.
+ * SSNs, EINs, account numbers, names, employers, addresses, emails and
+ * phone numbers are swapped for stable tokens (`[PERSON_1]`, `[EIN_2]`)
+ * before a prompt leaves the browser, and swapped back in the reply —
+ * including streamed deltas and tool-call arguments.
+ *
+ * Values known from state (household, entities, employers, vendors,
+ * employees) are registered first, in a fixed order, so the same person
+ * gets the same token on every request. Pattern detectors then catch
+ * anything the user typed. Each kind can be shared or redacted per the
+ * policy in AI Settings. Every request is written to the AI audit log
+ * exactly as sent.
+ *
+ * Images (document scans) cannot be tokenized; only their text parts are.
+ */
+
+import type { FortunaState, PostalAddress } from './storage'
+import { getAISettings, type AIResponse, type ChatMessage, type ProviderId } from './ai-providers'
+
+// ============================================
+//  TYPES
+// ============================================
+
+export type PIIKind = 'ssn' | 'ein' | 'account' | 'person' | 'employer' | 'business' | 'address' | 'email' | 'phone'
+
+export type SharingPolicy = 'share' | 'redact'
+
+export type RedactionPolicy = Record<PIIKind, SharingPolicy>
+
+export type AIAuditPurpose = 'advisor' | 'document' | 'vision'
+
+export interface AIAuditEntry {
+  id: string
+  timestamp: string
+  purpose: AIAuditPurpose
+  provider: ProviderId
+  model: string
+  redacted: Partial<Record<PIIKind, number>>  // Distinct values tokenized in this request
+  shared: PIIKind[]                           // Kinds the policy let through
+  images: number                              // Attached images, sent as-is
+  characters: number
+  sent: string                                // System prompt and messages as sent (may be truncated)
+}
+
+export interface Redactor {
+  readonly purpose: AIAuditPurpose
+  readonly policy: RedactionPolicy
+  redact(text: string): string
+  rehydrate(text: string): string
+  redactMessages(messages: ChatMessage[]): ChatMessage[]
+  rehydrateResponse<T extends AIResponse>(response: T): T
+  /** Wraps `onToken` so tokens split across deltas are rehydrated whole */
+  streamRehydrator(onToken: (delta: string) => void): { push: (delta: string) => void; flush: () => void }
+  /** Records an outbound request in the AI audit log */
+  audit(request: { provider: ProviderId; model: string; system: string; messages: ChatMessage[] }): AIAuditEntry
+}
+
+// ============================================
+//  POLICY
+// ============================================
+
+export const PII_KINDS: { kind: PIIKind; label: string; token: string }[] = [
+  { kind: 'ssn', label: 'Social Security numbers', token: 'SSN' },
+  { kind: 'ein', label: 'EINs', token: 'EIN' },
+  { kind: 'account', label: 'Account numbers', token: 'ACCOUNT' },
+  { kind: 'person', label: 'Household & employee names', token: 'PERSON' },
+  { kind: 'employer', label: 'Employer names', token: 'EMPLOYER' },
+  { kind: 'business', label: 'Entity, customer & vendor names', token: 'BUSINESS' },
+  { kind: 'address', label: 'Addresses', token: 'ADDRESS' },
+  { kind: 'email', label: 'Email addresses', token: 'EMAIL' },
+  { kind: 'phone', label: 'Phone numbers', token: 'PHONE' },
+]
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  ssn: 'redact', ein: 'redact', account: 'redact', person: 'redact', employer: 'redact',
+  business: 'redact', address: 'redact', email: 'redact', phone: 'redact',
+}
+
+export function resolveRedactionPolicy(overrides?: Partial<RedactionPolicy>): RedactionPolicy {
+  return { ...DEFAULT_REDACTION_POLICY, ...overrides }
+}
+
+// ============================================
+//  DETECTION
+// ============================================
+
+const TOKEN_LABEL = Object.fromEntries(PII_KINDS.map(k => [k.kind, k.token])) as Record<PIIKind, string>
+const LABEL_KIND = Object.fromEntries(PII_KINDS.map(k => [k.token, k.kind])) as Record<string, PIIKind>
+const TOKEN_RE = new RegExp(`\\[(${PII_KINDS.map(k => k.token).join('|')})_(\\d+)\\]`, 'g')
+
+const STREET_SUFFIX = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Place|Pl|Parkway|Pkwy|Circle|Cir|Terrace|Ter|Highway|Hwy'
+
+/** Pattern detectors, run after known values; order matters (SSN before phone, etc.) */
+const PATTERNS: { kind: PIIKind; re: RegExp; group?: number }[] = [
+  { kind: 'email', re: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { kind: 'ssn', re: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { kind: 'ein', re: /\b\d{2}-\d{7}\b/g },
+  { kind: 'phone', re: /(?:\+1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g },
+  { kind: 'account', re: /\b(?:account|acct|routing)(?:\s*(?:#|no\.?|number))?[\s:#]*(\d{4,17})\b/gi, group: 1 },
+  { kind: 'account', re: /\b\d{10,17}\b/g },
+  {
+    kind: 'address',
+    re: new RegExp(`\\b\\d{1,6}\\s+(?:[A-Z0-9][A-Za-z0-9.'-]*\\s+){1,4}(?:${STREET_SUFFIX})\\b\\.?(?:,?\\s*(?:Apt|Suite|Ste|Unit|#)\\.?\\s*[A-Za-z0-9-]+)?`, 'g'),
+  },
+]
+
+const DIGIT_KINDS = new Set<PIIKind>(['ssn', 'ein', 'account', 'phone'])
+
+/** Vault key: digits only for numeric kinds so 123-45-6789 and 123456789 share a token */
+function normalize(kind: PIIKind, value: string): string {
+  return DIGIT_KINDS.has(kind) ? value.replace(/\D/g, '') : value.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+function formatAddress(a: PostalAddress): string {
+  return `${a.street}, ${a.city}, ${a.state} ${a.zip}`
+}
+
+/** PII already in state, in a fixed order so tokens are stable across requests */
+function knownValues(state: FortunaState): { kind: PIIKind; value: string }[] {
+  const out: { kind: PIIKind; value: string }[] = []
+  const add = (kind: PIIKind, value: string | undefined) => { if (value && value.trim().length >= 3) out.push({ kind, value: value.trim() }) }
+  const addAddress = (a: PostalAddress | undefined) => {
+    if (!a?.street) return
+    add('address', formatAddress(a))
+    add('address', a.street)
+  }
+
+  add('person', state.profile?.name)
+  for (const m of state.household?.members || []) { add('person', m.name); add('ssn', m.ssn) }
+  for (const d of state.household?.dependents || []) add('person', d.name)
+  for (const e of state.employees || []) { add('person', e.name); add('ssn', e.ssn); addAddress(e.address) }
+  for (const s of state.incomeStreams || []) add('employer', s.w2?.employerName)
+  for (const e of state.entities || []) {
+    if (e.type !== 'personal') add('business', e.name)  // "Personal" is a label, not a name
+    add('ein', e.einNumber)
+    addAddress(e.address)
+    add('phone', e.phone)
+  }
+  for (const c of state.customers || []) { add('business', c.name); add('email', c.email) }
+  for (const v of state.vendors || []) {
+    add('business', v.name)
+    add('business', v.businessName)
+    add(v.tinType === 'ein' ? 'ein' : 'ssn', v.tin)
+    addAddress(v.address)
+    add('email', v.email)
+  }
+  for (const p of state.realEstate || []) add('address', p.address)
+  return out
+}
+
+// ============================================
+//  REDACTOR
+// ============================================
+
+function mapStrings<T>(value: T, fn: (s: string) => string): T {
+  if (typeof value === 'string') return fn(value) as T
+  if (Array.isArray(value)) return value.map(v => mapStrings(v, fn)) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)])) as T
+  }
+  return value
+}
+
+/** Flattens messages to the text the provider receives, for the audit log */
+function serializeRequest(system: string, messages: ChatMessage[]): { text: string; images: number } {
+  let images = 0
+  const lines = [`[system]\n${system}`]
+  for (const m of messages) {
+    const content = typeof m.content === 'string'
+      ? m.content
+      : m.content.map(p => {
+        if (p.type === 'image_url') { images++; return '[image]' }
+        return p.text || ''
+      }).join('\n')
+    lines.push(`[${m.role}]\n${content}`)
+    for (const c of m.toolCalls || []) lines.push(`[tool call ${c.name}] ${JSON.stringify(c.arguments)}`)
+    for (const r of m.toolResults || []) lines.push(`[tool result ${r.name}] ${r.content}`)
+  }
+  return { text: lines.join('\n\n'), images }
+}
+
+/**
+ * Redactor for one purpose, seeded from state. `policy` defaults to the
+ * sharing policy saved in AI Settings.
+ */
+export function createRedactor(
+  state: FortunaState | null | undefined,
+  purpose: AIAuditPurpose,
+  policy: Partial<RedactionPolicy> | undefined = getAISettings().redaction,
+): Redactor {
+  const resolved = resolveRedactionPolicy(policy)
+  const tokens = new Map<string, string>()     // kind:normalized → token
+  const originals = new Map<string, string>()  // token → original text
+  const counters: Partial<Record<PIIKind, number>> = {}
+
+  const tokenFor = (kind: PIIKind, value: string): string => {
+    const key = `${kind}:${normalize(kind, value)}`
+    let token = tokens.get(key)
+    if (!token) {
+      counters[kind] = (counters[kind] || 0) + 1
+      token = `[${TOKEN_LABEL[kind]}_${counters[kind]}]`
+      tokens.set(key, token)
+      originals.set(token, value)
+    }
+    return token
+  }
+
+  // Longest first so "Acme Holdings LLC" wins over "Acme"
+  const known = (state ? knownValues(state) : [])
+    .filter(k => resolved[k.kind] === 'redact')
+    .map(k => ({ ...k, token: tokenFor(k.kind, k.value) }))
+    .sort((a, b) => b.value.length - a.value.length)
+  const byText = new Map(known.map(k => [k.value.toLowerCase(), k.token]))
+  const knownRe = known.length
+    ? new RegExp(`(?<![A-Za-z0-9])(?:${known.map(k => escapeRe(k.value)).join('|')})(?![A-Za-z0-9])`, 'gi')
+    : null
+  const patterns = PATTERNS.filter(p => resolved[p.kind] === 'redact')
+
+  const redact = (text: string): string => {
+    if (!text) return text
+    let out = knownRe ? text.replace(knownRe, m => byText.get(m.toLowerCase()) || m) : text
+    for (const { kind, re, group } of patterns) {
+      out = out.replace(re, (match, ...groups) => {
+        if (group === undefined) return tokenFor(kind, match)
+        const captured = groups[group - 1] as string
+        return match.slice(0, match.lastIndexOf(captured)) + tokenFor(kind, captured)
+      })
+    }
+    return out
+  }
+
+  const rehydrate = (text: string): string =>
+    text ? text.replace(TOKEN_RE, token => originals.get(token) ?? token) : text
+
+  return {
+    purpose,
+    policy: resolved,
+    redact,
+    rehydrate,
+
+    redactMessages(messages) {
+      return messages.map(m => ({
+        ...m,
+        content: typeof m.content === 'string'
+          ? redact(m.content)
+          : m.content.map(p => (p.type === 'text' ? { ...p, text: redact(p.text || '') } : p)),
+        ...(m.toolCalls ? { toolCalls: m.toolCalls.map(c => ({ ...c, arguments: mapStrings(c.arguments, redact) })) } : {}),
+        ...(m.toolResults ? { toolResults: m.toolResults.map(r => ({ ...r, content: redact(r.content) })) } : {}),
+      }))
+    },
+
+    rehydrateResponse(response) {
+      return {
+        ...response,
+        text: rehydrate(response.text),
+        ...(response.toolCalls ? { toolCalls: response.toolCalls.map(c => ({ ...c, arguments: mapStrings(c.arguments, rehydrate) })) } : {}),
+      }
+    },
+
+    streamRehydrator(onToken) {
+      let pending = ''
+      return {
+        push(delta) {
+          pending += delta
+          // Hold back a trailing "[PERS" that may be the start of a token
+          const open = pending.lastIndexOf('[')
+          const tail = open >= 0 ? pending.slice(open) : ''
+          const hold = tail.length <= 16 && /^\[[A-Z]*_?\d*$/.test(tail) ? tail.length : 0
+          const ready = pending.slice(0, pending.length - hold)
+          pending = pending.slice(pending.length - hold)
+          if (ready) onToken(rehydrate(ready))
+        },
+        flush() {
+          if (pending) onToken(rehydrate(pending))
+          pending = ''
+        },
+      }
+    },
+
+    audit({ provider, model, system, messages }) {
+      const { text, images } = serializeRequest(system, messages)
+      const redacted: Partial<Record<PIIKind, number>> = {}
+      for (const token of new Set(text.match(TOKEN_RE) || [])) {
+        if (!originals.has(token)) continue
+        const kind = LABEL_KIND[token.slice(1, token.lastIndexOf('_'))]
+        redacted[kind] = (redacted[kind] || 0) + 1
+      }
+      const entry: AIAuditEntry = {
+        id: `aiaudit-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        timestamp: new Date().toISOString(),
+        purpose,
+        provider,
+        model,
+        redacted,
+        shared: PII_KINDS.filter(k => resolved[k.kind] === 'share').map(k => k.kind),
+        images,
+        characters: text.length,
+        sent: text.length > MAX_AUDIT_CHARS ? `${text.slice(0, MAX_AUDIT_CHARS)}\n…[truncated]` : text,
+      }
+      recordAIAudit(entry)
+      return entry
+    },
+  }
+}
+
+// ============================================
+//  AUDIT LOG
+// ============================================
+
+const AUDIT_KEY = 'fortuna:ai-audit'
+const MAX_AUDIT_ENTRIES = 100
+const MAX_AUDIT_CHARS = 20000
+
+function recordAIAudit(entry: AIAuditEntry): void {
+  if (typeof localStorage === 'undefined') return
+  const log = getAIAuditLog()
+  log.unshift(entry)
+  if (log.length > MAX_AUDIT_ENTRIES) log.length = MAX_AUDIT_ENTRIES
+  // Quota exceeded — keep halving to the newest entries; a log that can't be
+  // written must never fail the request it describes
+  for (let keep = log.length; keep > 0; keep = Math.floor(keep / 2)) {
+    try {
+      localStorage.setItem(AUDIT_KEY, JSON.stringify(log.slice(0, keep)))
+      return
+    } catch { /* try a smaller log */ }
+  }
+}
+
+/** Newest first */
+export function getAIAuditLog(): AIAuditEntry[] {
+  try {
+    const raw = typeof localStorage === 'undefined' ? null : localStorage.getItem(AUDIT_KEY)
+    return raw ? JSON.parse(raw) : []
+  } catch { return [] }
+}
+
+export function clearAIAuditLog(): void {
+  localStorage.removeItem(AUDIT_KEY)
+}
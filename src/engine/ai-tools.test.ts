@@ -0,0 +1,130 @@
+/**
+ * AI Advisor Tools — Test Suite
+ * Validates: engine tool calls, state patches and their descriptions, tool-calling conversations
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import { executeToolCall, applyStatePatch, describeStatePatch, FORTUNA_TOOLS } from './ai-tools'
+import { sendAIMessageWithTools, type AISettings } from './ai-providers'
+
+describe('AI advisor tools', () => {
+  function advisorState(): FortunaState {
+    const state = createDefaultState()
+    state.profile.state = 'TX'
+    state.incomeStreams = [{ id: 'inc-1', name: 'Consulting', type: 'freelance', annualAmount: 120000, isActive: true }]
+    state.expenses = [{ id: 'exp-1', category: 'business', description: 'Software', annualAmount: 2400, isDeductible: true, deductionPct: 100 }]
+    return state
+  }
+
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('runs engines as tools without touching state', () => {
+    const state = advisorState()
+    const scenario = executeToolCall(state, {
+      id: 't1', name: 'evaluate_scenario',
+      arguments: { name: 'More expenses', modifications: [{ type: 'add_expense', expenseDesc: 'Equipment', expenseAmount: 10000 }] },
+    })
+    const parsed = JSON.parse(scenario.result.content)
+    expect(parsed.taxChange).toBeLessThan(0)
+    expect(parsed.result.totalTax).toBe(parsed.baseline.totalTax + parsed.taxChange)
+    expect(state.expenses).toHaveLength(1)
+
+    const entities = JSON.parse(executeToolCall(state, { id: 't2', name: 'compare_entities', arguments: {} }).result.content)
+    expect(entities.netSEIncome).toBe(120000)
+    expect(entities.comparisons.length).toBeGreaterThan(1)
+
+    const stateTax = JSON.parse(executeToolCall(state, { id: 't3', name: 'calculate_state_tax', arguments: { grossIncome: 100000, stateCode: 'CA' } }).result.content)
+    expect(stateTax.stateCode).toBe('CA')
+    expect(stateTax.stateTax).toBeGreaterThan(0)
+
+    expect(executeToolCall(state, { id: 't4', name: 'optimize_roth_conversion', arguments: {} }).result.isError).toBe(true)
+    expect(executeToolCall(state, { id: 't5', name: 'delete_everything', arguments: {} }).result).toMatchObject({ isError: true, content: 'Error: Unknown tool: delete_everything' })
+    expect(FORTUNA_TOOLS.map(t => t.name)).toContain('propose_state_patch')
+  })
+
+  it('validates proposed patches and applies them only on approval', () => {
+    const state = advisorState()
+    const { result, patch } = executeToolCall(state, {
+      id: 't1', name: 'propose_state_patch',
+      arguments: {
+        summary: 'Add home office and raise consulting income',
+        operations: [
+          { op: 'add', collection: 'expenses', value: { description: 'Home office', annualAmount: 3000 } },
+          { op: 'update', collection: 'incomeStreams', id: 'inc-1', value: { annualAmount: 130000 } },
+          { op: 'set_profile', value: { filingStatus: 'married_joint' } },
+        ],
+      },
+    })
+    expect(result.isError).toBeUndefined()
+    expect(patch).toBeDefined()
+    expect(describeStatePatch(state, patch!)).toEqual([
+      'Add expense "Home office" ($3,000)',
+      'Update income stream "Consulting" — annualAmount: 120000 → 130000',
+      'Profile — filingStatus: single → married_joint',
+    ])
+
+    const next = applyStatePatch(state, patch!)
+    expect(next).not.toBe(state)
+    expect(next.expenses.find(e => e.description === 'Home office')).toMatchObject({ isDeductible: true, deductionPct: 100, annualAmount: 3000 })
+    expect(next.incomeStreams[0]).toMatchObject({ id: 'inc-1', annualAmount: 130000 })
+    expect(next.profile.filingStatus).toBe('married_joint')
+    expect(state.incomeStreams[0].annualAmount).toBe(120000)
+
+    // Once the income stream is gone the same patch no longer applies
+    const removed = { ...next, incomeStreams: [] }
+    expect(applyStatePatch(removed, patch!)).toBe(removed)
+  })
+
+  it('rejects patches with unknown fields, records or values', () => {
+    const rejected = executeToolCall(advisorState(), {
+      id: 't1', name: 'propose_state_patch',
+      arguments: {
+        summary: 'Bad',
+        operations: [
+          { op: 'update', collection: 'incomeStreams', id: 'inc-1', value: { id: 'hijack' } },
+          { op: 'remove', collection: 'expenses', id: 'missing' },
+          { op: 'add', collection: 'expenses', value: { description: 'Travel', annualAmount: -5, entityId: 'nope' } },
+          { op: 'set_profile', value: { state: 'Texas' } },
+        ],
+      },
+    })
+    expect(rejected.patch).toBeUndefined()
+    expect(rejected.result.isError).toBe(true)
+    expect(rejected.result.content).toContain('operations[0].value.id cannot be set on incomeStreams')
+    expect(rejected.result.content).toContain('no expenses record with id "missing"')
+    expect(rejected.result.content).toContain('operations[2].value.annualAmount must be a non-negative number')
+    expect(rejected.result.content).toContain('entityId "nope" does not exist')
+    expect(rejected.result.content).toContain('operations[3].value.state must be a two-letter state code')
+  })
+
+  it('loops provider-native tool calls until the model answers', async () => {
+    const bodies: { tools: { name: string; input_schema: { type: string } }[]; messages: { role: string; content: { type: string; tool_use_id?: string; content?: string }[] }[] }[] = []
+    const replies = [
+      { content: [{ type: 'text', text: 'Checking.' }, { type: 'tool_use', id: 'toolu_1', name: 'compare_entities', input: {} }] },
+      { content: [{ type: 'text', text: 'An S-Corp saves the most.' }] },
+    ]
+    vi.stubGlobal('fetch', async (_url: string, init: { body: string }) => {
+      bodies.push(JSON.parse(init.body))
+      return { ok: true, json: async () => replies[bodies.length - 1] }
+    })
+
+    const state = advisorState()
+    const settings: AISettings = { mode: 'direct', provider: 'anthropic', model: 'claude-sonnet-4-20250514', clientKeys: { anthropic: 'key' } }
+    const result = await sendAIMessageWithTools(
+      [{ role: 'user', content: 'Should I form an S-Corp?' }], 'system', FORTUNA_TOOLS,
+      call => executeToolCall(state, call).result, settings,
+    )
+
+    expect(result.text).toBe('An S-Corp saves the most.')
+    expect(result.toolCalls.map(c => c.name)).toEqual(['compare_entities'])
+    expect(bodies).toHaveLength(2)
+    expect(bodies[0].tools.map(t => t.name)).toContain('evaluate_scenario')
+    expect(bodies[0].tools[0].input_schema.type).toBe('object')
+    expect(bodies[1].messages[1]).toEqual({
+      role: 'assistant',
+      content: [{ type: 'text', text: 'Checking.' }, { type: 'tool_use', id: 'toolu_1', name: 'compare_entities', input: {} }],
+    })
+    expect(bodies[1].messages[2].content[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'toolu_1' })
+    expect(JSON.parse(bodies[1].messages[2].content[0].content!).netSEIncome).toBe(120000)
+  })
+})
@@ -0,0 +1,428 @@
+/**
+ * Fortuna Engine — AI Advisor Tools
+ *
+ * Engines the advisor can call through provider tool calling, plus the
+ * one tool that proposes edits. The model never writes state: it calls
+ * `propose_state_patch`, the patch is validated here, and the advisor
+ * view shows it for the user to approve (applied through useUndoRedo).
+ *
+ * Tools:
+ *   - evaluate_scenario       → scenario-modeler evaluateScenario vs. baseline
+ *   - compare_entities        → tax-calculator compareEntities
+ *   - optimize_roth_conversion→ retirement-optimizer optimizeRothConversion
+ *   - calculate_state_tax     → state-tax-engine calculateFullStateTax
+ *   - propose_state_patch     → StatePatch awaiting approval
+ */
+
+import type { AIToolCall, AIToolDefinition, AIToolResult } from './ai-providers'
+import type { FortunaState, EntityType, FilingStatus } from './storage'
+import { genId } from './storage'
+import { evaluateScenario, type ScenarioModification } from './scenario-modeler'
+import { compareEntities, generateTaxReport } from './tax-calculator'
+import { optimizeRothConversion } from './retirement-optimizer'
+import { calculateFullStateTax } from './state-tax-engine'
+
+// ============================================
+//  TYPES
+// ============================================
+
+export type PatchCollection = 'incomeStreams' | 'expenses' | 'deductions' | 'entities'
+
+export type StatePatchOperation =
+  | { op: 'add'; collection: PatchCollection; value: Record<string, unknown> }
+  | { op: 'update'; collection: PatchCollection; id: string; value: Record<string, unknown> }
+  | { op: 'remove'; collection: PatchCollection; id: string }
+  | { op: 'set_profile'; value: Record<string, unknown> }
+
+/** Edit proposed by the model; applied only after the user approves it */
+export interface StatePatch {
+  id: string
+  summary: string
+  operations: StatePatchOperation[]
+  toolCallId?: string
+}
+
+export interface ToolExecution {
+  result: AIToolResult
+  patch?: StatePatch
+}
+
+// ============================================
+//  PATCHABLE FIELDS
+// ============================================
+
+type FieldSpec = 'string' | 'number' | 'percent' | 'boolean' | 'date' | readonly string[]
+
+const INCOME_TYPES = ['business', 'w2', 'freelance', 'investment', 'rental', 'passive', 'other'] as const
+const ENTITY_TYPES: readonly EntityType[] = ['sole_prop', 'llc', 'llc_scorp', 'scorp', 'ccorp', 'partnership', 'trust']
+const FILING_STATUSES: readonly FilingStatus[] = ['single', 'married_joint', 'married_separate', 'head_of_household']
+
+const COLLECTION_FIELDS: Record<PatchCollection, Record<string, FieldSpec>> = {
+  incomeStreams: {
+    name: 'string', type: INCOME_TYPES, annualAmount: 'number', isActive: 'boolean', entityId: 'string', notes: 'string',
+  },
+  expenses: {
+    description: 'string', category: 'string', annualAmount: 'number', isDeductible: 'boolean', deductionPct: 'percent', entityId: 'string',
+  },
+  deductions: {
+    description: 'string', categoryId: 'string', amount: 'number', entityId: 'string', date: 'date',
+    status: ['planned', 'realized', 'rejected'],
+  },
+  entities: {
+    name: 'string', type: ENTITY_TYPES, state: 'string', annualCost: 'number', isActive: 'boolean',
+    officerSalary: 'number', ownershipPct: 'percent',
+  },
+}
+
+const REQUIRED_ON_ADD: Record<PatchCollection, string[]> = {
+  incomeStreams: ['name', 'type', 'annualAmount'],
+  expenses: ['description', 'annualAmount'],
+  deductions: ['description', 'categoryId', 'amount'],
+  entities: ['name', 'type', 'state'],
+}
+
+const PROFILE_FIELDS: Record<string, FieldSpec> = {
+  filingStatus: FILING_STATUSES, state: 'string', dependents: 'number', age: 'number', hasHealthInsurance: 'boolean',
+}
+
+function checkField(label: string, spec: FieldSpec, value: unknown): string | null {
+  if (Array.isArray(spec)) return spec.includes(value as string) ? null : `${label} must be one of ${spec.join(', ')}`
+  switch (spec) {
+    case 'string':
+      return typeof value === 'string' && value.trim() ? null : `${label} must be a non-empty string`
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${label} must be true or false`
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : `${label} must be YYYY-MM-DD`
+    case 'percent':
+      return typeof value === 'number' && value >= 0 && value <= 100 ? null : `${label} must be 0–100`
+    default:
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : `${label} must be a non-negative number`
+  }
+}
+
+// ============================================
+//  PATCH VALIDATION & APPLY
+// ============================================
+
+/** Problems with a patch against the current state; empty means it can be applied */
+export function validateStatePatch(state: FortunaState, patch: StatePatch): string[] {
+  const errors: string[] = []
+  if (!patch.summary?.trim()) errors.push('summary is required')
+  if (!Array.isArray(patch.operations) || patch.operations.length === 0) errors.push('at least one operation is required')
+
+  const entityIds = new Set(['personal', ...state.entities.map(e => e.id)])
+  ;(patch.operations || []).forEach((op, i) => {
+    const at = `operations[${i}]`
+    if (op.op === 'set_profile') {
+      const value = op.value && typeof op.value === 'object' ? op.value : {}
+      if (Object.keys(value).length === 0) errors.push(`${at}.value has no profile fields`)
+      for (const [field, v] of Object.entries(value)) {
+        const spec = PROFILE_FIELDS[field]
+        if (!spec) {
+          errors.push(`${at}: profile field "${field}" cannot be changed`)
+          continue
+        }
+        const problem = checkField(`${at}.value.${field}`, spec, v)
+        if (problem) errors.push(problem)
+        if (field === 'state' && typeof v === 'string' && !/^[A-Z]{2}$/.test(v)) errors.push(`${at}.value.state must be a two-letter state code`)
+      }
+      return
+    }
+
+    const fields = COLLECTION_FIELDS[op.collection as PatchCollection]
+    if (!fields) {
+      errors.push(`${at}: unknown collection "${op.collection}"`)
+      return
+    }
+    const existing = (state[op.collection] as { id: string }[]).find(r => r.id === (op as { id?: string }).id)
+    if (op.op !== 'add' && !existing) errors.push(`${at}: no ${op.collection} record with id "${(op as { id?: string }).id}"`)
+    if (op.op === 'remove') {
+      if (op.collection === 'entities' && op.id === 'personal') errors.push(`${at}: the personal entity cannot be removed`)
+      return
+    }
+    if (op.op !== 'add' && op.op !== 'update') {
+      errors.push(`${at}: unknown op "${(op as { op: string }).op}"`)
+      return
+    }
+
+    const value = op.value && typeof op.value === 'object' ? op.value : {}
+    if (op.op === 'add') {
+      for (const field of REQUIRED_ON_ADD[op.collection]) {
+        if (value[field] === undefined) errors.push(`${at}.value.${field} is required`)
+      }
+    } else if (Object.keys(value).length === 0) {
+      errors.push(`${at}.value has no fields to update`)
+    }
+    for (const [field, v] of Object.entries(value)) {
+      const spec = fields[field]
+      if (!spec) {
+        errors.push(`${at}.value.${field} cannot be set on ${op.collection}`)
+        continue
+      }
+      const problem = checkField(`${at}.value.${field}`, spec, v)
+      if (problem) errors.push(problem)
+      if (field === 'entityId' && typeof v === 'string' && !entityIds.has(v)) errors.push(`${at}.value.entityId "${v}" does not exist`)
+    }
+  })
+  return errors
+}
+
+function newRecord(collection: PatchCollection, value: Record<string, unknown>, taxYear: number): Record<string, unknown> {
+  const id = genId()
+  switch (collection) {
+    case 'incomeStreams':
+      return { id, isActive: true, ...value }
+    case 'expenses':
+      return { id, category: 'business', isDeductible: true, deductionPct: 100, ...value }
+    case 'deductions':
+      return { id, entityId: 'personal', date: `${taxYear}-12-31`, status: 'planned', ...value }
+    case 'entities':
+      return { id, annualCost: 0, isActive: true, ...value }
+  }
+}
+
+/** Apply an approved patch. Returns the same state when the patch no longer validates. */
+export function applyStatePatch(state: FortunaState, patch: StatePatch): FortunaState {
+  if (validateStatePatch(state, patch).length > 0) return state
+
+  let next: FortunaState = { ...state, profile: { ...state.profile } }
+  for (const op of patch.operations) {
+    if (op.op === 'set_profile') {
+      next.profile = { ...next.profile, ...op.value }
+      continue
+    }
+    const records = next[op.collection] as unknown as Record<string, unknown>[]
+    let updated: Record<string, unknown>[]
+    if (op.op === 'add') updated = [...records, newRecord(op.collection, op.value, state.taxYear)]
+    else if (op.op === 'update') updated = records.map(r => (r.id === op.id ? { ...r, ...op.value, id: r.id } : r))
+    else updated = records.filter(r => r.id !== op.id)
+    next = { ...next, [op.collection]: updated }
+  }
+  return next
+}
+
+const COLLECTION_LABELS: Record<PatchCollection, string> = {
+  incomeStreams: 'income stream', expenses: 'expense', deductions: 'deduction', entities: 'entity',
+}
+
+function recordName(record: Record<string, unknown> | undefined): string {
+  return String(record?.name ?? record?.description ?? record?.id ?? '?')
+}
+
+/** One line per operation, for the approval card */
+export function describeStatePatch(state: FortunaState, patch: StatePatch): string[] {
+  return patch.operations.map(op => {
+    if (op.op === 'set_profile') {
+      const profile = state.profile as unknown as Record<string, unknown>
+      return `Profile — ${Object.entries(op.value).map(([k, v]) => `${k}: ${String(profile[k] ?? '—')} → ${String(v)}`).join(', ')}`
+    }
+    const label = COLLECTION_LABELS[op.collection] ?? op.collection
+    if (op.op === 'add') {
+      const amount = op.value.annualAmount ?? op.value.amount
+      return `Add ${label} "${recordName(op.value)}"${typeof amount === 'number' ? ` ($${amount.toLocaleString()})` : ''}`
+    }
+    const existing = (state[op.collection] as unknown as Record<string, unknown>[] | undefined)?.find(r => r.id === op.id)
+    if (op.op === 'remove') return `Remove ${label} "${recordName(existing)}"`
+    const changes = Object.entries(op.value).map(([k, v]) => `${k}: ${String(existing?.[k] ?? '—')} → ${String(v)}`)
+    return `Update ${label} "${recordName(existing)}" — ${changes.join(', ')}`
+  })
+}
+
+// ============================================
+//  TOOL DEFINITIONS
+// ============================================
+
+const MODIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: {
+      type: 'string',
+      enum: ['add_income', 'remove_income', 'modify_income', 'change_entity', 'add_deduction', 'remove_deduction', 'modify_deduction', 'add_expense', 'change_filing', 'change_state'],
+    },
+    incomeId: { type: 'string' },
+    incomeName: { type: 'string' },
+    incomeType: { type: 'string', enum: [...INCOME_TYPES] },
+    incomeAmount: { type: 'number' },
+    entityType: { type: 'string', enum: [...ENTITY_TYPES] },
+    entityCost: { type: 'number' },
+    deductionId: { type: 'string' },
+    deductionName: { type: 'string' },
+    deductionCategory: { type: 'string' },
+    deductionAmount: { type: 'number' },
+    expenseDesc: { type: 'string' },
+    expenseAmount: { type: 'number' },
+    expensePct: { type: 'number' },
+    filingStatus: { type: 'string', enum: [...FILING_STATUSES] },
+    stateCode: { type: 'string' },
+  },
+  required: ['type'],
+}
+
+export const FORTUNA_TOOLS: AIToolDefinition[] = [
+  {
+    name: 'evaluate_scenario',
+    description: 'Recalculate the full tax report with hypothetical modifications and compare against the current baseline. Does not change the user\'s data.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Short scenario name' },
+        modifications: { type: 'array', items: MODIFICATION_SCHEMA },
+      },
+      required: ['name', 'modifications'],
+    },
+  },
+  {
+    name: 'compare_entities',
+    description: 'Compare total tax under sole proprietor, LLC, S-Corp and C-Corp for a net self-employment income (defaults to the user\'s current business income).',
+    parameters: {
+      type: 'object',
+      properties: { netSEIncome: { type: 'number' } },
+    },
+  },
+  {
+    name: 'optimize_roth_conversion',
+    description: 'Plan Roth conversions from a traditional IRA/401(k) balance: optimal annual amount, bracket room, year-by-year schedule.',
+    parameters: {
+      type: 'object',
+      properties: {
+        traditionalBalance: { type: 'number' },
+        targetRetirementAge: { type: 'number' },
+        expectedReturnRate: { type: 'number', description: 'Decimal, e.g. 0.07' },
+      },
+      required: ['traditionalBalance'],
+    },
+  },
+  {
+    name: 'calculate_state_tax',
+    description: 'State (and optional local) income tax for an income and state. Defaults to the user\'s AGI, state and filing status.',
+    parameters: {
+      type: 'object',
+      properties: {
+        grossIncome: { type: 'number' },
+        stateCode: { type: 'string', description: 'Two-letter code' },
+        filingStatus: { type: 'string', enum: ['single', 'mfj', 'mfs', 'hoh'] },
+        localCity: { type: 'string' },
+      },
+    },
+  },
+  {
+    name: 'propose_state_patch',
+    description: 'Propose changes to the user\'s saved data. Nothing is applied until the user approves. Use record ids from the profile context for update/remove.',
+    parameters: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string', description: 'One sentence describing the change' },
+        operations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              op: { type: 'string', enum: ['add', 'update', 'remove', 'set_profile'] },
+              collection: { type: 'string', enum: ['incomeStreams', 'expenses', 'deductions', 'entities'] },
+              id: { type: 'string' },
+              value: { type: 'object', description: 'Record fields for add/update; profile fields (filingStatus, state, dependents, age, hasHealthInsurance) for set_profile' },
+            },
+            required: ['op'],
+          },
+        },
+      },
+      required: ['summary', 'operations'],
+    },
+  },
+]
+
+// ============================================
+//  EXECUTION
+// ============================================
+
+const STATE_FILING: Record<FilingStatus, 'single' | 'mfj' | 'mfs' | 'hoh'> = {
+  single: 'single', married_joint: 'mfj', married_separate: 'mfs', head_of_household: 'hoh',
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+function runTool(state: FortunaState, call: AIToolCall): unknown {
+  const args = call.arguments || {}
+  switch (call.name) {
+    case 'evaluate_scenario': {
+      const mods = Array.isArray(args.modifications) ? args.modifications as ScenarioModification[] : []
+      const base = generateTaxReport(state)
+      const result = evaluateScenario(String(args.name || 'Scenario'), state, mods)
+      const r = result.taxReport
+      return {
+        scenario: result.name,
+        baseline: { totalTax: base.totalTax, afterTaxIncome: base.afterTaxIncome, effectiveRate: base.effectiveRate },
+        result: {
+          totalTax: r.totalTax, federalIncomeTax: r.federalIncomeTax, selfEmploymentTax: r.selfEmploymentTax,
+          stateTax: r.stateTax, afterTaxIncome: r.afterTaxIncome, effectiveRate: r.effectiveRate, healthScore: result.healthScore.overall,
+        },
+        taxChange: r.totalTax - base.totalTax,
+        afterTaxChange: r.afterTaxIncome - base.afterTaxIncome,
+      }
+    }
+    case 'compare_entities': {
+      const netSE = num(args.netSEIncome) ?? state.incomeStreams
+        .filter(s => ['business', 'freelance'].includes(s.type) && s.isActive)
+        .reduce((sum, s) => sum + s.annualAmount, 0)
+      return { netSEIncome: netSE, comparisons: compareEntities(netSE, state.profile, state.taxYear) }
+    }
+    case 'optimize_roth_conversion': {
+      const balance = num(args.traditionalBalance)
+      if (balance === undefined) throw new Error('traditionalBalance is required')
+      const plan = optimizeRothConversion(state, balance, num(args.targetRetirementAge), num(args.expectedReturnRate))
+      return {
+        optimalAnnualConversion: plan.optimalAnnualConversion,
+        currentBracketRoom: plan.currentBracketRoom,
+        currentMarginalRate: plan.currentMarginalRate,
+        nextBracketRate: plan.nextBracketRate,
+        breakEvenYears: plan.breakEvenYears,
+        recommendation: plan.recommendation,
+        summary: plan.summary,
+        reasons: plan.reasons,
+        yearByYear: plan.yearByYear.slice(0, 10),
+      }
+    }
+    case 'calculate_state_tax': {
+      const stateCode = typeof args.stateCode === 'string' ? args.stateCode : state.profile.state
+      const filing = typeof args.filingStatus === 'string' && ['single', 'mfj', 'mfs', 'hoh'].includes(args.filingStatus)
+        ? args.filingStatus as 'single' | 'mfj' | 'mfs' | 'hoh'
+        : STATE_FILING[state.profile.filingStatus]
+      const income = num(args.grossIncome) ?? generateTaxReport(state).agi
+      const localCity = typeof args.localCity === 'string' ? args.localCity : undefined
+      return calculateFullStateTax(income, stateCode, filing, localCity ? { includeLocal: true, localCity } : undefined)
+    }
+    default:
+      throw new Error(`Unknown tool: ${call.name}`)
+  }
+}
+
+/**
+ * Run one tool call against the current state. Engine tools return JSON
+ * for the model; `propose_state_patch` also returns the validated patch.
+ */
+export function executeToolCall(state: FortunaState, call: AIToolCall): ToolExecution {
+  const reply = (content: string, isError = false): AIToolResult => ({
+    toolCallId: call.id, name: call.name, content, ...(isError ? { isError: true } : {}),
+  })
+
+  if (call.name === 'propose_state_patch') {
+    const patch: StatePatch = {
+      id: genId(),
+      summary: String(call.arguments.summary || ''),
+      operations: Array.isArray(call.arguments.operations) ? call.arguments.operations as StatePatchOperation[] : [],
+      toolCallId: call.id,
+    }
+    const errors = validateStatePatch(state, patch)
+    if (errors.length > 0) return { result: reply(`Patch rejected:\n- ${errors.join('\n- ')}`, true) }
+    return { result: reply('Patch shown to the user for approval. It is not applied yet — do not describe it as done.'), patch }
+  }
+
+  try {
+    return { result: reply(JSON.stringify(runTool(state, call))) }
+  } catch (err) {
+    return { result: reply(`Error: ${err instanceof Error ? err.message : String(err)}`, true) }
+  }
+}
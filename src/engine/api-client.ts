@@ -5,6 +5,8 @@
  * retry logic, and error normalization.
  */
 
+import type { SyncConflict, MergeStats } from './sync-merge'
+
 // ============================================
 //  CONFIGURATION
 // ============================================
@@ -368,15 +370,21 @@ export const StateAPI = {
     }>('state.php?action=meta')
   },
 
-  async merge(localState: any, localTimestamp?: string) {
+  /**
+   * Three-way merge against the version this device last synced. A
+   * 'conflict' resolution writes nothing — resolve and save with `version`.
+   */
+  async merge(localState: any, baseVersion?: number) {
     return apiRequest<{
-      resolution: 'local_wins' | 'remote_wins' | 'merged'
+      resolution: 'local_wins' | 'remote_wins' | 'merged' | 'conflict'
       state: any
       version: number
-      message: string
+      conflicts?: SyncConflict[]
+      stats?: MergeStats
+      synced_at?: string
     }>('state.php?action=merge', {
       method: 'POST',
-      body: { local_state: localState, local_timestamp: localTimestamp },
+      body: { local_state: localState, base_version: baseVersion },
     })
   },
 
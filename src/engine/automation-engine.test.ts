@@ -0,0 +1,87 @@
+/**
+ * Automation Engine — Test Suite
+ * Validates: triggers, conditions, actions, scheduled rules, new-transaction detection
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState } from './storage'
+import { runAutomations, dueScheduledRules, findNewTransactionIds, type AutomationRule } from './automation-engine'
+
+describe('automation engine', () => {
+  const now = new Date('2025-05-20T12:00:00Z')
+  const baseRule: AutomationRule = {
+    id: 'rule-1', name: 'Estimate', enabled: true, createdAt: '2025-01-01T00:00:00Z',
+    trigger: { kind: 'schedule', frequency: 'weekly' },
+    conditions: [{ field: 'netTaxOwed', op: 'gt', value: 1000 }],
+    actions: [
+      { kind: 'create_estimated_payment', jurisdiction: 'federal', quarter: 'next' },
+      { kind: 'notify', title: 'Owe {{netTaxOwed}}', body: 'Pay it' },
+    ],
+  }
+  const makeState = () => ({
+    ...createDefaultState(),
+    taxYear: 2025,
+    incomeStreams: [{ id: 'f', name: 'Consulting', type: 'freelance' as const, annualAmount: 150000, isActive: true }],
+    automations: [baseRule],
+  })
+
+  it('creates the next estimated payment and logs the run', () => {
+    const result = runAutomations([baseRule], makeState(), { trigger: 'test', now })
+    expect(result.runs[0].status).toBe('success')
+    expect(result.state.estimatedPayments).toHaveLength(1)
+    expect(result.state.estimatedPayments[0]).toMatchObject({ quarter: 2, dueDate: '2025-06-15', jurisdiction: 'federal' })
+    expect(result.state.estimatedPayments[0].amount).toBeGreaterThan(0)
+    expect(result.state.automationLog).toHaveLength(1)
+    expect(result.state.automations[0].lastRunAt).toBe(now.toISOString())
+    expect(result.sideEffects[0]).toMatchObject({ kind: 'notify' })
+  })
+
+  it('does not duplicate an existing payment for the same quarter', () => {
+    const first = runAutomations([baseRule], makeState(), { trigger: 'test', now })
+    const second = runAutomations([baseRule], first.state, { trigger: 'test', now })
+    expect(second.state.estimatedPayments).toHaveLength(1)
+    expect(second.runs[0].effects[0].changed).toBe(false)
+  })
+
+  it('dry run leaves state untouched', () => {
+    const state = makeState()
+    const result = runAutomations([baseRule], state, { trigger: 'preview', now, dryRun: true })
+    expect(result.state).toBe(state)
+    expect(result.sideEffects).toHaveLength(0)
+    expect(result.runs[0].effects[0].changed).toBe(true)
+  })
+
+  it('skips when conditions fail', () => {
+    const state = { ...makeState(), incomeStreams: [] }
+    const result = runAutomations([baseRule], state, { trigger: 'test', now })
+    expect(result.runs[0].status).toBe('skipped')
+    expect(result.state.estimatedPayments).toHaveLength(0)
+  })
+
+  it('compares the effective rate as a percent', () => {
+    const rule = (id: string, value: number): AutomationRule => ({
+      ...baseRule, id, conditions: [{ field: 'effectiveRate', op: 'gt', value }],
+      actions: [{ kind: 'notify', title: 'Effective rate {{effectiveRate}}%', body: '' }],
+    })
+    const result = runAutomations([rule('over-20', 20), rule('over-90', 90)], makeState(), { trigger: 'test', now })
+    expect(result.runs.map(r => r.status)).toEqual(['success', 'skipped'])
+    const notice = result.sideEffects[0]
+    expect(notice.kind === 'notify' && parseFloat(notice.payload.title.replace('Effective rate ', ''))).toBeGreaterThan(20)
+  })
+
+  it('categorizes only the new transactions', () => {
+    const rule: AutomationRule = { ...baseRule, trigger: { kind: 'new_transactions' }, conditions: [], actions: [{ kind: 'categorize_transactions' }] }
+    const prev = [{ id: 't1', date: '2025-05-01', description: 'GITHUB INC', amount: -20, isReconciled: false }]
+    const next = [...prev, { id: 't2', date: '2025-05-02', description: 'Adobe Creative Cloud', amount: -55, isReconciled: false }]
+    const state = { ...makeState(), auditHistory: next }
+    const result = runAutomations([rule], state, { trigger: 'test', now, transactionIds: findNewTransactionIds(prev, next) })
+    expect(result.state.auditHistory.find(t => t.id === 't1')?.category).toBeUndefined()
+    expect(result.state.auditHistory.find(t => t.id === 't2')?.category).toBe('software')
+  })
+
+  it('schedules rules by frequency', () => {
+    const ran = { ...baseRule, lastRunAt: '2025-05-18T12:00:00Z' }
+    expect(dueScheduledRules([ran], now)).toHaveLength(0)
+    expect(dueScheduledRules([{ ...ran, lastRunAt: '2025-05-10T12:00:00Z' }], now)).toHaveLength(1)
+    expect(dueScheduledRules([{ ...ran, enabled: false, lastRunAt: undefined }], now)).toHaveLength(0)
+  })
+})
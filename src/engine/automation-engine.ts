@@ -0,0 +1,539 @@
+/**
+ * Fortuna Engine — Automation Engine
+ *
+ * Rule-based automations persisted in FortunaState:
+ *  - Triggers: event-bus events, schedules, newly imported bank transactions
+ *  - Conditions over computed metrics or any FortunaState path
+ *  - Actions: create estimated payments, categorize transactions,
+ *    schedule notifications, capture history snapshots
+ *  - Run log with dry-run preview
+ *
+ * Execution is pure: runAutomations() returns the next state plus a list of
+ * side effects (notifications, snapshots) for the host to carry out. Dry runs
+ * return the untouched state and no side effects.
+ */
+
+import type { FortunaState, EstimatedPayment, BankTransaction } from './storage'
+import type { FortunaEventType } from './event-bus'
+import { generateTaxReport, type TaxReport } from './tax-calculator'
+import { buildCategorizer, categorize } from './categorizer'
+import type { NotificationPayload } from './pwa'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly'
+
+export type AutomationTrigger =
+  | { kind: 'event'; event: FortunaEventType }
+  | { kind: 'schedule'; frequency: ScheduleFrequency }
+  | { kind: 'new_transactions' }
+
+export type ConditionOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'contains'
+
+export interface AutomationCondition {
+  field: string                 // Key of CONDITION_FIELDS, or a dot path into FortunaState
+  op: ConditionOperator
+  value: number | string | boolean
+}
+
+export type AutomationAction =
+  | { kind: 'create_estimated_payment'; jurisdiction: 'federal' | 'state'; quarter: 'next' | 1 | 2 | 3 | 4 }
+  | { kind: 'categorize_transactions'; match?: string; category?: string }  // No match → built-in bank-feed rules
+  | { kind: 'notify'; title: string; body: string; delayMinutes?: number }  // {{field}} placeholders allowed
+  | { kind: 'snapshot'; description?: string }
+
+export interface AutomationRule {
+  id: string
+  name: string
+  description?: string
+  enabled: boolean
+  trigger: AutomationTrigger
+  conditions: AutomationCondition[]   // All must pass
+  actions: AutomationAction[]
+  templateId?: string                 // Set when created from a built-in template
+  createdAt: string
+  lastRunAt?: string
+  runCount?: number
+}
+
+export interface ConditionResult {
+  field: string
+  op: ConditionOperator
+  expected: number | string | boolean
+  actual: number | string | boolean | null
+  passed: boolean
+}
+
+export interface AutomationEffect {
+  action: AutomationAction['kind']
+  summary: string
+  changed: boolean
+}
+
+export interface AutomationRun {
+  id: string
+  ruleId: string
+  ruleName: string
+  trigger: string
+  startedAt: string
+  dryRun: boolean
+  status: 'success' | 'skipped' | 'error'
+  conditions: ConditionResult[]
+  effects: AutomationEffect[]
+  error?: string
+}
+
+export type AutomationSideEffect =
+  | { kind: 'notify'; payload: NotificationPayload; at: string }
+  | { kind: 'snapshot'; description: string }
+
+export interface AutomationContext {
+  trigger: string               // Human-readable trigger label for the run log
+  now?: Date
+  dryRun?: boolean
+  transactionIds?: string[]     // Restricts categorization to these transactions
+}
+
+export interface AutomationBatchResult {
+  state: FortunaState
+  runs: AutomationRun[]
+  sideEffects: AutomationSideEffect[]
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+export const MAX_RUN_LOG = 100
+
+const SCHEDULE_INTERVAL_MS: Record<ScheduleFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+  quarterly: 91 * 24 * 60 * 60 * 1000,
+}
+
+/** Events a rule may subscribe to (state mutations are the useful ones) */
+export const AUTOMATION_EVENTS: { event: FortunaEventType; label: string }[] = [
+  { event: 'state:income_changed', label: 'Income changed' },
+  { event: 'state:expense_changed', label: 'Expenses changed' },
+  { event: 'state:deduction_changed', label: 'Deductions changed' },
+  { event: 'state:entity_changed', label: 'Entities changed' },
+  { event: 'state:profile_changed', label: 'Profile changed' },
+  { event: 'state:investment_changed', label: 'Investments changed' },
+  { event: 'state:retirement_changed', label: 'Retirement accounts changed' },
+  { event: 'state:transactions_changed', label: 'Bank transactions changed' },
+]
+
+// ===================================================================
+//  CONDITION FIELDS
+// ===================================================================
+
+interface FieldScope {
+  state: FortunaState
+  report: () => TaxReport
+  now: Date
+}
+
+export const CONDITION_FIELDS: Record<string, { label: string; resolve: (scope: FieldScope) => number | string }> = {
+  grossIncome: { label: 'Gross income', resolve: s => s.report().grossIncome },
+  totalTax: { label: 'Projected total tax', resolve: s => s.report().totalTax },
+  netTaxOwed: { label: 'Tax owed after withholding', resolve: s => s.report().netTaxOwed },
+  effectiveRate: { label: 'Effective tax rate (%)', resolve: s => Math.round(s.report().effectiveRate * 1000) / 10 },
+  quarterlyFederalEstimate: { label: 'Quarterly federal estimate', resolve: s => quarterlyAmount(s.report(), 'federal') },
+  estimatedPaymentsOutstanding: {
+    label: 'Unpaid estimated payments',
+    resolve: s => (s.state.estimatedPayments || [])
+      .filter(p => (p.taxYear ?? s.state.taxYear) === s.state.taxYear && !p.paidDate)
+      .reduce((sum, p) => sum + p.amount, 0),
+  },
+  daysUntilNextEstimatedDue: {
+    label: 'Days until next estimated payment',
+    resolve: s => {
+      const next = estimatedDueDates(s.state.taxYear).find(d => d.date >= isoDate(s.now))
+      return next ? Math.ceil((new Date(next.date).getTime() - s.now.getTime()) / 86_400_000) : -1
+    },
+  },
+  uncategorizedTransactions: {
+    label: 'Uncategorized transactions',
+    resolve: s => (s.state.auditHistory || []).filter(isUncategorized).length,
+  },
+  activeIncomeStreams: { label: 'Active income streams', resolve: s => s.state.incomeStreams.filter(i => i.isActive).length },
+  activeEntities: { label: 'Active entities', resolve: s => s.state.entities.filter(e => e.isActive).length },
+  filingStatus: { label: 'Filing status', resolve: s => s.state.profile.filingStatus },
+  homeState: { label: 'Home state', resolve: s => s.state.profile.state },
+  month: { label: 'Current month (1-12)', resolve: s => s.now.getMonth() + 1 },
+}
+
+function resolvePath(state: FortunaState, path: string): number | string | boolean | null {
+  let cur: unknown = state
+  for (const part of path.split('.')) {
+    if (cur === null || typeof cur !== 'object') return null
+    cur = (cur as Record<string, unknown>)[part]
+  }
+  if (Array.isArray(cur)) return cur.length
+  return typeof cur === 'number' || typeof cur === 'string' || typeof cur === 'boolean' ? cur : null
+}
+
+function resolveField(scope: FieldScope, field: string): number | string | boolean | null {
+  const def = CONDITION_FIELDS[field]
+  return def ? def.resolve(scope) : resolvePath(scope.state, field)
+}
+
+function compare(actual: number | string | boolean | null, op: ConditionOperator, expected: number | string | boolean): boolean {
+  if (actual === null) return false
+  if (op === 'contains') return String(actual).toLowerCase().includes(String(expected).toLowerCase())
+  if (op === 'eq') return String(actual) === String(expected)
+  if (op === 'neq') return String(actual) !== String(expected)
+  const a = Number(actual)
+  const b = Number(expected)
+  if (Number.isNaN(a) || Number.isNaN(b)) return false
+  switch (op) {
+    case 'gt': return a > b
+    case 'gte': return a >= b
+    case 'lt': return a < b
+    case 'lte': return a <= b
+  }
+}
+
+export function evaluateConditions(conditions: AutomationCondition[], state: FortunaState, now: Date = new Date()): ConditionResult[] {
+  const scope = makeScope(state, now)
+  return conditions.map(c => {
+    const actual = resolveField(scope, c.field)
+    return { field: c.field, op: c.op, expected: c.value, actual, passed: compare(actual, c.op, c.value) }
+  })
+}
+
+function makeScope(state: FortunaState, now: Date): FieldScope {
+  let cached: TaxReport | null = null
+  return { state, now, report: () => (cached ??= generateTaxReport(state)) }
+}
+
+// ===================================================================
+//  HELPERS
+// ===================================================================
+
+function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10)
+}
+
+function isUncategorized(tx: BankTransaction): boolean {
+  return !tx.category || tx.category === 'uncategorized'
+}
+
+function runId(): string {
+  return 'run_' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+}
+
+/** 1040-ES due dates for a tax year (Q4 falls in January of the following year) */
+export function estimatedDueDates(taxYear: number): { quarter: 1 | 2 | 3 | 4; date: string }[] {
+  return [
+    { quarter: 1, date: `${taxYear}-04-15` },
+    { quarter: 2, date: `${taxYear}-06-15` },
+    { quarter: 3, date: `${taxYear}-09-15` },
+    { quarter: 4, date: `${taxYear + 1}-01-15` },
+  ]
+}
+
+function quarterlyAmount(report: TaxReport, jurisdiction: 'federal' | 'state'): number {
+  const annual = jurisdiction === 'federal'
+    ? report.federalIncomeTax + report.selfEmploymentTax + report.amt + report.niit - report.w2FederalWithheld
+    : report.stateTax - report.w2StateWithheld
+  return Math.max(0, Math.round(annual / 4))
+}
+
+function interpolate(template: string, scope: FieldScope): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, field: string) => {
+    const value = resolveField(scope, field)
+    if (value === null) return ''
+    return typeof value === 'number' ? value.toLocaleString() : String(value)
+  })
+}
+
+// ===================================================================
+//  ACTIONS
+// ===================================================================
+
+interface ActionResult {
+  state: FortunaState
+  effect: AutomationEffect
+  sideEffect?: AutomationSideEffect
+}
+
+function applyAction(action: AutomationAction, state: FortunaState, rule: AutomationRule, ctx: AutomationContext, now: Date): ActionResult {
+  const scope = makeScope(state, now)
+
+  switch (action.kind) {
+    case 'create_estimated_payment': {
+      const taxYear = state.taxYear
+      const dates = estimatedDueDates(taxYear)
+      const due = action.quarter === 'next'
+        ? dates.find(d => d.date >= isoDate(now))
+        : dates.find(d => d.quarter === action.quarter)
+      if (!due) {
+        return { state, effect: { action: action.kind, summary: `No remaining ${taxYear} estimated payment dates`, changed: false } }
+      }
+      const jurisdiction = action.jurisdiction === 'federal' ? 'federal' : state.profile.state
+      const existing = (state.estimatedPayments || []).find(p =>
+        p.quarter === due.quarter && p.jurisdiction === jurisdiction && (p.taxYear ?? taxYear) === taxYear)
+      if (existing) {
+        return { state, effect: { action: action.kind, summary: `Q${due.quarter} ${jurisdiction} payment already scheduled ($${existing.amount.toLocaleString()})`, changed: false } }
+      }
+      const amount = quarterlyAmount(scope.report(), action.jurisdiction)
+      if (amount <= 0) {
+        return { state, effect: { action: action.kind, summary: `No ${jurisdiction} estimated payment needed for Q${due.quarter}`, changed: false } }
+      }
+      const payment: EstimatedPayment = {
+        id: `ep_${rule.id}_${taxYear}_${due.quarter}_${jurisdiction}`,
+        taxYear,
+        quarter: due.quarter,
+        dueDate: due.date,
+        amount,
+        jurisdiction,
+        tags: ['automation'],
+        sourceId: rule.id,
+      }
+      return {
+        state: { ...state, estimatedPayments: [...(state.estimatedPayments || []), payment] },
+        effect: { action: action.kind, summary: `Created Q${due.quarter} ${jurisdiction} payment of $${amount.toLocaleString()} due ${due.date}`, changed: true },
+      }
+    }
+
+    case 'categorize_transactions': {
+      const scopeIds = ctx.transactionIds ? new Set(ctx.transactionIds) : null
+      const needle = action.match?.trim().toLowerCase()
+      let count = 0
+      const model = needle && action.category ? null : buildCategorizer(state)
+      const auditHistory = (state.auditHistory || []).map(tx => {
+        if (!isUncategorized(tx) || (scopeIds && !scopeIds.has(tx.id))) return tx
+        let category: string | undefined
+        if (needle && action.category) {
+          if (tx.description.toLowerCase().includes(needle)) category = action.category
+        } else {
+          // Learned corrections first, then the built-in rules
+          const guess = categorize(tx, model)
+          if (guess.source !== 'none') category = guess.category
+        }
+        if (!category) return tx
+        count++
+        return { ...tx, category }
+      })
+      const label = needle && action.category ? `matching "${action.match}" as ${action.category}` : 'with learned and built-in rules'
+      return {
+        state: count > 0 ? { ...state, auditHistory } : state,
+        effect: { action: action.kind, summary: `Categorized ${count} transaction${count === 1 ? '' : 's'} ${label}`, changed: count > 0 },
+      }
+    }
+
+    case 'notify': {
+      const at = new Date(now.getTime() + (action.delayMinutes || 0) * 60_000)
+      const payload: NotificationPayload = {
+        title: interpolate(action.title, scope),
+        body: interpolate(action.body, scope),
+        tag: `fortuna-automation-${rule.id}`,
+        data: { ruleId: rule.id },
+      }
+      return {
+        state,
+        effect: { action: action.kind, summary: `Notify "${payload.title}"${action.delayMinutes ? ` in ${action.delayMinutes} min` : ''}`, changed: true },
+        sideEffect: { kind: 'notify', payload, at: at.toISOString() },
+      }
+    }
+
+    case 'snapshot': {
+      const description = action.description ? interpolate(action.description, scope) : `Automation: ${rule.name}`
+      return {
+        state,
+        effect: { action: action.kind, summary: `Capture history snapshot "${description}"`, changed: true },
+        sideEffect: { kind: 'snapshot', description },
+      }
+    }
+  }
+}
+
+// ===================================================================
+//  EXECUTION
+// ===================================================================
+
+/** Evaluate one rule against state; returns the next state without logging */
+export function runAutomation(rule: AutomationRule, state: FortunaState, ctx: AutomationContext): AutomationBatchResult {
+  const now = ctx.now ?? new Date()
+  const conditions = evaluateConditions(rule.conditions, state, now)
+  const run: AutomationRun = {
+    id: runId(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    trigger: ctx.trigger,
+    startedAt: now.toISOString(),
+    dryRun: !!ctx.dryRun,
+    status: 'success',
+    conditions,
+    effects: [],
+  }
+
+  if (!conditions.every(c => c.passed)) {
+    return { state, runs: [{ ...run, status: 'skipped' }], sideEffects: [] }
+  }
+
+  let next = state
+  const sideEffects: AutomationSideEffect[] = []
+  try {
+    for (const action of rule.actions) {
+      const result = applyAction(action, next, rule, ctx, now)
+      next = result.state
+      run.effects.push(result.effect)
+      if (result.sideEffect) sideEffects.push(result.sideEffect)
+    }
+  } catch (err) {
+    // Abandon partial changes so a failed rule never half-applies
+    return { state, runs: [{ ...run, status: 'error', error: err instanceof Error ? err.message : String(err) }], sideEffects: [] }
+  }
+
+  if (ctx.dryRun) return { state, runs: [run], sideEffects: [] }
+  return { state: next, runs: [run], sideEffects }
+}
+
+/**
+ * Run a set of rules in order, chaining state between them. Unless dry-running,
+ * the runs are appended to the log and each rule's lastRunAt/runCount is updated.
+ */
+export function runAutomations(rules: AutomationRule[], state: FortunaState, ctx: AutomationContext): AutomationBatchResult {
+  let next = state
+  const runs: AutomationRun[] = []
+  const sideEffects: AutomationSideEffect[] = []
+
+  for (const rule of rules) {
+    const result = runAutomation(rule, next, ctx)
+    next = result.state
+    runs.push(...result.runs)
+    sideEffects.push(...result.sideEffects)
+  }
+
+  if (ctx.dryRun || runs.length === 0) return { state, runs, sideEffects: [] }
+
+  const ranAt = (ctx.now ?? new Date()).toISOString()
+  const ranIds = new Set(runs.map(r => r.ruleId))
+  return {
+    state: {
+      ...next,
+      automations: (next.automations || []).map(r => ranIds.has(r.id)
+        ? { ...r, lastRunAt: ranAt, runCount: (r.runCount || 0) + 1 }
+        : r),
+      automationLog: [...runs, ...(next.automationLog || [])].slice(0, MAX_RUN_LOG),
+    },
+    runs,
+    sideEffects,
+  }
+}
+
+// ===================================================================
+//  TRIGGER MATCHING
+// ===================================================================
+
+export function rulesForEvent(rules: AutomationRule[], event: FortunaEventType): AutomationRule[] {
+  return rules.filter(r => r.enabled && r.trigger.kind === 'event' && r.trigger.event === event)
+}
+
+export function rulesForNewTransactions(rules: AutomationRule[]): AutomationRule[] {
+  return rules.filter(r => r.enabled && r.trigger.kind === 'new_transactions')
+}
+
+export function dueScheduledRules(rules: AutomationRule[], now: Date = new Date()): AutomationRule[] {
+  return rules.filter(r => {
+    if (!r.enabled || r.trigger.kind !== 'schedule') return false
+    if (!r.lastRunAt) return true
+    return now.getTime() - new Date(r.lastRunAt).getTime() >= SCHEDULE_INTERVAL_MS[r.trigger.frequency]
+  })
+}
+
+/** IDs of bank transactions present in next but not in prev */
+export function findNewTransactionIds(prev: BankTransaction[] = [], next: BankTransaction[] = []): string[] {
+  const seen = new Set(prev.map(t => t.id))
+  return next.filter(t => !seen.has(t.id)).map(t => t.id)
+}
+
+export function describeTrigger(trigger: AutomationTrigger): string {
+  switch (trigger.kind) {
+    case 'event': return AUTOMATION_EVENTS.find(e => e.event === trigger.event)?.label ?? trigger.event
+    case 'schedule': return trigger.frequency.charAt(0).toUpperCase() + trigger.frequency.slice(1)
+    case 'new_transactions': return 'New bank transactions'
+  }
+}
+
+// ===================================================================
+//  TEMPLATES
+// ===================================================================
+
+export type AutomationTemplate = Omit<AutomationRule, 'id' | 'enabled' | 'createdAt' | 'templateId'>
+
+/** Built-in rules offered on the Automations view, keyed by template id */
+export const AUTOMATION_TEMPLATES: Record<string, AutomationTemplate> = {
+  'auto-estimated-tax': {
+    name: 'Quarterly Estimated Tax',
+    description: 'Schedule the next federal estimated payment and remind a week before it is due.',
+    trigger: { kind: 'schedule', frequency: 'weekly' },
+    conditions: [
+      { field: 'netTaxOwed', op: 'gt', value: 1000 },
+      { field: 'daysUntilNextEstimatedDue', op: 'lte', value: 30 },
+      { field: 'daysUntilNextEstimatedDue', op: 'gte', value: 0 },
+    ],
+    actions: [
+      { kind: 'create_estimated_payment', jurisdiction: 'federal', quarter: 'next' },
+      { kind: 'notify', title: 'Estimated tax due in {{daysUntilNextEstimatedDue}} days', body: 'Quarterly federal estimate: ${{quarterlyFederalEstimate}}' },
+    ],
+  },
+  'auto-mileage': {
+    name: 'Business Mileage Tracker',
+    description: 'Weekly reminder to log business miles.',
+    trigger: { kind: 'schedule', frequency: 'weekly' },
+    conditions: [],
+    actions: [{ kind: 'notify', title: 'Log your business miles', body: 'Record this week\'s business trips before the details fade.' }],
+  },
+  'auto-expense-cat': {
+    name: 'AI Expense Categorizer',
+    description: 'Categorize newly imported bank transactions with the built-in rules.',
+    trigger: { kind: 'new_transactions' },
+    conditions: [],
+    actions: [{ kind: 'categorize_transactions' }],
+  },
+  'auto-doc-collect': {
+    name: 'Tax Document Collector',
+    description: 'Monthly reminder during filing season to collect 1099s, W-2s and receipts.',
+    trigger: { kind: 'schedule', frequency: 'monthly' },
+    conditions: [{ field: 'month', op: 'lte', value: 4 }],
+    actions: [{ kind: 'notify', title: 'Collect your tax documents', body: '1099s and W-2s should have arrived — upload them to the Document Center.' }],
+  },
+  'auto-retirement': {
+    name: 'Retirement Contribution Optimizer',
+    description: 'Monthly reminder to review retirement contributions.',
+    trigger: { kind: 'schedule', frequency: 'monthly' },
+    conditions: [],
+    actions: [{ kind: 'notify', title: 'Review retirement contributions', body: 'Check year-to-date contributions against your limits.' }],
+  },
+  'auto-entity-compliance': {
+    name: 'Entity Compliance Monitor',
+    description: 'Monthly reminder to check entity filings while entities are active.',
+    trigger: { kind: 'schedule', frequency: 'monthly' },
+    conditions: [{ field: 'activeEntities', op: 'gt', value: 0 }],
+    actions: [{ kind: 'notify', title: 'Entity compliance check', body: '{{activeEntities}} active entities — confirm annual reports and registered agents are current.' }],
+  },
+  'auto-deadline-monitor': {
+    name: 'Deadline Intelligence',
+    description: 'Daily check that alerts inside the final week before an estimated payment is due.',
+    trigger: { kind: 'schedule', frequency: 'daily' },
+    conditions: [
+      { field: 'daysUntilNextEstimatedDue', op: 'lte', value: 7 },
+      { field: 'daysUntilNextEstimatedDue', op: 'gte', value: 0 },
+      { field: 'estimatedPaymentsOutstanding', op: 'gt', value: 0 },
+    ],
+    actions: [{ kind: 'notify', title: 'Estimated payment due in {{daysUntilNextEstimatedDue}} days', body: '${{estimatedPaymentsOutstanding}} in estimated payments is still unpaid.' }],
+  },
+}
+
+export function createRuleFromTemplate(templateId: string, id: string, now: Date = new Date()): AutomationRule | null {
+  const template = AUTOMATION_TEMPLATES[templateId]
+  if (!template) return null
+  return { ...template, id, templateId, enabled: true, createdAt: now.toISOString() }
+}
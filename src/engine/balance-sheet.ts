@@ -1,4 +1,5 @@
 import type { FortunaState } from './storage'
+import { ledgerNetAssets } from './general-ledger'
 
 export interface BalanceSheet {
   assets: {
@@ -74,6 +75,12 @@ export function generateBalanceSheet(state: FortunaState): BalanceSheet {
     }
   }
 
+  // Business Equity: net assets on each entity's books, at the owner's share
+  for (const entity of state.entities || []) {
+    const net = ledgerNetAssets(state, entity.id)
+    if (net > 0) assets.businessEquity += net * (entity.ownershipPct ?? 100) / 100
+  }
+
   // Startup Equity (Vested Value)
   if (state.equityCompensation) {
     for (const eq of state.equityCompensation) {
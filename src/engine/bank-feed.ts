@@ -343,29 +343,29 @@ export function getPlaidExchangeEndpoint(config: PlaidConfig) {
 
 // ─── Storage ────────────────────────────────────────────────────────────────
 
-const ACCOUNTS_KEY = 'fortuna:bank-accounts'
-const TRANSACTIONS_KEY = 'fortuna:bank-transactions'
+import { Storage } from './storage'
 
-export function saveAccounts(accounts: BankAccount[]) {
-  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts))
+// Kept in Storage so both keys are sealed while the vault is enabled
+
+export function saveAccounts(accounts: BankAccount[]): Promise<boolean> {
+  return Storage.saveBankAccounts(accounts)
 }
 
-export function loadAccounts(): BankAccount[] {
-  try { return JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || '[]') } catch { return [] }
+export function loadAccounts(): Promise<BankAccount[]> {
+  return Storage.getBankAccounts()
 }
 
-export function saveTransactions(transactions: BankTransaction[]) {
-  try { localStorage.setItem(TRANSACTIONS_KEY, JSON.stringify(transactions)) } catch {
-    console.warn('[BankFeed] Storage quota — keep only recent 6 months')
-    const sixMonthsAgo = new Date()
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6)
-    const recent = transactions.filter(t => new Date(t.date) >= sixMonthsAgo)
-    localStorage.setItem(TRANSACTIONS_KEY, JSON.stringify(recent))
-  }
+export async function saveTransactions(transactions: BankTransaction[]): Promise<boolean> {
+  if (await Storage.saveBankTransactions(transactions)) return true
+  console.warn('[BankFeed] Storage quota — keep only recent 6 months')
+  const sixMonthsAgo = new Date()
+  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6)
+  const recent = transactions.filter(t => new Date(t.date) >= sixMonthsAgo)
+  return Storage.saveBankTransactions(recent)
 }
 
-export function loadTransactions(): BankTransaction[] {
-  try { return JSON.parse(localStorage.getItem(TRANSACTIONS_KEY) || '[]') } catch { return [] }
+export function loadTransactions(): Promise<BankTransaction[]> {
+  return Storage.getBankTransactions()
 }
 
 // ─── Manual Transaction Import ──────────────────────────────────────────────
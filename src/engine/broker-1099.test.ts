@@ -0,0 +1,128 @@
+/**
+ * Broker 1099 Reconciliation — Test Suite
+ * Validates: consolidated 1099 parsing, 1099-B vs tracked lots, Form 8949 boxes and adjustment codes
+ */
+import { describe, it, expect } from 'vitest'
+import { parseConsolidated1099, reconcile1099B, reconciliationTo8949 } from './broker-1099'
+import { CostBasisTracker } from './cost-basis'
+import { exportForm8949 } from './filing-export'
+
+describe('broker 1099 reconciliation', () => {
+  const csv = [
+    'Description,Symbol,Quantity,Date Acquired,Date Sold,Proceeds,Cost Basis,Accrued Market Discount,Wash Sale Loss Disallowed,Term,Covered',
+    'APPLE INC,AAPL,10,01/10/2022,03/01/2024,"1,500.00","1,000.00",0.00,0.00,Long-term,Covered',
+    'MICROSOFT CORP,MSFT,5,01/05/2024,02/01/2024,"1,400.00","1,500.00",0.00,0.00,Short-term,Covered',
+    'TESLA INC,TSLA,4,06/01/2022,04/15/2024,800.00,,0.00,0.00,Long-term,Noncovered',
+    'NVIDIA CORP,NVDA,2,02/01/2024,05/01/2024,"1,000.00",600.00,0.00,0.00,Short-term,Covered',
+    '1099-DIV,1a,Total ordinary dividends,"1,234.56"',
+    '1099-DIV,1b,Qualified dividends,900.00',
+    '1099-INT,1,Interest income,45.10',
+  ].join('\n')
+
+  function trackerFor() {
+    const tracker = new CostBasisTracker('fifo')
+    tracker.addLot({ ticker: 'AAPL', quantity: 10, costPerUnit: 100, acquiredDate: '2022-01-10', source: 'schwab' })
+    tracker.addLot({ ticker: 'MSFT', quantity: 5, costPerUnit: 300, acquiredDate: '2024-01-05', source: 'schwab' })
+    tracker.addLot({ ticker: 'MSFT', quantity: 5, costPerUnit: 290, acquiredDate: '2024-02-10', source: 'fidelity' })
+    tracker.addLot({ ticker: 'TSLA', quantity: 4, costPerUnit: 150, acquiredDate: '2022-06-01', source: 'schwab' })
+    tracker.addLot({ ticker: 'NVDA', quantity: 2, costPerUnit: 320, acquiredDate: '2024-02-01', source: 'schwab' })
+    tracker.addLot({ ticker: 'ETH', quantity: 1, costPerUnit: 2000, acquiredDate: '2024-01-01', source: 'ledger' })
+    tracker.dispose({ ticker: 'AAPL', quantity: 10, proceedsPerUnit: 150, disposalDate: '2024-03-01' })
+    tracker.dispose({ ticker: 'MSFT', quantity: 5, proceedsPerUnit: 280, disposalDate: '2024-02-01' })
+    tracker.dispose({ ticker: 'TSLA', quantity: 4, proceedsPerUnit: 200, disposalDate: '2024-04-15' })
+    tracker.dispose({ ticker: 'NVDA', quantity: 2, proceedsPerUnit: 500, disposalDate: '2024-05-01' })
+    tracker.dispose({ ticker: 'ETH', quantity: 1, proceedsPerUnit: 2500, disposalDate: '2024-06-01' })
+    return tracker
+  }
+
+  it('reads a consolidated 1099 CSV', () => {
+    const parsed = parseConsolidated1099(csv)
+    expect(parsed.sales).toHaveLength(4)
+    expect(parsed.sales[0]).toMatchObject({ ticker: 'AAPL', quantity: 10, dateAcquired: '2022-01-10', dateSold: '2024-03-01', proceeds: 1500, costBasis: 1000, term: 'long', basisReported: true })
+    expect(parsed.sales[2]).toMatchObject({ ticker: 'TSLA', costBasis: undefined, term: 'long', basisReported: false })
+    expect(parsed.dividends).toMatchObject({ ordinaryDividends: 1234.56, qualifiedDividends: 900 })
+    expect(parsed.interest?.interestIncome).toBe(45.1)
+  })
+
+  it('reads 1099 PDF text with section headings and wash-sale columns', () => {
+    const text = [
+      'Brokerage Consolidated Form 1099 — 2024',
+      '2024 1099-DIV Dividends and Distributions',
+      '1a- Total Ordinary Dividends 1,234.56',
+      '1b- Qualified Dividends 900.00',
+      '7- Foreign Tax Paid 12.40',
+      '2024 1099-INT Interest Income',
+      '1- Interest Income 45.10',
+      '2024 1099-B Proceeds From Broker and Barter Exchange Transactions',
+      'SHORT-TERM TRANSACTIONS FOR COVERED TAX LOTS [Box A checked]',
+      'MICROSOFT CORP / CUSIP: 594918104 / Symbol: MSFT',
+      '5.000 02/01/24 01/05/24 1,400.00 1,500.00 100.00 W 0.00',
+      'LONG-TERM TRANSACTIONS FOR NONCOVERED TAX LOTS [Box E checked]',
+      'TESLA INC / CUSIP: 88160R101 / Symbol: TSLA',
+      '4.000 04/15/24 06/01/23 800.00 0.00 800.00',
+    ].join('\n')
+    const parsed = parseConsolidated1099(text)
+    expect(parsed.dividends).toMatchObject({ ordinaryDividends: 1234.56, qualifiedDividends: 900, foreignTaxPaid: 12.4 })
+    expect(parsed.interest?.interestIncome).toBe(45.1)
+    expect(parsed.sales[0]).toMatchObject({
+      description: 'MICROSOFT CORP', ticker: 'MSFT', cusip: '594918104', quantity: 5,
+      dateAcquired: '2024-01-05', dateSold: '2024-02-01', proceeds: 1400, costBasis: 1500,
+      washSaleDisallowed: 100, term: 'short', basisReported: true,
+    })
+    expect(parsed.sales[1]).toMatchObject({ ticker: 'TSLA', costBasis: undefined, term: 'long', basisReported: false })
+    expect(parsed.warnings).toEqual([])
+  })
+
+  it('reconciles 1099-B lines against tracked disposals', () => {
+    const tracker = trackerFor()
+    const msftWash = tracker.getDisposals().find(d => d.ticker === 'MSFT')!.washSaleDisallowed
+    expect(msftWash).toBeGreaterThan(0)
+
+    const result = reconcile1099B(parseConsolidated1099(csv).sales, tracker.getDisposals(), tracker.getLots())
+    const line = (ticker: string) => result.lines.find(l => (l.broker?.ticker ?? l.disposals[0].ticker) === ticker)!
+
+    expect(line('AAPL').issues).toEqual([])
+    expect(line('AAPL').form8949).toMatchObject({ box: 'D', adjustmentCode: '', adjustment: 0, gainLoss: 500 })
+
+    expect(line('MSFT').issues).toEqual(['wash_sale_difference'])
+    expect(line('MSFT').form8949).toMatchObject({ box: 'A', adjustmentCode: 'W', adjustment: msftWash, gainLoss: -100 + msftWash, isWashSale: true })
+
+    // Noncovered lot: the broker left basis blank, so the tracker supplies it
+    expect(line('TSLA').form8949).toMatchObject({ box: 'E', costBasis: 600, adjustment: 0, gainLoss: 200 })
+
+    // Broker basis 600, tracker 640: code B adjusts the gain down by 40
+    expect(line('NVDA').issues).toEqual(['basis_mismatch'])
+    expect(line('NVDA').basisDifference).toBe(40)
+    expect(line('NVDA').form8949).toMatchObject({ box: 'A', costBasis: 600, adjustmentCode: 'B', adjustment: -40, gainLoss: 360 })
+
+    // Sold outside the broker: not on the 1099, box F/C
+    expect(line('ETH').issues).toEqual(['missing_on_1099'])
+    expect(line('ETH').form8949).toMatchObject({ box: 'C', proceeds: 2500, costBasis: 2000 })
+
+    expect(result.matched).toBe(4)
+    expect(result.withIssues).toBe(3)
+    expect(result.byBox.A).toMatchObject({ count: 2, proceeds: 2400 })
+  })
+
+  it('flags sales missing from the tracker and term disagreements, and exports 8949 codes', () => {
+    const tracker = new CostBasisTracker('fifo')
+    tracker.addLot({ ticker: 'AAPL', quantity: 10, costPerUnit: 100, acquiredDate: '2023-01-10', source: 'schwab' })
+    tracker.dispose({ ticker: 'AAPL', quantity: 10, proceedsPerUnit: 150, disposalDate: '2024-03-01' })
+    const sales = parseConsolidated1099([
+      'Description,Symbol,Quantity,Date Acquired,Date Sold,Proceeds,Cost Basis,Term,Covered',
+      'APPLE INC,AAPL,10,01/10/2023,03/01/2024,"1,500.00","1,000.00",Short-term,Covered',
+      'AMAZON COM INC,AMZN,3,01/10/2024,03/01/2024,450.00,400.00,Short-term,Covered',
+    ].join('\n')).sales
+
+    const result = reconcile1099B(sales, tracker.getDisposals(), tracker.getLots())
+    expect(result.lines[0].issues).toEqual(['term_mismatch'])
+    expect(result.lines[0].form8949).toMatchObject({ box: 'D', adjustmentCode: 'T' })
+    expect(result.lines[1].issues).toEqual(['missing_in_tracker'])
+    expect(result.lines[1].form8949).toMatchObject({ box: 'A', gainLoss: 50 })
+
+    const rows = exportForm8949(reconciliationTo8949(result)).split('\n')
+    expect(rows).toHaveLength(3)
+    expect(rows[1]).toBe('"AMAZON COM INC","2024-01-10","2024-03-01","450.00","400.00","","0.00","50.00","A"')
+    expect(rows[2]).toBe('"APPLE INC","2023-01-10","2024-03-01","1500.00","1000.00","T","0.00","500.00","D"')
+  })
+})
@@ -0,0 +1,483 @@
+/**
+ * FORTUNA ENGINE — Broker 1099 Reconciliation v1
+ *
+ * Checks what the broker reported against the lots we track:
+ *   - Consolidated 1099 import from CSV detail exports or PDF text
+ *     (1099-B transactions, 1099-DIV and 1099-INT summary boxes)
+ *   - Line-by-line match of 1099-B rows to DisposalRecords (ticker, date
+ *     sold, quantity), flagging proceeds and basis mismatches, wash-sale
+ *     differences and short/long-term disagreements
+ *   - Form 8949 box (A/B/D/E for 1099-B rows, C/F for sales no 1099-B
+ *     covers) and adjustment codes B, D, T, W with the column (g) amount
+ *
+ * Column (d) and (e) always carry what the 1099-B shows; corrections go
+ * through codes and column (g), as the Form 8949 instructions require.
+ * Wash-sale adjustments use the tracker's figure, since it sees every
+ * account (brokers only see their own); differences are flagged.
+ */
+
+import { parseCSV } from './csv-import'
+import type { DisposalRecord, TaxLot } from './cost-basis'
+import type { Form8949Transaction } from './filing-export'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type Form8949Box = Form8949Transaction['box']
+
+/** One 1099-B transaction row */
+export interface Broker1099BLine {
+  description: string          // Box 1a
+  ticker?: string
+  cusip?: string
+  quantity?: number
+  dateAcquired?: string        // Box 1b (ISO) or 'VARIOUS'
+  dateSold: string             // Box 1c (ISO)
+  proceeds: number             // Box 1d
+  costBasis?: number           // Box 1e; absent when not reported to the IRS
+  accruedMarketDiscount: number // Box 1f
+  washSaleDisallowed: number   // Box 1g
+  term: 'short' | 'long'       // Box 2
+  basisReported: boolean       // Box 12 — covered lots (Form 8949 box A / D)
+}
+
+export interface Broker1099DIV {
+  ordinaryDividends: number            // 1a
+  qualifiedDividends: number           // 1b
+  capitalGainDistributions: number     // 2a
+  nondividendDistributions: number     // 3
+  federalWithheld: number              // 4
+  section199ADividends: number         // 5
+  foreignTaxPaid: number               // 7
+}
+
+export interface Broker1099INT {
+  interestIncome: number               // 1
+  earlyWithdrawalPenalty: number       // 2
+  treasuryInterest: number             // 3
+  federalWithheld: number              // 4
+  foreignTaxPaid: number               // 6
+  taxExemptInterest: number            // 8
+}
+
+export interface Consolidated1099 {
+  sales: Broker1099BLine[]
+  dividends?: Broker1099DIV
+  interest?: Broker1099INT
+  warnings: string[]
+}
+
+export type ReconciliationIssue =
+  | 'proceeds_mismatch' | 'basis_mismatch' | 'wash_sale_difference' | 'term_mismatch'
+  | 'missing_in_tracker' | 'missing_on_1099'
+
+export interface Reconciled1099Line {
+  broker?: Broker1099BLine
+  disposals: DisposalRecord[]
+  issues: ReconciliationIssue[]
+  proceedsDifference: number   // Tracker − broker
+  basisDifference: number
+  washSaleDifference: number
+  form8949: Form8949Transaction
+}
+
+export interface Reconciliation1099Result {
+  lines: Reconciled1099Line[]
+  matched: number
+  withIssues: number
+  byBox: Partial<Record<Form8949Box, { proceeds: number; costBasis: number; adjustment: number; gainLoss: number; count: number }>>
+}
+
+// ─── Parsing Helpers ────────────────────────────────────────────────────────
+
+const MONEY = /^\(?-?\$?[\d,]*\.?\d+\)?[A-Z]?$/
+
+function parseMoney(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined
+  const text = raw.trim()
+  if (!text || text === '-' || text === '--') return undefined
+  const negative = /^\(.*\)[A-Z]?$/.test(text) || text.startsWith('-')
+  const n = Number(text.replace(/[^\d.]/g, ''))
+  if (!Number.isFinite(n)) return undefined
+  return negative ? -n : n
+}
+
+/** MM/DD/YYYY, MM/DD/YY or ISO → ISO; 'Various' passes through */
+function parseDate(raw: string | undefined): string | undefined {
+  if (!raw) return undefined
+  const text = raw.trim()
+  if (/^various$/i.test(text)) return 'VARIOUS'
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/)
+  if (!us) return undefined
+  const year = us[3].length === 2 ? `20${us[3]}` : us[3]
+  return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+function emptyDiv(): Broker1099DIV {
+  return {
+    ordinaryDividends: 0, qualifiedDividends: 0, capitalGainDistributions: 0, nondividendDistributions: 0,
+    federalWithheld: 0, section199ADividends: 0, foreignTaxPaid: 0,
+  }
+}
+
+function emptyInt(): Broker1099INT {
+  return { interestIncome: 0, earlyWithdrawalPenalty: 0, treasuryInterest: 0, federalWithheld: 0, foreignTaxPaid: 0, taxExemptInterest: 0 }
+}
+
+const DIV_BOXES: Record<string, keyof Broker1099DIV> = {
+  '1a': 'ordinaryDividends', '1b': 'qualifiedDividends', '2a': 'capitalGainDistributions',
+  '3': 'nondividendDistributions', '4': 'federalWithheld', '5': 'section199ADividends', '7': 'foreignTaxPaid',
+}
+
+const INT_BOXES: Record<string, keyof Broker1099INT> = {
+  '1': 'interestIncome', '2': 'earlyWithdrawalPenalty', '3': 'treasuryInterest',
+  '4': 'federalWithheld', '6': 'foreignTaxPaid', '8': 'taxExemptInterest',
+}
+
+function setBox(result: Consolidated1099, form: 'DIV' | 'INT', box: string, amount: number) {
+  const key = box.toLowerCase()
+  if (form === 'DIV' && DIV_BOXES[key]) {
+    result.dividends = result.dividends ?? emptyDiv()
+    result.dividends[DIV_BOXES[key]] = amount
+  } else if (form === 'INT' && INT_BOXES[key]) {
+    result.interest = result.interest ?? emptyInt()
+    result.interest[INT_BOXES[key]] = amount
+  }
+}
+
+// ─── CSV Import ─────────────────────────────────────────────────────────────
+
+/**
+ * 1099-B detail CSV (one row per sale, columns found by name). Summary
+ * rows shaped `1099-DIV,<box>,<description>,<amount>` fill DIV/INT boxes.
+ */
+export function parse1099Csv(text: string): Consolidated1099 {
+  const result: Consolidated1099 = { sales: [], warnings: [] }
+  const detail: string[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const summary = line.match(/^"?1099-(DIV|INT)"?\s*,\s*"?([0-9]{1,2}[a-z]?)"?\s*,(.*)$/i)
+    if (!summary) { detail.push(line); continue }
+    const amount = parseMoney(summary[3].match(/"?(\(?-?\$?[\d,]*\.?\d+\)?)"?\s*$/)?.[1])
+    if (amount !== undefined) setBox(result, summary[1].toUpperCase() as 'DIV' | 'INT', summary[2], amount)
+  }
+
+  const { headers, rows } = parseCSV(detail.join('\n'))
+  if (headers.length === 0) return result
+  const find = (pattern: RegExp, not?: RegExp) => headers.findIndex(h => pattern.test(h) && !(not && not.test(h)))
+  const col = {
+    description: find(/description|security/),
+    ticker: find(/symbol|ticker/),
+    cusip: find(/cusip/),
+    quantity: find(/quantity|shares/),
+    acquired: find(/acquired/),
+    sold: find(/sold|disposed|sale date/),
+    proceeds: find(/proceeds/),
+    cost: find(/cost|basis/, /reported|covered|adjust/),
+    accrued: find(/accrued|market discount/),
+    wash: find(/wash/),
+    term: find(/term|holding/),
+    box: find(/8949|^box$|form box/),
+    covered: find(/covered|reported to irs|basis reported/),
+  }
+  if (col.proceeds < 0 || col.sold < 0) {
+    if (rows.length > 0) result.warnings.push('No proceeds / date sold columns found — not a 1099-B detail export.')
+    return result
+  }
+
+  for (const row of rows) {
+    const dateSold = parseDate(row[col.sold])
+    const proceeds = parseMoney(row[col.proceeds])
+    if (!dateSold || dateSold === 'VARIOUS' || proceeds === undefined) continue
+    const boxText = col.box >= 0 ? row[col.box] || '' : ''
+    const boxLetter = boxText.match(/\b([ABDE])\b/i)?.[1].toUpperCase()
+    const termText = col.term >= 0 ? row[col.term] || '' : ''
+    const coveredText = col.covered >= 0 ? row[col.covered] || '' : ''
+    const cost = col.cost >= 0 ? parseMoney(row[col.cost]) : undefined
+    const term: 'short' | 'long' = boxLetter ? (boxLetter === 'D' || boxLetter === 'E' ? 'long' : 'short') : /long/i.test(termText) ? 'long' : 'short'
+    const basisReported = boxLetter
+      ? boxLetter === 'A' || boxLetter === 'D'
+      : coveredText ? !/non|no|false|not/i.test(coveredText) : cost !== undefined
+
+    result.sales.push({
+      description: (col.description >= 0 ? row[col.description] : '') || row[col.ticker] || 'Unknown security',
+      ticker: col.ticker >= 0 && row[col.ticker] ? row[col.ticker].toUpperCase() : undefined,
+      cusip: col.cusip >= 0 ? row[col.cusip] || undefined : undefined,
+      quantity: col.quantity >= 0 ? parseMoney(row[col.quantity]) : undefined,
+      dateAcquired: col.acquired >= 0 ? parseDate(row[col.acquired]) : undefined,
+      dateSold,
+      proceeds,
+      costBasis: cost,
+      accruedMarketDiscount: (col.accrued >= 0 ? parseMoney(row[col.accrued]) : 0) || 0,
+      washSaleDisallowed: (col.wash >= 0 ? parseMoney(row[col.wash]) : 0) || 0,
+      term,
+      basisReported,
+    })
+  }
+  return result
+}
+
+// ─── PDF Text Import ────────────────────────────────────────────────────────
+
+/**
+ * Text extracted from a consolidated 1099 PDF. Reads the DIV / INT summary
+ * boxes and the 1099-B detail: section headings set the term and covered
+ * status, security lines set the description, and each transaction line is
+ * `[quantity] date date proceeds cost [accrued] [wash] gain`.
+ */
+export function parse1099Text(text: string): Consolidated1099 {
+  const result: Consolidated1099 = { sales: [], warnings: [] }
+  let section: 'B' | 'DIV' | 'INT' | null = null
+  let term: 'short' | 'long' = 'short'
+  let basisReported = true
+  let security: { description: string; ticker?: string; cusip?: string } | null = null
+  let unparsed = 0
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+/g, ' ').trim()
+    if (!line) continue
+
+    if (/1099-DIV/i.test(line)) { section = 'DIV'; continue }
+    if (/1099-INT/i.test(line)) { section = 'INT'; continue }
+    if (/1099-B/i.test(line)) section = 'B'
+
+    if (section === 'DIV' || section === 'INT') {
+      const box = line.match(/^(\d{1,2}[a-z]?)[\s.:\-–]+[A-Za-z].*?\s\(?\$?([\d,]+\.\d{2})\)?$/i)
+      if (box) setBox(result, section, box[1], parseMoney(box[2])!)
+      continue
+    }
+    if (section !== 'B') continue
+
+    if (/short[- ]term/i.test(line)) term = 'short'
+    if (/long[- ]term/i.test(line)) term = 'long'
+    if (/noncovered|not reported to the irs|box [BE] checked/i.test(line)) basisReported = false
+    else if (/covered|reported to the irs|box [AD] checked/i.test(line)) basisReported = true
+
+    const tokens = line.split(' ')
+    const dateIdx = tokens.findIndex(t => parseDate(t) !== undefined)
+    if (dateIdx < 0) {
+      const cusip = line.match(/CUSIP:?\s*([0-9A-Z]{9})/i)?.[1]
+      const ticker = line.match(/Symbol:?\s*([A-Z.]{1,6})\b/)?.[1]
+      if (cusip || ticker) {
+        security = { description: line.split(/\s*\/\s*|\s+CUSIP/i)[0].trim(), ticker, cusip }
+      }
+      continue
+    }
+
+    const dateIdxs = tokens.map((t, i) => (parseDate(t) !== undefined ? i : -1)).filter(i => i >= 0).slice(0, 2)
+    const dates = dateIdxs.map(i => parseDate(tokens[i])!)
+    const amounts = tokens.slice(dateIdxs[dateIdxs.length - 1] + 1)
+      .filter(t => MONEY.test(t))
+      .map(t => ({ value: parseMoney(t)!, flag: t.match(/[A-Z]$/)?.[0] }))
+    if (dates.length < 2 || amounts.length < 3 || !security) { unparsed++; continue }
+
+    const [a, b] = dates
+    const dateSold = a === 'VARIOUS' ? b : b === 'VARIOUS' ? a : a > b ? a : b
+    const dateAcquired = dateSold === a ? b : a
+    const proceeds = amounts[0].value
+    const cost = amounts[1].value
+    const gain = amounts[amounts.length - 1].value
+    const middle = amounts.slice(2, -1)
+    let accrued = 0
+    let wash = 0
+    if (middle.length >= 2) {
+      accrued = middle[0].value
+      wash = middle[1].value
+    } else if (middle.length === 1) {
+      // Wash-sale amounts are added back to the gain; accrued discount is not
+      const isWash = middle[0].flag === 'W' || Math.abs(proceeds - cost + middle[0].value - gain) < 0.02
+      if (isWash) wash = middle[0].value
+      else accrued = middle[0].value
+    }
+
+    result.sales.push({
+      description: security.description,
+      ticker: security.ticker,
+      cusip: security.cusip,
+      quantity: dateIdx > 0 ? parseMoney(tokens[dateIdx - 1]) : undefined,
+      dateAcquired,
+      dateSold,
+      proceeds,
+      costBasis: basisReported || cost !== 0 ? cost : undefined,
+      accruedMarketDiscount: accrued,
+      washSaleDisallowed: wash,
+      term,
+      basisReported,
+    })
+  }
+
+  if (unparsed > 0) result.warnings.push(`${unparsed} 1099-B lines could not be read — check them against the PDF.`)
+  return result
+}
+
+/** CSV when the first line is comma-separated, otherwise PDF text */
+export function parseConsolidated1099(content: string): Consolidated1099 {
+  const first = content.split(/\r?\n/).find(l => l.trim()) ?? ''
+  return (first.match(/,/g)?.length ?? 0) >= 3 ? parse1099Csv(content) : parse1099Text(content)
+}
+
+// ─── Reconciliation ─────────────────────────────────────────────────────────
+
+export function form8949Box(term: 'short' | 'long', basisReported: boolean | null): Form8949Box {
+  if (basisReported === null) return term === 'long' ? 'F' : 'C'
+  if (term === 'long') return basisReported ? 'D' : 'E'
+  return basisReported ? 'A' : 'B'
+}
+
+function tickerMatches(line: Broker1099BLine, disposal: DisposalRecord): boolean {
+  if (line.ticker) return line.ticker.toUpperCase() === disposal.ticker
+  return line.description.toUpperCase().split(/[^A-Z0-9.]+/).includes(disposal.ticker)
+}
+
+/**
+ * Match 1099-B rows to tracked disposals and build Form 8949 lines.
+ * A broker row matches one disposal of the same quantity, or every
+ * disposal of the ticker that day when the broker reports them combined.
+ */
+export function reconcile1099B(
+  sales: Broker1099BLine[],
+  disposals: DisposalRecord[],
+  lots: TaxLot[] = [],
+  tolerance = 1,
+): Reconciliation1099Result {
+  const acquiredOn = new Map(lots.map(l => [l.id, l.acquiredDate]))
+  const unused = new Set(disposals)
+  const lines: Reconciled1099Line[] = []
+
+  const ordered = [...sales].sort((a, b) => a.dateSold.localeCompare(b.dateSold))
+  for (const sale of ordered) {
+    const candidates = [...unused].filter(d => d.disposalDate === sale.dateSold && tickerMatches(sale, d))
+    let matched: DisposalRecord[] = []
+    if (sale.quantity !== undefined) {
+      const exact = candidates
+        .filter(d => Math.abs(d.quantity - sale.quantity!) < 1e-6)
+        .sort((a, b) => Math.abs(a.costBasis - (sale.costBasis ?? a.costBasis)) - Math.abs(b.costBasis - (sale.costBasis ?? b.costBasis)))
+      if (exact.length > 0) matched = [exact[0]]
+      else if (Math.abs(candidates.reduce((s, d) => s + d.quantity, 0) - sale.quantity) < 1e-6) matched = candidates
+    } else if (candidates.length > 0) {
+      matched = candidates
+    }
+    for (const d of matched) unused.delete(d)
+    lines.push(reconcileLine(sale, matched, acquiredOn, tolerance))
+  }
+
+  for (const d of unused) lines.push(reconcileLine(undefined, [d], acquiredOn, tolerance))
+
+  const byBox: Reconciliation1099Result['byBox'] = {}
+  for (const { form8949: f } of lines) {
+    const totals = byBox[f.box] ?? { proceeds: 0, costBasis: 0, adjustment: 0, gainLoss: 0, count: 0 }
+    totals.proceeds = round2(totals.proceeds + f.proceeds)
+    totals.costBasis = round2(totals.costBasis + f.costBasis)
+    totals.adjustment = round2(totals.adjustment + f.adjustment)
+    totals.gainLoss = round2(totals.gainLoss + f.gainLoss)
+    totals.count++
+    byBox[f.box] = totals
+  }
+
+  return {
+    lines,
+    matched: lines.filter(l => l.broker && l.disposals.length > 0).length,
+    withIssues: lines.filter(l => l.issues.length > 0).length,
+    byBox,
+  }
+}
+
+function reconcileLine(
+  sale: Broker1099BLine | undefined,
+  disposals: DisposalRecord[],
+  acquiredOn: Map<string, string>,
+  tolerance: number,
+): Reconciled1099Line {
+  const issues: ReconciliationIssue[] = []
+  const tracked = disposals.length > 0
+  const trackerProceeds = disposals.reduce((s, d) => s + d.totalProceeds, 0)
+  const trackerBasis = disposals.reduce((s, d) => s + d.costBasis, 0)
+  const trackerWash = disposals.reduce((s, d) => s + d.washSaleDisallowed, 0)
+  const trackerTerm = tracked
+    ? disposals.every(d => d.holdingPeriod === 'long') ? 'long' : disposals.every(d => d.holdingPeriod === 'short') ? 'short' : null
+    : null
+  const acquired = [...new Set(disposals.map(d => acquiredOn.get(d.lotId)).filter((d): d is string => !!d))]
+
+  if (!sale) {
+    const d = disposals[0]
+    issues.push('missing_on_1099')
+    const adjustment = round2(trackerWash)
+    return {
+      disposals,
+      issues,
+      proceedsDifference: 0,
+      basisDifference: 0,
+      washSaleDifference: 0,
+      form8949: {
+        description: `${d.quantity} ${d.ticker}`,
+        dateAcquired: acquired[0] ?? 'VARIOUS',
+        dateSold: d.disposalDate,
+        proceeds: round2(trackerProceeds),
+        costBasis: round2(trackerBasis),
+        adjustmentCode: adjustment > 0 ? 'W' : '',
+        adjustment,
+        gainLoss: round2(trackerProceeds - trackerBasis + adjustment),
+        box: form8949Box(d.holdingPeriod, null),
+        isWashSale: adjustment > 0,
+      },
+    }
+  }
+
+  if (!tracked) issues.push('missing_in_tracker')
+  const proceedsDifference = tracked ? round2(trackerProceeds - sale.proceeds) : 0
+  const basisDifference = tracked && sale.costBasis !== undefined ? round2(trackerBasis - sale.costBasis) : 0
+  const washSaleDifference = tracked ? round2(trackerWash - sale.washSaleDisallowed) : 0
+  if (Math.abs(proceedsDifference) > tolerance) issues.push('proceeds_mismatch')
+  if (Math.abs(basisDifference) > tolerance) issues.push('basis_mismatch')
+  if (Math.abs(washSaleDifference) > tolerance) issues.push('wash_sale_difference')
+  const termMismatch = trackerTerm !== null && trackerTerm !== sale.term
+  if (termMismatch) issues.push('term_mismatch')
+
+  // Columns (d)/(e) as reported; corrections through codes and column (g)
+  const codes = new Set<string>()
+  let adjustment = 0
+  const costBasis = sale.costBasis ?? (tracked ? trackerBasis : 0)
+  if (sale.costBasis !== undefined && issues.includes('basis_mismatch')) {
+    codes.add('B')
+    adjustment += sale.costBasis - trackerBasis
+  }
+  const wash = tracked ? trackerWash : sale.washSaleDisallowed
+  if (wash > 0) {
+    codes.add('W')
+    adjustment += wash
+  }
+  if (sale.accruedMarketDiscount > 0) {
+    codes.add('D')
+    adjustment -= sale.accruedMarketDiscount
+  }
+  if (termMismatch) codes.add('T')
+  adjustment = round2(adjustment)
+
+  return {
+    broker: sale,
+    disposals,
+    issues,
+    proceedsDifference,
+    basisDifference,
+    washSaleDifference,
+    form8949: {
+      description: sale.description,
+      dateAcquired: sale.dateAcquired ?? (acquired.length === 1 ? acquired[0] : 'VARIOUS'),
+      dateSold: sale.dateSold,
+      proceeds: sale.proceeds,
+      costBasis: round2(costBasis),
+      adjustmentCode: [...codes].sort().join(''),
+      adjustment,
+      gainLoss: round2(sale.proceeds - costBasis + adjustment),
+      box: form8949Box(termMismatch ? trackerTerm! : sale.term, sale.basisReported),
+      isWashSale: wash > 0,
+    },
+  }
+}
+
+/** Form 8949 rows for exportForm8949, grouped by box */
+export function reconciliationTo8949(result: Reconciliation1099Result): Form8949Transaction[] {
+  return result.lines.map(l => l.form8949).sort((a, b) => a.box.localeCompare(b.box))
+}
@@ -0,0 +1,91 @@
+/**
+ * Learning Categorizer — Test Suite
+ * Validates: merchant memory, latest-correction training, per-entity model, rules fallback, evaluation, automation categorize action
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import { runAutomations, type AutomationRule } from './automation-engine'
+import {
+  recordCorrection, buildCategorizer, categorize, categorizeUnreviewed, collectTrainingExamples, evaluateCategorizer, trainCategorizer,
+  type TrainingExample,
+} from './categorizer'
+
+describe('learning categorizer', () => {
+  const now = new Date('2025-06-01T12:00:00Z')
+  const tx = (id: string, description: string, amount: number, entityId?: string) =>
+    ({ id, date: '2025-05-01', description, amount, isReconciled: false, entityId })
+
+  it('remembers a corrected merchant and marks the row reviewed', () => {
+    const state = { ...createDefaultState(), auditHistory: [tx('t1', 'BLUE BOTTLE COFFEE #12', -6.5), tx('t2', 'BLUE BOTTLE COFFEE #40', -8)] }
+    const corrected = recordCorrection(state, 't1', 'meals', now)
+    expect(corrected.categoryCorrections).toHaveLength(1)
+    expect(corrected.categoryCorrections[0]).toMatchObject({ transactionId: 't1', category: 'meals', correctedAt: now.toISOString() })
+    expect(corrected.auditHistory[0]).toMatchObject({ category: 'meals', reviewed: true })
+
+    const result = categorize(corrected.auditHistory[1], buildCategorizer(corrected))
+    expect(result).toMatchObject({ category: 'meals', source: 'memory' })
+
+    const applied = categorizeUnreviewed(corrected)
+    expect(applied.changed).toBe(1)
+    expect(applied.state.auditHistory[1].category).toBe('meals')
+  })
+
+  it('uses only the latest correction per transaction', () => {
+    let state: FortunaState = { ...createDefaultState(), auditHistory: [tx('t1', 'Costco Wholesale', -120)] }
+    state = recordCorrection(state, 't1', 'groceries', now)
+    state = recordCorrection(state, 't1', 'office_expense', new Date('2025-06-02T12:00:00Z'))
+    const examples = collectTrainingExamples(state)
+    expect(examples).toHaveLength(1)
+    expect(examples[0].category).toBe('office_expense')
+  })
+
+  it('learns per entity and generalizes to unseen merchants', () => {
+    const examples: TrainingExample[] = [
+      ...['Shell Oil 123', 'Chevron Station', 'Exxon Fuel Stop', 'Shell Gas 88', 'Arco Fuel'].map((d, i) =>
+        ({ id: `b${i}`, description: d, amount: -45, entityId: 'biz', category: 'vehicle' })),
+      ...['Whole Foods Market', 'Trader Joes Market', 'Safeway Grocery', 'Kroger Market'].map((d, i) =>
+        ({ id: `p${i}`, description: d, amount: -80, category: 'groceries' })),
+      { id: 'p9', description: 'Sprouts Farmers Market', amount: -60, category: 'groceries' },
+    ]
+    const model = trainCategorizer(examples)
+    const fuel = categorize({ description: 'Valero Fuel 55', amount: -40, entityId: 'biz' }, model)
+    expect(fuel.source).toBe('model')
+    expect(fuel.category).toBe('vehicle')
+
+    const market = categorize({ description: 'Aldi Market', amount: -70 }, model)
+    expect(market.category).toBe('groceries')
+  })
+
+  it('falls back to built-in rules without training data', () => {
+    const result = categorize({ description: 'Adobe Creative Cloud', amount: -55 }, buildCategorizer(createDefaultState()))
+    expect(result.source).toBe('rules')
+    expect(result.category).toBe('software')
+  })
+
+  it('reports precision and coverage on held-out corrections', () => {
+    const examples: TrainingExample[] = Array.from({ length: 60 }, (_, i) => ({
+      id: `e${i}`,
+      description: i % 2 ? `Uber Trip ${i}` : `Starbucks Store ${i}`,
+      amount: -(10 + i),
+      category: i % 2 ? 'travel' : 'meals',
+    }))
+    const evaluation = evaluateCategorizer(examples, { holdoutFraction: 0.3 })
+    expect(evaluation.trainSize + evaluation.testSize).toBe(60)
+    expect(evaluation.testSize).toBeGreaterThan(0)
+    expect(evaluation.coverage).toBe(1)
+    expect(evaluation.precision).toBe(1)
+    expect(evaluation).toEqual(evaluateCategorizer(examples, { holdoutFraction: 0.3 }))
+  })
+
+  it('automation categorize action applies learned corrections', () => {
+    const rule: AutomationRule = {
+      id: 'cat', name: 'Categorize', enabled: true, createdAt: '2025-01-01T00:00:00Z',
+      trigger: { kind: 'new_transactions' }, conditions: [], actions: [{ kind: 'categorize_transactions' }],
+    }
+    let state: FortunaState = { ...createDefaultState(), auditHistory: [tx('t1', 'Joes Hardware Supply', -30)] }
+    state = recordCorrection(state, 't1', 'supplies', now)
+    state = { ...state, auditHistory: [...state.auditHistory, tx('t2', 'Joes Hardware Supply', -45)] }
+    const result = runAutomations([rule], state, { trigger: 'test', now, transactionIds: ['t2'] })
+    expect(result.state.auditHistory.find(t => t.id === 't2')?.category).toBe('supplies')
+  })
+})
@@ -0,0 +1,362 @@
+/**
+ * Fortuna Engine — Learning Transaction Categorizer
+ *
+ * One categorization pipeline for every import path:
+ *   1. Merchant memory — the user's latest correction for the same merchant
+ *   2. Learned model — token-weighted naive Bayes per entity (global fallback)
+ *   3. Static rules — bank-feed.ts regex rules
+ *
+ * Training data is FortunaState.categoryCorrections plus reviewed
+ * transactions in auditHistory. evaluateCategorizer reports precision
+ * on a held-out slice of reviewed transactions.
+ *
+ * Amounts use storage polarity: positive = income, negative = expense.
+ */
+
+import type { FortunaState, BankTransaction, CategoryCorrection } from './storage'
+import { categorizeTransaction } from './bank-feed'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface CategorizeInput {
+  id?: string
+  description: string
+  merchantName?: string
+  amount: number
+  entityId?: string
+}
+
+export type CategorySource = 'memory' | 'model' | 'rules' | 'none'
+
+export interface CategorizeResult {
+  category: string
+  confidence: number              // 0-1
+  source: CategorySource
+  isBusinessExpense?: boolean
+  scheduleCLine?: string
+  alternatives: { category: string; probability: number }[]
+}
+
+export interface TrainingExample extends CategorizeInput {
+  category: string
+}
+
+interface ClassStats {
+  docs: number
+  weight: number                  // Total feature weight in this class
+  features: Record<string, number>
+}
+
+interface NaiveBayesModel {
+  docs: number
+  vocabulary: number
+  classes: Record<string, ClassStats>
+}
+
+export interface CategorizerModel {
+  global: NaiveBayesModel
+  byEntity: Record<string, NaiveBayesModel>
+  memory: Record<string, Record<string, string>>   // entity → merchant key → category
+  trainedOn: number
+}
+
+export interface CategorizeOptions {
+  minConfidence?: number          // Learned predictions below this fall through to rules
+}
+
+export interface CategorizerEvaluation {
+  trainSize: number
+  testSize: number
+  predicted: number               // Held-out rows the learned stages answered
+  correct: number
+  precision: number               // correct / predicted
+  coverage: number                // predicted / testSize
+  pipelineAccuracy: number        // Whole pipeline (learned + rules) on the held-out rows
+  byCategory: Record<string, { predicted: number; correct: number; precision: number }>
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const DEFAULT_MIN_CONFIDENCE = 0.6
+const MIN_ENTITY_EXAMPLES = 5           // Below this, the global model answers
+const MIN_MODEL_EXAMPLES = 3
+const MERCHANT_WEIGHT = 2
+const AMOUNT_WEIGHT = 0.5
+const MAX_CORRECTIONS = 5000
+const MEMORY_CONFIDENCE = 0.97
+const RULE_CONFIDENCE_SCALE = 100       // bank-feed rules report 0-100
+
+const STOPWORDS = new Set([
+  'the', 'and', 'inc', 'llc', 'com', 'www', 'pos', 'purchase', 'debit', 'credit', 'card', 'payment',
+  'ach', 'online', 'recurring', 'checkcard', 'visa', 'transaction', 'ref', 'from', 'for',
+])
+
+// ===================================================================
+//  FEATURES
+// ===================================================================
+
+export function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().replace(/[^a-z]+/g, ' ').split(' ')
+    .filter(t => t.length >= 3 && !STOPWORDS.has(t))
+  return [...new Set(tokens)]
+}
+
+/** Stable merchant identity: first two meaningful tokens of the merchant or description */
+export function merchantKey(description: string, merchantName?: string): string {
+  return tokenize(merchantName || description).slice(0, 2).join(' ')
+}
+
+function features(input: CategorizeInput): [string, number][] {
+  const out: [string, number][] = tokenize(`${input.description} ${input.merchantName || ''}`).map(t => [t, 1])
+  const key = merchantKey(input.description, input.merchantName)
+  if (key) out.push([`m:${key}`, MERCHANT_WEIGHT])
+  const magnitude = Math.abs(input.amount) >= 1 ? Math.floor(Math.log10(Math.abs(input.amount))) : 0
+  out.push([`amt:${input.amount >= 0 ? '+' : '-'}${magnitude}`, AMOUNT_WEIGHT])
+  return out
+}
+
+// ===================================================================
+//  TRAINING
+// ===================================================================
+
+function emptyModel(): NaiveBayesModel {
+  return { docs: 0, vocabulary: 0, classes: {} }
+}
+
+function addExample(model: NaiveBayesModel, example: TrainingExample, vocab: Set<string>): void {
+  const stats = model.classes[example.category] ||= { docs: 0, weight: 0, features: {} }
+  stats.docs++
+  model.docs++
+  for (const [f, w] of features(example)) {
+    stats.features[f] = (stats.features[f] || 0) + w
+    stats.weight += w
+    vocab.add(f)
+  }
+}
+
+export function trainCategorizer(examples: TrainingExample[]): CategorizerModel {
+  const global = emptyModel()
+  const globalVocab = new Set<string>()
+  const byEntity: Record<string, NaiveBayesModel> = {}
+  const entityVocab: Record<string, Set<string>> = {}
+  const memory: Record<string, Record<string, string>> = {}
+
+  for (const ex of examples) {
+    const entity = ex.entityId || 'personal'
+    addExample(global, ex, globalVocab)
+    addExample(byEntity[entity] ||= emptyModel(), ex, entityVocab[entity] ||= new Set())
+
+    // Examples arrive oldest first, so the latest correction wins
+    const key = merchantKey(ex.description, ex.merchantName)
+    if (key) (memory[entity] ||= {})[key] = ex.category
+  }
+
+  global.vocabulary = globalVocab.size
+  for (const [entity, model] of Object.entries(byEntity)) model.vocabulary = entityVocab[entity].size
+
+  return { global, byEntity, memory, trainedOn: examples.length }
+}
+
+/** Corrections (latest per transaction) plus reviewed transactions without one, oldest first */
+export function collectTrainingExamples(state: Pick<FortunaState, 'auditHistory' | 'categoryCorrections'>): TrainingExample[] {
+  const corrections = [...(state.categoryCorrections || [])].sort((a, b) => a.correctedAt.localeCompare(b.correctedAt))
+  const latest = new Map<string, CategoryCorrection>()
+  const loose: CategoryCorrection[] = []
+  for (const c of corrections) {
+    if (c.transactionId) latest.set(c.transactionId, c)
+    else loose.push(c)
+  }
+
+  const fromCorrections: TrainingExample[] = [...loose, ...latest.values()]
+    .sort((a, b) => a.correctedAt.localeCompare(b.correctedAt))
+    .map(c => ({
+      id: c.transactionId || c.id, description: c.description, merchantName: c.merchantName,
+      amount: c.amount, entityId: c.entityId, category: c.category,
+    }))
+
+  const reviewed: TrainingExample[] = (state.auditHistory || [])
+    .filter(tx => tx.reviewed && tx.category && !latest.has(tx.id))
+    .map(tx => ({
+      id: tx.id, description: tx.description, merchantName: tx.merchantName,
+      amount: tx.amount, entityId: tx.entityId, category: tx.category!,
+    }))
+
+  return [...reviewed, ...fromCorrections]
+}
+
+export function buildCategorizer(state: FortunaState): CategorizerModel {
+  return trainCategorizer(collectTrainingExamples(state))
+}
+
+// ===================================================================
+//  PREDICTION
+// ===================================================================
+
+function predictModel(model: NaiveBayesModel, input: CategorizeInput): { category: string; probability: number }[] {
+  const classes = Object.entries(model.classes)
+  if (classes.length === 0) return []
+  const feats = features(input)
+  const vocab = Math.max(1, model.vocabulary)
+
+  const scores = classes.map(([category, stats]) => {
+    let score = Math.log(stats.docs / model.docs)
+    for (const [f, w] of feats) {
+      score += w * Math.log(((stats.features[f] || 0) + 1) / (stats.weight + vocab))
+    }
+    return { category, score }
+  })
+
+  // Softmax into posteriors
+  const max = Math.max(...scores.map(s => s.score))
+  const exp = scores.map(s => ({ category: s.category, e: Math.exp(s.score - max) }))
+  const total = exp.reduce((sum, s) => sum + s.e, 0)
+  return exp
+    .map(s => ({ category: s.category, probability: s.e / total }))
+    .sort((a, b) => b.probability - a.probability)
+}
+
+function ruleResult(input: CategorizeInput): CategorizeResult {
+  // bank-feed rules use the opposite polarity (positive = expense)
+  const rule = categorizeTransaction(input.description, input.merchantName, -input.amount)
+  if (rule.category === 'uncategorized') {
+    return { category: 'uncategorized', confidence: 0, source: 'none', alternatives: [] }
+  }
+  return {
+    category: rule.category,
+    confidence: rule.confidence / RULE_CONFIDENCE_SCALE,
+    source: 'rules',
+    isBusinessExpense: rule.isBusinessExpense,
+    scheduleCLine: rule.scheduleCLine,
+    alternatives: [],
+  }
+}
+
+export function categorize(input: CategorizeInput, model: CategorizerModel | null, options: CategorizeOptions = {}): CategorizeResult {
+  if (!model || model.trainedOn === 0) return ruleResult(input)
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE
+  const entity = input.entityId || 'personal'
+
+  // 1. Merchant memory
+  const key = merchantKey(input.description, input.merchantName)
+  const remembered = key ? model.memory[entity]?.[key] : undefined
+  if (remembered) {
+    return { category: remembered, confidence: MEMORY_CONFIDENCE, source: 'memory', alternatives: [] }
+  }
+
+  // 2. Learned model — entity model once it has enough examples
+  const entityModel = model.byEntity[entity]
+  const useEntity = entityModel && entityModel.docs >= MIN_ENTITY_EXAMPLES && Object.keys(entityModel.classes).length > 1
+  const nb = useEntity ? entityModel : model.global
+  if (nb.docs >= MIN_MODEL_EXAMPLES && Object.keys(nb.classes).length > 1) {
+    const ranked = predictModel(nb, input)
+    if (ranked[0] && ranked[0].probability >= minConfidence) {
+      return { category: ranked[0].category, confidence: ranked[0].probability, source: 'model', alternatives: ranked.slice(1, 4) }
+    }
+  }
+
+  // 3. Static rules
+  return ruleResult(input)
+}
+
+// ===================================================================
+//  CORRECTIONS
+// ===================================================================
+
+/** Apply a user's category choice to a transaction and log it as training data */
+export function recordCorrection(state: FortunaState, transactionId: string, category: string, now: Date = new Date()): FortunaState {
+  const tx = (state.auditHistory || []).find(t => t.id === transactionId)
+  if (!tx) return state
+
+  const correction: CategoryCorrection = {
+    id: `cc_${now.getTime().toString(36)}_${transactionId}`,
+    transactionId,
+    description: tx.description,
+    merchantName: tx.merchantName,
+    amount: tx.amount,
+    category,
+    previousCategory: tx.category,
+    entityId: tx.entityId,
+    correctedAt: now.toISOString(),
+  }
+
+  return {
+    ...state,
+    auditHistory: state.auditHistory.map(t => t.id === transactionId ? { ...t, category, reviewed: true } : t),
+    categoryCorrections: [...(state.categoryCorrections || []), correction].slice(-MAX_CORRECTIONS),
+  }
+}
+
+/** Categorize transactions that the user has not reviewed */
+export function categorizeUnreviewed(state: FortunaState, options: CategorizeOptions = {}): { state: FortunaState; changed: number } {
+  const model = buildCategorizer(state)
+  let changed = 0
+  const auditHistory = (state.auditHistory || []).map((tx: BankTransaction) => {
+    if (tx.reviewed) return tx
+    const result = categorize(tx, model, options)
+    if (result.source === 'none' || result.category === tx.category) return tx
+    changed++
+    return { ...tx, category: result.category }
+  })
+  return { state: changed > 0 ? { ...state, auditHistory } : state, changed }
+}
+
+// ===================================================================
+//  EVALUATION
+// ===================================================================
+
+/** FNV-1a — stable split so a row stays in the same fold across runs */
+function hashId(id: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < id.length; i++) {
+    h ^= id.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+export function evaluateCategorizer(
+  examples: TrainingExample[],
+  options: CategorizeOptions & { holdoutFraction?: number } = {},
+): CategorizerEvaluation {
+  const fraction = options.holdoutFraction ?? 0.2
+  const isHeldOut = (ex: TrainingExample, i: number) => (hashId(ex.id || String(i)) % 1000) < fraction * 1000
+  const train = examples.filter((ex, i) => !isHeldOut(ex, i))
+  const test = examples.filter((ex, i) => isHeldOut(ex, i))
+  const model = trainCategorizer(train)
+
+  let predicted = 0
+  let correct = 0
+  let pipelineCorrect = 0
+  const byCategory: CategorizerEvaluation['byCategory'] = {}
+
+  for (const ex of test) {
+    const result = categorize(ex, model, options)
+    if (result.category === ex.category) pipelineCorrect++
+    if (result.source !== 'memory' && result.source !== 'model') continue
+
+    predicted++
+    const bucket = byCategory[result.category] ||= { predicted: 0, correct: 0, precision: 0 }
+    bucket.predicted++
+    if (result.category === ex.category) {
+      correct++
+      bucket.correct++
+    }
+  }
+
+  for (const bucket of Object.values(byCategory)) bucket.precision = bucket.correct / bucket.predicted
+
+  return {
+    trainSize: train.length,
+    testSize: test.length,
+    predicted,
+    correct,
+    precision: predicted > 0 ? correct / predicted : 0,
+    coverage: test.length > 0 ? predicted / test.length : 0,
+    pipelineAccuracy: test.length > 0 ? pipelineCorrect / test.length : 0,
+    byCategory,
+  }
+}
@@ -9,6 +9,7 @@
  * - Strategy recommendations requiring professional implementation
  * - Estimated tax position summary
  * - Audit risk factors to review
+ * - Bank reconciliation reports
  */
 
 import type { FortunaState } from './storage'
@@ -17,6 +18,7 @@ import { analyzeAuditRisk } from './audit-risk'
 import { detectStrategies } from './strategy-detector'
 import { generateHealthReport } from './health-score'
 import { hasPortfolioData, computePortfolioSummary, generateForm8949Data, getPortfolioData } from './portfolio-bridge'
+import { lastReconciled, reconciliationAccounts, reconciliationReport } from './reconciliation'
 
 export interface CPAExportSection {
   title: string
@@ -354,6 +356,18 @@ export function generateCPAExport(state: FortunaState): CPAExportPackage {
     })
   }
 
+  // ─── Bank Reconciliations ──────────────────────────────────────────
+
+  const reconciled = reconciliationAccounts(state)
+    .map(account => lastReconciled(state, account))
+    .filter(r => r !== undefined)
+  if (reconciled.length > 0) {
+    sections.push({
+      title: 'BANK RECONCILIATIONS',
+      content: reconciled.map(r => reconciliationReport(state, r)).join('\n\n'),
+    })
+  }
+
   sections.push({
     title: 'KEY TAX DEADLINES',
     content: [
@@ -102,7 +102,7 @@ function parseCSVLine(line: string): string[] {
   return result
 }
 
-function parseCSV(text: string): { headers: string[]; rows: string[][] } {
+export function parseCSV(text: string): { headers: string[]; rows: string[][] } {
   const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0)
   if (lines.length === 0) return { headers: [], rows: [] }
 
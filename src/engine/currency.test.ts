@@ -0,0 +1,143 @@
+/**
+ * Multi-Currency — Test Suite
+ * Validates: currency fields, IRS yearly average and spot translation, lot FX gain/loss, Forms 2555/1116, untranslatable foreign tax
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import {
+  setIncomeStreamCurrency, setTransactionCurrency, setPositionCurrency, recordFxRate, captureSpotRates,
+  refreshTranslations, yearlyAverageRate, lotFxGainLoss,
+} from './currency'
+import { generateTaxReport, calculateFederalIncomeTax } from './tax-calculator'
+
+describe('multi-currency', () => {
+  const base = (): FortunaState => ({
+    ...createDefaultState(),
+    taxYear: 2024,
+    incomeStreams: [{ id: 's1', name: 'Berlin consulting', type: 'freelance', annualAmount: 0, isActive: true }],
+    auditHistory: [{ id: 't1', date: '2024-03-05', description: 'HOTEL ADLON', amount: 0, isReconciled: false }],
+  })
+
+  it('translates records at the yearly average or spot rate and re-translates on new rates', () => {
+    let state = setIncomeStreamCurrency(base(), 's1', 'eur', 92400)
+    expect(state.incomeStreams[0]).toMatchObject({ currency: 'EUR', annualAmount: 100000, fx: { amount: 92400, rate: 0.924, basis: 'yearly_average' } })
+
+    // No spot rate stored yet: the transaction falls back to the year's average
+    expect(setTransactionCurrency(state, 't1', 'EUR', -462).auditHistory[0].fx?.basis).toBe('yearly_average')
+    state = recordFxRate(state, { currency: 'eur', date: '2024-03-01', unitsPerUsd: 0.92, basis: 'spot' })
+    state = setTransactionCurrency(state, 't1', 'EUR', -460)
+    expect(state.auditHistory[0]).toMatchObject({ amount: -500, fx: { rate: 0.92, basis: 'spot', date: '2024-03-05' } })
+    expect(setTransactionCurrency(state, 't1', 'XYZ', -460)).toBe(state)
+
+    // A user-entered yearly average overrides the IRS table; spot records keep their rate
+    state = refreshTranslations(recordFxRate(state, { currency: 'EUR', date: '2024-12-31', unitsPerUsd: 0.9, basis: 'yearly_average' }))
+    expect(state.incomeStreams[0].annualAmount).toBeCloseTo(102666.67, 2)
+    expect(state.auditHistory[0].amount).toBe(-500)
+    expect(refreshTranslations(state)).toBe(state)
+
+    // Feed capture stores only currencies in use; later years average the captured spots
+    const captured = captureSpotRates({ ...state, taxYear: 2026 }, {
+      base: 'USD', date: 'Thu, 01 Oct 2026 00:02:31 +0000', rates: { EUR: 0.86, GBP: 0.75 }, provider: 'test',
+    })
+    expect(captured.fxRates.filter(r => r.date === '2026-10-01').map(r => r.currency)).toEqual(['EUR'])
+    const withSecond = recordFxRate(captured, { currency: 'EUR', date: '2026-10-15', unitsPerUsd: 0.88, basis: 'spot' })
+    expect(yearlyAverageRate(withSecond, 'EUR', 2026)).toBeCloseTo(0.87, 6)
+    expect(yearlyAverageRate(withSecond, 'GBP', 2026)).toBeNull()
+  })
+
+  it('splits a foreign lot gain into price and currency components', () => {
+    let state: FortunaState = {
+      ...base(),
+      investmentPortfolio: [{ id: 'p1', symbol: 'SAP', name: 'SAP SE', type: 'stock', quantity: 10, costBasis: 0, acquisitionDate: '2024-01-10' }],
+    }
+    state = recordFxRate(state, { currency: 'EUR', date: '2024-01-10', unitsPerUsd: 0.9, basis: 'spot' })
+    state = recordFxRate(state, { currency: 'EUR', date: '2024-12-02', unitsPerUsd: 0.95, basis: 'spot' })
+    state = setPositionCurrency(state, 'p1', 'EUR', 1800)
+    expect(state.investmentPortfolio[0].costBasis).toBe(2000)
+
+    const fx = lotFxGainLoss(state, state.investmentPortfolio[0], 2090, '2024-12-02')!
+    expect(fx).toMatchObject({ costUsd: 2000, proceedsUsd: 2200, totalGain: 200, priceGain: 305.26, currencyGain: -105.26, section988: false })
+    expect(fx.priceGain + fx.currencyGain).toBeCloseTo(fx.totalGain, 2)
+    expect(lotFxGainLoss(base(), { ...state.investmentPortfolio[0], currency: undefined, fx: undefined }, 2090, '2024-12-02')).toBeNull()
+  })
+
+  it('applies the foreign earned income exclusion with the stacking rule', () => {
+    const state: FortunaState = {
+      ...base(),
+      profile: {
+        ...base().profile, filingStatus: 'single',
+        foreignResidence: { country: 'DE', test: 'bona_fide_residence', qualifyingDays: 366, housingExpenses: 40000 },
+      },
+      incomeStreams: [
+        { id: 'job', name: 'Berlin GmbH', type: 'w2', annualAmount: 150000, isActive: true, foreignSource: { country: 'DE', category: 'general', taxPaid: 0 } },
+        { id: 'div', name: 'US dividends', type: 'investment', annualAmount: 50000, isActive: true },
+      ],
+    }
+    const report = generateTaxReport(state)
+    const feie = report.foreignEarnedIncomeExclusion!
+    // Housing: expenses capped at 30% of $126,500, less the 16% base
+    expect(feie).toMatchObject({ exclusionLimit: 126500, housingAmount: 17710, housingExclusion: 17710, incomeExclusion: 126500, totalExclusion: 144210 })
+    expect(report.agi).toBe(200000 - 144210)
+    expect(report.federalIncomeTax).toBeCloseTo(
+      calculateFederalIncomeTax(report.taxableIncome + 144210, 'single', 2024) - calculateFederalIncomeTax(144210, 'single', 2024), 2)
+    expect(report.federalIncomeTax).toBeGreaterThan(calculateFederalIncomeTax(report.taxableIncome, 'single', 2024))
+
+    // Half a year of physical presence halves the limit
+    const partYear = generateTaxReport({
+      ...state,
+      profile: { ...state.profile, foreignResidence: { country: 'DE', test: 'physical_presence', qualifyingDays: 183 } },
+    })
+    expect(partYear.foreignEarnedIncomeExclusion).toMatchObject({ exclusionLimit: 63250, incomeExclusion: 63250, housingAmount: 0 })
+  })
+
+  it('limits the foreign tax credit per category and disallows tax on excluded income', () => {
+    let state: FortunaState = {
+      ...base(),
+      profile: { ...base().profile, filingStatus: 'single' },
+      incomeStreams: [
+        { id: 'job', name: 'Acme', type: 'w2', annualAmount: 90000, isActive: true },
+        { id: 'div', name: 'UK dividends', type: 'investment', annualAmount: 0, isActive: true, foreignSource: { country: 'GB', category: 'passive', taxPaid: 1174.5 } },
+      ],
+    }
+    state = setIncomeStreamCurrency(state, 'div', 'GBP', 7830)
+    const report = generateTaxReport(state)
+    expect(report.agi).toBe(100000)
+    const regular = calculateFederalIncomeTax(report.taxableIncome, 'single', 2024)
+    const [passive] = report.foreignTaxCredit!.categories
+    expect(passive).toMatchObject({ category: 'passive', foreignIncome: 10000, foreignTaxes: 1500 })
+    expect(passive.limitation).toBeCloseTo(regular * 0.1, 2)
+    expect(passive.credit).toBe(passive.limitation)
+    expect(passive.excess).toBeCloseTo(1500 - passive.limitation, 2)
+    expect(report.federalIncomeTax).toBeCloseTo(regular - passive.credit, 2)
+    expect(generateTaxReport(base()).foreignTaxCredit).toBeUndefined()
+
+    // Taxes on wages excluded under Form 2555 are not creditable
+    const abroad = generateTaxReport({
+      ...state,
+      profile: { ...state.profile, foreignResidence: { country: 'DE', test: 'bona_fide_residence', qualifyingDays: 366 } },
+      incomeStreams: [{ ...state.incomeStreams[0], annualAmount: 150000, foreignSource: { country: 'DE', category: 'general', taxPaid: 45000 } }],
+    })
+    const general = abroad.foreignTaxCredit!.categories[0]
+    expect(general.foreignIncome).toBeCloseTo(150000 - 126500, 2)
+    expect(general.foreignTaxes).toBeCloseTo(45000 * (23500 / 150000), 2)
+    expect(general.credit).toBeLessThanOrEqual(general.limitation)
+  })
+
+  it('warns instead of silently dropping foreign tax it cannot translate', () => {
+    const state: FortunaState = {
+      ...base(),
+      taxYear: 2025,
+      profile: { ...base().profile, filingStatus: 'single' },
+      incomeStreams: [
+        { id: 'job', name: 'Acme', type: 'w2', annualAmount: 90000, isActive: true },
+        { id: 'eu', name: 'Paris royalties', type: 'investment', annualAmount: 10000, isActive: true, currency: 'EUR', foreignSource: { country: 'FR', category: 'passive', taxPaid: 885 } },
+        { id: 'th', name: 'Bangkok rent', type: 'investment', annualAmount: 5000, isActive: true, currency: 'THB', foreignSource: { country: 'TH', category: 'passive', taxPaid: 16000 } },
+      ],
+    }
+    expect(yearlyAverageRate(state, 'EUR', 2025)).toBe(0.885)
+    const ftc = generateTaxReport(state).foreignTaxCredit!
+    expect(ftc.categories[0]).toMatchObject({ foreignIncome: 15000, foreignTaxes: 1000 })
+    expect(ftc.warnings).toHaveLength(1)
+    expect(ftc.warnings[0]).toContain('Bangkok rent: no THB rate for 2025')
+  })
+})
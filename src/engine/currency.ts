@@ -0,0 +1,365 @@
+/**
+ * Fortuna Engine — Multi-Currency Records
+ *
+ * Every amount in FortunaState is USD. A record that originated in another
+ * currency carries its ISO code and an FxCapture (original amount, rate,
+ * date, basis), so it can be re-translated when a better rate is entered.
+ *
+ *   - Rate lookup: user / feed rates in state.fxRates first, then the IRS
+ *     published yearly average rates
+ *   - Basis per IRS practice: yearly average for income and expenses that
+ *     accrue over the year; spot on the transaction date for bank
+ *     transactions and investment lots
+ *   - FX gain/loss on foreign-denominated lots, split into the price move
+ *     (in the foreign currency) and the currency move
+ *
+ * The set*Currency helpers and lotFxGainLoss are for callers that record a
+ * foreign amount or a sale; generateTaxReport reads only the stored USD
+ * amounts, plus yearlyAverageRate for Form 1116 foreign taxes.
+ */
+
+import type {
+  FortunaState, FxCapture, FxRate, FxRateBasis, IncomeStream, BusinessExpense, BankTransaction, InvestmentPosition,
+} from './storage'
+import type { ExchangeRates } from './exchange-rates'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export type FxRecordKind = 'income' | 'expense' | 'transaction' | 'lot'
+
+export interface FxTranslation {
+  usd: number
+  fx: FxCapture
+}
+
+export interface LotFxGainLoss {
+  currency: string
+  costForeign: number
+  proceedsForeign: number
+  acquisitionRate: number
+  saleRate: number
+  costUsd: number
+  proceedsUsd: number
+  totalGain: number            // proceedsUsd − costUsd
+  priceGain: number            // Gain in the foreign currency, at the sale rate
+  currencyGain: number         // Cost basis re-translated at the sale rate vs acquisition
+  section988: boolean          // Currency component is ordinary income (foreign-currency debt)
+}
+
+// ===================================================================
+//  RATES
+// ===================================================================
+
+/** Default translation basis per record kind */
+export const DEFAULT_FX_BASIS: Record<FxRecordKind, FxRateBasis> = {
+  income: 'yearly_average',
+  expense: 'yearly_average',
+  transaction: 'spot',
+  lot: 'spot',
+}
+
+/** IRS yearly average currency exchange rates (foreign units per 1 USD) */
+const IRS_YEARLY_AVERAGE: Record<number, Record<string, number>> = {
+  2023: {
+    EUR: 0.924, GBP: 0.804, CAD: 1.350, JPY: 140.511, AUD: 1.506, CHF: 0.899,
+    INR: 82.572, MXN: 17.733, CNY: 7.082, SGD: 1.343, HKD: 7.829, SEK: 10.612,
+    NOK: 10.563, DKK: 6.889, NZD: 1.628, KRW: 1306.686, BRL: 4.994, ILS: 3.688,
+  },
+  2024: {
+    EUR: 0.924, GBP: 0.783, CAD: 1.370, JPY: 151.353, AUD: 1.515, CHF: 0.881,
+    INR: 83.677, MXN: 18.299, CNY: 7.189, SGD: 1.336, HKD: 7.806, SEK: 10.574,
+    NOK: 10.758, DKK: 6.893, NZD: 1.652, KRW: 1363.98, BRL: 5.392, ILS: 3.699,
+  },
+  2025: {
+    EUR: 0.885, GBP: 0.757, CAD: 1.398, JPY: 149.617, AUD: 1.551, CHF: 0.830,
+    INR: 87.066, MXN: 19.213, CNY: 7.189, SGD: 1.310, HKD: 7.790, SEK: 9.831,
+    NOK: 10.281, DKK: 6.606, NZD: 1.721, KRW: 1421.72, BRL: 5.580, ILS: 3.470,
+  },
+}
+
+function normalizeCurrency(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+function isUsd(code?: string): boolean {
+  return !code || normalizeCurrency(code) === 'USD'
+}
+
+/**
+ * Yearly average rate: a user-entered average for the year, else the IRS
+ * table, else the mean of the spot rates captured during the year.
+ */
+export function yearlyAverageRate(state: FortunaState, currency: string, year: number): number | null {
+  const code = normalizeCurrency(currency)
+  if (code === 'USD') return 1
+  const rates = (state.fxRates || []).filter(r => r.currency === code && r.date.startsWith(String(year)))
+
+  const entered = rates.find(r => r.basis === 'yearly_average')
+  if (entered) return entered.unitsPerUsd
+
+  const published = IRS_YEARLY_AVERAGE[year]?.[code]
+  if (published) return published
+
+  const spots = rates.filter(r => r.basis === 'spot')
+  if (spots.length === 0) return null
+  return spots.reduce((s, r) => s + r.unitsPerUsd, 0) / spots.length
+}
+
+/** Spot rate: the latest stored spot rate on or before the date */
+export function spotRate(state: FortunaState, currency: string, date: string): number | null {
+  const code = normalizeCurrency(currency)
+  if (code === 'USD') return 1
+  const onOrBefore = (state.fxRates || [])
+    .filter(r => r.currency === code && r.basis === 'spot' && r.date <= date)
+    .sort((a, b) => b.date.localeCompare(a.date))
+  return onOrBefore[0]?.unitsPerUsd ?? null
+}
+
+/**
+ * Rate for a date on the requested basis. A missing spot rate falls back to
+ * the year's average; the returned basis says which one was used.
+ */
+export function rateFor(
+  state: FortunaState,
+  currency: string,
+  date: string,
+  basis: FxRateBasis,
+): { rate: number; basis: FxRateBasis } | null {
+  if (basis === 'spot') {
+    const spot = spotRate(state, currency, date)
+    if (spot) return { rate: spot, basis: 'spot' }
+  }
+  const average = yearlyAverageRate(state, currency, Number(date.slice(0, 4)))
+  return average ? { rate: average, basis: 'yearly_average' } : null
+}
+
+/** Add or replace a stored rate (one per currency, date and basis) */
+export function recordFxRate(state: FortunaState, rate: FxRate): FortunaState {
+  if (!(rate.unitsPerUsd > 0)) return state
+  const entry: FxRate = { ...rate, currency: normalizeCurrency(rate.currency) }
+  const sameKey = (r: FxRate) => r.currency === entry.currency && r.basis === entry.basis && (
+    entry.basis === 'spot' ? r.date === entry.date : r.date.slice(0, 4) === entry.date.slice(0, 4)
+  )
+  return {
+    ...state,
+    fxRates: [...(state.fxRates || []).filter(r => !sameKey(r)), entry],
+  }
+}
+
+/** Currencies any record in the state is denominated in */
+export function currenciesInUse(state: FortunaState): string[] {
+  const codes = new Set<string>()
+  const records: { currency?: string }[] = [
+    ...state.incomeStreams, ...state.expenses, ...state.auditHistory, ...state.investmentPortfolio,
+  ]
+  for (const r of records) if (!isUsd(r.currency)) codes.add(normalizeCurrency(r.currency!))
+  return [...codes].sort()
+}
+
+/**
+ * Store the day's spot rates from a fetched USD-based rate table, for the
+ * currencies in use (or the ones given).
+ */
+export function captureSpotRates(state: FortunaState, rates: ExchangeRates, currencies?: string[]): FortunaState {
+  if (normalizeCurrency(rates.base) !== 'USD') return state
+  const parsed = new Date(rates.date)
+  if (Number.isNaN(parsed.getTime())) return state
+  const date = parsed.toISOString().slice(0, 10)
+
+  let next = state
+  for (const code of (currencies ?? currenciesInUse(state)).map(normalizeCurrency)) {
+    const unitsPerUsd = rates.rates[code]
+    if (code === 'USD' || !unitsPerUsd) continue
+    next = recordFxRate(next, { currency: code, date, unitsPerUsd, basis: 'spot', source: rates.provider })
+  }
+  return next
+}
+
+// ===================================================================
+//  TRANSLATION
+// ===================================================================
+
+/** Translate a foreign amount to USD, recording the rate used */
+export function translateToUsd(
+  state: FortunaState,
+  amount: number,
+  currency: string,
+  date: string,
+  basis: FxRateBasis,
+): FxTranslation | null {
+  const found = rateFor(state, currency, date, basis)
+  if (!found) return null
+  return {
+    usd: Math.round(amount / found.rate * 100) / 100,
+    fx: { amount, rate: found.rate, date, basis: found.basis },
+  }
+}
+
+/**
+ * Denominate an income stream in a foreign currency. `amount` is the annual
+ * figure in that currency; annualAmount becomes its USD translation.
+ */
+export function setIncomeStreamCurrency(
+  state: FortunaState,
+  streamId: string,
+  currency: string,
+  amount: number,
+  basis: FxRateBasis = DEFAULT_FX_BASIS.income,
+): FortunaState {
+  const stream = state.incomeStreams.find(s => s.id === streamId)
+  if (!stream) return state
+  const patched = applyForeignAmount(state, 'income', stream, currency, amount, basis)
+  if (!patched) return state
+  return { ...state, incomeStreams: state.incomeStreams.map(s => s.id === streamId ? patched : s) }
+}
+
+/** Denominate a business expense in a foreign currency */
+export function setExpenseCurrency(
+  state: FortunaState,
+  expenseId: string,
+  currency: string,
+  amount: number,
+  basis: FxRateBasis = DEFAULT_FX_BASIS.expense,
+): FortunaState {
+  const expense = state.expenses.find(e => e.id === expenseId)
+  if (!expense) return state
+  const patched = applyForeignAmount(state, 'expense', expense, currency, amount, basis)
+  if (!patched) return state
+  return { ...state, expenses: state.expenses.map(e => e.id === expenseId ? patched : e) }
+}
+
+/** Denominate a bank transaction in a foreign currency (signed, like `amount`) */
+export function setTransactionCurrency(
+  state: FortunaState,
+  transactionId: string,
+  currency: string,
+  amount: number,
+  basis: FxRateBasis = DEFAULT_FX_BASIS.transaction,
+): FortunaState {
+  const txn = state.auditHistory.find(t => t.id === transactionId)
+  if (!txn) return state
+  const patched = applyForeignAmount(state, 'transaction', txn, currency, amount, basis)
+  if (!patched) return state
+  return { ...state, auditHistory: state.auditHistory.map(t => t.id === transactionId ? patched : t) }
+}
+
+/** Denominate an investment lot's cost basis in a foreign currency */
+export function setPositionCurrency(
+  state: FortunaState,
+  positionId: string,
+  currency: string,
+  costForeign: number,
+  basis: FxRateBasis = DEFAULT_FX_BASIS.lot,
+): FortunaState {
+  const position = state.investmentPortfolio.find(p => p.id === positionId)
+  if (!position) return state
+  const patched = applyForeignAmount(state, 'lot', position, currency, costForeign, basis)
+  if (!patched) return state
+  return { ...state, investmentPortfolio: state.investmentPortfolio.map(p => p.id === positionId ? patched : p) }
+}
+
+type FxRecord = IncomeStream | BusinessExpense | BankTransaction | InvestmentPosition
+
+/** The date a record's rate is taken on: its own date, else the tax year end */
+function translationDate(state: FortunaState, record: FxRecord): string {
+  if ('date' in record && record.date) return record.date
+  if ('acquisitionDate' in record && record.acquisitionDate) return record.acquisitionDate
+  return `${state.taxYear}-12-31`
+}
+
+function applyForeignAmount<T extends FxRecord>(
+  state: FortunaState,
+  kind: FxRecordKind,
+  record: T,
+  currency: string,
+  amount: number,
+  basis: FxRateBasis,
+): T | null {
+  if (isUsd(currency)) {
+    const usd = { ...record }
+    delete usd.currency
+    delete usd.fx
+    return withUsdAmount(kind, usd, amount)
+  }
+  const translated = translateToUsd(state, amount, currency, translationDate(state, record), basis)
+  if (!translated) return null
+  return withUsdAmount(kind, { ...record, currency: normalizeCurrency(currency), fx: translated.fx }, translated.usd)
+}
+
+function withUsdAmount<T extends FxRecord>(kind: FxRecordKind, record: T, usd: number): T {
+  switch (kind) {
+    case 'transaction': return { ...record, amount: usd }
+    case 'lot': return { ...record, costBasis: usd }
+    default: return { ...record, annualAmount: usd }
+  }
+}
+
+/**
+ * Re-translate every foreign record whose stored rate no longer matches the
+ * rate table (e.g. after the IRS yearly average is entered). Records whose
+ * rate can no longer be found keep their last translation.
+ */
+export function refreshTranslations(state: FortunaState): FortunaState {
+  let changed = false
+  const refresh = <T extends FxRecord>(kind: FxRecordKind, record: T): T => {
+    if (isUsd(record.currency) || !record.fx) return record
+    const found = rateFor(state, record.currency!, record.fx.date, record.fx.basis)
+    if (!found || found.rate === record.fx.rate) return record
+    changed = true
+    return applyForeignAmount(state, kind, record, record.currency!, record.fx.amount, record.fx.basis) ?? record
+  }
+
+  const next = {
+    ...state,
+    incomeStreams: state.incomeStreams.map(s => refresh('income', s)),
+    expenses: state.expenses.map(e => refresh('expense', e)),
+    auditHistory: state.auditHistory.map(t => refresh('transaction', t)),
+    investmentPortfolio: state.investmentPortfolio.map(p => refresh('lot', p)),
+  }
+  return changed ? next : state
+}
+
+// ===================================================================
+//  FX GAIN / LOSS
+// ===================================================================
+
+/**
+ * Gain on selling a foreign-denominated lot. Both legs are translated at
+ * their own spot rates; the total splits into the move in the asset's local
+ * price and the move in the currency. For stock the whole gain is capital;
+ * for foreign-currency debt the currency part is §988 ordinary income.
+ */
+export function lotFxGainLoss(
+  state: FortunaState,
+  position: InvestmentPosition,
+  proceedsForeign: number,
+  saleDate: string,
+): LotFxGainLoss | null {
+  if (isUsd(position.currency) || !position.fx) return null
+  const sale = rateFor(state, position.currency!, saleDate, 'spot')
+  if (!sale) return null
+
+  const costForeign = position.fx.amount
+  const acquisitionRate = position.fx.rate
+  const costUsd = costForeign / acquisitionRate
+  const proceedsUsd = proceedsForeign / sale.rate
+  const priceGain = (proceedsForeign - costForeign) / sale.rate
+  const currencyGain = costForeign / sale.rate - costUsd
+  const round = (n: number) => Math.round(n * 100) / 100
+
+  return {
+    currency: position.currency!,
+    costForeign,
+    proceedsForeign,
+    acquisitionRate,
+    saleRate: sale.rate,
+    costUsd: round(costUsd),
+    proceedsUsd: round(proceedsUsd),
+    totalGain: round(proceedsUsd - costUsd),
+    priceGain: round(priceGain),
+    currencyGain: round(currencyGain),
+    section988: position.type === 'bond',
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import { genId, type IncomeStream, type BusinessExpense } from './storage'
+import { categorize, type CategorizerModel } from './categorizer'
 
 // ==================== Types ====================
 
@@ -24,6 +25,7 @@ export interface CategorizedTransaction extends RawTransaction {
   isIncome: boolean
   suggestedType?: IncomeStream['type'] | 'expense'
   suggestedExpenseCategory?: string
+  learnedCategory?: string // From the user's corrections; outranks autoCategory
 }
 
 export type TransactionCategory =
@@ -274,7 +276,10 @@ const CATEGORY_PATTERNS: { pattern: RegExp; category: TransactionCategory; type:
   { pattern: /\b(transfer|xfer|zelle|venmo(?!.*business)|cash app(?!.*business))\b/i, category: 'transfer', type: 'transfer' },
 ]
 
-export function categorizeTransactions(transactions: RawTransaction[]): CategorizedTransaction[] {
+export function categorizeTransactions<T extends RawTransaction>(
+  transactions: T[],
+  model: CategorizerModel | null = null,
+): (T & CategorizedTransaction)[] {
   return transactions.map(tx => {
     const isIncome = tx.amount > 0
     let bestMatch: { category: TransactionCategory; type: string; confidence: number } = {
@@ -313,6 +318,25 @@ export function categorizeTransactions(transactions: RawTransaction[]): Categori
       }
     }
     
+    // The user's learned categories outrank the patterns above
+    const learned = model ? categorize({ description: tx.description, amount: tx.amount }, model) : null
+    if (learned && (learned.source === 'memory' || learned.source === 'model')) {
+      if (learned.category === 'transfer') {
+        bestMatch = { category: 'transfer', type: 'transfer', confidence: learned.confidence }
+      } else if (bestMatch.type === 'transfer') {
+        bestMatch = { category: isIncome ? 'other_income' : 'unknown', type: isIncome ? 'other' : 'expense', confidence: learned.confidence }
+      }
+      return {
+        ...tx,
+        autoCategory: bestMatch.category,
+        confidence: learned.confidence,
+        isIncome: isIncome && bestMatch.type !== 'transfer',
+        suggestedType: bestMatch.type === 'expense' ? 'expense' : bestMatch.type as IncomeStream['type'],
+        suggestedExpenseCategory: !isIncome ? learned.category : undefined,
+        learnedCategory: learned.category,
+      }
+    }
+
     return {
       ...tx,
       autoCategory: bestMatch.category,
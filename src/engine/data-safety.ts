@@ -67,7 +67,9 @@ export function validateState(state: unknown): ValidationResult {
     'incomeStreams', 'expenses', 'entities', 'deductions',
     'depreciationAssets', 'investmentPortfolio', 'retirementAccounts',
     'goals', 'documents', 'estimatedPayments', 'receipts',
-    'intakeBatches', 'auditHistory',
+    'intakeBatches', 'auditHistory', 'automations', 'automationLog',
+    'categoryCorrections', 'imports', 'reconciliations',
+    'ledgerAccounts', 'journalEntries', 'periodCloses', 'customers', 'invoices', 'vendors', 'employees', 'payrollRuns', 'fxRates',
   ]
   for (const key of requiredArrays) {
     if (s[key] === undefined || s[key] === null) {
@@ -194,7 +196,9 @@ export function repairState(state: unknown): { state: FortunaState; repairs: str
     'incomeStreams', 'expenses', 'entities', 'deductions',
     'depreciationAssets', 'investmentPortfolio', 'retirementAccounts',
     'goals', 'documents', 'estimatedPayments', 'receipts',
-    'intakeBatches', 'auditHistory',
+    'intakeBatches', 'auditHistory', 'automations', 'automationLog',
+    'categoryCorrections', 'imports', 'reconciliations',
+    'ledgerAccounts', 'journalEntries', 'periodCloses', 'customers', 'invoices', 'vendors', 'employees', 'payrollRuns', 'fxRates',
   ]
   for (const key of arrayFields) {
     if (!Array.isArray(s[key])) {
@@ -287,6 +291,19 @@ export function listBackups(): { key: string; timestamp: string; sizeKB: number
   }
 }
 
+/**
+ * Delete every rotated backup (plaintext copies must not outlive vault enablement).
+ */
+export function clearBackups(): number {
+  try {
+    const keys = Object.keys(localStorage).filter(k => k.startsWith(BACKUP_PREFIX))
+    keys.forEach(k => localStorage.removeItem(k))
+    return keys.length
+  } catch {
+    return 0
+  }
+}
+
 /**
  * Restore state from a specific backup.
  */
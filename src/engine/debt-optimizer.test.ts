@@ -0,0 +1,61 @@
+/**
+ * Debt Optimizer — Test Suite
+ * Validates: avalanche/snowball payoff, refinance comparison, required extra payment, amortization
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type Liability } from './storage'
+import { simulatePayoff, compareRefinance, requiredExtraForPayoff, amortizedPayment } from './debt-optimizer'
+
+describe('debt payoff planner', () => {
+  const debts: Liability[] = [
+    { id: 'card', name: 'Card', type: 'credit_card', principalBalance: 5000, interestRate: 0.24, minimumMonthlyPayment: 150 },
+    { id: 'car', name: 'Car', type: 'auto_loan', principalBalance: 2000, interestRate: 0.05, minimumMonthlyPayment: 100 },
+    { id: 'school', name: 'School', type: 'student_loan', principalBalance: 20000, interestRate: 0.06, minimumMonthlyPayment: 250, isInterestTaxDeductible: true },
+  ]
+  const start = '2026-01-15'
+
+  it('should order avalanche by rate and snowball by balance', () => {
+    expect(simulatePayoff(debts, { strategy: 'avalanche', startDate: start }).order).toEqual(['card', 'school', 'car'])
+    expect(simulatePayoff(debts, { strategy: 'snowball', startDate: start }).order).toEqual(['car', 'card', 'school'])
+  })
+
+  it('should pay less interest with avalanche and extra payments than minimums', () => {
+    const avalanche = simulatePayoff(debts, { strategy: 'avalanche', extraMonthly: 300, startDate: start })
+    const snowball = simulatePayoff(debts, { strategy: 'snowball', extraMonthly: 300, startDate: start })
+    const minimum = simulatePayoff(debts, { strategy: 'minimum', startDate: start })
+
+    expect(avalanche.monthsToDebtFree).not.toBeNull()
+    expect(avalanche.totalInterest).toBeLessThanOrEqual(snowball.totalInterest)
+    expect(avalanche.totalInterest).toBeLessThan(minimum.totalInterest)
+    expect(avalanche.payoffDates[0].liabilityId).toBe('card')
+    expect(snowball.payoffDates[0].liabilityId).toBe('car')
+    expect(avalanche.totalPaid).toBeCloseTo(27000 + avalanche.totalInterest, 0)
+  })
+
+  it('should credit deductible interest at the marginal rate within the student loan cap', () => {
+    const result = simulatePayoff(debts, { strategy: 'avalanche', extraMonthly: 300, startDate: start, marginalTaxRate: 0.22 })
+    expect(result.totalTaxSavings).toBeGreaterThan(0)
+    const firstYear = result.months.filter(m => m.date.startsWith('2026')).reduce((s, m) => s + m.taxSavings, 0)
+    expect(firstYear).toBeLessThanOrEqual(2500 * 0.22 + 0.01)
+  })
+
+  it('should find the extra payment needed for a deadline', () => {
+    const extra = requiredExtraForPayoff(debts, 36, { strategy: 'avalanche', startDate: start })
+    expect(extra).not.toBeNull()
+    expect(simulatePayoff(debts, { strategy: 'avalanche', extraMonthly: extra!, startDate: start }).monthsToDebtFree).toBeLessThanOrEqual(36)
+    expect(simulatePayoff(debts, { strategy: 'avalanche', extraMonthly: extra! - 1, startDate: start }).monthsToDebtFree! > 36).toBe(true)
+  })
+
+  it('should compare a consolidation loan against the current debts', () => {
+    const state = createDefaultState()
+    state.liabilities = debts
+    const comparison = compareRefinance(state, {
+      name: 'Consolidation', liabilityIds: ['card', 'car'], newRate: 0.09, termMonths: 36, closingCosts: 200,
+    }, { strategy: 'avalanche', startDate: start })
+
+    expect(comparison.newLoan.principalBalance).toBe(7000)
+    expect(comparison.newLoan.minimumMonthlyPayment).toBe(amortizedPayment(7000, 0.09, 36))
+    expect(comparison.refinanced.months[0].lines.map(l => l.liabilityId)).toContain(comparison.newLoan.id)
+    expect(comparison.breakEvenMonth).not.toBeNull()
+  })
+})
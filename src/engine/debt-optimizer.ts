@@ -1,4 +1,20 @@
-import type { FortunaState } from './storage'
+/**
+ * Fortuna Engine — Debt Optimizer
+ *
+ * Summary metrics plus a month-by-month payoff engine across all Liability records:
+ *  - Avalanche (highest rate first), snowball (smallest balance first) or custom order
+ *  - Extra payment allocation with freed-up minimums rolling into the next target
+ *  - Refinance / consolidation what-ifs with break-even
+ *  - After-tax cost of deductible interest (isInterestTaxDeductible)
+ *  - Payoff-date timeline used by goal-planner.ts debt_payoff goals
+ */
+
+import type { FortunaState, Liability } from './storage'
+import { generateTaxReport } from './tax-calculator'
+
+// ===================================================================
+//  SUMMARY
+// ===================================================================
 
 export interface DebtSummary {
   totalDebt: number
@@ -47,3 +63,390 @@ export function analyzeLiabilities(state: FortunaState): DebtSummary | null {
     highInterestDebtRatio
   }
 }
+
+// ===================================================================
+//  PAYOFF TYPES
+// ===================================================================
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom' | 'minimum'
+
+export interface PayoffOptions {
+  strategy: PayoffStrategy
+  extraMonthly?: number         // On top of the sum of minimum payments
+  customOrder?: string[]        // Liability ids, highest priority first (custom strategy)
+  startDate?: string            // ISO date; first payment is the following month
+  marginalTaxRate?: number      // Applied to deductible interest
+  itemizes?: boolean            // Mortgage interest only saves tax when itemizing
+  maxMonths?: number            // Simulation horizon (default 600)
+}
+
+export interface DebtPaymentLine {
+  liabilityId: string
+  interest: number
+  principal: number
+  balance: number               // After this month's payment
+}
+
+export interface DebtMonth {
+  month: number                 // 1-based
+  date: string                  // YYYY-MM
+  lines: DebtPaymentLine[]
+  totalPayment: number
+  totalInterest: number
+  totalPrincipal: number
+  totalBalance: number
+  taxSavings: number
+}
+
+export interface PayoffMilestone {
+  liabilityId: string
+  name: string
+  month: number
+  date: string
+  interestPaid: number
+}
+
+export interface DebtPayoffResult {
+  strategy: PayoffStrategy
+  order: string[]               // Priority order extra dollars were applied in
+  monthlyBudget: number         // Minimums + extra
+  months: DebtMonth[]
+  payoffDates: PayoffMilestone[]
+  totalInterest: number
+  totalPaid: number
+  totalTaxSavings: number
+  afterTaxInterest: number
+  monthsToDebtFree: number | null   // null = not paid off within the horizon
+  debtFreeDate: string | null
+  underwater: string[]          // Minimum payment does not cover interest
+}
+
+export interface StrategyComparison {
+  results: Record<Exclude<PayoffStrategy, 'custom'>, DebtPayoffResult>
+  best: 'avalanche' | 'snowball'
+  interestSavedVsMinimum: number
+  monthsSavedVsMinimum: number | null
+}
+
+export interface RefinanceScenario {
+  name: string
+  liabilityIds: string[]        // Debts paid off by the new loan (one id = refinance, many = consolidation)
+  newRate: number
+  termMonths: number
+  closingCosts?: number
+  rollCostsIntoLoan?: boolean   // Otherwise paid up front
+  isInterestTaxDeductible?: boolean
+  type?: Liability['type']
+}
+
+export interface RefinanceComparison {
+  scenario: RefinanceScenario
+  newLoan: Liability
+  baseline: DebtPayoffResult
+  refinanced: DebtPayoffResult
+  interestSaved: number         // Net of up-front closing costs
+  afterTaxInterestSaved: number
+  monthsSaved: number | null
+  monthlyPaymentChange: number  // New minimums - old minimums
+  breakEvenMonth: number | null
+}
+
+// ===================================================================
+//  CONSTANTS & HELPERS
+// ===================================================================
+
+const DEFAULT_MAX_MONTHS = 600
+const STUDENT_LOAN_INTEREST_CAP = 2500   // IRC §221 annual deduction limit
+const CENTS = 0.005
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function monthLabel(start: Date, offset: number): string {
+  const d = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + offset, 1))
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+/** Level monthly payment that amortizes `principal` over `termMonths` */
+export function amortizedPayment(principal: number, annualRate: number, termMonths: number): number {
+  if (termMonths <= 0) return principal
+  const r = annualRate / 12
+  if (r === 0) return round2(principal / termMonths)
+  return round2(principal * r / (1 - Math.pow(1 + r, -termMonths)))
+}
+
+/** Priority order for extra dollars under a strategy */
+export function payoffOrder(liabilities: Liability[], strategy: PayoffStrategy, customOrder: string[] = []): string[] {
+  const active = liabilities.filter(l => l.principalBalance > 0)
+  const avalanche = [...active].sort((a, b) => b.interestRate - a.interestRate || a.principalBalance - b.principalBalance)
+
+  switch (strategy) {
+    case 'snowball':
+      return [...active].sort((a, b) => a.principalBalance - b.principalBalance || b.interestRate - a.interestRate).map(l => l.id)
+    case 'custom': {
+      const known = customOrder.filter(id => active.some(l => l.id === id))
+      return [...known, ...avalanche.map(l => l.id).filter(id => !known.includes(id))]
+    }
+    default:
+      return avalanche.map(l => l.id)
+  }
+}
+
+// ===================================================================
+//  SIMULATION
+// ===================================================================
+
+/**
+ * Month-by-month amortization. Every debt receives its minimum (capped at
+ * what is owed); the rest of the budget goes to the first unpaid debt in
+ * priority order. Except under 'minimum', a paid-off debt's minimum stays in
+ * the budget and rolls to the next target.
+ */
+export function simulatePayoff(liabilities: Liability[], options: PayoffOptions): DebtPayoffResult {
+  const { strategy, extraMonthly = 0, marginalTaxRate = 0, itemizes = false } = options
+  const maxMonths = options.maxMonths ?? DEFAULT_MAX_MONTHS
+  const start = options.startDate ? new Date(options.startDate) : new Date()
+  const debts = liabilities.filter(l => l.principalBalance > 0)
+  const order = payoffOrder(debts, strategy, options.customOrder)
+  const rollover = strategy !== 'minimum'
+  const extra = strategy === 'minimum' ? 0 : Math.max(0, extraMonthly)
+  const monthlyBudget = round2(debts.reduce((s, l) => s + l.minimumMonthlyPayment, 0) + extra)
+
+  const balances = new Map(debts.map(l => [l.id, l.principalBalance]))
+  const interestPaid = new Map(debts.map(l => [l.id, 0]))
+  const studentInterestByYear = new Map<string, number>()
+  const byId = new Map(debts.map(l => [l.id, l]))
+  const underwater = debts
+    .filter(l => l.minimumMonthlyPayment <= l.principalBalance * l.interestRate / 12)
+    .map(l => l.id)
+
+  const months: DebtMonth[] = []
+  const payoffDates: PayoffMilestone[] = []
+  let totalInterest = 0
+  let totalPaid = 0
+  let totalTaxSavings = 0
+
+  for (let m = 1; m <= maxMonths; m++) {
+    const remaining = debts.filter(l => (balances.get(l.id) || 0) > CENTS)
+    if (remaining.length === 0) break
+
+    const date = monthLabel(start, m)
+    const year = date.slice(0, 4)
+    const lines = new Map<string, DebtPaymentLine>()
+    let budget = rollover ? monthlyBudget : remaining.reduce((s, l) => s + l.minimumMonthlyPayment, 0) + extra
+    let taxSavings = 0
+
+    // Accrue interest
+    for (const l of remaining) {
+      const interest = round2((balances.get(l.id) || 0) * l.interestRate / 12)
+      balances.set(l.id, (balances.get(l.id) || 0) + interest)
+      lines.set(l.id, { liabilityId: l.id, interest, principal: 0, balance: 0 })
+      interestPaid.set(l.id, (interestPaid.get(l.id) || 0) + interest)
+      totalInterest += interest
+
+      if (l.isInterestTaxDeductible && (l.type !== 'mortgage' || itemizes)) {
+        let deductible = interest
+        if (l.type === 'student_loan') {
+          const used = studentInterestByYear.get(year) || 0
+          deductible = Math.max(0, Math.min(interest, STUDENT_LOAN_INTEREST_CAP - used))
+          studentInterestByYear.set(year, used + deductible)
+        }
+        taxSavings += deductible * marginalTaxRate
+      }
+    }
+
+    // Minimums
+    const paid = new Map<string, number>()
+    for (const l of remaining) {
+      const pay = Math.min(l.minimumMonthlyPayment, balances.get(l.id) || 0, budget)
+      paid.set(l.id, pay)
+      balances.set(l.id, (balances.get(l.id) || 0) - pay)
+      budget -= pay
+    }
+
+    // Extra (and rolled-over minimums) down the priority list
+    for (const id of order) {
+      if (budget <= CENTS) break
+      const owed = balances.get(id) || 0
+      if (owed <= CENTS) continue
+      const pay = Math.min(owed, budget)
+      paid.set(id, (paid.get(id) || 0) + pay)
+      balances.set(id, owed - pay)
+      budget -= pay
+    }
+
+    let monthPayment = 0
+    let monthInterest = 0
+    for (const l of remaining) {
+      const line = lines.get(l.id)!
+      const pay = paid.get(l.id) || 0
+      const balance = Math.max(0, balances.get(l.id) || 0)
+      line.principal = round2(pay - line.interest)
+      line.balance = round2(balance)
+      monthPayment += pay
+      monthInterest += line.interest
+
+      if (balance <= CENTS) {
+        balances.set(l.id, 0)
+        payoffDates.push({
+          liabilityId: l.id,
+          name: byId.get(l.id)!.name,
+          month: m,
+          date,
+          interestPaid: round2(interestPaid.get(l.id) || 0),
+        })
+      }
+    }
+
+    totalPaid += monthPayment
+    totalTaxSavings += taxSavings
+    months.push({
+      month: m,
+      date,
+      lines: [...lines.values()],
+      totalPayment: round2(monthPayment),
+      totalInterest: round2(monthInterest),
+      totalPrincipal: round2(monthPayment - monthInterest),
+      totalBalance: round2([...balances.values()].reduce((s, b) => s + Math.max(0, b), 0)),
+      taxSavings: round2(taxSavings),
+    })
+  }
+
+  const debtFree = debts.length === 0 || [...balances.values()].every(b => b <= CENTS)
+  const monthsToDebtFree = debtFree ? months.length : null
+
+  return {
+    strategy,
+    order,
+    monthlyBudget,
+    months,
+    payoffDates,
+    totalInterest: round2(totalInterest),
+    totalPaid: round2(totalPaid),
+    totalTaxSavings: round2(totalTaxSavings),
+    afterTaxInterest: round2(totalInterest - totalTaxSavings),
+    monthsToDebtFree,
+    debtFreeDate: monthsToDebtFree === null ? null : months[months.length - 1]?.date ?? monthLabel(start, 0),
+    underwater,
+  }
+}
+
+/** Tax context for deductible interest, derived from the current tax report */
+function taxContext(state: FortunaState): Pick<PayoffOptions, 'marginalTaxRate' | 'itemizes'> {
+  const report = generateTaxReport(state)
+  return { marginalTaxRate: report.marginalRate, itemizes: report.deductionUsed === 'itemized' }
+}
+
+export function planDebtPayoff(state: FortunaState, options: PayoffOptions): DebtPayoffResult {
+  return simulatePayoff(state.liabilities || [], { ...taxContext(state), ...options })
+}
+
+export function compareStrategies(state: FortunaState, extraMonthly = 0, startDate?: string): StrategyComparison {
+  const base = { ...taxContext(state), extraMonthly, startDate }
+  const liabilities = state.liabilities || []
+  const results = {
+    avalanche: simulatePayoff(liabilities, { ...base, strategy: 'avalanche' }),
+    snowball: simulatePayoff(liabilities, { ...base, strategy: 'snowball' }),
+    minimum: simulatePayoff(liabilities, { ...base, strategy: 'minimum' }),
+  }
+  const best = results.snowball.afterTaxInterest < results.avalanche.afterTaxInterest ? 'snowball' : 'avalanche'
+  const bestResult = results[best]
+
+  return {
+    results,
+    best,
+    interestSavedVsMinimum: round2(results.minimum.totalInterest - bestResult.totalInterest),
+    monthsSavedVsMinimum: results.minimum.monthsToDebtFree !== null && bestResult.monthsToDebtFree !== null
+      ? results.minimum.monthsToDebtFree - bestResult.monthsToDebtFree
+      : null,
+  }
+}
+
+/**
+ * Smallest extra monthly payment that makes the plan debt-free within
+ * `targetMonths`. Returns null when no extra up to `ceiling` is enough.
+ */
+export function requiredExtraForPayoff(liabilities: Liability[], targetMonths: number, options: PayoffOptions, ceiling = 100_000): number | null {
+  const fits = (extra: number) => {
+    const r = simulatePayoff(liabilities, { ...options, extraMonthly: extra, maxMonths: targetMonths })
+    return r.monthsToDebtFree !== null
+  }
+  if (fits(0)) return 0
+  if (!fits(ceiling)) return null
+
+  let lo = 0, hi = ceiling
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2)
+    if (fits(mid)) hi = mid
+    else lo = mid
+  }
+  return hi
+}
+
+// ===================================================================
+//  REFINANCE / CONSOLIDATION
+// ===================================================================
+
+export function applyRefinance(liabilities: Liability[], scenario: RefinanceScenario): { liabilities: Liability[]; newLoan: Liability; upfrontCost: number } {
+  const replaced = liabilities.filter(l => scenario.liabilityIds.includes(l.id))
+  const costs = scenario.closingCosts || 0
+  const principal = replaced.reduce((s, l) => s + l.principalBalance, 0) + (scenario.rollCostsIntoLoan ? costs : 0)
+  const deductible = scenario.isInterestTaxDeductible
+    ?? (replaced.length > 0 && replaced.every(l => l.isInterestTaxDeductible))
+
+  const newLoan: Liability = {
+    id: `refi-${scenario.liabilityIds.join('-')}`,
+    name: scenario.name,
+    type: scenario.type ?? (replaced.length === 1 ? replaced[0].type : 'other'),
+    principalBalance: round2(principal),
+    interestRate: scenario.newRate,
+    minimumMonthlyPayment: amortizedPayment(principal, scenario.newRate, scenario.termMonths),
+    termMonths: scenario.termMonths,
+    isInterestTaxDeductible: deductible,
+  }
+
+  return {
+    liabilities: [...liabilities.filter(l => !scenario.liabilityIds.includes(l.id)), newLoan],
+    newLoan,
+    upfrontCost: scenario.rollCostsIntoLoan ? 0 : costs,
+  }
+}
+
+export function compareRefinance(state: FortunaState, scenario: RefinanceScenario, options: PayoffOptions): RefinanceComparison {
+  const opts = { ...taxContext(state), ...options }
+  const current = state.liabilities || []
+  const { liabilities: refiLiabilities, newLoan, upfrontCost } = applyRefinance(current, scenario)
+
+  const baseline = simulatePayoff(current, opts)
+  const refinanced = simulatePayoff(refiLiabilities, {
+    ...opts,
+    // Keep the refinanced loan in the same priority slot as the debts it replaces
+    customOrder: opts.customOrder?.map(id => scenario.liabilityIds.includes(id) ? newLoan.id : id),
+  })
+
+  // First month where cumulative interest avoided covers the up-front cost
+  let breakEvenMonth: number | null = null
+  let saved = -upfrontCost
+  const horizon = Math.max(baseline.months.length, refinanced.months.length)
+  for (let i = 0; i < horizon; i++) {
+    saved += (baseline.months[i]?.totalInterest || 0) - (refinanced.months[i]?.totalInterest || 0)
+    if (saved >= 0) { breakEvenMonth = i + 1; break }
+  }
+
+  const minimums = (ls: Liability[]) => ls.filter(l => l.principalBalance > 0).reduce((s, l) => s + l.minimumMonthlyPayment, 0)
+
+  return {
+    scenario,
+    newLoan,
+    baseline,
+    refinanced,
+    interestSaved: round2(baseline.totalInterest - refinanced.totalInterest - upfrontCost),
+    afterTaxInterestSaved: round2(baseline.afterTaxInterest - refinanced.afterTaxInterest - upfrontCost),
+    monthsSaved: baseline.monthsToDebtFree !== null && refinanced.monthsToDebtFree !== null
+      ? baseline.monthsToDebtFree - refinanced.monthsToDebtFree
+      : null,
+    monthlyPaymentChange: round2(minimums(refiLiabilities) - minimums(current)),
+    breakEvenMonth,
+  }
+}
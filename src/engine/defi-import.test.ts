@@ -0,0 +1,89 @@
+/**
+ * On-Chain DeFi Import — Test Suite
+ * Validates: Etherscan/Solscan export detection, positions and tax events, cost-basis hand-off
+ */
+import { describe, it, expect } from 'vitest'
+import { importDefiFiles, detectDefiExport } from './defi-import'
+import { defiEventsToCostBasis } from './defi-tracker'
+
+describe('on-chain DeFi import', () => {
+  const W = '0xAbC0000000000000000000000000000000000001'
+  const w = W.toLowerCase()
+  const ts = (date: string) => String(Date.parse(`${date}T12:00:00Z`) / 1000)
+  const normal = [
+    '"Txhash","Blockno","UnixTimestamp","DateTime (UTC)","From","To","ContractAddress","Value_IN(ETH)","Value_OUT(ETH)","CurrentValue @ $3000/Eth","TxnFee(ETH)","TxnFee(USD)","Historical $Price/Eth","Status","ErrCode","Method"',
+    `"0xswap","1","${ts('2024-03-01')}","2024-03-01 12:00:00","${w}","0xrouter","","0","1","3000","0.001","3","3400","","","Swap Exact ETH For Tokens"`,
+    `"0xlpadd","2","${ts('2024-03-02')}","2024-03-02 12:00:00","${w}","0xrouter","","0","0.3","900","0.001","3","3400","","","Add Liquidity ETH"`,
+    `"0xstake","3","${ts('2024-07-01')}","2024-07-01 12:00:00","${w}","0xlido","","0","0.5","1500","0.001","3","3500","","","Submit"`,
+    `"0xclaim","4","${ts('2024-08-01')}","2024-08-01 12:00:00","${w}","0xgauge","","0","0","0","0.001","3","3000","","","Claim Rewards"`,
+    `"0xbridge","5","${ts('2024-09-01')}","2024-09-01 12:00:00","${w}","0xportal","","0","0.2","600","0.001","3","2500","","","Bridge ETH To"`,
+    `"0xfailed","6","${ts('2024-09-02')}","2024-09-02 12:00:00","${w}","0xrouter","","0","5","15000","0.001","3","2500","Error(0)","","Swap Exact ETH For Tokens"`,
+  ].join('\n')
+  const internal = [
+    '"Txhash","Blockno","UnixTimestamp","DateTime (UTC)","ParentTxFrom","ParentTxTo","ParentTxETH_Value","From","TxTo","ContractAddress","Value_IN(ETH)","Value_OUT(ETH)","CurrentValue @ $3000/Eth","Historical $Price/Eth","Status","ErrCode","Type"',
+    `"0xlprm","7","${ts('2024-06-01')}","2024-06-01 12:00:00","${w}","0xrouter","0","0xrouter","${w}","","0.35","0","1050","3800","0","","call"`,
+  ].join('\n')
+  const tokens = [
+    '"Transaction Hash","Blockno","UnixTimestamp","DateTime (UTC)","From","To","TokenValue","USDValueDayOfTx","ContractAddress","TokenName","TokenSymbol"',
+    `"0xswap","1","${ts('2024-03-01')}","2024-03-01 12:00:00","0xpool","${w}","3,400","$3,400.00","0xusdc","USD Coin","USDC"`,
+    `"0xlpadd","2","${ts('2024-03-02')}","2024-03-02 12:00:00","${w}","0xpair","1,000","$1,000.00","0xusdc","USD Coin","USDC"`,
+    `"0xlpadd","2","${ts('2024-03-02')}","2024-03-02 12:00:00","0x0000000000000000000000000000000000000000","${w}","0.01","","0xpair","Uniswap V2","UNI-V2"`,
+    `"0xlprm","7","${ts('2024-06-01')}","2024-06-01 12:00:00","${w}","0xpair","0.01","","0xpair","Uniswap V2","UNI-V2"`,
+    `"0xlprm","7","${ts('2024-06-01')}","2024-06-01 12:00:00","0xpair","${w}","1,100","$1,100.00","0xusdc","USD Coin","USDC"`,
+    `"0xstake","3","${ts('2024-07-01')}","2024-07-01 12:00:00","0x0000000000000000000000000000000000000000","${w}","0.5","$1,750.00","0xsteth","Liquid staked Ether 2.0","stETH"`,
+    `"0xclaim","4","${ts('2024-08-01')}","2024-08-01 12:00:00","0xgauge","${w}","50","$25.00","0xcrv","Curve DAO Token","CRV"`,
+  ].join('\n')
+  const options = { wallet: W, chain: 'ethereum' as const, bridgeDestination: 'arbitrum' as const, openingLots: [{ symbol: 'ETH', quantity: 2, costPerUnit: 1500, acquiredDate: '2023-01-10' }] }
+
+  it('classifies Etherscan exports and tracks basis through LP, staking and bridge moves', () => {
+    const result = importDefiFiles([tokens, internal, normal, 'date,amount\n2024-01-01,5'], options)
+    expect(result.formats).toEqual(['etherscan_tokens', 'etherscan_internal', 'etherscan_transactions'])
+    expect(result.transactions.map(t => [t.hash, t.kind])).toEqual([
+      ['0xswap', 'swap'], ['0xlpadd', 'lp_add'], ['0xlprm', 'lp_remove'], ['0xstake', 'stake'], ['0xclaim', 'reward'], ['0xbridge', 'bridge'],
+    ])
+    expect(result.warnings.some(w => w.includes('not recognized'))).toBe(true)
+
+    const taxable = result.events.filter(e => e.gainLoss !== undefined)
+    // 1 ETH from the 2023 lot: long-term; the LP token held Mar–Jun: short-term on carried basis ($450 ETH + $1,000 USDC)
+    expect(taxable.map(e => [e.type, e.taxTreatment, e.costBasis, e.gainLoss])).toEqual([
+      ['swap', 'long_term_cg', 1500, 1900],
+      ['lp_exit', 'short_term_cg', 1450, 980],
+    ])
+    expect(result.events.find(e => e.type === 'harvest')).toMatchObject({ taxTreatment: 'ordinary_income', amount: 25 })
+    expect(result.events.every(e => e.entityId === 'personal')).toBe(true)
+
+    expect(result.lpPositions[0]).toMatchObject({ protocol: 'uniswap_v2', poolName: 'USDC/ETH', entryValueUSD: 2020, status: 'withdrawn', withdrawDate: '2024-06-01', withdrawValueUSD: 2430 })
+    expect(result.stakingPositions[0]).toMatchObject({ protocol: 'lido', stakingType: 'liquid_staking', tokenSymbol: 'ETH', rewardTokenSymbol: 'STETH', amountStaked: 0.5 })
+    expect(result.bridges[0]).toMatchObject({ fromChain: 'ethereum', toChain: 'arbitrum', token: 'ETH', amount: 0.2, valueUSD: 500 })
+  })
+
+  it('feeds lots and disposals into cost basis', () => {
+    const { lots, disposals } = defiEventsToCostBasis(importDefiFiles([tokens, internal, normal], options).events)
+    expect(disposals.map(d => [d.ticker, d.holdingPeriod, d.form8949Box])).toEqual([['ETH', 'long', 'F'], ['UNI-V2', 'short', 'C']])
+    const cost = (ticker: string) => lots.filter(l => l.ticker === ticker).reduce((s, l) => s + l.totalCost, 0)
+    expect(cost('STETH')).toBeCloseTo(750, 6)     // 0.5 ETH at the 2023 $1,500 basis
+    expect(cost('ETH')).toBeCloseTo(1330 + 300, 6) // LP exit at FMV + bridged 0.2 ETH carried
+    expect(cost('CRV')).toBe(25)
+    expect(cost('UNI-V2')).toBeCloseTo(1450, 6)
+  })
+
+  it('imports Solscan transfers with decimals and mint symbols', () => {
+    const solscan = [
+      'Signature,Block Time,Human Time,Action,From Address,To Address,Amount,Flow,Value,Decimals,Token Address',
+      `sig1,${ts('2024-04-01')},2024-04-01T12:00:00.000Z,TRANSFER,SolWallet1,MarinadePool,2000000000,out,300,9,So11111111111111111111111111111111111111111`,
+      `sig1,${ts('2024-04-01')},2024-04-01T12:00:00.000Z,TRANSFER,MarinadePool,SolWallet1,1900000000,in,300,9,mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So`,
+      `sig2,${ts('2024-05-01')},2024-05-01T12:00:00.000Z,CLAIM_REWARD,Distributor,SolWallet1,120000000,in,96,6,JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN`,
+    ].join('\n')
+    expect(detectDefiExport(solscan.split('\n')[0].toLowerCase().split(','))).toBe('solscan_transfers')
+    const result = importDefiFiles([solscan], {
+      wallet: 'SolWallet1', chain: 'solana',
+      tokenSymbols: { mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So: 'mSOL' },
+      openingLots: [{ symbol: 'SOL', quantity: 10, costPerUnit: 100, acquiredDate: '2023-05-01' }],
+    })
+    expect(result.transactions.map(t => t.kind)).toEqual(['stake', 'reward'])
+    expect(result.stakingPositions[0]).toMatchObject({ chain: 'solana', tokenSymbol: 'SOL', amountStaked: 2, rewardTokenSymbol: 'MSOL' })
+    expect(result.events[0]).toMatchObject({ type: 'stake', costBasis: 200, tokens: [{ symbol: 'MSOL', amount: 1.9 }] })
+    expect(result.events[1]).toMatchObject({ type: 'harvest', amount: 96, tokens: [{ amount: 120 }] })
+    expect(result.warnings.some(w => w.includes('tokenSymbols'))).toBe(true)
+  })
+})
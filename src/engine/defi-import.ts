@@ -0,0 +1,699 @@
+/**
+ * FORTUNA ENGINE — On-Chain Wallet Import v1
+ *
+ * Offline ingestion of block-explorer CSV exports into the DeFi tracker:
+ *   - Etherscan-style exports (token transfers, internal transactions,
+ *     normal transactions) — same layout on Polygonscan, Arbiscan,
+ *     Basescan, BscScan, etc.
+ *   - Solscan account transfer exports (Solana)
+ *   - Rows grouped by transaction hash and classified from the wallet's
+ *     side: swap, LP add/remove, stake/unstake (plain and liquid staking),
+ *     reward claim, bridge, wrap, plain transfer
+ *   - LPPosition / StakingPosition / BridgeTransaction records
+ *   - DeFiTaxEvents ready for defiEventsToCostBasis
+ *
+ * Basis is tracked FIFO per token inside the import. LP entries, liquid
+ * staking deposits, bridges and wraps carry the deposited tokens' basis
+ * over (no gain until exit, matching generateLPTaxEvents); exits, swaps
+ * and liquid-staking redemptions are disposals. Tokens transferred in
+ * with no opening lot take their USD value on receipt as basis. Crypto
+ * is not subject to the wash-sale rule. Gas fees are not modeled.
+ */
+
+import { parseCSV } from './csv-import'
+import {
+  PROTOCOL_INFO, tagEventsWithEntity,
+  type BridgeTransaction, type Chain, type DeFiProtocol, type DeFiTaxEvent, type DeFiTaxEventWithEntity,
+  type LPPosition, type StakingPosition,
+} from './defi-tracker'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type DefiExportFormat = 'etherscan_tokens' | 'etherscan_internal' | 'etherscan_transactions' | 'solscan_transfers'
+
+export type DefiTxKind =
+  | 'swap' | 'lp_add' | 'lp_remove' | 'stake' | 'unstake' | 'reward'
+  | 'bridge' | 'wrap' | 'transfer_in' | 'transfer_out' | 'unclassified'
+
+export interface TransferLeg {
+  hash: string
+  timestamp: string            // ISO date-time
+  symbol: string
+  tokenName?: string
+  contract?: string
+  amount: number
+  direction: 'in' | 'out'
+  valueUSD?: number            // Explorer's USD value at the time, when exported
+  counterparty: string
+  method?: string              // Contract method / explorer action
+}
+
+export interface ClassifiedDefiTx {
+  hash: string
+  date: string
+  kind: DefiTxKind
+  protocol: DeFiProtocol
+  ins: TransferLeg[]
+  outs: TransferLeg[]
+  method?: string
+}
+
+export interface OpeningLot {
+  symbol: string
+  quantity: number
+  costPerUnit: number
+  acquiredDate: string
+}
+
+export interface DefiImportOptions {
+  wallet: string               // Address whose side of each transfer is recorded
+  chain: Chain
+  protocol?: DeFiProtocol      // Overrides detection from token symbols
+  bridgeDestination?: Chain
+  tokenSymbols?: Record<string, string> // Token address → symbol (Solscan exports carry no symbols)
+  openingLots?: OpeningLot[]   // Basis for tokens acquired before these files
+  entityId?: string
+}
+
+export interface DefiImportResult {
+  chain: Chain
+  wallet: string
+  formats: DefiExportFormat[]
+  transactions: ClassifiedDefiTx[]
+  events: DeFiTaxEventWithEntity[]
+  lpPositions: LPPosition[]
+  stakingPositions: StakingPosition[]
+  bridges: BridgeTransaction[]
+  warnings: string[]
+  skippedRows: number
+  totalRows: number
+}
+
+// ─── Token Metadata ─────────────────────────────────────────────────────────
+
+const NATIVE_SYMBOL: Record<Chain, string> = {
+  ethereum: 'ETH', arbitrum: 'ETH', optimism: 'ETH', base: 'ETH', polygon: 'POL',
+  bsc: 'BNB', avalanche: 'AVAX', fantom: 'FTM', solana: 'SOL', other: 'ETH',
+}
+
+/** Liquid-staking receipt tokens → protocol */
+const LIQUID_STAKING: Record<string, DeFiProtocol> = {
+  STETH: 'lido', WSTETH: 'lido', STSOL: 'lido', RETH: 'rocket_pool',
+  CBETH: 'custom', MSOL: 'custom', JITOSOL: 'custom', BSOL: 'custom', SFRXETH: 'custom',
+}
+
+/** LP token symbols → protocol */
+const LP_TOKENS: [RegExp, DeFiProtocol][] = [
+  [/^UNI-V2$/i, 'uniswap_v2'],
+  [/^SLP$/i, 'sushiswap'],
+  [/^CAKE-LP$/i, 'pancakeswap'],
+  [/^(B-|BPT)/i, 'balancer'],
+  [/(CRV|-F)$/i, 'curve'],
+  [/(^|-)LP($|-)/i, 'custom'],
+]
+
+function lpProtocol(leg: TransferLeg): DeFiProtocol | null {
+  for (const [pattern, protocol] of LP_TOKENS) if (pattern.test(leg.symbol)) return protocol
+  return /liquidity|\bLP\b|pool token/i.test(leg.tokenName || '') ? 'custom' : null
+}
+
+function isWrapPair(a: string, b: string): boolean {
+  return a.toUpperCase() === `W${b.toUpperCase()}` || b.toUpperCase() === `W${a.toUpperCase()}`
+}
+
+// ─── CSV Parsing ────────────────────────────────────────────────────────────
+
+function normKey(header: string): string {
+  return header.replace(/[^a-z0-9]/g, '')
+}
+
+export function detectDefiExport(headers: string[]): DefiExportFormat | null {
+  const keys = headers.map(normKey)
+  const has = (k: string) => keys.includes(k)
+  if (has('tokensymbol') && has('tokenvalue')) return 'etherscan_tokens'
+  if (has('signature') || (has('flow') && has('tokenaddress'))) return 'solscan_transfers'
+  if (has('parenttxfrom') || (has('errcode') && has('type') && keys.some(k => k.startsWith('valuein')))) return 'etherscan_internal'
+  if (has('method') && keys.some(k => k.startsWith('valuein'))) return 'etherscan_transactions'
+  return null
+}
+
+function parseNumber(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined
+  const cleaned = raw.replace(/[$,\s]/g, '')
+  if (!cleaned || cleaned === '-') return undefined
+  const n = Number(cleaned)
+  return Number.isFinite(n) ? n : undefined
+}
+
+function parseTimestamp(unix: string | undefined, text: string | undefined): string | null {
+  const seconds = parseNumber(unix)
+  if (seconds && seconds > 0) return new Date(seconds * 1000).toISOString()
+  if (!text) return null
+  const parsed = new Date(/^\d{4}-\d{2}-\d{2} \d/.test(text) ? `${text.replace(' ', 'T')}Z` : text)
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString()
+}
+
+function shortAddress(address: string): string {
+  return address.length > 10 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address
+}
+
+/** Transfer legs from one export file; counts rows that produced none */
+function legsFromFile(
+  format: DefiExportFormat,
+  headers: string[],
+  rows: string[][],
+  options: DefiImportOptions,
+  warnings: string[],
+): { legs: TransferLeg[]; methods: Map<string, string>; skipped: number } {
+  const keys = headers.map(normKey)
+  const col = (...names: string[]) => keys.findIndex(k => names.includes(k))
+  const colPrefix = (prefix: string) => keys.findIndex(k => k.startsWith(prefix))
+  const wallet = options.chain === 'solana' ? options.wallet : options.wallet.toLowerCase()
+  const same = (address: string) => (options.chain === 'solana' ? address : address.toLowerCase()) === wallet
+  const native = NATIVE_SYMBOL[options.chain]
+
+  const iHash = col('txhash', 'transactionhash', 'signature')
+  const iUnix = col('unixtimestamp', 'blocktime')
+  const iTime = col('datetimeutc', 'humantime', 'time', 'blocktimeutc')
+  const iFrom = col('from', 'fromaddress')
+  const iTo = col('to', 'txto', 'toaddress')
+  const iStatus = col('status')
+  const iErr = col('errcode')
+  const iMethod = col('method', 'action')
+
+  const legs: TransferLeg[] = []
+  const methods = new Map<string, string>()
+  let skipped = 0
+  let unknownMints = 0
+
+  for (const row of rows) {
+    const hash = row[iHash]
+    const timestamp = parseTimestamp(row[iUnix], row[iTime])
+    const failed = (iErr >= 0 && !!row[iErr]) || (iStatus >= 0 && /error|fail/i.test(row[iStatus] || ''))
+    if (!hash || !timestamp || failed) { skipped++; continue }
+    const method = iMethod >= 0 ? row[iMethod] || undefined : undefined
+    if (method) methods.set(hash, method)
+    const from = row[iFrom] || ''
+    const to = row[iTo] || ''
+    const before = legs.length
+
+    if (format === 'etherscan_tokens') {
+      const amount = parseNumber(row[col('tokenvalue')])
+      const direction = same(from) ? 'out' : same(to) ? 'in' : null
+      if (amount && direction) {
+        legs.push({
+          hash, timestamp, amount, direction,
+          symbol: row[col('tokensymbol')].toUpperCase(),
+          tokenName: row[col('tokenname')] || undefined,
+          contract: row[col('contractaddress')] || undefined,
+          valueUSD: parseNumber(row[col('usdvaluedayoftx')]),
+          counterparty: direction === 'out' ? to : from,
+        })
+      }
+    } else if (format === 'solscan_transfers') {
+      const flow = (row[col('flow')] || '').toLowerCase()
+      const direction = flow === 'in' || flow === 'out' ? flow : same(from) ? 'out' : same(to) ? 'in' : null
+      const decimals = parseNumber(row[col('decimals')])
+      const raw = parseNumber(row[col('amount')])
+      const mint = row[col('tokenaddress')] || ''
+      const symbol = options.tokenSymbols?.[mint]
+        ?? (col('tokensymbol', 'symbol') >= 0 ? row[col('tokensymbol', 'symbol')] : undefined)
+        ?? (/^So1{10}/.test(mint) ? 'SOL' : undefined)
+      if (!symbol) unknownMints++
+      if (raw && direction) {
+        legs.push({
+          hash, timestamp, direction,
+          amount: decimals !== undefined ? raw / 10 ** decimals : raw,
+          symbol: (symbol || shortAddress(mint)).toUpperCase(),
+          contract: mint || undefined,
+          valueUSD: parseNumber(row[col('value')]),
+          counterparty: direction === 'out' ? to : from,
+          method,
+        })
+      }
+    } else {
+      // Native-coin legs (internal or normal transactions)
+      const price = parseNumber(row[colPrefix('historicalprice')])
+      const valueIn = parseNumber(row[colPrefix('valuein')]) || 0
+      const valueOut = parseNumber(row[colPrefix('valueout')]) || 0
+      for (const [amount, direction] of [[valueIn, 'in'], [valueOut, 'out']] as const) {
+        if (amount <= 0) continue
+        legs.push({
+          hash, timestamp, amount, direction,
+          symbol: native,
+          valueUSD: price !== undefined ? amount * price : undefined,
+          counterparty: direction === 'out' ? to : from,
+        })
+      }
+    }
+
+    // A normal transaction with no value still contributes its method
+    if (legs.length === before && !(format === 'etherscan_transactions' && method)) skipped++
+  }
+
+  if (unknownMints > 0) {
+    warnings.push(`${unknownMints} Solana transfers had no token symbol — pass tokenSymbols to name the mints.`)
+  }
+  return { legs, methods, skipped }
+}
+
+// ─── Classification ─────────────────────────────────────────────────────────
+
+/** Merge legs of the same token and direction; net a token sent and received in one tx */
+function netLegs(legs: TransferLeg[]): { ins: TransferLeg[]; outs: TransferLeg[] } {
+  const bySymbol = new Map<string, { in?: TransferLeg; out?: TransferLeg }>()
+  for (const leg of legs) {
+    const entry = bySymbol.get(leg.symbol) ?? {}
+    const prev = entry[leg.direction]
+    entry[leg.direction] = prev
+      ? { ...prev, amount: prev.amount + leg.amount, valueUSD: prev.valueUSD !== undefined && leg.valueUSD !== undefined ? prev.valueUSD + leg.valueUSD : prev.valueUSD ?? leg.valueUSD }
+      : { ...leg }
+    bySymbol.set(leg.symbol, entry)
+  }
+
+  const ins: TransferLeg[] = []
+  const outs: TransferLeg[] = []
+  for (const { in: i, out: o } of bySymbol.values()) {
+    if (i && o) {
+      const net = i.amount - o.amount
+      const unit = (leg: TransferLeg) => leg.valueUSD !== undefined ? leg.valueUSD / leg.amount : undefined
+      const keep = net > 0 ? i : o
+      const price = unit(keep)
+      if (Math.abs(net) > 1e-12) {
+        const leg = { ...keep, amount: Math.abs(net), valueUSD: price !== undefined ? price * Math.abs(net) : undefined }
+        if (net > 0) ins.push(leg)
+        else outs.push(leg)
+      }
+    } else if (i) ins.push(i)
+    else if (o) outs.push(o)
+  }
+  return { ins, outs }
+}
+
+export function classifyDefiTx(legs: TransferLeg[], method?: string): DefiTxKind {
+  const { ins, outs } = netLegs(legs)
+  const m = (method || legs.find(l => l.method)?.method || '').toLowerCase().replace(/[^a-z0-9]/g, '')
+  const isLp = (leg: TransferLeg) => lpProtocol(leg) !== null
+  const isReceipt = (leg: TransferLeg) => leg.symbol in LIQUID_STAKING
+
+  if (outs.length > 0 && ins.length === 0 && /bridge|outboundtransfer|sendtol2|depositeth|depositfor|relay/.test(m)) return 'bridge'
+  if (outs.some(isLp) && ins.length > 0 && !ins.some(isLp)) return 'lp_remove'
+  if (ins.some(isLp) && outs.length > 0 && !outs.some(isLp)) return 'lp_add'
+  if (outs.length === 1 && ins.length === 1) {
+    if (isWrapPair(outs[0].symbol, ins[0].symbol)) return 'wrap'
+    if (isReceipt(ins[0]) && !isReceipt(outs[0])) return 'stake'
+    if (isReceipt(outs[0]) && !isReceipt(ins[0])) return 'unstake'
+    return 'swap'
+  }
+  if (ins.length > 0 && outs.length === 0) {
+    if (/claim|harvest|reward/.test(m)) return 'reward'
+    if (/unstake|withdraw|unlock|unbond/.test(m)) return 'unstake'
+    return 'transfer_in'
+  }
+  if (outs.length > 0 && ins.length === 0) {
+    if (/stake|delegate|lock|bond/.test(m) && !/unstake|unlock|unbond/.test(m)) return 'stake'
+    return 'transfer_out'
+  }
+  return 'unclassified'
+}
+
+// ─── Basis Pool ─────────────────────────────────────────────────────────────
+
+interface PoolLot { quantity: number; costPerUnit: number; acquiredDate: string }
+
+interface Removed { cost: number; short: { qty: number; cost: number }; long: { qty: number; cost: number }; uncovered: number }
+
+/** FIFO lots per token (no wash-sale adjustments — crypto is not a §1091 security) */
+class BasisPool {
+  private lots = new Map<string, PoolLot[]>()
+
+  add(symbol: string, quantity: number, costPerUnit: number, acquiredDate: string) {
+    if (quantity <= 0) return
+    const list = this.lots.get(symbol) ?? []
+    list.push({ quantity, costPerUnit, acquiredDate })
+    list.sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate))
+    this.lots.set(symbol, list)
+  }
+
+  /** Remove quantity FIFO, splitting basis by holding period as of `date` */
+  remove(symbol: string, quantity: number, date: string): Removed {
+    const out: Removed = { cost: 0, short: { qty: 0, cost: 0 }, long: { qty: 0, cost: 0 }, uncovered: 0 }
+    let remaining = quantity
+    for (const lot of this.lots.get(symbol) ?? []) {
+      if (remaining <= 1e-12) break
+      if (lot.quantity <= 0) continue
+      const qty = Math.min(remaining, lot.quantity)
+      const cost = qty * lot.costPerUnit
+      const bucket = daysBetween(lot.acquiredDate, date) > 365 ? out.long : out.short
+      bucket.qty += qty
+      bucket.cost += cost
+      out.cost += cost
+      lot.quantity -= qty
+      remaining -= qty
+    }
+    out.uncovered = Math.max(0, remaining)
+    return out
+  }
+}
+
+function daysBetween(start: string, end: string): number {
+  return (new Date(end).getTime() - new Date(start).getTime()) / (1000 * 60 * 60 * 24)
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// ─── Import ─────────────────────────────────────────────────────────────────
+
+/**
+ * Import one or more explorer CSV exports for a wallet on one chain. Files
+ * for the same wallet (e.g. token transfers + internal transactions) are
+ * merged by transaction hash before classification.
+ */
+export function importDefiFiles(files: string[], options: DefiImportOptions): DefiImportResult {
+  const warnings: string[] = []
+  const formats: DefiExportFormat[] = []
+  const legs: TransferLeg[] = []
+  const methods = new Map<string, string>()
+  let skippedRows = 0
+  let totalRows = 0
+
+  for (const text of files) {
+    const { headers, rows } = parseCSV(text)
+    const format = detectDefiExport(headers)
+    if (!format) {
+      warnings.push('A file was not recognized as an Etherscan-style or Solscan export and was skipped.')
+      continue
+    }
+    formats.push(format)
+    totalRows += rows.length
+    const parsed = legsFromFile(format, headers, rows, options, warnings)
+    legs.push(...parsed.legs)
+    skippedRows += parsed.skipped
+    for (const [hash, method] of parsed.methods) methods.set(hash, method)
+  }
+
+  // Group by hash, oldest first
+  const byHash = new Map<string, TransferLeg[]>()
+  for (const leg of legs) {
+    if (!byHash.has(leg.hash)) byHash.set(leg.hash, [])
+    byHash.get(leg.hash)!.push(leg)
+  }
+  const groups = [...byHash.entries()].sort((a, b) => a[1][0].timestamp.localeCompare(b[1][0].timestamp))
+
+  const pool = new BasisPool()
+  for (const lot of options.openingLots ?? []) pool.add(lot.symbol.toUpperCase(), lot.quantity, lot.costPerUnit, lot.acquiredDate)
+
+  const chain = options.chain
+  const transactions: ClassifiedDefiTx[] = []
+  const events: DeFiTaxEvent[] = []
+  const lpPositions: LPPosition[] = []
+  const openLps = new Map<string, LPPosition>()   // LP token symbol → position
+  const stakingPositions: StakingPosition[] = []
+  const bridges: BridgeTransaction[] = []
+  let missingPrices = 0
+  let fmvBasisTransfers = 0
+  let uncoveredDisposals = 0
+
+  const usd = (leg: TransferLeg) => {
+    if (leg.valueUSD === undefined) missingPrices++
+    return leg.valueUSD ?? 0
+  }
+  const sumUsd = (list: TransferLeg[]) => list.reduce((s, l) => s + usd(l), 0)
+  /** Remove legs from the pool; basis of any uncovered amount falls back to its USD value */
+  const takeBasis = (list: TransferLeg[], date: string) => list.reduce((s, l) => {
+    const removed = pool.remove(l.symbol, l.amount, date)
+    if (removed.uncovered > 0) uncoveredDisposals++
+    return s + removed.cost + (removed.uncovered > 0 ? usd(l) * removed.uncovered / l.amount : 0)
+  }, 0)
+
+  for (const [hash, txLegs] of groups) {
+    const method = methods.get(hash) ?? txLegs.find(l => l.method)?.method
+    const kind = classifyDefiTx(txLegs, method)
+    const { ins, outs } = netLegs(txLegs)
+    const date = txLegs[0].timestamp.slice(0, 10)
+    const protocol = options.protocol
+      ?? [...ins, ...outs].map(l => lpProtocol(l) ?? LIQUID_STAKING[l.symbol]).find(p => p && p !== 'custom')
+      ?? 'custom'
+    const protocolName = PROTOCOL_INFO[protocol].name
+    transactions.push({ hash, date, kind, protocol, ins, outs, method })
+
+    /** Capital disposal of one leg for `proceeds`, one event per holding period */
+    const dispose = (leg: TransferLeg, proceeds: number, type: DeFiTaxEvent['type'], description: string) => {
+      const removed = pool.remove(leg.symbol, leg.amount, date)
+      if (removed.uncovered > 0) {
+        uncoveredDisposals++
+        removed.short.qty += removed.uncovered   // Zero basis, short-term until the lots are supplied
+      }
+      const unit = proceeds / leg.amount
+      for (const [term, part] of [['short', removed.short], ['long', removed.long]] as const) {
+        if (part.qty <= 1e-12) continue
+        const partProceeds = round2(part.qty * unit)
+        events.push({
+          date, type, description, protocol: protocolName, chain,
+          taxTreatment: term === 'long' ? 'long_term_cg' : 'short_term_cg',
+          amount: partProceeds,
+          costBasis: round2(part.cost),
+          gainLoss: round2(partProceeds - part.cost),
+          tokens: [{ symbol: leg.symbol, amount: part.qty, priceUSD: unit }],
+          notes: `Imported from tx ${hash}.`,
+          irsGuidance: 'Notice 2014-21: exchanging one digital asset for another is a taxable disposal.',
+        })
+      }
+    }
+    /** New lots for received legs at their USD value */
+    const acquire = (list: TransferLeg[], totalUsd: number, type: DeFiTaxEvent['type'], description: string) => {
+      const legsUsd = sumUsd(list)
+      const tokens = list.map(l => {
+        const cost = legsUsd > 0 ? totalUsd * usd(l) / legsUsd : totalUsd / list.length
+        pool.add(l.symbol, l.amount, cost / l.amount, date)
+        return { symbol: l.symbol, amount: l.amount, priceUSD: cost / l.amount }
+      })
+      events.push({
+        date, type, description, protocol: protocolName, chain,
+        taxTreatment: 'cost_basis_only',
+        amount: round2(totalUsd),
+        costBasis: round2(totalUsd),
+        tokens,
+        notes: `Basis of tokens received in tx ${hash}.`,
+        irsGuidance: 'Basis of property received in a taxable exchange is its fair market value.',
+      })
+    }
+    /** Carry deposited basis into a receipt token (LP, liquid staking, bridge) */
+    const carry = (receipt: TransferLeg, basis: number, type: DeFiTaxEvent['type'], description: string, guidance: string) => {
+      pool.add(receipt.symbol, receipt.amount, basis / receipt.amount, date)
+      events.push({
+        date, type, description, protocol: protocolName, chain,
+        taxTreatment: 'cost_basis_only',
+        amount: round2(basis),
+        costBasis: round2(basis),
+        tokens: [{ symbol: receipt.symbol, amount: receipt.amount, priceUSD: basis / receipt.amount }],
+        notes: `Carried-over basis, tx ${hash}.`,
+        irsGuidance: guidance,
+      })
+    }
+
+    switch (kind) {
+      case 'swap': {
+        const proceeds = ins[0].valueUSD ?? usd(outs[0])
+        dispose(outs[0], proceeds, 'swap', `Swapped ${outs[0].symbol} for ${ins[0].symbol}`)
+        acquire(ins, proceeds, 'swap', `Received ${ins[0].symbol} in swap`)
+        break
+      }
+      case 'lp_add': {
+        const lp = ins.find(l => lpProtocol(l))!
+        const deposited = outs
+        const entryValue = sumUsd(deposited)
+        const basis = takeBasis(deposited, date)
+        const [a, b] = deposited
+        carry(lp, basis, 'lp_entry', `Added liquidity to ${deposited.map(l => l.symbol).join('/')} on ${protocolName}`,
+          'No specific guidance. Conservative approach: deposited tokens\' basis carries to the LP token; recognize on exit.')
+        const position: LPPosition = {
+          id: `lp-${hash}`,
+          protocol,
+          chain,
+          poolName: deposited.map(l => l.symbol).join('/'),
+          tokenA: { symbol: a.symbol, amount: a.amount, entryPrice: a.valueUSD !== undefined ? a.valueUSD / a.amount : 0 },
+          tokenB: b
+            ? { symbol: b.symbol, amount: b.amount, entryPrice: b.valueUSD !== undefined ? b.valueUSD / b.amount : 0 }
+            : { symbol: '', amount: 0, entryPrice: 0 },
+          lpTokens: lp.amount,
+          entryDate: date,
+          entryValueUSD: round2(entryValue || basis),
+          feesEarned: 0,
+          rewardsEarned: 0,
+          status: 'active',
+          notes: `Imported from tx ${hash}`,
+          entityId: options.entityId,
+        }
+        lpPositions.push(position)
+        openLps.set(lp.symbol, position)
+        break
+      }
+      case 'lp_remove': {
+        const lp = outs.find(l => lpProtocol(l))!
+        const proceeds = sumUsd(ins)
+        dispose(lp, proceeds, 'lp_exit', `Removed liquidity (${lp.symbol}) on ${protocolName}`)
+        acquire(ins, proceeds, 'lp_exit', `Tokens received removing liquidity (${ins.map(l => l.symbol).join('/')})`)
+        const position = openLps.get(lp.symbol)
+        if (position) {
+          position.lpTokens -= lp.amount
+          position.withdrawValueUSD = round2((position.withdrawValueUSD || 0) + proceeds)
+          if (position.lpTokens <= 1e-12) {
+            position.status = 'withdrawn'
+            position.withdrawDate = date
+            openLps.delete(lp.symbol)
+          }
+        }
+        break
+      }
+      case 'stake': {
+        const token = outs[0]
+        const receipt = ins[0]
+        if (receipt) {
+          carry(receipt, takeBasis([token], date), 'stake', `Staked ${token.symbol} for ${receipt.symbol} on ${protocolName}`,
+            'Liquid staking deposit treated as a non-recognition exchange; basis carries to the receipt token.')
+        } else {
+          // Plain staking: tokens stay owned; park their lots under the staked key
+          const removed = pool.remove(token.symbol, token.amount, date)
+          pool.add(`staked:${token.symbol}`, token.amount, (removed.cost + (removed.uncovered > 0 ? usd(token) * removed.uncovered / token.amount : 0)) / token.amount, date)
+          events.push({
+            date, type: 'stake', description: `Staked ${token.amount} ${token.symbol}`, protocol: protocolName, chain,
+            taxTreatment: 'not_taxable', amount: round2(usd(token)), tokens: [],
+            notes: `Imported from tx ${hash}.`, irsGuidance: 'Depositing tokens to stake is not a disposal.',
+          })
+        }
+        stakingPositions.push({
+          id: `stake-${hash}`,
+          protocol,
+          chain,
+          tokenSymbol: token.symbol,
+          amountStaked: token.amount,
+          stakedDate: date,
+          stakingType: receipt ? 'liquid_staking' : 'single_asset',
+          apy: 0,
+          rewardsEarned: 0,
+          rewardTokenSymbol: receipt?.symbol ?? token.symbol,
+          autoCompound: !!receipt,
+          currentValueUSD: token.valueUSD,
+          status: 'active',
+          notes: `Imported from tx ${hash}`,
+          entityId: options.entityId,
+        })
+        break
+      }
+      case 'unstake': {
+        const received = ins[0]
+        const receipt = outs[0]
+        if (receipt) {
+          const proceeds = received.valueUSD ?? usd(receipt)
+          dispose(receipt, proceeds, 'unstake', `Redeemed ${receipt.symbol} for ${received.symbol}`)
+          acquire([received], proceeds, 'unstake', `Received ${received.symbol} on redemption`)
+        } else {
+          const position = stakingPositions.find(p => p.status === 'active' && p.stakingType === 'single_asset' && p.tokenSymbol === received.symbol)
+          const principal = Math.min(received.amount, position?.amountStaked ?? 0)
+          const removed = pool.remove(`staked:${received.symbol}`, principal, date)
+          pool.add(received.symbol, principal, principal > 0 ? removed.cost / principal : 0, position?.stakedDate ?? date)
+          events.push({
+            date, type: 'unstake', description: `Unstaked ${principal} ${received.symbol}`, protocol: protocolName, chain,
+            taxTreatment: 'not_taxable', amount: round2(principal * usd(received) / received.amount), tokens: [],
+            notes: `Imported from tx ${hash}.`, irsGuidance: 'Withdrawing staked principal is not a disposal.',
+          })
+          // Anything above the principal is a reward received on withdrawal
+          const extra = received.amount - principal
+          if (extra > 1e-12) {
+            const value = usd(received) * extra / received.amount
+            pool.add(received.symbol, extra, value / extra, date)
+            events.push(rewardEvent(date, protocolName, chain, hash, [{ symbol: received.symbol, amount: extra, priceUSD: value / extra }]))
+            if (position) position.rewardsEarned += extra
+          }
+          if (position) position.status = 'withdrawn'
+        }
+        break
+      }
+      case 'reward': {
+        const tokens = ins.map(l => {
+          const price = usd(l) / l.amount
+          pool.add(l.symbol, l.amount, price, date)
+          return { symbol: l.symbol, amount: l.amount, priceUSD: price }
+        })
+        events.push(rewardEvent(date, protocolName, chain, hash, tokens))
+        for (const l of ins) {
+          const position = stakingPositions.find(p => p.status === 'active' && (p.rewardTokenSymbol === l.symbol || p.tokenSymbol === l.symbol))
+          if (position) position.rewardsEarned += l.amount
+        }
+        break
+      }
+      case 'bridge': {
+        const token = outs[0]
+        const basis = takeBasis([token], date)
+        carry(token, basis, 'bridge', `Bridged ${token.amount} ${token.symbol} from ${chain}`,
+          'Moving the same asset between chains is not a disposal; basis carries to the destination.')
+        bridges.push({
+          id: `bridge-${hash}`,
+          fromChain: chain,
+          toChain: options.bridgeDestination ?? 'other',
+          token: token.symbol,
+          amount: token.amount,
+          bridgeProtocol: method || shortAddress(token.counterparty),
+          date,
+          fee: 0,
+          valueUSD: round2(usd(token)),
+          status: 'completed',
+        })
+        break
+      }
+      case 'wrap': {
+        const basis = takeBasis(outs, date)
+        pool.add(ins[0].symbol, ins[0].amount, basis / ins[0].amount, date)
+        break
+      }
+      case 'transfer_in':
+        for (const l of ins) {
+          pool.add(l.symbol, l.amount, usd(l) / l.amount, date)
+          fmvBasisTransfers++
+        }
+        break
+      case 'transfer_out':
+        takeBasis(outs, date)
+        break
+      case 'unclassified':
+        warnings.push(`Could not classify tx ${hash} (${ins.length} in, ${outs.length} out) — review it manually.`)
+        break
+    }
+  }
+
+  if (missingPrices > 0) warnings.push(`${missingPrices} transfers had no USD value in the export; they were valued at $0.`)
+  if (fmvBasisTransfers > 0) warnings.push(`${fmvBasisTransfers} tokens transferred in took their USD value on receipt as basis — add opening lots for actual basis.`)
+  if (uncoveredDisposals > 0) warnings.push(`${uncoveredDisposals} disposals exceeded the known lots; the shortfall was given zero (or receipt-value) basis.`)
+
+  events.sort((a, b) => a.date.localeCompare(b.date))
+  return {
+    chain,
+    wallet: options.wallet,
+    formats,
+    transactions,
+    events: tagEventsWithEntity(events, options.entityId),
+    lpPositions,
+    stakingPositions,
+    bridges,
+    warnings,
+    skippedRows,
+    totalRows,
+  }
+}
+
+function rewardEvent(date: string, protocol: string, chain: Chain, hash: string, tokens: DeFiTaxEvent['tokens']): DeFiTaxEvent {
+  const amount = tokens.reduce((s, t) => s + t.amount * t.priceUSD, 0)
+  return {
+    date,
+    type: 'harvest',
+    description: `Rewards: ${tokens.map(t => `${t.amount} ${t.symbol}`).join(', ')}`,
+    protocol,
+    chain,
+    taxTreatment: 'ordinary_income',
+    amount: round2(amount),
+    tokens,
+    notes: `Imported from tx ${hash}. Basis = FMV at receipt.`,
+    irsGuidance: 'Rev. Rul. 2023-14: Staking rewards are includible in gross income when taxpayer gains dominion and control.',
+  }
+}
@@ -432,7 +432,7 @@ export function defiEventsToCostBasis(events: (DeFiTaxEvent | DeFiTaxEventWithEn
       for (const token of event.tokens) {
         const proceeds = token.amount * token.priceUSD
         const basis = event.costBasis || 0
-        const holdingDays = 365
+        const isLongTerm = event.taxTreatment === 'long_term_cg'
         disposals.push({
           ticker: token.symbol,
           quantity: token.amount,
@@ -441,11 +441,11 @@ export function defiEventsToCostBasis(events: (DeFiTaxEvent | DeFiTaxEventWithEn
           disposalDate: event.date,
           costBasis: basis / Math.max(event.tokens.length, 1),
           gainLoss: event.gainLoss! / Math.max(event.tokens.length, 1),
-          holdingPeriod: holdingDays > 365 ? 'long' : 'short',
+          holdingPeriod: isLongTerm ? 'long' : 'short',
           isWashSale: false,
           washSaleDisallowed: 0,
           adjustedGainLoss: event.gainLoss! / Math.max(event.tokens.length, 1),
-          form8949Box: holdingDays > 365 ? 'D' : 'A' as any,
+          form8949Box: isLongTerm ? 'F' : 'C',   // Not reported on a 1099-B
           entityId,
         })
       }
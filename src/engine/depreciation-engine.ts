@@ -3,8 +3,9 @@
  *
  * Complete business asset depreciation modeling:
  *  - Section 179 immediate expensing with phase-out
- *  - Bonus Depreciation (80% for 2024, phasing down)
- *  - MACRS standard depreciation schedules (3/5/7/15/27.5/39 yr)
+ *  - Bonus Depreciation (rate by placed-in-service year)
+ *  - MACRS standard depreciation schedules (3/5/7/15 yr)
+ *  - Straight-line mid-month schedules for real property (27.5/39 yr)
  *  - Vehicle deduction optimizer (standard mileage vs actual)
  *  - Home office depreciation
  *  - Year-by-year depreciation schedule with tax impact
@@ -13,32 +14,20 @@
 
 import type { FortunaState } from './storage'
 import { generateTaxReport } from './tax-calculator'
+import { getTaxParameters, resolveTaxYear, type TaxYearParameters } from './tax-parameters'
 
 // ===================================================================
-//  2024-2026 DEPRECIATION CONSTANTS
+//  DEPRECIATION CONSTANTS
 // ===================================================================
 
-const SECTION_179_LIMIT_2024 = 1220000
-const SECTION_179_PHASEOUT_START = 3050000
-const BONUS_DEPRECIATION_RATES: Record<number, number> = {
-  2024: 0.60,  // 60% bonus depreciation
-  2025: 0.40,  // 40%
-  2026: 0.20,  // 20%
-  2027: 0.00,  // fully phased out
-}
+// §179 limits, bonus rates, luxury auto caps and the mileage rate are
+// year-indexed — see tax-parameters.ts.
 
-// Vehicle limits (first-year, luxury auto limits)
-const VEHICLE_LIMITS_2024 = {
-  firstYear_withBonus: 20400,
-  firstYear_noBonus: 12400,
-  secondYear: 19800,
-  thirdYear: 11900,
-  subsequent: 7160,
-  suvOver6000: 28900, // SUV Section 179 limit
+/** Depreciation parameters for a placed-in-service / tax year */
+export function getDepreciationParameters(taxYear?: number): TaxYearParameters['depreciation'] {
+  return getTaxParameters(taxYear).depreciation
 }
 
-const STANDARD_MILEAGE_RATE_2024 = 0.67 // 67 cents per mile
-
 // MACRS recovery periods and depreciation percentages
 const MACRS_TABLES: Record<number, number[]> = {
   3: [0.3333, 0.4445, 0.1481, 0.0741],
@@ -47,6 +36,16 @@ const MACRS_TABLES: Record<number, number[]> = {
   15: [0.0500, 0.0950, 0.0855, 0.0770, 0.0693, 0.0623, 0.0590, 0.0590, 0.0591, 0.0590, 0.0591, 0.0590, 0.0591, 0.0590, 0.0591, 0.0295],
 }
 
+/** Half-year convention MACRS rate for a recovery period's Nth year (0-based), or undefined when untabled */
+export function macrsYearRate(recoveryYears: number, yearIndex: number): number | undefined {
+  const table = MACRS_TABLES[recoveryYears]
+  if (!table) return undefined
+  return table[yearIndex] ?? 0
+}
+
+// Real property recovery periods, keyed by the asset class macrsLife
+const REAL_PROPERTY_LIFE: Record<number, RealPropertyLife> = { 27: 27.5, 39: 39 }
+
 // Common asset classes and their MACRS life
 const ASSET_CLASSES: AssetClass[] = [
   { id: 'computer', name: 'Computers & Peripherals', macrsLife: 5, section179: true, examples: 'Laptops, desktops, servers, monitors' },
@@ -86,6 +85,15 @@ export interface BusinessAsset {
   entityId?: string          // Entity this asset belongs to
 }
 
+export type RealPropertyLife = 27.5 | 39
+
+export interface RealPropertyDepreciationYear {
+  year: number
+  depreciation: number
+  accumulated: number
+  remainingBasis: number
+}
+
 export interface DepreciationScheduleYear {
   year: number
   section179: number
@@ -166,6 +174,46 @@ export interface PurchaseTimingInsight {
   impact?: number
 }
 
+// ===================================================================
+//  REAL PROPERTY (STRAIGHT-LINE, MID-MONTH)
+// ===================================================================
+
+/**
+ * Residential rental (27.5-yr) and nonresidential (39-yr) property:
+ * straight-line with the mid-month convention — the placed-in-service month
+ * counts as half a month.
+ */
+export function realPropertySchedule(basis: number, placedInServiceDate: string, life: RealPropertyLife): RealPropertyDepreciationYear[] {
+  if (basis <= 0) return []
+  const placed = new Date(placedInServiceDate)
+  const firstYear = placed.getUTCFullYear()
+  const annual = basis / life
+  const firstYearMonths = 12 - placed.getUTCMonth() - 0.5
+
+  // Mid-month convention spreads recovery over at most ceil(life) + 1 tax years;
+  // the last one takes whatever rounding left, so tiny bases still terminate
+  const lastYear = firstYear + Math.ceil(life)
+  const schedule: RealPropertyDepreciationYear[] = []
+  let accumulated = 0
+  for (let year = firstYear; year <= lastYear && accumulated < basis - 0.5; year++) {
+    const full = year === firstYear ? annual * firstYearMonths / 12 : annual
+    const depreciation = Math.round(year === lastYear ? basis - accumulated : Math.min(full, basis - accumulated))
+    accumulated += depreciation
+    schedule.push({ year, depreciation, accumulated, remainingBasis: Math.max(0, Math.round(basis - accumulated)) })
+  }
+  return schedule
+}
+
+/** Depreciation for a single tax year, plus the amount taken through that year */
+export function realPropertyDepreciationForYear(basis: number, placedInServiceDate: string, life: RealPropertyLife, taxYear: number): { depreciation: number; accumulated: number } {
+  const schedule = realPropertySchedule(basis, placedInServiceDate, life)
+  const upTo = schedule.filter(y => y.year <= taxYear)
+  return {
+    depreciation: schedule.find(y => y.year === taxYear)?.depreciation || 0,
+    accumulated: upTo[upTo.length - 1]?.accumulated || 0,
+  }
+}
+
 // ===================================================================
 //  DEPRECIATION CALCULATOR
 // ===================================================================
@@ -181,49 +229,49 @@ function calculateAssetDepreciation(
   let remaining = depreciableBasis
 
   const purchaseYear = new Date(asset.purchaseDate || new Date().toISOString()).getFullYear()
-  const currentYear = new Date().getFullYear()
+  const yearParams = getDepreciationParameters(purchaseYear)
   const schedule: DepreciationScheduleYear[] = []
   const methodParts: string[] = []
 
   // ── Section 179 ──
   let s179 = 0
   if (asset.section179Elected && assetClass.section179) {
-    const available = Math.max(0, SECTION_179_LIMIT_2024 - section179Used)
+    const available = Math.max(0, yearParams.section179Limit - section179Used)
     // Vehicle heavy cap
-    const vehicleCap = asset.classId === 'vehicle_heavy' ? VEHICLE_LIMITS_2024.suvOver6000 : Infinity
+    const vehicleCap = asset.classId === 'vehicle_heavy' ? yearParams.vehicleLimits.suvOver6000 : Infinity
     s179 = Math.min(remaining, available, vehicleCap)
     remaining -= s179
     methodParts.push(`§179: $${s179.toLocaleString()}`)
   }
 
-  // ── Bonus Depreciation ──
+  // ── Bonus Depreciation (27.5/39-yr real property doesn't qualify) ──
+  const realLife = REAL_PROPERTY_LIFE[assetClass.macrsLife]
   let bonus = 0
-  if (asset.bonusDepreciation && remaining > 0) {
-    const bonusRate = BONUS_DEPRECIATION_RATES[purchaseYear] ?? 0
+  if (asset.bonusDepreciation && !realLife && remaining > 0) {
+    const bonusRate = yearParams.bonusRate
     // Vehicle limits
     if (asset.classId === 'vehicle_light') {
       const maxFirst = bonusRate > 0
-        ? VEHICLE_LIMITS_2024.firstYear_withBonus
-        : VEHICLE_LIMITS_2024.firstYear_noBonus
+        ? yearParams.vehicleLimits.firstYear_withBonus
+        : yearParams.vehicleLimits.firstYear_noBonus
       bonus = Math.min(remaining, Math.max(0, maxFirst - s179))
     } else {
       bonus = Math.round(remaining * bonusRate)
     }
     remaining -= bonus
-    if (bonus > 0) methodParts.push(`Bonus ${(BONUS_DEPRECIATION_RATES[purchaseYear] ?? 0) * 100}%: $${bonus.toLocaleString()}`)
+    if (bonus > 0) methodParts.push(`Bonus ${bonusRate * 100}%: $${bonus.toLocaleString()}`)
   }
 
-  // ── MACRS Schedule ──
-  const macrsRates = MACRS_TABLES[assetClass.macrsLife] || MACRS_TABLES[7]
-  const macrsYears = macrsRates.length
+  // ── MACRS Schedule (real property: straight-line mid-month) ──
+  const macrsAmounts = realLife
+    ? realPropertySchedule(remaining, asset.purchaseDate || new Date().toISOString(), realLife).map(y => y.depreciation)
+    : (MACRS_TABLES[assetClass.macrsLife] || MACRS_TABLES[7]).map(rate => Math.round(remaining * rate))
+  const macrsYears = macrsAmounts.length
   let macrsRemaining = remaining
 
   for (let i = 0; i < macrsYears; i++) {
     const year = purchaseYear + i
-    const macrsDepr = Math.min(
-      Math.round(remaining * macrsRates[i]),
-      macrsRemaining
-    )
+    const macrsDepr = Math.min(macrsAmounts[i], macrsRemaining)
     macrsRemaining -= macrsDepr
 
     const yearS179 = i === 0 ? s179 : 0
@@ -241,7 +289,9 @@ function calculateAssetDepreciation(
     })
   }
 
-  if (macrsRates.length > 0) {
+  if (realLife) {
+    methodParts.push(`SL ${realLife}-yr mid-month`)
+  } else if (macrsYears > 0) {
     methodParts.push(`MACRS ${assetClass.macrsLife}-yr`)
   }
 
@@ -274,11 +324,14 @@ export function analyzeVehicleDeduction(
   annualMaintenance: number,
   annualParking: number,
   marginalRate: number,
+  taxYear?: number,
 ): VehicleDeductionAnalysis {
   const businessPct = annualMiles > 0 ? businessMiles / annualMiles : 0
+  const year = resolveTaxYear(taxYear)
+  const mileageRate = getDepreciationParameters(year).standardMileageRate
 
   // Standard mileage
-  const stdDeduction = Math.round(businessMiles * STANDARD_MILEAGE_RATE_2024)
+  const stdDeduction = Math.round(businessMiles * mileageRate)
 
   // Actual expense
   const totalOperating = annualFuel + annualInsurance + annualMaintenance + annualParking
@@ -297,13 +350,13 @@ export function analyzeVehicleDeduction(
   if (businessPct < 0.5) notes.push('Business use under 50% — Section 179 not available')
   if (vehicleCost > 60000) notes.push('Luxury vehicle limits may apply — consider heavy SUV exception')
   if (businessMiles > 20000) notes.push('High mileage favors standard mileage rate')
-  notes.push(`Standard mileage rate for 2024: $${STANDARD_MILEAGE_RATE_2024}/mile`)
+  notes.push(`Standard mileage rate for ${year}: $${mileageRate}/mile`)
 
   return {
     standardMileage: {
       annualDeduction: stdDeduction,
       effective: recommendation === 'standard_mileage',
-      calculation: `${businessMiles.toLocaleString()} miles × $${STANDARD_MILEAGE_RATE_2024} = $${stdDeduction.toLocaleString()}`,
+      calculation: `${businessMiles.toLocaleString()} miles × $${mileageRate} = $${stdDeduction.toLocaleString()}`,
     },
     actualExpense: {
       annualDeduction: actualTotal,
@@ -371,12 +424,13 @@ function analyzePurchaseTiming(
   marginalRate: number,
 ): PurchaseTimingInsight[] {
   const insights: PurchaseTimingInsight[] = []
-  const currentYear = new Date().getFullYear()
+  const currentYear = resolveTaxYear(state.taxYear)
   const currentMonth = new Date().getMonth() // 0-indexed
+  const yearParams = getDepreciationParameters(currentYear)
 
   // Bonus depreciation phase-down alert
-  const currentBonus = BONUS_DEPRECIATION_RATES[currentYear] ?? 0
-  const nextBonus = BONUS_DEPRECIATION_RATES[currentYear + 1] ?? 0
+  const currentBonus = yearParams.bonusRate
+  const nextBonus = getDepreciationParameters(currentYear + 1).bonusRate
   if (currentBonus > nextBonus) {
     insights.push({
       type: 'warning',
@@ -396,11 +450,11 @@ function analyzePurchaseTiming(
   }
 
   // Section 179 capacity
-  const section179Remaining = SECTION_179_LIMIT_2024
+  const section179Remaining = yearParams.section179Limit
   insights.push({
     type: 'info',
     title: `$${section179Remaining.toLocaleString()} Section 179 Capacity Available`,
-    detail: `Immediate expensing up to $${SECTION_179_LIMIT_2024.toLocaleString()} for qualifying equipment. Phase-out begins at $${SECTION_179_PHASEOUT_START.toLocaleString()} total assets placed in service.`,
+    detail: `Immediate expensing up to $${yearParams.section179Limit.toLocaleString()} for qualifying equipment. Phase-out begins at $${yearParams.section179PhaseoutStart.toLocaleString()} total assets placed in service.`,
   })
 
   // Marginal rate opportunity
@@ -416,7 +470,7 @@ function analyzePurchaseTiming(
   insights.push({
     type: 'info',
     title: 'Heavy Vehicle Exception (Over 6,000 lbs GVWR)',
-    detail: `Vehicles over 6,000 lbs bypass luxury auto limits. Up to $${VEHICLE_LIMITS_2024.suvOver6000.toLocaleString()} Section 179 for SUVs, unlimited for trucks/vans. Popular qualifying vehicles: Ford F-150, Chevy Tahoe, Tesla Model X, BMW X5.`,
+    detail: `Vehicles over 6,000 lbs bypass luxury auto limits. Up to $${yearParams.vehicleLimits.suvOver6000.toLocaleString()} Section 179 for SUVs, unlimited for trucks/vans. Popular qualifying vehicles: Ford F-150, Chevy Tahoe, Tesla Model X, BMW X5.`,
   })
 
   return insights
@@ -450,7 +504,8 @@ export function generateDepreciationSummary(
 
   const timingInsights = analyzePurchaseTiming(state, marginalRate)
 
-  const currentYear = new Date().getFullYear()
+  const currentYear = resolveTaxYear(state.taxYear)
+  const yearParams = getDepreciationParameters(currentYear)
   const currentYearDeduction = assetResults.reduce((sum, r) => {
     const thisYear = r.schedule.find(s => s.year === currentYear)
     return sum + (thisYear?.totalDepreciation || 0)
@@ -482,8 +537,8 @@ export function generateDepreciationSummary(
     }, 0),
     currentYearDeduction,
     section179Used,
-    section179Remaining: Math.max(0, SECTION_179_LIMIT_2024 - section179Used),
-    bonusDepreciationRate: BONUS_DEPRECIATION_RATES[new Date().getFullYear()] ?? 0,
+    section179Remaining: Math.max(0, yearParams.section179Limit - section179Used),
+    bonusDepreciationRate: yearParams.bonusRate,
     assetResults,
     vehicleAnalysis: null,
     homeOffice: null,
@@ -493,4 +548,4 @@ export function generateDepreciationSummary(
   }
 }
 
-export { ASSET_CLASSES, VEHICLE_LIMITS_2024, SECTION_179_LIMIT_2024, STANDARD_MILEAGE_RATE_2024, BONUS_DEPRECIATION_RATES }
+export { ASSET_CLASSES }
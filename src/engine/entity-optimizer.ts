@@ -13,6 +13,7 @@
 
 import type { FortunaState, IncomeStream, Entity } from './storage'
 import { generateTaxReport, calculateSCorpSavings, calculateSelfEmploymentTax } from './tax-calculator'
+import { getFederalBrackets, getTaxParameters } from './tax-parameters'
 
 // ─── Types ───────────────────────────────────────────────────────────────
 
@@ -84,6 +85,7 @@ export function calculateReasonableSalary(
   netIncome: number,
   industryType: string = 'default',
   hoursPerWeek: number = 40,
+  taxYear?: number,
 ): ReasonableSalaryAnalysis {
   const multipliers = INDUSTRY_SALARY_MULTIPLIERS[industryType] || INDUSTRY_SALARY_MULTIPLIERS.default
 
@@ -104,14 +106,9 @@ export function calculateReasonableSalary(
   recommendedSalary = Math.max(recommendedSalary, Math.min(30000, netIncome * 0.5))
   recommendedSalary = Math.min(recommendedSalary, netIncome)
 
-  // Social Security wage base caps the employer FICA benefit
-  const ssWageBase2024 = 168600
-  const ssWageBase2025 = 176100
-  const wageBase = ssWageBase2025
-
   const distributions = Math.max(0, netIncome - recommendedSalary)
   const seTaxOnSalary = recommendedSalary * 0.153 // Both halves of FICA
-  const fullSETax = calculateSelfEmploymentTax(netIncome).total
+  const fullSETax = calculateSelfEmploymentTax(netIncome, taxYear).total
   const seTaxSavings = fullSETax - seTaxOnSalary
 
   // Risk assessment
@@ -202,10 +199,11 @@ function estimateComplianceCosts(entityType: EntityType, state: string): Complia
 function buildSolePropScenario(
   netIncome: number,
   state: string,
+  taxYear?: number,
 ): EntityScenario {
-  const seTax = calculateSelfEmploymentTax(netIncome).total
+  const seTax = calculateSelfEmploymentTax(netIncome, taxYear).total
   const compliance = estimateComplianceCosts('sole_prop', state)
-  const incomeTax = estimateIncomeTax(netIncome, 'single') // simplified
+  const incomeTax = estimateIncomeTax(netIncome, 'single', taxYear) // simplified
 
   return {
     id: 'sole_prop',
@@ -245,10 +243,11 @@ function buildSolePropScenario(
 function buildLLCScenario(
   netIncome: number,
   state: string,
+  taxYear?: number,
 ): EntityScenario {
-  const seTax = calculateSelfEmploymentTax(netIncome).total
+  const seTax = calculateSelfEmploymentTax(netIncome, taxYear).total
   const compliance = estimateComplianceCosts('llc_disregarded', state)
-  const incomeTax = estimateIncomeTax(netIncome, 'single')
+  const incomeTax = estimateIncomeTax(netIncome, 'single', taxYear)
 
   return {
     id: 'llc_disregarded',
@@ -289,18 +288,19 @@ function buildSCorpScenario(
   netIncome: number,
   state: string,
   salary?: number,
+  taxYear?: number,
 ): EntityScenario {
-  const salaryAnalysis = calculateReasonableSalary(netIncome)
+  const salaryAnalysis = calculateReasonableSalary(netIncome, 'default', 40, taxYear)
   const actualSalary = salary || salaryAnalysis.recommendedSalary
   const distributions = netIncome - actualSalary
   const compliance = estimateComplianceCosts('llc_scorp', state)
 
   // S-Corp: FICA only on salary, not distributions
   const ficaOnSalary = actualSalary * 0.153
-  const fullSETax = calculateSelfEmploymentTax(netIncome).total
+  const fullSETax = calculateSelfEmploymentTax(netIncome, taxYear).total
   const seTaxSavings = fullSETax - ficaOnSalary
 
-  const incomeTax = estimateIncomeTax(netIncome, 'single')
+  const incomeTax = estimateIncomeTax(netIncome, 'single', taxYear)
 
   // Net savings after compliance costs
   const netAnnualSavings = seTaxSavings - compliance.annualTotal
@@ -350,6 +350,7 @@ function buildSCorpScenario(
 function buildDualEntityScenario(
   streams: IncomeStream[],
   state: string,
+  taxYear?: number,
 ): EntityScenario | null {
   // Only makes sense with 2+ income types
   const businessStreams = streams.filter(s => ['business', 'freelance'].includes(s.type) && s.isActive)
@@ -365,21 +366,21 @@ function buildDualEntityScenario(
   const scorpIncome = scorpStream.annualAmount
   const solePropIncome = solePropStreams.reduce((s, i) => s + i.annualAmount, 0)
 
-  const salary = calculateReasonableSalary(scorpIncome).recommendedSalary
+  const salary = calculateReasonableSalary(scorpIncome, 'default', 40, taxYear).recommendedSalary
   const distributions = scorpIncome - salary
 
   const scorpCompliance = estimateComplianceCosts('llc_scorp', state)
   const solePropCompliance = estimateComplianceCosts('sole_prop', state)
 
   const ficaOnSalary = salary * 0.153
-  const solePropSETax = calculateSelfEmploymentTax(solePropIncome).total
-  const fullSETax = calculateSelfEmploymentTax(totalIncome).total
+  const solePropSETax = calculateSelfEmploymentTax(solePropIncome, taxYear).total
+  const fullSETax = calculateSelfEmploymentTax(totalIncome, taxYear).total
   const totalSETax = ficaOnSalary + solePropSETax
 
   const seTaxSavings = fullSETax - totalSETax
   const totalCompliance = scorpCompliance.annualTotal + solePropCompliance.annualTotal
   const netSavings = seTaxSavings - totalCompliance
-  const incomeTax = estimateIncomeTax(totalIncome, 'single')
+  const incomeTax = estimateIncomeTax(totalIncome, 'single', taxYear)
 
   return {
     id: 'dual_entity',
@@ -423,18 +424,10 @@ function buildDualEntityScenario(
 
 // ─── Simplified income tax estimate ─────────────────────────────────────
 
-function estimateIncomeTax(taxableIncome: number, status: string): number {
-  const brackets2025 = [
-    { min: 0, max: 11925, rate: 0.10 },
-    { min: 11925, max: 48475, rate: 0.12 },
-    { min: 48475, max: 103350, rate: 0.22 },
-    { min: 103350, max: 197300, rate: 0.24 },
-    { min: 197300, max: 250525, rate: 0.32 },
-    { min: 250525, max: 626350, rate: 0.35 },
-    { min: 626350, max: Infinity, rate: 0.37 },
-  ]
+function estimateIncomeTax(taxableIncome: number, status: string, taxYear?: number): number {
+  const brackets = getFederalBrackets(status, taxYear)
   let tax = 0
-  for (const b of brackets2025) {
+  for (const b of brackets) {
     if (taxableIncome <= b.min) break
     const taxable = Math.min(taxableIncome, b.max) - b.min
     tax += taxable * b.rate
@@ -447,6 +440,7 @@ function estimateIncomeTax(taxableIncome: number, status: string): number {
 export function optimizeEntities(state: FortunaState): EntityOptimizerResult {
   const { profile, incomeStreams, expenses } = state
   const stateCode = profile.state || 'IL'
+  const taxYear = state.taxYear
 
   const activeStreams = incomeStreams.filter(s => s.isActive)
   const selfEmploymentIncome = activeStreams
@@ -457,7 +451,7 @@ export function optimizeEntities(state: FortunaState): EntityOptimizerResult {
   const netSEIncome = Math.max(0, selfEmploymentIncome - deductibleExpenses)
 
   if (netSEIncome < 1000) {
-    const baseline = buildSolePropScenario(0, stateCode)
+    const baseline = buildSolePropScenario(0, stateCode, taxYear)
     return {
       scenarios: [baseline],
       recommended: baseline,
@@ -472,20 +466,20 @@ export function optimizeEntities(state: FortunaState): EntityOptimizerResult {
   // Build all scenarios
   const scenarios: EntityScenario[] = []
 
-  const soleProp = buildSolePropScenario(netSEIncome, stateCode)
+  const soleProp = buildSolePropScenario(netSEIncome, stateCode, taxYear)
   scenarios.push(soleProp)
 
-  const llc = buildLLCScenario(netSEIncome, stateCode)
+  const llc = buildLLCScenario(netSEIncome, stateCode, taxYear)
   llc.netSavings = soleProp.totalTaxBurden - llc.totalTaxBurden
   scenarios.push(llc)
 
   if (netSEIncome >= 30000) {
-    const scorp = buildSCorpScenario(netSEIncome, stateCode)
+    const scorp = buildSCorpScenario(netSEIncome, stateCode, undefined, taxYear)
     scorp.netSavings = soleProp.totalTaxBurden - scorp.totalTaxBurden
     scenarios.push(scorp)
   }
 
-  const dual = buildDualEntityScenario(activeStreams, stateCode)
+  const dual = buildDualEntityScenario(activeStreams, stateCode, taxYear)
   if (dual) {
     dual.netSavings = soleProp.totalTaxBurden - dual.totalTaxBurden
     scenarios.push(dual)
@@ -498,7 +492,7 @@ export function optimizeEntities(state: FortunaState): EntityOptimizerResult {
 
   // Salary analysis for S-Corp scenarios
   const salaryAnalysis = netSEIncome >= 30000
-    ? calculateReasonableSalary(netSEIncome)
+    ? calculateReasonableSalary(netSEIncome, 'default', 40, taxYear)
     : null
 
   // Calculate breakeven income for S-Corp
@@ -550,12 +544,13 @@ export interface ThresholdAnalysis {
   }[]
 }
 
-export function analyzeIncomeThresholds(netSEIncome: number, state: string): ThresholdAnalysis {
+export function analyzeIncomeThresholds(netSEIncome: number, state: string, taxYear?: number): ThresholdAnalysis {
+  const ssWageBase = getTaxParameters(taxYear).socialSecurityWageBase
   const thresholds = [
     { label: 'LLC Worthwhile', income: 25000, description: 'Asset protection justifies formation costs' },
     { label: 'S-Corp Breakeven', income: 40000, description: 'S-Corp tax savings begin to exceed compliance costs' },
     { label: 'S-Corp Sweet Spot', income: 75000, description: 'Strong savings with manageable audit risk' },
-    { label: 'Max SE Savings', income: 168600, description: 'Social Security wage base cap — maximum FICA benefit' },
+    { label: 'Max SE Savings', income: ssWageBase, description: 'Social Security wage base cap — maximum FICA benefit' },
     { label: 'Dual Entity', income: 150000, description: 'Multiple entities may optimize different income streams' },
     { label: 'C-Corp Consideration', income: 400000, description: 'C-Corp qualified dividends may beat pass-through rates' },
   ]
@@ -563,9 +558,9 @@ export function analyzeIncomeThresholds(netSEIncome: number, state: string): Thr
   return {
     currentIncome: netSEIncome,
     thresholds: thresholds.map(t => {
-      const solePropTax = calculateSelfEmploymentTax(t.income).total + estimateIncomeTax(t.income, 'single')
-      const salary = calculateReasonableSalary(t.income).recommendedSalary
-      const scorpTax = salary * 0.153 + estimateIncomeTax(t.income, 'single')
+      const solePropTax = calculateSelfEmploymentTax(t.income, taxYear).total + estimateIncomeTax(t.income, 'single', taxYear)
+      const salary = calculateReasonableSalary(t.income, 'default', 40, taxYear).recommendedSalary
+      const scorpTax = salary * 0.153 + estimateIncomeTax(t.income, 'single', taxYear)
       const compliance = estimateComplianceCosts('llc_scorp', state).annualTotal
       const savings = Math.max(0, solePropTax - scorpTax - compliance)
 
@@ -0,0 +1,100 @@
+/**
+ * Equity Compensation — Test Suite
+ * Validates: vesting schedules, grant events, ESPP pricing, 83(b) elections, ISO exercise planning and AMT
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type EquityCompensation } from './storage'
+import {
+  generateVestingSchedule, buildGrantEvents, esppPurchasePrice, track83bElections, planISOExercises, summarizeEquityYear,
+} from './equity-compensation'
+import { generateTaxReport } from './tax-calculator'
+
+describe('equity compensation', () => {
+  const iso: EquityCompensation = {
+    id: 'iso-1', companyName: 'Acme', grantType: 'iso', grantDate: '2022-01-01', totalSharesGranted: 10000,
+    vestingSchedule: 'standard_4yr_1yr_cliff', vestedShares: 10000, unvestedShares: 0, strikePrice: 1, currentFairMarketValue: 21,
+  }
+
+  function w2State(grants: EquityCompensation[]) {
+    const state = createDefaultState()
+    state.taxYear = 2026
+    state.incomeStreams = [{ id: 'job', name: 'Salary', type: 'w2', annualAmount: 150000, isActive: true }]
+    state.equityCompensation = grants
+    return state
+  }
+
+  it('should generate a 4-year schedule with a 1-year cliff', () => {
+    const schedule = generateVestingSchedule({ ...iso, grantDate: '2024-01-15', totalSharesGranted: 4800 })
+    expect(schedule[0]).toEqual({ date: '2025-01-15', shares: 1200, cumulativeShares: 1200 })
+    expect(schedule[1]).toEqual({ date: '2025-02-15', shares: 100, cumulativeShares: 1300 })
+    expect(schedule).toHaveLength(37)
+    expect(schedule.at(-1)).toEqual({ date: '2028-01-15', shares: 100, cumulativeShares: 4800 })
+  })
+
+  it('should split ISO and ESPP sales by disposition', () => {
+    const exercised: EquityCompensation = {
+      ...iso,
+      events: [
+        { id: 'ex', type: 'exercise', date: '2024-03-01', shares: 200, pricePerShare: 15 },
+        { id: 's1', type: 'sale', date: '2025-01-10', shares: 100, pricePerShare: 30, lotId: 'ex' },
+        { id: 's2', type: 'sale', date: '2025-06-01', shares: 100, pricePerShare: 30, lotId: 'ex' },
+      ],
+    }
+    const [exercise, early, late] = buildGrantEvents(exercised)
+    expect(exercise.amtAdjustment).toBe(2800)
+    expect(early).toMatchObject({ disposition: 'disqualifying', ordinaryIncome: 1400, capitalGain: 1500, holding: 'short' })
+    expect(late).toMatchObject({ disposition: 'qualifying', ordinaryIncome: 0, capitalGain: 2900, holding: 'long' })
+
+    const espp: EquityCompensation = {
+      ...iso, id: 'espp', grantType: 'espp', grantDate: '2023-01-01', strikePrice: undefined, esppOfferingFMV: 20,
+      events: [
+        { id: 'buy', type: 'espp_purchase', date: '2023-06-30', shares: 100, pricePerShare: 30, purchasePrice: esppPurchasePrice({ ...iso, esppOfferingFMV: 20 }, 30) },
+        { id: 'q', type: 'sale', date: '2025-07-01', shares: 50, pricePerShare: 40, lotId: 'buy' },
+        { id: 'd', type: 'sale', date: '2024-01-15', shares: 50, pricePerShare: 40, lotId: 'buy' },
+      ],
+    }
+    expect(esppPurchasePrice({ ...iso, esppOfferingFMV: 20 }, 30)).toBe(17)
+    const sales = buildGrantEvents(espp).filter(e => e.type === 'sale')
+    expect(sales.find(e => e.eventId === 'q')).toMatchObject({ disposition: 'qualifying', ordinaryIncome: 150, capitalGain: 1000 })
+    expect(sales.find(e => e.eventId === 'd')).toMatchObject({ disposition: 'disqualifying', ordinaryIncome: 650, capitalGain: 500 })
+  })
+
+  it('should feed ISO exercises into the real AMT', () => {
+    const state = w2State([{ ...iso, events: [{ id: 'ex', type: 'exercise', date: '2026-05-01', shares: 10000, pricePerShare: 21 }] }])
+    const report = generateTaxReport(state)
+    expect(report.isoAMTAdjustment).toBe(200000)
+    expect(report.amt).toBeGreaterThan(0)
+
+    const summary = summarizeEquityYear(state, 2026)
+    expect(summary.amtFromISO).toBe(report.amt - generateTaxReport(w2State([iso])).amt)
+    expect(summary.amtCreditGenerated).toBe(summary.amtFromISO)
+  })
+
+  it('should exercise ISOs up to the AMT crossover each year', () => {
+    const state = w2State([iso])
+    const plan = planISOExercises(state, { startYear: 2026, years: 2 })
+    const [first] = plan.years
+
+    expect(first.availableShares).toBe(10000)
+    expect(first.recommendedShares).toBeGreaterThan(0)
+    expect(first.recommendedShares).toBeLessThan(10000)
+    expect(first.amtIfAllExercised).toBeGreaterThan(0)
+
+    const withShares = (shares: number) => generateTaxReport(w2State([{
+      ...iso, events: [{ id: 'ex', type: 'exercise', date: '2026-05-01', shares, pricePerShare: 21 }],
+    }])).amt
+    expect(withShares(first.recommendedShares)).toBeLessThanOrEqual(1)
+    expect(withShares(first.recommendedShares + 500)).toBeGreaterThan(1)
+    expect(plan.years[1].availableShares).toBe(10000 - first.recommendedShares)
+  })
+
+  it('should track the 30-day 83(b) window', () => {
+    const founder: EquityCompensation = { ...iso, id: 'founder', grantType: 'founder_stock', grantDate: '2026-10-01' }
+    const [open] = track83bElections(w2State([founder]), new Date('2026-10-20T00:00:00Z'))
+    expect(open).toMatchObject({ trigger: 'grant', deadline: '2026-10-31', status: 'open' })
+
+    const [missed] = track83bElections(w2State([founder]), new Date('2026-11-15T00:00:00Z'))
+    expect(missed.status).toBe('missed')
+    expect(track83bElections(w2State([{ ...founder, election83bFiledDate: '2026-10-10' }]))[0].status).toBe('filed')
+  })
+})
@@ -1,4 +1,23 @@
-import type { FortunaState } from './storage'
+/**
+ * Fortuna Engine — Equity Compensation
+ *
+ *  - Portfolio summary of vested/unvested grants
+ *  - Vesting schedule generation from EquityCompensation.vestingSchedule
+ *  - Grant-level tax events: RSU vests, NSO/ISO exercises, ESPP purchases, sales
+ *  - ISO AMT against the real AMT in tax-calculator.ts
+ *  - Qualifying vs disqualifying dispositions (ISO and ESPP)
+ *  - ESPP discount / lookback treatment
+ *  - 83(b) election deadline tracking
+ *  - ISO exercise planner: shares per year before AMT kicks in
+ */
+
+import type { FortunaState, EquityCompensation, EquityEvent, IncomeStream } from './storage'
+import { generateTaxReport } from './tax-calculator'
+import { resolveTaxYear } from './tax-parameters'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
 
 export interface EquitySummary {
     totalVestedValue: number
@@ -10,16 +29,519 @@ export interface EquitySummary {
     eligibleFor83b: boolean
 }
 
+export interface VestingTranche {
+    date: string
+    shares: number
+    cumulativeShares: number
+}
+
+export type Disposition = 'qualifying' | 'disqualifying'
+
+export interface EquityTaxEvent {
+    grantId: string
+    companyName: string
+    eventId: string
+    type: EquityEvent['type']
+    date: string
+    shares: number
+    ordinaryIncome: number          // W-2 compensation
+    capitalGain: number             // Negative = loss
+    holding: 'short' | 'long' | null
+    amtAdjustment: number           // ISO bargain element held past year-end
+    disposition?: Disposition
+    costBasis?: number              // Regular-tax basis of shares sold
+    projected?: boolean             // From the vesting schedule, not a recorded event
+}
+
+export interface EquityYearSummary {
+    taxYear: number
+    events: EquityTaxEvent[]
+    ordinaryIncome: number
+    shortTermGain: number
+    longTermGain: number
+    isoAMTAdjustment: number
+    ordinaryIncomeTax: number       // Incremental tax on ordinary income
+    amtFromISO: number              // AMT attributable to ISO exercises
+    amtCreditGenerated: number      // Minimum tax credit carried to future years
+}
+
+export interface Election83bStatus {
+    grantId: string
+    companyName: string
+    trigger: 'grant' | 'early_exercise'
+    triggerDate: string
+    deadline: string
+    daysRemaining: number
+    status: 'filed' | 'open' | 'missed'
+}
+
+export interface ISOExerciseLot {
+    grantId: string
+    shares: number
+    spreadPerShare: number
+    exerciseCost: number
+}
+
+export interface ISOExerciseYear {
+    year: number
+    availableShares: number
+    recommendedShares: number
+    amtHeadroom: number             // Bargain element that can be added without triggering AMT
+    bargainElement: number
+    exerciseCost: number
+    amtIfAllExercised: number       // Extra AMT if every available share were exercised
+    lots: ISOExerciseLot[]
+}
+
+export interface ISOExercisePlan {
+    years: ISOExerciseYear[]
+    totalRecommendedShares: number
+    totalBargainElement: number
+}
+
+export interface ISOPlanOptions {
+    startYear?: number
+    years?: number                  // Default 4
+    fmv?: number                    // Assumed FMV per share; defaults to each grant's current FMV
+    grantIds?: string[]
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const ELECTION_83B_DAYS = 30
+const QUALIFYING_YEARS_FROM_GRANT = 2     // ISO grant / ESPP offering date
+const QUALIFYING_YEARS_FROM_ACQUISITION = 1
+const DEFAULT_ESPP_DISCOUNT = 0.15
+const DEFAULT_VESTING_MONTHS = 48
+const DEFAULT_CLIFF_MONTHS = 12
+const AMT_TOLERANCE = 1                   // $ of AMT treated as "not triggered"
+
+// ===================================================================
+//  DATE HELPERS
+// ===================================================================
+
+function addMonths(iso: string, months: number): Date {
+    const d = new Date(iso)
+    const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1))
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+    target.setUTCDate(Math.min(d.getUTCDate(), lastDay))
+    return target
+}
+
+function isoDate(d: Date): string {
+    return d.toISOString().slice(0, 10)
+}
+
+function yearOf(iso: string): number {
+    return new Date(iso).getUTCFullYear()
+}
+
+/** Strictly more than `years` after `from` */
+function heldMoreThan(from: string, to: string, years: number): boolean {
+    return new Date(to).getTime() > addMonths(from, years * 12).getTime()
+}
+
+// ===================================================================
+//  VESTING
+// ===================================================================
+
+export function generateVestingSchedule(grant: EquityCompensation): VestingTranche[] {
+    const start = grant.vestingStartDate || grant.grantDate
+    const total = grant.totalSharesGranted
+
+    if (grant.vestingSchedule === 'immediate') {
+        return [{ date: isoDate(new Date(start)), shares: total, cumulativeShares: total }]
+    }
+
+    const months = grant.vestingSchedule === 'custom' ? (grant.vestingMonths ?? DEFAULT_VESTING_MONTHS) : DEFAULT_VESTING_MONTHS
+    const cliff = grant.vestingSchedule === 'custom' ? (grant.cliffMonths ?? DEFAULT_CLIFF_MONTHS) : DEFAULT_CLIFF_MONTHS
+    const every = grant.vestingSchedule === 'custom' ? Math.max(1, grant.vestingFrequencyMonths ?? 1) : 1
+
+    const points: number[] = []
+    for (let m = cliff > 0 ? cliff : every; m < months; m += every) points.push(m)
+    points.push(months)
+
+    const tranches: VestingTranche[] = []
+    let prior = 0
+    for (const m of points) {
+        const cumulative = Math.floor(total * Math.min(m, months) / months)
+        if (cumulative > prior) {
+            tranches.push({ date: isoDate(addMonths(start, m)), shares: cumulative - prior, cumulativeShares: cumulative })
+            prior = cumulative
+        }
+    }
+    return tranches
+}
+
+export function vestedSharesAsOf(grant: EquityCompensation, asOf: Date): number {
+    return generateVestingSchedule(grant)
+        .filter(t => new Date(t.date).getTime() <= asOf.getTime())
+        .reduce((s, t) => s + t.shares, 0)
+}
+
+function exercisedShares(grant: EquityCompensation): number {
+    return (grant.events || []).filter(e => e.type === 'exercise').reduce((s, e) => s + e.shares, 0)
+}
+
+// ===================================================================
+//  ESPP
+// ===================================================================
+
+/** Per-share ESPP price: discount off the lower of offering and purchase FMV when a lookback applies */
+export function esppPurchasePrice(grant: EquityCompensation, purchaseFMV: number): number {
+    const discount = grant.esppDiscount ?? DEFAULT_ESPP_DISCOUNT
+    const base = grant.esppLookback !== false && grant.esppOfferingFMV !== undefined
+        ? Math.min(grant.esppOfferingFMV, purchaseFMV)
+        : purchaseFMV
+    return Math.round(base * (1 - discount) * 100) / 100
+}
+
+// ===================================================================
+//  TAX EVENTS
+// ===================================================================
+
+function findLot(grant: EquityCompensation, sale: EquityEvent): EquityEvent | undefined {
+    const events = grant.events || []
+    if (sale.lotId) return events.find(e => e.id === sale.lotId)
+    const acquisition: EquityEvent['type'][] = ['exercise', 'espp_purchase', 'vest']
+    return events
+        .filter(e => acquisition.includes(e.type) && e.date <= sale.date)
+        .sort((a, b) => b.date.localeCompare(a.date))[0]
+}
+
+/** Qualifying: more than 2 years from grant/offering and more than 1 year from exercise/purchase */
+export function classifyDisposition(grantDate: string, acquiredDate: string, saleDate: string): Disposition {
+    return heldMoreThan(grantDate, saleDate, QUALIFYING_YEARS_FROM_GRANT)
+        && heldMoreThan(acquiredDate, saleDate, QUALIFYING_YEARS_FROM_ACQUISITION)
+        ? 'qualifying'
+        : 'disqualifying'
+}
+
+function saleEvent(grant: EquityCompensation, sale: EquityEvent): EquityTaxEvent {
+    const lot = findLot(grant, sale)
+    const strike = grant.strikePrice || 0
+    const acquiredDate = lot?.date || grant.grantDate
+    const proceeds = sale.shares * sale.pricePerShare
+    const base: EquityTaxEvent = {
+        grantId: grant.id, companyName: grant.companyName, eventId: sale.id, type: 'sale', date: sale.date, shares: sale.shares,
+        ordinaryIncome: 0, capitalGain: 0, amtAdjustment: 0,
+        holding: heldMoreThan(acquiredDate, sale.date, 1) ? 'long' : 'short',
+    }
+
+    let ordinary = 0
+    let basis: number
+    let disposition: Disposition | undefined
+
+    switch (grant.grantType) {
+        case 'iso': {
+            const exerciseFMV = lot?.pricePerShare ?? strike
+            disposition = classifyDisposition(grant.grantDate, acquiredDate, sale.date)
+            if (disposition === 'disqualifying') {
+                // Ordinary income is the lesser of the bargain element and the actual gain
+                ordinary = Math.max(0, Math.min(exerciseFMV - strike, sale.pricePerShare - strike)) * sale.shares
+            }
+            basis = strike * sale.shares + ordinary
+            break
+        }
+        case 'espp': {
+            const purchaseFMV = lot?.pricePerShare ?? sale.pricePerShare
+            const paid = lot?.purchasePrice ?? esppPurchasePrice(grant, purchaseFMV)
+            disposition = classifyDisposition(grant.grantDate, acquiredDate, sale.date)
+            if (disposition === 'qualifying') {
+                // Lesser of the actual gain and the discount measured at the offering date
+                const offeringFMV = grant.esppOfferingFMV ?? purchaseFMV
+                const discount = grant.esppDiscount ?? DEFAULT_ESPP_DISCOUNT
+                ordinary = Math.max(0, Math.min(sale.pricePerShare - paid, offeringFMV * discount)) * sale.shares
+            } else {
+                // Full spread at purchase, even when sold at a loss
+                ordinary = (purchaseFMV - paid) * sale.shares
+            }
+            basis = paid * sale.shares + ordinary
+            break
+        }
+        case 'nso':
+        case 'rsu':
+        case 'founder_stock':
+        default:
+            // Compensation was recognized at exercise/vest, so basis is FMV at that event
+            basis = (lot?.pricePerShare ?? strike) * sale.shares
+            break
+    }
+
+    return {
+        ...base,
+        ordinaryIncome: Math.round(ordinary),
+        capitalGain: Math.round(proceeds - basis),
+        costBasis: Math.round(basis),
+        disposition,
+    }
+}
+
+/** Every taxable event on a grant, recorded plus projected RSU vests */
+export function buildGrantEvents(grant: EquityCompensation): EquityTaxEvent[] {
+    const strike = grant.strikePrice || 0
+    const recorded = grant.events || []
+    const out: EquityTaxEvent[] = []
+
+    for (const e of recorded) {
+        const common = {
+            grantId: grant.id, companyName: grant.companyName, eventId: e.id, type: e.type,
+            date: e.date, shares: e.shares, ordinaryIncome: 0, capitalGain: 0, holding: null, amtAdjustment: 0,
+        }
+        switch (e.type) {
+            case 'vest':
+                // RSUs and restricted stock without an 83(b) are taxed on the FMV at vest
+                if (grant.grantType === 'rsu' || (grant.grantType === 'founder_stock' && !grant.has83bElection)) {
+                    out.push({ ...common, ordinaryIncome: Math.round(e.shares * Math.max(0, e.pricePerShare - strike)) })
+                }
+                break
+            case 'exercise': {
+                const spread = Math.max(0, e.pricePerShare - strike) * e.shares
+                if (grant.grantType === 'nso') {
+                    out.push({ ...common, ordinaryIncome: Math.round(spread) })
+                } else if (grant.grantType === 'iso') {
+                    const soldSameYear = recorded
+                        .filter(s => s.type === 'sale' && s.lotId === e.id && yearOf(s.date) === yearOf(e.date))
+                        .reduce((sum, s) => sum + s.shares, 0)
+                    const held = Math.max(0, e.shares - soldSameYear)
+                    out.push({ ...common, amtAdjustment: Math.round(held * Math.max(0, e.pricePerShare - strike)) })
+                }
+                break
+            }
+            case 'espp_purchase':
+                // No tax at purchase — the discount is recognized on sale
+                out.push(common)
+                break
+            case 'sale':
+                out.push(saleEvent(grant, e))
+                break
+        }
+    }
+
+    if (grant.grantType === 'rsu' && !recorded.some(e => e.type === 'vest')) {
+        const today = isoDate(new Date())
+        for (const t of generateVestingSchedule(grant)) {
+            if (t.date < today) continue
+            out.push({
+                grantId: grant.id, companyName: grant.companyName, eventId: `vest-${t.date}`, type: 'vest',
+                date: t.date, shares: t.shares, ordinaryIncome: Math.round(t.shares * grant.currentFairMarketValue),
+                capitalGain: 0, holding: null, amtAdjustment: 0, projected: true,
+            })
+        }
+    }
+
+    return out.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** Extra total tax from adding ordinary compensation income to the return */
+export function incrementalTax(state: FortunaState, ordinaryIncome: number): number {
+    if (ordinaryIncome <= 0) return 0
+    const stream: IncomeStream = {
+        id: 'equity-compensation', name: 'Equity compensation', type: 'w2', annualAmount: ordinaryIncome, isActive: true,
+    }
+    const base = generateTaxReport(state).totalTax
+    return Math.round(generateTaxReport({ ...state, incomeStreams: [...state.incomeStreams, stream] }).totalTax - base)
+}
+
+function withoutISOExercises(state: FortunaState, taxYear: number): FortunaState {
+    return {
+        ...state,
+        equityCompensation: (state.equityCompensation || []).map(g => g.grantType !== 'iso' ? g : {
+            ...g,
+            events: (g.events || []).filter(e => !(e.type === 'exercise' && yearOf(e.date) === taxYear)),
+        }),
+    }
+}
+
+export function summarizeEquityYear(state: FortunaState, taxYear?: number): EquityYearSummary {
+    const year = taxYear ?? resolveTaxYear(state.taxYear)
+    const yearState = { ...state, taxYear: year }
+    const events = (state.equityCompensation || [])
+        .flatMap(buildGrantEvents)
+        .filter(e => yearOf(e.date) === year)
+
+    const ordinaryIncome = events.reduce((s, e) => s + e.ordinaryIncome, 0)
+    const shortTermGain = events.filter(e => e.holding === 'short').reduce((s, e) => s + e.capitalGain, 0)
+    const longTermGain = events.filter(e => e.holding === 'long').reduce((s, e) => s + e.capitalGain, 0)
+    const isoAMTAdjustment = events.reduce((s, e) => s + e.amtAdjustment, 0)
+
+    const amtWith = generateTaxReport(yearState).amt
+    const amtWithout = isoAMTAdjustment > 0 ? generateTaxReport(withoutISOExercises(yearState, year)).amt : amtWith
+    const amtFromISO = Math.max(0, amtWith - amtWithout)
+
+    return {
+        taxYear: year,
+        events,
+        ordinaryIncome,
+        shortTermGain,
+        longTermGain,
+        isoAMTAdjustment,
+        ordinaryIncomeTax: incrementalTax(yearState, ordinaryIncome),
+        amtFromISO,
+        // ISO AMT is a deferral item, so all of it becomes a credit
+        amtCreditGenerated: amtFromISO,
+    }
+}
+
+/** Add the year's minimum tax credit to Carryforwards.amtCredit */
+export function applyAMTCreditCarryforward(state: FortunaState, summary: EquityYearSummary): FortunaState {
+    return {
+        ...state,
+        carryforwards: { ...state.carryforwards, amtCredit: (state.carryforwards?.amtCredit || 0) + summary.amtCreditGenerated },
+    }
+}
+
+// ===================================================================
+//  83(b) ELECTIONS
+// ===================================================================
+
+/** 30-day 83(b) window from a restricted stock grant or an early exercise */
+export function track83bElections(state: FortunaState, asOf: Date = new Date()): Election83bStatus[] {
+    const out: Election83bStatus[] = []
+
+    for (const grant of state.equityCompensation || []) {
+        const triggers: { trigger: Election83bStatus['trigger']; date: string }[] = []
+        if (grant.grantType === 'founder_stock') triggers.push({ trigger: 'grant', date: grant.grantDate })
+        for (const e of grant.events || []) {
+            if (e.type === 'exercise' && e.earlyExercise) triggers.push({ trigger: 'early_exercise', date: e.date })
+        }
+
+        for (const t of triggers) {
+            const deadline = new Date(new Date(t.date).getTime() + ELECTION_83B_DAYS * DAY_MS)
+            const daysRemaining = Math.ceil((deadline.getTime() - asOf.getTime()) / DAY_MS)
+            const filed = grant.election83bFiledDate
+                ? grant.election83bFiledDate >= t.date && new Date(grant.election83bFiledDate).getTime() <= deadline.getTime()
+                : !!grant.has83bElection
+            out.push({
+                grantId: grant.id,
+                companyName: grant.companyName,
+                trigger: t.trigger,
+                triggerDate: t.date,
+                deadline: isoDate(deadline),
+                daysRemaining,
+                status: filed ? 'filed' : daysRemaining >= 0 ? 'open' : 'missed',
+            })
+        }
+    }
+
+    return out.sort((a, b) => a.daysRemaining - b.daysRemaining)
+}
+
+// ===================================================================
+//  ISO EXERCISE PLANNER
+// ===================================================================
+
+function amtWithBargain(state: FortunaState, year: number, bargain: number): number {
+    if (bargain <= 0) return generateTaxReport(state).amt
+    const probe: EquityCompensation = {
+        id: 'iso-probe', companyName: '', grantType: 'iso', grantDate: `${year}-01-01`, totalSharesGranted: 1,
+        vestingSchedule: 'immediate', vestedShares: 1, unvestedShares: 0, strikePrice: 0, currentFairMarketValue: bargain,
+        events: [{ id: 'iso-probe-ex', type: 'exercise', date: `${year}-06-30`, shares: 1, pricePerShare: bargain }],
+    }
+    return generateTaxReport({ ...state, equityCompensation: [...(state.equityCompensation || []), probe] }).amt
+}
+
+/** Largest ISO bargain element that adds no AMT to the year's return */
+export function isoAMTHeadroom(state: FortunaState, year: number, cap: number): number {
+    const yearState = { ...state, taxYear: year }
+    const baseline = amtWithBargain(yearState, year, 0)
+    if (amtWithBargain(yearState, year, cap) <= baseline + AMT_TOLERANCE) return cap
+
+    let lo = 0
+    let hi = cap
+    while (hi - lo > 100) {
+        const mid = (lo + hi) / 2
+        if (amtWithBargain(yearState, year, mid) <= baseline + AMT_TOLERANCE) lo = mid
+        else hi = mid
+    }
+    return Math.floor(lo)
+}
+
+/**
+ * Suggest ISO exercises year by year, filling the AMT exemption headroom
+ * with the lowest-spread shares first (most shares per dollar of preference).
+ * Assumes the current return repeats in each planned year.
+ */
+export function planISOExercises(state: FortunaState, options: ISOPlanOptions = {}): ISOExercisePlan {
+    const startYear = options.startYear ?? resolveTaxYear(state.taxYear)
+    const horizon = options.years ?? 4
+    const grants = (state.equityCompensation || []).filter(g =>
+        g.grantType === 'iso' && (!options.grantIds || options.grantIds.includes(g.id)))
+    const planned = new Map<string, number>(grants.map(g => [g.id, exercisedShares(g)]))
+    const years: ISOExerciseYear[] = []
+
+    for (let year = startYear; year < startYear + horizon; year++) {
+        const yearEnd = new Date(Date.UTC(year, 11, 31))
+        const candidates = grants
+            .filter(g => !g.expirationDate || yearOf(g.expirationDate) >= year)
+            .map(g => {
+                const fmv = options.fmv ?? g.currentFairMarketValue
+                return {
+                    grant: g,
+                    available: Math.max(0, vestedSharesAsOf(g, yearEnd) - (planned.get(g.id) || 0)),
+                    spread: Math.max(0, fmv - (g.strikePrice || 0)),
+                }
+            })
+            .filter(c => c.available > 0)
+            .sort((a, b) => a.spread - b.spread)
+
+        const availableShares = candidates.reduce((s, c) => s + c.available, 0)
+        const fullBargain = candidates.reduce((s, c) => s + c.available * c.spread, 0)
+        const headroom = fullBargain > 0 ? isoAMTHeadroom(state, year, fullBargain) : 0
+
+        const lots: ISOExerciseLot[] = []
+        let remaining = headroom
+        for (const c of candidates) {
+            const shares = c.spread > 0 ? Math.min(c.available, Math.floor(remaining / c.spread)) : c.available
+            if (shares <= 0) continue
+            remaining -= shares * c.spread
+            planned.set(c.grant.id, (planned.get(c.grant.id) || 0) + shares)
+            lots.push({
+                grantId: c.grant.id,
+                shares,
+                spreadPerShare: c.spread,
+                exerciseCost: Math.round(shares * (c.grant.strikePrice || 0)),
+            })
+        }
+
+        const yearState = { ...state, taxYear: year }
+        years.push({
+            year,
+            availableShares,
+            recommendedShares: lots.reduce((s, l) => s + l.shares, 0),
+            amtHeadroom: headroom,
+            bargainElement: Math.round(lots.reduce((s, l) => s + l.shares * l.spreadPerShare, 0)),
+            exerciseCost: lots.reduce((s, l) => s + l.exerciseCost, 0),
+            amtIfAllExercised: fullBargain > 0
+                ? amtWithBargain(yearState, year, fullBargain) - amtWithBargain(yearState, year, 0)
+                : 0,
+            lots,
+        })
+    }
+
+    return {
+        years,
+        totalRecommendedShares: years.reduce((s, y) => s + y.recommendedShares, 0),
+        totalBargainElement: years.reduce((s, y) => s + y.bargainElement, 0),
+    }
+}
+
+// ===================================================================
+//  PORTFOLIO SUMMARY
+// ===================================================================
+
 export function analyzeEquityCompensation(state: FortunaState): EquitySummary | null {
     if (!state.equityCompensation || state.equityCompensation.length === 0) return null
 
     let totalVestedValue = 0
     let totalUnvestedValue = 0
-    let estimatedTaxLiability = 0
+    let ordinaryExposure = 0
     let isoSpread = 0
     let hasUnexercisedOptions = false
     let hasExpiringOptions = false
-    let eligibleFor83b = false
 
     const currentDate = new Date()
 
@@ -29,41 +551,35 @@ export function analyzeEquityCompensation(state: FortunaState): EquitySummary |
 
         // Value = (FMV - Strike) * Shares
         const unitValue = Math.max(0, fmv - strike)
+        const unexercised = ['iso', 'nso'].includes(equity.grantType)
+            ? Math.max(0, equity.vestedShares - exercisedShares(equity))
+            : equity.vestedShares
 
         totalVestedValue += unitValue * equity.vestedShares
         totalUnvestedValue += unitValue * equity.unvestedShares
 
         // ISO Spread for AMT
         if (equity.grantType === 'iso') {
-            isoSpread += unitValue * equity.vestedShares
-            if (equity.vestedShares > 0) hasUnexercisedOptions = true
+            isoSpread += unitValue * unexercised
+            if (unexercised > 0) hasUnexercisedOptions = true
         }
 
-        // NSO Liability (Ordinary Income on exercise)
+        // NSO spread is ordinary income on exercise
         if (equity.grantType === 'nso') {
-            // Rough approximation: 35% combined tax rate for NSO exercise
-            estimatedTaxLiability += (unitValue * equity.vestedShares) * 0.35
-            if (equity.vestedShares > 0) hasUnexercisedOptions = true
+            ordinaryExposure += unitValue * unexercised
+            if (unexercised > 0) hasUnexercisedOptions = true
         }
 
         // RSUs trigger ordinary income upon vesting
         if (equity.grantType === 'rsu') {
-            // Rough approximation: 35% tax on unvested value that will vest
-            estimatedTaxLiability += (fmv * equity.unvestedShares) * 0.35
-        }
-
-        // 83(b) Election Eligibility (typically within 30 days of grant for early exercise or founder stock)
-        const grantDateObj = new Date(equity.grantDate)
-        const daysSinceGrant = (currentDate.getTime() - grantDateObj.getTime()) / (1000 * 3600 * 24)
-        if (daysSinceGrant <= 30 && !equity.has83bElection && (equity.grantType === 'founder_stock' || equity.grantType === 'iso')) {
-            eligibleFor83b = true
+            ordinaryExposure += fmv * equity.unvestedShares
         }
 
         // Expiring Options (e.g. 90 days post termination or 10-year limit)
         if (equity.expirationDate) {
             const expDateObj = new Date(equity.expirationDate)
             const daysToExpiration = (expDateObj.getTime() - currentDate.getTime()) / (1000 * 3600 * 24)
-            if (daysToExpiration > 0 && daysToExpiration <= 90 && equity.vestedShares > 0) {
+            if (daysToExpiration > 0 && daysToExpiration <= 90 && unexercised > 0) {
                 hasExpiringOptions = true
             }
         }
@@ -72,10 +588,11 @@ export function analyzeEquityCompensation(state: FortunaState): EquitySummary |
     return {
         totalVestedValue,
         totalUnvestedValue,
-        estimatedTaxLiability,
+        // Taxed through the real return rather than a flat combined rate
+        estimatedTaxLiability: incrementalTax(state, ordinaryExposure),
         isoSpread,
         hasUnexercisedOptions,
         hasExpiringOptions,
-        eligibleFor83b
+        eligibleFor83b: track83bElections(state, currentDate).some(e => e.status === 'open'),
     }
 }
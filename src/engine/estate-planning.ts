@@ -1,4 +1,5 @@
 import type { FortunaState, EstatePlan } from './storage'
+import { getTaxParameters } from './tax-parameters'
 
 export interface EstateSummary {
   totalEstimatedEstateValue: number
@@ -22,16 +23,14 @@ export interface EstateRecommendation {
   impact?: number
 }
 
-// 2024 Federal Estate Tax Exemption amounts
-const FEDERAL_EXEMPTION_2024_SINGLE = 13_610_000
-const FEDERAL_EXEMPTION_2024_MARRIED = 27_220_000
-
 export function calculateEstateSummary(state: FortunaState): EstateSummary {
   const profile = state.profile || {}
   const estatePlan: EstatePlan = state.estatePlan || { trusts: [], directives: [], lifeInsurance: [] }
   const isMarried = profile.filingStatus === 'married_joint' || profile.filingStatus === 'married_separate'
 
-  const federalExemption = isMarried ? FEDERAL_EXEMPTION_2024_MARRIED : FEDERAL_EXEMPTION_2024_SINGLE
+  // Federal exemption for the tax year (portability doubles it for married couples)
+  const exemptionPerPerson = getTaxParameters(state.taxYear).estateExemptionPerPerson
+  const federalExemption = isMarried ? exemptionPerPerson * 2 : exemptionPerPerson
 
   // 1. Calculate Total Estate Value
   let totalGrossAssets = 0
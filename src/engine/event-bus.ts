@@ -19,6 +19,7 @@ export type FortunaEventType =
   | 'state:investment_changed'
   | 'state:retirement_changed'
   | 'state:household_changed'
+  | 'state:transactions_changed'
   // Engine outputs
   | 'engine:tax_recalculated'
   | 'engine:health_score_updated'
@@ -37,6 +38,7 @@ export type FortunaEventType =
   | 'action:export_generated'
   | 'action:workspace_synced'
   | 'action:document_imported'
+  | 'action:automation_ran'
 
 export interface FortunaEvent<T = unknown> {
   type: FortunaEventType
@@ -156,7 +158,7 @@ class FortunaEventBus {
       // State changes first
       'state:income_changed', 'state:expense_changed', 'state:deduction_changed',
       'state:entity_changed', 'state:profile_changed', 'state:investment_changed',
-      'state:retirement_changed', 'state:household_changed',
+      'state:retirement_changed', 'state:household_changed', 'state:transactions_changed',
       // Then engine outputs
       'engine:tax_recalculated', 'engine:health_score_updated', 'engine:strategy_detected',
       'engine:alert_generated', 'pipeline:entity_pnl_ready', 'pipeline:credits_calculated',
@@ -228,6 +230,7 @@ export function detectStateChanges(
   if (prev.investments !== next.investments) events.push('state:investment_changed')
   if (prev.retirementAccounts !== next.retirementAccounts) events.push('state:retirement_changed')
   if (prev.household !== next.household) events.push('state:household_changed')
+  if (prev.auditHistory !== next.auditHistory) events.push('state:transactions_changed')
 
   return events
 }
@@ -80,7 +80,7 @@ interface CapGainsData {
   carryoverLoss: number
 }
 
-interface Form8949Transaction {
+export interface Form8949Transaction {
   description: string
   dateAcquired: string
   dateSold: string
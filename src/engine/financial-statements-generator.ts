@@ -115,6 +115,18 @@ export interface FinancialStatementsInput {
   newBorrowings?: number
   /** Debt principal repaid this period */
   debtRepayments?: number
+
+  // ── Prior Balances (optional, enables working-capital changes) ───
+  /** Receivables at period start */
+  priorAccountsReceivable?: number
+  /** Inventory at period start */
+  priorInventory?: number
+  /** Prepaid expenses & other current assets at period start */
+  priorPrepaidAndOther?: number
+  /** Accounts payable at period start */
+  priorAccountsPayable?: number
+  /** Accrued liabilities at period start */
+  priorAccruedLiabilities?: number
 }
 
 // ===================================================================
@@ -465,21 +477,29 @@ export function generateFinancialStatements(input: FinancialStatementsInput): Fi
   ]
 
   // Working capital adjustments (increases in assets use cash; increases in liabilities provide cash)
-  // Since we only have ending balances, we flag with a note that these are estimated
-  if (ar > 0) {
-    operatingItems.push({ label: 'Changes in Accounts Receivable', amount: 0, indent: 1, note: 'prior balance not provided; assumed unchanged' })
-  }
-  if (inventory > 0) {
-    operatingItems.push({ label: 'Changes in Inventory', amount: 0, indent: 1, note: 'prior balance not provided; assumed unchanged' })
-  }
-  if (ap > 0) {
-    operatingItems.push({ label: 'Changes in Accounts Payable', amount: 0, indent: 1, note: 'prior balance not provided; assumed unchanged' })
-  }
-  if (accrued > 0) {
-    operatingItems.push({ label: 'Changes in Accrued Liabilities', amount: 0, indent: 1, note: 'prior balance not provided; assumed unchanged' })
+  // Without a prior balance the change is unknown and flagged as assumed unchanged
+  const workingCapitalItems: { label: string; ending: number; prior?: number; sign: 1 | -1 }[] = [
+    { label: 'Changes in Accounts Receivable', ending: ar, prior: input.priorAccountsReceivable, sign: -1 },
+    { label: 'Changes in Inventory', ending: inventory, prior: input.priorInventory, sign: -1 },
+    { label: 'Changes in Prepaid Expenses', ending: prepaid, prior: input.priorPrepaidAndOther, sign: -1 },
+    { label: 'Changes in Accounts Payable', ending: ap, prior: input.priorAccountsPayable, sign: 1 },
+    { label: 'Changes in Accrued Liabilities', ending: accrued, prior: input.priorAccruedLiabilities, sign: 1 },
+  ]
+  let workingCapitalChange = 0
+  for (const wc of workingCapitalItems) {
+    if (wc.prior == null) {
+      // Prepaid changes were never estimated; keep the original line set
+      if (wc.ending > 0 && wc.label !== 'Changes in Prepaid Expenses') {
+        operatingItems.push({ label: wc.label, amount: 0, indent: 1, note: 'prior balance not provided; assumed unchanged' })
+      }
+      continue
+    }
+    const change = round(wc.sign * (wc.ending - wc.prior))
+    if (change !== 0) operatingItems.push({ label: wc.label, amount: change, indent: 1 })
+    workingCapitalChange += change
   }
 
-  const netCashFromOperations = round(netIncome + depreciation)
+  const netCashFromOperations = round(netIncome + depreciation + workingCapitalChange)
 
   // Investing section
   const capex = round(input.capitalExpenditures ?? 0)
@@ -31,6 +31,7 @@ import type {
   BankTransaction, RetirementAccount, DepreciationAsset,
 } from './storage'
 import { enrichTransaction, type EnrichedTransaction } from './fintech-enrichment'
+import { categorize, type CategorizerModel } from './categorizer'
 
 // ─── Bridge Result ────────────────────────────────────────────────────────
 
@@ -132,6 +133,7 @@ function mapSubtypeToRetirementType(subtype: AccountSubtype): string {
  */
 export function bridgeTransactions(
   transactions: FinTechTransaction[],
+  categorizer: CategorizerModel | null = null,
 ): {
   bankTransactions: BankTransaction[]
   incomeStreams: Partial<IncomeStream>[]
@@ -152,15 +154,20 @@ export function bridgeTransactions(
     // Enrich with tax intelligence
     const enriched = enrichTransaction(txn)
 
-    // Create BankTransaction
+    // Create BankTransaction — the user's learned categories outrank the static rules
+    const amount = txn.type === 'credit' ? txn.amount : -txn.amount
+    const learned = categorizer ? categorize({ description: txn.name, merchantName: txn.merchantName, amount }, categorizer) : null
     const bt: BankTransaction = {
       id: `ft_${txn.id}`,
       date: txn.date,
       description: txn.merchantName || txn.name,
-      amount: txn.type === 'credit' ? txn.amount : -txn.amount,
-      category: enriched.fortunaCategory || txn.category.primary,
+      amount,
+      category: learned && (learned.source === 'memory' || learned.source === 'model')
+        ? learned.category
+        : enriched.fortunaCategory || txn.category.primary,
       isReconciled: !txn.pending,
       accountName: txn.accountId,
+      merchantName: txn.merchantName,
     }
     bankTransactions.push(bt)
 
@@ -525,6 +532,7 @@ export function runFullBridge(data: {
   incomeVerification?: IncomeVerification
   recurringStreams?: RecurringStream[]
   kybIdentity?: KYBBusinessIdentity
+  categorizer?: CategorizerModel | null
 }): BridgeResult {
   const warnings: string[] = []
   const patch: Partial<FortunaState> = {}
@@ -545,7 +553,7 @@ export function runFullBridge(data: {
   // 2. Transactions
   let txnStats = { total: 0, income: 0, expense: 0, transfer: 0, deductible: 0, taxPayments: 0, recurring1099: 0 }
   if (data.transactions?.length) {
-    const txnBridge = bridgeTransactions(data.transactions)
+    const txnBridge = bridgeTransactions(data.transactions, data.categorizer)
     patch.bankTransactions = txnBridge.bankTransactions
     if (txnBridge.incomeStreams.length) {
       patch.incomeStreams = txnBridge.incomeStreams as IncomeStream[]
@@ -23,6 +23,9 @@ import type { FinTechAdapter, ProviderConfig, TransactionSyncResult } from './fi
 import { createAdapter } from './fintech-adapters'
 import { runFullBridge, type BridgeResult } from './fintech-bridge'
 import { enrichBatch } from './fintech-enrichment'
+import { buildCategorizer } from './categorizer'
+import { commitBankFeed } from './import-pipeline'
+import type { FortunaState, ImportRecord } from './storage'
 
 // ─── Connection Store ─────────────────────────────────────────────────────
 
@@ -195,6 +198,7 @@ export interface SyncResult {
   incomeVerification?: IncomeVerification
   recurringStreams?: RecurringStream[]
   bridge: BridgeResult
+  imported?: ImportRecord          // Set when the sync was committed against fortunaState
   enrichmentStats: {
     totalDeductible: number
     totalNonDeductible: number
@@ -216,6 +220,7 @@ export async function syncConnection(
     includeIncome?: boolean
     includeRecurring?: boolean
     transactionDays?: number
+    fortunaState?: FortunaState     // Trains the categorizer and dedups against auditHistory
   } = {},
 ): Promise<SyncResult> {
   const conn = state.connections.find(c => c.id === connectionId)
@@ -327,7 +332,7 @@ export async function syncConnection(
   // 7. Enrich transactions
   const enrichResult = enrichBatch(transactions)
 
-  // 8. Bridge to FortunaState
+  // 8. Bridge to FortunaState — the user's learned categories outrank the static rules
   const bridge = runFullBridge({
     accounts,
     transactions,
@@ -336,8 +341,20 @@ export async function syncConnection(
     liabilities,
     incomeVerification,
     recurringStreams,
+    categorizer: options.fortunaState ? buildCategorizer(options.fortunaState) : null,
   })
 
+  // 9. Stage → dedup → commit, so a re-sync never adds a row twice
+  let imported: ImportRecord | undefined
+  if (options.fortunaState && transactions.length > 0) {
+    const feed = commitBankFeed(options.fortunaState, transactions, { label: conn.institutionName || connectionId, now })
+    const patch = bridge.patch as Partial<FortunaState> & { bankTransactions?: unknown }
+    delete patch.bankTransactions
+    patch.auditHistory = feed.state.auditHistory
+    patch.imports = feed.state.imports
+    imported = feed.record
+  }
+
   // Update sync timestamp
   state.lastSyncAt[connectionId] = now.toISOString()
   conn.lastSuccessfulSync = now.toISOString()
@@ -354,6 +371,7 @@ export async function syncConnection(
     incomeVerification,
     recurringStreams,
     bridge,
+    imported,
     enrichmentStats: {
       totalDeductible: enrichResult.stats.totalDeductible,
       totalNonDeductible: enrichResult.stats.totalNonDeductible,
@@ -371,6 +389,7 @@ export async function syncConnection(
 export async function syncAllConnections(options?: {
   includeInvestments?: boolean
   includeLiabilities?: boolean
+  fortunaState?: FortunaState
 }): Promise<SyncResult[]> {
   const results: SyncResult[] = []
   for (const conn of state.connections) {
@@ -173,6 +173,7 @@ interface NameRule {
 const MERCHANT_RULES: NameRule[] = [
   // ── Tax Payments ──────────────────────────────────────────────────────
   { name: 'irs_payment', pattern: /\birs\b|internal revenue|eftps|us treasury.*tax/i, result: { fortunaCategory: 'tax_payment', isDeductible: false, deductionPct: 0, isTaxPayment: true, taxPaymentType: 'estimated_federal' } },
+  { name: 'sales_tax', pattern: /sales\s*(&|and)?\s*(use\s*)?tax|cdtfa|board of equalization/i, result: { fortunaCategory: 'tax_payment', isDeductible: false, deductionPct: 0, isTaxPayment: true, taxPaymentType: 'sales_tax' } },
   { name: 'state_tax', pattern: /state.*tax|franchise tax|dept.*revenue|comptroller/i, result: { fortunaCategory: 'tax_payment', isDeductible: true, deductionPct: 100, isTaxPayment: true, taxPaymentType: 'estimated_state', scheduleRef: 'Schedule A Line 5a' } },
   { name: 'property_tax', pattern: /property.*tax|county.*tax|real estate.*tax/i, result: { fortunaCategory: 'tax_payment', isDeductible: true, deductionPct: 100, isTaxPayment: true, taxPaymentType: 'property_tax', scheduleRef: 'Schedule A Line 5b' } },
 
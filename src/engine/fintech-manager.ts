@@ -23,6 +23,8 @@ import type { FinTechAdapter, TransactionSyncResult, ProviderConfig } from './fi
 import { createAdapter } from './fintech-adapters'
 import { enrichBatch, type EnrichedTransaction } from './fintech-enrichment'
 import { runFullBridge, type BridgeResult } from './fintech-bridge'
+import { buildCategorizer } from './categorizer'
+import { commitBankFeed } from './import-pipeline'
 import type { FortunaState } from './storage'
 
 // ─── Connection Store ─────────────────────────────────────────────────────
@@ -71,17 +73,20 @@ export class FinTechConnectionManager {
   private syncTimers: Map<string, NodeJS.Timeout> = new Map()
   private onStateChange?: (state: ConnectionManagerState) => void
   private onFortunaUpdate?: (patch: Partial<FortunaState>) => void
+  private getFortunaState?: () => FortunaState
 
   constructor(
     initialState?: Partial<ConnectionManagerState>,
     callbacks?: {
       onStateChange?: (state: ConnectionManagerState) => void
       onFortunaUpdate?: (patch: Partial<FortunaState>) => void
+      getFortunaState?: () => FortunaState   // Current state, for the categorizer and dedup
     },
   ) {
     this.state = { ...DEFAULT_MANAGER_STATE, ...initialState }
     this.onStateChange = callbacks?.onStateChange
     this.onFortunaUpdate = callbacks?.onFortunaUpdate
+    this.getFortunaState = callbacks?.getFortunaState
 
     // Initialize adapters for configured providers
     for (const [provider, config] of Object.entries(this.state.providerConfigs)) {
@@ -289,7 +294,8 @@ export class FinTechConnectionManager {
       const allTxns = [...txnResult.added, ...txnResult.modified]
       const enriched = allTxns.length > 0 ? enrichBatch(allTxns) : { enrichedTransactions: [], stats: null }
 
-      // 6. Bridge to FortunaState
+      // 6. Bridge to FortunaState — the user's learned categories outrank the static rules
+      const fortuna = this.getFortunaState?.()
       const bridgeResult = runFullBridge({
         accounts: record.accounts,
         transactions: allTxns,
@@ -298,9 +304,19 @@ export class FinTechConnectionManager {
           securities: investments.securities,
         } : undefined,
         liabilities,
+        categorizer: fortuna ? buildCategorizer(fortuna) : null,
       })
 
-      // 7. Emit FortunaState update
+      // 7. Stage → dedup → commit, so a re-sync never adds a row twice
+      if (fortuna && allTxns.length > 0) {
+        const feed = commitBankFeed(fortuna, allTxns, { label: record.connection.institutionName })
+        const patch = bridgeResult.patch as Partial<FortunaState> & { bankTransactions?: unknown }
+        delete patch.bankTransactions
+        patch.auditHistory = feed.state.auditHistory
+        patch.imports = feed.state.imports
+      }
+
+      // 8. Emit FortunaState update
       if (this.onFortunaUpdate && bridgeResult.patch) {
         this.onFortunaUpdate(bridgeResult.patch)
       }
@@ -0,0 +1,217 @@
+/**
+ * Fortuna Engine — Foreign Income (Forms 2555 / 1116)
+ *
+ *   - Form 2555: foreign earned income exclusion, prorated by qualifying
+ *     days, plus the foreign housing exclusion (wages) or deduction
+ *     (self-employment)
+ *   - Form 1116: foreign tax credit per category (general, passive),
+ *     limited to the US tax on that category's share of income, with
+ *     taxes on excluded income disallowed
+ *
+ * Inputs are income streams tagged with `foreignSource` and the profile's
+ * `foreignResidence`. Foreign taxes are translated at the yearly average
+ * rate (§986(a)). The US tax is computed by tax-calculator and passed in;
+ * SE tax is still owed on excluded earnings.
+ */
+
+import type { FortunaState, ForeignResidence, ForeignSource, IncomeStream } from './storage'
+import { getTaxParameters } from './tax-parameters'
+import { yearlyAverageRate } from './currency'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface ForeignEarnedIncomeExclusion {
+  country: string
+  test: ForeignResidence['test']
+  qualifyingDays: number
+  daysInYear: number
+  foreignEarnedIncome: number  // Foreign wages + net self-employment earnings
+  exclusionLimit: number       // §911 maximum prorated by qualifying days
+  incomeExclusion: number
+  housingAmount: number        // Housing expenses over the base, up to the cap
+  housingExclusion: number     // Share attributable to wages
+  housingDeduction: number     // Self-employed share; deducted instead of excluded
+  totalExclusion: number       // incomeExclusion + housingExclusion
+}
+
+export interface ForeignTaxCreditCategory {
+  category: ForeignSource['category']
+  foreignIncome: number        // Foreign-source income, net of the excluded share
+  foreignTaxes: number         // Creditable taxes, USD
+  limitation: number           // US tax × foreign income ÷ worldwide income
+  credit: number
+  excess: number               // Carries back 1 year / forward 10
+}
+
+export interface ForeignTaxCredit {
+  categories: ForeignTaxCreditCategory[]
+  totalForeignTaxes: number
+  totalCredit: number
+  excess: number
+  warnings: string[]           // Taxes left out of the credit, e.g. no rate to translate them
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const HOUSING_BASE_PCT = 0.16  // Housing base: 16% of the exclusion limit
+const HOUSING_CAP_PCT = 0.30   // Housing expenses counted up to 30% of the limit
+const EARNED_TYPES: IncomeStream['type'][] = ['w2', 'business', 'freelance']
+
+function daysInYear(year: number): number {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365
+}
+
+const round = (n: number) => Math.round(n * 100) / 100
+
+// ===================================================================
+//  FOREIGN EARNED INCOME
+// ===================================================================
+
+/**
+ * Foreign earned income per stream. Self-employment streams are netted by
+ * their entity's deductible expenses, pro rata to the entity's revenue.
+ */
+function foreignEarnedByStream(state: FortunaState): Map<string, number> {
+  const earned = new Map<string, number>()
+  const active = state.incomeStreams.filter(s => s.isActive)
+  for (const s of active) {
+    if (!s.foreignSource || !EARNED_TYPES.includes(s.type) || s.annualAmount <= 0) continue
+    if (s.type === 'w2') {
+      earned.set(s.id, s.annualAmount)
+      continue
+    }
+    const eid = s.entityId || 'personal'
+    const revenue = active
+      .filter(o => (o.entityId || 'personal') === eid && ['business', 'freelance'].includes(o.type))
+      .reduce((sum, o) => sum + o.annualAmount, 0)
+    const expenses = state.expenses
+      .filter(e => e.isDeductible && (e.entityId || 'personal') === eid)
+      .reduce((sum, e) => sum + e.annualAmount * e.deductionPct / 100, 0)
+    const netShare = revenue > 0 ? Math.max(0, revenue - expenses) / revenue : 0
+    earned.set(s.id, s.annualAmount * netShare)
+  }
+  return earned
+}
+
+/** Form 2555 — null when the profile has no foreign tax home or no foreign earnings */
+export function foreignEarnedIncomeExclusion(state: FortunaState, taxYear: number): ForeignEarnedIncomeExclusion | null {
+  const residence = state.profile.foreignResidence
+  if (!residence) return null
+  const byStream = foreignEarnedByStream(state)
+  const foreignEarnedIncome = [...byStream.values()].reduce((s, v) => s + v, 0)
+  if (foreignEarnedIncome <= 0) return null
+
+  const yearDays = daysInYear(taxYear)
+  const qualifyingDays = Math.max(0, Math.min(yearDays, Math.round(residence.qualifyingDays)))
+  const fullLimit = getTaxParameters(taxYear).foreignEarnedIncomeExclusion
+  const dayFraction = qualifyingDays / yearDays
+  const exclusionLimit = round(fullLimit * dayFraction)
+
+  const housingAmount = round(Math.max(0,
+    Math.min(residence.housingExpenses || 0, fullLimit * HOUSING_CAP_PCT * dayFraction)
+    - fullLimit * HOUSING_BASE_PCT * dayFraction))
+  const wages = state.incomeStreams
+    .filter(s => s.type === 'w2' && byStream.has(s.id))
+    .reduce((sum, s) => sum + byStream.get(s.id)!, 0)
+  const housingExclusion = round(Math.min(housingAmount * wages / foreignEarnedIncome, wages))
+
+  const incomeExclusion = round(Math.min(exclusionLimit, foreignEarnedIncome - housingExclusion))
+  const housingDeduction = round(Math.max(0, Math.min(
+    housingAmount - housingExclusion,
+    foreignEarnedIncome - incomeExclusion - housingExclusion,
+  )))
+
+  return {
+    country: residence.country,
+    test: residence.test,
+    qualifyingDays,
+    daysInYear: yearDays,
+    foreignEarnedIncome: round(foreignEarnedIncome),
+    exclusionLimit,
+    incomeExclusion,
+    housingAmount,
+    housingExclusion,
+    housingDeduction,
+    totalExclusion: round(incomeExclusion + housingExclusion),
+  }
+}
+
+// ===================================================================
+//  FOREIGN TAX CREDIT
+// ===================================================================
+
+/**
+ * Foreign tax on a stream in USD, at the yearly average (or the stream's own
+ * rate). Null when neither rate exists, so the caller can say so.
+ */
+function foreignTaxUsd(state: FortunaState, stream: IncomeStream, taxYear: number): number | null {
+  const taxPaid = stream.foreignSource?.taxPaid || 0
+  if (taxPaid <= 0) return 0
+  if (!stream.currency || stream.currency.toUpperCase() === 'USD') return taxPaid
+  const rate = yearlyAverageRate(state, stream.currency, taxYear) ?? stream.fx?.rate
+  return rate ? taxPaid / rate : null
+}
+
+/**
+ * Form 1116 — null when no stream carries foreign-source income.
+ * `usTax` is regular tax before credits; `worldwideIncome` is AGI (after
+ * the exclusion), so deductions are apportioned ratably.
+ */
+export function foreignTaxCredit(
+  state: FortunaState,
+  taxYear: number,
+  usTax: number,
+  worldwideIncome: number,
+  exclusion?: ForeignEarnedIncomeExclusion | null,
+): ForeignTaxCredit | null {
+  const streams = state.incomeStreams.filter(s => s.isActive && s.foreignSource && s.annualAmount > 0)
+  if (streams.length === 0) return null
+
+  const earned = foreignEarnedByStream(state)
+  // Share of foreign earned income excluded on Form 2555; taxes on it are not creditable
+  const excludedShare = exclusion && exclusion.foreignEarnedIncome > 0
+    ? Math.min(1, exclusion.totalExclusion / exclusion.foreignEarnedIncome)
+    : 0
+
+  const warnings: string[] = []
+  const totals = new Map<ForeignSource['category'], { income: number; taxes: number }>()
+  for (const s of streams) {
+    const streamIncome = earned.get(s.id) ?? s.annualAmount
+    const excluded = earned.has(s.id) ? excludedShare : 0
+    const taxUsd = foreignTaxUsd(state, s, taxYear)
+    if (taxUsd === null) {
+      warnings.push(`${s.name}: no ${s.currency!.toUpperCase()} rate for ${taxYear} — enter the yearly average rate to credit its ${s.foreignSource!.taxPaid} ${s.currency!.toUpperCase()} of foreign tax`)
+    }
+    const bucket = totals.get(s.foreignSource!.category) ?? { income: 0, taxes: 0 }
+    bucket.income += streamIncome * (1 - excluded)
+    bucket.taxes += (taxUsd ?? 0) * (1 - excluded)
+    totals.set(s.foreignSource!.category, bucket)
+  }
+
+  const categories: ForeignTaxCreditCategory[] = [...totals.entries()].map(([category, t]) => {
+    const fraction = worldwideIncome > 0 ? Math.min(1, Math.max(0, t.income) / worldwideIncome) : 0
+    const limitation = round(Math.max(0, usTax) * fraction)
+    const foreignTaxes = round(t.taxes)
+    const credit = Math.min(foreignTaxes, limitation)
+    return {
+      category,
+      foreignIncome: round(t.income),
+      foreignTaxes,
+      limitation,
+      credit,
+      excess: round(foreignTaxes - credit),
+    }
+  })
+
+  return {
+    categories,
+    totalForeignTaxes: round(categories.reduce((s, c) => s + c.foreignTaxes, 0)),
+    totalCredit: round(categories.reduce((s, c) => s + c.credit, 0)),
+    excess: round(categories.reduce((s, c) => s + c.excess, 0)),
+    warnings,
+  }
+}
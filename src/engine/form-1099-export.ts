@@ -0,0 +1,314 @@
+/**
+ * Fortuna Engine — 1099 Filing Export
+ *
+ * Turns Form1099Filing rows (accounts-payable) into:
+ *   - An IRS FIRE transmission file in the Publication 1220 fixed-width
+ *     layout: T, then A / B… / C per return type, then F. Every record is
+ *     750 positions, the last two being CR/LF.
+ *   - Recipient Copy B statements as PDFs (substitute forms per Pub 1179)
+ *
+ * Name controls are left blank (optional; the IRS derives them). Amounts
+ * are whole cents, right-justified and zero-filled.
+ */
+
+import type { PostalAddress, Form1099Box } from './storage'
+import {
+  FORM_1099_BOXES, normalizeTin, maskTin, formatTin, type Form1099Filing,
+} from './accounts-payable'
+import { buildPdf, PAGE_HEIGHT, type PdfPage, type PdfText, type PdfRect } from './pdf-text'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface FirePayer {
+  name: string
+  tin: string                  // EIN
+  address: PostalAddress
+  phone?: string
+}
+
+export interface FireTransmitter {
+  name: string
+  tin: string
+  tcc: string                  // Transmitter Control Code assigned by the IRS
+  address: PostalAddress
+  contactName: string
+  contactPhone: string
+  contactEmail: string
+}
+
+export interface FireOptions {
+  year: number
+  payer: FirePayer
+  transmitter: FireTransmitter
+  test?: boolean               // Sets the test-file indicator for the FIRE test system
+  lastFiling?: boolean         // Payer won't file information returns again
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const RECORD_LENGTH = 750
+
+/** Type of Return code (A record) per form */
+const RETURN_TYPE: Record<Form1099Filing['form'], string> = { NEC: 'NE', MISC: 'A' }
+
+/** Payment amount code per box; code 4 is federal income tax withheld on both forms */
+const AMOUNT_CODE: Record<Form1099Box, string> = {
+  nec1: '1', misc1: '1', misc2: '2', misc3: '3', misc6: '6', misc10: 'C',
+}
+const WITHHOLDING_CODE = '4'
+const AMOUNT_CODES = '123456789ABCDEFGHJ'
+
+// B record: Payment Amount 1 starts at 55; C record: Control Total 1 starts at 16
+const B_AMOUNT_START = 55
+const C_TOTAL_START = 16
+
+// ===================================================================
+//  FIELD FORMATTING
+// ===================================================================
+
+/** Fixed-width record builder using 1-based positions from Pub 1220 */
+class FireRecord {
+  private chars = Array<string>(RECORD_LENGTH - 2).fill(' ')
+
+  set(position: number, width: number, value: string): this {
+    const text = value.slice(0, width).padEnd(width, ' ')
+    for (let i = 0; i < width; i++) this.chars[position - 1 + i] = text[i]
+    return this
+  }
+
+  alpha(position: number, width: number, value: string | undefined): this {
+    return this.set(position, width, (value || '').toUpperCase().replace(/[^A-Z0-9 &\-.,/#']/g, ' ').replace(/\s+/g, ' ').trim())
+  }
+
+  digits(position: number, width: number, value: number | string): this {
+    return this.set(position, width, String(value).replace(/\D/g, '').padStart(width, '0').slice(-width))
+  }
+
+  toString(): string {
+    return `${this.chars.join('')}\r\n`
+  }
+}
+
+function cents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+function zip(address?: PostalAddress): string {
+  return (address?.zip || '').replace(/\D/g, '').slice(0, 9)
+}
+
+function phone(value?: string): string {
+  return (value || '').replace(/\D/g, '').slice(0, 15)
+}
+
+/** Amount codes used by a set of filings, in Pub 1220 order */
+function amountCodes(filings: Form1099Filing[]): string[] {
+  const used = new Set<string>()
+  for (const f of filings) {
+    for (const box of Object.keys(f.amounts) as Form1099Box[]) used.add(AMOUNT_CODE[box])
+    if (f.federalWithholding > 0) used.add(WITHHOLDING_CODE)
+  }
+  return [...AMOUNT_CODES].filter(c => used.has(c))
+}
+
+function filingAmounts(filing: Form1099Filing): Map<string, number> {
+  const amounts = new Map<string, number>()
+  for (const [box, amount] of Object.entries(filing.amounts) as [Form1099Box, number][]) {
+    amounts.set(AMOUNT_CODE[box], (amounts.get(AMOUNT_CODE[box]) || 0) + cents(amount))
+  }
+  if (filing.federalWithholding > 0) amounts.set(WITHHOLDING_CODE, cents(filing.federalWithholding))
+  return amounts
+}
+
+// ===================================================================
+//  VALIDATION
+// ===================================================================
+
+/** Problems that would make FIRE reject the file; empty when it's ready to transmit */
+export function fireFileIssues(filings: Form1099Filing[], options: FireOptions): string[] {
+  const issues: string[] = []
+  if (filings.length === 0) issues.push('No returns to file')
+  if (!/^[A-Z0-9]{5}$/i.test(options.transmitter.tcc)) issues.push('Transmitter Control Code must be 5 characters')
+  if (!normalizeTin(options.transmitter.tin)) issues.push('Transmitter TIN is missing or invalid')
+  if (!normalizeTin(options.payer.tin)) issues.push('Payer EIN is missing or invalid')
+  if (!options.payer.address.street || zip(options.payer.address).length < 5) issues.push('Payer address is incomplete')
+  if (!options.transmitter.contactName || !options.transmitter.contactEmail) issues.push('Transmitter contact is incomplete')
+  for (const f of filings) {
+    if (!normalizeTin(f.vendor.tin)) issues.push(`${f.vendor.name}: missing or invalid TIN`)
+    if (!f.vendor.address?.street || zip(f.vendor.address).length < 5) issues.push(`${f.vendor.name}: incomplete address`)
+  }
+  return [...new Set(issues)]
+}
+
+// ===================================================================
+//  FIRE FILE
+// ===================================================================
+
+/**
+ * Publication 1220 transmission for one payer. NEC and MISC returns go
+ * under separate A records, each closed by its C record with control totals.
+ */
+export function generateFireFile(filings: Form1099Filing[], options: FireOptions): string {
+  const { year, payer, transmitter } = options
+  const groups = (['NEC', 'MISC'] as const)
+    .map(form => ({ form, rows: filings.filter(f => f.form === form) }))
+    .filter(g => g.rows.length > 0)
+
+  let sequence = 0
+  const records: FireRecord[] = []
+  const add = (record: FireRecord) => {
+    record.digits(500, 8, ++sequence)
+    records.push(record)
+  }
+
+  // T — transmitter
+  add(new FireRecord()
+    .set(1, 1, 'T')
+    .digits(2, 4, year)
+    .digits(7, 9, transmitter.tin)
+    .set(16, 5, transmitter.tcc.toUpperCase())
+    .set(28, 1, options.test ? 'T' : ' ')
+    .alpha(30, 40, transmitter.name)
+    .alpha(110, 40, transmitter.name)
+    .alpha(190, 40, transmitter.address.street)
+    .alpha(230, 40, transmitter.address.city)
+    .alpha(270, 2, transmitter.address.state)
+    .set(272, 9, zip(transmitter.address))
+    .digits(296, 8, filings.length)
+    .alpha(304, 40, transmitter.contactName)
+    .set(344, 15, phone(transmitter.contactPhone))
+    .set(359, 50, transmitter.contactEmail)
+    .set(518, 1, 'I'))             // In-house software; vendor fields stay blank
+
+  for (const group of groups) {
+    const codes = amountCodes(group.rows)
+
+    // A — payer
+    add(new FireRecord()
+      .set(1, 1, 'A')
+      .digits(2, 4, year)
+      .digits(12, 9, payer.tin)
+      .set(25, 1, options.lastFiling ? '1' : ' ')
+      .set(26, 2, RETURN_TYPE[group.form])
+      .set(28, 18, codes.join(''))
+      .alpha(53, 40, payer.name)
+      .set(133, 1, '0')
+      .alpha(134, 40, payer.address.street)
+      .alpha(174, 40, payer.address.city)
+      .alpha(214, 2, payer.address.state)
+      .set(216, 9, zip(payer.address))
+      .set(225, 15, phone(payer.phone)))
+
+    // B — one per payee
+    const totals = new Map<string, number>()
+    for (const filing of group.rows) {
+      const v = filing.vendor
+      const record = new FireRecord()
+        .set(1, 1, 'B')
+        .digits(2, 4, year)
+        .set(11, 1, v.tinType === 'ein' ? '1' : v.tinType === 'ssn' ? '2' : ' ')
+        .set(12, 9, normalizeTin(v.tin) ?? '')
+        .alpha(21, 20, v.id.replace(/[^a-z0-9]/gi, '').slice(-20))
+        .alpha(288, 40, v.name)
+        .alpha(328, 40, v.businessName)
+        .alpha(368, 40, v.address?.street)
+        .alpha(448, 40, v.address?.city)
+        .alpha(488, 2, v.address?.state)
+        .set(490, 9, zip(v.address))
+      for (const code of AMOUNT_CODES) record.digits(B_AMOUNT_START + AMOUNT_CODES.indexOf(code) * 12, 12, 0)
+      for (const [code, amount] of filingAmounts(filing)) {
+        record.digits(B_AMOUNT_START + AMOUNT_CODES.indexOf(code) * 12, 12, amount)
+        totals.set(code, (totals.get(code) || 0) + amount)
+      }
+      add(record)
+    }
+
+    // C — end of payer, control totals for every amount field
+    const end = new FireRecord()
+      .set(1, 1, 'C')
+      .digits(2, 8, group.rows.length)
+    for (const code of AMOUNT_CODES) end.digits(C_TOTAL_START + AMOUNT_CODES.indexOf(code) * 18, 18, totals.get(code) || 0)
+    add(end)
+  }
+
+  // F — end of transmission
+  add(new FireRecord()
+    .set(1, 1, 'F')
+    .digits(2, 8, groups.length)
+    .digits(10, 21, 0)
+    .digits(50, 8, filings.length))
+
+  return records.join('')
+}
+
+// ===================================================================
+//  RECIPIENT COPIES
+// ===================================================================
+
+function money(n: number): string {
+  return `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function addressLines(address?: PostalAddress): string[] {
+  if (!address) return []
+  return [address.street, `${address.city}, ${address.state} ${address.zip}`].filter(l => l.trim() && l.trim() !== ',')
+}
+
+/** Copy B page for one filing */
+function recipientPage(filing: Form1099Filing, payer: FirePayer, year: number): PdfPage {
+  const v = filing.vendor
+  const texts: PdfText[] = []
+  const rects: PdfRect[] = []
+  const top = PAGE_HEIGHT - 60
+  const text = (x: number, y: number, value: string, size = 9, bold = false) => texts.push({ x, y, text: value, size, bold })
+
+  text(40, top, `Form 1099-${filing.form}`, 16, true)
+  text(200, top, filing.form === 'NEC' ? 'Nonemployee Compensation' : 'Miscellaneous Information', 12, true)
+  text(470, top, `Tax year ${year}`, 12, true)
+  text(40, top - 18, 'Copy B - For Recipient (substitute statement)', 9)
+
+  // Left column: payer and recipient
+  rects.push({ x: 40, y: top - 130, width: 260, height: 100 })
+  text(46, top - 44, "PAYER'S name, address and telephone", 7, true)
+  const payerLines = [payer.name, ...addressLines(payer.address), payer.phone ?? ''].filter(Boolean)
+  payerLines.forEach((line, i) => text(46, top - 58 - i * 12, line))
+
+  rects.push({ x: 40, y: top - 170, width: 130, height: 36 })
+  text(46, top - 146, "PAYER'S TIN", 7, true)
+  text(46, top - 160, formatTin(normalizeTin(payer.tin) ?? payer.tin, 'ein'))
+  rects.push({ x: 170, y: top - 170, width: 130, height: 36 })
+  text(176, top - 146, "RECIPIENT'S TIN", 7, true)
+  text(176, top - 160, v.tin ? maskTin(v.tin, v.tinType) : '')
+
+  rects.push({ x: 40, y: top - 260, width: 260, height: 86 })
+  text(46, top - 186, "RECIPIENT'S name and address", 7, true)
+  const recipientLines = [v.name, v.businessName ?? '', ...addressLines(v.address)].filter(Boolean)
+  recipientLines.forEach((line, i) => text(46, top - 200 - i * 12, line))
+  text(46, top - 254, `Account number: ${v.id}`, 7)
+
+  // Right column: amount boxes
+  const boxes: [string, number][] = (Object.entries(filing.amounts) as [Form1099Box, number][])
+    .map(([box, amount]) => [`${FORM_1099_BOXES[box].box}  ${FORM_1099_BOXES[box].label}`, amount])
+  boxes.push(['4  Federal income tax withheld', filing.federalWithholding])
+  boxes.forEach(([label, amount], i) => {
+    const y = top - 76 - i * 44
+    rects.push({ x: 320, y, width: 250, height: 40 })
+    text(326, y + 28, label, 7, true)
+    text(326, y + 10, money(amount), 11)
+  })
+
+  text(40, top - 300, 'This is important tax information and is being furnished to the IRS. If you are required to file a', 8)
+  text(40, top - 311, 'return, a negligence penalty or other sanction may be imposed on you if this income is taxable and', 8)
+  text(40, top - 322, 'the IRS determines that it has not been reported.', 8)
+
+  return { texts, rects }
+}
+
+/** Recipient copies, one page per filing */
+export function recipientCopiesPdf(filings: Form1099Filing[], payer: FirePayer, year: number): Uint8Array<ArrayBuffer> {
+  return buildPdf(filings.map(f => recipientPage(f, payer, year)), `${year} Form 1099 recipient copies`)
+}
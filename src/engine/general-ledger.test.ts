@@ -0,0 +1,188 @@
+/**
+ * General Ledger — Test Suite
+ * Validates: journal generation, balanced entries, trial balance, ledger-backed statements, period close and locks
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import {
+  generateJournal, isBalancedEntry, trialBalance, ledgerStatementsInput, ledgerFinancialStatements, payrollJournalEntry,
+  postJournalEntry, deleteJournalEntry, closePeriod, reopenPeriod, enforcePeriodLocks,
+} from './general-ledger'
+import { generateLedgerPnL } from './pnl-engine'
+
+describe('general ledger', () => {
+  const now = new Date('2026-01-15T12:00:00Z')
+  const tx = (id: string, date: string, description: string, amount: number, category: string, entityId = 'llc-1', accountName = 'Biz Checking'): FortunaState['auditHistory'][number] =>
+    ({ id, date, description, amount, category, isReconciled: false, accountName, entityId })
+  const base = (): FortunaState => ({
+    ...createDefaultState(),
+    taxYear: 2025,
+    entities: [{ id: 'llc-1', name: 'Acme LLC', type: 'llc', state: 'CA', annualCost: 800, isActive: true }],
+    auditHistory: [
+      tx('t1', '2025-01-10', 'Stripe payout', 12000, 'business_income'),
+      tx('t2', '2025-02-01', 'Adobe', -600, 'software'),
+      tx('t3', '2025-03-15', 'Google Ads', -1400, 'advertising'),
+      tx('t4', '2025-04-01', 'Groceries', -200, 'personal'),
+      tx('t5', '2025-05-01', 'Owner deposit', 3000, 'equity'),
+      tx('t6', '2024-11-20', 'Stripe payout', 4000, 'business_income'),
+      tx('t7', '2025-06-01', 'Coffee', -8, 'meals', 'personal', 'Personal Visa'),
+    ],
+    receipts: [
+      { id: 'r1', merchantName: 'Adobe', date: '2025-02-02', totalAmount: 600, items: [], status: 'allocated', entityId: 'llc-1' },
+      { id: 'r2', merchantName: 'Staples', date: '2025-07-01', totalAmount: 150, status: 'allocated', entityId: 'llc-1',
+        items: [{ id: 'i1', description: 'Paper', amount: 150, quantity: 1, inferredCategory: 'office_supplies', confidenceScore: 0.9, allocatedEntityId: 'llc-1' }] },
+    ],
+    depreciationAssets: [
+      { id: 'a1', name: 'Laptop', category: 'computer', purchaseDate: '2024-07-01', purchasePrice: 5000, method: 'straight_line', usefulLifeYears: 5, businessUsePct: 100, isActive: true, entityId: 'llc-1' },
+    ],
+  })
+
+  it('derives balanced entries from transactions, receipts and depreciation', () => {
+    const state = base()
+    const journal = generateJournal(state, { entityId: 'llc-1' })
+    expect(journal.every(isBalancedEntry)).toBe(true)
+
+    const line = (id: string) => journal.find(e => e.id === id)!.lines
+    expect(line('je_txn_t1')).toEqual([
+      { accountId: 'cash:Biz Checking', debit: 12000, credit: 0 },
+      { accountId: '4000', debit: 0, credit: 12000 },
+    ])
+    expect(line('je_txn_t2')[0]).toMatchObject({ accountId: '6400', debit: 600 })
+    expect(line('je_txn_t3')[0]).toMatchObject({ accountId: '6200', debit: 1400 })
+    // Personal spending from the business register is an owner draw
+    expect(line('je_txn_t4')[0]).toMatchObject({ accountId: '3100', debit: 200 })
+    expect(line('je_txn_t5')[1]).toMatchObject({ accountId: '3000', credit: 3000 })
+
+    // r1 matches the Adobe charge; r2 was paid personally
+    expect(journal.some(e => e.sourceId === 'r1')).toBe(false)
+    expect(line('je_rcpt_r2_llc-1')).toEqual([
+      { accountId: '6900', debit: 150, credit: 0 },
+      { accountId: '3000', debit: 0, credit: 150 },
+    ])
+
+    // Laptop: contributed, then $1,000/yr straight-line
+    expect(journal.filter(e => e.source === 'depreciation').map(e => e.id)).toEqual(['je_acq_a1', 'je_dep_a1_2024', 'je_dep_a1_2025'])
+
+    const card = generateJournal(state, { entityId: 'personal' })[0]
+    expect(card.lines[1]).toMatchObject({ accountId: 'card:Personal Visa', credit: 8 })
+
+    const tb = trialBalance(state, 'llc-1', '2025-12-31')
+    expect(tb.isBalanced).toBe(true)
+    expect(tb.totalDebits).toBeGreaterThan(0)
+    expect(tb.rows.find(r => r.account.id === '1590')?.credit).toBe(2000)
+  })
+
+  it('produces four statements that tie out, with reconciled opening cash', () => {
+    const state: FortunaState = {
+      ...base(),
+      reconciliations: [{
+        id: 'rec-1', accountName: 'Biz Checking', periodStart: '2025-01-01', periodEnd: '2025-01-31',
+        beginningBalance: 9000, endingBalance: 21000, clearedIds: ['t1'], status: 'reconciled', source: 'manual', createdAt: now.toISOString(),
+      }],
+    }
+    const input = ledgerStatementsInput(state, 'llc-1', '2025-01-01', '2025-12-31')
+    expect(input).toMatchObject({
+      businessName: 'Acme LLC',
+      primaryRevenue: 12000,
+      technologyExpenses: 600,
+      marketingExpenses: 1400,
+      otherOperatingExpenses: 150,
+      depreciationExpense: 1000,
+      incomeTaxExpense: 0,
+      beginningCash: 9000,
+      endingCash: 9000 + 12000 - 600 - 1400 - 200 + 3000,
+      fixedAssetsGross: 5000,
+      accumulatedDepreciation: 2000,
+      capitalContributions: 3150,
+      ownerDraws: 200,
+    })
+
+    const fs = ledgerFinancialStatements(state, 'llc-1', '2025-01-01', '2025-12-31')
+    expect(fs.incomeStatement.netIncome).toBe(12000 - 600 - 1400 - 150 - 1000)
+    expect(fs.balanceSheet.isBalanced).toBe(true)
+    expect(fs.cashFlowStatement.reconciles).toBe(true)
+    expect(fs.cashFlowStatement.netChangeInCash).toBe(fs.cashFlowStatement.endingCash - fs.cashFlowStatement.beginningCash)
+    expect(fs.isConsistent).toBe(true)
+    expect(fs.ownerEquityStatement.endingEquity).toBe(fs.balanceSheet.totalEquity)
+
+    // Ledger P&L compares against the prior year's books
+    const pnl = generateLedgerPnL(state, 'llc-1', 2025)
+    expect(pnl.totalRevenue).toBe(12000)
+    expect(pnl.prevTotalRevenue).toBe(4000)
+    expect(pnl.netIncome).toBe(fs.incomeStatement.netIncome)
+  })
+
+  it('posts payroll and manual entries, rejecting unbalanced ones', () => {
+    const payroll = payrollJournalEntry({ entityId: 'llc-1', date: '2025-08-15', grossWages: 4000, employeeWithholding: 900, employerTaxes: 320, fundingAccountId: 'cash:Biz Checking' })
+    expect(isBalancedEntry(payroll)).toBe(true)
+    const posted = postJournalEntry(base(), payroll, now)
+    expect(posted.journalEntries).toHaveLength(1)
+    expect(ledgerStatementsInput(posted, 'llc-1', '2025-01-01', '2025-12-31')).toMatchObject({ laborExpenses: 4320, accruedLiabilities: 1220 })
+
+    const unbalanced = postJournalEntry(posted, {
+      entityId: 'llc-1', date: '2025-09-01', memo: 'bad', source: 'manual',
+      lines: [{ accountId: '6900', debit: 100, credit: 0 }, { accountId: '3000', debit: 0, credit: 90 }],
+    }, now)
+    expect(unbalanced).toBe(posted)
+    expect(deleteJournalEntry(posted, posted.journalEntries[0].id).journalEntries).toHaveLength(0)
+  })
+
+  it('closes a period into retained earnings and locks it', () => {
+    const closed = closePeriod(base(), 'llc-1', '2024-12-31', now)
+    expect(closed.periodCloses[0]).toMatchObject({ entityId: 'llc-1', periodStart: '2024-07-01', periodEnd: '2024-12-31', netIncome: 3000 })
+    const tb = trialBalance(closed, 'llc-1', '2024-12-31')
+    expect(tb.rows.filter(r => r.account.type === 'revenue' || r.account.type === 'expense')).toHaveLength(0)
+    expect(tb.rows.find(r => r.account.id === '3900')?.credit).toBe(3000)
+    // Closing doesn't change the next period's statements
+    expect(ledgerFinancialStatements(closed, 'llc-1', '2025-01-01', '2025-12-31').isConsistent).toBe(true)
+
+    // Entries and transaction edits inside the closed range are refused
+    const late = postJournalEntry(closed, {
+      entityId: 'llc-1', date: '2024-12-15', memo: 'late', source: 'manual',
+      lines: [{ accountId: '6900', debit: 50, credit: 0 }, { accountId: '3000', debit: 0, credit: 50 }],
+    }, now)
+    expect(late).toBe(closed)
+    expect(closePeriod(closed, 'llc-1', '2024-06-30', now)).toBe(closed)
+
+    const edited: FortunaState = {
+      ...closed,
+      auditHistory: [
+        ...closed.auditHistory.filter(t => t.id !== 't6').map(t => t.id === 't1' ? { ...t, amount: 1 } : t),
+        tx('t8', '2024-12-01', 'Backdated', -50, 'software'),
+      ],
+    }
+    const guarded = enforcePeriodLocks(closed, edited)
+    expect(guarded.auditHistory.find(t => t.id === 't6')?.amount).toBe(4000)
+    expect(guarded.auditHistory.find(t => t.id === 't1')?.amount).toBe(1)
+    expect(guarded.auditHistory.some(t => t.id === 't8')).toBe(false)
+
+    const reopened = reopenPeriod(closed, 'llc-1')
+    expect(reopened.periodCloses).toHaveLength(0)
+    expect(reopened.journalEntries).toHaveLength(0)
+  })
+
+  it('locks receipts and depreciation assets that post into a closed period', () => {
+    const closed = closePeriod(base(), 'llc-1', '2024-12-31', now)
+    const asset = (id: string, purchaseDate: string) => ({
+      id, name: id, category: 'furniture' as const, purchaseDate, purchasePrice: 800, method: 'straight_line' as const,
+      usefulLifeYears: 7, businessUsePct: 100, isActive: true, entityId: 'llc-1',
+    })
+    const edited: FortunaState = {
+      ...closed,
+      receipts: [
+        ...closed.receipts.map(r => r.id === 'r2' ? { ...r, totalAmount: 175 } : r),
+        { id: 'r3', merchantName: 'Backdated', date: '2024-10-01', totalAmount: 90, items: [], status: 'allocated', entityId: 'llc-1' },
+      ],
+      depreciationAssets: [{ ...closed.depreciationAssets[0], purchasePrice: 9000 }, asset('a2', '2024-03-01'), asset('a3', '2025-03-01')],
+    }
+    const guarded = enforcePeriodLocks(closed, edited)
+    expect(guarded.receipts.find(r => r.id === 'r2')?.totalAmount).toBe(175)
+    expect(guarded.receipts.some(r => r.id === 'r3')).toBe(false)
+    expect(guarded.depreciationAssets.map(a => a.id)).toEqual(['a1', 'a3'])
+    expect(guarded.depreciationAssets[0].purchasePrice).toBe(5000)
+
+    expect(enforcePeriodLocks(closed, { ...closed, depreciationAssets: [] }).depreciationAssets).toEqual(closed.depreciationAssets)
+    const reopened = reopenPeriod(closed, 'llc-1')
+    expect(enforcePeriodLocks(closed, { ...reopened, depreciationAssets: [] }).depreciationAssets).toHaveLength(0)
+  })
+})
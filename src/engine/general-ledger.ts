@@ -0,0 +1,996 @@
+/**
+ * Fortuna Engine — General Ledger
+ *
+ * Double-entry books underneath the statement engines:
+ *   - Per-entity chart of accounts seeded from the QuickBooks tax categories
+ *     (FortunaTaxCategory), plus one account per bank/card register and any
+ *     user-defined accounts
+ *   - Journal derived from auditHistory, receipts, invoices, depreciation
+ *     assets and reconciliation opening balances; payroll, manual and closing
+ *     entries are stored in journalEntries
+ *   - Trial balance, period close (locks the closed range) and reopen
+ *   - FinancialStatementsInput built from ledger balances, so the income
+ *     statement, balance sheet, cash flow and owner's equity tie out
+ *
+ * Debits and credits are positive amounts; every entry balances to the cent.
+ */
+
+import type {
+  FortunaState, BankTransaction, LedgerAccount, LedgerAccountType, StatementLine,
+  JournalEntry, JournalLine, PeriodClose, Reconciliation, Invoice, ReceiptRecord, DepreciationAsset,
+} from './storage'
+import { mapAccount, type FortunaTaxCategory } from './qb-coa-mapper'
+import { macrsYearRate } from './depreciation-engine'
+import {
+  generateFinancialStatements, type FinancialStatements, type FinancialStatementsInput,
+} from './financial-statements-generator'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface JournalOptions {
+  entityId?: string
+  through?: string             // Inclusive; defaults to the end of state.taxYear
+}
+
+export interface TrialBalanceRow {
+  account: LedgerAccount
+  debit: number
+  credit: number
+}
+
+export interface TrialBalance {
+  entityId: string
+  asOf: string
+  rows: TrialBalanceRow[]
+  totalDebits: number
+  totalCredits: number
+  isBalanced: boolean
+}
+
+export interface LedgerActivityRow {
+  account: LedgerAccount
+  amount: number               // Natural sign: revenue credits and expense debits are positive
+}
+
+export interface PayrollPosting {
+  entityId: string
+  date: string
+  grossWages: number
+  employeeWithholding: number  // Income tax + employee FICA held back from gross
+  employerTaxes: number        // Employer FICA, FUTA, SUTA
+  fundingAccountId?: string    // Defaults to the unassigned cash register
+  memo?: string
+  sourceId?: string
+}
+
+export type JournalEntryInput = Omit<JournalEntry, 'id' | 'createdAt'>
+
+// ===================================================================
+//  CHART OF ACCOUNTS
+// ===================================================================
+
+export const PERSONAL = 'personal'
+
+const UNASSIGNED_REGISTER = 'Unassigned'
+const CARD_PATTERN = /credit card|visa|mastercard|amex|\bcard\b/i
+const TOLERANCE = 0.005
+const RECEIPT_MATCH_DAYS = 3
+
+// Seeded account ids referenced by the journal builders
+const UNDEPOSITED_FUNDS = '1050'
+const ACCOUNTS_RECEIVABLE = '1100'
+const TRANSFERS = '1400'
+const FIXED_ASSETS = '1500'
+const ACCUMULATED_DEPRECIATION = '1590'
+const PAYROLL_LIABILITIES = '2200'
+const CONTRIBUTIONS = '3000'
+const OPENING_EQUITY = '3050'
+const DRAWS = '3100'
+const RETAINED_EARNINGS = '3900'
+const WAGES = '6000'
+const PAYROLL_TAXES = '6020'
+const DEPRECIATION = '6600'
+const BUSINESS_INCOME = '4000'
+const PERSONAL_SPENDING = '7000'
+const UNCATEGORIZED_INCOME = '9000'
+const UNCATEGORIZED_EXPENSE = '9100'
+
+type SeedRow = [code: string, name: string, type: LedgerAccountType, line: StatementLine, taxCategory: FortunaTaxCategory]
+
+const SEED: SeedRow[] = [
+  ['1050', 'Undeposited Funds', 'asset', 'cash', 'asset'],
+  ['1100', 'Accounts Receivable', 'asset', 'receivables', 'asset'],
+  ['1200', 'Inventory', 'asset', 'inventory', 'asset'],
+  ['1300', 'Prepaid Expenses', 'asset', 'prepaid', 'asset'],
+  ['1400', 'Transfers in Transit', 'asset', 'cash', 'transfer'],
+  ['1500', 'Fixed Assets', 'asset', 'fixed_assets', 'asset'],
+  ['1590', 'Accumulated Depreciation', 'asset', 'accumulated_depreciation', 'asset'],
+  ['2000', 'Accounts Payable', 'liability', 'payables', 'liability'],
+  ['2200', 'Payroll Liabilities', 'liability', 'accrued', 'payroll'],
+  ['2300', 'Sales Tax Payable', 'liability', 'accrued', 'liability'],
+  ['2500', 'Loans Payable', 'liability', 'long_term_debt', 'liability'],
+  ['3000', 'Owner Contributions', 'equity', 'contributions', 'equity'],
+  ['3050', 'Opening Balance Equity', 'equity', 'retained_earnings', 'equity'],
+  ['3100', 'Owner Draws', 'equity', 'draws', 'equity'],
+  ['3900', 'Retained Earnings', 'equity', 'retained_earnings', 'equity'],
+  ['4000', 'Business Income', 'revenue', 'primary_revenue', 'business_income'],
+  ['4100', 'Wages & Salary Income', 'revenue', 'other_revenue', 'employment_income'],
+  ['4200', 'Interest Income', 'revenue', 'non_operating_income', 'interest_income'],
+  ['4210', 'Dividend Income', 'revenue', 'non_operating_income', 'dividend_income'],
+  ['4220', 'Capital Gains', 'revenue', 'non_operating_income', 'capital_gains'],
+  ['4230', 'Investment Income', 'revenue', 'non_operating_income', 'investment_income'],
+  ['4300', 'Rental Income', 'revenue', 'other_revenue', 'rental_income'],
+  ['4900', 'Other Income', 'revenue', 'other_revenue', 'other_income'],
+  ['5000', 'Cost of Goods Sold', 'expense', 'cogs', 'cogs'],
+  ['6000', 'Wages & Salaries', 'expense', 'labor', 'payroll'],
+  ['6010', 'Contract Labor', 'expense', 'labor', 'business_expense'],
+  ['6020', 'Payroll Taxes', 'expense', 'labor', 'payroll'],
+  ['6100', 'Rent & Utilities', 'expense', 'facilities', 'business_expense'],
+  ['6200', 'Advertising & Marketing', 'expense', 'marketing', 'business_expense'],
+  ['6300', 'Legal & Professional Fees', 'expense', 'professional', 'business_expense'],
+  ['6400', 'Software & Technology', 'expense', 'technology', 'business_expense'],
+  ['6500', 'Insurance', 'expense', 'insurance', 'business_expense'],
+  ['6510', 'Health Insurance', 'expense', 'insurance', 'health_insurance'],
+  ['6600', 'Depreciation Expense', 'expense', 'depreciation', 'depreciation'],
+  ['6700', 'Vehicle Expense', 'expense', 'other_opex', 'vehicle_expense'],
+  ['6710', 'Home Office', 'expense', 'facilities', 'home_office'],
+  ['6720', 'Retirement Plan Contributions', 'expense', 'labor', 'retirement_contribution'],
+  ['6730', 'Rental Property Expense', 'expense', 'other_opex', 'rental_expense'],
+  ['6800', 'Interest Expense', 'expense', 'interest', 'business_expense'],
+  ['6900', 'Other Business Expense', 'expense', 'other_opex', 'business_expense'],
+  ['7000', 'Personal & Non-Deductible', 'expense', 'other_opex', 'non_deductible'],
+  ['7100', 'Itemized Deductions', 'expense', 'other_opex', 'itemized_deduction'],
+  ['7200', 'Self-Employment Tax', 'expense', 'income_tax', 'self_employment_tax'],
+  ['7300', 'Income Tax', 'expense', 'income_tax', 'tax_payment'],
+  ['9000', 'Uncategorized Income', 'revenue', 'other_revenue', 'uncategorized'],
+  ['9100', 'Uncategorized Expense', 'expense', 'other_opex', 'uncategorized'],
+]
+
+/** QB account type used to look up the tax schedule for a seeded account */
+const QB_TYPE: Record<LedgerAccountType, string> = {
+  asset: 'OASSET', liability: 'OCLIAB', equity: 'EQUITY', revenue: 'INC', expense: 'EXP',
+}
+
+export const DEFAULT_CHART: LedgerAccount[] = SEED.map(([code, name, type, line, taxCategory]) => {
+  const { scheduleRef } = mapAccount({ name, accountType: QB_TYPE[type], raw: {} })
+  return {
+    id: code, code, name, type, line, taxCategory,
+    ...(scheduleRef !== 'Uncategorized' && scheduleRef !== 'Balance Sheet' ? { scheduleRef } : {}),
+  }
+})
+
+/** Default account for each tax category */
+const CATEGORY_ACCOUNTS: Record<FortunaTaxCategory, string> = {
+  business_income: '4000',
+  business_expense: '6900',
+  cogs: '5000',
+  employment_income: '4100',
+  investment_income: '4230',
+  rental_income: '4300',
+  rental_expense: '6730',
+  interest_income: '4200',
+  dividend_income: '4210',
+  capital_gains: '4220',
+  other_income: '4900',
+  itemized_deduction: '7100',
+  self_employment_tax: '7200',
+  depreciation: DEPRECIATION,
+  payroll: WAGES,
+  retirement_contribution: '6720',
+  health_insurance: '6510',
+  home_office: '6710',
+  vehicle_expense: '6700',
+  asset: FIXED_ASSETS,
+  liability: '2500',
+  equity: CONTRIBUTIONS,
+  transfer: TRANSFERS,
+  tax_payment: '7300',
+  non_deductible: PERSONAL_SPENDING,
+  uncategorized: UNCATEGORIZED_EXPENSE,
+}
+
+/** Bank-feed / categorizer vocabulary the QB name patterns don't place */
+const CATEGORY_ALIASES: Record<string, FortunaTaxCategory> = {
+  salary: 'employment_income',
+  freelance_income: 'business_income',
+  taxes_paid: 'tax_payment',
+  personal: 'non_deductible',
+  charitable: 'itemized_deduction',
+  owner_draw: 'equity',
+  owner_contribution: 'equity',
+  loan_payment: 'liability',
+}
+
+/** Operating-expense detail within business_expense */
+const OPEX_ACCOUNT_RULES: { pattern: RegExp; accountId: string }[] = [
+  { pattern: /advertis|marketing|promotion/i, accountId: '6200' },
+  { pattern: /legal|attorney|professional|accounting|cpa|bookkeep|consult/i, accountId: '6300' },
+  { pattern: /software|subscript|saas|cloud|hosting|technology/i, accountId: '6400' },
+  { pattern: /insurance/i, accountId: '6500' },
+  { pattern: /rent|lease|utilit|electric|internet|phone/i, accountId: '6100' },
+  { pattern: /contract|1099|freelanc/i, accountId: '6010' },
+  { pattern: /interest/i, accountId: '6800' },
+]
+
+/** Ledger account id for a bank or card register */
+export function fundingAccountId(accountName?: string): string {
+  const name = accountName || UNASSIGNED_REGISTER
+  return CARD_PATTERN.test(name) ? `card:${name}` : `cash:${name}`
+}
+
+function fundingAccount(id: string): LedgerAccount {
+  const name = id.slice(5)
+  return id.startsWith('card:')
+    ? { id, code: '2100', name, type: 'liability', line: 'short_term_debt', taxCategory: 'liability' }
+    : { id, code: '1000', name, type: 'asset', line: 'cash', taxCategory: 'asset' }
+}
+
+function byCode(a: LedgerAccount, b: LedgerAccount): number {
+  return a.code.localeCompare(b.code) || a.name.localeCompare(b.name)
+}
+
+/** Seeded accounts, one per bank/card register, and the entity's custom accounts */
+export function chartOfAccounts(state: FortunaState, entityId = PERSONAL): LedgerAccount[] {
+  const registers = new Set<string>()
+  for (const t of state.auditHistory || []) registers.add(fundingAccountId(t.accountName))
+  for (const r of state.reconciliations || []) registers.add(fundingAccountId(r.accountName))
+  const custom = (state.ledgerAccounts || []).filter(a => !a.entityId || a.entityId === entityId)
+  return [...DEFAULT_CHART, ...[...registers].map(fundingAccount), ...custom].sort(byCode)
+}
+
+function accountLookup(chart: LedgerAccount[]): (id: string) => LedgerAccount {
+  const index = new Map(chart.map(a => [a.id, a]))
+  const suspense = index.get(UNCATEGORIZED_EXPENSE)!
+  return id => index.get(id)
+    ?? (id.startsWith('cash:') || id.startsWith('card:') ? fundingAccount(id) : { ...suspense, id, name: `Unknown account (${id})` })
+}
+
+/**
+ * Account for a transaction category. User accounts that list the category
+ * win; then the seeded tax-category account, using the QB account-name
+ * patterns for categories outside the FortunaTaxCategory vocabulary.
+ */
+export function resolveLedgerAccount(category: string | undefined, amount: number, accounts: LedgerAccount[] = []): string {
+  const key = (category || '').trim().toLowerCase()
+  if (!key) return amount >= 0 ? UNCATEGORIZED_INCOME : UNCATEGORIZED_EXPENSE
+
+  const custom = accounts.find(a => a.categories?.some(c => c.toLowerCase() === key))
+  if (custom) return custom.id
+
+  const taxCategory = CATEGORY_ALIASES[key]
+    ?? (Object.hasOwn(CATEGORY_ACCOUNTS, key)
+      ? key as FortunaTaxCategory
+      : mapAccount({ name: key.replace(/_/g, ' '), accountType: amount >= 0 ? 'INC' : 'EXP', raw: {} }).fortunaCategory)
+
+  switch (taxCategory) {
+    case 'uncategorized': return amount >= 0 ? UNCATEGORIZED_INCOME : UNCATEGORIZED_EXPENSE
+    case 'equity': return amount >= 0 ? CONTRIBUTIONS : DRAWS
+    case 'business_expense': return OPEX_ACCOUNT_RULES.find(r => r.pattern.test(key))?.accountId ?? CATEGORY_ACCOUNTS.business_expense
+    default: return CATEGORY_ACCOUNTS[taxCategory]
+  }
+}
+
+/** Entities with books: personal, every LegalEntity, and any entity tagged on a transaction */
+export function ledgerEntityIds(state: FortunaState): string[] {
+  const ids = new Set<string>([PERSONAL, ...state.entities.map(e => e.id)])
+  for (const t of state.auditHistory || []) if (t.entityId) ids.add(t.entityId)
+  return [...ids]
+}
+
+export function ledgerEntityName(state: FortunaState, entityId: string): string {
+  return state.entities.find(e => e.id === entityId)?.name ?? (entityId === PERSONAL ? 'Personal' : entityId)
+}
+
+// ===================================================================
+//  JOURNAL
+// ===================================================================
+
+function money(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function day(date: string): string {
+  return date.slice(0, 10)
+}
+
+function dayDiff(a: string, b: string): number {
+  return Math.round((Date.parse(day(a)) - Date.parse(day(b))) / 86_400_000)
+}
+
+function debit(accountId: string, amount: number, memo?: string): JournalLine {
+  return { accountId, debit: amount, credit: 0, ...(memo ? { memo } : {}) }
+}
+
+function credit(accountId: string, amount: number, memo?: string): JournalLine {
+  return { accountId, debit: 0, credit: amount, ...(memo ? { memo } : {}) }
+}
+
+/** Debit `to`, credit `from` — or the reverse when amount is negative */
+function transfer(to: string, from: string, amount: number): JournalLine[] {
+  const abs = money(Math.abs(amount))
+  return amount >= 0 ? [debit(to, abs), credit(from, abs)] : [debit(from, abs), credit(to, abs)]
+}
+
+function counterAccount(category: string | undefined, amount: number, entityId: string, custom: LedgerAccount[]): string {
+  const scoped = custom.filter(a => !a.entityId || a.entityId === entityId)
+  const id = resolveLedgerAccount(category, amount, scoped)
+  // Personal spending out of a business register is an owner draw
+  return id === PERSONAL_SPENDING && entityId !== PERSONAL ? DRAWS : id
+}
+
+/** Bank deposits (by id) still tagged to the invoice's entity, so A/R clears inside one set of books */
+function depositsForInvoice(state: FortunaState): (inv: Invoice, transactionId?: string) => boolean {
+  const entities = new Map((state.auditHistory || []).map(t => [t.id, t.entityId || PERSONAL]))
+  return (inv, transactionId) => !!transactionId && entities.get(transactionId) === inv.entityId
+}
+
+/** Invoice payments that cleared through each bank deposit */
+function depositCollections(state: FortunaState): Map<string, number> {
+  const clearsThrough = depositsForInvoice(state)
+  const collected = new Map<string, number>()
+  for (const inv of state.invoices || []) {
+    if (inv.status !== 'sent') continue
+    for (const p of inv.payments) {
+      if (clearsThrough(inv, p.transactionId)) collected.set(p.transactionId!, (collected.get(p.transactionId!) || 0) + p.amount)
+    }
+  }
+  return collected
+}
+
+function transactionEntries(state: FortunaState): JournalEntry[] {
+  const custom = state.ledgerAccounts || []
+  const capitalized = new Set((state.depreciationAssets || []).filter(a => a.isActive && a.sourceId).map(a => a.sourceId!))
+  const collections = depositCollections(state)
+  const out: JournalEntry[] = []
+  for (const t of state.auditHistory || []) {
+    if (!money(t.amount)) continue
+    const entityId = t.entityId || PERSONAL
+    const counter = capitalized.has(t.id) ? FIXED_ASSETS : counterAccount(t.category, t.amount, entityId, custom)
+    const funding = fundingAccountId(t.accountName)
+    // A deposit that pays invoices clears A/R; the revenue was booked when the invoice was sent
+    const collected = t.amount > 0 ? money(Math.min(t.amount, collections.get(t.id) || 0)) : 0
+    const remainder = money(t.amount - collected)
+    out.push({
+      id: `je_txn_${t.id}`,
+      entityId,
+      date: day(t.date),
+      memo: t.merchantName || t.description,
+      source: 'transaction',
+      sourceId: t.id,
+      lines: collected > 0
+        ? [debit(funding, money(t.amount)), credit(ACCOUNTS_RECEIVABLE, collected), ...(remainder > 0 ? [credit(counter, remainder)] : [])]
+        : transfer(funding, counter, t.amount),
+    })
+  }
+  return out
+}
+
+function invoiceAmount(invoice: Invoice): number {
+  return money(invoice.lines.reduce((s, l) => s + money(l.quantity * l.rate), 0))
+}
+
+/**
+ * Sent invoices: revenue into A/R on the issue date. Payments not tied to a
+ * bank deposit land in Undeposited Funds until the deposit shows up.
+ */
+function invoiceEntries(state: FortunaState): JournalEntry[] {
+  const clearsThrough = depositsForInvoice(state)
+  const out: JournalEntry[] = []
+  for (const inv of state.invoices || []) {
+    const total = invoiceAmount(inv)
+    if (inv.status !== 'sent' || total <= 0) continue
+    out.push({
+      id: `je_inv_${inv.id}`,
+      entityId: inv.entityId,
+      date: inv.issueDate,
+      memo: `Invoice ${inv.number}`,
+      source: 'invoice',
+      sourceId: inv.id,
+      lines: [debit(ACCOUNTS_RECEIVABLE, total), credit(BUSINESS_INCOME, total)],
+    })
+    for (const p of inv.payments) {
+      if (clearsThrough(inv, p.transactionId)) continue
+      const amount = money(p.amount)
+      if (amount <= 0) continue
+      out.push({
+        id: `je_pmt_${p.id}`,
+        entityId: inv.entityId,
+        date: p.date,
+        memo: `Payment — invoice ${inv.number}`,
+        source: 'invoice',
+        sourceId: inv.id,
+        lines: [debit(UNDEPOSITED_FUNDS, amount), credit(ACCOUNTS_RECEIVABLE, amount)],
+      })
+    }
+  }
+  return out
+}
+
+/** Opening balance per register from its earliest reconciled statement */
+function openingEntries(state: FortunaState): JournalEntry[] {
+  const earliest = new Map<string, Reconciliation>()
+  for (const r of state.reconciliations || []) {
+    const current = earliest.get(r.accountName)
+    if (!current || r.periodStart < current.periodStart) earliest.set(r.accountName, r)
+  }
+
+  const out: JournalEntry[] = []
+  for (const [accountName, rec] of earliest) {
+    const rows = (state.auditHistory || []).filter(t => (t.accountName || UNASSIGNED_REGISTER) === accountName)
+    const priorActivity = rows.filter(t => day(t.date) < rec.periodStart).reduce((s, t) => s + t.amount, 0)
+    const opening = money(rec.beginningBalance - priorActivity)
+    if (!opening) continue
+    const dates = [rec.periodStart, ...rows.map(t => day(t.date))].sort()
+    out.push({
+      id: `je_open_${rec.id}`,
+      entityId: dominantEntity(rows),
+      date: dates[0],
+      memo: `Opening balance — ${accountName}`,
+      source: 'opening',
+      sourceId: rec.id,
+      lines: transfer(fundingAccountId(accountName), OPENING_EQUITY, opening),
+    })
+  }
+  return out
+}
+
+function dominantEntity(rows: BankTransaction[]): string {
+  const counts = new Map<string, number>()
+  for (const t of rows) counts.set(t.entityId || PERSONAL, (counts.get(t.entityId || PERSONAL) || 0) + 1)
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? PERSONAL
+}
+
+/**
+ * Receipts not already in a bank register (linked by sourceId, or same
+ * amount within a few days). Paid from the named register when it exists,
+ * otherwise treated as paid personally (owner contribution).
+ */
+function receiptEntries(state: FortunaState): JournalEntry[] {
+  const custom = state.ledgerAccounts || []
+  const bank = state.auditHistory || []
+  const linked = new Set(bank.map(t => t.sourceId).filter(Boolean))
+  const registers = new Set(bank.map(t => t.accountName).filter(Boolean))
+  const out: JournalEntry[] = []
+
+  for (const r of state.receipts || []) {
+    const total = money(r.totalAmount)
+    if (total <= 0 || r.status === 'processing' || linked.has(r.id)) continue
+    if (bank.some(t => money(-t.amount) === total && Math.abs(dayDiff(t.date, r.date)) <= RECEIPT_MATCH_DAYS)) continue
+
+    const funding = r.paymentMethodId && registers.has(r.paymentMethodId) ? fundingAccountId(r.paymentMethodId) : CONTRIBUTIONS
+    const items = r.items.length > 0
+      ? r.items
+      : [{ amount: total, inferredCategory: '', allocatedEntityId: undefined }]
+    const itemSum = items.reduce((s, i) => s + i.amount, 0)
+    if (itemSum <= 0) continue
+    const scale = total / itemSum
+
+    const byEntity = new Map<string, Map<string, number>>()
+    for (const item of items) {
+      const entityId = item.allocatedEntityId || r.entityId || PERSONAL
+      const accountId = counterAccount(item.inferredCategory, -1, entityId, custom)
+      const accounts = byEntity.get(entityId) ?? new Map<string, number>()
+      accounts.set(accountId, (accounts.get(accountId) || 0) + item.amount * scale)
+      byEntity.set(entityId, accounts)
+    }
+
+    for (const [entityId, accounts] of byEntity) {
+      const lines: JournalLine[] = []
+      for (const [accountId, amount] of accounts) {
+        const rounded = money(amount)
+        if (rounded > 0) lines.push(debit(accountId, rounded))
+        else if (rounded < 0) lines.push(credit(accountId, -rounded))
+      }
+      const net = money(lines.reduce((s, l) => s + l.debit - l.credit, 0))
+      if (net <= 0) continue
+      lines.push(credit(funding, net))
+      out.push({
+        id: `je_rcpt_${r.id}_${entityId}`,
+        entityId,
+        date: day(r.date),
+        memo: r.merchantName,
+        source: 'receipt',
+        sourceId: r.id,
+        lines,
+      })
+    }
+  }
+  return out
+}
+
+/**
+ * Book depreciation on the business-use basis, posted at each year end.
+ * §179 and bonus assets are expensed in full in the placed-in-service year;
+ * MACRS uses the half-year tables, anything else straight-line.
+ */
+function depreciationEntries(state: FortunaState, through: string): JournalEntry[] {
+  const bankIds = new Set((state.auditHistory || []).map(t => t.id))
+  const lastYear = Number(through.slice(0, 4))
+  const out: JournalEntry[] = []
+
+  for (const asset of state.depreciationAssets || []) {
+    if (!asset.isActive || !asset.purchaseDate) continue
+    const use = Math.min(100, Math.max(0, asset.businessUsePct ?? 100)) / 100
+    const basis = money(asset.purchasePrice * use)
+    if (basis <= 0) continue
+    const entityId = asset.entityId || PERSONAL
+
+    // Bank-sourced purchases are capitalized by the transaction entry itself
+    if (!(asset.sourceId && bankIds.has(asset.sourceId))) {
+      out.push({
+        id: `je_acq_${asset.id}`,
+        entityId,
+        date: day(asset.purchaseDate),
+        memo: `Placed in service — ${asset.name}`,
+        source: 'depreciation',
+        sourceId: asset.id,
+        lines: [debit(FIXED_ASSETS, basis), credit(CONTRIBUTIONS, basis)],
+      })
+    }
+
+    const depreciable = money(basis - (asset.salvageValue || 0) * use)
+    let accumulated = 0
+    for (let year = Number(asset.purchaseDate.slice(0, 4)), i = 0; year <= lastYear; year++, i++) {
+      const amount = money(Math.min(depreciable - accumulated, yearlyDepreciation(asset.method, asset.usefulLifeYears, depreciable, i)))
+      if (amount <= 0) break
+      accumulated = money(accumulated + amount)
+      out.push({
+        id: `je_dep_${asset.id}_${year}`,
+        entityId,
+        date: `${year}-12-31`,
+        memo: `Depreciation — ${asset.name}`,
+        source: 'depreciation',
+        sourceId: asset.id,
+        lines: [debit(DEPRECIATION, amount), credit(ACCUMULATED_DEPRECIATION, amount)],
+      })
+    }
+  }
+  return out
+}
+
+function yearlyDepreciation(method: string, usefulLifeYears: number, depreciable: number, yearIndex: number): number {
+  if (method === 'section_179' || method === 'bonus') return yearIndex === 0 ? depreciable : 0
+  const life = Math.max(1, usefulLifeYears || 1)
+  if (method === 'macrs') {
+    const rate = macrsYearRate(life, yearIndex)
+    if (rate !== undefined) return depreciable * rate
+  }
+  return depreciable / life
+}
+
+/** Derived and stored entries, oldest first */
+export function generateJournal(state: FortunaState, options: JournalOptions = {}): JournalEntry[] {
+  const through = options.through ?? `${state.taxYear || new Date().getFullYear()}-12-31`
+  return [
+    ...transactionEntries(state),
+    ...openingEntries(state),
+    ...receiptEntries(state),
+    ...invoiceEntries(state),
+    ...depreciationEntries(state, through),
+    ...(state.journalEntries || []),
+  ]
+    .filter(e => e.date <= through && (!options.entityId || e.entityId === options.entityId))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+}
+
+export function isBalancedEntry(entry: Pick<JournalEntry, 'lines'>): boolean {
+  if (entry.lines.length < 2) return false
+  let debits = 0
+  let credits = 0
+  for (const l of entry.lines) {
+    if (l.debit < 0 || l.credit < 0 || (l.debit > 0 && l.credit > 0)) return false
+    debits += l.debit
+    credits += l.credit
+  }
+  return debits > 0 && Math.abs(debits - credits) < TOLERANCE
+}
+
+/** Payroll run as a balanced entry: wages and employer taxes against net pay and payroll liabilities */
+export function payrollJournalEntry(run: PayrollPosting): JournalEntryInput {
+  const gross = money(run.grossWages)
+  const withheld = money(run.employeeWithholding)
+  const employerTaxes = money(run.employerTaxes)
+  const lines = [
+    debit(WAGES, gross, 'Gross wages'),
+    debit(PAYROLL_TAXES, employerTaxes, 'Employer payroll taxes'),
+    credit(run.fundingAccountId ?? fundingAccountId(), money(gross - withheld), 'Net pay'),
+    credit(PAYROLL_LIABILITIES, money(withheld + employerTaxes), 'Withholding and employer taxes due'),
+  ].filter(l => l.debit > 0 || l.credit > 0)
+  return {
+    entityId: run.entityId,
+    date: day(run.date),
+    memo: run.memo ?? 'Payroll',
+    source: 'payroll',
+    ...(run.sourceId ? { sourceId: run.sourceId } : {}),
+    lines,
+  }
+}
+
+/** Store a manual or payroll entry. Unbalanced entries and dates in a closed period are rejected. */
+export function postJournalEntry(state: FortunaState, input: JournalEntryInput, now: Date = new Date()): FortunaState {
+  if (input.source !== 'manual' && input.source !== 'payroll') return state
+  const lines = input.lines
+    .map(l => ({ ...l, debit: money(l.debit || 0), credit: money(l.credit || 0) }))
+    .filter(l => l.debit > 0 || l.credit > 0)
+  if (!isBalancedEntry({ lines }) || isPeriodClosed(state, input.entityId, input.date)) return state
+
+  const entry: JournalEntry = {
+    ...input,
+    date: day(input.date),
+    lines,
+    id: `je_${input.source}_${now.getTime().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    createdAt: now.toISOString(),
+  }
+  return { ...state, journalEntries: [...(state.journalEntries || []), entry] }
+}
+
+/** Remove a stored manual or payroll entry outside any closed period */
+export function deleteJournalEntry(state: FortunaState, entryId: string): FortunaState {
+  const entry = (state.journalEntries || []).find(e => e.id === entryId)
+  if (!entry || entry.source === 'closing' || isPeriodClosed(state, entry.entityId, entry.date)) return state
+  return { ...state, journalEntries: state.journalEntries.filter(e => e.id !== entryId) }
+}
+
+// ===================================================================
+//  BALANCES & TRIAL BALANCE
+// ===================================================================
+
+/** Net debit (positive) or credit (negative) per account */
+function netByAccount(entries: JournalEntry[]): Map<string, number> {
+  const net = new Map<string, number>()
+  for (const e of entries) {
+    for (const l of e.lines) net.set(l.accountId, (net.get(l.accountId) || 0) + l.debit - l.credit)
+  }
+  return net
+}
+
+function isDebitNormal(type: LedgerAccountType): boolean {
+  return type === 'asset' || type === 'expense'
+}
+
+export function trialBalance(state: FortunaState, entityId: string, asOf: string): TrialBalance {
+  const lookup = accountLookup(chartOfAccounts(state, entityId))
+  const rows: TrialBalanceRow[] = []
+  for (const [id, net] of netByAccount(generateJournal(state, { entityId, through: asOf }))) {
+    const balance = money(net)
+    if (!balance) continue
+    rows.push({ account: lookup(id), debit: balance > 0 ? balance : 0, credit: balance < 0 ? -balance : 0 })
+  }
+  rows.sort((a, b) => byCode(a.account, b.account))
+  const totalDebits = money(rows.reduce((s, r) => s + r.debit, 0))
+  const totalCredits = money(rows.reduce((s, r) => s + r.credit, 0))
+  return { entityId, asOf, rows, totalDebits, totalCredits, isBalanced: Math.abs(totalDebits - totalCredits) < TOLERANCE }
+}
+
+/** Revenue and expense activity for a date range, closing entries excluded */
+export function ledgerActivity(state: FortunaState, entityId: string, start: string, end: string): LedgerActivityRow[] {
+  const lookup = accountLookup(chartOfAccounts(state, entityId))
+  const entries = generateJournal(state, { entityId, through: end })
+    .filter(e => e.date >= start && e.source !== 'closing' && e.source !== 'opening')
+  const rows: LedgerActivityRow[] = []
+  for (const [id, net] of netByAccount(entries)) {
+    const account = lookup(id)
+    if (account.type !== 'revenue' && account.type !== 'expense') continue
+    const amount = money(isDebitNormal(account.type) ? net : -net)
+    if (amount) rows.push({ account, amount })
+  }
+  return rows.sort((a, b) => byCode(a.account, b.account))
+}
+
+/** Book value of cash registers (and transfers in transit) for an entity as of a date */
+export function ledgerCashBalance(state: FortunaState, entityId: string = PERSONAL, asOf?: string): number {
+  const lookup = accountLookup(chartOfAccounts(state, entityId))
+  let cash = 0
+  for (const [id, net] of netByAccount(generateJournal(state, { entityId, through: asOf }))) {
+    if (lookup(id).line === 'cash') cash += net
+  }
+  return money(cash)
+}
+
+/** Assets less liabilities on an entity's books as of a date */
+export function ledgerNetAssets(state: FortunaState, entityId: string, asOf?: string): number {
+  const lookup = accountLookup(chartOfAccounts(state, entityId))
+  return money(netAssets(netByAccount(generateJournal(state, { entityId, through: asOf })), lookup))
+}
+
+// ===================================================================
+//  PERIOD CLOSE
+// ===================================================================
+
+export function closedThrough(state: FortunaState, entityId: string): string | undefined {
+  let latest: string | undefined
+  for (const c of state.periodCloses || []) {
+    if (c.entityId === entityId && (!latest || c.periodEnd > latest)) latest = c.periodEnd
+  }
+  return latest
+}
+
+export function isPeriodClosed(state: FortunaState, entityId: string, date: string): boolean {
+  const end = closedThrough(state, entityId)
+  return !!end && day(date) <= end
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * Close an entity's books through periodEnd: revenue and expense balances
+ * roll into retained earnings and the range is locked. Periods close in
+ * order; the trial balance must balance.
+ */
+export function closePeriod(state: FortunaState, entityId: string, periodEnd: string, now: Date = new Date()): FortunaState {
+  const previousEnd = closedThrough(state, entityId)
+  if (previousEnd && periodEnd <= previousEnd) return state
+
+  const journal = generateJournal(state, { entityId, through: periodEnd })
+  const net = netByAccount(journal)
+  const imbalance = [...net.values()].reduce((s, n) => s + n, 0)
+  if (Math.abs(imbalance) >= TOLERANCE) return state
+
+  const lookup = accountLookup(chartOfAccounts(state, entityId))
+  const lines: JournalLine[] = []
+  for (const [id, balance] of net) {
+    const type = lookup(id).type
+    if (type !== 'revenue' && type !== 'expense') continue
+    const amount = money(balance)
+    if (amount > 0) lines.push(credit(id, amount))
+    else if (amount < 0) lines.push(debit(id, -amount))
+  }
+  const netIncome = money(lines.reduce((s, l) => s + l.debit - l.credit, 0))
+  if (netIncome > 0) lines.push(credit(RETAINED_EARNINGS, netIncome))
+  else if (netIncome < 0) lines.push(debit(RETAINED_EARNINGS, -netIncome))
+
+  const periodStart = previousEnd ? nextDay(previousEnd) : (journal[0]?.date ?? periodEnd)
+  const closingEntry: JournalEntry | undefined = lines.length >= 2
+    ? {
+        id: `je_close_${entityId}_${periodEnd}`,
+        entityId,
+        date: periodEnd,
+        memo: `Close ${periodStart} – ${periodEnd}`,
+        source: 'closing',
+        lines,
+        createdAt: now.toISOString(),
+      }
+    : undefined
+  const close: PeriodClose = {
+    id: `close_${entityId}_${periodEnd}`,
+    entityId,
+    periodStart,
+    periodEnd,
+    netIncome,
+    ...(closingEntry ? { closingEntryId: closingEntry.id } : {}),
+    closedAt: now.toISOString(),
+  }
+
+  return {
+    ...state,
+    journalEntries: closingEntry ? [...(state.journalEntries || []), closingEntry] : state.journalEntries || [],
+    periodCloses: [...(state.periodCloses || []), close],
+  }
+}
+
+/** Reopen the entity's most recent closed period */
+export function reopenPeriod(state: FortunaState, entityId: string): FortunaState {
+  const latest = (state.periodCloses || [])
+    .filter(c => c.entityId === entityId)
+    .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))[0]
+  if (!latest) return state
+  return {
+    ...state,
+    journalEntries: (state.journalEntries || []).filter(e => e.id !== latest.closingEntryId),
+    periodCloses: state.periodCloses.filter(c => c.id !== latest.id),
+  }
+}
+
+/** Fields each journal source posts from; rows that post into a closed period keep them */
+const LOCKED_FIELDS = ['date', 'amount', 'category', 'entityId', 'accountName'] as const
+const RECEIPT_LOCKED_FIELDS = ['date', 'totalAmount', 'items', 'entityId', 'paymentMethodId', 'status'] as const
+const ASSET_LOCKED_FIELDS = [
+  'purchaseDate', 'purchasePrice', 'businessUsePct', 'salvageValue', 'method', 'usefulLifeYears', 'entityId', 'isActive', 'sourceId',
+] as const
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b))
+}
+
+/**
+ * One collection's lock: rows that post into a closed period (before or after
+ * the update) keep their posting fields, deleted ones come back and new ones
+ * are dropped. Returns null when nothing locked changed.
+ */
+function lockRows<T extends { id: string }>(
+  prev: T[] | undefined,
+  next: T[] | undefined,
+  fields: readonly (keyof T)[],
+  locked: (row: T) => boolean,
+): T[] | null {
+  if (prev === next) return null
+  const prevById = new Map((prev || []).map(t => [t.id, t]))
+  const seen = new Set<string>()
+  let changed = false
+
+  const rows: T[] = []
+  for (const t of next || []) {
+    const original = prevById.get(t.id)
+    if (!original) {
+      if (locked(t)) changed = true
+      else rows.push(t)
+      continue
+    }
+    seen.add(t.id)
+    if ((locked(original) || locked(t)) && fields.some(f => !sameValue(t[f], original[f]))) {
+      changed = true
+      const restored = { ...t }
+      for (const f of fields) restored[f] = original[f]
+      rows.push(restored)
+    } else {
+      rows.push(t)
+    }
+  }
+
+  for (const original of prev || []) {
+    if (!seen.has(original.id) && locked(original)) {
+      rows.push(original)
+      changed = true
+    }
+  }
+
+  return changed ? rows : null
+}
+
+/**
+ * Apply to every state update (see useFortuna.updateState): auditHistory
+ * rows, receipts and depreciation assets that post into a closed period keep
+ * their posting fields, deleted ones come back, and new ones can't be added
+ * into closed books. Reopening a period in the same update releases its lock.
+ */
+export function enforcePeriodLocks(prev: FortunaState, next: FortunaState): FortunaState {
+  if (prev.auditHistory === next.auditHistory && prev.receipts === next.receipts && prev.depreciationAssets === next.depreciationAssets) {
+    return next
+  }
+  const stillClosed = new Set((next.periodCloses || []).map(c => c.id))
+  const through = new Map<string, string>()
+  for (const c of prev.periodCloses || []) {
+    if (stillClosed.has(c.id) && c.periodEnd > (through.get(c.entityId) ?? '')) through.set(c.entityId, c.periodEnd)
+  }
+  if (through.size === 0) return next
+
+  const closed = (entityId: string | undefined, date: string) => {
+    const end = through.get(entityId || PERSONAL)
+    return !!end && day(date) <= end
+  }
+  // Receipts post per allocated entity on the receipt date; assets from the placed-in-service date on
+  const receiptPosts = (r: ReceiptRecord) => r.totalAmount > 0 && r.status !== 'processing' &&
+    [r.entityId, ...r.items.map(i => i.allocatedEntityId || r.entityId)].some(e => closed(e, r.date))
+  const assetPosts = (a: DepreciationAsset) => a.isActive && !!a.purchaseDate && closed(a.entityId, a.purchaseDate)
+
+  const auditHistory = lockRows(prev.auditHistory, next.auditHistory, LOCKED_FIELDS, t => closed(t.entityId, t.date))
+  const receipts = lockRows(prev.receipts, next.receipts, RECEIPT_LOCKED_FIELDS, receiptPosts)
+  const depreciationAssets = lockRows(prev.depreciationAssets, next.depreciationAssets, ASSET_LOCKED_FIELDS, assetPosts)
+  if (!auditHistory && !receipts && !depreciationAssets) return next
+
+  return {
+    ...next,
+    auditHistory: auditHistory ?? next.auditHistory,
+    receipts: receipts ?? next.receipts,
+    depreciationAssets: depreciationAssets ?? next.depreciationAssets,
+  }
+}
+
+// ===================================================================
+//  FINANCIAL STATEMENTS
+// ===================================================================
+
+/** Balance per statement line, in the line's natural sign */
+function byLine(net: Map<string, number>, lookup: (id: string) => LedgerAccount): Map<StatementLine, number> {
+  const out = new Map<StatementLine, number>()
+  for (const [id, balance] of net) {
+    const account = lookup(id)
+    out.set(account.line, (out.get(account.line) || 0) + (isDebitNormal(account.type) ? balance : -balance))
+  }
+  return out
+}
+
+function netAssets(net: Map<string, number>, lookup: (id: string) => LedgerAccount): number {
+  let total = 0
+  for (const [id, balance] of net) {
+    const type = lookup(id).type
+    if (type === 'asset' || type === 'liability') total += balance
+  }
+  return total
+}
+
+/**
+ * Statement inputs for one entity and date range, read straight from the
+ * ledger. Opening-balance entries count as beginning balances; working
+ * capital, capex, debt and equity flows come from balance changes, so the
+ * cash flow reconciles and the balance sheet balances by construction.
+ */
+export function ledgerStatementsInput(
+  state: FortunaState,
+  entityId: string,
+  periodStart: string,
+  periodEnd: string,
+  period: string = `${periodStart} – ${periodEnd}`,
+): FinancialStatementsInput {
+  const lookup = accountLookup(chartOfAccounts(state, entityId))
+  const journal = generateJournal(state, { entityId, through: periodEnd })
+  const isBefore = (e: JournalEntry) => e.source === 'opening' || e.date < periodStart
+
+  const beginNet = netByAccount(journal.filter(isBefore))
+  const endNet = netByAccount(journal)
+  const begin = byLine(beginNet, lookup)
+  const end = byLine(endNet, lookup)
+  const activity = byLine(netByAccount(journal.filter(e => !isBefore(e) && e.source !== 'closing')), lookup)
+
+  const at = (m: Map<StatementLine, number>, line: StatementLine) => money(m.get(line) || 0)
+  const fixedChange = at(end, 'fixed_assets') - at(begin, 'fixed_assets')
+  const debtChange = at(end, 'short_term_debt') + at(end, 'long_term_debt') - at(begin, 'short_term_debt') - at(begin, 'long_term_debt')
+
+  return {
+    businessName: ledgerEntityName(state, entityId),
+    period,
+    businessType: 'other',
+
+    primaryRevenue: at(activity, 'primary_revenue'),
+    otherRevenue: at(activity, 'other_revenue'),
+    costOfGoodsSold: at(activity, 'cogs'),
+
+    laborExpenses: at(activity, 'labor'),
+    facilitiesExpenses: at(activity, 'facilities'),
+    marketingExpenses: at(activity, 'marketing'),
+    professionalServices: at(activity, 'professional'),
+    technologyExpenses: at(activity, 'technology'),
+    insuranceExpenses: at(activity, 'insurance'),
+    depreciationExpense: at(activity, 'depreciation'),
+    otherOperatingExpenses: at(activity, 'other_opex'),
+
+    interestExpense: at(activity, 'interest'),
+    nonOperatingIncome: at(activity, 'non_operating_income'),
+    incomeTaxExpense: at(activity, 'income_tax'),
+
+    endingCash: at(end, 'cash'),
+    beginningCash: at(begin, 'cash'),
+    accountsReceivable: at(end, 'receivables'),
+    inventory: at(end, 'inventory'),
+    prepaidAndOther: at(end, 'prepaid'),
+    fixedAssetsGross: at(end, 'fixed_assets'),
+    accumulatedDepreciation: -at(end, 'accumulated_depreciation'),
+    accountsPayable: at(end, 'payables'),
+    accruedLiabilities: at(end, 'accrued'),
+    shortTermDebt: at(end, 'short_term_debt'),
+    longTermDebt: at(end, 'long_term_debt'),
+
+    priorAccountsReceivable: at(begin, 'receivables'),
+    priorInventory: at(begin, 'inventory'),
+    priorPrepaidAndOther: at(begin, 'prepaid'),
+    priorAccountsPayable: at(begin, 'payables'),
+    priorAccruedLiabilities: at(begin, 'accrued'),
+
+    beginningEquity: money(netAssets(beginNet, lookup)),
+    // Direct postings to retained earnings / opening equity count as contributions
+    capitalContributions: money(at(activity, 'contributions') + at(activity, 'retained_earnings')),
+    ownerDraws: -at(activity, 'draws'),
+
+    capitalExpenditures: money(Math.max(0, fixedChange)),
+    assetSaleProceeds: money(Math.max(0, -fixedChange)),
+    newBorrowings: money(Math.max(0, debtChange)),
+    debtRepayments: money(Math.max(0, -debtChange)),
+  }
+}
+
+/** All four statements for an entity and date range, from the ledger */
+export function ledgerFinancialStatements(
+  state: FortunaState,
+  entityId: string,
+  periodStart: string,
+  periodEnd: string,
+  period?: string,
+): FinancialStatements {
+  return generateFinancialStatements(ledgerStatementsInput(state, entityId, periodStart, periodEnd, period))
+}
@@ -2,13 +2,15 @@
  * Fortuna Engine - Goal-Based Reverse Planner
  * Works backward from financial targets to calculate required income,
  * savings rates, and optimal structure to hit goals.
+ * Debt payoff goals run the debt-optimizer amortization engine.
  */
 
 import type { FortunaState, FinancialGoal as StorageGoal } from './storage'
 import { generateTaxReport } from './tax-calculator'
 import { generateCashFlow, type CashFlowConfig } from './cash-flow'
+import { simulatePayoff, requiredExtraForPayoff, type PayoffOptions, type PayoffMilestone, type PayoffStrategy } from './debt-optimizer'
 
-export type GoalType = 'after_tax_income' | 'savings_target' | 'retirement_balance' | 'tax_bill_limit' | 'monthly_net'
+export type GoalType = 'after_tax_income' | 'savings_target' | 'retirement_balance' | 'tax_bill_limit' | 'monthly_net' | 'debt_payoff'
 
 export interface FinancialGoal {
   id: string
@@ -18,6 +20,17 @@ export interface FinancialGoal {
   deadline?: string // ISO date
   deadlineMonths?: number
   priority: 'critical' | 'high' | 'medium'
+  liabilityIds?: string[] // debt_payoff: restrict to these liabilities (default all)
+}
+
+export interface DebtPayoffTimeline {
+  strategy: PayoffStrategy
+  requiredExtraMonthly: number | null // null = not reachable by the deadline
+  monthsToDebtFree: number | null
+  debtFreeDate: string | null
+  payoffDates: PayoffMilestone[]
+  totalInterest: number
+  afterTaxInterest: number
 }
 
 export interface GoalPlan {
@@ -48,6 +61,9 @@ export interface GoalPlan {
   
   // Sensitivity
   ifYouEarnMore: { extraMonthly: number; monthsSaved: number }[]
+
+  // debt_payoff goals only
+  debtPayoff?: DebtPayoffTimeline
 }
 
 export interface MonthlyMilestone {
@@ -65,6 +81,7 @@ const GOAL_LABELS: Record<GoalType, string> = {
   retirement_balance: 'Retirement Target',
   tax_bill_limit: 'Tax Bill Ceiling',
   monthly_net: 'Monthly Take-Home Target',
+  debt_payoff: 'Debt-Free Target',
 }
 
 export { GOAL_LABELS }
@@ -81,6 +98,8 @@ export function calculateGoalPlan(goal: FinancialGoal, state: FortunaState): Goa
   let feasible = true
   let progressPercent = 0
   let requiredMonthlySavings = 0
+  let debtPayoff: DebtPayoffTimeline | undefined
+  let payoffMonths: ReturnType<typeof simulatePayoff>['months'] = []
 
   switch (goal.type) {
     case 'after_tax_income': {
@@ -158,6 +177,40 @@ export function calculateGoalPlan(goal: FinancialGoal, state: FortunaState): Goa
       progressPercent = Math.min(100, ((currentAfterTax / 12) / goal.targetAmount) * 100)
       break
     }
+
+    case 'debt_payoff': {
+      // Smallest extra payment (avalanche order) that clears the debts by the deadline
+      const debts = (state.liabilities || []).filter(l =>
+        l.principalBalance > 0 && (!goal.liabilityIds?.length || goal.liabilityIds.includes(l.id)))
+      const options: PayoffOptions = {
+        strategy: 'avalanche',
+        marginalTaxRate: report.marginalRate,
+        itemizes: report.deductionUsed === 'itemized',
+      }
+      const currentMonthlySurplus = (currentAfterTax / 12) - (state.expenses.reduce((s, e) => s + e.annualAmount, 0) / 12)
+      const capacity = Math.max(0, currentMonthlySurplus)
+      const requiredExtra = requiredExtraForPayoff(debts, monthsToDeadline, options)
+      const payoff = simulatePayoff(debts, { ...options, extraMonthly: requiredExtra ?? capacity })
+
+      feasible = requiredExtra !== null
+      requiredMonthlySavings = requiredExtra ?? 0
+      requiredGross = requiredExtra !== null && requiredExtra > capacity
+        ? currentGross + Math.round((requiredExtra - capacity) * 12 / (1 - currentEffRate))
+        : currentGross
+      incomeGap = Math.max(0, requiredGross - currentGross)
+      progressPercent = requiredExtra === 0 ? 100 : requiredExtra ? Math.min(100, (capacity / requiredExtra) * 100) : 0
+      payoffMonths = payoff.months
+      debtPayoff = {
+        strategy: payoff.strategy,
+        requiredExtraMonthly: requiredExtra,
+        monthsToDebtFree: payoff.monthsToDebtFree,
+        debtFreeDate: payoff.debtFreeDate,
+        payoffDates: payoff.payoffDates,
+        totalInterest: payoff.totalInterest,
+        afterTaxInterest: payoff.afterTaxInterest,
+      }
+      break
+    }
   }
 
   const onTrack = progressPercent >= 80
@@ -183,6 +236,23 @@ export function calculateGoalPlan(goal: FinancialGoal, state: FortunaState): Goa
         onTrack: cumulativeSaved >= targetAtMonth * 0.9,
       })
     }
+  } else if (goal.type === 'debt_payoff') {
+    // Cumulative principal retired vs. a straight-line pace to the deadline
+    let retired = 0
+    for (const m of payoffMonths.slice(0, 24)) {
+      retired += m.totalPrincipal
+      const monthIdx = (now.getMonth() + m.month) % 12
+      const year = now.getFullYear() + Math.floor((now.getMonth() + m.month) / 12)
+      const targetAtMonth = Math.round((goal.targetAmount / monthsToDeadline) * Math.min(m.month, monthsToDeadline))
+      monthlyPlan.push({
+        month: m.month,
+        label: `${monthNames[monthIdx]} '${String(year).slice(2)}`,
+        cumulativeSaved: Math.round(retired),
+        targetAtMonth,
+        surplus: Math.round(retired) - targetAtMonth,
+        onTrack: retired >= targetAtMonth * 0.9,
+      })
+    }
   }
 
   // Entity optimization estimate
@@ -220,6 +290,7 @@ export function calculateGoalPlan(goal: FinancialGoal, state: FortunaState): Goa
     onTrack,
     monthlyPlan,
     ifYouEarnMore: sensitivities,
+    debtPayoff,
   }
 }
 
@@ -268,6 +339,15 @@ export function getPresetGoals(state: FortunaState): FinancialGoal[] {
     })
   }
 
+  // Preset: Debt-free in 3 years
+  const totalDebt = (state.liabilities || []).reduce((s, l) => s + Math.max(0, l.principalBalance), 0)
+  if (totalDebt > 0) {
+    goals.push({
+      id: 'debt-free', type: 'debt_payoff', name: 'Debt-Free in 3 Years',
+      targetAmount: Math.round(totalDebt), deadlineMonths: 36, priority: 'high',
+    })
+  }
+
   // Preset: $8k/month take-home
   goals.push({
     id: 'monthly-8k', type: 'monthly_net', name: '$8,000/Month Take-Home',
@@ -285,13 +365,14 @@ const GOAL_TYPE_MAP: Record<GoalType, StorageGoal['type']> = {
   retirement_balance: 'retirement',
   tax_bill_limit: 'tax_reduction',
   monthly_net: 'income_growth',
+  debt_payoff: 'debt_payoff',
 }
 
 const STORAGE_TO_GOAL_TYPE: Record<string, GoalType> = {
   savings: 'savings_target',
   tax_reduction: 'tax_bill_limit',
   retirement: 'retirement_balance',
-  debt_payoff: 'savings_target',
+  debt_payoff: 'debt_payoff',
   investment: 'savings_target',
   income_growth: 'after_tax_income',
   entity_setup: 'savings_target',
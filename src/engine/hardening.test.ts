@@ -6,9 +6,11 @@
  *   2. Input Validation: IRS limits, domain rules, field validators
  *   3. QuickBooks Parsers: IIF, OFX/QBO, COA mapping
  *   4. State Integrity: referential integrity, migration, defaults
+ *   5. Vault: passphrase encryption round-trips and rejection, sealed bank-feed tokens
+ *   6. Sync Merge: record-level three-way merge and conflict resolution
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { createDefaultState, type FortunaState } from './storage'
 
 // ─── Data Safety Tests ────────────────────────────────────────────────────
@@ -585,3 +587,132 @@ describe('state integrity', () => {
     expect(result.warningCount + result.infoCount + result.errorCount).toBe(result.issues.length)
   })
 })
+
+// ─── Vault Tests ──────────────────────────────────────────────────────────
+
+import {
+  createVaultMeta, openVault, encryptJSON, decryptJSON,
+  encryptWithPassphrase, decryptWithPassphrase, VaultError,
+} from './vault'
+import { Storage } from './storage'
+import { saveAccounts, loadAccounts, saveTransactions, loadTransactions, type BankTransaction as FeedTransaction } from './bank-feed'
+
+describe('vault encryption', () => {
+  it('should round-trip state through a passphrase envelope', async () => {
+    const state = createDefaultState()
+    const envelope = await encryptWithPassphrase(state, 'correct horse battery')
+    expect(JSON.stringify(envelope)).not.toContain('"profile"')
+    const restored = await decryptWithPassphrase<FortunaState>(envelope, 'correct horse battery')
+    expect(restored).toEqual(state)
+  })
+
+  it('should reject a wrong passphrase', async () => {
+    const envelope = await encryptWithPassphrase({ secret: 1 }, 'correct horse battery')
+    await expect(decryptWithPassphrase(envelope, 'wrong passphrase')).rejects.toMatchObject({ code: 'BAD_PASSPHRASE' })
+  })
+
+  it('should open a vault only with its passphrase', async () => {
+    const { meta, key } = await createVaultMeta('correct horse battery', 15)
+    const sealed = await encryptJSON({ a: 1 }, key)
+    const reopened = await openVault(meta, 'correct horse battery')
+    expect(await decryptJSON(sealed, reopened)).toEqual({ a: 1 })
+    await expect(openVault(meta, 'not the passphrase')).rejects.toBeInstanceOf(VaultError)
+  })
+
+  it('should enforce minimum passphrase length', async () => {
+    await expect(createVaultMeta('short')).rejects.toMatchObject({ code: 'BAD_PASSPHRASE' })
+  })
+
+  it('should keep bank access tokens out of localStorage while the vault is on', async () => {
+    const store = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => { store.set(k, v) },
+      removeItem: (k: string) => { store.delete(k) },
+    })
+    const txn: FeedTransaction = {
+      id: 't1', accountId: 'chk', date: '2026-01-05', description: 'Office Depot', amount: 42, category: 'office_expense',
+      subcategory: '', isBusinessExpense: true, isRecurring: false, tags: [], notes: '', reviewed: false,
+    }
+    try {
+      await saveAccounts([{
+        id: 'chk', institutionName: 'First Bank', accountName: 'Checking', accountType: 'checking', mask: '1234',
+        currentBalance: 5000, isBusinessAccount: true, accessToken: 'access-sandbox-secret-token',
+      }])
+      await saveTransactions([txn])
+      expect(store.get('fortuna:bank-accounts')).toContain('access-sandbox-secret-token')
+
+      await Storage.enableVault('correct horse battery', 0)
+      const plaintext = [...store.values()].join('\n')
+      expect(plaintext).not.toContain('access-sandbox-secret-token')
+      expect(plaintext).not.toContain('Office Depot')
+      expect((await loadAccounts())[0].accessToken).toBe('access-sandbox-secret-token')
+
+      await saveAccounts([{ ...(await loadAccounts())[0], accessToken: 'access-sandbox-rotated' }])
+      expect([...store.values()].join('\n')).not.toContain('access-sandbox-rotated')
+      Storage.lockVault()
+      await expect(loadTransactions()).rejects.toMatchObject({ code: 'LOCKED' })
+    } finally {
+      await Storage.disableVault('correct horse battery').catch(() => {})
+      vi.unstubAllGlobals()
+    }
+  })
+})
+
+// ─── Sync Merge Tests ─────────────────────────────────────────────────────
+
+import { threeWayMerge, applyResolutions } from './sync-merge'
+import type { IncomeStream } from './storage'
+
+describe('sync merge: three-way', () => {
+  const stream = (id: string, amount: number): IncomeStream => ({
+    id, name: `Stream ${id}`, type: 'w2', annualAmount: amount, isActive: true,
+  })
+
+  function baseState(): FortunaState {
+    const state = createDefaultState()
+    state.incomeStreams = [stream('a', 50000), stream('b', 20000)]
+    return state
+  }
+
+  it('should keep edits to different records from both sides', () => {
+    const base = baseState()
+    const local = baseState()
+    const remote = baseState()
+    local.incomeStreams[0].annualAmount = 55000
+    remote.incomeStreams[1].annualAmount = 25000
+
+    const { merged, conflicts } = threeWayMerge(base, local, remote)
+    expect(conflicts).toHaveLength(0)
+    expect(merged.incomeStreams.map(s => s.annualAmount)).toEqual([55000, 25000])
+  })
+
+  it('should honor additions and deletions from either side', () => {
+    const base = baseState()
+    const local = baseState()
+    const remote = baseState()
+    local.incomeStreams.push(stream('c', 1000))
+    remote.incomeStreams = remote.incomeStreams.filter(s => s.id !== 'b')
+
+    const { merged, conflicts } = threeWayMerge(base, local, remote)
+    expect(conflicts).toHaveLength(0)
+    expect(merged.incomeStreams.map(s => s.id)).toEqual(['a', 'c'])
+  })
+
+  it('should report records changed on both sides and apply choices', () => {
+    const base = baseState()
+    const local = baseState()
+    const remote = baseState()
+    local.incomeStreams[0].annualAmount = 60000
+    remote.incomeStreams[0].annualAmount = 70000
+    remote.profile.state = 'TX'
+
+    const { merged, conflicts } = threeWayMerge(base, local, remote)
+    expect(conflicts.map(c => c.key)).toEqual(['incomeStreams:a'])
+    expect(merged.incomeStreams[0].annualAmount).toBe(60000)
+    expect(merged.profile.state).toBe('TX')
+
+    const resolved = applyResolutions(merged, conflicts, { 'incomeStreams:a': 'remote' })
+    expect(resolved.incomeStreams[0].annualAmount).toBe(70000)
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Import Pipeline — Test Suite
+ * Validates: payee normalization, FITID and fuzzy duplicates, commit provenance, rollback of created records, bank-feed rows already imported from a file
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState } from './storage'
+import {
+  parseImportFile, stageImport, setRowAction, summarizeStaged, commitImport, rollbackImport, normalizePayee, commitBankFeed,
+} from './import-pipeline'
+
+describe('import pipeline', () => {
+  const now = new Date('2025-07-01T12:00:00Z')
+  const ofx = (rows: [string, number, string, string][]) => `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD
+<BANKACCTFROM><BANKID>111<ACCTID>CHK-1<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+${rows.map(([date, amount, fitId, name]) => `<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>${date}<TRNAMT>${amount}<FITID>${fitId}<NAME>${name}</STMTTRN>`).join('\n')}
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`
+
+  const base = () => ({
+    ...createDefaultState(),
+    auditHistory: [
+      { id: 'old-1', date: '2025-06-02', description: 'SQ *BLUE BOTTLE #12', amount: -6.5, isReconciled: false },
+      { id: 'old-2', date: '2025-06-10', description: 'Adobe', amount: -55, isReconciled: false, fitId: 'F2', accountName: 'CHK-1' },
+    ],
+  })
+
+  it('normalizes processor prefixes and store numbers out of payees', () => {
+    expect(normalizePayee('SQ *BLUE BOTTLE #12')).toBe('blue bottle')
+    expect(normalizePayee('POS DEBIT Blue Bottle Coffee 4421')).toBe('blue bottle coffee')
+  })
+
+  it('flags FITID and fuzzy duplicates and skips them by default', () => {
+    const parsed = parseImportFile(ofx([
+      ['20250603', -6.5, 'F1', 'POS DEBIT Blue Bottle Coffee'],
+      ['20250610', -55, 'F2', 'ADOBE SYSTEMS'],
+      ['20250611', -55, 'F3', 'ADOBE SYSTEMS'],
+      ['20250612', -20, 'F4', 'GITHUB'],
+    ]), 'ofx')
+    expect(parsed.rows[0]).toMatchObject({ date: '2025-06-03', accountName: 'CHK-1', fitId: 'F1' })
+
+    const staged = stageImport(parsed, 'ofx', base(), { label: 'june.ofx', now })
+    expect(staged.rows.map(r => r.match?.reason)).toEqual(['fuzzy', 'fitid', undefined, undefined])
+    expect(staged.rows.map(r => r.action)).toEqual(['skip', 'skip', 'accept', 'accept'])
+    expect(summarizeStaged(staged)).toMatchObject({ duplicates: 2, exact: 1, accept: 2, skip: 2 })
+    expect(staged.rows[3].category).toBe('software')
+  })
+
+  it('commits with provenance and rolls the whole import back', () => {
+    const state = base()
+    let staged = stageImport(parseImportFile(ofx([
+      ['20250603', -6.5, 'F1', 'Blue Bottle Coffee'],
+      ['20250612', -20, 'F4', 'GITHUB'],
+    ]), 'ofx'), 'ofx', state, { now })
+    staged = setRowAction(staged, staged.rows[0].rowId, 'merge')
+    staged = setRowAction(staged, staged.rows[1].rowId, 'merge')   // no match — ignored
+    expect(staged.rows[1].action).toBe('accept')
+
+    const { state: committed, record } = commitImport(state, staged, now)
+    expect(committed.auditHistory).toHaveLength(3)
+    expect(committed.auditHistory[2]).toMatchObject({ sourceId: staged.id, fitId: 'F4', accountName: 'CHK-1' })
+    expect(committed.auditHistory[0]).toMatchObject({ fitId: 'F1', accountName: 'CHK-1' })
+    expect(record).toMatchObject({ transactionIds: [committed.auditHistory[2].id], skipped: 0 })
+    expect(committed.imports).toHaveLength(1)
+
+    // Re-importing the same file is a no-op
+    const again = stageImport(parseImportFile(ofx([['20250612', -20, 'F4', 'GITHUB']]), 'ofx'), 'ofx', committed, { now })
+    expect(again.rows[0]).toMatchObject({ action: 'skip', match: { reason: 'fitid' } })
+
+    const rolledBack = rollbackImport(committed, record.id, now)
+    expect(rolledBack.auditHistory).toEqual(state.auditHistory)
+    expect(rolledBack.imports[0].rolledBackAt).toBe(now.toISOString())
+    expect(rollbackImport(rolledBack, record.id, now)).toBe(rolledBack)
+  })
+
+  it('matches each existing row at most once', () => {
+    const parsed = parseImportFile('Date,Description,Amount\n06/02/2025,Blue Bottle,-6.50\n06/02/2025,Blue Bottle,-6.50', 'csv')
+    const staged = stageImport(parsed, 'csv', base(), { now })
+    expect(staged.rows.map(r => r.action)).toEqual(['skip', 'accept'])
+  })
+
+  it('rolls back the income streams, expenses and entities an import created', () => {
+    const state = base()
+    const staged = stageImport(parseImportFile(ofx([['20250612', -20, 'F4', 'GITHUB']]), 'ofx'), 'ofx', state, { now })
+    const { state: committed, record } = commitImport(state, staged, now, {
+      incomeStreams: [{ name: 'Consulting', type: 'business', annualAmount: 1200 }],
+      expenses: [{ id: 'exp-1', category: 'Software', annualAmount: 20 }],
+      entities: [{ name: 'Studio LLC', type: 'llc' }],
+    })
+    expect(committed.incomeStreams).toHaveLength(state.incomeStreams.length + 1)
+    expect(record.created).toEqual({
+      incomeStreams: [`${staged.id}_inc0`], expenses: ['exp-1'], entities: [`${staged.id}_ent0`],
+    })
+
+    const rolledBack = rollbackImport(committed, record.id, now)
+    expect(rolledBack.incomeStreams).toEqual(state.incomeStreams)
+    expect(rolledBack.expenses).toEqual(state.expenses)
+    expect(rolledBack.entities).toEqual(state.entities)
+  })
+
+  it('skips feed rows that an earlier file import already added under another account id', () => {
+    const fileImport = commitImport(base(), stageImport(parseImportFile(ofx([['20250612', -20, 'F4', 'GITHUB']]), 'ofx'), 'ofx', base(), { now }), now)
+    const feed = commitBankFeed(fileImport.state, [{
+      id: 'plaid-9', accountId: 'plaid-acct-1', connectionId: 'c', provider: 'plaid', amount: 20, type: 'debit', date: '2025-06-12',
+      pending: false, name: 'GITHUB', category: { primary: 'Other' }, paymentChannel: 'online',
+      taxRelevance: { isDeductible: false, deductionPct: 0, isTaxPayment: false, is1099Reportable: false }, isoCurrencyCode: 'USD', providerTransactionId: 'plaid-9',
+    }], { now })
+    expect(feed.staged.rows[0]).toMatchObject({ action: 'skip', match: { reason: 'fuzzy' } })
+    expect(feed.state.auditHistory).toHaveLength(3)
+  })
+})
@@ -0,0 +1,482 @@
+/**
+ * Fortuna Engine — Unified Import Pipeline
+ *
+ * Every transaction import path runs through the same stages:
+ *   1. Parse     — CSV / OFX / QIF / IIF files and bank-feed batches
+ *   2. Normalize — ISO dates, cent-rounded amounts, normalized payee keys
+ *   3. Detect    — FITID match, then fuzzy match (date window, amount, payee)
+ *                  against auditHistory
+ *   4. Preview   — accept / skip / merge per row
+ *   5. Commit    — new rows carry the import id as sourceId; an ImportRecord
+ *                  keeps enough to roll the whole import back
+ *
+ * Amounts use storage polarity: positive = income, negative = expense.
+ */
+
+import type { FortunaState, BankTransaction, ImportRecord, ImportSource, IncomeStream, BusinessExpense, LegalEntity } from './storage'
+import type { FinTechTransaction } from './fintech-models'
+import { parseCSV, normalizeDate, type RawTransaction } from './data-import'
+import { parseOFX, parseQIF } from './qb-ofx-parser'
+import { parseIIF } from './qb-iif-parser'
+import { bridgeTransactions } from './fintech-bridge'
+import { buildCategorizer, categorize } from './categorizer'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface NormalizedRow {
+  rowId: string
+  date: string                    // YYYY-MM-DD
+  description: string
+  payee: string                   // normalizePayee(description)
+  amount: number                  // Positive = income, negative = expense
+  fitId?: string
+  accountName?: string
+  category?: string
+  merchantName?: string
+  memo?: string
+  isReconciled?: boolean
+}
+
+export type RowAction = 'accept' | 'skip' | 'merge'
+
+export interface DuplicateMatch {
+  transactionId: string
+  reason: 'fitid' | 'fuzzy'
+  score: number                   // 0-1
+  dayDiff: number
+  payeeSimilarity: number
+}
+
+export interface StagedRow extends NormalizedRow {
+  match?: DuplicateMatch
+  action: RowAction
+}
+
+export interface StagedImport {
+  id: string
+  source: ImportSource
+  label: string
+  accountName?: string
+  stagedAt: string
+  rows: StagedRow[]
+  errors: string[]
+}
+
+export interface StageOptions {
+  label?: string
+  accountName?: string
+  dateWindowDays?: number         // Fuzzy match window either side of the row date
+  minScore?: number               // Fuzzy matches below this are not duplicates
+  now?: Date
+}
+
+export interface ParsedImport {
+  rows: NormalizedRow[]
+  accountName?: string
+  errors: string[]
+}
+
+/** Records a file import adds beside its audit-history rows; rollback removes them too */
+export interface ImportCreated {
+  incomeStreams?: Partial<IncomeStream>[]
+  expenses?: Partial<BusinessExpense>[]
+  entities?: Partial<LegalEntity>[]
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const DEFAULT_DATE_WINDOW = 3
+const DEFAULT_MIN_SCORE = 0.6
+const MIN_PAYEE_SIMILARITY = 0.5
+const AMOUNT_TOLERANCE = 0.005
+
+/** Card processors and bank prefixes that hide the real payee */
+const PAYEE_PREFIXES = [
+  /^(pos|ach|dda|atm)\s+(debit|credit|purchase|withdrawal|deposit)\s+/,
+  /^(debit|credit|check)\s*card\s+(purchase\s+)?/,
+  /^(recurring\s+)?(purchase|payment|pmt|withdrawal|deposit)\s+(to|from|at)?\s*/,
+  /^(sq|tst|pp|paypal|sp|py|in|dd)\s*\*\s*/,
+]
+
+const PAYEE_NOISE = new Set(['inc', 'llc', 'ltd', 'co', 'corp', 'com', 'www', 'the', 'us', 'usa'])
+
+// ===================================================================
+//  NORMALIZE
+// ===================================================================
+
+/** Comparable payee key: lowercase, processor prefixes and store numbers removed */
+export function normalizePayee(text: string): string {
+  let s = text.toLowerCase().trim()
+  for (const re of PAYEE_PREFIXES) s = s.replace(re, '')
+  return s
+    .replace(/[#*]?\d[\d\-/]*/g, ' ')
+    .replace(/[^a-z&]+/g, ' ')
+    .split(' ')
+    .filter(t => t.length >= 2 && !PAYEE_NOISE.has(t))
+    .slice(0, 4)
+    .join(' ')
+}
+
+/** Dice coefficient on payee tokens; a prefix match of one onto the other counts as 1 */
+export function payeeSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b || a.startsWith(b) || b.startsWith(a)) return 1
+  const ta = new Set(a.split(' '))
+  const tb = new Set(b.split(' '))
+  let shared = 0
+  for (const t of ta) if (tb.has(t)) shared++
+  return (2 * shared) / (ta.size + tb.size)
+}
+
+/** QIF writes years as 1/15'24; everything else goes through normalizeDate */
+function importDate(raw: string): string {
+  return normalizeDate(raw.trim().replace(/'\s*/, '/'))
+}
+
+function cents(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function dayDiff(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000
+}
+
+export function normalizeRow(
+  row: Omit<NormalizedRow, 'payee' | 'rowId'> & { rowId?: string },
+  index: number,
+): NormalizedRow {
+  const description = row.description.trim() || 'Imported transaction'
+  return {
+    ...row,
+    rowId: row.rowId || `r${index}`,
+    date: importDate(row.date),
+    description,
+    payee: normalizePayee(row.merchantName || description),
+    amount: cents(row.amount),
+  }
+}
+
+// ===================================================================
+//  PARSE
+// ===================================================================
+
+export function rowsFromRaw(raw: RawTransaction[], accountName?: string): NormalizedRow[] {
+  return raw.map((tx, i) => normalizeRow({
+    date: tx.date, description: tx.description, amount: tx.amount,
+    fitId: tx.fitId, memo: tx.memo, category: tx.category, accountName,
+  }, i))
+}
+
+export function parseImportFile(content: string, source: Exclude<ImportSource, 'bank_feed'>): ParsedImport {
+  switch (source) {
+    case 'csv':
+      return { rows: rowsFromRaw(parseCSV(content)), errors: [] }
+
+    case 'ofx': {
+      const result = parseOFX(content)
+      const rows: NormalizedRow[] = []
+      for (const stmt of result.statements) {
+        const accountName = stmt.bankAccount?.accountId || stmt.creditCardAccount?.accountId
+        for (const tx of stmt.transactions) {
+          rows.push(normalizeRow({
+            date: tx.dateISO, description: tx.name || tx.memo || `${tx.type} transaction`,
+            amount: tx.amount, fitId: tx.fitId || undefined, memo: tx.memo, accountName,
+          }, rows.length))
+        }
+      }
+      const first = result.statements[0]
+      return {
+        rows,
+        accountName: first?.bankAccount?.accountId || first?.creditCardAccount?.accountId,
+        errors: result.errors.map(e => e.message),
+      }
+    }
+
+    case 'qif': {
+      const result = parseQIF(content)
+      return {
+        rows: result.transactions.map((tx, i) => normalizeRow({
+          date: tx.date, description: tx.payee || tx.memo || 'QIF transaction', amount: tx.amount,
+          memo: tx.memo, category: tx.category, accountName: result.accountName,
+          isReconciled: tx.cleared === 'X' || tx.cleared === '*',
+        }, i)),
+        accountName: result.accountName,
+        errors: [],
+      }
+    }
+
+    case 'iif': {
+      const result = parseIIF(content)
+      return {
+        rows: result.transactions.map((tx, i) => normalizeRow({
+          date: tx.header.date,
+          description: tx.header.name || tx.header.memo || `${tx.header.trnsType} transaction`,
+          amount: tx.header.amount, memo: tx.header.memo, accountName: tx.header.account,
+          isReconciled: tx.header.clear === 'Y',
+        }, i)),
+        errors: result.errors.map(e => `Line ${e.line}: ${e.message}`),
+      }
+    }
+  }
+}
+
+/** Bank-feed batches use the bridge's categories; the provider's id is the FITID */
+export function rowsFromBankFeed(transactions: FinTechTransaction[], state?: FortunaState): NormalizedRow[] {
+  const { bankTransactions } = bridgeTransactions(transactions, state ? buildCategorizer(state) : null)
+  return bankTransactions.map((bt, i) => normalizeRow({
+    date: bt.date, description: bt.description, amount: bt.amount, category: bt.category,
+    merchantName: bt.merchantName, accountName: bt.accountName, isReconciled: bt.isReconciled,
+    fitId: transactions[i].id,
+  }, i))
+}
+
+// ===================================================================
+//  DETECT
+// ===================================================================
+
+function matchScore(row: NormalizedRow, tx: BankTransaction, window: number): DuplicateMatch | null {
+  const sameAccount = !row.accountName || !tx.accountName || row.accountName === tx.accountName
+
+  if (row.fitId && tx.fitId && sameAccount) {
+    if (row.fitId !== tx.fitId) return null   // Distinct institution ids — never the same row
+    return { transactionId: tx.id, reason: 'fitid', score: 1, dayDiff: dayDiff(row.date, tx.date), payeeSimilarity: 1 }
+  }
+
+  if (Math.abs(row.amount - cents(tx.amount)) > AMOUNT_TOLERANCE) return null
+  const days = dayDiff(row.date, tx.date)
+  if (!(days <= window)) return null
+  const similarity = payeeSimilarity(row.payee, normalizePayee(tx.merchantName || tx.description))
+  if (similarity < MIN_PAYEE_SIMILARITY) return null
+
+  const score = 0.6 * similarity + 0.4 * (1 - days / (window + 1))
+  return { transactionId: tx.id, reason: 'fuzzy', score: Math.round(score * 1000) / 1000, dayDiff: days, payeeSimilarity: similarity }
+}
+
+/**
+ * Best one-to-one duplicate matches. Pairs are assigned greedily by score so
+ * two identical coffees in a file only consume one existing coffee.
+ */
+export function findDuplicates(
+  rows: NormalizedRow[],
+  existing: BankTransaction[],
+  options: Pick<StageOptions, 'dateWindowDays' | 'minScore'> = {},
+): Map<string, DuplicateMatch> {
+  const window = options.dateWindowDays ?? DEFAULT_DATE_WINDOW
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE
+
+  const candidates: { rowId: string; match: DuplicateMatch }[] = []
+  for (const row of rows) {
+    for (const tx of existing) {
+      const match = matchScore(row, tx, window)
+      if (match && match.score >= minScore) candidates.push({ rowId: row.rowId, match })
+    }
+  }
+  candidates.sort((a, b) => b.match.score - a.match.score || a.match.dayDiff - b.match.dayDiff)
+
+  const matches = new Map<string, DuplicateMatch>()
+  const claimed = new Set<string>()
+  for (const { rowId, match } of candidates) {
+    if (matches.has(rowId) || claimed.has(match.transactionId)) continue
+    matches.set(rowId, match)
+    claimed.add(match.transactionId)
+  }
+  return matches
+}
+
+// ===================================================================
+//  PREVIEW
+// ===================================================================
+
+/** Detect duplicates and fill missing categories; duplicates default to skip */
+export function stageImport(
+  parsed: ParsedImport,
+  source: ImportSource,
+  state: FortunaState,
+  options: StageOptions = {},
+): StagedImport {
+  const now = options.now ?? new Date()
+  const existing = state.auditHistory || []
+  const matches = findDuplicates(parsed.rows, existing, options)
+  const model = buildCategorizer(state)
+
+  // FITIDs repeated inside one file are the institution re-sending a row
+  const seenFitIds = new Set<string>()
+  const rows: StagedRow[] = parsed.rows.map(row => {
+    const match = matches.get(row.rowId)
+    const repeated = !!row.fitId && seenFitIds.has(`${row.accountName}|${row.fitId}`)
+    if (row.fitId) seenFitIds.add(`${row.accountName}|${row.fitId}`)
+
+    let category = row.category
+    if (!category) {
+      const result = categorize({ description: row.description, merchantName: row.merchantName, amount: row.amount }, model)
+      if (result.source !== 'none') category = result.category
+    }
+    return { ...row, category, match, action: match || repeated ? 'skip' : 'accept' }
+  })
+
+  return {
+    id: `imp_${now.getTime().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    source,
+    label: options.label || source.toUpperCase(),
+    accountName: options.accountName ?? parsed.accountName,
+    stagedAt: now.toISOString(),
+    rows,
+    errors: parsed.errors,
+  }
+}
+
+/** Change one row's action; merge needs a matched transaction */
+export function setRowAction(staged: StagedImport, rowId: string, action: RowAction): StagedImport {
+  return {
+    ...staged,
+    rows: staged.rows.map(r =>
+      r.rowId === rowId && (action !== 'merge' || r.match) ? { ...r, action } : r),
+  }
+}
+
+export function summarizeStaged(staged: StagedImport): {
+  total: number; accept: number; skip: number; merge: number; duplicates: number; exact: number
+} {
+  const count = (action: RowAction) => staged.rows.filter(r => r.action === action).length
+  return {
+    total: staged.rows.length,
+    accept: count('accept'),
+    skip: count('skip'),
+    merge: count('merge'),
+    duplicates: staged.rows.filter(r => r.match).length,
+    exact: staged.rows.filter(r => r.match?.reason === 'fitid').length,
+  }
+}
+
+// ===================================================================
+//  COMMIT & ROLLBACK
+// ===================================================================
+
+/** Fields a merge may fill on the existing transaction; it never overwrites */
+const MERGE_FIELDS = ['fitId', 'merchantName', 'accountName', 'category'] as const
+
+export function commitImport(
+  state: FortunaState,
+  staged: StagedImport,
+  now: Date = new Date(),
+  created: ImportCreated = {},
+): { state: FortunaState; record: ImportRecord } {
+  const added: BankTransaction[] = []
+  const merges: ImportRecord['merges'] = []
+  const patches = new Map<string, Partial<BankTransaction>>()
+
+  for (const row of staged.rows) {
+    if (row.action === 'accept') {
+      added.push({
+        id: `${staged.id}_${row.rowId}`,
+        date: row.date,
+        description: row.description,
+        amount: row.amount,
+        category: row.category,
+        isReconciled: row.isReconciled ?? false,
+        accountName: row.accountName ?? staged.accountName,
+        merchantName: row.merchantName,
+        fitId: row.fitId,
+        sourceId: staged.id,
+      })
+    } else if (row.action === 'merge' && row.match) {
+      const target = state.auditHistory.find(t => t.id === row.match!.transactionId)
+      if (!target || patches.has(target.id)) continue
+      const patch: Partial<BankTransaction> = {}
+      for (const field of MERGE_FIELDS) {
+        const incoming = row[field]
+        if (incoming && !target[field]) patch[field] = incoming
+      }
+      patches.set(target.id, patch)
+      merges.push({ transactionId: target.id, fields: Object.keys(patch) })
+    }
+  }
+
+  // Parsers leave some records without ids; rollback needs one on each
+  const withIds = <T extends { id?: string }>(rows: T[] | undefined, prefix: string) =>
+    (rows || []).map((r, i) => ({ ...r, id: r.id || `${staged.id}_${prefix}${i}` }))
+  const incomeStreams = withIds(created.incomeStreams, 'inc') as IncomeStream[]
+  const expenses = withIds(created.expenses, 'exp') as BusinessExpense[]
+  const entities = withIds(created.entities, 'ent') as LegalEntity[]
+
+  const record: ImportRecord = {
+    id: staged.id,
+    source: staged.source,
+    label: staged.label,
+    accountName: staged.accountName,
+    importedAt: now.toISOString(),
+    transactionIds: added.map(t => t.id),
+    merges,
+    created: {
+      incomeStreams: incomeStreams.map(r => r.id),
+      expenses: expenses.map(r => r.id),
+      entities: entities.map(r => r.id),
+    },
+    skipped: staged.rows.filter(r => r.action === 'skip').length,
+  }
+
+  return {
+    state: {
+      ...state,
+      auditHistory: [
+        ...state.auditHistory.map(t => patches.has(t.id) ? { ...t, ...patches.get(t.id) } : t),
+        ...added,
+      ],
+      incomeStreams: [...(state.incomeStreams || []), ...incomeStreams],
+      expenses: [...(state.expenses || []), ...expenses],
+      entities: [...(state.entities || []), ...entities],
+      imports: [...(state.imports || []), record],
+    },
+    record,
+  }
+}
+
+/** Remove every row and record an import added and undo its merges */
+export function rollbackImport(state: FortunaState, importId: string, now: Date = new Date()): FortunaState {
+  const record = (state.imports || []).find(r => r.id === importId)
+  if (!record || record.rolledBackAt) return state
+
+  const without = <T extends { id: string }>(rows: T[], ids: string[] = []) => {
+    const drop = new Set(ids)
+    return drop.size > 0 ? rows.filter(r => !drop.has(r.id)) : rows
+  }
+
+  const added = new Set(record.transactionIds)
+  const restores = new Map(record.merges.map(m => [m.transactionId, m.fields]))
+
+  const auditHistory = state.auditHistory
+    .filter(t => !(added.has(t.id) && t.sourceId === importId))
+    .map(t => {
+      const fields = restores.get(t.id)
+      if (!fields?.length) return t
+      const restored: Record<string, unknown> = { ...t }
+      for (const field of fields) delete restored[field]
+      return restored as unknown as BankTransaction
+    })
+
+  return {
+    ...state,
+    auditHistory,
+    incomeStreams: without(state.incomeStreams || [], record.created?.incomeStreams),
+    expenses: without(state.expenses || [], record.created?.expenses),
+    entities: without(state.entities || [], record.created?.entities),
+    imports: state.imports.map(r => r.id === importId ? { ...r, rolledBackAt: now.toISOString() } : r),
+  }
+}
+
+/**
+ * Bank-feed syncs have no preview: rows already in auditHistory stay skipped
+ * and the rest commit under one ImportRecord per sync.
+ */
+export function commitBankFeed(
+  state: FortunaState,
+  transactions: FinTechTransaction[],
+  options: StageOptions = {},
+): { state: FortunaState; record: ImportRecord; staged: StagedImport } {
+  const staged = stageImport({ rows: rowsFromBankFeed(transactions, state), errors: [] }, 'bank_feed', state, options)
+  return { ...commitImport(state, staged, options.now), staged }
+}
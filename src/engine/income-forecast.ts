@@ -10,6 +10,7 @@
  *   - Scenario planning (best/expected/worst)
  *   - Safe harbor payment calculator
  *   - Year-end tax position forecast
+ *   - Invoice-aware entity forecasts and expected A/R collections
  */
 
 export interface ForecastResult {
@@ -386,7 +387,8 @@ export function forecastYearEnd(params: {
 
 // ─── Phase H: Entity-Aware Income Forecast ─────────────────────────────────
 
-import type { IncomeStream, EstimatedPayment } from './storage'
+import type { IncomeStream, EstimatedPayment, Invoice } from './storage'
+import { invoiceBalance } from './invoicing'
 
 export interface EntityForecast {
   entityId: string
@@ -397,19 +399,38 @@ export interface EntityForecast {
   growthTrend: 'growing' | 'stable' | 'declining'
 }
 
+/**
+ * Per-entity projection. `invoiced` is the year's invoice income (see
+ * invoiceIncomeByStream): billed income is a floor under a stream's estimate,
+ * and invoices not tied to a stream add to the entity's income.
+ */
 export function forecastByEntity(
   incomeStreams: IncomeStream[],
   expenses: { entityId?: string; annualAmount: number; isDeductible: boolean; deductionPct: number }[],
   entities: { id: string; name: string }[],
+  invoiced: { entityId: string; incomeStreamId?: string; amount: number }[] = [],
 ): EntityForecast[] {
   const entityIds = new Set<string>()
   incomeStreams.filter(s => s.isActive).forEach(s => entityIds.add(s.entityId || 'personal'))
   expenses.forEach(e => entityIds.add(e.entityId || 'personal'))
+  invoiced.forEach(i => entityIds.add(i.entityId))
+
+  const activeStreams = new Set(incomeStreams.filter(s => s.isActive).map(s => s.id))
+  const billedByStream = new Map<string, number>()
+  const unlinkedByEntity = new Map<string, number>()
+  for (const i of invoiced) {
+    if (i.incomeStreamId && activeStreams.has(i.incomeStreamId)) {
+      billedByStream.set(i.incomeStreamId, (billedByStream.get(i.incomeStreamId) || 0) + i.amount)
+    } else {
+      unlinkedByEntity.set(i.entityId, (unlinkedByEntity.get(i.entityId) || 0) + i.amount)
+    }
+  }
 
   return [...entityIds].map(eid => {
     const entityIncome = incomeStreams
       .filter(s => s.isActive && (s.entityId || 'personal') === eid)
-      .reduce((s, i) => s + i.annualAmount, 0)
+      .reduce((s, i) => s + Math.max(i.annualAmount, billedByStream.get(i.id) || 0), 0)
+      + (unlinkedByEntity.get(eid) || 0)
     const entityExpenses = expenses
       .filter(e => (e.entityId || 'personal') === eid && e.isDeductible)
       .reduce((s, e) => s + e.annualAmount * e.deductionPct / 100, 0)
@@ -426,6 +447,45 @@ export function forecastByEntity(
   })
 }
 
+// ─── Expected A/R Collections ───────────────────────────────────────────────
+
+export interface CollectionForecast {
+  month: string                // "2025-07"
+  expected: number             // Open balances due that month
+  overdue: number              // Past-due balances assumed collected in the first month
+}
+
+/**
+ * Cash expected from open invoices over the next `months` months, by due
+ * date. Anything already past due is assumed to land in the first month.
+ */
+export function forecastCollections(
+  invoices: Invoice[],
+  asOf: string,
+  months: number = 3,
+): CollectionForecast[] {
+  const start = new Date(`${asOf.slice(0, 7)}-01T00:00:00Z`)
+  const results: CollectionForecast[] = Array.from({ length: months }, (_, i) => {
+    const d = new Date(start)
+    d.setUTCMonth(d.getUTCMonth() + i)
+    return { month: d.toISOString().slice(0, 7), expected: 0, overdue: 0 }
+  })
+  if (results.length === 0) return results
+
+  for (const inv of invoices) {
+    const balance = inv.status === 'sent' ? invoiceBalance(inv) : 0
+    if (balance <= 0) continue
+    if (inv.dueDate < asOf.slice(0, 10)) {
+      results[0].overdue += balance
+      continue
+    }
+    const bucket = results.find(r => r.month === inv.dueDate.slice(0, 7))
+    if (bucket) bucket.expected += balance
+  }
+
+  return results.map(r => ({ ...r, expected: Math.round(r.expected), overdue: Math.round(r.overdue) }))
+}
+
 // ─── Phase G: Income Forecast → Estimated Payment Generation ────────────────
 
 export interface ComputedEstimatedPayments {
@@ -1,8 +1,9 @@
 /**
  * Cross-Process Integration Tests
- * Validates: carryforward propagation, bank-feed polarity, cost-basis entity, depreciation entity
+ * Validates: carryforward propagation, bank-feed polarity, cost-basis entity, depreciation entity,
+ * learned categories across sources, bank-feed sync dedup
  */
-import { describe, it, expect, afterEach } from 'vitest'
+import { describe, it, expect, afterEach, vi } from 'vitest'
 import { CostBasisTracker, detectCrossEntityWashSales } from './cost-basis'
 import { toStorageTransaction, fromStorageTransaction, transactionsToExpenses, type BankTransaction } from './bank-feed'
 import { generateDepreciationSummary, type BusinessAsset } from './depreciation-engine'
@@ -11,6 +12,12 @@ import { eventBus, detectStateChanges } from './event-bus'
 import { validateState, validateIncome, validateImportRow } from './validation'
 import { optimizeRothConversion } from './retirement-optimizer'
 import { compareScenariosBatch, generateSmartScenarios } from './scenario-modeler'
+import type { FortunaState, ReceiptRecord } from './storage'
+import { recordCorrection, buildCategorizer } from './categorizer'
+import { rollbackImport } from './import-pipeline'
+import { registerProvider, exchangeToken, syncConnection } from './fintech-connections'
+import { categorizeTransactions } from './data-import'
+import { categorizeReceiptAI } from './ai-categorization'
 
 // ── Bank-Feed Polarity Adapters ────────────────────────────────────────────
 
@@ -370,3 +377,79 @@ describe('batch scenario comparison', () => {
     }
   })
 })
+
+// ── Learned Categories Across Sources ──────────────────────────────────────
+
+describe('learned categories across sources', () => {
+  const now = new Date('2025-06-01T12:00:00Z')
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('applies learned categories to bank-feed syncs, file imports and receipts', async () => {
+    let state: FortunaState = { ...createDefaultState(), auditHistory: [{ id: 't1', date: '2025-05-01', description: 'Kinkos Print Shop', amount: -40, isReconciled: false }] }
+    state = recordCorrection(state, 't1', 'printing', now)
+    const model = buildCategorizer(state)
+
+    vi.stubGlobal('fetch', async (url: string) => {
+      const path = new URL(url).pathname
+      const body = path === '/item/public_token/exchange' ? { access_token: 'access-1', item_id: 'item-learned' }
+        : path === '/accounts/get' ? { accounts: [] }
+        : {
+          added: [{ transaction_id: 'p1', account_id: 'a1', amount: 25, date: '2025-06-03', pending: false, name: 'Kinkos Print Shop', payment_channel: 'in store', iso_currency_code: 'USD' }],
+          modified: [], removed: [], has_more: false, next_cursor: 'c1',
+        }
+      return new Response(JSON.stringify(body), { status: 200 })
+    })
+    registerProvider({ provider: 'plaid', clientId: 'learned-client', secret: 's', environment: 'sandbox', baseUrl: 'https://sandbox.plaid.com' })
+    const connection = await exchangeToken('plaid_learned-', 'public-1')
+    const synced = await syncConnection(connection.id, { fortunaState: state })
+    expect(synced.bridge.patch.auditHistory?.at(-1)).toMatchObject({ fitId: 'p1', category: 'printing' })
+
+    const [row] = categorizeTransactions([{ date: '2025-06-04', description: 'KINKOS PRINT SHOP #9', amount: -18 }], model)
+    expect(row).toMatchObject({ learnedCategory: 'printing', suggestedExpenseCategory: 'printing' })
+
+    const receipt = {
+      id: 'r1', merchantName: 'Kinkos Print Shop', date: '2025-06-05', totalAmount: 12, status: 'needs_review',
+      items: [{ id: 'i1', description: 'Flyers', amount: 12, status: 'needs_review' }],
+    } as unknown as ReceiptRecord
+    const result = await categorizeReceiptAI(receipt, [], model)
+    expect(result).toMatchObject({ category: 'printing', confidence: 'high', lineItemAllocations: [{ itemId: 'i1', category: 'printing' }] })
+  })
+})
+
+// ── Bank-Feed Sync Through the Import Pipeline ─────────────────────────────
+
+describe('bank-feed sync through the import pipeline', () => {
+  const now = new Date('2025-07-01T12:00:00Z')
+  const base = () => ({
+    ...createDefaultState(),
+    auditHistory: [
+      { id: 'old-1', date: '2025-06-02', description: 'SQ *BLUE BOTTLE #12', amount: -6.5, isReconciled: false },
+      { id: 'old-2', date: '2025-06-10', description: 'Adobe', amount: -55, isReconciled: false, fitId: 'F2', accountName: 'CHK-1' },
+    ],
+  })
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('stages bank-feed syncs so a re-sync never adds a row twice', async () => {
+    const plaidTxn = { transaction_id: 'feed-1', account_id: 'CHK-1', amount: 20, date: '2025-06-12', pending: false, name: 'GITHUB', payment_channel: 'online', iso_currency_code: 'USD' }
+    vi.stubGlobal('fetch', async (url: string) => {
+      const path = new URL(url).pathname
+      const body = path === '/item/public_token/exchange' ? { access_token: 'access-2', item_id: 'item-feed' }
+        : path === '/accounts/get' ? { accounts: [] }
+        : { added: [plaidTxn], modified: [], removed: [], has_more: false, next_cursor: '' }
+      return new Response(JSON.stringify(body), { status: 200 })
+    })
+    registerProvider({ provider: 'plaid', clientId: 'feed-client', secret: 's', environment: 'sandbox', baseUrl: 'https://sandbox.plaid.com' })
+    const connection = await exchangeToken('plaid_feed-cli', 'public-2', 'Test Bank')
+
+    const first = await syncConnection(connection.id, { fortunaState: base() })
+    expect(first.imported).toMatchObject({ source: 'bank_feed', label: 'Test Bank', skipped: 0 })
+    expect(first.imported?.transactionIds).toHaveLength(1)
+    const synced = { ...base(), ...first.bridge.patch } as FortunaState
+    expect(synced.auditHistory).toHaveLength(3)
+
+    const second = await syncConnection(connection.id, { fortunaState: synced })
+    expect(second.imported).toMatchObject({ transactionIds: [], skipped: 1 })
+    expect(second.bridge.patch.auditHistory).toHaveLength(3)
+    expect(rollbackImport(synced, first.imported!.id, now).auditHistory).toEqual(base().auditHistory)
+  })
+})
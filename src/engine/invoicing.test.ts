@@ -0,0 +1,156 @@
+/**
+ * Invoicing — Test Suite
+ * Validates: invoice lifecycle, payments, deposit matching, aging, recognized income, collections forecast, expected 1099s
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import {
+  addCustomer, createInvoice, sendInvoice, voidInvoice, recordPayment, matchDeposits, applyDepositMatch, invoiceStatus,
+  invoiceBalance, agingReport, recognizedInvoiceIncome, invoiceIncomeByStream, expected1099s,
+} from './invoicing'
+import { generateJournal, isBalancedEntry, trialBalance } from './general-ledger'
+import { generatePnL } from './pnl-engine'
+import { forecastByEntity, forecastCollections } from './income-forecast'
+
+describe('invoicing', () => {
+  const now = new Date('2025-06-01T12:00:00Z')
+  const deposit = (id: string, date: string, description: string, amount: number): FortunaState['auditHistory'][number] =>
+    ({ id, date, description, amount, isReconciled: false, accountName: 'Biz Checking' })
+
+  /** Two customers, three sent invoices and one draft for Acme LLC */
+  const setup = (): FortunaState => {
+    let state: FortunaState = {
+      ...createDefaultState(),
+      taxYear: 2025,
+      entities: [{ id: 'llc-1', name: 'Acme LLC', type: 'llc', state: 'CA', annualCost: 0, isActive: true }],
+      incomeStreams: [{ id: 's1', name: 'Consulting', type: 'freelance', annualAmount: 5000, isActive: true, entityId: 'llc-1' }],
+      auditHistory: [
+        deposit('d1', '2025-02-20', 'DEPOSIT Globex Corporation', 3000),
+        deposit('d2', '2025-04-10', 'ACH CREDIT Initech', 1200),
+      ],
+    }
+    state = addCustomer(state, { entityId: 'llc-1', name: 'Globex Corporation' }, now)
+    state = addCustomer(state, { entityId: 'llc-1', name: 'Stripe', payerType: 'platform' }, now)
+    const [globex, stripe] = state.customers
+    const line = (rate: number) => [{ description: 'Services', quantity: 1, rate }]
+    state = createInvoice(state, { customerId: globex.id, issueDate: '2025-01-15', lines: [{ description: 'Design', quantity: 10, rate: 300 }], incomeStreamId: 's1' }, now)
+    state = createInvoice(state, { customerId: globex.id, issueDate: '2025-03-01', termsDays: 15, lines: line(2000) }, now)
+    state = createInvoice(state, { customerId: stripe.id, issueDate: '2024-12-20', lines: line(800) }, now)
+    state = createInvoice(state, { customerId: stripe.id, issueDate: '2025-05-01', lines: line(999) }, now)
+    for (const inv of state.invoices.slice(0, 3)) state = sendInvoice(state, inv.id, now)
+    return state
+  }
+
+  it('numbers invoices per entity and derives status from payments and due date', () => {
+    const state = setup()
+    expect(state.invoices.map(i => i.number)).toEqual(['INV-1001', 'INV-1002', 'INV-1003', 'INV-1004'])
+    expect(state.invoices.map(i => i.dueDate)).toEqual(['2025-02-14', '2025-03-16', '2025-01-19', '2025-05-31'])
+    const [first, second, , draft] = state.invoices
+    expect(invoiceStatus(first, '2025-02-01')).toBe('open')
+    expect(invoiceStatus(first, '2025-03-01')).toBe('overdue')
+    expect(invoiceStatus(draft, '2025-06-30')).toBe('draft')
+
+    const partial = recordPayment(state, second.id, { date: '2025-03-10', amount: 500, method: 'check' }, now)
+    expect(invoiceStatus(partial.invoices[1], '2025-03-12')).toBe('partial')
+    expect(invoiceBalance(partial.invoices[1])).toBe(1500)
+    // Overpaying, paying a draft, and voiding a paid invoice are refused
+    expect(recordPayment(partial, second.id, { date: '2025-03-11', amount: 1600 }, now)).toBe(partial)
+    expect(recordPayment(partial, draft.id, { date: '2025-05-02', amount: 100 }, now)).toBe(partial)
+    expect(voidInvoice(partial, second.id, now)).toBe(partial)
+    expect(voidInvoice(partial, draft.id, now).invoices[3].status).toBe('void')
+  })
+
+  it('matches deposits by amount and payee and clears A/R in the ledger', () => {
+    const state = setup()
+    const matches = matchDeposits(state)
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({ invoiceId: state.invoices[0].id, transactionId: 'd1', amount: 3000 })
+
+    const paid = applyDepositMatch(state, matches[0], now)
+    expect(invoiceStatus(paid.invoices[0], '2025-06-01')).toBe('paid')
+    expect(paid.auditHistory[0]).toMatchObject({ entityId: 'llc-1', category: 'business_income', linkedIncomeId: 's1' })
+    expect(matchDeposits(paid)).toHaveLength(0)
+
+    // A deposit can't be applied twice
+    expect(recordPayment(paid, paid.invoices[1].id, { date: '2025-03-05', amount: 2000, transactionId: 'd1' }, now)).toBe(paid)
+
+    const withCheck = recordPayment(paid, paid.invoices[2].id, { date: '2025-01-10', amount: 800, method: 'check' }, now)
+    const journal = generateJournal(withCheck, { entityId: 'llc-1' })
+    expect(journal.every(isBalancedEntry)).toBe(true)
+    expect(journal.find(e => e.id === `je_inv_${paid.invoices[0].id}`)!.lines).toEqual([
+      { accountId: '1100', debit: 3000, credit: 0 },
+      { accountId: '4000', debit: 0, credit: 3000 },
+    ])
+    // The matched deposit clears A/R instead of booking revenue twice
+    expect(journal.find(e => e.id === 'je_txn_d1')!.lines[1]).toMatchObject({ accountId: '1100', credit: 3000 })
+    expect(journal.find(e => e.source === 'invoice' && e.lines[0].accountId === '1050')!.lines[0].debit).toBe(800)
+
+    const tb = trialBalance(withCheck, 'llc-1', '2025-12-31')
+    expect(tb.isBalanced).toBe(true)
+    expect(tb.rows.find(r => r.account.id === '1100')?.debit).toBe(2000)
+    expect(tb.rows.find(r => r.account.id === '4000')?.credit).toBe(5800)
+  })
+
+  it('ages open balances into buckets as of a date', () => {
+    const state = setup()
+    const report = agingReport(state, '2025-04-20', 'llc-1')
+    expect(report.total).toBe(5800)
+    expect(report.totals).toEqual({ current: 0, days1to30: 0, days31to60: 2000, days61to90: 3000, over90: 800 })
+    expect(report.rows.map(r => r.customer.name)).toEqual(['Globex Corporation', 'Stripe'])
+    // Payments received after the as-of date don't count
+    const paid = recordPayment(state, state.invoices[1].id, { date: '2025-05-01', amount: 2000 }, now)
+    expect(agingReport(paid, '2025-04-20').totals.days31to60).toBe(2000)
+    expect(agingReport(paid, '2025-05-02').totals.days31to60).toBe(0)
+  })
+
+  it('recognizes income on a cash or accrual basis for the P&L and forecast', () => {
+    let state = setup()
+    state = recordPayment(state, state.invoices[2].id, { date: '2025-01-05', amount: 800, method: 'card' }, now)
+    state = applyDepositMatch(state, matchDeposits(state)[0], now)
+    const year = { start: '2025-01-01', end: '2025-12-31' }
+    const sum = (basis: 'cash' | 'accrual') => recognizedInvoiceIncome(state, { ...year, basis }).reduce((s, r) => s + r.amount, 0)
+    expect(sum('accrual')).toBe(5000)
+    expect(sum('cash')).toBe(3800)
+
+    const realYear = new Date().getFullYear()
+    const shifted: FortunaState = {
+      ...state,
+      invoices: state.invoices.map(i => ({
+        ...i,
+        issueDate: i.issueDate.replace(/^\d{4}/, y => String(Number(y) - 2025 + realYear)),
+        payments: i.payments.map(p => ({ ...p, date: p.date.replace(/^\d{4}/, y => String(Number(y) - 2025 + realYear)) })),
+      })),
+    }
+    const accrual = generatePnL(shifted, 0.1, 'llc-1', 'accrual')
+    expect(accrual.revenueItems.find(r => r.label === 'Consulting')?.amount).toBe(3000)
+    expect(accrual.revenueItems.find(r => r.label === 'Invoices — Globex Corporation')?.amount).toBe(2000)
+    expect(accrual.revenueItems.find(r => r.label === 'Invoices — Stripe')?.previousAmount).toBe(800)
+    expect(generatePnL(shifted, 0.1, 'llc-1', 'cash').totalRevenue).toBe(3800)
+    expect(generatePnL(shifted, 0.1, 'llc-1').totalRevenue).toBe(5000)
+
+    // Billed income is a floor under the stream estimate; unlinked invoices add to the entity
+    const [entity] = forecastByEntity(state.incomeStreams, [], state.entities, invoiceIncomeByStream(state, 2025, 'accrual'))
+    expect(entity.projectedIncome).toBe(5000 + 2000)
+
+    const collections = forecastCollections(state.invoices, '2025-03-01', 2)
+    expect(collections).toEqual([
+      { month: '2025-03', expected: 2000, overdue: 0 },
+      { month: '2025-04', expected: 0, overdue: 0 },
+    ])
+  })
+
+  it('tracks which payers should send a 1099-NEC or 1099-K', () => {
+    let state = setup()
+    state = applyDepositMatch(state, matchDeposits(state)[0], now)
+    state = recordPayment(state, state.invoices[1].id, { date: '2025-03-20', amount: 2000, method: 'card' }, now)
+    state = recordPayment(state, state.invoices[2].id, { date: '2025-01-05', amount: 800, method: 'deposit' }, now)
+    const forms = expected1099s(state, 2025)
+    // Card payments are the processor's to report, not the client's
+    expect(forms.map(f => [f.customer.name, f.form, f.reportable, f.expected])).toEqual([
+      ['Globex Corporation', '1099-NEC', 3000, true],
+      ['Stripe', '1099-K', 800, false],
+    ])
+    expect(forms[1].threshold).toBe(20000)
+    expect(expected1099s(state, 2026)).toHaveLength(0)
+  })
+})
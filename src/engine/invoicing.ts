@@ -0,0 +1,583 @@
+/**
+ * Fortuna Engine — Accounts Receivable & Invoicing
+ *
+ * Customers and invoices per LegalEntity (or personal, for sole props):
+ *   - Invoices with line items, payment terms and auto-numbering per entity
+ *   - Payments recorded by hand or matched against bank deposits in auditHistory
+ *   - A/R aging (current, 1–30, 31–60, 61–90, 90+ days past due)
+ *   - Cash- vs accrual-basis income for the P&L and income forecast
+ *   - 1099-NEC / 1099-K expectations per payer, using the year's thresholds
+ *
+ * Draft invoices stay off the books. Sent invoices post to Accounts Receivable
+ * in the general ledger; payments clear it. Nothing dated inside a closed
+ * period can be sent, voided or paid.
+ */
+
+import type { FortunaState, Customer, Invoice, InvoiceLine, InvoicePayment, BankTransaction } from './storage'
+import { isPeriodClosed, PERSONAL } from './general-ledger'
+import { normalizePayee, payeeSimilarity } from './import-pipeline'
+import { getTaxParameters } from './tax-parameters'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export type InvoiceStatus = 'draft' | 'open' | 'partial' | 'paid' | 'overdue' | 'void'
+export type IncomeBasis = 'cash' | 'accrual'
+
+export interface CustomerInput {
+  entityId?: string
+  name: string
+  email?: string
+  payerType?: Customer['payerType']
+  expected1099?: Customer['expected1099']
+  state?: string
+  marketplace?: boolean
+}
+
+export interface InvoiceInput {
+  customerId: string
+  issueDate: string
+  dueDate?: string             // Defaults to issueDate + termsDays
+  termsDays?: number           // Net 30 unless given
+  lines: Omit<InvoiceLine, 'id'>[]
+  entityId?: string            // Defaults to the customer's entity
+  number?: string
+  incomeStreamId?: string
+  memo?: string
+  shipTo?: Invoice['shipTo']
+}
+
+export interface PaymentInput {
+  date: string
+  amount: number
+  method?: InvoicePayment['method']
+  transactionId?: string
+}
+
+export interface DepositMatch {
+  invoiceId: string
+  transactionId: string
+  amount: number
+  date: string
+  score: number                // 0–1; payee similarity and timing
+}
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90'
+
+export interface AgingRow {
+  customer: Customer
+  buckets: Record<AgingBucket, number>
+  total: number
+  invoices: { invoice: Invoice; balance: number; daysPastDue: number; bucket: AgingBucket }[]
+}
+
+export interface AgingReport {
+  asOf: string
+  rows: AgingRow[]
+  totals: Record<AgingBucket, number>
+  total: number
+}
+
+/** Income on an invoice recognized in a period: issue date (accrual) or payment date (cash) */
+export interface RecognizedIncome {
+  invoice: Invoice
+  date: string
+  amount: number
+}
+
+export interface Expected1099 {
+  customer: Customer
+  form: '1099-NEC' | '1099-K'
+  reportable: number           // Payments the form would report
+  transactions: number
+  threshold: number
+  expected: boolean            // At or over the threshold
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const TOLERANCE = 0.005
+const DEFAULT_TERMS_DAYS = 30
+const FIRST_INVOICE_NUMBER = 1001
+const MIN_MATCH_SCORE = 0.2
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1–30' },
+  { key: 'days31to60', label: '31–60' },
+  { key: 'days61to90', label: '61–90' },
+  { key: 'over90', label: '90+' },
+]
+
+// ===================================================================
+//  TOTALS & STATUS
+// ===================================================================
+
+function money(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function day(date: string): string {
+  return date.slice(0, 10)
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${day(date)}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(day(to)) - Date.parse(day(from))) / 86_400_000)
+}
+
+function makeId(prefix: string, now: Date): string {
+  return `${prefix}_${now.getTime().toString(36)}_${Math.random().toString(36).slice(2, 6)}`
+}
+
+export function invoiceTotal(invoice: Pick<Invoice, 'lines'>): number {
+  return money(invoice.lines.reduce((s, l) => s + money(l.quantity * l.rate), 0))
+}
+
+export function invoicePaid(invoice: Pick<Invoice, 'payments'>): number {
+  return money(invoice.payments.reduce((s, p) => s + p.amount, 0))
+}
+
+export function invoiceBalance(invoice: Pick<Invoice, 'lines' | 'payments'>): number {
+  return money(invoiceTotal(invoice) - invoicePaid(invoice))
+}
+
+/** Whether the invoice is on the books (sent and not voided) */
+export function isIssued(invoice: Invoice): boolean {
+  return invoice.status === 'sent'
+}
+
+export function invoiceStatus(invoice: Invoice, asOf: string): InvoiceStatus {
+  if (invoice.status !== 'sent') return invoice.status
+  const balance = invoiceBalance(invoice)
+  if (balance <= TOLERANCE) return 'paid'
+  if (day(asOf) > invoice.dueDate) return 'overdue'
+  return invoicePaid(invoice) > 0 ? 'partial' : 'open'
+}
+
+export function customerName(state: FortunaState, customerId: string): string {
+  return (state.customers || []).find(c => c.id === customerId)?.name ?? 'Unknown customer'
+}
+
+/** Next INV-#### number for an entity, one past the highest already used */
+export function nextInvoiceNumber(state: FortunaState, entityId = PERSONAL): string {
+  let highest = FIRST_INVOICE_NUMBER - 1
+  for (const inv of state.invoices || []) {
+    if (inv.entityId !== entityId) continue
+    const n = Number(inv.number.match(/(\d+)\s*$/)?.[1])
+    if (Number.isFinite(n) && n > highest) highest = n
+  }
+  return `INV-${highest + 1}`
+}
+
+// ===================================================================
+//  CUSTOMERS
+// ===================================================================
+
+function knownEntity(state: FortunaState, entityId: string): boolean {
+  return entityId === PERSONAL || state.entities.some(e => e.id === entityId)
+}
+
+export function addCustomer(state: FortunaState, input: CustomerInput, now = new Date()): FortunaState {
+  const name = input.name.trim()
+  const entityId = input.entityId || PERSONAL
+  if (!name || !knownEntity(state, entityId)) return state
+  const customer: Customer = {
+    id: makeId('cust', now),
+    entityId,
+    name,
+    payerType: input.payerType ?? 'client',
+    ...(input.email?.trim() ? { email: input.email.trim() } : {}),
+    ...(input.expected1099 ? { expected1099: input.expected1099 } : {}),
+    ...(input.state?.trim() ? { state: input.state.trim().toUpperCase() } : {}),
+    ...(input.marketplace ? { marketplace: true } : {}),
+    createdAt: now.toISOString(),
+  }
+  return { ...state, customers: [...(state.customers || []), customer] }
+}
+
+export function updateCustomer(state: FortunaState, customerId: string, patch: Partial<Omit<Customer, 'id' | 'entityId' | 'createdAt'>>): FortunaState {
+  const customers = state.customers || []
+  if (!customers.some(c => c.id === customerId)) return state
+  if (patch.name !== undefined && !patch.name.trim()) return state
+  return { ...state, customers: customers.map(c => c.id === customerId ? { ...c, ...patch } : c) }
+}
+
+/** Only customers with no invoice history can be removed */
+export function removeCustomer(state: FortunaState, customerId: string): FortunaState {
+  if ((state.invoices || []).some(i => i.customerId === customerId)) return state
+  return { ...state, customers: (state.customers || []).filter(c => c.id !== customerId) }
+}
+
+// ===================================================================
+//  INVOICES
+// ===================================================================
+
+function replaceInvoice(state: FortunaState, invoice: Invoice): FortunaState {
+  return { ...state, invoices: (state.invoices || []).map(i => i.id === invoice.id ? invoice : i) }
+}
+
+function findInvoice(state: FortunaState, invoiceId: string): Invoice | undefined {
+  return (state.invoices || []).find(i => i.id === invoiceId)
+}
+
+function cleanLines(lines: Omit<InvoiceLine, 'id'>[], now: Date): InvoiceLine[] {
+  return lines
+    .filter(l => l.description.trim() && l.quantity > 0 && Number.isFinite(l.rate))
+    .map((l, i) => ({
+      id: `${makeId('line', now)}${i}`, description: l.description.trim(), quantity: l.quantity, rate: money(l.rate),
+      ...(l.taxable !== undefined ? { taxable: l.taxable } : {}),
+    }))
+}
+
+function cleanShipTo(shipTo: InvoiceInput['shipTo']): Invoice['shipTo'] {
+  const state = shipTo?.state.trim().toUpperCase()
+  if (!state) return undefined
+  return { state, ...(shipTo?.zip?.trim() ? { zip: shipTo.zip.trim() } : {}) }
+}
+
+/** Create a draft invoice. Drafts are editable and stay off the books until sent. */
+export function createInvoice(state: FortunaState, input: InvoiceInput, now = new Date()): FortunaState {
+  const customer = (state.customers || []).find(c => c.id === input.customerId)
+  if (!customer || !input.issueDate) return state
+  const entityId = input.entityId || customer.entityId
+  const lines = cleanLines(input.lines, now)
+  if (!knownEntity(state, entityId) || lines.length === 0) return state
+
+  const issueDate = day(input.issueDate)
+  const dueDate = input.dueDate ? day(input.dueDate) : addDays(issueDate, input.termsDays ?? DEFAULT_TERMS_DAYS)
+  if (dueDate < issueDate) return state
+  const shipTo = cleanShipTo(input.shipTo)
+
+  const invoice: Invoice = {
+    id: makeId('inv', now),
+    entityId,
+    customerId: customer.id,
+    number: input.number?.trim() || nextInvoiceNumber(state, entityId),
+    issueDate,
+    dueDate,
+    lines,
+    payments: [],
+    status: 'draft',
+    ...(input.incomeStreamId ? { incomeStreamId: input.incomeStreamId } : {}),
+    ...(input.memo?.trim() ? { memo: input.memo.trim() } : {}),
+    ...(shipTo ? { shipTo } : {}),
+    createdAt: now.toISOString(),
+  }
+  return { ...state, invoices: [...(state.invoices || []), invoice] }
+}
+
+export function updateDraftInvoice(
+  state: FortunaState,
+  invoiceId: string,
+  patch: Partial<Pick<InvoiceInput, 'issueDate' | 'dueDate' | 'lines' | 'incomeStreamId' | 'memo' | 'shipTo'>>,
+  now = new Date(),
+): FortunaState {
+  const invoice = findInvoice(state, invoiceId)
+  if (!invoice || invoice.status !== 'draft') return state
+  const lines = patch.lines ? cleanLines(patch.lines, now) : invoice.lines
+  const issueDate = patch.issueDate ? day(patch.issueDate) : invoice.issueDate
+  const dueDate = patch.dueDate ? day(patch.dueDate) : invoice.dueDate
+  if (lines.length === 0 || dueDate < issueDate) return state
+  return replaceInvoice(state, {
+    ...invoice,
+    issueDate,
+    dueDate,
+    lines,
+    ...(patch.incomeStreamId !== undefined ? { incomeStreamId: patch.incomeStreamId || undefined } : {}),
+    ...(patch.memo !== undefined ? { memo: patch.memo.trim() || undefined } : {}),
+    ...(patch.shipTo !== undefined ? { shipTo: cleanShipTo(patch.shipTo) } : {}),
+  })
+}
+
+/** Drafts can be deleted outright; anything sent has to be voided */
+export function deleteDraftInvoice(state: FortunaState, invoiceId: string): FortunaState {
+  const invoice = findInvoice(state, invoiceId)
+  if (!invoice || invoice.status !== 'draft') return state
+  return { ...state, invoices: (state.invoices || []).filter(i => i.id !== invoiceId) }
+}
+
+/** Issue a draft — from here it counts as accrual-basis income and sits in A/R */
+export function sendInvoice(state: FortunaState, invoiceId: string, now = new Date()): FortunaState {
+  const invoice = findInvoice(state, invoiceId)
+  if (!invoice || invoice.status !== 'draft' || isPeriodClosed(state, invoice.entityId, invoice.issueDate)) return state
+  return replaceInvoice(state, { ...invoice, status: 'sent', sentAt: now.toISOString() })
+}
+
+/** Void an unpaid invoice. Remove its payments first if it was paid in error. */
+export function voidInvoice(state: FortunaState, invoiceId: string, now = new Date()): FortunaState {
+  const invoice = findInvoice(state, invoiceId)
+  if (!invoice || invoice.status === 'void' || invoice.payments.length > 0) return state
+  if (invoice.status === 'sent' && isPeriodClosed(state, invoice.entityId, invoice.issueDate)) return state
+  return replaceInvoice(state, { ...invoice, status: 'void', voidedAt: now.toISOString() })
+}
+
+// ===================================================================
+//  PAYMENTS
+// ===================================================================
+
+/** Amount of each deposit already applied to invoice payments */
+function appliedDeposits(state: FortunaState): Map<string, number> {
+  const applied = new Map<string, number>()
+  for (const inv of state.invoices || []) {
+    if (inv.status === 'void') continue
+    for (const p of inv.payments) {
+      if (p.transactionId) applied.set(p.transactionId, money((applied.get(p.transactionId) || 0) + p.amount))
+    }
+  }
+  return applied
+}
+
+function depositFits(t: BankTransaction, invoice: Invoice): boolean {
+  return t.amount > 0 && (!t.entityId || t.entityId === invoice.entityId)
+}
+
+/**
+ * Apply a payment to a sent invoice. A transactionId ties it to a deposit in
+ * auditHistory (which must belong to the invoice's entity, or none yet, and
+ * have room left); the deposit is tagged to the invoice's entity and income
+ * stream, and the ledger then clears A/R through it instead of booking revenue.
+ */
+export function recordPayment(state: FortunaState, invoiceId: string, input: PaymentInput, now = new Date()): FortunaState {
+  const invoice = findInvoice(state, invoiceId)
+  const amount = money(input.amount)
+  if (!invoice || invoice.status !== 'sent' || !input.date || amount <= 0) return state
+  if (amount - invoiceBalance(invoice) > TOLERANCE) return state
+
+  const date = day(input.date)
+  if (isPeriodClosed(state, invoice.entityId, date)) return state
+
+  let auditHistory = state.auditHistory
+  if (input.transactionId) {
+    const t = (state.auditHistory || []).find(x => x.id === input.transactionId)
+    if (!t || !depositFits(t, invoice) || isPeriodClosed(state, invoice.entityId, t.date)) return state
+    const used = appliedDeposits(state).get(t.id) || 0
+    if (amount - (t.amount - used) > TOLERANCE) return state
+    auditHistory = state.auditHistory.map(x => x.id !== t.id ? x : {
+      ...x,
+      entityId: invoice.entityId,
+      category: x.category || 'business_income',
+      ...(invoice.incomeStreamId && !x.linkedIncomeId ? { linkedIncomeId: invoice.incomeStreamId } : {}),
+    })
+  }
+
+  const payment: InvoicePayment = {
+    id: makeId('pmt', now),
+    date,
+    amount,
+    method: input.method ?? (input.transactionId ? 'deposit' : 'other'),
+    ...(input.transactionId ? { transactionId: input.transactionId } : {}),
+  }
+  return { ...replaceInvoice(state, { ...invoice, payments: [...invoice.payments, payment] }), auditHistory }
+}
+
+export function removePayment(state: FortunaState, invoiceId: string, paymentId: string): FortunaState {
+  const invoice = findInvoice(state, invoiceId)
+  const payment = invoice?.payments.find(p => p.id === paymentId)
+  if (!invoice || !payment || isPeriodClosed(state, invoice.entityId, payment.date)) return state
+  return replaceInvoice(state, { ...invoice, payments: invoice.payments.filter(p => p.id !== paymentId) })
+}
+
+/**
+ * Suggest deposits that pay open invoices in full: same amount as the balance,
+ * on or after the issue date, scored by payee similarity to the customer and
+ * closeness to the due date. Each deposit and invoice is used at most once.
+ */
+export function matchDeposits(state: FortunaState, entityId?: string): DepositMatch[] {
+  const applied = appliedDeposits(state)
+  const open = (state.invoices || []).filter(i =>
+    i.status === 'sent' && invoiceBalance(i) > TOLERANCE && (!entityId || i.entityId === entityId))
+  const customers = new Map((state.customers || []).map(c => [c.id, normalizePayee(c.name)]))
+
+  const candidates: DepositMatch[] = []
+  for (const inv of open) {
+    const balance = invoiceBalance(inv)
+    const payee = customers.get(inv.customerId) ?? ''
+    for (const t of state.auditHistory || []) {
+      if (!depositFits(t, inv) || applied.has(t.id) || day(t.date) < inv.issueDate) continue
+      if (Math.abs(t.amount - balance) > TOLERANCE || isPeriodClosed(state, inv.entityId, t.date)) continue
+      const similarity = payeeSimilarity(payee, normalizePayee(t.merchantName || t.description))
+      const lateness = Math.abs(daysBetween(inv.dueDate, t.date))
+      const score = money(0.7 * similarity + 0.3 * Math.max(0, 1 - lateness / 60))
+      if (score >= MIN_MATCH_SCORE) {
+        candidates.push({ invoiceId: inv.id, transactionId: t.id, amount: balance, date: day(t.date), score })
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+  const usedInvoices = new Set<string>()
+  const usedDeposits = new Set<string>()
+  const matches: DepositMatch[] = []
+  for (const m of candidates) {
+    if (usedInvoices.has(m.invoiceId) || usedDeposits.has(m.transactionId)) continue
+    usedInvoices.add(m.invoiceId)
+    usedDeposits.add(m.transactionId)
+    matches.push(m)
+  }
+  return matches
+}
+
+/** Record a suggested match as a deposit payment */
+export function applyDepositMatch(state: FortunaState, match: DepositMatch, now = new Date()): FortunaState {
+  return recordPayment(state, match.invoiceId, {
+    date: match.date, amount: match.amount, method: 'deposit', transactionId: match.transactionId,
+  }, now)
+}
+
+// ===================================================================
+//  AGING
+// ===================================================================
+
+function agingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current'
+  if (daysPastDue <= 30) return 'days1to30'
+  if (daysPastDue <= 60) return 'days31to60'
+  if (daysPastDue <= 90) return 'days61to90'
+  return 'over90'
+}
+
+function emptyBuckets(): Record<AgingBucket, number> {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 }
+}
+
+/** Open balances by customer as of a date, counting only payments received by then */
+export function agingReport(state: FortunaState, asOf: string, entityId?: string): AgingReport {
+  const cutoff = day(asOf)
+  const rows = new Map<string, AgingRow>()
+  const totals = emptyBuckets()
+
+  for (const inv of state.invoices || []) {
+    if (inv.status !== 'sent' || inv.issueDate > cutoff || (entityId && inv.entityId !== entityId)) continue
+    const paid = inv.payments.filter(p => p.date <= cutoff).reduce((s, p) => s + p.amount, 0)
+    const balance = money(invoiceTotal(inv) - paid)
+    if (balance <= TOLERANCE) continue
+
+    const customer = (state.customers || []).find(c => c.id === inv.customerId)
+    if (!customer) continue
+    const daysPastDue = daysBetween(inv.dueDate, cutoff)
+    const bucket = agingBucket(daysPastDue)
+    const row = rows.get(customer.id) ?? { customer, buckets: emptyBuckets(), total: 0, invoices: [] }
+    row.buckets[bucket] = money(row.buckets[bucket] + balance)
+    row.total = money(row.total + balance)
+    row.invoices.push({ invoice: inv, balance, daysPastDue: Math.max(0, daysPastDue), bucket })
+    rows.set(customer.id, row)
+    totals[bucket] = money(totals[bucket] + balance)
+  }
+
+  const sorted = [...rows.values()].sort((a, b) => b.total - a.total)
+  return { asOf: cutoff, rows: sorted, totals, total: money(sorted.reduce((s, r) => s + r.total, 0)) }
+}
+
+// ===================================================================
+//  INCOME RECOGNITION
+// ===================================================================
+
+/**
+ * Invoice income falling in [start, end]. Accrual basis recognizes the full
+ * invoice on its issue date; cash basis recognizes each payment when received.
+ */
+export function recognizedInvoiceIncome(
+  state: FortunaState,
+  options: { start: string; end: string; basis: IncomeBasis; entityId?: string },
+): RecognizedIncome[] {
+  const out: RecognizedIncome[] = []
+  for (const inv of state.invoices || []) {
+    if (!isIssued(inv) || (options.entityId && inv.entityId !== options.entityId)) continue
+    if (options.basis === 'accrual') {
+      if (inv.issueDate >= options.start && inv.issueDate <= options.end) {
+        out.push({ invoice: inv, date: inv.issueDate, amount: invoiceTotal(inv) })
+      }
+      continue
+    }
+    for (const p of inv.payments) {
+      if (p.date >= options.start && p.date <= options.end) out.push({ invoice: inv, date: p.date, amount: p.amount })
+    }
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export function invoiceIncomeForYear(state: FortunaState, year: number, basis: IncomeBasis, entityId?: string): number {
+  return money(recognizedInvoiceIncome(state, { start: `${year}-01-01`, end: `${year}-12-31`, basis, entityId })
+    .reduce((s, r) => s + r.amount, 0))
+}
+
+/** Monthly invoice income ("2025-01") in the shape analyzeIncomePattern expects */
+export function monthlyInvoiceIncome(
+  state: FortunaState,
+  basis: IncomeBasis,
+  entityId?: string,
+): { month: string; amount: number }[] {
+  const byMonth = new Map<string, number>()
+  for (const r of recognizedInvoiceIncome(state, { start: '0000-01-01', end: '9999-12-31', basis, entityId })) {
+    const month = r.date.slice(0, 7)
+    byMonth.set(month, money((byMonth.get(month) || 0) + r.amount))
+  }
+  return [...byMonth].sort((a, b) => a[0].localeCompare(b[0])).map(([month, amount]) => ({ month, amount }))
+}
+
+/** Year's invoice income per entity and income stream, for forecastByEntity */
+export function invoiceIncomeByStream(
+  state: FortunaState,
+  year: number,
+  basis: IncomeBasis,
+): { entityId: string; incomeStreamId?: string; amount: number }[] {
+  const totals = new Map<string, { entityId: string; incomeStreamId?: string; amount: number }>()
+  for (const r of recognizedInvoiceIncome(state, { start: `${year}-01-01`, end: `${year}-12-31`, basis })) {
+    const key = `${r.invoice.entityId}|${r.invoice.incomeStreamId ?? ''}`
+    const row = totals.get(key) ?? { entityId: r.invoice.entityId, incomeStreamId: r.invoice.incomeStreamId, amount: 0 }
+    row.amount = money(row.amount + r.amount)
+    totals.set(key, row)
+  }
+  return [...totals.values()]
+}
+
+// ===================================================================
+//  1099 EXPECTATIONS
+// ===================================================================
+
+/**
+ * Which customers should send a 1099 for the year, from payments received.
+ * Clients report on 1099-NEC, except card and payment-app payments, which the
+ * processor reports on 1099-K instead. Platforms report on 1099-K once both
+ * the dollar and transaction thresholds are met.
+ */
+export function expected1099s(state: FortunaState, year: number, entityId?: string): Expected1099[] {
+  const thresholds = getTaxParameters(year).informationReturns
+  const out: Expected1099[] = []
+
+  for (const customer of state.customers || []) {
+    if (customer.expected1099 === 'none' || (entityId && customer.entityId !== entityId)) continue
+    const payments = (state.invoices || [])
+      .filter(i => i.customerId === customer.id && i.status === 'sent')
+      .flatMap(i => i.payments)
+      .filter(p => p.date.startsWith(`${year}-`))
+
+    const form = customer.expected1099 ?? (customer.payerType === 'platform' ? '1099-K' : '1099-NEC')
+    const reportablePayments = form === '1099-NEC' ? payments.filter(p => p.method !== 'card') : payments
+    const reportable = money(reportablePayments.reduce((s, p) => s + p.amount, 0))
+    if (reportable <= 0) continue
+
+    const threshold = form === '1099-NEC' ? thresholds.form1099NEC : thresholds.form1099K
+    const expected = form === '1099-NEC'
+      ? reportable >= threshold
+      : reportable > threshold && reportablePayments.length > thresholds.form1099KTransactions
+    out.push({
+      customer,
+      form,
+      reportable,
+      transactions: reportablePayments.length,
+      threshold,
+      expected,
+    })
+  }
+  return out.sort((a, b) => b.reportable - a.reportable)
+}
@@ -5,7 +5,8 @@
  */
 
 import type { FortunaState } from './storage'
-import { FEDERAL_BRACKETS_2024, STANDARD_DEDUCTION_2024, generateTaxReport } from './tax-calculator'
+import { generateTaxReport } from './tax-calculator'
+import { getTaxParameters, getFederalBrackets, getStandardDeduction } from './tax-parameters'
 
 export interface MarginalPoint {
   income: number
@@ -38,16 +39,16 @@ export function analyzeMarginalRates(state: FortunaState): MarginalAnalysis {
   const hasW2 = state.incomeStreams.some(s => s.type === 'w2' && s.isActive && s.annualAmount > 0)
   const hasInvestment = state.incomeStreams.some(s => s.type === 'investment' && s.isActive && s.annualAmount > 0)
 
-  const filingStatus = state.profile.filingStatus as keyof typeof FEDERAL_BRACKETS_2024
-  const brackets = FEDERAL_BRACKETS_2024[filingStatus] || FEDERAL_BRACKETS_2024.single
-  const stdDed = STANDARD_DEDUCTION_2024[state.profile.filingStatus] || 14600
+  const filingStatus = state.profile.filingStatus
+  const brackets = getFederalBrackets(filingStatus, state.taxYear)
+  const stdDed = getStandardDeduction(filingStatus, state.taxYear)
 
   // State rate
   const stateRate = report.stateTax / Math.max(1, report.taxableIncome)
 
   // SE tax rate (if applicable)
   const seRateBase = hasSE ? 0.153 * 0.9235 : 0 // 15.3% on 92.35%
-  const SS_WAGE_BASE = 176100
+  const SS_WAGE_BASE = getTaxParameters(state.taxYear).socialSecurityWageBase
 
   // NIIT threshold
   const niitThreshold = filingStatus === 'married_joint' ? 250000 :
@@ -6,75 +6,13 @@
  *  - Revenue growth projection with confidence intervals
  *  - Year-over-year strategy impact compounding
  *  - Income deferral vs acceleration recommendations
- *  - TCJA sunset modeling (2026 bracket changes)
+ *  - Year-indexed brackets and deductions from the tax parameter registry
  *  - Effective vs marginal rate trajectory
  */
 
 import type { FortunaState } from './storage'
 import { generateTaxReport, type TaxReport } from './tax-calculator'
-
-// ===================================================================
-//  TCJA SUNSET — 2026 brackets revert to pre-TCJA (inflation-adjusted)
-// ===================================================================
-
-const TCJA_SUNSET_YEAR = 2026
-
-const PRE_TCJA_BRACKETS_PROJECTED = {
-  single: [
-    { min: 0, max: 11000, rate: 0.10 },
-    { min: 11000, max: 44725, rate: 0.15 },
-    { min: 44725, max: 95375, rate: 0.25 },
-    { min: 95375, max: 171050, rate: 0.28 },
-    { min: 171050, max: 372950, rate: 0.33 },
-    { min: 372950, max: 418850, rate: 0.35 },
-    { min: 418850, max: Infinity, rate: 0.396 },
-  ],
-  married_joint: [
-    { min: 0, max: 22000, rate: 0.10 },
-    { min: 22000, max: 89450, rate: 0.15 },
-    { min: 89450, max: 190750, rate: 0.25 },
-    { min: 190750, max: 342050, rate: 0.28 },
-    { min: 342050, max: 418850, rate: 0.33 },
-    { min: 418850, max: 628300, rate: 0.35 },
-    { min: 628300, max: Infinity, rate: 0.396 },
-  ],
-}
-
-const PRE_TCJA_STANDARD_DEDUCTION: Record<string, number> = {
-  single: 8300,
-  married_joint: 16600,
-  married_separate: 8300,
-  head_of_household: 12200,
-}
-
-// Current brackets for comparison
-const CURRENT_BRACKETS = {
-  single: [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11600, max: 47150, rate: 0.12 },
-    { min: 47150, max: 100525, rate: 0.22 },
-    { min: 100525, max: 191950, rate: 0.24 },
-    { min: 191950, max: 243725, rate: 0.32 },
-    { min: 243725, max: 609350, rate: 0.35 },
-    { min: 609350, max: Infinity, rate: 0.37 },
-  ],
-  married_joint: [
-    { min: 0, max: 23200, rate: 0.10 },
-    { min: 23200, max: 94300, rate: 0.12 },
-    { min: 94300, max: 201050, rate: 0.22 },
-    { min: 201050, max: 383900, rate: 0.24 },
-    { min: 383900, max: 487450, rate: 0.32 },
-    { min: 487450, max: 731200, rate: 0.35 },
-    { min: 731200, max: Infinity, rate: 0.37 },
-  ],
-}
-
-const CURRENT_STANDARD_DEDUCTION: Record<string, number> = {
-  single: 14600,
-  married_joint: 29200,
-  married_separate: 14600,
-  head_of_household: 21900,
-}
+import { getFederalBrackets, getStandardDeduction, getTaxParameters } from './tax-parameters'
 
 // ===================================================================
 //  TYPES
@@ -92,7 +30,6 @@ export interface YearProjection {
   effectiveRate: number
   marginalRate: number
   afterTax: number
-  bracketRegime: 'tcja' | 'pre_tcja'
   strategySavings: number
   cumulativeSavings: number
   bracketUtilization: BracketSlice[]
@@ -134,7 +71,6 @@ interface YearShift {
 export interface MultiYearAnalysis {
   baseline: YearProjection[]
   scenarios: IncomeShiftScenario[]
-  tcjaSunsetImpact: number // additional tax burden if TCJA expires
   optimalScenario: string // id of best scenario
   bracketHeadroom: number // room in current bracket before next rate jump
   insights: MultiYearInsight[]
@@ -157,14 +93,7 @@ function calcFederalTax(
   filingStatus: string,
   year: number,
 ): { tax: number; marginal: number; slices: BracketSlice[] } {
-  const useTCJA = year < TCJA_SUNSET_YEAR
-  const statusKey = filingStatus === 'head_of_household' ? 'single' : filingStatus
-  const key = (statusKey === 'married_joint' || statusKey === 'married_separate')
-    ? 'married_joint' : 'single'
-
-  const brackets = useTCJA
-    ? CURRENT_BRACKETS[key]
-    : (PRE_TCJA_BRACKETS_PROJECTED[key] || CURRENT_BRACKETS[key])
+  const brackets = getFederalBrackets(filingStatus, year)
 
   let tax = 0
   let marginal = 0.10
@@ -187,12 +116,6 @@ function calcFederalTax(
   return { tax: Math.round(tax), marginal, slices }
 }
 
-function getStandardDeduction(filingStatus: string, year: number): number {
-  const useTCJA = year < TCJA_SUNSET_YEAR
-  const deductions = useTCJA ? CURRENT_STANDARD_DEDUCTION : PRE_TCJA_STANDARD_DEDUCTION
-  return deductions[filingStatus] || deductions.single
-}
-
 // ===================================================================
 //  GROWTH MODEL
 // ===================================================================
@@ -294,7 +217,6 @@ function projectYear(
     effectiveRate,
     marginalRate: marginal,
     afterTax: grossIncome - totalTax,
-    bracketRegime: year < TCJA_SUNSET_YEAR ? 'tcja' : 'pre_tcja',
     strategySavings,
     cumulativeSavings: cumulativeSavingsBase + strategySavings,
     bracketUtilization: slices,
@@ -318,41 +240,11 @@ function generateShiftScenarios(
   baseline: YearProjection[],
 ): IncomeShiftScenario[] {
   const scenarios: IncomeShiftScenario[] = []
-  const currentYear = new Date().getFullYear()
   const report = generateTaxReport(state)
 
   if (baseline.length < 2) return scenarios
 
-  // ── Scenario 1: Accelerate income before TCJA sunset ──
-  const tcjaYears = baseline.filter(y => y.bracketRegime === 'tcja')
-  const postTcjaYears = baseline.filter(y => y.bracketRegime === 'pre_tcja')
-
-  if (tcjaYears.length > 0 && postTcjaYears.length > 0) {
-    const shiftAmount = Math.round(report.grossIncome * 0.10) // shift 10%
-    const shifts: YearShift[] = [
-      { year: TCJA_SUNSET_YEAR - 1, shiftAmount: shiftAmount, shiftType: 'accelerate_expense' as const },
-      { year: TCJA_SUNSET_YEAR, shiftAmount: -shiftAmount, shiftType: 'defer_revenue' as const },
-    ]
-
-    // Calculate savings
-    const lastTcjaYear = tcjaYears[tcjaYears.length - 1]
-    const firstPostYear = postTcjaYears[0]
-    const rateGap = (firstPostYear.marginalRate - lastTcjaYear.marginalRate)
-    const savings = Math.round(shiftAmount * Math.max(0, rateGap))
-
-    scenarios.push({
-      id: 'accelerate-pre-sunset',
-      name: 'Accelerate Income Before TCJA Sunset',
-      description: `Recognize $${shiftAmount.toLocaleString()} additional income in ${TCJA_SUNSET_YEAR - 1} to lock in current lower rates before brackets revert.`,
-      shifts,
-      totalTaxSavings: savings,
-      yearByYear: baseline, // simplified
-      recommendation: savings > 2000 ? 'strong' : savings > 500 ? 'moderate' : 'neutral',
-      reasoning: `Current top rate of ${(lastTcjaYear.marginalRate * 100).toFixed(0)}% jumps to ${(firstPostYear.marginalRate * 100).toFixed(0)}% after sunset. Accelerating income saves the rate differential on shifted amount.`,
-    })
-  }
-
-  // ── Scenario 2: Bracket smoothing — even out lumpy income ──
+  // ── Scenario 1: Bracket smoothing — even out lumpy income ──
   const avgIncome = baseline.reduce((s, y) => s + y.grossIncome, 0) / baseline.length
   const maxDeviation = Math.max(...baseline.map(y => Math.abs(y.grossIncome - avgIncome)))
 
@@ -379,7 +271,7 @@ function generateShiftScenarios(
     })
   }
 
-  // ── Scenario 3: Defer into lower-rate year ──
+  // ── Scenario 2: Defer into lower-rate year ──
   if (baseline.length >= 2) {
     const thisYear = baseline[0]
     const nextYear = baseline[1]
@@ -404,28 +296,28 @@ function generateShiftScenarios(
     }
   }
 
-  // ── Scenario 4: Maximize retirement contributions pre-sunset ──
-  if (report.retirementGap > 5000 && tcjaYears.length > 0) {
-    const maxDefer = Math.min(report.retirementGap, 69000)
+  // ── Scenario 3: Maximize retirement contributions every year ──
+  if (report.retirementGap > 5000) {
+    const maxDefer = Math.min(report.retirementGap, getTaxParameters(baseline[0].year).retirement.annualAdditionsLimit)
     const savings = Math.round(maxDefer * baseline[0].marginalRate)
 
     scenarios.push({
-      id: 'max-retirement-pre-sunset',
-      name: 'Max Retirement Contributions Before Sunset',
-      description: `Deploy full $${maxDefer.toLocaleString()} retirement contribution capacity while TCJA deductions are at their most valuable.`,
-      shifts: tcjaYears.map(y => ({
+      id: 'max-retirement',
+      name: 'Max Retirement Contributions Every Year',
+      description: `Deploy full $${maxDefer.toLocaleString()} retirement contribution capacity in each projected year instead of leaving deduction room unused.`,
+      shifts: baseline.map(y => ({
         year: y.year,
         shiftAmount: -maxDefer,
         shiftType: 'accelerate_expense' as const,
       })),
-      totalTaxSavings: savings * tcjaYears.length,
+      totalTaxSavings: savings * baseline.length,
       yearByYear: baseline,
       recommendation: 'strong',
-      reasoning: `Every $1 deducted now saves ${(baseline[0].marginalRate * 100).toFixed(0)}¢. After sunset, the same deduction may only save ${Math.round(baseline[0].marginalRate * 0.85 * 100)}¢. Front-loading is optimal.`,
+      reasoning: `Every $1 deducted now saves ${(baseline[0].marginalRate * 100).toFixed(0)}¢. Unused contribution room does not carry forward, so skipping a year forfeits that deduction permanently.`,
     })
   }
 
-  // ── Scenario 5: Prepay expenses in high-income year ──
+  // ── Scenario 4: Prepay expenses in high-income year ──
   const highYears = baseline.filter(y => y.marginalRate >= 0.32)
   if (highYears.length > 0) {
     const prepayAmount = Math.round(
@@ -458,27 +350,9 @@ function generateShiftScenarios(
 function generateInsights(
   baseline: YearProjection[],
   scenarios: IncomeShiftScenario[],
-  state: FortunaState,
 ): MultiYearInsight[] {
   const insights: MultiYearInsight[] = []
 
-  // TCJA sunset warning
-  const tcjaTransition = baseline.find(y => y.bracketRegime === 'pre_tcja')
-  if (tcjaTransition) {
-    const lastTcja = baseline.filter(y => y.bracketRegime === 'tcja').pop()
-    if (lastTcja && tcjaTransition) {
-      const impact = tcjaTransition.totalTax - Math.round(
-        tcjaTransition.grossIncome * lastTcja.effectiveRate
-      )
-      insights.push({
-        type: 'warning',
-        title: `TCJA Sunset in ${TCJA_SUNSET_YEAR}`,
-        detail: `Tax brackets revert to pre-2017 rates. Your projected tax increase: $${Math.max(0, impact).toLocaleString()}/year. Standard deduction drops from $${CURRENT_STANDARD_DEDUCTION[state.profile.filingStatus]?.toLocaleString()} to ~$${PRE_TCJA_STANDARD_DEDUCTION[state.profile.filingStatus]?.toLocaleString()}.`,
-        impact: Math.max(0, impact),
-      })
-    }
-  }
-
   // Bracket jump warning
   const currentBracket = baseline[0]?.marginalRate || 0
   for (const yr of baseline.slice(1)) {
@@ -555,7 +429,7 @@ export function runMultiYearAnalysis(
   state: FortunaState,
   years: number = 5,
 ): MultiYearAnalysis {
-  const currentYear = new Date().getFullYear()
+  const currentYear = state.taxYear || new Date().getFullYear()
   const report = generateTaxReport(state)
   const baseline: YearProjection[] = []
 
@@ -592,17 +466,7 @@ export function runMultiYearAnalysis(
   }
 
   const scenarios = generateShiftScenarios(state, baseline)
-  const insights = generateInsights(baseline, scenarios, state)
-
-  // TCJA sunset impact
-  const preSunset = baseline.filter(y => y.bracketRegime === 'tcja')
-  const postSunset = baseline.filter(y => y.bracketRegime === 'pre_tcja')
-  let tcjaSunsetImpact = 0
-  if (preSunset.length > 0 && postSunset.length > 0) {
-    const lastPre = preSunset[preSunset.length - 1]
-    const firstPost = postSunset[0]
-    tcjaSunsetImpact = Math.max(0, firstPost.totalTax - Math.round(firstPost.grossIncome * lastPre.effectiveRate))
-  }
+  const insights = generateInsights(baseline, scenarios)
 
   // Bracket headroom
   let bracketHeadroom = 0
@@ -617,7 +481,6 @@ export function runMultiYearAnalysis(
   return {
     baseline,
     scenarios,
-    tcjaSunsetImpact,
     optimalScenario: scenarios[0]?.id || '',
     bracketHeadroom: Math.round(bracketHeadroom),
     insights,
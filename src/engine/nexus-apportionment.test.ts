@@ -0,0 +1,93 @@
+/**
+ * Nexus & Apportionment — Test Suite
+ * Validates: receipts sourcing, nexus tests, apportionment factors, PTE and composite modelling
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import { analyzeNexus, apportion, entityReceiptsByState } from './nexus-apportionment'
+import { addCustomer, createInvoice, sendInvoice } from './invoicing'
+import { analyzeEntityNexus } from './state-arbitrage'
+
+describe('entity nexus and apportionment', () => {
+  const now = new Date('2025-06-01')
+
+  // TX S-corp selling $1.2M of widgets: $800k invoiced to a California customer,
+  // the rest of the stream sourced 15% WA / 10% NY / remainder home
+  function widgetState(): FortunaState {
+    let state = createDefaultState()
+    state.taxYear = 2025
+    state.profile.state = 'TX'
+    state.entities = [{
+      id: 'co-1', name: 'Widget Co', type: 'scorp', state: 'TX', annualCost: 0, isActive: true, tangibleGoodsOnly: true, officerSalary: 60000,
+    }]
+    state.incomeStreams = [{
+      id: 's1', name: 'Widget sales', type: 'business', annualAmount: 1_200_000, isActive: true, entityId: 'co-1',
+      sourceStates: [{ stateCode: 'WA', pct: 15 }, { stateCode: 'NY', pct: 10 }],
+    }]
+    state = addCustomer(state, { entityId: 'co-1', name: 'Acme', state: 'ca' }, now)
+    state = createInvoice(state, {
+      customerId: state.customers![0].id, issueDate: '2025-02-01', incomeStreamId: 's1',
+      lines: [{ description: 'Widgets', quantity: 1, rate: 800_000 }],
+    }, now)
+    return sendInvoice(state, state.invoices![0].id, now)
+  }
+
+  it('sources receipts to customer states and stream allocations', () => {
+    const state = widgetState()
+    expect(state.customers![0].state).toBe('CA')
+    const receipts = entityReceiptsByState(state, state.entities[0], 2025)
+    // Only the unbilled $400k follows sourceStates
+    expect(Object.fromEntries(receipts)).toEqual({ CA: 800_000, WA: 60_000, NY: 40_000, TX: 300_000 })
+    expect(entityReceiptsByState(state, state.entities[0], 2024).get('CA')).toBeUndefined()
+  })
+
+  it('tests economic nexus and P.L. 86-272 protection', () => {
+    const state = widgetState()
+    const analysis = analyzeNexus(state, state.entities[0])
+    const byState = Object.fromEntries(analysis.states.map(s => [s.stateCode, s]))
+
+    expect(analysis.nexusStates).toEqual(['CA', 'TX'])
+    expect(byState.CA).toMatchObject({ nexusBasis: ['receipts'], pl86272Protected: true, taxable: false, apportionmentPct: 66.67 })
+    // Gross receipts taxes are outside 86-272; officer payroll is physical presence
+    expect(byState.TX).toMatchObject({ nexusBasis: ['domicile', 'payroll'], pl86272Protected: false, taxable: true, apportionedIncome: 300_000 })
+    expect(byState.WA.nexus).toBe(false)
+    expect(byState.NY.notes[0]).toContain('3% of the $1,283,000 threshold')
+    expect(analysis.nowhereIncome).toBe(900_000)
+
+    // Drop the tangible-goods shield and WA crosses its $100k B&O bright line
+    state.entities[0].tangibleGoodsOnly = false
+    state.incomeStreams[0].sourceStates = [{ stateCode: 'WA', pct: 30 }]
+    const exposed = analyzeNexus(state, state.entities[0])
+    expect(exposed.nexusStates).toEqual(['CA', 'TX', 'WA'])
+    expect(exposed.states.find(s => s.stateCode === 'CA')).toMatchObject({ taxable: true, apportionedIncome: 800_000 })
+    expect(exposed.warnings).toContain('Nexus in Washington (receipts) — register as a foreign entity and file there')
+  })
+
+  it('apportions by single-sales, three-factor and double-weighted formulas', () => {
+    const f = { receipts: 50, receiptsTotal: 100, payroll: 20, payrollTotal: 100, property: 0, propertyTotal: 0 }
+    expect(apportion(f, 'single_sales')).toBe(0.5)
+    // No property anywhere: that factor drops out of the average
+    expect(apportion(f, 'three_factor')).toBeCloseTo(0.35)
+    expect(apportion(f, 'double_weighted_sales')).toBeCloseTo(0.4)
+    expect(apportion({ ...f, property: 30, propertyTotal: 100 }, 'three_factor')).toBeCloseTo(1 / 3)
+  })
+
+  it('models PTE elections and composite returns for a nonresident owner', () => {
+    const state = widgetState()
+    state.entities[0].tangibleGoodsOnly = false
+    state.profile.state = 'NJ'
+    const ca = analyzeNexus(state, state.entities[0]).passThrough.find(p => p.stateCode === 'CA')!
+
+    expect(ca).toMatchObject({ ownerResident: false, ownerShare: 800_000, pteAvailable: true, pteTax: 74_400, pteCredit: 74_400 })
+    // The credit leaves the owner's individual tax where it was; the federal deduction is the benefit
+    expect(ca.pteNetBenefit).toBe(ca.federalSavings)
+    expect(ca.compositeTax).toBe(106_400)
+    expect(ca.recommendation).toBe('elect_pte')
+    // TX margin tax falls on the entity, not the owner
+    expect(analyzeNexus(state, state.entities[0]).passThrough.map(p => p.stateCode)).toEqual(['CA'])
+
+    const [info] = analyzeEntityNexus(state)
+    expect(info.operatingStates).toEqual(['CA', 'TX', 'NJ'])
+    expect(info.nexusWarnings).toContain(`CA pass-through entity tax election would save about $${ca.pteNetBenefit.toLocaleString()}`)
+  })
+})
@@ -0,0 +1,422 @@
+/**
+ * FORTUNA ENGINE — Nexus & Apportionment v1
+ *
+ * State income/franchise tax nexus and apportionment for each active entity.
+ *
+ * Features:
+ *   - Receipts sourced by state from invoices (ship-to or customer state), stream
+ *     sourceStates, and the entity's home state for the rest
+ *   - Payroll by employee work state; property from real estate and assets
+ *   - Nexus from domicile, payroll or property presence, bright-line receipts
+ *     thresholds, and factor-presence share of totals
+ *   - P.L. 86-272 protection for sellers of tangible goods with no in-state
+ *     payroll or property (never against gross receipts taxes)
+ *   - Single-sales-factor, three-factor and double-weighted-sales apportionment
+ *   - Elective pass-through entity tax (PTET) and composite returns for
+ *     S-corps and partnerships, against owners filing individually
+ *
+ * Thresholds, formulas and PTE rates are simplified 2025 figures for the
+ * states with statutory rules; other states fall back to the MTC
+ * factor-presence standard. Verify with the state before filing.
+ */
+
+import type { FortunaState, LegalEntity } from './storage'
+import { generateTaxReport } from './tax-calculator'
+import { getStateNames, getStateMarginalRate } from './state-tax-engine'
+import { invoiceTotal, isIssued } from './invoicing'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type ApportionmentFormula = 'single_sales' | 'three_factor' | 'double_weighted_sales'
+export type NexusBasis = 'domicile' | 'payroll' | 'property' | 'receipts' | 'factor_share'
+
+export interface StateNexusRule {
+  receipts?: number            // Bright-line receipts threshold
+  property?: number
+  payroll?: number
+  factorShare?: number         // Nexus when any in-state factor is this share of the entity's total
+  formula: ApportionmentFormula
+  taxName?: string             // Entity-level tax in place of owner income tax
+  grossReceiptsTax?: boolean   // Taxes receipts, not net income — P.L. 86-272 does not apply
+  entityTax?: 'all' | 'ccorp_only' | 'none'  // Who the state taxes (default all)
+  pteRate?: number             // Elective pass-through entity tax rate, where offered
+  pteCreditPct?: number        // Share of PTE tax credited to owners (default 100)
+  compositeRate?: number       // Nonresident composite rate (defaults to the top individual rate)
+}
+
+export interface ApportionmentFactors {
+  receipts: number
+  receiptsTotal: number
+  payroll: number
+  payrollTotal: number
+  property: number
+  propertyTotal: number
+}
+
+export interface StateNexusResult {
+  stateCode: string
+  stateName: string
+  receipts: number
+  payroll: number
+  property: number
+  nexus: boolean
+  nexusBasis: NexusBasis[]
+  pl86272Protected: boolean    // Nexus exists but net income tax is barred
+  taxable: boolean             // Nexus, not protected, and the state taxes this entity type
+  formula: ApportionmentFormula
+  apportionmentPct: number     // 0-100
+  apportionedIncome: number
+  notes: string[]
+}
+
+export interface PassThroughStateTax {
+  stateCode: string
+  ownerResident: boolean
+  ownerShare: number           // Owner's share of income apportioned to the state
+  individualTax: number        // Owner files (nonresident or resident) return
+  pteAvailable: boolean
+  pteElected: boolean
+  pteTax: number
+  pteCredit: number
+  federalSavings: number       // PTE tax deducted at entity level, outside the SALT cap
+  pteNetBenefit: number        // Positive = electing saves money
+  compositeTax?: number        // Nonresident owners only
+  recommendation: 'elect_pte' | 'composite' | 'individual'
+}
+
+export interface EntityNexusAnalysis {
+  entityId: string
+  entityName: string
+  entityType: LegalEntity['type']
+  taxYear: number
+  homeState: string
+  netIncome: number
+  totalReceipts: number
+  totalPayroll: number
+  totalProperty: number
+  states: StateNexusResult[]   // Every state with activity or nexus; nexus states first
+  nexusStates: string[]
+  nowhereIncome: number        // Income apportioned to no taxing state
+  passThrough: PassThroughStateTax[]
+  warnings: string[]
+}
+
+// ─── State Rules (2025, simplified) ─────────────────────────────────────────
+
+/** MTC factor-presence standard, used where a state has no bright line of its own */
+export const DEFAULT_NEXUS_RULE: StateNexusRule = { receipts: 500_000, property: 50_000, payroll: 50_000, factorShare: 0.25, formula: 'single_sales' }
+
+export const STATE_NEXUS_RULES: Record<string, StateNexusRule> = {
+  AK: { formula: 'three_factor', entityTax: 'ccorp_only' },
+  AL: { receipts: 500_000, property: 50_000, payroll: 50_000, factorShare: 0.25, formula: 'single_sales', pteRate: 0.05 },
+  AZ: { formula: 'single_sales', pteRate: 0.025 },
+  CA: { receipts: 757_070, property: 75_707, payroll: 75_707, factorShare: 0.25, formula: 'single_sales', pteRate: 0.093, compositeRate: 0.133 },
+  CO: { receipts: 500_000, property: 50_000, payroll: 50_000, factorShare: 0.25, formula: 'single_sales', pteRate: 0.044 },
+  CT: { receipts: 500_000, formula: 'single_sales', pteRate: 0.0699, pteCreditPct: 87.5 },
+  FL: { formula: 'double_weighted_sales', entityTax: 'ccorp_only' },
+  GA: { formula: 'single_sales', pteRate: 0.0539 },
+  HI: { formula: 'three_factor' },
+  IL: { formula: 'single_sales', pteRate: 0.0495 },
+  KS: { formula: 'three_factor', pteRate: 0.0558 },
+  MA: { formula: 'double_weighted_sales', pteRate: 0.05, pteCreditPct: 90 },
+  MI: { receipts: 350_000, formula: 'single_sales', pteRate: 0.0425 },
+  MN: { formula: 'single_sales', pteRate: 0.0985 },
+  NC: { formula: 'single_sales', pteRate: 0.0425 },
+  NH: { formula: 'single_sales', taxName: 'Business profits tax' },
+  NJ: { receipts: 100_000, formula: 'single_sales', pteRate: 0.0675, compositeRate: 0.1075 },
+  NV: { formula: 'single_sales', taxName: 'Commerce tax (over $4M revenue)', grossReceiptsTax: true },
+  NY: { receipts: 1_283_000, formula: 'single_sales', pteRate: 0.0685, compositeRate: 0.109 },
+  OH: { receipts: 500_000, property: 50_000, payroll: 50_000, factorShare: 0.25, formula: 'single_sales', taxName: 'Commercial Activity Tax', grossReceiptsTax: true },
+  OR: { receipts: 750_000, formula: 'single_sales', taxName: 'Corporate Activity Tax', grossReceiptsTax: true, pteRate: 0.09 },
+  PA: { formula: 'single_sales' },
+  SD: { formula: 'single_sales', entityTax: 'none' },
+  TN: { receipts: 500_000, property: 50_000, payroll: 50_000, factorShare: 0.25, formula: 'single_sales', taxName: 'Franchise & excise tax' },
+  TX: { receipts: 500_000, formula: 'single_sales', taxName: 'Franchise (margin) tax', grossReceiptsTax: true },
+  VA: { formula: 'double_weighted_sales', pteRate: 0.0575 },
+  WA: { receipts: 100_000, formula: 'single_sales', taxName: 'Business & occupation tax', grossReceiptsTax: true },
+  WI: { formula: 'single_sales', pteRate: 0.079 },
+  WY: { formula: 'single_sales', entityTax: 'none' },
+}
+
+export function nexusRule(stateCode: string): StateNexusRule {
+  return STATE_NEXUS_RULES[stateCode.toUpperCase()] ?? DEFAULT_NEXUS_RULE
+}
+
+const PASS_THROUGH_TYPES: LegalEntity['type'][] = ['scorp', 'llc_scorp', 'partnership']
+
+// ─── Factors ────────────────────────────────────────────────────────────────
+
+const round = (n: number) => Math.round(n * 100) / 100
+
+function addTo(map: Map<string, number>, code: string | undefined, amount: number) {
+  if (!code || amount <= 0) return
+  const key = code.toUpperCase()
+  map.set(key, (map.get(key) || 0) + amount)
+}
+
+/** Two-letter state from a free-form address ("…, Austin, TX 78701") */
+export function stateFromAddress(address: string): string | undefined {
+  const match = address.match(/\b([A-Z]{2})\s+\d{5}(?:-\d{4})?\s*$/) || address.match(/,\s*([A-Z]{2})\s*$/)
+  return match?.[1]
+}
+
+/**
+ * Receipts by state for the tax year. Invoices source to the ship-to or
+ * customer's state; a stream's estimate above what was invoiced sources by its
+ * sourceStates, and anything left to the entity's home state.
+ */
+export function entityReceiptsByState(state: FortunaState, entity: LegalEntity, year: number): Map<string, number> {
+  const home = entity.state || state.profile.state
+  const receipts = new Map<string, number>()
+  const customers = new Map((state.customers || []).map(c => [c.id, c]))
+  const streams = state.incomeStreams.filter(s => s.isActive && s.entityId === entity.id)
+  const billedByStream = new Map<string, number>()
+
+  for (const inv of state.invoices || []) {
+    if (inv.entityId !== entity.id || !isIssued(inv) || !inv.issueDate.startsWith(String(year))) continue
+    const amount = invoiceTotal(inv)
+    addTo(receipts, inv.shipTo?.state || customers.get(inv.customerId)?.state || home, amount)
+    if (inv.incomeStreamId) billedByStream.set(inv.incomeStreamId, (billedByStream.get(inv.incomeStreamId) || 0) + amount)
+  }
+
+  for (const stream of streams) {
+    const unbilled = stream.annualAmount - (billedByStream.get(stream.id) || 0)
+    if (unbilled <= 0) continue
+    let allocated = 0
+    for (const alloc of stream.sourceStates || []) {
+      if (!alloc.stateCode || alloc.pct <= 0) continue
+      const share = unbilled * Math.min(alloc.pct, 100 - allocated) / 100
+      allocated = Math.min(100, allocated + alloc.pct)
+      addTo(receipts, alloc.stateCode, share)
+    }
+    addTo(receipts, home, unbilled * (100 - allocated) / 100)
+  }
+  return receipts
+}
+
+/** Wages by work state; an officer salary with no officer on payroll counts where the owner lives */
+export function entityPayrollByState(state: FortunaState, entity: LegalEntity): Map<string, number> {
+  const payroll = new Map<string, number>()
+  const employees = (state.employees || []).filter(e => e.entityId === entity.id)
+  for (const e of employees) addTo(payroll, e.workState || e.address?.state || entity.state, e.annualSalary)
+  if (entity.officerSalary && !employees.some(e => e.isOfficer)) addTo(payroll, state.profile.state, entity.officerSalary)
+  return payroll
+}
+
+/** Property at original cost: real estate by its address, other assets at the home state */
+export function entityPropertyByState(state: FortunaState, entity: LegalEntity): Map<string, number> {
+  const property = new Map<string, number>()
+  for (const p of state.realEstate || []) {
+    if (p.entityId === entity.id) addTo(property, stateFromAddress(p.address) || entity.state, p.purchasePrice)
+  }
+  for (const a of state.depreciationAssets || []) {
+    if (a.entityId === entity.id && a.isActive) addTo(property, entity.state, a.purchasePrice * a.businessUsePct / 100)
+  }
+  return property
+}
+
+/**
+ * Apportionment percentage (0-1). Factors with an empty denominator drop
+ * out of the average, per UDITPA.
+ */
+export function apportion(f: ApportionmentFactors, formula: ApportionmentFormula): number {
+  const sales = f.receiptsTotal > 0 ? f.receipts / f.receiptsTotal : null
+  if (formula === 'single_sales') return sales ?? 0
+
+  const weighted: [number | null, number][] = [
+    [f.propertyTotal > 0 ? f.property / f.propertyTotal : null, 1],
+    [f.payrollTotal > 0 ? f.payroll / f.payrollTotal : null, 1],
+    [sales, formula === 'double_weighted_sales' ? 2 : 1],
+  ]
+  const used = weighted.filter(([v]) => v !== null) as [number, number][]
+  const weights = used.reduce((s, [, w]) => s + w, 0)
+  return weights > 0 ? used.reduce((s, [v, w]) => s + v * w, 0) / weights : 0
+}
+
+// ─── Nexus ──────────────────────────────────────────────────────────────────
+
+function testNexus(
+  code: string,
+  homeState: string,
+  f: ApportionmentFactors,
+  rule: StateNexusRule,
+): NexusBasis[] {
+  const basis: NexusBasis[] = []
+  if (code === homeState) basis.push('domicile')
+  if (f.payroll > 0) basis.push('payroll')
+  if (f.property > 0) basis.push('property')
+  if (rule.receipts !== undefined && f.receipts >= rule.receipts) basis.push('receipts')
+  if (rule.factorShare !== undefined && basis.length === 0) {
+    const shares = [
+      f.receiptsTotal > 0 ? f.receipts / f.receiptsTotal : 0,
+      f.payrollTotal > 0 ? f.payroll / f.payrollTotal : 0,
+      f.propertyTotal > 0 ? f.property / f.propertyTotal : 0,
+    ]
+    if (shares.some(s => s >= rule.factorShare!) && f.receipts > 0) basis.push('factor_share')
+  }
+  return basis
+}
+
+/** Nexus and apportionment for one entity */
+export function analyzeNexus(state: FortunaState, entity: LegalEntity, report = generateTaxReport(state)): EntityNexusAnalysis {
+  const year = state.taxYear || new Date().getFullYear()
+  const homeState = (entity.state || state.profile.state).toUpperCase()
+  const names = getStateNames()
+  const isPassThrough = PASS_THROUGH_TYPES.includes(entity.type)
+
+  const receipts = entityReceiptsByState(state, entity, year)
+  const payroll = entityPayrollByState(state, entity)
+  const property = entityPropertyByState(state, entity)
+  const sum = (m: Map<string, number>) => [...m.values()].reduce((s, v) => s + v, 0)
+  const totals = { receiptsTotal: sum(receipts), payrollTotal: sum(payroll), propertyTotal: sum(property) }
+  const netIncome = report.entityBreakdown.find(e => e.entityId === entity.id)?.netIncome ?? 0
+
+  const codes = [...new Set([homeState, ...receipts.keys(), ...payroll.keys(), ...property.keys()])]
+  const states: StateNexusResult[] = codes.map(code => {
+    const rule = nexusRule(code)
+    const f: ApportionmentFactors = {
+      receipts: receipts.get(code) || 0, payroll: payroll.get(code) || 0, property: property.get(code) || 0, ...totals,
+    }
+    const nexusBasis = testNexus(code, homeState, f, rule)
+    const nexus = nexusBasis.length > 0
+    const notes: string[] = []
+
+    // P.L. 86-272: solicitation of orders for tangible goods, nothing physical in the state
+    const pl86272Protected = nexus && !!entity.tangibleGoodsOnly && !rule.grossReceiptsTax
+      && !nexusBasis.some(b => b === 'domicile' || b === 'payroll' || b === 'property')
+    if (pl86272Protected) notes.push('P.L. 86-272 bars net income tax: only solicitation of tangible-goods orders')
+    else if (nexus && entity.tangibleGoodsOnly && rule.grossReceiptsTax) notes.push(`P.L. 86-272 does not protect against ${rule.taxName || 'gross receipts tax'}`)
+
+    const reach = rule.entityTax ?? 'all'
+    const taxable = nexus && !pl86272Protected && (reach === 'all' || (reach === 'ccorp_only' && entity.type === 'ccorp'))
+
+    const pct = apportion(f, rule.formula)
+    if (nexusBasis.includes('receipts')) notes.push(`Receipts $${Math.round(f.receipts).toLocaleString()} meet the $${rule.receipts!.toLocaleString()} bright line`)
+    if (rule.payroll && f.payroll > 0 && f.payroll < rule.payroll) {
+      notes.push(`Payroll is under the $${rule.payroll.toLocaleString()} bright line, but in-state employees are physical presence`)
+    }
+    if (nexusBasis.includes('factor_share')) notes.push(`In-state factors reach ${Math.round(rule.factorShare! * 100)}% of the entity total`)
+    if (!nexus && f.receipts > 0 && rule.receipts) {
+      notes.push(`Receipts at ${Math.round(f.receipts / rule.receipts * 100)}% of the $${rule.receipts.toLocaleString()} threshold`)
+    }
+    if (rule.taxName && taxable) notes.push(`Subject to ${rule.taxName}`)
+
+    return {
+      stateCode: code,
+      stateName: names[code] || code,
+      receipts: round(f.receipts),
+      payroll: round(f.payroll),
+      property: round(f.property),
+      nexus,
+      nexusBasis,
+      pl86272Protected,
+      taxable,
+      formula: rule.formula,
+      apportionmentPct: Math.round(pct * 10000) / 100,
+      apportionedIncome: taxable ? Math.round(netIncome * pct) : 0,
+      notes,
+    }
+  }).sort((a, b) => Number(b.nexus) - Number(a.nexus) || b.receipts - a.receipts)
+
+  // Income taxed nowhere: single-sales receipts in states where the entity isn't taxable
+  const nowhereIncome = totals.receiptsTotal > 0
+    ? Math.round(netIncome * states.filter(s => !s.nexus || s.pl86272Protected).reduce((sum, s) => sum + s.receipts, 0) / totals.receiptsTotal)
+    : 0
+
+  const warnings: string[] = []
+  for (const s of states) {
+    if (s.nexus && s.stateCode !== homeState && !s.pl86272Protected) {
+      warnings.push(`Nexus in ${s.stateName} (${s.nexusBasis.join(', ')}) — register as a foreign entity and file there`)
+    }
+    const rule = nexusRule(s.stateCode)
+    if (!s.nexus && rule.receipts && s.receipts >= rule.receipts * 0.8) {
+      warnings.push(`${s.stateName} receipts are within 20% of the $${rule.receipts.toLocaleString()} nexus threshold`)
+    }
+  }
+
+  const analysis: EntityNexusAnalysis = {
+    entityId: entity.id,
+    entityName: entity.name,
+    entityType: entity.type,
+    taxYear: year,
+    homeState,
+    netIncome,
+    totalReceipts: round(totals.receiptsTotal),
+    totalPayroll: round(totals.payrollTotal),
+    totalProperty: round(totals.propertyTotal),
+    states,
+    nexusStates: states.filter(s => s.nexus).map(s => s.stateCode),
+    nowhereIncome,
+    passThrough: [],
+    warnings,
+  }
+  if (isPassThrough) analysis.passThrough = modelPassThroughTax(state, entity, analysis, report.marginalRate, report.agi)
+  return analysis
+}
+
+// ─── Pass-Through Entity Tax & Composite Returns ────────────────────────────
+
+/**
+ * For each taxable state, compare the owner filing individually against the
+ * entity electing PTE tax (deductible federally at `federalRate`, outside the
+ * SALT cap, which is assumed used up) and, for nonresident owners, a
+ * composite return at the state's composite rate.
+ */
+export function modelPassThroughTax(
+  state: FortunaState,
+  entity: LegalEntity,
+  analysis: EntityNexusAnalysis,
+  federalRate: number,
+  ownerIncome: number,
+): PassThroughStateTax[] {
+  const ownership = (entity.ownershipPct ?? 100) / 100
+  const residence = state.profile.state.toUpperCase()
+  const elected = new Set((entity.pteElectionStates || []).map(s => s.toUpperCase()))
+
+  const rows: PassThroughStateTax[] = []
+  for (const s of analysis.states) {
+    if (!s.taxable || s.apportionedIncome <= 0) continue
+    const rule = nexusRule(s.stateCode)
+    const ownerShare = Math.round(s.apportionedIncome * ownership)
+    const individualRate = getStateMarginalRate(s.stateCode, Math.max(ownerIncome, ownerShare), state.profile.filingStatus)
+    const pteAvailable = rule.pteRate !== undefined
+    // Entity-level taxes alone (TX margin, TN F&E, WA B&O) fall on the entity, not the owner
+    if (individualRate === 0 && !pteAvailable) continue
+    const individualTax = Math.round(ownerShare * individualRate)
+    const ownerResident = s.stateCode === residence
+
+    const pteTax = pteAvailable ? Math.round(ownerShare * rule.pteRate!) : 0
+    const pteCredit = Math.round(pteTax * (rule.pteCreditPct ?? 100) / 100)
+    const federalSavings = Math.round(pteTax * federalRate)
+    // Owner still owes any individual tax the credit doesn't cover
+    const stateCostWithPte = pteTax + Math.max(0, individualTax - pteCredit)
+    const pteNetBenefit = pteAvailable ? federalSavings - (stateCostWithPte - individualTax) : 0
+
+    const compositeTax = ownerResident ? undefined
+      : Math.round(ownerShare * (rule.compositeRate ?? getStateMarginalRate(s.stateCode, 10_000_000, 'single')))
+
+    rows.push({
+      stateCode: s.stateCode,
+      ownerResident,
+      ownerShare,
+      individualTax,
+      pteAvailable,
+      pteElected: elected.has(s.stateCode),
+      pteTax,
+      pteCredit,
+      federalSavings,
+      pteNetBenefit,
+      ...(compositeTax !== undefined ? { compositeTax } : {}),
+      recommendation: pteNetBenefit > 0 ? 'elect_pte' as const
+        : compositeTax !== undefined && compositeTax <= individualTax ? 'composite' as const
+        : 'individual' as const,
+    })
+  }
+  return rows
+}
+
+/** Nexus and apportionment for every active entity */
+export function analyzeAllNexus(state: FortunaState): EntityNexusAnalysis[] {
+  const report = generateTaxReport(state)
+  return state.entities.filter(e => e.isActive && e.type !== 'personal').map(e => analyzeNexus(state, e, report))
+}
@@ -3,12 +3,13 @@
  * Calculates per-period take-home pay from W-2 data with full deduction breakdown.
  */
 
-import type { FortunaState, IncomeStream } from './storage'
-import { FEDERAL_BRACKETS_2024, STANDARD_DEDUCTION_2024 } from './tax-calculator'
+import type { FortunaState, IncomeStream, PayFrequency } from './storage'
+import { calculateFederalIncomeTax, getMarginalFederalRate } from './tax-calculator'
+import { getTaxParameters, getStandardDeduction } from './tax-parameters'
 
-export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly'
+export type { PayFrequency }
 
-const PERIODS_PER_YEAR: Record<PayFrequency, number> = {
+export const PERIODS_PER_YEAR: Record<PayFrequency, number> = {
   weekly: 52, biweekly: 26, semimonthly: 24, monthly: 12,
 }
 
@@ -67,12 +68,10 @@ export interface PaycheckDiscrepancy {
   message: string
 }
 
-// Social Security wage base 2025
-const SS_WAGE_BASE = 176100
-const SS_RATE = 0.062
-const MEDICARE_RATE = 0.0145
-const MEDICARE_ADDITIONAL_THRESHOLD = 200000
-const MEDICARE_ADDITIONAL_RATE = 0.009
+export const SS_RATE = 0.062
+export const MEDICARE_RATE = 0.0145
+export const MEDICARE_ADDITIONAL_THRESHOLD = 200000
+export const MEDICARE_ADDITIONAL_RATE = 0.009
 
 export function simulatePaycheck(
   stream: IncomeStream,
@@ -82,6 +81,8 @@ export function simulatePaycheck(
   if (stream.type !== 'w2' || !stream.isActive || stream.annualAmount <= 0) return null
 
   const w2 = stream.w2 || {}
+  const params = getTaxParameters(state.taxYear)
+  const stdDed = getStandardDeduction(state.profile.filingStatus, state.taxYear)
   const periods = PERIODS_PER_YEAR[frequency]
   const annualGross = w2.grossSalary && w2.grossSalary > 0 ? w2.grossSalary : stream.annualAmount
   const grossPay = Math.round(annualGross / periods)
@@ -103,16 +104,8 @@ export function simulatePaycheck(
     federalWithholding = Math.round(w2.federalWithholding / periods)
   } else {
     // Estimate: apply brackets to annual taxable minus standard deduction
-    const stdDed = STANDARD_DEDUCTION_2024[state.profile.filingStatus] || 14600
     const annualFedTaxable = Math.max(0, annualTaxable - stdDed)
-    const brackets = FEDERAL_BRACKETS_2024[state.profile.filingStatus as keyof typeof FEDERAL_BRACKETS_2024] || FEDERAL_BRACKETS_2024.single
-    let annualFedTax = 0
-    for (const bracket of brackets) {
-      if (annualFedTaxable > bracket.min) {
-        const taxableInBracket = Math.min(annualFedTaxable, bracket.max) - bracket.min
-        annualFedTax += taxableInBracket * bracket.rate
-      }
-    }
+    const annualFedTax = calculateFederalIncomeTax(annualFedTaxable, state.profile.filingStatus, state.taxYear)
     federalWithholding = Math.round(annualFedTax / periods)
   }
 
@@ -128,7 +121,7 @@ export function simulatePaycheck(
 
   // FICA per period
   // SS: 6.2% up to wage base, need to track cumulative
-  const annualSS = Math.min(annualGross, SS_WAGE_BASE) * SS_RATE
+  const annualSS = Math.min(annualGross, params.socialSecurityWageBase) * SS_RATE
   const socialSecurity = Math.round(annualSS / periods)
 
   // Medicare: 1.45% on all + 0.9% on income above $200k
@@ -149,13 +142,8 @@ export function simulatePaycheck(
   const totalCompensation = annualGross + (employerFICA * periods) + (w2.employerMatch401k || 0)
 
   // Marginal federal rate
-  const brackets = FEDERAL_BRACKETS_2024[state.profile.filingStatus as keyof typeof FEDERAL_BRACKETS_2024] || FEDERAL_BRACKETS_2024.single
-  let marginalFedRate = 0.10
-  const stdDed = STANDARD_DEDUCTION_2024[state.profile.filingStatus] || 14600
   const fedTaxableIncome = Math.max(0, annualTaxable - stdDed)
-  for (const bracket of brackets) {
-    if (fedTaxableIncome > bracket.min) marginalFedRate = bracket.rate
-  }
+  const marginalFedRate = getMarginalFederalRate(fedTaxableIncome, state.profile.filingStatus, state.taxYear)
 
   // Discrepancy detection
   const discrepancies: PaycheckDiscrepancy[] = []
@@ -191,13 +179,15 @@ export function simulatePaycheck(
     }
   }
 
-  if (w2.pretax401k && w2.pretax401k > 23500) {
+  const deferralLimit = params.retirement.electiveDeferral
+  if (w2.pretax401k && w2.pretax401k > deferralLimit) {
+    const catchUpLimit = deferralLimit + params.retirement.catchUp50
     discrepancies.push({
       field: '401(k)',
-      expected: 23500,
+      expected: deferralLimit,
       actual: w2.pretax401k,
       severity: 'alert',
-      message: `401(k) contribution $${w2.pretax401k.toLocaleString()} exceeds 2025 limit ($23,500 / $31,000 if 50+)`,
+      message: `401(k) contribution $${w2.pretax401k.toLocaleString()} exceeds ${params.year} limit ($${deferralLimit.toLocaleString()} / $${catchUpLimit.toLocaleString()} if 50+)`,
     })
   }
 
@@ -279,5 +269,5 @@ function getStateRate(stateCode: string): number {
     NE: 0.055, NM: 0.049, WV: 0.055, ID: 0.058, HI: 0.065, ME: 0.055, MT: 0.059,
     RI: 0.055, DE: 0.055, ND: 0.0195, VT: 0.066, DC: 0.065,
   }
-  return rates[stateCode] || 0.05
+  return rates[stateCode] ?? 0.05
 }
@@ -0,0 +1,121 @@
+/**
+ * Payroll — Test Suite
+ * Validates: pay periods, payroll runs and voids, deposit schedules, Forms 941/940, W-2/W-3 and ledger postings
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import {
+  addEmployee, setPayrollSettings, payPeriods, nextPayPeriod, runPayroll, voidPayrollRun, depositDueDate, form941, form940,
+  buildW2s, buildW3, w2Issues, w2Pdf,
+} from './payroll'
+import { entityW2Wages } from './tax-calculator'
+import { isBalancedEntry, trialBalance } from './general-ledger'
+
+describe('payroll', () => {
+  const now = new Date('2025-01-02T12:00:00Z')
+  const address = { street: '9 Elm St', city: 'Austin', state: 'TX', zip: '78701' }
+
+  /** Texas S-corp paying its officer $240,000 a year, monthly, with a 401(k) deferral */
+  const setup = (): FortunaState => {
+    let state: FortunaState = {
+      ...createDefaultState(),
+      taxYear: 2025,
+      entities: [{ id: 'sc-1', name: 'Lone Star Inc', type: 'scorp', state: 'TX', annualCost: 0, isActive: true, officerSalary: 240000, einNumber: '74-1234567', address }],
+    }
+    state = setPayrollSettings(state, 'sc-1', { frequency: 'monthly', firstPayDate: '2025-01-31', sutaRate: 0.027, sutaWageBase: 9000, depositSchedule: 'monthly' })
+    state = addEmployee(state, {
+      entityId: 'sc-1', name: 'Dana Cruz', ssn: '123-45-6789', address, isOfficer: true, annualSalary: 240000,
+      filingStatus: 'married_joint', pretax401k: 30000, hireDate: '2024-06-01',
+    }, now)
+    return state
+  }
+
+  const runYear = (state: FortunaState): FortunaState => {
+    for (const period of payPeriods(state.entities[0].payroll!, 2025)) state = runPayroll(state, 'sc-1', period, {}, now)
+    return state
+  }
+
+  it('builds pay schedules and semiweekly deposit dates', () => {
+    const base = { firstPayDate: '2025-01-10', sutaRate: 0.027, sutaWageBase: 9000, depositSchedule: 'monthly' as const }
+    expect(payPeriods({ ...base, frequency: 'biweekly' }, 2025)).toHaveLength(26)
+    expect(payPeriods({ ...base, frequency: 'weekly' }, 2025)[0]).toEqual({ payDate: '2025-01-03', periodStart: '2024-12-28', periodEnd: '2025-01-03' })
+    const semi = payPeriods({ ...base, frequency: 'semimonthly' }, 2025)
+    expect(semi).toHaveLength(24)
+    expect(semi[9]).toEqual({ payDate: '2025-05-30', periodStart: '2025-05-16', periodEnd: '2025-05-31' })   // Saturday → Friday
+    expect(depositDueDate('2025-01-31', 'semiweekly')).toBe('2025-02-05')   // Friday → Wednesday
+    expect(depositDueDate('2025-02-04', 'semiweekly')).toBe('2025-02-07')   // Tuesday → Friday
+    expect(depositDueDate('2025-01-31', 'monthly')).toBe('2025-02-15')
+  })
+
+  it('runs gross-to-net with wage-base caps and posts each run to the ledger', () => {
+    const state = runYear(setup())
+    expect(state.payrollRuns).toHaveLength(12)
+    const checks = state.payrollRuns.map(r => r.checks[0])
+    expect(checks[0]).toMatchObject({ gross: 20000, pretax401k: 2500, socialSecurity: 1240, futa: 42, suta: 243 })
+    expect(checks[1]).toMatchObject({ futa: 0, suta: 0 })
+    // 401(k) stops at the $23,500 limit; social security at the $176,100 wage base; 0.9% starts past $200,000
+    expect(checks.reduce((s, c) => s + c.pretax401k, 0)).toBe(23500)
+    expect(checks[8].socialSecurityWages).toBe(16100)
+    expect(checks[9].socialSecurity).toBe(0)
+    expect(checks[9].additionalMedicare).toBe(0)
+    expect(checks[10].additionalMedicare).toBe(180)
+    for (const c of checks) {
+      expect(c.net).toBeCloseTo(c.gross - c.pretax401k - c.federalWithholding - c.stateWithholding - c.socialSecurity - c.medicare, 2)
+    }
+    expect(checks[0].stateWithholding).toBe(0)   // Texas
+
+    const entries = state.journalEntries.filter(e => e.source === 'payroll')
+    expect(entries).toHaveLength(12)
+    expect(entries.every(isBalancedEntry)).toBe(true)
+    const tb = trialBalance(state, 'sc-1', '2025-12-31')
+    expect(tb.rows.find(r => r.account.code === '6000')?.debit).toBe(240000)
+
+    // Duplicate and back-dated runs are refused; only the latest run can be voided
+    const [jan, , , , , , , , , , , dec] = [...state.payrollRuns]
+    expect(runPayroll(state, 'sc-1', { payDate: jan.payDate, periodStart: jan.periodStart, periodEnd: jan.periodEnd }, {}, now)).toBe(state)
+    expect(voidPayrollRun(state, jan.id)).toBe(state)
+    const voided = voidPayrollRun(state, dec.id)
+    expect(voided.payrollRuns).toHaveLength(11)
+    expect(voided.journalEntries.filter(e => e.source === 'payroll')).toHaveLength(11)
+    expect(nextPayPeriod(voided, 'sc-1', 2025)?.payDate).toBe('2025-12-31')
+  })
+
+  it('fills the 941 and 940 worksheets', () => {
+    const state = runYear(setup())
+    const q3 = form941(state, 'sc-1', 2025, 3)
+    expect(q3).toMatchObject({ employees: 1, socialSecurityWages: 56100, socialSecurityTax: 6956.4, medicareWages: 60000, medicareTax: 1740, dueDate: '2025-10-31' })
+    expect(Math.abs(q3.fractionsOfCents)).toBeLessThan(1)
+    expect(q3.deposits.map(d => d.dueDate)).toEqual(['2025-08-15', '2025-09-15', '2025-10-15'])
+    expect(q3.monthlyLiability.reduce((s, m) => s + m, 0)).toBeCloseTo(q3.totalTax, 2)
+
+    const q4 = form941(state, 'sc-1', 2025, 4)
+    expect(q4).toMatchObject({ additionalMedicareWages: 40000, additionalMedicareTax: 360, socialSecurityWages: 0, dueDate: '2026-01-31' })
+
+    const futa = form940(state, 'sc-1', 2025)
+    expect(futa).toMatchObject({ totalPayments: 240000, excessPayments: 233000, taxableWages: 7000, futaTax: 42, dueDate: '2026-01-31' })
+    // Under $500 all year, so the whole liability is due with the return
+    expect(futa.deposits).toEqual([{ dueDate: '2026-01-31', amount: 42, payDates: state.payrollRuns.map(r => r.payDate) }])
+  })
+
+  it('produces W-2s and the W-3, and feeds QBI W-2 wages from payroll', () => {
+    const before = setup()
+    const typed = { ...before, entities: before.entities.map(e => ({ ...e, w2WagesPaid: 100000 })) }
+    expect(entityW2Wages(typed, 'sc-1', 2025)).toBe(100000)
+
+    const state = runYear(typed)
+    expect(entityW2Wages(state, 'sc-1', 2025)).toBe(240000)
+    const [w2] = buildW2s(state, 'sc-1', 2025)
+    expect(w2).toMatchObject({
+      wages: 216500, socialSecurityWages: 176100, socialSecurityTax: 10918.2, medicareWages: 240000, medicareTax: 3840,
+      box12: [{ code: 'D', amount: 23500 }], retirementPlan: true,
+    })
+    const w3 = buildW3([w2], 2025)!
+    expect(w3).toMatchObject({ count: 1, wages: 216500, deferredCompensation: 23500 })
+    expect(w2Issues([w2])).toEqual([])
+
+    const pdf = new TextDecoder('latin1').decode(w2Pdf([w2], w3))
+    expect(pdf).toContain('/Count 2')
+    expect(pdf).toContain('(XXX-XX-6789)')
+    expect(pdf).toContain('(216,500.00)')
+  })
+})
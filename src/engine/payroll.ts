@@ -0,0 +1,751 @@
+/**
+ * Fortuna Engine — Payroll
+ *
+ * Runs payroll for an entity's employees (S-corp officers included):
+ *   - Pay schedules (weekly, biweekly, semimonthly, monthly)
+ *   - Gross-to-net: income tax withholding from paycheck-simulator, FICA
+ *     with year-to-date wage-base and additional-Medicare tracking
+ *   - Employer FICA, FUTA and SUTA
+ *   - Each run posted to the general ledger as a payroll journal entry
+ *   - Form 941 (quarterly) and 940 (annual) worksheets with deposit dates
+ *   - W-2s and the W-3 transmittal, as data and as PDFs
+ *
+ * Runs are stored as they were calculated; later rate or W-4 changes only
+ * affect future runs. Only the most recent run can be voided, since every
+ * later check's year-to-date caps depend on it.
+ */
+
+import type {
+  FortunaState, Employee, Paycheck, PayrollRun, PayrollSettings, PayFrequency, LegalEntity, PostalAddress, FilingStatus,
+} from './storage'
+import {
+  simulatePaycheck, PERIODS_PER_YEAR, SS_RATE, MEDICARE_RATE, MEDICARE_ADDITIONAL_THRESHOLD, MEDICARE_ADDITIONAL_RATE,
+} from './paycheck-simulator'
+import { getTaxParameters } from './tax-parameters'
+import { payrollJournalEntry, postJournalEntry, deleteJournalEntry } from './general-ledger'
+import { normalizeTin, formatTin, maskTin } from './accounts-payable'
+import { buildPdf, PAGE_HEIGHT, type PdfPage, type PdfRect, type PdfText } from './pdf-text'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface EmployeeInput {
+  entityId: string
+  name: string
+  ssn?: string
+  address?: PostalAddress
+  isOfficer?: boolean
+  annualSalary: number
+  filingStatus?: FilingStatus
+  extraWithholding?: number
+  workState?: string
+  pretax401k?: number
+  pretaxHealth?: number
+  sutaExempt?: boolean
+  hireDate: string
+}
+
+export interface PayPeriod {
+  payDate: string
+  periodStart: string
+  periodEnd: string
+}
+
+export interface RunOptions {
+  fundingAccountId?: string    // Bank register the net pay comes out of
+}
+
+export interface TaxDeposit {
+  dueDate: string
+  amount: number
+  payDates: string[]
+}
+
+export interface Form941 {
+  entityId: string
+  year: number
+  quarter: 1 | 2 | 3 | 4
+  employees: number            // Line 1: paid for the period including the 12th of the last month
+  wages: number                // Line 2
+  federalWithholding: number   // Line 3
+  socialSecurityWages: number  // Line 5a
+  socialSecurityTax: number
+  medicareWages: number        // Line 5c
+  medicareTax: number
+  additionalMedicareWages: number  // Line 5d
+  additionalMedicareTax: number
+  totalFicaTax: number         // Line 5e
+  taxBeforeAdjustments: number // Line 6
+  fractionsOfCents: number     // Line 7
+  totalTax: number             // Lines 10 and 12
+  monthlyLiability: [number, number, number]  // Line 16 / Schedule B totals
+  deposits: TaxDeposit[]
+  dueDate: string
+}
+
+export interface Form940 {
+  entityId: string
+  year: number
+  totalPayments: number        // Line 3
+  exemptPayments: number       // Line 4: section 125 benefits
+  excessPayments: number       // Line 5: over $7,000 per employee
+  taxableWages: number         // Line 7
+  futaTax: number              // Lines 8 and 12
+  quarterlyLiability: [number, number, number, number]  // Line 16
+  deposits: TaxDeposit[]       // Due once accumulated liability passes $500
+  dueDate: string
+}
+
+export interface W2Employer {
+  name: string
+  ein: string
+  address?: PostalAddress
+  state: string
+}
+
+export interface FormW2 {
+  year: number
+  employee: Employee
+  employer: W2Employer
+  wages: number                // Box 1
+  federalWithholding: number   // Box 2
+  socialSecurityWages: number  // Box 3
+  socialSecurityTax: number    // Box 4
+  medicareWages: number        // Box 5
+  medicareTax: number          // Box 6
+  box12: { code: string; amount: number }[]
+  retirementPlan: boolean      // Box 13
+  stateWages: number           // Box 16
+  stateWithholding: number     // Box 17
+}
+
+export interface FormW3 {
+  year: number
+  employer: W2Employer
+  count: number                // Box c
+  wages: number
+  federalWithholding: number
+  socialSecurityWages: number
+  socialSecurityTax: number
+  medicareWages: number
+  medicareTax: number
+  deferredCompensation: number // Box 12a, code D total
+  stateWages: number
+  stateWithholding: number
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const FUTA_RATE = 0.006            // 6.0% less the 5.4% state credit
+const FUTA_WAGE_BASE = 7000
+const FUTA_DEPOSIT_THRESHOLD = 500
+const STEP_DAYS: Partial<Record<PayFrequency, number>> = { weekly: 7, biweekly: 14 }
+
+export const DEFAULT_PAYROLL_SETTINGS: Omit<PayrollSettings, 'firstPayDate'> = {
+  frequency: 'monthly',
+  sutaRate: 0.027,
+  sutaWageBase: 7000,
+  depositSchedule: 'monthly',
+}
+
+// ===================================================================
+//  HELPERS
+// ===================================================================
+
+function money(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function makeId(prefix: string, now: Date): string {
+  return `${prefix}_${now.getTime().toString(36)}_${Math.random().toString(36).slice(2, 6)}`
+}
+
+function utc(date: string): Date {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`)
+}
+
+function iso(d: Date): string {
+  return d.toISOString().slice(0, 10)
+}
+
+function addDays(date: string, days: number): string {
+  const d = utc(date)
+  d.setUTCDate(d.getUTCDate() + days)
+  return iso(d)
+}
+
+function monthEnd(year: number, month: number): string {
+  return iso(new Date(Date.UTC(year, month, 0)))
+}
+
+/** Pay on the preceding Friday when the scheduled day falls on a weekend */
+function businessDay(date: string): string {
+  const dow = utc(date).getUTCDay()
+  return dow === 6 ? addDays(date, -1) : dow === 0 ? addDays(date, -2) : date
+}
+
+function quarterOf(date: string): 1 | 2 | 3 | 4 {
+  return (Math.floor((parseInt(date.slice(5, 7)) - 1) / 3) + 1) as 1 | 2 | 3 | 4
+}
+
+function sum<T>(items: T[], pick: (item: T) => number): number {
+  return money(items.reduce((s, i) => s + pick(i), 0))
+}
+
+// ===================================================================
+//  EMPLOYEES & SETTINGS
+// ===================================================================
+
+export function addEmployee(state: FortunaState, input: EmployeeInput, now = new Date()): FortunaState {
+  const name = input.name.trim()
+  const entity = state.entities.find(e => e.id === input.entityId)
+  if (!name || !entity || !(input.annualSalary >= 0) || !input.hireDate) return state
+  const ssn = input.ssn ? normalizeTin(input.ssn) : undefined
+  if (input.ssn && !ssn) return state
+  const employee: Employee = {
+    id: makeId('emp', now),
+    entityId: entity.id,
+    name,
+    ...(ssn ? { ssn } : {}),
+    ...(input.address ? { address: input.address } : {}),
+    isOfficer: input.isOfficer ?? false,
+    annualSalary: money(input.annualSalary),
+    filingStatus: input.filingStatus ?? 'single',
+    ...(input.extraWithholding ? { extraWithholding: money(input.extraWithholding) } : {}),
+    workState: (input.workState || entity.state || state.profile.state).toUpperCase(),
+    ...(input.pretax401k ? { pretax401k: money(input.pretax401k) } : {}),
+    ...(input.pretaxHealth ? { pretaxHealth: money(input.pretaxHealth) } : {}),
+    ...(input.sutaExempt ? { sutaExempt: true } : {}),
+    hireDate: input.hireDate.slice(0, 10),
+    createdAt: now.toISOString(),
+  }
+  return { ...state, employees: [...(state.employees || []), employee] }
+}
+
+export function updateEmployee(state: FortunaState, employeeId: string, patch: Partial<Omit<Employee, 'id' | 'entityId' | 'createdAt'>>): FortunaState {
+  if (patch.ssn !== undefined && !normalizeTin(patch.ssn)) return state
+  return {
+    ...state,
+    employees: (state.employees || []).map(e => e.id === employeeId
+      ? { ...e, ...patch, ...(patch.ssn ? { ssn: normalizeTin(patch.ssn) } : {}) }
+      : e),
+  }
+}
+
+/** Employees who have been paid are terminated instead, so their W-2 survives */
+export function removeEmployee(state: FortunaState, employeeId: string): FortunaState {
+  const paid = (state.payrollRuns || []).some(r => r.checks.some(c => c.employeeId === employeeId))
+  if (paid) return state
+  return { ...state, employees: (state.employees || []).filter(e => e.id !== employeeId) }
+}
+
+export function setPayrollSettings(state: FortunaState, entityId: string, settings: PayrollSettings): FortunaState {
+  if (!state.entities.some(e => e.id === entityId) || !(settings.sutaRate >= 0 && settings.sutaRate < 0.2)) return state
+  return {
+    ...state,
+    entities: state.entities.map(e => e.id === entityId ? { ...e, payroll: settings } : e),
+  }
+}
+
+// ===================================================================
+//  PAY SCHEDULE
+// ===================================================================
+
+/** Every pay period with a pay date in the year */
+export function payPeriods(settings: PayrollSettings, year: number): PayPeriod[] {
+  const periods: PayPeriod[] = []
+  const step = STEP_DAYS[settings.frequency]
+
+  if (step) {
+    // Walk from the anchor to the first scheduled date in the year
+    let date = settings.firstPayDate.slice(0, 10)
+    const first = `${year}-01-01`
+    while (date > first) date = addDays(date, -step)
+    while (date < first) date = addDays(date, step)
+    for (; date.startsWith(`${year}-`); date = addDays(date, step)) {
+      periods.push({ payDate: businessDay(date), periodStart: addDays(date, 1 - step), periodEnd: date })
+    }
+    return periods
+  }
+
+  for (let month = 1; month <= 12; month++) {
+    const mm = String(month).padStart(2, '0')
+    const end = monthEnd(year, month)
+    if (settings.frequency === 'semimonthly') {
+      periods.push({ payDate: businessDay(`${year}-${mm}-15`), periodStart: `${year}-${mm}-01`, periodEnd: `${year}-${mm}-15` })
+      periods.push({ payDate: businessDay(end), periodStart: `${year}-${mm}-16`, periodEnd: end })
+    } else {
+      periods.push({ payDate: businessDay(end), periodStart: `${year}-${mm}-01`, periodEnd: end })
+    }
+  }
+  return periods
+}
+
+/** First scheduled period in the year that hasn't been run */
+export function nextPayPeriod(state: FortunaState, entityId: string, year: number): PayPeriod | undefined {
+  const settings = state.entities.find(e => e.id === entityId)?.payroll
+  if (!settings) return undefined
+  const ran = new Set((state.payrollRuns || []).filter(r => r.entityId === entityId).map(r => r.periodEnd))
+  return payPeriods(settings, year).find(p => !ran.has(p.periodEnd))
+}
+
+function isActive(employee: Employee, period: PayPeriod): boolean {
+  return employee.hireDate <= period.periodEnd && (!employee.terminationDate || employee.terminationDate >= period.periodStart)
+}
+
+// ===================================================================
+//  GROSS TO NET
+// ===================================================================
+
+interface YearToDate {
+  socialSecurityWages: number
+  medicareWages: number
+  futaWages: number
+  sutaWages: number
+  pretax401k: number
+}
+
+function yearToDate(state: FortunaState, employeeId: string, payDate: string): YearToDate {
+  const ytd: YearToDate = { socialSecurityWages: 0, medicareWages: 0, futaWages: 0, sutaWages: 0, pretax401k: 0 }
+  for (const run of state.payrollRuns || []) {
+    if (run.payDate.slice(0, 4) !== payDate.slice(0, 4) || run.payDate >= payDate) continue
+    for (const c of run.checks) {
+      if (c.employeeId !== employeeId) continue
+      ytd.socialSecurityWages += c.socialSecurityWages
+      ytd.medicareWages += c.medicareWages
+      ytd.futaWages += c.futaWages
+      ytd.sutaWages += c.sutaWages
+      ytd.pretax401k += c.pretax401k
+    }
+  }
+  return ytd
+}
+
+/**
+ * One employee's check for a pay date. Income tax withholding is the
+ * paycheck simulator's estimate for the employee's W-4 filing status and
+ * work state; FICA, FUTA and SUTA respect year-to-date wage bases.
+ */
+export function calculatePaycheck(state: FortunaState, employee: Employee, settings: PayrollSettings, payDate: string): Paycheck {
+  const year = parseInt(payDate.slice(0, 4))
+  const params = getTaxParameters(year)
+  const periods = PERIODS_PER_YEAR[settings.frequency]
+  const ytd = yearToDate(state, employee.id, payDate)
+
+  const gross = money(employee.annualSalary / periods)
+  const pretaxHealth = money(Math.min(gross, (employee.pretaxHealth || 0) / periods))
+  const pretax401k = money(Math.max(0, Math.min(
+    gross - pretaxHealth,
+    (employee.pretax401k || 0) / periods,
+    params.retirement.electiveDeferral - ytd.pretax401k,
+  )))
+
+  const simulated = simulatePaycheck(
+    {
+      id: employee.id, name: employee.name, type: 'w2', annualAmount: employee.annualSalary, isActive: true,
+      w2: { grossSalary: employee.annualSalary, pretax401k: pretax401k * periods, pretaxHealthInsurance: pretaxHealth * periods },
+    },
+    { ...state, taxYear: year, profile: { ...state.profile, state: employee.workState, filingStatus: employee.filingStatus } },
+    settings.frequency,
+  )
+  const federalWithholding = money((simulated?.federalWithholding || 0) + (employee.extraWithholding || 0))
+  const stateWithholding = money(simulated?.stateWithholding || 0)
+
+  // Section 125 premiums are exempt from FICA and FUTA; 401(k) deferrals are not
+  const ficaWages = money(gross - pretaxHealth)
+  const socialSecurityWages = money(Math.max(0, Math.min(ficaWages, params.socialSecurityWageBase - ytd.socialSecurityWages)))
+  const medicareWages = ficaWages
+  const additionalWages = Math.max(0, ytd.medicareWages + medicareWages - MEDICARE_ADDITIONAL_THRESHOLD)
+    - Math.max(0, ytd.medicareWages - MEDICARE_ADDITIONAL_THRESHOLD)
+  const socialSecurity = money(socialSecurityWages * SS_RATE)
+  const additionalMedicare = money(additionalWages * MEDICARE_ADDITIONAL_RATE)
+  const medicare = money(medicareWages * MEDICARE_RATE + additionalMedicare)
+  const futaWages = money(Math.max(0, Math.min(ficaWages, FUTA_WAGE_BASE - ytd.futaWages)))
+  const sutaWages = employee.sutaExempt ? 0 : money(Math.max(0, Math.min(ficaWages, settings.sutaWageBase - ytd.sutaWages)))
+
+  const deductions = pretax401k + pretaxHealth + federalWithholding + stateWithholding + socialSecurity + medicare
+  return {
+    employeeId: employee.id,
+    gross,
+    pretax401k,
+    pretaxHealth,
+    federalWithholding,
+    stateWithholding,
+    socialSecurity,
+    medicare,
+    additionalMedicare,
+    net: money(gross - deductions),
+    employerSocialSecurity: socialSecurity,
+    employerMedicare: money(medicareWages * MEDICARE_RATE),
+    futa: money(futaWages * FUTA_RATE),
+    suta: money(sutaWages * settings.sutaRate),
+    socialSecurityWages,
+    medicareWages,
+    futaWages,
+    sutaWages,
+    w2Wages: ficaWages,
+  }
+}
+
+export function employerTaxes(check: Paycheck): number {
+  return money(check.employerSocialSecurity + check.employerMedicare + check.futa + check.suta)
+}
+
+// ===================================================================
+//  RUNS
+// ===================================================================
+
+/**
+ * Pay every active employee of the entity for a period and post the run to
+ * the ledger. Refused when the entity has no payroll settings, nobody is
+ * active, the pay date was already run, or the pay date is in a closed period.
+ */
+export function runPayroll(state: FortunaState, entityId: string, period: PayPeriod, options: RunOptions = {}, now = new Date()): FortunaState {
+  const settings = state.entities.find(e => e.id === entityId)?.payroll
+  const runs = state.payrollRuns || []
+  if (!settings || runs.some(r => r.entityId === entityId && r.payDate === period.payDate)) return state
+  // Runs are kept in pay-date order; a back-dated run would skew later YTD caps
+  if (runs.some(r => r.entityId === entityId && r.payDate > period.payDate)) return state
+
+  const employees = (state.employees || []).filter(e => e.entityId === entityId && isActive(e, period))
+  if (employees.length === 0) return state
+  const checks = employees.map(e => calculatePaycheck(state, e, settings, period.payDate))
+  const run: PayrollRun = { id: makeId('pay', now), entityId, ...period, checks, createdAt: now.toISOString() }
+
+  const gross = sum(checks, c => c.gross)
+  const posted = postJournalEntry(state, payrollJournalEntry({
+    entityId,
+    date: period.payDate,
+    grossWages: gross,
+    employeeWithholding: money(gross - sum(checks, c => c.net)),
+    employerTaxes: sum(checks, employerTaxes),
+    ...(options.fundingAccountId ? { fundingAccountId: options.fundingAccountId } : {}),
+    memo: `Payroll ${period.periodStart} – ${period.periodEnd}`,
+    sourceId: run.id,
+  }), now)
+  if (posted === state) return state
+  return { ...posted, payrollRuns: [...runs, run] }
+}
+
+/** Void the entity's most recent run and its journal entry */
+export function voidPayrollRun(state: FortunaState, runId: string): FortunaState {
+  const run = (state.payrollRuns || []).find(r => r.id === runId)
+  if (!run || state.payrollRuns.some(r => r.entityId === run.entityId && r.payDate > run.payDate)) return state
+  const entry = (state.journalEntries || []).find(e => e.source === 'payroll' && e.sourceId === run.id)
+  const next = entry ? deleteJournalEntry(state, entry.id) : state
+  if (entry && next === state) return state
+  return { ...next, payrollRuns: next.payrollRuns.filter(r => r.id !== runId) }
+}
+
+function runsForYear(state: FortunaState, entityId: string, year: number): PayrollRun[] {
+  return (state.payrollRuns || [])
+    .filter(r => r.entityId === entityId && r.payDate.startsWith(`${year}-`))
+    .sort((a, b) => a.payDate.localeCompare(b.payDate))
+}
+
+// ===================================================================
+//  DEPOSITS, 941 & 940
+// ===================================================================
+
+/**
+ * Federal deposit due date for a pay date: the 15th of the next month for
+ * monthly depositors; for semiweekly depositors, Wednesday–Friday paydays
+ * are due the next Wednesday and Saturday–Tuesday paydays the next Friday.
+ */
+export function depositDueDate(payDate: string, schedule: PayrollSettings['depositSchedule']): string {
+  if (schedule === 'monthly') {
+    const d = utc(payDate)
+    return iso(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 15)))
+  }
+  const dow = utc(payDate).getUTCDay()
+  const target = dow >= 3 && dow <= 5 ? 3 : 5
+  return addDays(payDate, ((target - dow + 7) % 7) || 7)
+}
+
+function checkLiability(c: Paycheck): number {
+  return money(c.federalWithholding + c.socialSecurity + c.employerSocialSecurity + c.medicare + c.employerMedicare)
+}
+
+function quarterDueDate(year: number, quarter: number): string {
+  return quarter === 4 ? `${year + 1}-01-31` : monthEnd(year, quarter * 3 + 1)
+}
+
+export function form941(state: FortunaState, entityId: string, year: number, quarter: 1 | 2 | 3 | 4): Form941 {
+  const settings = state.entities.find(e => e.id === entityId)?.payroll
+  const all = runsForYear(state, entityId, year)
+  const runs = all.filter(r => quarterOf(r.payDate) === quarter)
+  const checks = runs.flatMap(r => r.checks)
+
+  // Line 1 counts whoever was paid for the period covering the 12th of the quarter's last month
+  const twelfth = `${year}-${String(quarter * 3).padStart(2, '0')}-12`
+  const covering = runs.filter(r => r.periodStart <= twelfth && r.periodEnd >= twelfth)
+  const employees = new Set((covering.length ? covering : runs).flatMap(r => r.checks.map(c => c.employeeId))).size
+
+  // Line 5d wages: Medicare wages past $200,000 for the employee, year to date
+  let additionalMedicareWages = 0
+  const ytd = new Map<string, number>()
+  for (const run of all) {
+    for (const c of run.checks) {
+      const before = ytd.get(c.employeeId) || 0
+      ytd.set(c.employeeId, before + c.medicareWages)
+      if (quarterOf(run.payDate) !== quarter) continue
+      additionalMedicareWages += Math.max(0, before + c.medicareWages - MEDICARE_ADDITIONAL_THRESHOLD) - Math.max(0, before - MEDICARE_ADDITIONAL_THRESHOLD)
+    }
+  }
+
+  const wages = sum(checks, c => c.gross - c.pretax401k - c.pretaxHealth)
+  const federalWithholding = sum(checks, c => c.federalWithholding)
+  const socialSecurityWages = sum(checks, c => c.socialSecurityWages)
+  const medicareWages = sum(checks, c => c.medicareWages)
+  const socialSecurityTax = money(socialSecurityWages * SS_RATE * 2)
+  const medicareTax = money(medicareWages * MEDICARE_RATE * 2)
+  const additionalMedicareTax = money(additionalMedicareWages * MEDICARE_ADDITIONAL_RATE)
+  const totalFicaTax = money(socialSecurityTax + medicareTax + additionalMedicareTax)
+  const taxBeforeAdjustments = money(federalWithholding + totalFicaTax)
+  const totalTax = sum(checks, checkLiability)
+
+  const monthlyLiability: [number, number, number] = [0, 0, 0]
+  for (const r of runs) {
+    const m = (parseInt(r.payDate.slice(5, 7)) - 1) % 3
+    monthlyLiability[m] = money(monthlyLiability[m] + sum(r.checks, checkLiability))
+  }
+
+  const deposits = new Map<string, TaxDeposit>()
+  for (const r of runs) {
+    const dueDate = depositDueDate(r.payDate, settings?.depositSchedule ?? 'monthly')
+    const d = deposits.get(dueDate) ?? { dueDate, amount: 0, payDates: [] }
+    d.amount = money(d.amount + sum(r.checks, checkLiability))
+    d.payDates.push(r.payDate)
+    deposits.set(dueDate, d)
+  }
+
+  return {
+    entityId, year, quarter, employees, wages, federalWithholding,
+    socialSecurityWages, socialSecurityTax, medicareWages, medicareTax,
+    additionalMedicareWages: money(additionalMedicareWages), additionalMedicareTax, totalFicaTax,
+    taxBeforeAdjustments,
+    fractionsOfCents: money(totalTax - taxBeforeAdjustments),
+    totalTax,
+    monthlyLiability,
+    deposits: [...deposits.values()].sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+    dueDate: quarterDueDate(year, quarter),
+  }
+}
+
+export function form940(state: FortunaState, entityId: string, year: number): Form940 {
+  const runs = runsForYear(state, entityId, year)
+  const checks = runs.flatMap(r => r.checks)
+  const totalPayments = sum(checks, c => c.gross)
+  const exemptPayments = sum(checks, c => c.pretaxHealth)
+
+  const byEmployee = new Map<string, number>()
+  for (const c of checks) byEmployee.set(c.employeeId, (byEmployee.get(c.employeeId) || 0) + c.gross - c.pretaxHealth)
+  const excessPayments = money([...byEmployee.values()].reduce((s, w) => s + Math.max(0, w - FUTA_WAGE_BASE), 0))
+  const taxableWages = money(totalPayments - exemptPayments - excessPayments)
+
+  const quarterlyLiability: [number, number, number, number] = [0, 0, 0, 0]
+  for (const r of runs) {
+    const q = quarterOf(r.payDate) - 1
+    quarterlyLiability[q] = money(quarterlyLiability[q] + sum(r.checks, c => c.futa))
+  }
+
+  // Liability carries forward until it passes $500, then is due by the end of the next month
+  const deposits: TaxDeposit[] = []
+  let carried = 0
+  let payDates: string[] = []
+  for (let q = 1; q <= 4; q++) {
+    carried = money(carried + quarterlyLiability[q - 1])
+    payDates = [...payDates, ...runs.filter(r => quarterOf(r.payDate) === q).map(r => r.payDate)]
+    if (carried <= FUTA_DEPOSIT_THRESHOLD && (q < 4 || carried === 0)) continue
+    deposits.push({ dueDate: quarterDueDate(year, q), amount: carried, payDates })
+    carried = 0
+    payDates = []
+  }
+
+  return {
+    entityId, year, totalPayments, exemptPayments, excessPayments, taxableWages,
+    futaTax: money(taxableWages * FUTA_RATE),
+    quarterlyLiability,
+    deposits,
+    dueDate: `${year + 1}-01-31`,
+  }
+}
+
+// ===================================================================
+//  W-2 & W-3
+// ===================================================================
+
+function employerFor(entity: LegalEntity): W2Employer {
+  return {
+    name: entity.name,
+    ein: normalizeTin(entity.einNumber) ?? '',
+    ...(entity.address ? { address: entity.address } : {}),
+    state: entity.address?.state || entity.state,
+  }
+}
+
+/** One W-2 per employee paid in the year */
+export function buildW2s(state: FortunaState, entityId: string, year: number): FormW2[] {
+  const entity = state.entities.find(e => e.id === entityId)
+  if (!entity) return []
+  const employer = employerFor(entity)
+  const checks = runsForYear(state, entityId, year).flatMap(r => r.checks)
+
+  const out: FormW2[] = []
+  for (const employee of state.employees || []) {
+    const own = checks.filter(c => c.employeeId === employee.id)
+    if (own.length === 0) continue
+    const deferred = sum(own, c => c.pretax401k)
+    const wages = sum(own, c => c.gross - c.pretax401k - c.pretaxHealth)
+    out.push({
+      year,
+      employee,
+      employer,
+      wages,
+      federalWithholding: sum(own, c => c.federalWithholding),
+      socialSecurityWages: sum(own, c => c.socialSecurityWages),
+      socialSecurityTax: sum(own, c => c.socialSecurity),
+      medicareWages: sum(own, c => c.medicareWages),
+      medicareTax: sum(own, c => c.medicare),
+      box12: deferred > 0 ? [{ code: 'D', amount: deferred }] : [],
+      retirementPlan: deferred > 0,
+      stateWages: wages,
+      stateWithholding: sum(own, c => c.stateWithholding),
+    })
+  }
+  return out.sort((a, b) => a.employee.name.localeCompare(b.employee.name))
+}
+
+export function buildW3(w2s: FormW2[], year: number): FormW3 | undefined {
+  if (w2s.length === 0) return undefined
+  return {
+    year,
+    employer: w2s[0].employer,
+    count: w2s.length,
+    wages: sum(w2s, w => w.wages),
+    federalWithholding: sum(w2s, w => w.federalWithholding),
+    socialSecurityWages: sum(w2s, w => w.socialSecurityWages),
+    socialSecurityTax: sum(w2s, w => w.socialSecurityTax),
+    medicareWages: sum(w2s, w => w.medicareWages),
+    medicareTax: sum(w2s, w => w.medicareTax),
+    deferredCompensation: sum(w2s, w => w.box12.filter(b => b.code === 'D').reduce((s, b) => s + b.amount, 0)),
+    stateWages: sum(w2s, w => w.stateWages),
+    stateWithholding: sum(w2s, w => w.stateWithholding),
+  }
+}
+
+/** Problems that keep the W-2s from being filed */
+export function w2Issues(w2s: FormW2[]): string[] {
+  const issues: string[] = []
+  if (w2s.length > 0 && !w2s[0].employer.ein) issues.push('Employer EIN is missing or invalid')
+  if (w2s.length > 0 && !w2s[0].employer.address?.street) issues.push('Employer address is missing')
+  for (const w of w2s) {
+    if (!w.employee.ssn) issues.push(`${w.employee.name}: missing SSN`)
+    if (!w.employee.address?.street) issues.push(`${w.employee.name}: missing address`)
+  }
+  return issues
+}
+
+// ===================================================================
+//  PDF
+// ===================================================================
+
+function currency(n: number): string {
+  return n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+function addressLines(address?: PostalAddress): string[] {
+  return address ? [address.street, `${address.city}, ${address.state} ${address.zip}`] : []
+}
+
+function boxGrid(texts: PdfText[], rects: PdfRect[], top: number, boxes: [string, string][]) {
+  boxes.forEach(([label, value], i) => {
+    const x = 320 + (i % 2) * 125
+    const y = top - Math.floor(i / 2) * 40
+    rects.push({ x, y: y - 36, width: 125, height: 36 })
+    texts.push({ x: x + 4, y: y - 10, text: label, size: 6, bold: true })
+    texts.push({ x: x + 4, y: y - 28, text: value, size: 10 })
+  })
+}
+
+function w2Page(w: FormW2): PdfPage {
+  const texts: PdfText[] = []
+  const rects: PdfRect[] = []
+  const top = PAGE_HEIGHT - 60
+  texts.push({ x: 40, y: top, text: `Form W-2 Wage and Tax Statement ${w.year}`, size: 14, bold: true })
+  texts.push({ x: 40, y: top - 16, text: 'Copy B - To Be Filed With Employee\'s FEDERAL Tax Return', size: 8 })
+
+  const left: [string, string[]][] = [
+    ["a  Employee's social security number", [w.employee.ssn ? maskTin(w.employee.ssn, 'ssn') : '']],
+    ['b  Employer identification number (EIN)', [w.employer.ein ? formatTin(w.employer.ein, 'ein') : '']],
+    ["c  Employer's name, address, and ZIP code", [w.employer.name, ...addressLines(w.employer.address)]],
+    ["e/f  Employee's name, address, and ZIP code", [w.employee.name, ...addressLines(w.employee.address)]],
+  ]
+  let y = top - 30
+  for (const [label, lines] of left) {
+    const height = 20 + lines.length * 12
+    rects.push({ x: 40, y: y - height, width: 270, height })
+    texts.push({ x: 44, y: y - 10, text: label, size: 6, bold: true })
+    lines.forEach((line, i) => texts.push({ x: 44, y: y - 24 - i * 12, text: line, size: 9 }))
+    y -= height + 4
+  }
+
+  boxGrid(texts, rects, top - 30, [
+    ['1  Wages, tips, other compensation', currency(w.wages)],
+    ['2  Federal income tax withheld', currency(w.federalWithholding)],
+    ['3  Social security wages', currency(w.socialSecurityWages)],
+    ['4  Social security tax withheld', currency(w.socialSecurityTax)],
+    ['5  Medicare wages and tips', currency(w.medicareWages)],
+    ['6  Medicare tax withheld', currency(w.medicareTax)],
+    ['12  Codes', w.box12.map(b => `${b.code} ${currency(b.amount)}`).join('  ')],
+    ['13  Retirement plan', w.retirementPlan ? 'X' : ''],
+    [`15  State  ${w.employer.state}`, w.employer.ein ? formatTin(w.employer.ein, 'ein') : ''],
+    ['16  State wages, tips, etc.', currency(w.stateWages)],
+    ['17  State income tax', currency(w.stateWithholding)],
+  ])
+  return { texts, rects }
+}
+
+function w3Page(w3: FormW3): PdfPage {
+  const texts: PdfText[] = []
+  const rects: PdfRect[] = []
+  const top = PAGE_HEIGHT - 60
+  texts.push({ x: 40, y: top, text: `Form W-3 Transmittal of Wage and Tax Statements ${w3.year}`, size: 14, bold: true })
+  texts.push({ x: 40, y: top - 16, text: 'Kind of payer: 941    Kind of employer: None apply', size: 8 })
+  const left: [string, string[]][] = [
+    ['c  Total number of Forms W-2', [String(w3.count)]],
+    ['e  Employer identification number (EIN)', [w3.employer.ein ? formatTin(w3.employer.ein, 'ein') : '']],
+    ["f/g  Employer's name and address", [w3.employer.name, ...addressLines(w3.employer.address)]],
+  ]
+  let y = top - 30
+  for (const [label, lines] of left) {
+    const height = 20 + lines.length * 12
+    rects.push({ x: 40, y: y - height, width: 270, height })
+    texts.push({ x: 44, y: y - 10, text: label, size: 6, bold: true })
+    lines.forEach((line, i) => texts.push({ x: 44, y: y - 24 - i * 12, text: line, size: 9 }))
+    y -= height + 4
+  }
+  boxGrid(texts, rects, top - 30, [
+    ['1  Wages, tips, other compensation', currency(w3.wages)],
+    ['2  Federal income tax withheld', currency(w3.federalWithholding)],
+    ['3  Social security wages', currency(w3.socialSecurityWages)],
+    ['4  Social security tax withheld', currency(w3.socialSecurityTax)],
+    ['5  Medicare wages and tips', currency(w3.medicareWages)],
+    ['6  Medicare tax withheld', currency(w3.medicareTax)],
+    ['12a  Deferred compensation', currency(w3.deferredCompensation)],
+    [`15  State  ${w3.employer.state}`, ''],
+    ['16  State wages, tips, etc.', currency(w3.stateWages)],
+    ['17  State income tax', currency(w3.stateWithholding)],
+  ])
+  return { texts, rects }
+}
+
+/** Employee copies, one page per W-2, followed by the W-3 */
+export function w2Pdf(w2s: FormW2[], w3?: FormW3): Uint8Array<ArrayBuffer> {
+  const pages = w2s.map(w2Page)
+  if (w3) pages.push(w3Page(w3))
+  return buildPdf(pages, `${w3?.year ?? w2s[0]?.year ?? ''} Forms W-2 and W-3`)
+}
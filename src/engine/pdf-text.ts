@@ -0,0 +1,104 @@
+/**
+ * Fortuna Engine — Minimal PDF Writer
+ *
+ * Builds small text-and-box PDF documents (recipient copies of information
+ * returns, statements) without a PDF library:
+ *   - US Letter pages, points from the bottom-left corner
+ *   - Helvetica and Helvetica-Bold (standard 14 fonts, WinAnsi encoding)
+ *   - Text runs and stroked rectangles
+ *
+ * Characters outside Latin-1 are replaced with '?'.
+ */
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface PdfText {
+  x: number
+  y: number
+  text: string
+  size?: number                // Points; defaults to 10
+  bold?: boolean
+}
+
+export interface PdfRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PdfPage {
+  texts: PdfText[]
+  rects?: PdfRect[]
+}
+
+export const PAGE_WIDTH = 612
+export const PAGE_HEIGHT = 792
+
+// ===================================================================
+//  WRITER
+// ===================================================================
+
+function latin1(text: string): string {
+  return text.replace(/[^\x20-\xff]/g, '?')
+}
+
+function escapeText(text: string): string {
+  return latin1(text).replace(/[\\()]/g, c => `\\${c}`)
+}
+
+function num(n: number): string {
+  return String(Math.round(n * 100) / 100)
+}
+
+function pageContent(page: PdfPage): string {
+  const ops: string[] = []
+  if (page.rects?.length) {
+    ops.push('0.5 w')
+    for (const r of page.rects) ops.push(`${num(r.x)} ${num(r.y)} ${num(r.width)} ${num(r.height)} re S`)
+  }
+  for (const t of page.texts) {
+    ops.push(`BT /${t.bold ? 'F2' : 'F1'} ${num(t.size ?? 10)} Tf ${num(t.x)} ${num(t.y)} Td (${escapeText(t.text)}) Tj ET`)
+  }
+  return ops.join('\n')
+}
+
+/** Serialize pages to PDF bytes */
+export function buildPdf(pages: PdfPage[], title = 'Document'): Uint8Array<ArrayBuffer> {
+  // Objects 1–4 are fixed; each page then adds a page object and its content stream
+  const pageIds = pages.map((_, i) => 5 + i * 2)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ]
+  for (const [i, page] of pages.entries()) {
+    const content = pageContent(page)
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    )
+  }
+  const info = objects.length + 1
+  objects.push(`<< /Title (${escapeText(title)}) /Producer (Fortuna Engine) >>`)
+
+  let out = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (const [i, body] of objects.entries()) {
+    offsets.push(out.length)
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`
+  }
+  const xref = out.length
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  for (const offset of offsets) out += `${String(offset).padStart(10, '0')} 00000 n \n`
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  // Every character is Latin-1, so one char is one byte
+  const bytes = new Uint8Array(out.length)
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i)
+  return bytes
+}
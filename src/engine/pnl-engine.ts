@@ -5,10 +5,14 @@
  * revenue → COGS → gross profit → operating expenses → EBITDA →
  * taxes → net income. Supports quarterly and annual periods
  * with period-over-period comparison.
+ * Invoiced income can replace stream estimates on a cash or accrual basis;
+ * generateLedgerPnL reads actuals from the general ledger instead.
  */
 
 import type { FortunaState } from './storage'
 import { generateTaxReport } from './tax-calculator'
+import { ledgerActivity } from './general-ledger'
+import { recognizedInvoiceIncome, customerName, type IncomeBasis, type RecognizedIncome } from './invoicing'
 
 // ===================================================================
 //  TYPES
@@ -107,6 +111,24 @@ function getOpexBucket(category: string, description: string): string {
   return 'Other Operating Expenses'
 }
 
+// ===================================================================
+//  INVOICED INCOME
+// ===================================================================
+
+/** A year's invoice income, split into stream-linked totals and per-customer totals for the rest */
+function invoicedIncome(state: FortunaState, year: number, basis: IncomeBasis, entityId?: string) {
+  const rows: RecognizedIncome[] = recognizedInvoiceIncome(state, { start: `${year}-01-01`, end: `${year}-12-31`, basis, entityId })
+  const streamIds = new Set(state.incomeStreams.filter(s => s.isActive).map(s => s.id))
+  const byStream = new Map<string, number>()
+  const byCustomer = new Map<string, number>()
+  for (const r of rows) {
+    const streamId = r.invoice.incomeStreamId
+    const [map, key] = streamId && streamIds.has(streamId) ? [byStream, streamId] : [byCustomer, r.invoice.customerId]
+    map.set(key, Math.round(((map.get(key) || 0) + r.amount) * 100) / 100)
+  }
+  return { byStream, byCustomer }
+}
+
 // ===================================================================
 //  P&L GENERATOR
 // ===================================================================
@@ -115,16 +137,30 @@ export function generatePnL(
   state: FortunaState,
   growthRate: number = 0.10, // assumed prior period growth for comparison
   entityFilter?: string, // 'all' | 'personal' | entity id — filter to specific entity
+  incomeBasis?: IncomeBasis, // use invoiced income (cash or accrual) where invoices exist
 ): PnLStatement {
   const report = generateTaxReport(state)
   const currentYear = new Date().getFullYear()
   const filterEid = entityFilter && entityFilter !== 'all' ? entityFilter : undefined
 
   // ── Revenue ────────────────────────────────────────────────────
+  const invoiced = incomeBasis ? invoicedIncome(state, currentYear, incomeBasis, filterEid) : undefined
+  const prevInvoiced = incomeBasis ? invoicedIncome(state, currentYear - 1, incomeBasis, filterEid) : undefined
+
   const revenueItems: PnLLineItem[] = state.incomeStreams
     .filter(s => s.isActive)
     .filter(s => !filterEid || (s.entityId || 'personal') === filterEid)
     .map(s => {
+      const billed = invoiced?.byStream.get(s.id)
+      if (billed !== undefined) {
+        return {
+          label: s.name,
+          amount: billed,
+          previousAmount: prevInvoiced?.byStream.get(s.id) ?? 0,
+          category: 'revenue' as const,
+          note: `${s.type} · invoiced, ${incomeBasis} basis`,
+        }
+      }
       const prevAmount = Math.round(s.annualAmount / (1 + growthRate))
       return {
         label: s.name,
@@ -135,6 +171,18 @@ export function generatePnL(
       }
     })
 
+  // Invoices not billed under a stream, including customers only billed last year
+  const invoicedCustomers = new Set([...invoiced?.byCustomer.keys() ?? [], ...prevInvoiced?.byCustomer.keys() ?? []])
+  for (const customerId of invoicedCustomers) {
+    revenueItems.push({
+      label: `Invoices — ${customerName(state, customerId)}`,
+      amount: invoiced?.byCustomer.get(customerId) ?? 0,
+      previousAmount: prevInvoiced?.byCustomer.get(customerId) ?? 0,
+      category: 'revenue',
+      note: `invoiced, ${incomeBasis} basis`,
+    })
+  }
+
   const totalRevenue = revenueItems.reduce((s, i) => s + i.amount, 0)
   const prevTotalRevenue = revenueItems.reduce((s, i) => s + i.previousAmount, 0)
 
@@ -268,3 +316,93 @@ export function generatePnL(
     insights,
   }
 }
+
+// ===================================================================
+//  LEDGER P&L
+// ===================================================================
+
+/**
+ * P&L from the general ledger: actual revenue and expense activity for a
+ * calendar year, compared against the prior year's books instead of a
+ * growth-rate estimate.
+ */
+export function generateLedgerPnL(
+  state: FortunaState,
+  entityId: string = 'personal',
+  year: number = state.taxYear || new Date().getFullYear(),
+): PnLStatement {
+  const current = ledgerActivity(state, entityId, `${year}-01-01`, `${year}-12-31`)
+  const previous = ledgerActivity(state, entityId, `${year - 1}-01-01`, `${year - 1}-12-31`)
+
+  const items = new Map<string, PnLLineItem>()
+  for (const [rows, key] of [[current, 'amount'], [previous, 'previousAmount']] as const) {
+    for (const { account, amount } of rows) {
+      const category: PnLLineItem['category'] = account.type === 'revenue' ? 'revenue'
+        : account.line === 'cogs' ? 'cogs'
+        : account.line === 'income_tax' ? 'tax'
+        : 'operating'
+      const item = items.get(account.id) ?? { label: account.name, amount: 0, previousAmount: 0, category, note: account.code }
+      item[key] = amount
+      items.set(account.id, item)
+    }
+  }
+
+  const section = (category: PnLLineItem['category']) =>
+    [...items.values()].filter(i => i.category === category).sort((a, b) => b.amount - a.amount)
+  const sum = (rows: PnLLineItem[], key: 'amount' | 'previousAmount') => rows.reduce((s, i) => s + i[key], 0)
+
+  const revenueItems = section('revenue')
+  const cogsItems = section('cogs')
+  const opexItems = section('operating')
+  const taxItems = section('tax')
+
+  const totalRevenue = sum(revenueItems, 'amount')
+  const prevTotalRevenue = sum(revenueItems, 'previousAmount')
+  const totalCOGS = sum(cogsItems, 'amount')
+  const prevTotalCOGS = sum(cogsItems, 'previousAmount')
+  const grossProfit = totalRevenue - totalCOGS
+  const prevGrossProfit = prevTotalRevenue - prevTotalCOGS
+  const totalOpex = sum(opexItems, 'amount')
+  const prevTotalOpex = sum(opexItems, 'previousAmount')
+  const operatingIncome = grossProfit - totalOpex
+  const prevOperatingIncome = prevGrossProfit - prevTotalOpex
+  const totalTax = sum(taxItems, 'amount')
+  const prevTotalTax = sum(taxItems, 'previousAmount')
+  const netIncome = operatingIncome - totalTax
+  const prevNetIncome = prevOperatingIncome - prevTotalTax
+
+  const grossMargin = totalRevenue > 0 ? grossProfit / totalRevenue : 0
+  const operatingMargin = totalRevenue > 0 ? operatingIncome / totalRevenue : 0
+  const yoyGrowth = prevTotalRevenue > 0 ? (totalRevenue - prevTotalRevenue) / prevTotalRevenue : 0
+
+  const insights: string[] = []
+  if (items.size === 0) {
+    insights.push(`No ledger activity for ${year}. Import bank transactions or post journal entries to build the books.`)
+  }
+  const uncategorized = opexItems.find(i => i.note === '9100')
+  if (uncategorized && uncategorized.amount > 0) {
+    insights.push(`$${Math.round(uncategorized.amount).toLocaleString()} is sitting in Uncategorized Expense — categorize those transactions so they land on the right line.`)
+  }
+  if (prevTotalRevenue > 0 && Math.abs(yoyGrowth) >= 0.1) {
+    insights.push(`Revenue is ${yoyGrowth > 0 ? 'up' : 'down'} ${Math.abs(yoyGrowth * 100).toFixed(0)}% on ${year - 1} per the books.`)
+  }
+  if (operatingMargin < 0.15 && totalRevenue > 50000) {
+    insights.push(`Operating margin is tight at ${(operatingMargin * 100).toFixed(0)}%. Review top expense categories for reduction opportunities.`)
+  }
+
+  return {
+    period: `FY ${year}`,
+    periodLabel: `${year} (Books)`,
+    previousPeriod: `FY ${year - 1} (Books)`,
+    revenueItems, totalRevenue, prevTotalRevenue,
+    cogsItems, totalCOGS, prevTotalCOGS,
+    grossProfit, prevGrossProfit, grossMargin,
+    opexItems, totalOpex, prevTotalOpex,
+    operatingIncome, prevOperatingIncome, operatingMargin,
+    taxItems, totalTax, prevTotalTax,
+    netIncome, prevNetIncome, netMargin: totalRevenue > 0 ? netIncome / totalRevenue : 0,
+    effectiveTaxRate: totalRevenue > 0 ? totalTax / totalRevenue : 0,
+    yoyGrowth,
+    insights,
+  }
+}
@@ -400,8 +400,8 @@ export function generateProactiveAlerts(state: FortunaState): ProactiveAlert[] {
   const currentRetirement = retirementDeductions.reduce((sum, d) => sum + d.amount, 0)
   
   if (netSEIncome > 30000) {
-    const maxSEP = calculateMaxSEPIRA(netSEIncome)
-    const max401k = calculateMaxSolo401k(netSEIncome, profile.age)
+    const maxSEP = calculateMaxSEPIRA(netSEIncome, state.taxYear)
+    const max401k = calculateMaxSolo401k(netSEIncome, profile.age, state.taxYear)
     const bestOption = max401k.total > maxSEP ? { name: 'Solo 401(k)', max: max401k.total, detail: max401k } : { name: 'SEP-IRA', max: maxSEP, detail: null }
     
     if (currentRetirement < bestOption.max * 0.5) {
@@ -444,7 +444,7 @@ export function generateProactiveAlerts(state: FortunaState): ProactiveAlert[] {
   const hasScorp = entities.some(e => (e.type === 'llc_scorp' || e.type === 'scorp') && e.isActive)
   if (!hasScorp && netSEIncome > 50000) {
     const reasonableSalary = Math.round(Math.max(netSEIncome * 0.5, Math.min(netSEIncome * 0.7, 80000)))
-    const savings = calculateSCorpSavings(netSEIncome, reasonableSalary)
+    const savings = calculateSCorpSavings(netSEIncome, reasonableSalary, state.taxYear)
     
     if (savings.savings > 3000) {
       // Check if S-Corp election deadline is approaching
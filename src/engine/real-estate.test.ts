@@ -0,0 +1,141 @@
+/**
+ * Rental Real Estate — Test Suite
+ * Validates: Schedule E, residential/commercial depreciation, passive loss limits and carryforward, 1031 exchanges
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type RealEstateProperty } from './storage'
+import {
+  buildScheduleE, calculatePassiveLoss, applyPassiveLossCarryforward, track1031Exchanges, calculate1031Gain, complete1031Exchange, depreciableBasis,
+} from './real-estate'
+import {
+  generateDepreciationSummary, realPropertyDepreciationForYear, realPropertySchedule, type BusinessAsset,
+} from './depreciation-engine'
+
+describe('rental real estate', () => {
+  const rental: RealEstateProperty = {
+    id: 'duplex',
+    address: '12 Elm St',
+    type: 'rental',
+    purchasePrice: 300000,
+    purchaseDate: '2020-01-15',
+    currentValue: 420000,
+    outstandingMortgage: 200000,
+    annualPropertyTax: 4000,
+    annualInsurance: 1500,
+    monthlyRentalIncome: 2000,
+    landValue: 60000,
+    annualMortgageInterest: 12000,
+    rentalExpenses: { repairs: 3000, management: 2400 },
+  }
+
+  function stateWith(properties: RealEstateProperty[], prior = 0) {
+    const state = createDefaultState()
+    state.realEstate = properties
+    state.carryforwards = { passiveActivityLoss: prior }
+    return state
+  }
+
+  it('should build a Schedule E statement with 27.5-year depreciation', () => {
+    const sched = buildScheduleE(rental, 2026)!
+    const expected = realPropertyDepreciationForYear(240000, '2020-01-15', 27.5, 2026)
+
+    expect(sched.depreciableBasis).toBe(240000)
+    expect(sched.expenses.depreciation).toBe(expected.depreciation)
+    expect(sched.expenses.depreciation).toBeCloseTo(240000 / 27.5, -1)
+    expect(sched.rents).toBe(24000)
+    expect(sched.netIncome).toBe(24000 - 22900 - expected.depreciation)
+    expect(sched.adjustedBasis).toBe(300000 - expected.accumulated)
+
+    expect(buildScheduleE({ ...rental, type: 'primary_residence' }, 2026)).toBeNull()
+    expect(buildScheduleE({ ...rental, placedInServiceDate: '2027-02-01' }, 2026)).toBeNull()
+    expect(buildScheduleE({ ...rental, placedInServiceDate: '2026-07-10' }, 2026)!.monthsInService).toBe(6)
+    expect(buildScheduleE({ ...rental, type: 'commercial' }, 2026)!.recoveryYears).toBe(39)
+  })
+
+  it('should finish the schedule for bases too small to round above zero', () => {
+    const tiny = realPropertySchedule(10, '2024-01-15', 39)
+    expect(tiny).toHaveLength(40)
+    expect(tiny[tiny.length - 1]).toMatchObject({ year: 2063, accumulated: 10, remainingBasis: 0 })
+    expect(realPropertySchedule(13, '2024-06-01', 27.5).at(-1)).toMatchObject({ accumulated: 13, remainingBasis: 0 })
+    // Ordinary bases recover within the window
+    const full = realPropertySchedule(240000, '2020-01-15', 27.5)
+    expect(full.at(-1)).toMatchObject({ accumulated: 240000, remainingBasis: 0 })
+    expect(full.length).toBeLessThanOrEqual(29)
+  })
+
+  it('should never take bonus depreciation on residential or commercial buildings', () => {
+    const building = (classId: string): BusinessAsset => ({
+      id: classId, name: 'Building', classId, purchaseDate: '2025-01-15', cost: 390000,
+      businessUsePercent: 100, section179Elected: false, bonusDepreciation: true, salvageValue: 0,
+    })
+    const [residential, commercial] = generateDepreciationSummary(
+      createDefaultState(), [building('residential_rental'), building('commercial')],
+    ).assetResults
+
+    expect(residential.schedule[0].bonusDepreciation).toBe(0)
+    expect(residential.schedule.map(y => y.macrsDepreciation)).toEqual(realPropertySchedule(390000, '2025-01-15', 27.5).map(y => y.depreciation))
+    expect(residential.method).toBe('SL 27.5-yr mid-month')
+    expect(commercial.schedule[0].bonusDepreciation).toBe(0)
+    expect(commercial.totalDeductions).toBe(390000)
+    expect(commercial.method).toBe('SL 39-yr mid-month')
+  })
+
+  it('should phase out the special allowance and carry suspended losses forward', () => {
+    const loss = -buildScheduleE(rental, 2026)!.netIncome
+
+    const allowed = calculatePassiveLoss(stateWith([rental]), { taxYear: 2026, magi: 120000 })
+    expect(allowed.specialAllowance).toBe(15000)
+    expect(allowed.allowedLoss).toBe(loss)
+    expect(allowed.carryforwardOut).toBe(0)
+
+    const suspended = calculatePassiveLoss(stateWith([rental], 5000), { taxYear: 2026, magi: 160000 })
+    expect(suspended.specialAllowance).toBe(0)
+    expect(suspended.suspendedLoss).toBe(loss)
+    expect(suspended.carryforwardOut).toBe(loss + 5000)
+    expect(applyPassiveLossCarryforward(stateWith([rental], 5000), suspended).carryforwards.passiveActivityLoss).toBe(loss + 5000)
+
+    const separate = stateWith([rental])
+    separate.profile.filingStatus = 'married_separate'
+    expect(calculatePassiveLoss(separate, { taxYear: 2026, magi: 50000 }).allowedLoss).toBe(0)
+
+    const pro = calculatePassiveLoss(stateWith([rental], 5000), { taxYear: 2026, magi: 400000, isRealEstateProfessional: true })
+    expect(pro.allowedLoss).toBe(loss + 5000)
+    expect(pro.carryforwardOut).toBe(0)
+  })
+
+  it('should track 1031 deadlines and carry deferred gain into the replacement basis', () => {
+    const replacement: RealEstateProperty = {
+      ...rental, id: 'fourplex', address: '90 Oak Ave', purchasePrice: 500000, purchaseDate: '2027-01-20', landValue: 100000,
+    }
+    const relinquished: RealEstateProperty = {
+      ...rental,
+      exchange1031: {
+        saleDate: '2026-11-01', salePrice: 450000, sellingCosts: 20000,
+        identifiedProperties: ['90 Oak Ave'], replacementPropertyId: 'fourplex', replacementPrice: 400000, status: 'identified',
+      },
+    }
+    const state = stateWith([relinquished, replacement])
+
+    const [timeline] = track1031Exchanges(state, new Date('2026-11-20T00:00:00Z'))
+    expect(timeline.identificationDeadline).toBe('2026-12-16')
+    expect(timeline.exchangeDeadline).toBe('2027-04-15')
+    expect(timeline.limitedByReturnDueDate).toBe(true)
+    expect(timeline.status).toBe('exchange_open')
+
+    const extended = stateWith([{ ...relinquished, exchange1031: { ...relinquished.exchange1031!, extensionFiled: true } }])
+    expect(track1031Exchanges(extended, new Date('2026-11-20T00:00:00Z'))[0].exchangeDeadline).toBe('2027-04-30')
+
+    const gain = calculate1031Gain(relinquished)!
+    expect(gain.amountRealized).toBe(430000)
+    expect(gain.boot).toBe(30000)
+    expect(gain.recognizedGain).toBe(30000)
+    expect(gain.deferredGain).toBe(gain.realizedGain - 30000)
+    expect(gain.replacementBasis).toBe(400000 - gain.deferredGain)
+
+    const completed = complete1031Exchange(state, 'duplex')
+    const newProp = completed.realEstate.find(p => p.id === 'fourplex')!
+    expect(newProp.deferred1031Gain).toBe(gain.deferredGain)
+    expect(depreciableBasis(newProp).basis).toBe(400000 - gain.deferredGain)
+    expect(completed.realEstate[0].exchange1031!.status).toBe('completed')
+  })
+})
@@ -1,4 +1,22 @@
-import type { FortunaState, RealEstateProperty } from './storage'
+/**
+ * Fortuna Engine — Real Estate & Schedule E
+ *
+ *  - Portfolio value / equity summary
+ *  - Per-property Schedule E income statements (rents, expenses, mortgage
+ *    interest, 27.5/39-yr depreciation via depreciation-engine.ts)
+ *  - Passive activity loss limits (IRC §469) with the $25k special allowance
+ *    phase-out and carryforward into Carryforwards.passiveActivityLoss
+ *  - 1031 exchange deadline tracking (45/180 days) and deferred-gain basis carryover
+ */
+
+import type { FortunaState, RealEstateProperty, FilingStatus } from './storage'
+import { generateTaxReport } from './tax-calculator'
+import { resolveTaxYear } from './tax-parameters'
+import { realPropertyDepreciationForYear, type RealPropertyLife } from './depreciation-engine'
+
+// ===================================================================
+//  PORTFOLIO SUMMARY
+// ===================================================================
 
 export interface RealEstateSummary {
   totalPortfolioValue: number
@@ -21,7 +39,7 @@ export function calculateRealEstateSummary(state: FortunaState): RealEstateSumma
     const unrealizedGain = Math.max(0, prop.currentValue - prop.purchasePrice)
     totalUnrealizedGain += unrealizedGain
 
-    if (prop.type !== 'primary_residence' && prop.is1031ExchangeTarget !== false) {
+    if (prop.type !== 'primary_residence' && prop.is1031Eligible !== false) {
       potential1031Value += prop.currentValue
     }
   }
@@ -33,3 +51,361 @@ export function calculateRealEstateSummary(state: FortunaState): RealEstateSumma
     potential1031Value
   }
 }
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface ScheduleEExpenses {
+  mortgageInterest: number
+  propertyTax: number
+  insurance: number
+  repairs: number
+  management: number
+  utilities: number
+  hoa: number
+  advertising: number
+  travel: number
+  supplies: number
+  legalProfessional: number
+  other: number
+  depreciation: number
+}
+
+export interface ScheduleEProperty {
+  propertyId: string
+  address: string
+  taxYear: number
+  monthsInService: number
+  rents: number
+  expenses: ScheduleEExpenses
+  totalExpenses: number
+  netIncome: number                 // Negative = loss
+  recoveryYears: RealPropertyLife
+  depreciableBasis: number
+  accumulatedDepreciation: number   // Through the tax year
+  adjustedBasis: number
+  landValueEstimated: boolean
+  activeParticipation: boolean
+}
+
+export interface PassiveLossOptions {
+  taxYear?: number
+  magi?: number                     // Defaults to AGI from the tax report
+  isRealEstateProfessional?: boolean
+}
+
+export interface PassiveLossResult {
+  taxYear: number
+  properties: ScheduleEProperty[]
+  netRentalIncome: number           // Current-year Schedule E total
+  priorCarryforward: number
+  magi: number
+  specialAllowance: number          // After phase-out
+  allowedLoss: number               // Deductible against nonpassive income
+  suspendedLoss: number             // Added this year
+  carryforwardOut: number           // To Carryforwards.passiveActivityLoss
+  includedInIncome: number          // Net Schedule E amount reaching the return
+  isRealEstateProfessional: boolean
+}
+
+export type ExchangeStatus = 'identification_open' | 'exchange_open' | 'completed' | 'failed' | 'expired'
+
+export interface ExchangeTimeline {
+  propertyId: string
+  address: string
+  saleDate: string
+  identificationDeadline: string    // Sale + 45 days
+  exchangeDeadline: string          // Sale + 180 days, or the return due date if earlier
+  limitedByReturnDueDate: boolean
+  daysToIdentification: number
+  daysToExchange: number
+  status: ExchangeStatus
+  identifiedCount: number
+  identificationRuleOk: boolean     // Three-property rule
+}
+
+export interface ExchangeGain {
+  amountRealized: number
+  adjustedBasis: number
+  realizedGain: number
+  boot: number
+  recognizedGain: number
+  deferredGain: number
+  replacementBasis: number | null   // Replacement cost minus deferred gain
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const SPECIAL_ALLOWANCE = 25_000           // §469(i)
+const PHASEOUT_START = 100_000
+const PHASEOUT_RATE = 0.5                  // $1 per $2 of MAGI over the start — gone at $150k
+const DEFAULT_LAND_RATIO = 0.2             // When no land value is recorded
+const IDENTIFICATION_DAYS = 45
+const EXCHANGE_DAYS = 180
+const MAX_IDENTIFIED_PROPERTIES = 3
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RENTAL_TYPES: RealEstateProperty['type'][] = ['rental', 'commercial']
+
+// ===================================================================
+//  SCHEDULE E
+// ===================================================================
+
+function addDays(iso: string, days: number): Date {
+  const d = new Date(iso)
+  return new Date(d.getTime() + days * DAY_MS)
+}
+
+function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10)
+}
+
+export function isRentalProperty(property: RealEstateProperty): boolean {
+  return RENTAL_TYPES.includes(property.type)
+}
+
+/** Building basis: cost + improvements − land − deferred 1031 gain */
+export function depreciableBasis(property: RealEstateProperty): { basis: number; landValueEstimated: boolean } {
+  const landValueEstimated = property.landValue === undefined
+  const land = property.landValue ?? property.purchasePrice * DEFAULT_LAND_RATIO
+  const basis = property.purchasePrice + (property.capitalImprovements || 0) - land - (property.deferred1031Gain || 0)
+  return { basis: Math.max(0, Math.round(basis)), landValueEstimated }
+}
+
+function recoveryYears(property: RealEstateProperty): RealPropertyLife {
+  return property.type === 'commercial' ? 39 : 27.5
+}
+
+/** Schedule E statement for one rental property; null if not a rental or not yet in service */
+export function buildScheduleE(property: RealEstateProperty, taxYear: number): ScheduleEProperty | null {
+  if (!isRentalProperty(property)) return null
+
+  const inService = property.placedInServiceDate || property.purchaseDate
+  const placed = new Date(inService)
+  if (placed.getUTCFullYear() > taxYear) return null
+
+  // Sold in an exchange: rents stop at the sale date
+  const soldDate = property.exchange1031?.status === 'completed' ? new Date(property.exchange1031.saleDate) : null
+  if (soldDate && soldDate.getUTCFullYear() < taxYear) return null
+
+  const startMonth = placed.getUTCFullYear() === taxYear ? placed.getUTCMonth() : 0
+  const endMonth = soldDate && soldDate.getUTCFullYear() === taxYear ? soldDate.getUTCMonth() + 1 : 12
+  const monthsInService = Math.max(0, endMonth - startMonth)
+  const fraction = monthsInService / 12
+
+  const { basis, landValueEstimated } = depreciableBasis(property)
+  const life = recoveryYears(property)
+  const { depreciation, accumulated } = realPropertyDepreciationForYear(basis, inService, life, taxYear)
+  const ex = property.rentalExpenses || {}
+
+  const expenses: ScheduleEExpenses = {
+    mortgageInterest: Math.round((property.annualMortgageInterest || 0) * fraction),
+    propertyTax: Math.round((property.annualPropertyTax || 0) * fraction),
+    insurance: Math.round((property.annualInsurance || 0) * fraction),
+    repairs: Math.round((ex.repairs || 0) * fraction),
+    management: Math.round((ex.management || 0) * fraction),
+    utilities: Math.round((ex.utilities || 0) * fraction),
+    hoa: Math.round((ex.hoa || 0) * fraction),
+    advertising: Math.round((ex.advertising || 0) * fraction),
+    travel: Math.round((ex.travel || 0) * fraction),
+    supplies: Math.round((ex.supplies || 0) * fraction),
+    legalProfessional: Math.round((ex.legalProfessional || 0) * fraction),
+    other: Math.round((ex.other || 0) * fraction),
+    depreciation,
+  }
+  const totalExpenses = Object.values(expenses).reduce((s, v) => s + v, 0)
+  const rents = Math.round((property.monthlyRentalIncome || 0) * monthsInService)
+
+  return {
+    propertyId: property.id,
+    address: property.address,
+    taxYear,
+    monthsInService,
+    rents,
+    expenses,
+    totalExpenses,
+    netIncome: rents - totalExpenses,
+    recoveryYears: life,
+    depreciableBasis: basis,
+    accumulatedDepreciation: accumulated,
+    adjustedBasis: Math.round(property.purchasePrice + (property.capitalImprovements || 0) - (property.deferred1031Gain || 0) - accumulated),
+    landValueEstimated,
+    activeParticipation: property.activeParticipation !== false,
+  }
+}
+
+// ===================================================================
+//  PASSIVE ACTIVITY LOSS (§469)
+// ===================================================================
+
+/** $25k allowance, reduced by 50% of MAGI over $100k; none for married filing separately */
+export function specialAllowance(magi: number, filingStatus: FilingStatus): number {
+  if (filingStatus === 'married_separate') return 0
+  const reduction = Math.max(0, magi - PHASEOUT_START) * PHASEOUT_RATE
+  return Math.max(0, SPECIAL_ALLOWANCE - reduction)
+}
+
+export function calculatePassiveLoss(state: FortunaState, options: PassiveLossOptions = {}): PassiveLossResult {
+  const taxYear = options.taxYear ?? resolveTaxYear(state.taxYear)
+  const properties = (state.realEstate || [])
+    .map(p => buildScheduleE(p, taxYear))
+    .filter((p): p is ScheduleEProperty => p !== null)
+
+  const netRentalIncome = properties.reduce((s, p) => s + p.netIncome, 0)
+  const priorCarryforward = Math.max(0, state.carryforwards?.passiveActivityLoss || 0)
+  const magi = options.magi ?? generateTaxReport(state).agi
+  const isRealEstateProfessional = !!options.isRealEstateProfessional
+  const allowance = properties.some(p => p.activeParticipation)
+    ? specialAllowance(magi, state.profile.filingStatus)
+    : 0
+
+  const base = { taxYear, properties, netRentalIncome, priorCarryforward, magi, isRealEstateProfessional }
+
+  // Real estate professionals: rentals are nonpassive, suspended losses free up
+  if (isRealEstateProfessional) {
+    return {
+      ...base,
+      specialAllowance: allowance,
+      allowedLoss: Math.max(0, -(netRentalIncome - priorCarryforward)),
+      suspendedLoss: 0,
+      carryforwardOut: 0,
+      includedInIncome: netRentalIncome - priorCarryforward,
+    }
+  }
+
+  const net = netRentalIncome - priorCarryforward
+  if (net >= 0) {
+    // Passive income absorbs prior suspended losses
+    return { ...base, specialAllowance: allowance, allowedLoss: 0, suspendedLoss: 0, carryforwardOut: 0, includedInIncome: net }
+  }
+
+  const loss = -net
+  const allowedLoss = Math.min(loss, allowance)
+  const carryforwardOut = loss - allowedLoss
+
+  return {
+    ...base,
+    specialAllowance: allowance,
+    allowedLoss,
+    suspendedLoss: Math.max(0, carryforwardOut - priorCarryforward),
+    carryforwardOut,
+    includedInIncome: -allowedLoss,
+  }
+}
+
+/** Persist the year-end suspended loss into Carryforwards.passiveActivityLoss */
+export function applyPassiveLossCarryforward(state: FortunaState, result: PassiveLossResult): FortunaState {
+  return {
+    ...state,
+    carryforwards: { ...state.carryforwards, passiveActivityLoss: result.carryforwardOut },
+  }
+}
+
+// ===================================================================
+//  1031 EXCHANGES
+// ===================================================================
+
+/**
+ * 45-day identification and 180-day exchange periods from the sale of the
+ * relinquished property. The exchange period also ends at the return due
+ * date (April 15 of the following year) unless an extension is filed.
+ */
+export function track1031Exchanges(state: FortunaState, asOf: Date = new Date()): ExchangeTimeline[] {
+  const timelines: ExchangeTimeline[] = []
+
+  for (const property of state.realEstate || []) {
+    const ex = property.exchange1031
+    if (!ex) continue
+
+    const identificationDeadline = addDays(ex.saleDate, IDENTIFICATION_DAYS)
+    const fullPeriod = addDays(ex.saleDate, EXCHANGE_DAYS)
+    const returnDue = new Date(Date.UTC(new Date(ex.saleDate).getUTCFullYear() + 1, 3, 15))
+    const limitedByReturnDueDate = !ex.extensionFiled && returnDue < fullPeriod
+    const exchangeDeadline = limitedByReturnDueDate ? returnDue : fullPeriod
+
+    const daysToIdentification = Math.ceil((identificationDeadline.getTime() - asOf.getTime()) / DAY_MS)
+    const daysToExchange = Math.ceil((exchangeDeadline.getTime() - asOf.getTime()) / DAY_MS)
+    const identifiedCount = ex.identifiedProperties.length
+
+    let status: ExchangeStatus
+    if (ex.status === 'completed') status = 'completed'
+    else if (ex.status === 'failed') status = 'failed'
+    else if (daysToExchange < 0 || (daysToIdentification < 0 && identifiedCount === 0)) status = 'expired'
+    else if (daysToIdentification >= 0 && ex.status === 'pending') status = 'identification_open'
+    else status = 'exchange_open'
+
+    timelines.push({
+      propertyId: property.id,
+      address: property.address,
+      saleDate: ex.saleDate,
+      identificationDeadline: isoDate(identificationDeadline),
+      exchangeDeadline: isoDate(exchangeDeadline),
+      limitedByReturnDueDate,
+      daysToIdentification,
+      daysToExchange,
+      status,
+      identifiedCount,
+      // The 200% / 95% alternatives are not modelled — flag anything over three
+      identificationRuleOk: identifiedCount <= MAX_IDENTIFIED_PROPERTIES,
+    })
+  }
+
+  return timelines.sort((a, b) => a.daysToExchange - b.daysToExchange)
+}
+
+/** Realized, recognized (boot) and deferred gain for a relinquished property */
+export function calculate1031Gain(property: RealEstateProperty): ExchangeGain | null {
+  const ex = property.exchange1031
+  if (!ex) return null
+
+  const saleYear = new Date(ex.saleDate).getUTCFullYear()
+  const { basis } = depreciableBasis(property)
+  const { accumulated } = isRentalProperty(property)
+    ? realPropertyDepreciationForYear(basis, property.placedInServiceDate || property.purchaseDate, recoveryYears(property), saleYear)
+    : { accumulated: 0 }
+
+  const amountRealized = ex.salePrice - (ex.sellingCosts || 0)
+  const adjustedBasis = property.purchasePrice + (property.capitalImprovements || 0) - (property.deferred1031Gain || 0) - accumulated
+  const realizedGain = Math.max(0, amountRealized - adjustedBasis)
+
+  // Proceeds not reinvested are boot too
+  const underReinvested = ex.replacementPrice !== undefined ? Math.max(0, amountRealized - ex.replacementPrice) : 0
+  const boot = Math.max(ex.cashBoot || 0, underReinvested) + Math.max(0, ex.mortgageRelief || 0)
+  const recognizedGain = Math.min(realizedGain, boot)
+  const deferredGain = realizedGain - recognizedGain
+
+  return {
+    amountRealized: Math.round(amountRealized),
+    adjustedBasis: Math.round(adjustedBasis),
+    realizedGain: Math.round(realizedGain),
+    boot: Math.round(boot),
+    recognizedGain: Math.round(recognizedGain),
+    deferredGain: Math.round(deferredGain),
+    replacementBasis: ex.replacementPrice !== undefined ? Math.round(ex.replacementPrice - deferredGain) : null,
+  }
+}
+
+/**
+ * Close an exchange: mark the relinquished property completed and carry the
+ * deferred gain over as a basis reduction on the replacement property.
+ */
+export function complete1031Exchange(state: FortunaState, relinquishedId: string): FortunaState {
+  const relinquished = (state.realEstate || []).find(p => p.id === relinquishedId)
+  const ex = relinquished?.exchange1031
+  if (!relinquished || !ex?.replacementPropertyId) return state
+
+  const gain = calculate1031Gain(relinquished)
+  if (!gain) return state
+
+  return {
+    ...state,
+    realEstate: state.realEstate.map(p => {
+      if (p.id === relinquishedId) return { ...p, exchange1031: { ...ex, status: 'completed' as const } }
+      if (p.id === ex.replacementPropertyId) return { ...p, deferred1031Gain: (p.deferred1031Gain || 0) + gain.deferredGain }
+      return p
+    }),
+  }
+}
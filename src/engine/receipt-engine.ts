@@ -1,6 +1,7 @@
 import type { FortunaState, ReceiptRecord, ReceiptItem, BusinessExpense, DeductionRecord as Deduction } from './storage'
 import { genId } from './storage'
 import { categorizeReceiptAI } from './ai-categorization'
+import { buildCategorizer } from './categorizer'
 
 export interface AllocationResult {
     receiptId: string
@@ -152,13 +153,14 @@ export async function processReceiptsAsync(state: FortunaState, batchId?: string
 
     // 2. Identify receipts that need AI help (needs_review or low confidence items)
     const targetResults = syncResults.filter(r => r.status === 'needs_review')
+    const model = targetResults.length > 0 ? buildCategorizer(state) : null
 
     for (const result of targetResults) {
         const receipt = state.receipts.find(r => r.id === result.receiptId)
         if (!receipt) continue
 
         // Call AI Bridge
-        const aiResult = await categorizeReceiptAI(receipt, state.entities || [])
+        const aiResult = await categorizeReceiptAI(receipt, state.entities || [], model)
 
         if (aiResult.confidence !== 'low') {
             // Update receipt items based on AI suggestions
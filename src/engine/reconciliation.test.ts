@@ -0,0 +1,116 @@
+/**
+ * Bank Reconciliation — Test Suite
+ * Validates: statement balances, cleared items, fix suggestions, completion and period locks, reopening, CPA report
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import {
+  startReconciliation, computeReconciliation, suggestReconciliationFixes, toggleCleared, completeReconciliation,
+  enforceReconciliationLocks, reopenReconciliation, reconciliationReport,
+} from './reconciliation'
+
+describe('bank reconciliation', () => {
+  const now = new Date('2025-07-05T12:00:00Z')
+  const tx = (id: string, date: string, description: string, amount: number) =>
+    ({ id, date, description, amount, isReconciled: false, accountName: 'CHK-1' })
+  const base = (): FortunaState => ({
+    ...createDefaultState(),
+    auditHistory: [
+      tx('d1', '2025-06-01', 'Payroll deposit', 3000),
+      tx('p1', '2025-06-05', 'Rent', -1500),
+      tx('p2', '2025-06-20', 'Check 1042', -250),
+      tx('p3', '2025-06-28', 'Utilities', -120.5),
+      tx('late', '2025-07-02', 'Coffee', -5),
+      { ...tx('other', '2025-06-10', 'Savings interest', 2), accountName: 'SAV-1' },
+    ],
+  })
+
+  it('ticks the statement period and balances against the ending balance', () => {
+    const { state, reconciliation } = startReconciliation(base(), { accountName: 'CHK-1', periodEnd: '2025-06-30', endingBalance: 2129.5, beginningBalance: 1000 }, now)
+    expect(reconciliation.clearedIds).toEqual(['d1', 'p1', 'p2', 'p3'])
+    const status = computeReconciliation(state, reconciliation)
+    expect(status).toMatchObject({ clearedBalance: 2129.5, difference: 0, isBalanced: true })
+    expect(status.outstanding).toHaveLength(0)
+  })
+
+  it('suggests the outstanding item or duplicate that explains a difference', () => {
+    // The check hasn't cleared the bank yet
+    const start = startReconciliation(base(), { accountName: 'CHK-1', periodEnd: '2025-06-30', endingBalance: 2379.5, beginningBalance: 1000 }, now)
+    let [fix] = suggestReconciliationFixes(start.state, start.reconciliation)
+    expect(fix).toMatchObject({ kind: 'untick', transactionIds: ['p2'] })
+
+    const unticked = toggleCleared(start.state, start.reconciliation.id, 'p2')
+    const rec = unticked.reconciliations[0]
+    expect(computeReconciliation(unticked, rec).isBalanced).toBe(true)
+    expect(computeReconciliation(unticked, rec).outstanding.map(t => t.id)).toEqual(['p2'])
+
+    // Rent imported twice
+    const dup: FortunaState = { ...base(), auditHistory: [...base().auditHistory, tx('p1b', '2025-06-06', 'RENT', -1500)] }
+    const second = startReconciliation(dup, { accountName: 'CHK-1', periodEnd: '2025-06-30', endingBalance: 2129.5, beginningBalance: 1000 }, now)
+    ;[fix] = suggestReconciliationFixes(second.state, second.reconciliation)
+    expect(fix.kind).toBe('duplicate')
+    expect(fix.transactionIds.sort()).toEqual(['p1', 'p1b'])
+
+    // Transposed digits: 120.50 keyed as 102.50 on the statement side
+    const transposed = startReconciliation(base(), { accountName: 'CHK-1', periodEnd: '2025-06-30', endingBalance: 2147.5, beginningBalance: 1000 }, now)
+    const kinds = suggestReconciliationFixes(transposed.state, transposed.reconciliation).map(s => s.kind)
+    expect(kinds).toContain('transposition')
+  })
+
+  it('locks cleared rows once complete and carries the balance forward', () => {
+    const start = startReconciliation(base(), { accountName: 'CHK-1', periodEnd: '2025-06-30', endingBalance: 2129.5, beginningBalance: 1000 }, now)
+    const done = completeReconciliation(start.state, start.reconciliation.id, now)
+    expect(done.reconciliations[0]).toMatchObject({ status: 'reconciled', reconciledAt: now.toISOString() })
+    expect(done.auditHistory.find(t => t.id === 'p1')?.isReconciled).toBe(true)
+
+    // Edits and deletions of locked rows are reverted; other fields and rows are free
+    const edited: FortunaState = {
+      ...done,
+      auditHistory: done.auditHistory
+        .filter(t => t.id !== 'p2')
+        .map(t => t.id === 'p1' ? { ...t, amount: -999, category: 'rent' } : t.id === 'late' ? { ...t, amount: -6 } : t),
+    }
+    const guarded = enforceReconciliationLocks(done, edited)
+    expect(guarded.auditHistory.find(t => t.id === 'p1')).toMatchObject({ amount: -1500, category: 'rent' })
+    expect(guarded.auditHistory.find(t => t.id === 'p2')).toBeDefined()
+    expect(guarded.auditHistory.find(t => t.id === 'late')?.amount).toBe(-6)
+
+    const next = startReconciliation(done, { accountName: 'CHK-1', periodEnd: '2025-07-31', endingBalance: 2124.5 }, now)
+    expect(next.reconciliation).toMatchObject({ periodStart: '2025-07-01', beginningBalance: 2129.5, clearedIds: ['late'] })
+    expect(computeReconciliation(next.state, next.reconciliation).isBalanced).toBe(true)
+
+    // Out-of-balance reconciliations can't be completed; reopening unlocks
+    const off = startReconciliation(done, { accountName: 'CHK-1', periodEnd: '2025-07-31', endingBalance: 1 }, now)
+    expect(completeReconciliation(off.state, off.reconciliation.id, now)).toBe(off.state)
+    const reopened = reopenReconciliation(done, start.reconciliation.id)
+    expect(enforceReconciliationLocks(reopened, { ...reopened, auditHistory: [] }).auditHistory).toHaveLength(0)
+  })
+
+  it('rejects rows inserted or moved into a reconciled period', () => {
+    const start = startReconciliation(base(), { accountName: 'CHK-1', periodEnd: '2025-06-30', endingBalance: 2129.5, beginningBalance: 1000 }, now)
+    const done = completeReconciliation(start.state, start.reconciliation.id, now)
+    const edited = {
+      ...done,
+      auditHistory: [
+        ...done.auditHistory.map(t => t.id === 'late' ? { ...t, date: '2025-06-29' } : t),
+        tx('back', '2025-06-15', 'Backdated fee', -35),
+        tx('july', '2025-07-03', 'Coffee', -4),
+        { ...tx('sav', '2025-06-15', 'Savings interest', 1), accountName: 'SAV-1' },
+      ],
+    }
+    const guarded = enforceReconciliationLocks(done, edited)
+    expect(guarded.auditHistory.find(t => t.id === 'late')?.date).toBe('2025-07-02')
+    expect(guarded.auditHistory.map(t => t.id)).not.toContain('back')
+    expect(guarded.auditHistory.map(t => t.id)).toEqual(expect.arrayContaining(['july', 'sav']))
+    expect(computeReconciliation(guarded, guarded.reconciliations[0]).isBalanced).toBe(true)
+  })
+
+  it('reports cleared and outstanding totals', () => {
+    const start = startReconciliation(base(), { accountName: 'CHK-1', periodEnd: '2025-06-30', endingBalance: 2129.5, beginningBalance: 1000 }, now)
+    const done = completeReconciliation(start.state, start.reconciliation.id, now)
+    const report = reconciliationReport(done, done.reconciliations[0])
+    expect(report).toContain('CHK-1')
+    expect(report).toContain('$2,129.50')
+    expect(report).toContain('Outstanding items (0)')
+  })
+})
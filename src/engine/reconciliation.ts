@@ -0,0 +1,435 @@
+/**
+ * Fortuna Engine — Bank Reconciliation
+ *
+ * Per-account statement reconciliation against auditHistory:
+ *   - Start from a statement (manual entry or OFX ledger balance)
+ *   - Tick cleared transactions; cleared balance vs statement ending balance
+ *   - Suggest what explains a difference: missing, duplicated, sign-flipped
+ *     or transposed entries
+ *   - Completing a balanced reconciliation locks its cleared rows
+ *   - Text report for the CPA export
+ *
+ * Register polarity matches storage: positive = deposit, negative = payment.
+ */
+
+import type { FortunaState, BankTransaction, Reconciliation } from './storage'
+import type { OFXStatement } from './qb-ofx-parser'
+import { normalizePayee, payeeSimilarity } from './import-pipeline'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface ReconciliationInput {
+  accountName: string
+  periodEnd: string
+  endingBalance: number
+  periodStart?: string
+  beginningBalance?: number
+  source?: Reconciliation['source']
+}
+
+export interface ReconciliationStatus {
+  beginningBalance: number
+  endingBalance: number
+  clearedDeposits: number
+  clearedPayments: number        // Negative
+  clearedBalance: number
+  difference: number             // endingBalance - clearedBalance
+  isBalanced: boolean
+  cleared: BankTransaction[]
+  outstanding: BankTransaction[] // Candidates not ticked (outstanding checks, deposits in transit)
+}
+
+export type SuggestionKind = 'tick' | 'untick' | 'duplicate' | 'sign' | 'transposition' | 'unrecorded'
+
+export interface ReconciliationSuggestion {
+  kind: SuggestionKind
+  transactionIds: string[]
+  amount: number
+  message: string
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const TOLERANCE = 0.005
+const MAX_PAIR_SEARCH = 60          // Outstanding items searched for two-item combinations
+const DUPLICATE_WINDOW_DAYS = 5
+const MAX_SUGGESTIONS = 8
+
+// ===================================================================
+//  HELPERS
+// ===================================================================
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function near(a: number, b: number): boolean {
+  return Math.abs(a - b) < TOLERANCE
+}
+
+function money(n: number): string {
+  return `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000
+}
+
+export function reconciliationAccounts(state: FortunaState): string[] {
+  return [...new Set((state.auditHistory || []).map(t => t.accountName).filter((a): a is string => !!a))].sort()
+}
+
+/** Most recent completed reconciliation for an account */
+export function lastReconciled(state: FortunaState, accountName: string): Reconciliation | undefined {
+  return (state.reconciliations || [])
+    .filter(r => r.accountName === accountName && r.status === 'reconciled')
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd))
+    .at(-1)
+}
+
+/** Ids cleared by completed reconciliations */
+export function lockedTransactionIds(state: FortunaState): Set<string> {
+  return new Set((state.reconciliations || [])
+    .filter(r => r.status === 'reconciled')
+    .flatMap(r => r.clearedIds))
+}
+
+/** Account transactions up to the statement date that no earlier completed reconciliation cleared */
+export function reconciliationCandidates(state: FortunaState, rec: Reconciliation): BankTransaction[] {
+  const earlier = new Set((state.reconciliations || [])
+    .filter(r => r.accountName === rec.accountName && r.status === 'reconciled' && r.id !== rec.id && r.periodEnd <= rec.periodEnd)
+    .flatMap(r => r.clearedIds))
+  return (state.auditHistory || [])
+    .filter(t => t.accountName === rec.accountName && t.date <= rec.periodEnd && !earlier.has(t.id))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// ===================================================================
+//  WORKFLOW
+// ===================================================================
+
+/** Statement input from an OFX ledger balance; null when the file has none */
+export function reconciliationFromStatement(stmt: OFXStatement): ReconciliationInput | null {
+  if (!stmt.ledgerBalance) return null
+  return {
+    accountName: stmt.bankAccount?.accountId || stmt.creditCardAccount?.accountId || 'bank',
+    periodStart: stmt.dateStart || undefined,
+    periodEnd: stmt.ledgerBalance.dateOf || stmt.dateEnd || '',
+    endingBalance: stmt.ledgerBalance.amount,
+    source: 'ofx',
+  }
+}
+
+/**
+ * Open (or replace) the in-progress reconciliation for an account.
+ * Beginning balance and period start continue from the last completed one;
+ * transactions dated inside the period start out ticked.
+ */
+export function startReconciliation(
+  state: FortunaState,
+  input: ReconciliationInput,
+  now: Date = new Date(),
+): { state: FortunaState; reconciliation: Reconciliation } {
+  const previous = lastReconciled(state, input.accountName)
+  const accountDates = (state.auditHistory || [])
+    .filter(t => t.accountName === input.accountName)
+    .map(t => t.date)
+    .sort()
+
+  const draft: Reconciliation = {
+    id: `rec_${now.getTime().toString(36)}_${input.accountName.replace(/\W+/g, '').slice(0, 12)}`,
+    accountName: input.accountName,
+    periodStart: input.periodStart || (previous ? addDays(previous.periodEnd, 1) : accountDates[0] || input.periodEnd),
+    periodEnd: input.periodEnd,
+    beginningBalance: round2(input.beginningBalance ?? previous?.endingBalance ?? 0),
+    endingBalance: round2(input.endingBalance),
+    clearedIds: [],
+    status: 'in_progress',
+    source: input.source || 'manual',
+    createdAt: now.toISOString(),
+  }
+  const reconciliation: Reconciliation = {
+    ...draft,
+    clearedIds: reconciliationCandidates(state, draft)
+      .filter(t => t.date >= draft.periodStart)
+      .map(t => t.id),
+  }
+
+  const others = (state.reconciliations || [])
+    .filter(r => !(r.accountName === input.accountName && r.status === 'in_progress'))
+  return { state: { ...state, reconciliations: [...others, reconciliation] }, reconciliation }
+}
+
+function updateReconciliation(state: FortunaState, id: string, fn: (r: Reconciliation) => Reconciliation): FortunaState {
+  return {
+    ...state,
+    reconciliations: state.reconciliations.map(r => r.id === id && r.status === 'in_progress' ? fn(r) : r),
+  }
+}
+
+export function toggleCleared(state: FortunaState, reconciliationId: string, transactionId: string): FortunaState {
+  return updateReconciliation(state, reconciliationId, r => ({
+    ...r,
+    clearedIds: r.clearedIds.includes(transactionId)
+      ? r.clearedIds.filter(id => id !== transactionId)
+      : [...r.clearedIds, transactionId],
+  }))
+}
+
+export function setStatementBalances(
+  state: FortunaState,
+  reconciliationId: string,
+  balances: { beginningBalance?: number; endingBalance?: number; periodEnd?: string },
+): FortunaState {
+  return updateReconciliation(state, reconciliationId, r => ({
+    ...r,
+    beginningBalance: round2(balances.beginningBalance ?? r.beginningBalance),
+    endingBalance: round2(balances.endingBalance ?? r.endingBalance),
+    periodEnd: balances.periodEnd ?? r.periodEnd,
+  }))
+}
+
+export function computeReconciliation(state: FortunaState, rec: Reconciliation): ReconciliationStatus {
+  const byId = new Map((state.auditHistory || []).map(t => [t.id, t]))
+  const cleared = rec.clearedIds.map(id => byId.get(id)).filter((t): t is BankTransaction => !!t)
+  const clearedSet = new Set(rec.clearedIds)
+  const outstanding = reconciliationCandidates(state, rec).filter(t => !clearedSet.has(t.id))
+
+  const clearedDeposits = round2(cleared.filter(t => t.amount > 0).reduce((s, t) => s + t.amount, 0))
+  const clearedPayments = round2(cleared.filter(t => t.amount < 0).reduce((s, t) => s + t.amount, 0))
+  const clearedBalance = round2(rec.beginningBalance + clearedDeposits + clearedPayments)
+  const difference = round2(rec.endingBalance - clearedBalance)
+
+  return {
+    beginningBalance: rec.beginningBalance,
+    endingBalance: rec.endingBalance,
+    clearedDeposits,
+    clearedPayments,
+    clearedBalance,
+    difference,
+    isBalanced: near(difference, 0),
+    cleared,
+    outstanding,
+  }
+}
+
+// ===================================================================
+//  SUGGESTIONS
+// ===================================================================
+
+/** Amounts whose adjacent-digit swap differs by exactly `diff` */
+function isTransposition(amount: number, diff: number): boolean {
+  const digits = Math.round(Math.abs(amount) * 100).toString().split('')
+  const target = Math.round(Math.abs(diff) * 100)
+  for (let i = 0; i < digits.length - 1; i++) {
+    if (digits[i] === digits[i + 1]) continue
+    const swapped = [...digits]
+    ;[swapped[i], swapped[i + 1]] = [swapped[i + 1], swapped[i]]
+    if (Math.abs(Number(swapped.join('')) - Math.round(Math.abs(amount) * 100)) === target) return true
+  }
+  return false
+}
+
+/**
+ * Likely explanations for an out-of-balance reconciliation, most specific
+ * first. `difference` is what the cleared side is short of the statement.
+ */
+export function suggestReconciliationFixes(state: FortunaState, rec: Reconciliation): ReconciliationSuggestion[] {
+  const status = computeReconciliation(state, rec)
+  const diff = status.difference
+  if (status.isBalanced) return []
+
+  const out: ReconciliationSuggestion[] = []
+  const label = (t: BankTransaction) => `${t.date} ${t.description} (${money(t.amount)})`
+
+  // An outstanding item the statement already includes
+  for (const t of status.outstanding) {
+    if (near(t.amount, diff)) {
+      out.push({ kind: 'tick', transactionIds: [t.id], amount: t.amount, message: `Likely cleared but not ticked: ${label(t)}` })
+    }
+  }
+
+  // Two outstanding items together
+  const pool = status.outstanding.slice(0, MAX_PAIR_SEARCH)
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      if (near(pool[i].amount + pool[j].amount, diff)) {
+        out.push({
+          kind: 'tick', transactionIds: [pool[i].id, pool[j].id], amount: round2(pool[i].amount + pool[j].amount),
+          message: `Likely cleared together: ${label(pool[i])} and ${label(pool[j])}`,
+        })
+      }
+    }
+  }
+
+  for (const t of status.cleared) {
+    // Ticked twice — a second cleared row that looks like the same charge
+    if (near(t.amount, -diff)) {
+      const twin = status.cleared.find(o => o.id !== t.id && near(o.amount, t.amount)
+        && daysBetween(o.date, t.date) <= DUPLICATE_WINDOW_DAYS
+        && payeeSimilarity(normalizePayee(o.description), normalizePayee(t.description)) >= 0.5)
+      out.push(twin
+        ? { kind: 'duplicate', transactionIds: [t.id, twin.id], amount: t.amount, message: `Possible duplicate: ${label(t)} matches ${label(twin)}` }
+        : { kind: 'untick', transactionIds: [t.id], amount: t.amount, message: `Ticked but not on the statement? ${label(t)}` })
+    }
+    // Entered with the wrong sign
+    if (near(2 * t.amount, -diff)) {
+      out.push({ kind: 'sign', transactionIds: [t.id], amount: t.amount, message: `Sign may be reversed: ${label(t)} — the statement shows ${money(-t.amount)}` })
+    }
+  }
+
+  // Transposed digits leave a difference divisible by 9
+  if (Math.round(Math.abs(diff) * 100) % 9 === 0) {
+    for (const t of status.cleared) {
+      if (isTransposition(t.amount, diff)) {
+        out.push({ kind: 'transposition', transactionIds: [t.id], amount: t.amount, message: `Digits may be transposed: ${label(t)}` })
+      }
+    }
+  }
+
+  // Sort duplicates ahead of plain unticks for the same row
+  const rank: Record<SuggestionKind, number> = { duplicate: 0, tick: 1, untick: 2, sign: 3, transposition: 4, unrecorded: 5 }
+  const ranked = out.sort((a, b) => rank[a.kind] - rank[b.kind]).slice(0, MAX_SUGGESTIONS)
+
+  if (ranked.length === 0) {
+    ranked.push({
+      kind: 'unrecorded', transactionIds: [], amount: diff,
+      message: `No register entry explains ${money(diff)} — look for a bank fee, interest or a transaction missing from your imports`,
+    })
+  }
+  return ranked
+}
+
+// ===================================================================
+//  COMPLETE & LOCK
+// ===================================================================
+
+/** Lock a balanced reconciliation; out-of-balance ones are left open */
+export function completeReconciliation(state: FortunaState, reconciliationId: string, now: Date = new Date()): FortunaState {
+  const rec = (state.reconciliations || []).find(r => r.id === reconciliationId)
+  if (!rec || rec.status !== 'in_progress' || !computeReconciliation(state, rec).isBalanced) return state
+
+  const cleared = new Set(rec.clearedIds)
+  return {
+    ...state,
+    auditHistory: state.auditHistory.map(t => cleared.has(t.id) && !t.isReconciled ? { ...t, isReconciled: true } : t),
+    reconciliations: state.reconciliations.map(r =>
+      r.id === reconciliationId ? { ...r, status: 'reconciled' as const, reconciledAt: now.toISOString() } : r),
+  }
+}
+
+/** Reopen the latest completed reconciliation for its account */
+export function reopenReconciliation(state: FortunaState, reconciliationId: string): FortunaState {
+  const rec = (state.reconciliations || []).find(r => r.id === reconciliationId)
+  if (!rec || rec.status !== 'reconciled' || lastReconciled(state, rec.accountName)?.id !== rec.id) return state
+  return {
+    ...state,
+    reconciliations: state.reconciliations
+      .filter(r => !(r.accountName === rec.accountName && r.status === 'in_progress'))
+      .map(r => r.id === reconciliationId ? { ...r, status: 'in_progress' as const, reconciledAt: undefined } : r),
+  }
+}
+
+/** Register fields a completed reconciliation freezes */
+const LOCKED_FIELDS = ['date', 'amount', 'description', 'accountName', 'isReconciled'] as const
+
+/**
+ * Revert edits to, or removal of, transactions cleared by a reconciliation
+ * that is still complete after the update, and reject rows inserted or
+ * moved into its statement period. Returns `next` untouched when nothing
+ * locked changed.
+ */
+export function enforceReconciliationLocks(prev: FortunaState, next: FortunaState): FortunaState {
+  if (prev.auditHistory === next.auditHistory) return next
+  const stillLocked = new Set((next.reconciliations || []).filter(r => r.status === 'reconciled').map(r => r.id))
+  const periods = (prev.reconciliations || []).filter(r => r.status === 'reconciled' && stillLocked.has(r.id))
+  if (periods.length === 0) return next
+
+  const locked = new Set(periods.flatMap(r => r.clearedIds))
+  const inClosedPeriod = (t: BankTransaction) => !!t.accountName &&
+    periods.some(r => r.accountName === t.accountName && t.date >= r.periodStart && t.date <= r.periodEnd)
+
+  const prevById = new Map((prev.auditHistory || []).map(t => [t.id, t]))
+  const seen = new Set<string>()
+  let changed = false
+  const auditHistory: BankTransaction[] = []
+
+  for (const t of next.auditHistory || []) {
+    const original = prevById.get(t.id)
+
+    // A new row in a closed period would change a balance the statement already proved
+    if (!original) {
+      if (inClosedPeriod(t)) changed = true
+      else auditHistory.push(t)
+      continue
+    }
+    seen.add(t.id)
+
+    if (locked.has(t.id)) {
+      if (LOCKED_FIELDS.every(f => t[f] === original[f])) {
+        auditHistory.push(t)
+        continue
+      }
+      changed = true
+      const restored = { ...t }
+      for (const f of LOCKED_FIELDS) Object.assign(restored, { [f]: original[f] })
+      auditHistory.push(restored)
+      continue
+    }
+
+    // Outstanding rows stay editable but cannot move into a closed period
+    if ((t.date !== original.date || t.accountName !== original.accountName) && inClosedPeriod(t) && !inClosedPeriod(original)) {
+      changed = true
+      auditHistory.push({ ...t, date: original.date, accountName: original.accountName })
+      continue
+    }
+    auditHistory.push(t)
+  }
+
+  for (const id of locked) {
+    const original = prevById.get(id)
+    if (original && !seen.has(id)) {
+      auditHistory.push(original)
+      changed = true
+    }
+  }
+
+  return changed ? { ...next, auditHistory } : next
+}
+
+// ===================================================================
+//  REPORT
+// ===================================================================
+
+export function reconciliationReport(state: FortunaState, rec: Reconciliation): string {
+  const s = computeReconciliation(state, rec)
+  const pad = (label: string, n: number) => `  ${label.padEnd(34)}${money(n).padStart(16)}`
+  const lines = [
+    `${rec.accountName} — statement ${rec.periodStart} to ${rec.periodEnd} (${rec.status === 'reconciled' ? `reconciled ${rec.reconciledAt?.slice(0, 10)}` : 'IN PROGRESS'})`,
+    pad('Beginning balance', s.beginningBalance),
+    pad(`Cleared deposits (${s.cleared.filter(t => t.amount > 0).length})`, s.clearedDeposits),
+    pad(`Cleared payments (${s.cleared.filter(t => t.amount < 0).length})`, s.clearedPayments),
+    pad('Cleared balance', s.clearedBalance),
+    pad('Statement ending balance', s.endingBalance),
+    pad('Difference', s.difference),
+  ]
+
+  const outstandingTotal = round2(s.outstanding.reduce((sum, t) => sum + t.amount, 0))
+  lines.push(pad(`Outstanding items (${s.outstanding.length})`, outstandingTotal))
+  lines.push(pad('Register balance', round2(s.clearedBalance + outstandingTotal)))
+  for (const t of s.outstanding.slice(0, 25)) {
+    lines.push(`    ${t.date}  ${t.description.slice(0, 40).padEnd(40)}${money(t.amount).padStart(14)}`)
+  }
+  if (s.outstanding.length > 25) lines.push(`    … ${s.outstanding.length - 25} more`)
+  return lines.join('\n')
+}
@@ -0,0 +1,99 @@
+/**
+ * Monte Carlo Retirement — Test Suite
+ * Validates: seeded projections, sequence-of-returns risk, RMD ages, Social Security claiming, state-derived inputs,
+ * worker cancellation
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createDefaultState } from './storage'
+import { runMonteCarlo, runMonteCarloAsync, buildMonteCarloInput, rmdStartAge, socialSecurityClaimFactor, type MonteCarloInput } from './retirement-monte-carlo'
+
+describe('Monte Carlo retirement projections', () => {
+  const flat = { type: 'normal' as const, stockMean: 0.05, stockStdDev: 0, bondMean: 0.05, bondStdDev: 0, inflationMean: 0, inflationStdDev: 0 }
+
+  function input(overrides: Partial<MonteCarloInput> = {}): MonteCarloInput {
+    const state = createDefaultState()
+    state.profile = { ...state.profile, age: 60 }
+    state.retirementAccounts = [
+      { id: '401k', name: '401(k)', type: 'traditional_401k', balance: 800000, annualContribution: 20000, maxContribution: 23500, isTaxDeductible: true },
+      { id: 'roth', name: 'Roth IRA', type: 'roth_ira', balance: 200000, annualContribution: 0, maxContribution: 7000, isTaxDeductible: false },
+    ]
+    return buildMonteCarloInput(state, { paths: 500, birthYear: 1966, startYear: 2026, ...overrides })
+  }
+
+  it('should split balances by tax treatment and be reproducible for a seed', () => {
+    const base = input()
+    expect(base.pretaxBalance).toBe(800000)
+    expect(base.afterTaxBalance).toBe(200000)
+
+    const a = runMonteCarlo(base)
+    const b = runMonteCarlo(base)
+    const c = runMonteCarlo({ ...base, seed: 7 })
+    expect(a).toEqual(b)
+    expect(c.balanceBands[10].p50).not.toBe(a.balanceBands[10].p50)
+    expect(a.successProbability).toBeGreaterThan(0)
+    expect(a.successProbability).toBeLessThanOrEqual(1)
+  })
+
+  it('should collapse to the deterministic path without volatility', () => {
+    const result = runMonteCarlo(input({ returns: flat, paths: 20 }))
+    const atRetirement = result.balanceBands.find(b => b.age === 64)!
+    const expected = 800000 * 1.05 ** 5 + 20000 * ((1.05 ** 5 - 1) / 0.05) + 200000 * 1.05 ** 5
+    expect(atRetirement.p10).toBe(atRetirement.p90)
+    expect(atRetirement.p50).toBeCloseTo(expected, -1)
+    expect(result.successProbability).toBe(1)
+  })
+
+  it('should lower success as the withdrawal rate rises, across strategies and bootstrap', () => {
+    const modest = runMonteCarlo(input({ withdrawal: { strategy: 'fixed_percent', initialRate: 0.03 } }))
+    const heavy = runMonteCarlo(input({ withdrawal: { strategy: 'fixed_percent', initialRate: 0.09 } }))
+    expect(modest.successProbability).toBeGreaterThan(heavy.successProbability)
+
+    const guardrails = runMonteCarlo(input({ withdrawal: { strategy: 'guardrails', initialRate: 0.09 } }))
+    expect(guardrails.successProbability).toBeGreaterThanOrEqual(heavy.successProbability)
+
+    const bucket = runMonteCarlo(input({ returns: { type: 'bootstrap', blockLength: 5 }, withdrawal: { strategy: 'bucket', initialRate: 0.04 } }))
+    expect(bucket.balanceBands).toHaveLength(36)
+    expect(bucket.balanceBands.every(b => Number.isFinite(b.p50) && b.p10 <= b.p90)).toBe(true)
+  })
+
+  it('should apply RMD start ages and Social Security claiming adjustments', () => {
+    expect(rmdStartAge(1955)).toBe(73)
+    expect(rmdStartAge(1966)).toBe(75)
+    expect(socialSecurityClaimFactor(62)).toBeCloseTo(0.70, 5)
+    expect(socialSecurityClaimFactor(67)).toBe(1)
+    expect(socialSecurityClaimFactor(70)).toBeCloseTo(1.24, 5)
+
+    // RMDs force taxable pre-tax withdrawals above a tiny planned rate — earlier for older cohorts
+    const tiny = { returns: flat, paths: 5, withdrawal: { strategy: 'fixed_percent' as const, initialRate: 0.001 } }
+    const at74 = (birthYear: number) => runMonteCarlo(input({ ...tiny, birthYear })).balanceBands.find(b => b.age === 74)!.p50
+    expect(at74(1955)).toBeLessThan(at74(1966))
+  })
+
+  describe('runMonteCarloAsync', () => {
+    afterEach(() => vi.unstubAllGlobals())
+
+    it('should reject with an AbortError when a worker run is cancelled', async () => {
+      const terminated: boolean[] = []
+      vi.stubGlobal('Worker', class {
+        onmessage: ((e: MessageEvent) => void) | null = null
+        onerror: ((e: ErrorEvent) => void) | null = null
+        postMessage() {}
+        terminate() { terminated.push(true) }
+      })
+
+      const job = runMonteCarloAsync(input({ paths: 5 }))
+      job.cancel()
+      await expect(job.promise).rejects.toMatchObject({ name: 'AbortError' })
+      expect(terminated).toEqual([true])
+    })
+
+    it('should reject a cancelled run without workers and resolve one left alone', async () => {
+      vi.stubGlobal('Worker', undefined)
+
+      const cancelled = runMonteCarloAsync(input({ paths: 5 }))
+      cancelled.cancel()
+      await expect(cancelled.promise).rejects.toMatchObject({ name: 'AbortError' })
+      expect((await runMonteCarloAsync(input({ paths: 5 })).promise).balanceBands.length).toBeGreaterThan(0)
+    })
+  })
+})
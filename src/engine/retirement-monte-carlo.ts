@@ -0,0 +1,421 @@
+/**
+ * Fortuna Engine — Monte Carlo Retirement Projections
+ *
+ *  - Seeded return/inflation paths: normal distributions or historical bootstrap
+ *  - Pre-tax and after-tax balances built from RetirementAccount records
+ *  - Withdrawal strategies: fixed %, guardrails (Guyton-Klinger), cash bucket
+ *  - RMDs from the Uniform Lifetime Table (SECURE 2.0 start ages)
+ *  - Social Security claiming age adjustments
+ *  - Percentile bands and probability of success (today's dollars)
+ *  - Runs in a Web Worker via runMonteCarloAsync so the UI stays responsive
+ */
+
+import type { FortunaState, RetirementAccount } from './storage'
+import { generateTaxReport } from './tax-calculator'
+import { estimateSocialSecurityPIA } from './retirement-optimizer'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export type WithdrawalStrategy = 'fixed_percent' | 'guardrails' | 'bucket'
+
+export type ReturnModel =
+  | {
+      type: 'normal'
+      stockMean: number
+      stockStdDev: number
+      bondMean: number
+      bondStdDev: number
+      inflationMean: number
+      inflationStdDev: number
+    }
+  | { type: 'bootstrap'; blockLength?: number }   // Resamples whole historical years (stocks, bonds, CPI together)
+
+export interface WithdrawalConfig {
+  strategy: WithdrawalStrategy
+  initialRate: number             // Share of the portfolio withdrawn in the first retirement year
+  guardrailBand?: number          // Guardrails: ± drift in withdrawal rate before adjusting (default 0.2)
+  guardrailAdjustment?: number    // Guardrails: spending cut/raise when a rail is hit (default 0.1)
+  cashYears?: number              // Bucket: years of spending held in cash (default 2)
+  cashReturn?: number             // Bucket: nominal return on cash (default 0.03)
+}
+
+export interface MonteCarloInput {
+  currentAge: number
+  retirementAge: number
+  planEndAge: number
+  birthYear: number
+  startYear: number
+  pretaxBalance: number
+  afterTaxBalance: number         // Roth, HSA and reinvested RMD excess
+  pretaxContribution: number
+  afterTaxContribution: number
+  stockAllocation: number         // 0–1, rest in bonds
+  returns: ReturnModel
+  withdrawal: WithdrawalConfig
+  socialSecurityAtFRA: number     // Annual benefit in today's dollars
+  claimAge: number
+  fullRetirementAge: number
+  retirementTaxRate: number       // Blended rate on pre-tax withdrawals
+  paths: number
+  seed: number
+}
+
+export interface PercentileBand {
+  age: number
+  year: number
+  p10: number
+  p25: number
+  p50: number
+  p75: number
+  p90: number
+}
+
+export interface MonteCarloResult {
+  paths: number
+  seed: number
+  successProbability: number      // Share of paths that never ran out before planEndAge
+  balanceBands: PercentileBand[]  // Real (today's) dollars
+  incomeBands: PercentileBand[]   // Net withdrawals + Social Security, real dollars
+  medianBalanceAtRetirement: number
+  medianEndingBalance: number
+  depletionAgeP10: number | null  // Age by which the worst 10% of paths are depleted
+  rmdStartAge: number
+  socialSecurityAnnual: number    // At the chosen claim age, today's dollars
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+const DEFAULT_NORMAL_MODEL: ReturnModel = {
+  type: 'normal',
+  stockMean: 0.10, stockStdDev: 0.17,
+  bondMean: 0.045, bondStdDev: 0.07,
+  inflationMean: 0.03, inflationStdDev: 0.012,
+}
+
+/**
+ * Approximate annual US returns, 1970–2023:
+ * [S&P 500 total return, 10-yr Treasury total return, CPI inflation]
+ */
+const HISTORICAL_YEARS: readonly [number, number, number][] = [
+  [0.0356, 0.1675, 0.056], [0.1422, 0.0979, 0.033], [0.1876, 0.0282, 0.034], [-0.1431, 0.0366, 0.087],
+  [-0.2590, 0.0199, 0.123], [0.3700, 0.0361, 0.069], [0.2383, 0.1598, 0.049], [-0.0698, 0.0129, 0.067],
+  [0.0651, -0.0078, 0.090], [0.1852, 0.0067, 0.133], [0.3174, -0.0299, 0.125], [-0.0470, 0.0820, 0.089],
+  [0.2042, 0.3281, 0.038], [0.2234, 0.0320, 0.038], [0.0615, 0.1373, 0.039], [0.3124, 0.2571, 0.038],
+  [0.1849, 0.2428, 0.011], [0.0581, -0.0496, 0.044], [0.1654, 0.0822, 0.044], [0.3148, 0.1769, 0.046],
+  [-0.0306, 0.0624, 0.061], [0.3023, 0.1500, 0.031], [0.0749, 0.0936, 0.029], [0.0997, 0.1421, 0.027],
+  [0.0133, -0.0804, 0.027], [0.3720, 0.2348, 0.025], [0.2268, 0.0143, 0.033], [0.3310, 0.0994, 0.017],
+  [0.2834, 0.1492, 0.016], [0.2089, -0.0825, 0.027], [-0.0903, 0.1666, 0.034], [-0.1185, 0.0557, 0.016],
+  [-0.2197, 0.1512, 0.024], [0.2836, 0.0038, 0.019], [0.1074, 0.0449, 0.033], [0.0483, 0.0287, 0.034],
+  [0.1561, 0.0196, 0.025], [0.0548, 0.1021, 0.041], [-0.3655, 0.2010, 0.001], [0.2594, -0.1112, 0.027],
+  [0.1482, 0.0846, 0.015], [0.0210, 0.1604, 0.030], [0.1589, 0.0297, 0.017], [0.3215, -0.0910, 0.015],
+  [0.1352, 0.1075, 0.008], [0.0138, 0.0128, 0.007], [0.1177, 0.0069, 0.021], [0.2161, 0.0280, 0.021],
+  [-0.0423, -0.0002, 0.019], [0.3121, 0.0964, 0.023], [0.1802, 0.1133, 0.014], [0.2847, -0.0442, 0.070],
+  [-0.1804, -0.1783, 0.065], [0.2606, 0.0388, 0.034],
+]
+
+/** IRS Uniform Lifetime Table (2022+) divisors, ages 72–105 */
+const UNIFORM_LIFETIME: Record<number, number> = {
+  72: 27.4, 73: 26.5, 74: 25.5, 75: 24.6, 76: 23.7, 77: 22.9, 78: 22.0, 79: 21.1, 80: 20.2,
+  81: 19.4, 82: 18.5, 83: 17.7, 84: 16.8, 85: 16.0, 86: 15.2, 87: 14.4, 88: 13.7, 89: 12.9, 90: 12.2,
+  91: 11.5, 92: 10.8, 93: 10.1, 94: 9.5, 95: 8.9, 96: 8.4, 97: 7.8, 98: 7.3, 99: 6.8, 100: 6.4,
+  101: 6.0, 102: 5.6, 103: 5.2, 104: 4.9, 105: 4.6,
+}
+
+const PRETAX_TYPES: RetirementAccount['type'][] = [
+  'traditional_401k', 'solo_401k', 'sep_ira', 'simple_ira', 'traditional_ira', 'pension', 'other',
+]
+
+const SS_EARLIEST = 62
+const SS_LATEST = 70
+const SS_DELAY_CREDIT = 0.08            // Per year past FRA
+
+// ===================================================================
+//  RANDOMNESS
+// ===================================================================
+
+/** mulberry32 — small, fast, deterministic for a given seed */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function normal(rng: () => number, mean: number, stdDev: number): number {
+  // Box-Muller
+  const u = Math.max(rng(), Number.EPSILON)
+  const v = rng()
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+/** Return/inflation sampler for one path */
+function pathSampler(model: ReturnModel, rng: () => number): () => [number, number, number] {
+  if (model.type === 'normal') {
+    return () => [
+      normal(rng, model.stockMean, model.stockStdDev),
+      normal(rng, model.bondMean, model.bondStdDev),
+      normal(rng, model.inflationMean, model.inflationStdDev),
+    ]
+  }
+
+  // Block bootstrap keeps runs of bad years together
+  const block = Math.max(1, model.blockLength ?? 1)
+  let index = 0
+  let remaining = 0
+  return () => {
+    if (remaining === 0) {
+      index = Math.floor(rng() * HISTORICAL_YEARS.length)
+      remaining = block
+    }
+    const year = HISTORICAL_YEARS[index % HISTORICAL_YEARS.length]
+    index++
+    remaining--
+    return [year[0], year[1], year[2]]
+  }
+}
+
+// ===================================================================
+//  RULES
+// ===================================================================
+
+/** SECURE 2.0: RMDs start at 73, or 75 for those born 1960 or later */
+export function rmdStartAge(birthYear: number): number {
+  return birthYear >= 1960 ? 75 : 73
+}
+
+export function rmdDivisor(age: number): number {
+  return UNIFORM_LIFETIME[Math.min(105, Math.max(72, age))]
+}
+
+/** Benefit multiple of PIA for a claim age: 5/9% per month for 36 months early, 5/12% beyond, +8%/yr delayed */
+export function socialSecurityClaimFactor(claimAge: number, fullRetirementAge: number = 67): number {
+  const age = Math.min(SS_LATEST, Math.max(SS_EARLIEST, claimAge))
+  const months = Math.round((age - fullRetirementAge) * 12)
+  if (months >= 0) return 1 + (months / 12) * SS_DELAY_CREDIT
+  const early = -months
+  return 1 - Math.min(36, early) * (5 / 900) - Math.max(0, early - 36) * (5 / 1200)
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))
+  return sorted[idx]
+}
+
+// ===================================================================
+//  SIMULATION
+// ===================================================================
+
+export function runMonteCarlo(input: MonteCarloInput): MonteCarloResult {
+  const rng = createRng(input.seed)
+  const horizon = Math.max(1, input.planEndAge - input.currentAge + 1)
+  const paths = Math.max(1, Math.floor(input.paths))
+  const rmdAge = rmdStartAge(input.birthYear)
+  const ssFactor = socialSecurityClaimFactor(input.claimAge, input.fullRetirementAge)
+  const tax = Math.min(0.9, Math.max(0, input.retirementTaxRate))
+  const w = input.withdrawal
+  const band = w.guardrailBand ?? 0.2
+  const adjust = w.guardrailAdjustment ?? 0.1
+  const cashYears = w.cashYears ?? 2
+  const cashReturn = w.cashReturn ?? 0.03
+
+  const balances = Array.from({ length: horizon }, () => new Float64Array(paths))
+  const incomes = Array.from({ length: horizon }, () => new Float64Array(paths))
+  const depletionAges: number[] = []
+  let successes = 0
+
+  for (let p = 0; p < paths; p++) {
+    const sample = pathSampler(input.returns, rng)
+    let pretax = input.pretaxBalance
+    let afterTax = input.afterTaxBalance
+    let cumInflation = 1
+    let withdrawal = 0
+    let cash = 0
+    let depletedAt: number | null = null
+
+    for (let i = 0; i < horizon; i++) {
+      const age = input.currentAge + i
+      const [stock, bond, inflation] = sample()
+      const r = input.stockAllocation * stock + (1 - input.stockAllocation) * bond
+      let income = 0
+
+      if (age < input.retirementAge) {
+        pretax = pretax * (1 + r) + input.pretaxContribution
+        afterTax = afterTax * (1 + r) + input.afterTaxContribution
+      } else {
+        const total = pretax + afterTax
+
+        // Planned net spending from the portfolio
+        if (age === input.retirementAge || withdrawal === 0) {
+          withdrawal = total * w.initialRate
+          if (w.strategy === 'bucket') cash = Math.min(total, withdrawal * cashYears)
+        } else if (w.strategy === 'guardrails' && total > 0) {
+          const rate = withdrawal / total
+          if (rate > w.initialRate * (1 + band)) withdrawal *= 1 - adjust
+          else if (rate < w.initialRate * (1 - band)) withdrawal *= 1 + adjust
+        }
+
+        // Pre-tax first (grossed up for tax), at least the RMD; then after-tax
+        const rmd = age >= rmdAge ? pretax / rmdDivisor(age) : 0
+        const pretaxDraw = Math.min(pretax, Math.max(rmd, withdrawal / (1 - tax)))
+        pretax -= pretaxDraw
+        let delivered = pretaxDraw * (1 - tax)
+        if (delivered > withdrawal) {
+          afterTax += delivered - withdrawal      // Excess RMD reinvested after tax
+          delivered = withdrawal
+        } else {
+          const draw = Math.min(afterTax, withdrawal - delivered)
+          afterTax -= draw
+          delivered += draw
+        }
+
+        if (depletedAt === null && delivered < withdrawal - 1) depletedAt = age
+
+        // Growth: the cash bucket earns cash rates and is refilled only after up years
+        const remaining = pretax + afterTax
+        let grown: number
+        if (w.strategy === 'bucket') {
+          cash = Math.max(0, Math.min(remaining, cash - delivered))
+          grown = (remaining - cash) * (1 + r) + cash * (1 + cashReturn)
+          if (r >= 0) cash = Math.min(grown, withdrawal * (1 + inflation) * cashYears)
+        } else {
+          grown = remaining * (1 + r)
+        }
+        const growthFactor = remaining > 0 ? grown / remaining : 0
+        pretax *= growthFactor
+        afterTax *= growthFactor
+
+        withdrawal *= 1 + inflation
+        income = delivered
+      }
+
+      if (age >= input.claimAge) income += input.socialSecurityAtFRA * ssFactor * cumInflation
+
+      balances[i][p] = (pretax + afterTax) / cumInflation
+      incomes[i][p] = income / cumInflation
+      cumInflation *= 1 + inflation
+    }
+
+    if (depletedAt === null) successes++
+    else depletionAges.push(depletedAt)
+  }
+
+  const bands = (series: Float64Array[]): PercentileBand[] => series.map((values, i) => {
+    const sorted = values.slice().sort()
+    return {
+      age: input.currentAge + i,
+      year: input.startYear + i,
+      p10: Math.round(percentile(sorted, 0.1)),
+      p25: Math.round(percentile(sorted, 0.25)),
+      p50: Math.round(percentile(sorted, 0.5)),
+      p75: Math.round(percentile(sorted, 0.75)),
+      p90: Math.round(percentile(sorted, 0.9)),
+    }
+  })
+
+  const balanceBands = bands(balances)
+  const retireIdx = Math.min(horizon - 1, Math.max(0, input.retirementAge - input.currentAge))
+  depletionAges.sort((a, b) => a - b)
+  const p10Index = Math.floor(paths * 0.1)
+
+  return {
+    paths,
+    seed: input.seed,
+    successProbability: successes / paths,
+    balanceBands,
+    incomeBands: bands(incomes),
+    medianBalanceAtRetirement: balanceBands[retireIdx].p50,
+    medianEndingBalance: balanceBands[horizon - 1].p50,
+    depletionAgeP10: p10Index < depletionAges.length ? depletionAges[p10Index] : null,
+    rmdStartAge: rmdAge,
+    socialSecurityAnnual: Math.round(input.socialSecurityAtFRA * ssFactor),
+  }
+}
+
+// ===================================================================
+//  INPUTS FROM STATE
+// ===================================================================
+
+export function buildMonteCarloInput(state: FortunaState, overrides: Partial<MonteCarloInput> = {}): MonteCarloInput {
+  const accounts = state.retirementAccounts || []
+  const isPretax = (a: RetirementAccount) => PRETAX_TYPES.includes(a.type)
+  const contribution = (a: RetirementAccount) => (a.annualContribution || 0) + (a.employerMatch || 0)
+  const startYear = new Date().getFullYear()
+  const report = generateTaxReport(state)
+
+  return {
+    currentAge: state.profile.age,
+    retirementAge: 65,
+    planEndAge: 95,
+    birthYear: startYear - state.profile.age,
+    startYear,
+    pretaxBalance: accounts.filter(isPretax).reduce((s, a) => s + a.balance, 0),
+    afterTaxBalance: accounts.filter(a => !isPretax(a)).reduce((s, a) => s + a.balance, 0),
+    pretaxContribution: accounts.filter(isPretax).reduce((s, a) => s + contribution(a), 0),
+    afterTaxContribution: accounts.filter(a => !isPretax(a)).reduce((s, a) => s + contribution(a), 0),
+    stockAllocation: 0.6,
+    returns: DEFAULT_NORMAL_MODEL,
+    withdrawal: { strategy: 'fixed_percent', initialRate: 0.04 },
+    socialSecurityAtFRA: estimateSocialSecurityPIA(state, report.grossIncome),
+    claimAge: 67,
+    fullRetirementAge: 67,
+    retirementTaxRate: 0.15,
+    paths: 2000,
+    seed: 42,
+    ...overrides,
+  }
+}
+
+// ===================================================================
+//  WEB WORKER
+// ===================================================================
+
+export interface MonteCarloJob {
+  promise: Promise<MonteCarloResult>
+  cancel: () => void
+}
+
+/** Run off the main thread; falls back to a synchronous run where workers are unavailable */
+export function runMonteCarloAsync(input: MonteCarloInput): MonteCarloJob {
+  // cancel() settles the promise with an AbortError so callers never wait on a dead run
+  const cancelled = () => new DOMException('Monte Carlo run cancelled', 'AbortError')
+
+  if (typeof Worker === 'undefined') {
+    let isCancelled = false
+    const promise = Promise.resolve().then(() => {
+      if (isCancelled) throw cancelled()
+      return runMonteCarlo(input)
+    })
+    return { promise, cancel: () => { isCancelled = true } }
+  }
+
+  const worker = new Worker(new URL('./retirement-monte-carlo.worker.ts', import.meta.url), { type: 'module' })
+  let abort: () => void = () => {}
+  const promise = new Promise<MonteCarloResult>((resolve, reject) => {
+    abort = () => reject(cancelled())
+    worker.onmessage = (e: MessageEvent<MonteCarloResult>) => {
+      resolve(e.data)
+      worker.terminate()
+    }
+    worker.onerror = (e) => {
+      reject(new Error(e.message || 'Monte Carlo worker failed'))
+      worker.terminate()
+    }
+  })
+  worker.postMessage(input)
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate()
+      abort()
+    },
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Fortuna Engine — Monte Carlo Worker
+ * Runs runMonteCarlo off the main thread; see runMonteCarloAsync.
+ */
+
+import { runMonteCarlo, type MonteCarloInput } from './retirement-monte-carlo'
+
+self.onmessage = (e: MessageEvent<MonteCarloInput>) => {
+  self.postMessage(runMonteCarlo(e.data))
+}
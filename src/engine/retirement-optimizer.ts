@@ -8,10 +8,12 @@
  *  - Contribution timing optimization (front-load vs dollar-cost)
  *  - Multi-decade retirement projection with tax-aware modeling
  *  - Social Security optimization timing
+ *  - Monte Carlo projections live in retirement-monte-carlo.ts
  */
 
 import type { FortunaState, RetirementAccount } from './storage'
 import { generateTaxReport } from './tax-calculator'
+import { getTaxParameters } from './tax-parameters'
 
 // ===================================================================
 //  2025 LIMITS
@@ -419,6 +421,12 @@ export interface RetirementProjection {
   recommendation: string
 }
 
+/** Annual benefit at full retirement age (rough approximation from current earnings) */
+export function estimateSocialSecurityPIA(state: FortunaState, grossIncome: number = generateTaxReport(state).grossIncome): number {
+  const avgEarnings = Math.min(grossIncome, getTaxParameters(state.taxYear).socialSecurityWageBase)
+  return Math.round(avgEarnings * 0.012 + 15000)
+}
+
 export function projectRetirement(
   state: FortunaState,
   currentBalance: number,
@@ -470,9 +478,7 @@ export function projectRetirement(
   const monthlyInRetirement = Math.round(sustainableWithdrawal / 12)
 
   // Social Security estimate (simplified)
-  const avgEarnings = Math.min(report.grossIncome, 176100) // SS wage base
-  const estimatedPIA = Math.round(avgEarnings * 0.012 + 15000) // rough approximation
-  const ssMonthly = Math.round(estimatedPIA / 12)
+  const ssMonthly = Math.round(estimateSocialSecurityPIA(state, report.grossIncome) / 12)
 
   const totalMonthly = monthlyInRetirement + ssMonthly
   const shortfall = Math.max(0, Math.round(target / 12) - totalMonthly)
@@ -0,0 +1,163 @@
+/**
+ * FORTUNA ENGINE — Sales Tax Rate Dataset
+ *
+ * Bundled state and local sales tax table, one row per state that taxes
+ * sales (plus DC and Alaska's local-only system):
+ *   - State rate and the average local add-on
+ *   - Major local jurisdictions by ZIP prefix
+ *   - Remote-seller (Wayfair) thresholds and whether marketplace sales count
+ *   - Filing-frequency liability breakpoints and return due day
+ *
+ * Rates are percentages. Refresh the dataset when states change rates;
+ * the engine reads only through getSalesTaxJurisdiction().
+ */
+
+import type { SalesTaxFrequency } from './storage'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface LocalSalesTax {
+  name: string
+  zipPrefixes: string[]        // First three digits of the ZIP code
+  rate: number                 // Local add-on on top of the state rate
+}
+
+export interface SalesTaxJurisdiction {
+  stateCode: string
+  agency: string               // Department the returns and payments go to
+  stateRate: number
+  avgLocalRate: number
+  locals: LocalSalesTax[]
+  threshold: {
+    sales: number
+    transactions?: number
+    both?: boolean             // Sales AND transactions must be met (CT, NY)
+    includesMarketplace: boolean
+  }
+  // Annual liability at or above which the state assigns monthly / quarterly filing
+  monthlyAbove: number
+  quarterlyAbove: number
+  dueDay: number | 'last'      // Day of the month after the period ends
+}
+
+// ===================================================================
+//  DATASET
+// ===================================================================
+
+export const SALES_TAX_DATASET_EFFECTIVE = '2025-01-01'
+
+type Row = [
+  code: string, agency: string, stateRate: number, avgLocal: number,
+  sales: number, transactions: number | null, includesMarketplace: boolean,
+  monthlyAbove: number, quarterlyAbove: number, dueDay: number | 'last',
+]
+
+const ROWS: Row[] = [
+  ['AK', 'Alaska Remote Seller Sales Tax Commission', 0, 1.76, 100_000, null, true, 12_000, 1_200, 'last'],
+  ['AL', 'Alabama Department of Revenue', 4, 5.24, 250_000, null, false, 2_400, 1_200, 20],
+  ['AR', 'Arkansas Department of Finance and Administration', 6.5, 2.97, 100_000, 200, true, 12_000, 1_200, 20],
+  ['AZ', 'Arizona Department of Revenue', 5.6, 2.77, 100_000, null, false, 8_000, 2_000, 20],
+  ['CA', 'California Department of Tax and Fee Administration', 7.25, 1.57, 500_000, null, true, 17_000, 1_200, 'last'],
+  ['CO', 'Colorado Department of Revenue', 2.9, 4.87, 100_000, null, false, 3_600, 180, 20],
+  ['CT', 'Connecticut Department of Revenue Services', 6.35, 0, 100_000, 200, true, 4_000, 1_000, 'last'],
+  ['DC', 'DC Office of Tax and Revenue', 6, 0, 100_000, 200, true, 12_000, 1_200, 20],
+  ['FL', 'Florida Department of Revenue', 6, 1.01, 100_000, null, false, 1_000, 500, 20],
+  ['GA', 'Georgia Department of Revenue', 4, 3.38, 100_000, 200, true, 2_400, 1_200, 20],
+  ['HI', 'Hawaii Department of Taxation', 4, 0.44, 100_000, 200, true, 4_000, 2_000, 20],
+  ['IA', 'Iowa Department of Revenue', 6, 0.94, 100_000, null, false, 6_000, 120, 'last'],
+  ['ID', 'Idaho State Tax Commission', 6, 0.02, 100_000, null, true, 6_000, 1_200, 20],
+  ['IL', 'Illinois Department of Revenue', 6.25, 2.56, 100_000, 200, false, 6_000, 600, 20],
+  ['IN', 'Indiana Department of Revenue', 7, 0, 100_000, null, false, 12_000, 1_000, 20],
+  ['KS', 'Kansas Department of Revenue', 6.5, 2.19, 100_000, null, true, 32_000, 400, 25],
+  ['KY', 'Kentucky Department of Revenue', 6, 0, 100_000, 200, false, 12_000, 1_200, 20],
+  ['LA', 'Louisiana Sales and Use Tax Commission for Remote Sellers', 5, 5.11, 100_000, null, false, 6_000, 1_200, 20],
+  ['MA', 'Massachusetts Department of Revenue', 6.25, 0, 100_000, null, true, 1_200, 100, 20],
+  ['MD', 'Maryland Comptroller', 6, 0, 100_000, 200, true, 1_200, 600, 20],
+  ['ME', 'Maine Revenue Services', 5.5, 0, 100_000, null, true, 3_000, 600, 15],
+  ['MI', 'Michigan Department of Treasury', 6, 0, 100_000, 200, true, 9_000, 900, 20],
+  ['MN', 'Minnesota Department of Revenue', 6.875, 0.61, 100_000, 200, true, 6_000, 1_200, 20],
+  ['MO', 'Missouri Department of Revenue', 4.225, 3.97, 100_000, null, false, 6_000, 900, 20],
+  ['MS', 'Mississippi Department of Revenue', 7, 0.06, 250_000, null, false, 6_000, 600, 20],
+  ['NC', 'North Carolina Department of Revenue', 4.75, 2.22, 100_000, null, true, 1_200, 100, 20],
+  ['ND', 'North Dakota Office of State Tax Commissioner', 5, 2.04, 100_000, null, false, 4_000, 1_200, 'last'],
+  ['NE', 'Nebraska Department of Revenue', 5.5, 1.44, 100_000, 200, false, 10_800, 900, 20],
+  ['NJ', 'New Jersey Division of Taxation', 6.625, 0, 100_000, 200, true, 30_000, 1_200, 20],
+  ['NM', 'New Mexico Taxation and Revenue Department', 4.875, 2.69, 100_000, null, true, 2_400, 1_200, 25],
+  ['NV', 'Nevada Department of Taxation', 6.85, 1.38, 100_000, 200, false, 12_000, 1_500, 'last'],
+  ['NY', 'New York Department of Taxation and Finance', 4, 4.52, 500_000, 100, true, 300_000, 3_000, 20],
+  ['OH', 'Ohio Department of Taxation', 5.75, 1.47, 100_000, 200, true, 6_000, 1_200, 23],
+  ['OK', 'Oklahoma Tax Commission', 4.5, 4.47, 100_000, null, true, 6_000, 600, 20],
+  ['PA', 'Pennsylvania Department of Revenue', 6, 0.34, 100_000, null, true, 7_200, 600, 20],
+  ['RI', 'Rhode Island Division of Taxation', 7, 0, 100_000, 200, true, 2_400, 1_200, 20],
+  ['SC', 'South Carolina Department of Revenue', 6, 1.43, 100_000, null, false, 1_200, 600, 20],
+  ['SD', 'South Dakota Department of Revenue', 4.2, 1.9, 100_000, null, true, 6_000, 1_200, 20],
+  ['TN', 'Tennessee Department of Revenue', 7, 2.55, 100_000, null, false, 3_600, 1_200, 20],
+  ['TX', 'Texas Comptroller of Public Accounts', 6.25, 1.94, 500_000, null, true, 6_000, 1_500, 20],
+  ['UT', 'Utah State Tax Commission', 6.1, 1.09, 100_000, null, true, 50_000, 1_000, 'last'],
+  ['VA', 'Virginia Department of Taxation', 5.3, 0.45, 100_000, 200, false, 12_000, 1_200, 20],
+  ['VT', 'Vermont Department of Taxes', 6, 0.36, 100_000, 200, true, 2_500, 500, 25],
+  ['WA', 'Washington Department of Revenue', 6.5, 2.74, 100_000, null, true, 4_800, 1_050, 25],
+  ['WI', 'Wisconsin Department of Revenue', 5, 0.43, 100_000, null, false, 3_600, 600, 'last'],
+  ['WV', 'West Virginia Tax Division', 6, 0.39, 100_000, 200, true, 3_000, 600, 20],
+  ['WY', 'Wyoming Department of Revenue', 4, 1.36, 100_000, null, true, 6_000, 600, 'last'],
+]
+
+const LOCALS: Record<string, LocalSalesTax[]> = {
+  AK: [{ name: 'Juneau', zipPrefixes: ['998'], rate: 5 }],
+  AZ: [{ name: 'Phoenix', zipPrefixes: ['850'], rate: 3 }, { name: 'Tucson', zipPrefixes: ['857'], rate: 3.1 }],
+  CA: [
+    { name: 'Los Angeles', zipPrefixes: ['900', '901'], rate: 2.5 },
+    { name: 'San Francisco', zipPrefixes: ['941'], rate: 1.375 },
+    { name: 'Oakland', zipPrefixes: ['946'], rate: 3.5 },
+    { name: 'San Diego', zipPrefixes: ['921'], rate: 0.5 },
+    { name: 'San Jose', zipPrefixes: ['951'], rate: 2.125 },
+  ],
+  CO: [{ name: 'Denver', zipPrefixes: ['802'], rate: 5.91 }],
+  FL: [{ name: 'Miami-Dade', zipPrefixes: ['330', '331'], rate: 1 }],
+  GA: [{ name: 'Atlanta', zipPrefixes: ['303'], rate: 4.9 }],
+  IL: [{ name: 'Chicago', zipPrefixes: ['606'], rate: 4 }],
+  LA: [{ name: 'New Orleans', zipPrefixes: ['701'], rate: 5 }],
+  MO: [{ name: 'St. Louis', zipPrefixes: ['631'], rate: 5.454 }],
+  NY: [{ name: 'New York City', zipPrefixes: ['100', '101', '102', '103', '104', '110', '111', '112', '113', '114', '116'], rate: 4.875 }],
+  PA: [{ name: 'Philadelphia', zipPrefixes: ['191'], rate: 2 }, { name: 'Allegheny County', zipPrefixes: ['150', '151', '152'], rate: 1 }],
+  TN: [{ name: 'Nashville', zipPrefixes: ['372'], rate: 2.25 }, { name: 'Memphis', zipPrefixes: ['381'], rate: 2.75 }],
+  TX: [
+    { name: 'Houston', zipPrefixes: ['770'], rate: 2 },
+    { name: 'Dallas', zipPrefixes: ['752'], rate: 2 },
+    { name: 'Austin', zipPrefixes: ['787'], rate: 2 },
+  ],
+  WA: [{ name: 'Seattle', zipPrefixes: ['981'], rate: 3.85 }],
+}
+
+const JURISDICTIONS: Record<string, SalesTaxJurisdiction> = Object.fromEntries(ROWS.map(
+  ([stateCode, agency, stateRate, avgLocalRate, sales, transactions, includesMarketplace, monthlyAbove, quarterlyAbove, dueDay]) => [stateCode, {
+    stateCode, agency, stateRate, avgLocalRate,
+    locals: LOCALS[stateCode] || [],
+    threshold: {
+      sales,
+      ...(transactions !== null ? { transactions } : {}),
+      ...(stateCode === 'CT' || stateCode === 'NY' ? { both: true } : {}),
+      includesMarketplace,
+    },
+    monthlyAbove, quarterlyAbove, dueDay,
+  }],
+))
+
+/** DE, MT, NH and OR have no sales tax */
+export function getSalesTaxJurisdiction(stateCode: string): SalesTaxJurisdiction | undefined {
+  return JURISDICTIONS[stateCode.toUpperCase()]
+}
+
+export function salesTaxStates(): string[] {
+  return Object.keys(JURISDICTIONS)
+}
+
+/** Filing frequency a state would assign for this much annual liability */
+export function assignedFrequency(stateCode: string, annualLiability: number): SalesTaxFrequency {
+  const j = getSalesTaxJurisdiction(stateCode)
+  if (!j) return 'annual'
+  if (annualLiability >= j.monthlyAbove) return 'monthly'
+  return annualLiability >= j.quarterlyAbove ? 'quarterly' : 'annual'
+}
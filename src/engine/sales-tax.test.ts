@@ -0,0 +1,113 @@
+/**
+ * Sales Tax — Test Suite
+ * Validates: combined rates, ship-to liability, remote-seller thresholds and mid-year crossings, remittance matching, filing deadlines
+ */
+import { describe, it, expect } from 'vitest'
+import { createDefaultState, type FortunaState } from './storage'
+import { analyzeSalesTax, salesTaxRate, salesTaxRemitted } from './sales-tax'
+import { addCustomer, createInvoice, sendInvoice } from './invoicing'
+import { generateSalesTaxDeadlines } from './tax-calendar'
+
+describe('sales tax', () => {
+  const now = new Date('2025-06-01')
+
+  // TX widget shop with a TX permit: CA wholesale, Amazon (WA) and FL orders, plus a $200k storefront at home
+  function shopState(): FortunaState {
+    let state = createDefaultState()
+    state.taxYear = 2025
+    state.profile.state = 'TX'
+    state.entities = [{
+      id: 'shop', name: 'Widget Shop', type: 'llc', state: 'TX', annualCost: 0, isActive: true, tangibleGoodsOnly: true,
+      salesTaxRegistrations: [{ stateCode: 'TX', frequency: 'quarterly' }],
+    }]
+    state.incomeStreams = [{ id: 's1', name: 'Storefront', type: 'business', annualAmount: 200_000, isActive: true, entityId: 'shop' }]
+    state = addCustomer(state, { entityId: 'shop', name: 'Pacific Retail', state: 'CA' }, now)
+    state = addCustomer(state, { entityId: 'shop', name: 'Amazon', state: 'WA', marketplace: true }, now)
+    state = addCustomer(state, { entityId: 'shop', name: 'Sunshine Gifts', state: 'FL' }, now)
+    const [pacific, amazon, sunshine] = state.customers!
+    const invoices: [string, string, { description: string; quantity: number; rate: number; taxable?: boolean }, { state: string; zip?: string }?][] = [
+      [pacific.id, '2025-02-10', { description: 'Widgets', quantity: 1000, rate: 300 }, { state: 'ca', zip: '90012' }],
+      [pacific.id, '2025-05-10', { description: 'Widgets', quantity: 1000, rate: 220 }],
+      [pacific.id, '2025-09-10', { description: 'Widgets', quantity: 1000, rate: 200 }, { state: 'ca', zip: '90012' }],
+      [amazon.id, '2025-03-01', { description: 'Widgets', quantity: 500, rate: 300 }],
+      [sunshine.id, '2025-04-01', { description: 'Widgets', quantity: 300, rate: 300 }],
+      [sunshine.id, '2025-04-02', { description: 'Installation', quantity: 1, rate: 2000, taxable: false }],
+    ]
+    for (const [customerId, issueDate, line, shipTo] of invoices) {
+      state = createInvoice(state, { customerId, issueDate, lines: [line], shipTo }, now)
+      state = sendInvoice(state, state.invoices![state.invoices!.length - 1].id, now)
+    }
+    state.auditHistory = [
+      { id: 't1', date: '2025-04-21', description: 'TX COMPTROLLER SALES TAX', amount: -4000, isReconciled: false, entityId: 'shop' },
+      { id: 't2', date: '2025-04-15', description: 'TX COMPTROLLER FRANCHISE', amount: -900, isReconciled: false, entityId: 'shop' },
+    ]
+    return state
+  }
+
+  it('looks up combined state and local rates', () => {
+    expect(salesTaxRate('CA', '90012')).toMatchObject({ combinedRate: 9.75, jurisdiction: 'Los Angeles', estimated: false })
+    expect(salesTaxRate('ca')).toMatchObject({ combinedRate: 8.82, jurisdiction: 'CA average', estimated: true })
+    expect(salesTaxRate('OR').combinedRate).toBe(0)
+  })
+
+  it('tracks liability by ship-to state and monitors remote-seller thresholds', () => {
+    const state = shopState()
+    expect(state.invoices![0].shipTo).toEqual({ state: 'CA', zip: '90012' })
+    const analysis = analyzeSalesTax(state, state.entities[0])
+    const byState = Object.fromEntries(analysis.states.map(s => [s.stateCode, s]))
+
+    // The May order crosses CA's $500k threshold; only the $200k September order at Los Angeles 9.75% is owed
+    expect(byState.CA).toMatchObject({ obligation: ['economic'], registered: false, taxableSales: 720_000, liability: 19_500, frequency: 'monthly' })
+    expect(byState.CA.notes).toContain('Threshold crossed 2025-05-10; liability covers sales after that date')
+    // Home state: physical presence, storefront at the TX average, one payment matched
+    expect(byState.TX).toMatchObject({ obligation: ['registered', 'physical'], liability: 16_380, remitted: 4000, balanceDue: 12_380, frequency: 'quarterly' })
+    // Amazon collects in WA; its sales still cross WA's threshold but owe nothing
+    expect(byState.WA).toMatchObject({ marketplaceSales: 150_000, taxableSales: 0, liability: 0, obligation: ['economic'] })
+    // The installation line is exempt; FL has no obligation yet
+    expect(byState.FL).toMatchObject({ taxableSales: 90_000, exemptSales: 2000, thresholdPct: 92, liability: 0 })
+
+    expect(analysis.filings).toEqual([{ stateCode: 'CA', frequency: 'monthly' }, { stateCode: 'TX', frequency: 'quarterly' }])
+    expect(analysis.warnings).toEqual([
+      'Register to collect California sales tax — sales of $720,000 meet the remote-seller threshold',
+      'Texas: $12,380 of 2025 sales tax not yet remitted',
+      'Florida sales are at 92% of the $100,000 remote-seller threshold',
+    ])
+  })
+
+  it('generates filing deadlines per state and frequency', () => {
+    const state = shopState()
+    const deadlines = generateSalesTaxDeadlines(2025, analyzeSalesTax(state, state.entities[0]).filings)
+
+    expect(deadlines).toHaveLength(16)
+    expect(deadlines.every(d => d.category === 'sales_tax')).toBe(true)
+    const tx = deadlines.filter(d => d.title.startsWith('TX'))
+    // TX returns are due the 20th; 2025-04-20 is a Sunday
+    expect(tx.map(d => d.date)).toEqual(['2025-04-21', '2025-07-21', '2025-10-20', '2026-01-20'])
+    expect(tx[0]).toMatchObject({ title: 'TX Sales Tax Return — Q1 2025', recurring: 'quarterly' })
+    // CA monthly returns are due the last day of the next month
+    expect(deadlines.find(d => d.title === 'CA Sales Tax Return — Jan 2025')?.date).toBe('2025-02-28')
+    expect(deadlines.find(d => d.title === 'CA Sales Tax Return — Dec 2025')?.date).toBe('2026-02-02')
+    expect(generateSalesTaxDeadlines(2025, [{ stateCode: 'OR', frequency: 'annual' }])).toEqual([])
+  })
+
+  it('matches remittances by agency and accrues stream sales after a mid-year crossing', () => {
+    const state = createDefaultState()
+    state.taxYear = 2025
+    state.entities = [{ id: 'web', name: 'Web Store', type: 'llc', state: 'TX', annualCost: 0, isActive: true, tangibleGoodsOnly: true }]
+    state.incomeStreams = [{ id: 's1', name: 'Online', type: 'business', annualAmount: 200_000, isActive: true, entityId: 'web', sourceStates: [{ stateCode: 'WA', pct: 100 }] }]
+    const paid = (id: string, description: string) => ({ id, date: '2025-08-20', description, amount: -100, isReconciled: false, entityId: 'web' })
+    state.auditHistory = [
+      paid('t1', 'SALES TAX PMT CO OR IN ME OK'),
+      paid('t2', 'WA DOR SALES TAX'),
+      paid('t3', 'STATE OF OK SALES TAX'),
+      paid('t4', 'West Virginia sales tax'),
+      paid('t5', 'Arkansas sales and use tax'),
+    ]
+    expect(Object.fromEntries(salesTaxRemitted(state, state.entities[0], 2025))).toEqual({ WA: 100, OK: 100, WV: 100, AR: 100 })
+
+    // $200k accrues evenly; WA's $100k threshold is passed by the end of July
+    const wa = analyzeSalesTax(state, state.entities[0]).states.find(s => s.stateCode === 'WA')!
+    expect(wa).toMatchObject({ obligation: ['economic'], taxableSales: 200_000, liability: 7746.41 })
+    expect(wa.notes).toContain('Threshold crossed 2025-07-31; liability covers sales after that date')
+  })
+})
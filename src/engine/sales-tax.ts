@@ -0,0 +1,368 @@
+/**
+ * FORTUNA ENGINE — Sales & Use Tax v1
+ *
+ * Sales tax liability per entity and ship-to state.
+ *
+ * Features:
+ *   - Taxable, exempt and marketplace-facilitated sales from invoices (ship-to
+ *     or customer state, line taxability) and from income streams' sourceStates
+ *   - Remote-seller threshold monitoring on sales and transaction counts,
+ *     this year or last, with or without marketplace sales per state rule
+ *   - Combined state + local rate from the bundled dataset: the local
+ *     jurisdiction by ZIP prefix when the sale has one, else the state average
+ *   - Collection obligation from a permit, physical presence (home state,
+ *     payroll, property) or economic nexus
+ *   - Remittances matched from bank transactions, and filing frequency per
+ *     state for generateSalesTaxDeadlines() in the tax calendar
+ *
+ * Marketplace facilitators collect and remit on their own sales, so those
+ * never add to the seller's liability. A remote seller that crosses the
+ * threshold mid-year owes only on sales after the crossing date; stream
+ * estimates are undated and accrue evenly over the year. Verify rates with
+ * the state before filing.
+ */
+
+import type { FortunaState, LegalEntity, IncomeStream, SalesTaxFrequency } from './storage'
+import { getStateNames } from './state-tax-engine'
+import { invoiceTotal, isIssued } from './invoicing'
+import { entityPayrollByState, entityPropertyByState } from './nexus-apportionment'
+import { getSalesTaxJurisdiction, assignedFrequency, salesTaxStates } from './sales-tax-rates'
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface SalesTaxRate {
+  stateCode: string
+  stateRate: number            // Percent
+  localRate: number
+  combinedRate: number
+  jurisdiction: string         // Local jurisdiction, or "<ST> average"
+  estimated: boolean           // No ZIP match: the state's average local rate
+}
+
+export interface TaxableSale {
+  source: 'invoice' | 'stream'
+  sourceId: string
+  stateCode: string
+  zip?: string
+  date?: string                // Invoice issue date; stream estimates are undated
+  amount: number
+  taxableAmount: number
+  marketplace: boolean
+}
+
+export type CollectionBasis = 'registered' | 'physical' | 'economic'
+
+export interface SalesTaxStateSummary {
+  stateCode: string
+  stateName: string
+  grossSales: number
+  taxableSales: number
+  exemptSales: number
+  marketplaceSales: number     // Collected by the facilitator
+  transactions: number         // Invoices; stream estimates carry no count
+  thresholdSales: number       // What the state counts toward its remote-seller threshold
+  threshold: number
+  thresholdPct: number         // 0-100, the higher of this year and last
+  obligation: CollectionBasis[]
+  mustCollect: boolean
+  registered: boolean
+  rate: number                 // Sales-weighted combined rate, percent
+  liability: number
+  remitted: number
+  balanceDue: number
+  frequency: SalesTaxFrequency
+  notes: string[]
+}
+
+export interface SalesTaxFiling {
+  stateCode: string
+  frequency: SalesTaxFrequency
+}
+
+export interface SalesTaxAnalysis {
+  entityId: string
+  entityName: string
+  taxYear: number
+  states: SalesTaxStateSummary[]
+  totalLiability: number
+  totalRemitted: number
+  totalBalanceDue: number
+  filings: SalesTaxFiling[]    // Registered states plus those that require it
+  warnings: string[]
+}
+
+// ─── Rates ──────────────────────────────────────────────────────────────────
+
+const round = (n: number) => Math.round(n * 100) / 100
+
+/** Combined rate for a destination; states without sales tax return zero */
+export function salesTaxRate(stateCode: string, zip?: string): SalesTaxRate {
+  const code = stateCode.toUpperCase()
+  const j = getSalesTaxJurisdiction(code)
+  if (!j) return { stateCode: code, stateRate: 0, localRate: 0, combinedRate: 0, jurisdiction: `${code} (no sales tax)`, estimated: false }
+  const prefix = zip?.trim().slice(0, 3)
+  const local = prefix ? j.locals.find(l => l.zipPrefixes.includes(prefix)) : undefined
+  const localRate = local ? local.rate : j.avgLocalRate
+  return {
+    stateCode: code,
+    stateRate: j.stateRate,
+    localRate,
+    combinedRate: Math.round((j.stateRate + localRate) * 1000) / 1000,
+    jurisdiction: local ? local.name : `${code} average`,
+    estimated: !local && j.avgLocalRate > 0,
+  }
+}
+
+// ─── Sales ──────────────────────────────────────────────────────────────────
+
+function streamShares(stream: IncomeStream, amount: number, home: string): [string, number][] {
+  const shares: [string, number][] = []
+  let allocated = 0
+  for (const alloc of stream.sourceStates || []) {
+    if (!alloc.stateCode || alloc.pct <= 0) continue
+    shares.push([alloc.stateCode.toUpperCase(), amount * Math.min(alloc.pct, 100 - allocated) / 100])
+    allocated = Math.min(100, allocated + alloc.pct)
+  }
+  if (allocated < 100) shares.push([home, amount * (100 - allocated) / 100])
+  return shares.filter(([, v]) => v > 0)
+}
+
+/**
+ * Every sale for the year with its destination. Invoice lines are taxable
+ * unless marked otherwise when the entity sells tangible goods; stream
+ * estimates above what was invoiced follow the stream's sourceStates.
+ */
+export function entitySales(state: FortunaState, entity: LegalEntity, year: number): TaxableSale[] {
+  const home = (entity.state || state.profile.state).toUpperCase()
+  const customers = new Map((state.customers || []).map(c => [c.id, c]))
+  const taxableByDefault = !!entity.tangibleGoodsOnly
+  const billedByStream = new Map<string, number>()
+  const sales: TaxableSale[] = []
+
+  for (const inv of state.invoices || []) {
+    if (inv.entityId !== entity.id || !isIssued(inv) || !inv.issueDate.startsWith(String(year))) continue
+    const customer = customers.get(inv.customerId)
+    const amount = invoiceTotal(inv)
+    const taxableAmount = inv.lines
+      .filter(l => l.taxable ?? taxableByDefault)
+      .reduce((s, l) => s + l.quantity * l.rate, 0)
+    sales.push({
+      source: 'invoice',
+      sourceId: inv.id,
+      stateCode: (inv.shipTo?.state || customer?.state || home).toUpperCase(),
+      ...(inv.shipTo?.zip ? { zip: inv.shipTo.zip } : {}),
+      date: inv.issueDate,
+      amount: round(amount),
+      taxableAmount: round(taxableAmount),
+      marketplace: !!customer?.marketplace,
+    })
+    if (inv.incomeStreamId) billedByStream.set(inv.incomeStreamId, (billedByStream.get(inv.incomeStreamId) || 0) + amount)
+  }
+
+  for (const stream of state.incomeStreams) {
+    if (!stream.isActive || stream.entityId !== entity.id) continue
+    const unbilled = stream.annualAmount - (billedByStream.get(stream.id) || 0)
+    if (unbilled <= 0) continue
+    for (const [stateCode, amount] of streamShares(stream, unbilled, home)) {
+      sales.push({
+        source: 'stream', sourceId: stream.id, stateCode,
+        amount: round(amount), taxableAmount: taxableByDefault ? round(amount) : 0, marketplace: !!stream.marketplace,
+      })
+    }
+  }
+  return sales
+}
+
+// ─── Remittances ────────────────────────────────────────────────────────────
+
+const SALES_TAX_PAYMENT = /sales\s*(?:&|and)?\s*(?:use\s*)?tax|cdtfa|board of equalization/i
+const AGENCY_ALIASES: Record<string, RegExp> = { CA: /cdtfa|board of equalization/i }
+// A bare code is too common a word (IN, OR, ME, OK, CO) — only trust it next to an agency word
+const AGENCY_WORDS = 'DEPT|DEPARTMENT|DOR|REV(?:ENUE)?|COMPTROLLER|TAXATION|TAX COMM(?:ISSION)?|TREAS(?:URY|URER)?'
+
+/** State a sales tax payment went to, from the payee text */
+function paymentState(description: string, names: Record<string, string>): string | undefined {
+  const text = description.toLowerCase()
+  // Longest names first, so "West Virginia" is not read as Virginia
+  const codes = salesTaxStates().sort((a, b) => (names[b] || '').length - (names[a] || '').length)
+  return codes.find(code => {
+    const j = getSalesTaxJurisdiction(code)!
+    return new RegExp(`\\bSTATE OF ${code}\\b|\\b(?:DEPT|DOR)\\.? (?:OF )?(?:REV(?:ENUE)? )?${code}\\b|\\b${code}\\.? (?:${AGENCY_WORDS})\\b`).test(description)
+      || (names[code] && new RegExp(`\\b${names[code].toLowerCase()}\\b`).test(text))
+      || text.includes(j.agency.toLowerCase())
+      || AGENCY_ALIASES[code]?.test(description)
+  })
+}
+
+/**
+ * Sales tax paid per state for the year. Returns for December and Q4 fall
+ * due in January, so payments through January of the next year count.
+ */
+export function salesTaxRemitted(state: FortunaState, entity: LegalEntity, year: number): Map<string, number> {
+  const names = getStateNames()
+  const remitted = new Map<string, number>()
+  const from = `${year}-02-01`
+  const to = `${year + 1}-01-31`
+  for (const t of state.auditHistory || []) {
+    if (t.entityId !== entity.id || t.amount >= 0 || t.date < from || t.date > to) continue
+    const payee = `${t.merchantName || ''} ${t.description}`
+    if (t.category !== 'sales_tax' && !SALES_TAX_PAYMENT.test(payee)) continue
+    const code = paymentState(payee, names)
+    if (code) remitted.set(code, (remitted.get(code) || 0) + Math.abs(t.amount))
+  }
+  return remitted
+}
+
+// ─── Analysis ───────────────────────────────────────────────────────────────
+
+function thresholdCount(sales: TaxableSale[], includesMarketplace: boolean) {
+  const counted = sales.filter(s => includesMarketplace || !s.marketplace)
+  return {
+    sales: counted.reduce((s, x) => s + x.amount, 0),
+    transactions: counted.filter(s => s.source === 'invoice').length,
+  }
+}
+
+const DAY_MS = 86_400_000
+
+/** Share of the year after `date`, for stream estimates that accrue evenly */
+function yearRemaining(date: string, year: number): number {
+  const start = Date.UTC(year, 0, 1)
+  const days = (Date.UTC(year + 1, 0, 1) - start) / DAY_MS
+  return Math.max(0, days - ((Date.parse(date) - start) / DAY_MS + 1)) / days
+}
+
+/**
+ * Date this year's sales first met the threshold, checked at each invoice
+ * and each month end (when stream estimates alone may tip it over)
+ */
+function thresholdCrossed(
+  sales: TaxableSale[], year: number, includesMarketplace: boolean,
+  meets: (c: { sales: number; transactions: number }) => boolean,
+): string {
+  const monthEnds = Array.from({ length: 12 }, (_, m) => new Date(Date.UTC(year, m + 1, 0)).toISOString().slice(0, 10))
+  const dates = [...new Set([...sales.flatMap(s => s.date ? [s.date] : []), ...monthEnds])].sort()
+  for (const date of dates) {
+    const dated = thresholdCount(sales.filter(s => s.date && s.date <= date), includesMarketplace)
+    const accrued = thresholdCount(sales.filter(s => !s.date), includesMarketplace).sales * (1 - yearRemaining(date, year))
+    if (meets({ sales: dated.sales + accrued, transactions: dated.transactions })) return date
+  }
+  return `${year}-12-31`
+}
+
+/** Sales tax position for one entity across every state it sells into */
+export function analyzeSalesTax(state: FortunaState, entity: LegalEntity): SalesTaxAnalysis {
+  const year = state.taxYear || new Date().getFullYear()
+  const homeState = (entity.state || state.profile.state).toUpperCase()
+  const names = getStateNames()
+  const sales = entitySales(state, entity, year)
+  const priorSales = entitySales(state, entity, year - 1).filter(s => s.source === 'invoice')
+  const payroll = entityPayrollByState(state, entity)
+  const property = entityPropertyByState(state, entity)
+  const remitted = salesTaxRemitted(state, entity, year)
+  const registrations = new Map((entity.salesTaxRegistrations || []).map(r => [r.stateCode.toUpperCase(), r]))
+
+  const codes = [...new Set([...sales.map(s => s.stateCode), ...registrations.keys(), ...remitted.keys()])]
+    .filter(code => getSalesTaxJurisdiction(code))
+
+  const states: SalesTaxStateSummary[] = codes.map(code => {
+    const j = getSalesTaxJurisdiction(code)!
+    const inState = sales.filter(s => s.stateCode === code)
+    const notes: string[] = []
+
+    const current = thresholdCount(inState, j.threshold.includesMarketplace)
+    const prior = thresholdCount(priorSales.filter(s => s.stateCode === code), j.threshold.includesMarketplace)
+    const meets = (c: { sales: number; transactions: number }) => {
+      const bySales = c.sales >= j.threshold.sales
+      const byCount = j.threshold.transactions !== undefined && c.transactions >= j.threshold.transactions
+      return j.threshold.both ? bySales && byCount : bySales || byCount
+    }
+    const thresholdMet = meets(current) || meets(prior)
+    const thresholdPct = Math.round(Math.max(current.sales, prior.sales) / j.threshold.sales * 1000) / 10
+
+    const obligation: CollectionBasis[] = []
+    if (registrations.has(code)) obligation.push('registered')
+    if (code === homeState || (payroll.get(code) || 0) > 0 || (property.get(code) || 0) > 0) obligation.push('physical')
+    if (thresholdMet) obligation.push('economic')
+    const mustCollect = obligation.some(b => b !== 'registered')
+    const collects = obligation.length > 0
+    // Economic nexus alone, first met this year: collection starts after the crossing
+    const collectsAfter = obligation.length === 1 && thresholdMet && !meets(prior)
+      ? thresholdCrossed(inState, year, j.threshold.includesMarketplace, meets)
+      : undefined
+    const collectedShare = (x: TaxableSale) => !collectsAfter ? 1
+      : x.date ? (x.date > collectsAfter ? 1 : 0)
+      : yearRemaining(collectsAfter, year)
+
+    const marketplaceSales = inState.filter(s => s.marketplace).reduce((s, x) => s + x.amount, 0)
+    const direct = inState.filter(s => !s.marketplace)
+    const taxableSales = direct.reduce((s, x) => s + x.taxableAmount, 0)
+    const exemptSales = direct.reduce((s, x) => s + x.amount - x.taxableAmount, 0)
+    const taxOn = (x: TaxableSale) => x.taxableAmount * salesTaxRate(code, x.zip).combinedRate / 100
+    const tax = direct.reduce((s, x) => s + taxOn(x), 0)
+    const liability = collects ? round(direct.reduce((s, x) => s + taxOn(x) * collectedShare(x), 0)) : 0
+    const paid = round(remitted.get(code) || 0)
+
+    if (marketplaceSales > 0) {
+      notes.push(`$${Math.round(marketplaceSales).toLocaleString()} collected by marketplace facilitators — ${j.threshold.includesMarketplace ? 'counts' : 'does not count'} toward the threshold`)
+    }
+    if (direct.some(s => s.taxableAmount > 0 && !s.zip)) notes.push(`Local rate estimated at the ${code} average (${j.avgLocalRate}%) where no ZIP was given`)
+    if (thresholdMet && !meets(current)) notes.push(`Threshold met in ${year - 1}; collection continues through ${year}`)
+    if (collectsAfter) notes.push(`Threshold crossed ${collectsAfter}; liability covers sales after that date`)
+    if (j.threshold.transactions !== undefined && inState.some(s => s.source === 'stream')) {
+      notes.push('Stream estimates carry no transaction count — the transaction test only sees invoices')
+    }
+
+    const registration = registrations.get(code)
+    return {
+      stateCode: code,
+      stateName: names[code] || (code === 'DC' ? 'District of Columbia' : code),
+      grossSales: round(inState.reduce((s, x) => s + x.amount, 0)),
+      taxableSales: round(taxableSales),
+      exemptSales: round(exemptSales),
+      marketplaceSales: round(marketplaceSales),
+      transactions: current.transactions,
+      thresholdSales: round(current.sales),
+      threshold: j.threshold.sales,
+      thresholdPct,
+      obligation,
+      mustCollect,
+      registered: !!registration,
+      rate: taxableSales > 0 ? Math.round(tax / taxableSales * 100_000) / 1000 : salesTaxRate(code).combinedRate,
+      liability,
+      remitted: paid,
+      balanceDue: round(Math.max(0, liability - paid)),
+      frequency: registration?.frequency ?? assignedFrequency(code, liability),
+      notes,
+    }
+  }).sort((a, b) => b.liability - a.liability || b.grossSales - a.grossSales)
+
+  const warnings: string[] = []
+  for (const s of states) {
+    if (s.mustCollect && !s.registered && s.taxableSales > 0) {
+      const why = s.obligation.includes('economic') ? `sales of $${Math.round(s.thresholdSales).toLocaleString()} meet the remote-seller threshold` : 'physical presence'
+      warnings.push(`Register to collect ${s.stateName} sales tax — ${why}`)
+    } else if (!s.obligation.includes('economic') && s.thresholdPct >= 80) {
+      warnings.push(`${s.stateName} sales are at ${s.thresholdPct}% of the $${s.threshold.toLocaleString()} remote-seller threshold`)
+    }
+    if (s.balanceDue > 0 && s.registered) warnings.push(`${s.stateName}: $${s.balanceDue.toLocaleString()} of ${year} sales tax not yet remitted`)
+  }
+
+  return {
+    entityId: entity.id,
+    entityName: entity.name,
+    taxYear: year,
+    states,
+    totalLiability: round(states.reduce((s, x) => s + x.liability, 0)),
+    totalRemitted: round(states.reduce((s, x) => s + x.remitted, 0)),
+    totalBalanceDue: round(states.reduce((s, x) => s + x.balanceDue, 0)),
+    filings: states.filter(s => s.registered || (s.mustCollect && s.taxableSales > 0))
+      .map(s => ({ stateCode: s.stateCode, frequency: s.frequency })),
+    warnings,
+  }
+}
+
+/** Sales tax for every active business entity */
+export function analyzeAllSalesTax(state: FortunaState): SalesTaxAnalysis[] {
+  return state.entities.filter(e => e.isActive && e.type !== 'personal').map(e => analyzeSalesTax(state, e))
+}
@@ -412,7 +412,7 @@ export function generateSmartScenarios(baseState: FortunaState): { name: string;
     scenarios.push({ name: 'S-Corp Election', description: 'Elect S-Corp status to reduce SE tax.', mods: [{ type: 'change_entity', entityType: 'llc_scorp', entityCost: 2000 }], icon: '🏛️' })
   }
 
-  const maxSEP = calculateMaxSEPIRA(netSE)
+  const maxSEP = calculateMaxSEPIRA(netSE, baseState.taxYear)
   const currentRetirement = baseState.deductions.filter(d => d.category === 'retirement').reduce((s, d) => s + d.amount, 0)
   if (maxSEP - currentRetirement > 5000) {
     scenarios.push({ name: 'Max Retirement', description: `Max SEP-IRA to $${maxSEP.toLocaleString()}.`, mods: [{ type: 'add_deduction', deductionName: 'SEP-IRA Max', deductionCategory: 'retirement', deductionAmount: maxSEP - currentRetirement }], icon: '🏦' })
@@ -8,6 +8,8 @@
 
 import type { FortunaState } from './storage'
 import { generateTaxReport } from './tax-calculator'
+import { hasReciprocity, type MultiStateTaxResult } from './state-tax-engine'
+import { analyzeNexus, nexusRule, type EntityNexusAnalysis } from './nexus-apportionment'
 
 // ===================================================================
 //  STATE TAX DATA (2025 rates, simplified top marginal)
@@ -98,6 +100,7 @@ export interface ArbitrageAnalysis {
   topRecommendations: StateComparison[]
   annualSpending: number
   homeValue: number
+  multiState: MultiStateTaxResult | null // Actual part-year / nonresident filing picture
 }
 
 export function analyzeStateArbitrage(
@@ -144,6 +147,13 @@ export function analyzeStateArbitrage(
   const comparisons = STATE_DATA.map(calculateStateTax)
   const currentState = comparisons.find(c => c.code === state.profile.state) || comparisons[0]
 
+  // Multi-state filers: current burden is what all their state returns actually owe
+  const multiState = report.multiState?.isMultiState ? report.multiState : null
+  if (multiState) {
+    currentState.estimatedIncomeTax = multiState.totalStateTax
+    currentState.totalStateTax = multiState.totalStateTax + currentState.estimatedSalesTax + currentState.estimatedPropertyTax
+  }
+
   // Calculate savings vs current
   comparisons.forEach(c => {
     c.savingsVsCurrent = currentState.totalStateTax - c.totalStateTax
@@ -172,6 +182,7 @@ export function analyzeStateArbitrage(
     topRecommendations,
     annualSpending,
     homeValue,
+    multiState,
   }
 }
 
@@ -182,27 +193,29 @@ export interface EntityNexusInfo {
   entityName: string
   entityType: string
   registeredState: string
-  operatingStates: string[]
+  operatingStates: string[]    // States where the entity has nexus
   nexusWarnings: string[]
   relocationImpact: { state: string; savings: number; registrationCost: number; nexusCleared: boolean }[]
+  apportionment: EntityNexusAnalysis
 }
 
 /** Analyze entity nexus implications for state changes */
 export function analyzeEntityNexus(
   state: FortunaState,
 ): EntityNexusInfo[] {
-  const entities = state.entities.filter(e => e.isActive)
+  const entities = state.entities.filter(e => e.isActive && e.type !== 'personal')
   if (entities.length === 0) return []
+  const report = generateTaxReport(state)
 
   return entities.map(entity => {
     const registeredState = entity.state || state.profile.state
-    const operatingStates: string[] = [registeredState]
+    const analysis = analyzeNexus(state, entity, report)
+    const operatingStates = analysis.nexusStates
 
-    // Check if entity has income from other states (simplified heuristic)
     const entityIncome = state.incomeStreams
       .filter(s => s.entityId === entity.id && s.isActive)
 
-    const nexusWarnings: string[] = []
+    const nexusWarnings: string[] = [...analysis.warnings]
 
     // S-Corp/LLC specific warnings
     if (entity.type === 'llc_scorp' || entity.type === 'scorp') {
@@ -215,38 +228,46 @@ export function analyzeEntityNexus(
       }
     }
 
-    // Franchise tax warnings
-    const franchiseTaxStates = ['CA', 'TX', 'IL', 'NY', 'DE']
-    if (franchiseTaxStates.includes(registeredState)) {
-      nexusWarnings.push(`${registeredState} imposes franchise/entity tax regardless of income`)
+    // The owner working from another state is itself physical presence there
+    if (registeredState !== state.profile.state && !operatingStates.includes(state.profile.state.toUpperCase())) {
+      nexusWarnings.push(`Entity registered in ${registeredState} but owner in ${state.profile.state} — owner's in-state work may create nexus and require foreign qualification`)
     }
 
-    // Multi-state registration
-    if (registeredState !== state.profile.state) {
-      operatingStates.push(state.profile.state)
-      nexusWarnings.push(`Entity registered in ${registeredState} but owner in ${state.profile.state} — may need foreign qualification`)
+    // Entity-level taxes where the entity actually has nexus
+    for (const s of analysis.states) {
+      const rule = nexusRule(s.stateCode)
+      if (s.taxable && rule.taxName) nexusWarnings.push(`${s.stateCode} ${rule.taxName} applies — nexus via ${s.nexusBasis.join(', ')}`)
+    }
+    for (const p of analysis.passThrough) {
+      if (p.recommendation === 'elect_pte' && !p.pteElected) {
+        nexusWarnings.push(`${p.stateCode} pass-through entity tax election would save about $${p.pteNetBenefit.toLocaleString()}`)
+      }
     }
 
+    // Moving registration only clears nexus in the old state if nothing but domicile ties the entity there
+    const home = analysis.states.find(s => s.stateCode === registeredState.toUpperCase())
+    const homeNexusIsDomicileOnly = !home || home.nexusBasis.every(b => b === 'domicile')
+
     // Estimate relocation impact for top 5 no-income-tax states
     const noTaxStates = ['TX', 'FL', 'NV', 'WA', 'WY', 'SD', 'AK', 'TN', 'NH']
     const relocationImpact = noTaxStates
       .filter(s => s !== registeredState)
       .slice(0, 5)
       .map(targetState => {
-        const stateData = STATE_DATA.find(sd => sd.code === targetState)
         const currentData = STATE_DATA.find(sd => sd.code === registeredState)
-        const totalEntityIncome = entityIncome.reduce((s, i) => s + i.annualAmount, 0)
+        // Only income apportioned to the registered state leaves with the move
+        const movableIncome = home?.apportionedIncome ?? 0
 
         const currentRate = currentData?.incomeTaxType === 'none' ? 0
           : currentData?.incomeTaxType === 'flat' ? (currentData?.incomeTaxRate || 0)
           : (currentData?.incomeTaxRate || 0) * 0.75
-        const savings = Math.round(totalEntityIncome * currentRate)
+        const savings = homeNexusIsDomicileOnly ? Math.round(movableIncome * currentRate) : 0
 
         return {
           state: targetState,
           savings,
           registrationCost: targetState === 'WY' ? 100 : targetState === 'NV' ? 425 : targetState === 'TX' ? 300 : 200,
-          nexusCleared: targetState !== state.profile.state,
+          nexusCleared: homeNexusIsDomicileOnly,
         }
       })
 
@@ -258,6 +279,7 @@ export function analyzeEntityNexus(
       operatingStates,
       nexusWarnings,
       relocationImpact,
+      apportionment: analysis,
     }
   })
 }
@@ -269,27 +291,6 @@ export { STATE_DATA_IMPORT as STATE_TAX_DATA }
 // Workers who live in one state and work in another may only need to file
 // in their resident state if a reciprocity agreement exists.
 
-/** Map of work state → list of resident states with reciprocity */
-const RECIPROCITY_AGREEMENTS: Record<string, string[]> = {
-  AZ: ['CA', 'IN', 'OR', 'VA'],
-  DC: ['all'], // All states have reciprocity with DC
-  IL: ['IA', 'KY', 'MI', 'WI'],
-  IN: ['KY', 'MI', 'OH', 'PA', 'WI'],
-  IA: ['IL'],
-  KY: ['IL', 'IN', 'MI', 'OH', 'VA', 'WV', 'WI'],
-  MD: ['DC', 'PA', 'VA', 'WV'],
-  MI: ['IL', 'IN', 'KY', 'MN', 'OH', 'WI'],
-  MN: ['MI', 'ND'],
-  MT: ['ND'],
-  NJ: ['PA'],
-  ND: ['MN', 'MT'],
-  OH: ['IN', 'KY', 'MI', 'PA', 'WV'],
-  PA: ['IN', 'MD', 'NJ', 'OH', 'VA', 'WV'],
-  VA: ['DC', 'KY', 'MD', 'PA', 'WV'],
-  WV: ['KY', 'MD', 'OH', 'PA', 'VA'],
-  WI: ['IL', 'IN', 'KY', 'MI'],
-}
-
 export interface ReciprocityResult {
   workState: string
   residentState: string
@@ -305,10 +306,7 @@ export function checkReciprocity(
   workState: string,
   annualIncome: number,
 ): ReciprocityResult {
-  const reciprocalResidents = RECIPROCITY_AGREEMENTS[workState]
-  const hasReciprocity = reciprocalResidents
-    ? reciprocalResidents.includes('all') || reciprocalResidents.includes(residentState)
-    : false
+  const reciprocity = hasReciprocity(residentState, workState)
 
   if (residentState === workState) {
     return {
@@ -324,7 +322,7 @@ export function checkReciprocity(
   const workRate = workStateData?.incomeTaxType === 'none' ? 0 : (workStateData?.incomeTaxRate || 0)
   const resRate = resStateData?.incomeTaxType === 'none' ? 0 : (resStateData?.incomeTaxRate || 0)
 
-  if (hasReciprocity) {
+  if (reciprocity) {
     return {
       workState, residentState, hasReciprocity: true,
       impact: `Reciprocity agreement: you only pay tax to ${residentState} (${(resRate * 100).toFixed(1)}%), not ${workState} (${(workRate * 100).toFixed(1)}%).`,
@@ -13,8 +13,12 @@
  *   - Notable local surtaxes (NYC, Portland, San Francisco)
  *   - Capital gains treatment variations
  *   - SE health insurance deduction conformity
+ *   - Part-year / nonresident returns with per-stream income sourcing,
+ *     reciprocity, and resident credit for taxes paid to other states
  */
 
+import type { FortunaState, IncomeStream, ResidencyPeriod, StateSourceAllocation } from './storage'
+
 export interface StateTaxResult {
   stateCode: string
   stateName: string
@@ -270,3 +274,321 @@ export function getStateNames(): Record<string, string> {
 export function getNoIncomeTaxStates(): string[] {
   return Object.entries(STATES).filter(([_, c]) => c.type === 'none').map(([code]) => code)
 }
+
+// ─── Reciprocity Agreements ─────────────────────────────────────────────────
+// Wages earned in a work state are taxed only by the resident state when
+// the two states have a reciprocity agreement.
+
+/** Map of work state → list of resident states with reciprocity */
+export const RECIPROCITY_AGREEMENTS: Record<string, string[]> = {
+  AZ: ['CA', 'IN', 'OR', 'VA'],
+  DC: ['all'], // All states have reciprocity with DC
+  IL: ['IA', 'KY', 'MI', 'WI'],
+  IN: ['KY', 'MI', 'OH', 'PA', 'WI'],
+  IA: ['IL'],
+  KY: ['IL', 'IN', 'MI', 'OH', 'VA', 'WV', 'WI'],
+  MD: ['DC', 'PA', 'VA', 'WV'],
+  MI: ['IL', 'IN', 'KY', 'MN', 'OH', 'WI'],
+  MN: ['MI', 'ND'],
+  MT: ['ND'],
+  NJ: ['PA'],
+  ND: ['MN', 'MT'],
+  OH: ['IN', 'KY', 'MI', 'PA', 'WV'],
+  PA: ['IN', 'MD', 'NJ', 'OH', 'VA', 'WV'],
+  VA: ['DC', 'KY', 'MD', 'PA', 'WV'],
+  WV: ['KY', 'MD', 'OH', 'PA', 'VA'],
+  WI: ['IL', 'IN', 'KY', 'MI'],
+}
+
+export function hasReciprocity(residentState: string, workState: string): boolean {
+  if (residentState === workState) return true
+  const reciprocalResidents = RECIPROCITY_AGREEMENTS[workState]
+  return reciprocalResidents
+    ? reciprocalResidents.includes('all') || reciprocalResidents.includes(residentState)
+    : false
+}
+
+// ─── Multi-State Residency & Apportionment ──────────────────────────────────
+
+export type StateFilingStatus = 'single' | 'mfj' | 'mfs' | 'hoh'
+export type StateReturnType = 'resident' | 'part_year' | 'nonresident'
+export type SourcedIncomeKind = 'wages' | 'business' | 'investment' | 'rental' | 'other'
+
+export interface MultiStateIncomeItem {
+  id: string
+  name: string
+  kind: SourcedIncomeKind
+  amount: number
+  monthlyBreakdown?: number[]          // Timing of receipt; otherwise earned evenly
+  sourceStates?: StateSourceAllocation[] // Empty = sourced to state of residence
+}
+
+export interface MultiStateInput {
+  taxYear: number
+  filingStatus: StateFilingStatus
+  domicile: string                     // State for days not covered by `residency`
+  residency: ResidencyPeriod[]
+  income: MultiStateIncomeItem[]
+  taxBase?: number                     // Income the state brackets apply to (defaults to sum of items)
+  itemizedDeductions?: number
+}
+
+export interface StateReturnResult {
+  stateCode: string
+  stateName: string
+  returnType: StateReturnType
+  residentDays: number
+  residentIncome: number               // Everything received while resident
+  nonresidentIncome: number            // State-source income received while nonresident
+  stateSourceIncome: number
+  apportionmentPct: number             // stateSourceIncome / total income
+  fullYearTax: number                  // Tax as if the whole base were taxed here
+  taxBeforeCredits: number
+  creditForOtherStates: number
+  netTax: number
+  marginalRate: number
+  notes: string[]
+}
+
+export interface MultiStateTaxResult {
+  taxYear: number
+  isMultiState: boolean
+  totalIncome: number
+  returns: StateReturnResult[]
+  totalTaxBeforeCredits: number
+  totalCredits: number
+  totalStateTax: number
+  effectiveRate: number
+  notes: string[]
+}
+
+const DAY_MS = 86_400_000
+
+function toDay(iso: string): number {
+  return Math.floor(Date.parse(iso.slice(0, 10) + 'T00:00:00Z') / DAY_MS)
+}
+
+/** Resident state share of each month, e.g. [{ CA: 1 }, ..., { CA: 0.5, TX: 0.5 }, ...] */
+function monthlyResidency(input: MultiStateInput): { byMonth: Record<string, number>[]; days: Record<string, number> } {
+  const yearStart = toDay(`${input.taxYear}-01-01`)
+  const yearEnd = toDay(`${input.taxYear}-12-31`)
+  const dayState: string[] = []
+  for (let d = yearStart; d <= yearEnd; d++) dayState.push(input.domicile.toUpperCase())
+
+  // Later periods win where entries overlap
+  for (const period of input.residency) {
+    if (!period.stateCode || !period.startDate || !period.endDate) continue
+    const start = Math.max(yearStart, toDay(period.startDate))
+    const end = Math.min(yearEnd, toDay(period.endDate))
+    for (let d = start; d <= end; d++) dayState[d - yearStart] = period.stateCode.toUpperCase()
+  }
+
+  const byMonth: Record<string, number>[] = []
+  const days: Record<string, number> = {}
+  for (let m = 0; m < 12; m++) {
+    const first = toDay(`${input.taxYear}-${String(m + 1).padStart(2, '0')}-01`) - yearStart
+    const last = m === 11 ? dayState.length : toDay(`${input.taxYear}-${String(m + 2).padStart(2, '0')}-01`) - yearStart
+    const counts: Record<string, number> = {}
+    for (let i = first; i < last; i++) {
+      counts[dayState[i]] = (counts[dayState[i]] || 0) + 1
+      days[dayState[i]] = (days[dayState[i]] || 0) + 1
+    }
+    const monthDays = last - first
+    byMonth.push(Object.fromEntries(Object.entries(counts).map(([code, n]) => [code, n / monthDays])))
+  }
+  return { byMonth, days }
+}
+
+/** Split an item into per-month amounts */
+function monthlyAmounts(item: MultiStateIncomeItem, taxYear: number): number[] {
+  const breakdown = item.monthlyBreakdown
+  if (breakdown && breakdown.length === 12) {
+    const sum = breakdown.reduce((s, v) => s + (v || 0), 0)
+    if (sum > 0) return breakdown.map(v => item.amount * (v || 0) / sum)
+  }
+  const leap = new Date(Date.UTC(taxYear, 1, 29)).getUTCMonth() === 1
+  const monthDays = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+  const yearDays = leap ? 366 : 365
+  return monthDays.map(d => item.amount * d / yearDays)
+}
+
+/**
+ * Multi-state calculation using the income-percentage method: each state
+ * computes tax on the full base, then keeps the share of income it may tax
+ * (everything while resident, state-source income while nonresident). The
+ * resident state then credits tax paid to the source state on income both taxed.
+ */
+export function calculateMultiStateTax(input: MultiStateInput): MultiStateTaxResult {
+  const { byMonth, days } = monthlyResidency(input)
+  const residentIncome: Record<string, number> = {}
+  const nonresidentIncome: Record<string, number> = {}
+  // doubleTaxed[resident][source] = income taxed by both states
+  const doubleTaxed: Record<string, Record<string, number>> = {}
+  const notes: string[] = []
+  let totalIncome = 0
+
+  for (const item of input.income) {
+    if (item.amount === 0) continue
+    totalIncome += item.amount
+    const perMonth = monthlyAmounts(item, input.taxYear)
+    // Any unallocated remainder of a stream stays with the resident state only
+    const allocations = (item.sourceStates || []).filter(a => a.stateCode && a.pct > 0)
+
+    perMonth.forEach((monthAmount, m) => {
+      for (const [resident, share] of Object.entries(byMonth[m])) {
+        const amount = monthAmount * share
+        residentIncome[resident] = (residentIncome[resident] || 0) + amount
+
+        // Investment income is always sourced to the state of residence
+        if (item.kind === 'investment') continue
+
+        for (const alloc of allocations) {
+          const source = alloc.stateCode.toUpperCase()
+          if (source === resident) continue
+          if (item.kind === 'wages' && hasReciprocity(resident, source)) continue
+          const sourced = amount * alloc.pct / 100
+          nonresidentIncome[source] = (nonresidentIncome[source] || 0) + sourced
+          doubleTaxed[resident] = doubleTaxed[resident] || {}
+          doubleTaxed[resident][source] = (doubleTaxed[resident][source] || 0) + sourced
+        }
+      }
+    })
+  }
+
+  const taxBase = input.taxBase ?? totalIncome
+  const yearDays = Object.values(days).reduce((s, d) => s + d, 0)
+  const codes = [...new Set([...Object.keys(residentIncome), ...Object.keys(nonresidentIncome), ...Object.keys(days)])]
+  const returns: StateReturnResult[] = []
+
+  for (const code of codes) {
+    const full = calculateFullStateTax(taxBase, code, input.filingStatus, { itemizedDeductions: input.itemizedDeductions })
+    const resIncome = residentIncome[code] || 0
+    const nonresIncome = nonresidentIncome[code] || 0
+    const sourceIncome = resIncome + nonresIncome
+    const residentDays = days[code] || 0
+    const returnType: StateReturnType = residentDays === 0 ? 'nonresident'
+      : residentDays >= yearDays ? 'resident' : 'part_year'
+    const ratio = totalIncome > 0 ? Math.min(1, sourceIncome / totalIncome) : (returnType === 'resident' ? 1 : 0)
+    if (returnType === 'nonresident' && sourceIncome <= 0) continue
+
+    const stateNotes = [...full.notes]
+    if (full.stateTax > 0 && returnType !== 'resident') {
+      stateNotes.push(`${returnType === 'part_year' ? 'Part-year resident' : 'Nonresident'} return: ${(ratio * 100).toFixed(1)}% of income apportioned to ${full.stateName}`)
+    }
+
+    returns.push({
+      stateCode: code,
+      stateName: full.stateName,
+      returnType,
+      residentDays,
+      residentIncome: Math.round(resIncome),
+      nonresidentIncome: Math.round(nonresIncome),
+      stateSourceIncome: Math.round(sourceIncome),
+      apportionmentPct: Math.round(ratio * 10000) / 100,
+      fullYearTax: full.stateTax,
+      taxBeforeCredits: Math.round(full.stateTax * ratio),
+      creditForOtherStates: 0,
+      netTax: Math.round(full.stateTax * ratio),
+      marginalRate: full.marginalRate,
+      notes: stateNotes,
+    })
+  }
+
+  // Resident credit for taxes paid to other states — limited to the lesser of
+  // the other state's tax on that income and the resident state's own tax on it
+  const byCode = new Map(returns.map(r => [r.stateCode, r]))
+  for (const [resident, sources] of Object.entries(doubleTaxed)) {
+    const res = byCode.get(resident)
+    if (!res || res.taxBeforeCredits <= 0) continue
+    let credit = 0
+    for (const [source, amount] of Object.entries(sources)) {
+      const src = byCode.get(source)
+      if (!src || src.taxBeforeCredits <= 0 || src.stateSourceIncome <= 0) continue
+      const paidToSource = src.taxBeforeCredits * (amount / src.stateSourceIncome)
+      const residentTaxOnIncome = res.taxBeforeCredits * (amount / res.stateSourceIncome)
+      credit += Math.min(paidToSource, residentTaxOnIncome)
+    }
+    res.creditForOtherStates = Math.min(res.taxBeforeCredits, Math.round(credit))
+    res.netTax = res.taxBeforeCredits - res.creditForOtherStates
+    if (res.creditForOtherStates > 0) {
+      res.notes.push(`Credit for taxes paid to other states: $${res.creditForOtherStates.toLocaleString()}`)
+    }
+  }
+
+  const totalTaxBeforeCredits = returns.reduce((s, r) => s + r.taxBeforeCredits, 0)
+  const totalCredits = returns.reduce((s, r) => s + r.creditForOtherStates, 0)
+  const totalStateTax = returns.reduce((s, r) => s + r.netTax, 0)
+  const isMultiState = returns.length > 1
+
+  if (isMultiState) {
+    notes.push(`${returns.length} state returns required: ${returns.map(r => `${r.stateCode} (${r.returnType.replace('_', '-')})`).join(', ')}`)
+    notes.push('Local taxes (NYC, county surtaxes) are not apportioned in multi-state mode')
+  }
+
+  return {
+    taxYear: input.taxYear,
+    isMultiState,
+    totalIncome: Math.round(totalIncome),
+    returns: returns.sort((a, b) => b.netTax - a.netTax),
+    totalTaxBeforeCredits,
+    totalCredits,
+    totalStateTax,
+    effectiveRate: taxBase > 0 ? Math.round((totalStateTax / taxBase) * 10000) / 10000 : 0,
+    notes,
+  }
+}
+
+// ─── FortunaState Adapter ───────────────────────────────────────────────────
+
+export function toStateFilingStatus(filingStatus: string): StateFilingStatus {
+  switch (filingStatus) {
+    case 'married_joint': return 'mfj'
+    case 'married_separate': return 'mfs'
+    case 'head_of_household': return 'hoh'
+    default: return 'single'
+  }
+}
+
+function incomeKind(type: IncomeStream['type']): SourcedIncomeKind {
+  switch (type) {
+    case 'w2': return 'wages'
+    case 'business':
+    case 'freelance': return 'business'
+    case 'investment':
+    case 'passive': return 'investment'
+    case 'rental': return 'rental'
+    default: return 'other'
+  }
+}
+
+/** True when the profile has a mid-year move or income sourced outside the home state */
+export function hasMultiStateActivity(state: FortunaState): boolean {
+  const home = (state.profile.state || '').toUpperCase()
+  if ((state.profile.residency || []).some(p => p.stateCode && p.stateCode.toUpperCase() !== home)) return true
+  return state.incomeStreams.some(s => s.isActive &&
+    (s.sourceStates || []).some(a => a.pct > 0 && a.stateCode && a.stateCode.toUpperCase() !== home))
+}
+
+export function buildMultiStateInput(state: FortunaState, taxBase?: number): MultiStateInput {
+  return {
+    taxYear: state.taxYear || new Date().getFullYear(),
+    filingStatus: toStateFilingStatus(state.profile.filingStatus),
+    domicile: state.profile.state,
+    residency: state.profile.residency || [],
+    income: state.incomeStreams
+      .filter(s => s.isActive && s.isTaxable !== false)
+      .map(s => ({
+        id: s.id,
+        name: s.name,
+        kind: incomeKind(s.type),
+        amount: s.annualAmount,
+        monthlyBreakdown: s.monthlyBreakdown,
+        sourceStates: s.sourceStates,
+      })),
+    taxBase,
+  }
+}
+
+export function calculateStateTaxForProfile(state: FortunaState, taxBase?: number): MultiStateTaxResult {
+  return calculateMultiStateTax(buildMultiStateInput(state, taxBase))
+}
@@ -5,12 +5,23 @@
  * Schema versioning with automatic forward-migrations
  * UX preference persistence (sidebar, last view, theme)
  * Data export/import for backup & cross-device transfer
+ * Opt-in vault mode: financial records sealed with a passphrase-derived key
  */
 
+import {
+  type VaultMeta, type PassphraseEnvelope, VaultError,
+  isVaultEnvelope, isPassphraseEnvelope, encryptJSON, decryptJSON,
+  encryptWithPassphrase, decryptWithPassphrase, createVaultMeta, openVault,
+  getSessionKey, setSessionKey, lockSession, isVaultSupported, DEFAULT_AUTO_LOCK_MINUTES,
+} from './vault'
+import type { AutomationRule, AutomationRun } from './automation-engine'
+import type { FortunaTaxCategory } from './qb-coa-mapper'
+import type { BankAccount, BankTransaction as BankFeedTransaction } from './bank-feed'
+
 // ===================================================================
 //  SCHEMA VERSION — increment on ANY data shape change
 // ===================================================================
-const SCHEMA_VERSION = 16
+const SCHEMA_VERSION = 25
 
 // ===================================================================
 //  STORAGE KEYS
@@ -20,9 +31,17 @@ const KEYS = {
   UX_PREFS: 'fortuna:ux-prefs',
   ADVISOR_HISTORY: 'fortuna:advisor-history',
   FINANCIAL_HISTORY: 'fortuna:financial-history',
+  BANK_ACCOUNTS: 'fortuna:bank-accounts',
+  BANK_TRANSACTIONS: 'fortuna:bank-transactions',
   SCHEMA_VERSION: 'fortuna:schema-version',
+  VAULT: 'fortuna:vault',
 } as const
 
+/** Keys whose contents are encrypted when the vault is enabled */
+const SEALED_KEYS: ReadonlySet<string> = new Set([
+  KEYS.FULL_STATE, KEYS.ADVISOR_HISTORY, KEYS.FINANCIAL_HISTORY, KEYS.BANK_ACCOUNTS, KEYS.BANK_TRANSACTIONS,
+])
+
 // ===================================================================
 //  BACKEND ABSTRACTION
 // ===================================================================
@@ -123,6 +142,54 @@ async function safeSet<T>(key: string, value: T): Promise<boolean> {
   }
 }
 
+// ===================================================================
+//  VAULT-AWARE READ / WRITE
+// ===================================================================
+
+// undefined = not yet loaded; null = vault disabled
+let vaultMetaCache: VaultMeta | null | undefined
+
+async function getVaultMeta(): Promise<VaultMeta | null> {
+  if (vaultMetaCache === undefined) {
+    const meta = await safeGet<VaultMeta | null>(KEYS.VAULT, null)
+    vaultMetaCache = meta?.enabled ? meta : null
+  }
+  return vaultMetaCache
+}
+
+/**
+ * Like safeGet, but opens vault envelopes with the session key. Vault errors
+ * propagate — returning the fallback for a locked vault would let defaults
+ * overwrite real data on the next save.
+ */
+async function sealedGet<T>(key: string, fallback: T): Promise<T> {
+  let parsed: unknown
+  try {
+    const raw = await rawGet(key)
+    if (!raw) return fallback
+    parsed = JSON.parse(raw)
+  } catch {
+    return fallback
+  }
+  if (!isVaultEnvelope(parsed)) return parsed as T // plaintext (pre-vault) — resealed on next save
+  const sessionKey = getSessionKey()
+  if (!sessionKey) throw new VaultError('Vault is locked', 'LOCKED')
+  return decryptJSON<T>(parsed, sessionKey)
+}
+
+/** Like safeSet, but never writes plaintext while the vault is enabled */
+async function sealedSet<T>(key: string, value: T): Promise<boolean> {
+  const meta = await getVaultMeta()
+  if (!meta || !SEALED_KEYS.has(key)) return safeSet(key, value)
+  const sessionKey = getSessionKey()
+  if (!sessionKey) return false
+  try {
+    return await rawSet(key, JSON.stringify(await encryptJSON(value, sessionKey)))
+  } catch {
+    return false
+  }
+}
+
 // ===================================================================
 //  SCHEMA MIGRATIONS
 // ===================================================================
@@ -244,7 +311,45 @@ const migrations: Record<number, (state: any) => any> = {
     intakeBatches: (state.intakeBatches || []).map((b: any) => ({
       ...b,
       documentIds: b.documentIds ?? []
-    }))
+    })),
+    automations: state.automations ?? [],
+    automationLog: state.automationLog ?? [],
+  }),
+  17: (state: any) => ({
+    ...state,
+    categoryCorrections: state.categoryCorrections ?? [],
+  }),
+  18: (state: any) => ({
+    ...state,
+    imports: state.imports ?? [],
+  }),
+  19: (state: any) => ({
+    ...state,
+    reconciliations: state.reconciliations ?? [],
+  }),
+  20: (state: any) => ({
+    ...state,
+    ledgerAccounts: state.ledgerAccounts ?? [],
+    journalEntries: state.journalEntries ?? [],
+    periodCloses: state.periodCloses ?? [],
+  }),
+  21: (state: any) => ({
+    ...state,
+    customers: state.customers ?? [],
+    invoices: state.invoices ?? [],
+  }),
+  22: (state: any) => ({
+    ...state,
+    vendors: state.vendors ?? [],
+  }),
+  23: (state: any) => ({
+    ...state,
+    employees: state.employees ?? [],
+    payrollRuns: state.payrollRuns ?? [],
+  }),
+  24: (state: any) => ({
+    ...state,
+    fxRates: state.fxRates ?? [],
   }),
 }
 
@@ -362,6 +467,65 @@ export interface FinancialProfile {
   dependents: number
   hasHealthInsurance: boolean
   age: number
+  residency?: ResidencyPeriod[] // Part-year moves; days not covered default to `state`
+  foreignResidence?: ForeignResidence // Abroad for the year — Form 2555 exclusion
+}
+
+/** Tax home abroad for the foreign earned income exclusion (Form 2555) */
+export interface ForeignResidence {
+  country: string             // ISO 3166 alpha-2
+  test: 'bona_fide_residence' | 'physical_presence'
+  qualifyingDays: number      // Days of the tax year inside the qualifying period
+  housingExpenses?: number    // Qualified foreign housing expenses for the year, USD
+}
+
+/** A span of the tax year spent as a resident (domiciled) in one state */
+export interface ResidencyPeriod {
+  id: string
+  stateCode: string
+  startDate: string // ISO date, inclusive
+  endDate: string   // ISO date, inclusive
+}
+
+/** Share of an income stream sourced to a state (where the work was performed / property sits) */
+export interface StateSourceAllocation {
+  stateCode: string
+  pct: number // 0-100
+}
+
+// ─── Currency ───────────────────────────────────────────────────────
+
+/**
+ * Spot = rate on the transaction date; yearly_average = the IRS published
+ * average for the tax year (income and expenses accrued over the year)
+ */
+export type FxRateBasis = 'spot' | 'yearly_average'
+
+/**
+ * Original-currency figure behind a USD amount. Records keep every amount
+ * in USD; `fx` lets them be re-translated when a better rate arrives.
+ */
+export interface FxCapture {
+  amount: number              // In the record's `currency`
+  rate: number                // Units of that currency per 1 USD
+  date: string                // ISO date the rate applies to
+  basis: FxRateBasis
+}
+
+/** A stored exchange rate (user-entered or captured from a rate feed) */
+export interface FxRate {
+  currency: string            // ISO 4217
+  date: string                // Spot: rate date. Yearly average: any date in the year
+  unitsPerUsd: number
+  basis: FxRateBasis
+  source?: string
+}
+
+/** Foreign-source income and the foreign tax paid on it (Form 1116) */
+export interface ForeignSource {
+  country: string             // ISO 3166 alpha-2
+  category: 'general' | 'passive'
+  taxPaid: number             // In the stream's currency (USD when none)
 }
 
 // ─── Core Financial Records ─────────────────────────────────────────
@@ -376,6 +540,11 @@ export interface IncomeStream extends Attribution {
   notes?: string
   isPrimary?: boolean // v9 addition
   isTaxable?: boolean // v9 addition
+  sourceStates?: StateSourceAllocation[] // Work/property states; empty = sourced to state of residence
+  marketplace?: boolean       // Sold through a marketplace facilitator (Amazon, Etsy) that collects sales tax
+  currency?: string           // ISO 4217 of the original amount; absent = USD
+  fx?: FxCapture              // annualAmount is the USD translation of fx.amount
+  foreignSource?: ForeignSource
   // W-2 specific fields
   w2?: {
     employerName?: string
@@ -403,6 +572,16 @@ export interface BusinessExpense extends Attribution {
   annualAmount: number
   isDeductible: boolean
   deductionPct: number
+  vendorId?: string            // Payee, for 1099 totals
+  currency?: string            // ISO 4217 of the original amount; absent = USD
+  fx?: FxCapture               // annualAmount is the USD translation of fx.amount
+}
+
+export interface PostalAddress {
+  street: string
+  city: string
+  state: string
+  zip: string
 }
 
 export interface LegalEntity {
@@ -424,8 +603,36 @@ export interface LegalEntity {
   notes?: string
   // QBI fields
   isSSTB?: boolean             // Specified Service Trade or Business (law, health, consulting, etc.)
-  w2WagesPaid?: number         // Total W-2 wages paid by this entity (for QBI limitation)
+  w2WagesPaid?: number         // Total W-2 wages paid by this entity (for QBI limitation); payroll runs take precedence
   qualifiedPropertyUBIA?: number // Unadjusted basis of qualified property
+  address?: PostalAddress      // Payer address on information returns
+  phone?: string
+  payroll?: PayrollSettings
+  // Multi-state (nexus-apportionment)
+  tangibleGoodsOnly?: boolean  // Sells only tangible goods — P.L. 86-272 may shield net income tax
+  pteElectionStates?: string[] // States where the entity elected pass-through entity tax
+  salesTaxRegistrations?: SalesTaxRegistration[]
+}
+
+export type SalesTaxFrequency = 'monthly' | 'quarterly' | 'annual'
+
+/** Seller's permit in a state; frequency is what the state assigned, else estimated from liability */
+export interface SalesTaxRegistration {
+  stateCode: string
+  permitNumber?: string
+  frequency?: SalesTaxFrequency
+  registeredAt?: string        // YYYY-MM-DD
+}
+
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly'
+
+/** How an entity runs payroll */
+export interface PayrollSettings {
+  frequency: PayFrequency
+  firstPayDate: string         // Anchors weekly and biweekly schedules
+  sutaRate: number             // State unemployment rate, as a fraction
+  sutaWageBase: number
+  depositSchedule: 'monthly' | 'semiweekly'
 }
 
 export interface DeductionRecord extends Attribution {
@@ -470,6 +677,42 @@ export interface RealEstateProperty extends Attribution {
   annualInsurance: number
   monthlyRentalIncome?: number
   is1031Eligible?: boolean
+  // Schedule E (rental / commercial)
+  landValue?: number                 // Non-depreciable; estimated when missing
+  placedInServiceDate?: string       // Defaults to purchaseDate
+  capitalImprovements?: number       // Added to depreciable basis
+  annualMortgageInterest?: number
+  rentalExpenses?: RentalExpenses
+  activeParticipation?: boolean      // Required for the $25k special allowance (default true)
+  deferred1031Gain?: number          // Carryover basis reduction from a completed exchange
+  exchange1031?: Exchange1031        // Set on the relinquished property
+}
+
+export interface RentalExpenses {
+  repairs?: number
+  management?: number
+  utilities?: number
+  hoa?: number
+  advertising?: number
+  travel?: number
+  supplies?: number
+  legalProfessional?: number
+  other?: number
+}
+
+export interface Exchange1031 {
+  saleDate: string
+  salePrice: number
+  sellingCosts?: number
+  identifiedProperties: string[]     // Addresses or property ids identified within 45 days
+  identifiedDate?: string
+  replacementPropertyId?: string
+  replacementCloseDate?: string
+  replacementPrice?: number
+  cashBoot?: number                  // Cash taken out of the exchange
+  mortgageRelief?: number            // Debt relieved minus new debt assumed (if positive)
+  extensionFiled?: boolean           // Return extension keeps the full 180 days past April 15
+  status: 'pending' | 'identified' | 'completed' | 'failed'
 }
 
 export interface TrustEntity extends Attribution {
@@ -531,6 +774,27 @@ export interface EquityCompensation extends Attribution {
   currentFairMarketValue: number
   has83bElection?: boolean
   expirationDate?: string
+  // Grant-level event engine
+  vestingStartDate?: string          // Defaults to grantDate
+  vestingMonths?: number             // 'custom' schedule length (default 48)
+  cliffMonths?: number               // 'custom' cliff (default 12)
+  vestingFrequencyMonths?: number    // 'custom' vest interval after the cliff (default 1)
+  election83bFiledDate?: string
+  esppOfferingFMV?: number           // FMV on the offering date (lookback base)
+  esppDiscount?: number              // Default 0.15
+  esppLookback?: boolean             // Default true
+  events?: EquityEvent[]
+}
+
+export interface EquityEvent {
+  id: string
+  type: 'vest' | 'exercise' | 'sale' | 'espp_purchase'
+  date: string
+  shares: number
+  pricePerShare: number              // FMV at vest/exercise/purchase, or the sale price
+  purchasePrice?: number             // ESPP: per-share price actually paid
+  lotId?: string                     // Sale: the exercise/purchase/vest event the shares came from
+  earlyExercise?: boolean            // Exercised before vesting — starts an 83(b) window
 }
 
 export interface ReceiptItem {
@@ -604,6 +868,8 @@ export interface InvestmentPosition extends Attribution {
   acquisitionDate: string
   isLongTerm?: boolean         // Computed from acquisitionDate, but cacheable
   accountType?: 'taxable' | 'traditional_ira' | 'roth_ira' | '401k' | 'hsa' | 'other'
+  currency?: string            // ISO 4217 the lot was bought in; absent = USD
+  fx?: FxCapture               // costBasis is the USD translation of fx.amount at acquisition
 }
 
 export interface RetirementAccount extends Attribution {
@@ -650,6 +916,244 @@ export interface BankTransaction extends Attribution {
   linkedExpenseId?: string     // Link to BusinessExpense if categorized
   linkedIncomeId?: string      // Link to IncomeStream if categorized
   accountName?: string
+  merchantName?: string
+  reviewed?: boolean           // User confirmed or corrected the category
+  fitId?: string               // Institution transaction ID (OFX FITID, bank feed ID)
+  vendorId?: string            // Payee in the vendor registry (accounts payable / 1099s)
+  currency?: string            // ISO 4217 of the original amount; absent = USD
+  fx?: FxCapture               // amount is the USD translation of fx.amount
+}
+
+export interface CategoryCorrection {
+  id: string
+  transactionId?: string
+  description: string
+  merchantName?: string
+  amount: number               // Positive = income, negative = expense
+  category: string
+  previousCategory?: string
+  entityId?: string
+  correctedAt: string
+}
+
+export type ImportSource = 'csv' | 'ofx' | 'qif' | 'iif' | 'bank_feed'
+
+/** One committed import; transactions it added carry its id as sourceId */
+export interface ImportRecord {
+  id: string
+  source: ImportSource
+  label: string                // File name or connection name
+  accountName?: string
+  importedAt: string
+  transactionIds: string[]     // Rows added by this import
+  merges: { transactionId: string; fields: string[] }[]   // Fields a merge filled in
+  created?: { incomeStreams: string[]; expenses: string[]; entities: string[] }   // Records added beside the rows
+  skipped: number
+  rolledBackAt?: string
+}
+
+/** Bank statement reconciliation for one account and statement period */
+export interface Reconciliation {
+  id: string
+  accountName: string          // Matches BankTransaction.accountName
+  periodStart: string
+  periodEnd: string            // Statement closing date
+  beginningBalance: number
+  endingBalance: number        // Statement ending balance
+  clearedIds: string[]         // auditHistory ids ticked as cleared
+  status: 'in_progress' | 'reconciled'
+  source: 'manual' | 'ofx'
+  createdAt: string
+  reconciledAt?: string
+}
+
+// ─── General Ledger ─────────────────────────────────────────────────
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense'
+
+/** Where an account's balance lands on the four financial statements */
+export type StatementLine =
+  | 'cash' | 'receivables' | 'inventory' | 'prepaid' | 'fixed_assets' | 'accumulated_depreciation'
+  | 'payables' | 'accrued' | 'short_term_debt' | 'long_term_debt'
+  | 'contributions' | 'draws' | 'retained_earnings'
+  | 'primary_revenue' | 'other_revenue' | 'non_operating_income'
+  | 'cogs' | 'labor' | 'facilities' | 'marketing' | 'professional' | 'technology' | 'insurance'
+  | 'depreciation' | 'other_opex' | 'interest' | 'income_tax'
+
+/** Chart-of-accounts entry. User-defined accounts carry an entityId. */
+export interface LedgerAccount {
+  id: string
+  code: string
+  name: string
+  type: LedgerAccountType
+  line: StatementLine
+  taxCategory: FortunaTaxCategory
+  scheduleRef?: string
+  entityId?: string            // Custom account scope; seeded accounts apply to every entity
+  categories?: string[]        // Transaction categories routed to this account
+}
+
+export interface JournalLine {
+  accountId: string
+  debit: number
+  credit: number
+  memo?: string
+}
+
+/** Balanced journal entry. Only manual, payroll and closing entries are stored; the rest are derived. */
+export interface JournalEntry {
+  id: string
+  entityId: string
+  date: string
+  memo: string
+  source: 'transaction' | 'receipt' | 'depreciation' | 'opening' | 'invoice' | 'payroll' | 'manual' | 'closing'
+  sourceId?: string
+  lines: JournalLine[]
+  createdAt?: string
+}
+
+/** Closed accounting period — entries dated on or before periodEnd are locked */
+export interface PeriodClose {
+  id: string
+  entityId: string
+  periodStart: string
+  periodEnd: string
+  netIncome: number
+  closingEntryId?: string
+  closedAt: string
+}
+
+// ─── Accounts Receivable ────────────────────────────────────────────
+
+/** Someone who pays an entity. Platforms (Stripe, PayPal, Upwork) report on 1099-K. */
+export interface Customer {
+  id: string
+  entityId: string
+  name: string
+  email?: string
+  payerType: 'client' | 'platform'
+  expected1099?: '1099-NEC' | '1099-K' | 'none'  // Override; otherwise inferred from payerType and totals
+  state?: string               // Where the customer receives the benefit — sources receipts for nexus
+  marketplace?: boolean        // Marketplace facilitator that collects and remits sales tax on these sales
+  createdAt: string
+}
+
+export interface InvoiceLine {
+  id: string
+  description: string
+  quantity: number
+  rate: number
+  taxable?: boolean            // Subject to sales tax; absent = the entity's tangibleGoodsOnly
+}
+
+/** Money received against an invoice, optionally matched to a bank deposit */
+export interface InvoicePayment {
+  id: string
+  date: string
+  amount: number
+  method: 'deposit' | 'check' | 'card' | 'cash' | 'other'
+  transactionId?: string       // auditHistory deposit this payment cleared through
+}
+
+/** Customer invoice. Open/paid/overdue status is derived from payments and dueDate. */
+export interface Invoice {
+  id: string
+  entityId: string
+  customerId: string
+  number: string
+  issueDate: string
+  dueDate: string
+  lines: InvoiceLine[]
+  payments: InvoicePayment[]
+  status: 'draft' | 'sent' | 'void'
+  incomeStreamId?: string      // Stream this invoice bills under (P&L and forecast)
+  memo?: string
+  shipTo?: { state: string; zip?: string }  // Sales-tax destination; absent = the customer's state
+  createdAt: string
+  sentAt?: string
+  voidedAt?: string
+}
+
+// ─── Accounts Payable ───────────────────────────────────────────────
+
+/** 1099 box a vendor payment reports in: NEC box 1, or MISC boxes 1, 2, 3, 6, 10 */
+export type Form1099Box = 'nec1' | 'misc1' | 'misc2' | 'misc3' | 'misc6' | 'misc10'
+
+/** Federal tax classification from line 3 of the vendor's W-9 */
+export type W9Classification =
+  | 'individual' | 'partnership' | 'c_corp' | 's_corp' | 'llc_c' | 'llc_s' | 'llc_p' | 'trust' | 'exempt' | 'other'
+
+/** Someone on an entity's payroll, including S-corp officers */
+export interface Employee {
+  id: string
+  entityId: string
+  name: string
+  ssn?: string                 // Nine digits, no dashes
+  address?: PostalAddress
+  isOfficer: boolean
+  annualSalary: number
+  filingStatus: FilingStatus   // From the W-4
+  extraWithholding?: number    // W-4 step 4(c), per pay period
+  workState: string
+  pretax401k?: number          // Annual elective deferral
+  pretaxHealth?: number        // Annual section 125 premiums
+  sutaExempt?: boolean         // Some states exempt corporate officers
+  hireDate: string
+  terminationDate?: string
+  createdAt: string
+}
+
+/** One employee's pay in a payroll run; all amounts for the period */
+export interface Paycheck {
+  employeeId: string
+  gross: number
+  pretax401k: number
+  pretaxHealth: number
+  federalWithholding: number
+  stateWithholding: number
+  socialSecurity: number
+  medicare: number             // Includes additional Medicare
+  additionalMedicare: number
+  net: number
+  employerSocialSecurity: number
+  employerMedicare: number
+  futa: number
+  suta: number
+  socialSecurityWages: number
+  medicareWages: number
+  futaWages: number
+  sutaWages: number
+  w2Wages: number              // §199A W-2 wages: box 1 plus elective deferrals
+}
+
+export interface PayrollRun {
+  id: string
+  entityId: string
+  payDate: string
+  periodStart: string
+  periodEnd: string
+  checks: Paycheck[]
+  createdAt: string
+}
+
+/** Someone an entity pays — contractors, landlords, attorneys */
+export interface Vendor {
+  id: string
+  entityId: string             // Paying entity
+  name: string                 // Name as shown on the W-9 (line 1)
+  businessName?: string        // Line 2 / DBA
+  aliases?: string[]           // How the vendor shows up in bank descriptions
+  tin?: string                 // Nine digits, no dashes
+  tinType?: 'ein' | 'ssn'
+  classification?: W9Classification
+  w9Status: 'not_requested' | 'requested' | 'received'
+  w9ReceivedDate?: string
+  address?: PostalAddress
+  email?: string
+  defaultBox?: Form1099Box     // Otherwise inferred from the payment category
+  isAttorney?: boolean         // Corporations are exempt from 1099s except attorneys and medical providers
+  federalWithholding?: number  // Backup withholding for the year, if any
+  createdAt: string
 }
 
 export interface Carryforwards {
@@ -659,6 +1163,7 @@ export interface Carryforwards {
   foreignTaxCredit?: number
   generalBusinessCredit?: number
   passiveActivityLoss?: number
+  amtCredit?: number           // Minimum tax credit from deferral items (ISO exercises)
   [key: string]: number | undefined  // Forward-compatible
 }
 
@@ -712,6 +1217,38 @@ export interface FortunaState {
   receipts: ReceiptRecord[]
   intakeBatches: IntakeBatch[]
 
+  // v17: rule-based automations
+  automations: AutomationRule[]
+  automationLog: AutomationRun[]
+
+  // v18: user category corrections (categorizer training data)
+  categoryCorrections: CategoryCorrection[]
+
+  // v19: staged import history (rollback)
+  imports: ImportRecord[]
+
+  // v20: bank statement reconciliations (locks cleared rows)
+  reconciliations: Reconciliation[]
+
+  // v21: general ledger (custom accounts, stored entries, period closes)
+  ledgerAccounts: LedgerAccount[]
+  journalEntries: JournalEntry[]
+  periodCloses: PeriodClose[]
+
+  // v22: accounts receivable
+  customers: Customer[]
+  invoices: Invoice[]
+
+  // v23: accounts payable (vendor registry)
+  vendors: Vendor[]
+
+  // v24: payroll
+  employees: Employee[]
+  payrollRuns: PayrollRun[]
+
+  // v25: exchange rates for foreign-currency records
+  fxRates: FxRate[]
+
   // Cross-view persistence
   portfolioOpportunities: any[]  // OpportunityAnalysis from PortfolioIntelligence
   portfolioTaxEvents: any[]      // TaxEvent from PortfolioIntelligence
@@ -742,6 +1279,22 @@ export interface FortunaExport {
   financialHistory?: any
 }
 
+/** Export bundle sealed with its own passphrase (independent of the local vault) */
+export interface FortunaEncryptedExport {
+  _format: 'fortuna-engine-export-encrypted'
+  _version: number
+  _exportedAt: string
+  _appVersion: string
+  payload: PassphraseEnvelope
+}
+
+export interface VaultStatus {
+  supported: boolean
+  enabled: boolean
+  unlocked: boolean
+  autoLockMinutes: number
+}
+
 const APP_VERSION = '10.3.0'
 
 // ===================================================================
@@ -781,6 +1334,20 @@ export function createDefaultState(): FortunaState {
     equityCompensation: [],
     receipts: [],
     intakeBatches: [],
+    automations: [],
+    automationLog: [],
+    categoryCorrections: [],
+    imports: [],
+    reconciliations: [],
+    ledgerAccounts: [],
+    journalEntries: [],
+    periodCloses: [],
+    customers: [],
+    invoices: [],
+    vendors: [],
+    employees: [],
+    payrollRuns: [],
+    fxRates: [],
 
     portfolioOpportunities: [],
     portfolioTaxEvents: [],
@@ -811,11 +1378,96 @@ export const Storage = {
 
   // ---- Full State ----
   async getFullState(): Promise<FortunaState> {
-    const raw = await safeGet<FortunaState>(KEYS.FULL_STATE, createDefaultState())
+    const raw = await sealedGet<FortunaState>(KEYS.FULL_STATE, createDefaultState())
     return migrateIfNeeded(raw)
   },
   async saveFullState(state: FortunaState): Promise<boolean> {
-    return safeSet(KEYS.FULL_STATE, state)
+    return sealedSet(KEYS.FULL_STATE, state)
+  },
+
+  // ---- Vault ----
+  async getVaultStatus(): Promise<VaultStatus> {
+    const meta = await getVaultMeta()
+    return {
+      supported: isVaultSupported(),
+      enabled: !!meta,
+      unlocked: !meta || getSessionKey() !== null,
+      autoLockMinutes: meta?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+    }
+  },
+  /** Synchronous check; accurate once getVaultStatus() has run this session */
+  isVaultEnabled(): boolean {
+    return !!vaultMetaCache
+  },
+  async enableVault(passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> {
+    if (await getVaultMeta()) throw new VaultError('Vault is already enabled', 'INVALID_STATE')
+    const [state, advisorHistory, financialHistory, bankAccounts, bankTransactions] = await Promise.all([
+      Storage.getFullState(), Storage.getAdvisorHistory(), Storage.getFinancialHistory(),
+      Storage.getBankAccounts(), Storage.getBankTransactions(),
+    ])
+    const { meta, key } = await createVaultMeta(passphrase, autoLockMinutes)
+    setSessionKey(key, autoLockMinutes)
+    if (!await safeSet(KEYS.VAULT, meta)) throw new VaultError('Could not save vault settings', 'STORAGE')
+    vaultMetaCache = meta
+    await Storage.saveFullState(state)
+    await Storage.saveAdvisorHistory(advisorHistory)
+    if (financialHistory) await Storage.saveFinancialHistory(financialHistory)
+    // Bank access tokens must not outlive the switch in plaintext; a feed
+    // that can't be resealed is dropped and re-synced from the bank
+    if (!await Storage.saveBankAccounts(bankAccounts)) await rawDelete(KEYS.BANK_ACCOUNTS)
+    if (!await Storage.saveBankTransactions(bankTransactions)) await rawDelete(KEYS.BANK_TRANSACTIONS)
+  },
+  async unlockVault(passphrase: string): Promise<void> {
+    const meta = await getVaultMeta()
+    if (!meta) return
+    setSessionKey(await openVault(meta, passphrase), meta.autoLockMinutes)
+  },
+  lockVault(): void {
+    lockSession()
+  },
+  async disableVault(passphrase: string): Promise<void> {
+    const meta = await getVaultMeta()
+    if (!meta) return
+    setSessionKey(await openVault(meta, passphrase), 0)
+    const [state, advisorHistory, financialHistory, bankAccounts, bankTransactions] = await Promise.all([
+      Storage.getFullState(), Storage.getAdvisorHistory(), Storage.getFinancialHistory(),
+      Storage.getBankAccounts(), Storage.getBankTransactions(),
+    ])
+    await rawDelete(KEYS.VAULT)
+    vaultMetaCache = null
+    lockSession()
+    await Storage.saveFullState(state)
+    await Storage.saveAdvisorHistory(advisorHistory)
+    if (financialHistory) await Storage.saveFinancialHistory(financialHistory)
+    await Storage.saveBankAccounts(bankAccounts)
+    await Storage.saveBankTransactions(bankTransactions)
+  },
+  async changeVaultPassphrase(current: string, next: string): Promise<void> {
+    const meta = await getVaultMeta()
+    if (!meta) throw new VaultError('Vault is not enabled', 'INVALID_STATE')
+    setSessionKey(await openVault(meta, current), meta.autoLockMinutes)
+    const [state, advisorHistory, financialHistory, bankAccounts, bankTransactions] = await Promise.all([
+      Storage.getFullState(), Storage.getAdvisorHistory(), Storage.getFinancialHistory(),
+      Storage.getBankAccounts(), Storage.getBankTransactions(),
+    ])
+    const { meta: nextMeta, key } = await createVaultMeta(next, meta.autoLockMinutes)
+    setSessionKey(key, nextMeta.autoLockMinutes)
+    if (!await safeSet(KEYS.VAULT, nextMeta)) throw new VaultError('Could not save vault settings', 'STORAGE')
+    vaultMetaCache = nextMeta
+    await Storage.saveFullState(state)
+    await Storage.saveAdvisorHistory(advisorHistory)
+    if (financialHistory) await Storage.saveFinancialHistory(financialHistory)
+    await Storage.saveBankAccounts(bankAccounts)
+    await Storage.saveBankTransactions(bankTransactions)
+  },
+  async setVaultAutoLock(minutes: number): Promise<void> {
+    const meta = await getVaultMeta()
+    const key = getSessionKey()
+    if (!meta || !key) return
+    const next = { ...meta, autoLockMinutes: Math.max(0, minutes) }
+    await safeSet(KEYS.VAULT, next)
+    vaultMetaCache = next
+    setSessionKey(key, next.autoLockMinutes)
   },
 
   // ---- UX Preferences ----
@@ -833,29 +1485,44 @@ export const Storage = {
 
   // ---- Advisor History ----
   async getAdvisorHistory(): Promise<AdvisorMessage[]> {
-    return safeGet<AdvisorMessage[]>(KEYS.ADVISOR_HISTORY, [])
+    return sealedGet<AdvisorMessage[]>(KEYS.ADVISOR_HISTORY, [])
   },
   async saveAdvisorHistory(messages: AdvisorMessage[]): Promise<boolean> {
-    return safeSet(KEYS.ADVISOR_HISTORY, messages.slice(-50))
+    return sealedSet(KEYS.ADVISOR_HISTORY, messages.slice(-50))
   },
 
   // ---- Financial History (snapshots) ----
   async getFinancialHistory(): Promise<any> {
-    return safeGet(KEYS.FINANCIAL_HISTORY, null)
+    return sealedGet(KEYS.FINANCIAL_HISTORY, null)
   },
   async saveFinancialHistory(history: any): Promise<boolean> {
-    return safeSet(KEYS.FINANCIAL_HISTORY, history)
+    return sealedSet(KEYS.FINANCIAL_HISTORY, history)
+  },
+
+  // ---- Bank Feed (accounts carry Plaid access tokens) ----
+  async getBankAccounts(): Promise<BankAccount[]> {
+    return sealedGet<BankAccount[]>(KEYS.BANK_ACCOUNTS, [])
+  },
+  async saveBankAccounts(accounts: BankAccount[]): Promise<boolean> {
+    return sealedSet(KEYS.BANK_ACCOUNTS, accounts)
+  },
+  async getBankTransactions(): Promise<BankFeedTransaction[]> {
+    return sealedGet<BankFeedTransaction[]>(KEYS.BANK_TRANSACTIONS, [])
+  },
+  async saveBankTransactions(transactions: BankFeedTransaction[]): Promise<boolean> {
+    return sealedSet(KEYS.BANK_TRANSACTIONS, transactions)
   },
 
   // ---- Export / Import ----
-  async exportAll(): Promise<FortunaExport> {
+  /** With a passphrase, the bundle is sealed and can only be imported with it */
+  async exportAll(passphrase?: string): Promise<FortunaExport | FortunaEncryptedExport> {
     const [state, advisorHistory, uxPrefs, financialHistory] = await Promise.all([
       Storage.getFullState(),
       Storage.getAdvisorHistory(),
       Storage.getUXPrefs(),
       Storage.getFinancialHistory(),
     ])
-    return {
+    const bundle: FortunaExport = {
       _format: 'fortuna-engine-export',
       _version: SCHEMA_VERSION,
       _exportedAt: new Date().toISOString(),
@@ -863,9 +1530,26 @@ export const Storage = {
       state, advisorHistory, uxPrefs,
       financialHistory: financialHistory ?? undefined,
     }
+    if (!passphrase) return bundle
+    return {
+      _format: 'fortuna-engine-export-encrypted',
+      _version: SCHEMA_VERSION,
+      _exportedAt: bundle._exportedAt,
+      _appVersion: APP_VERSION,
+      payload: await encryptWithPassphrase(bundle, passphrase),
+    }
   },
 
-  async importAll(data: FortunaExport): Promise<{ success: boolean; error?: string }> {
+  async importAll(input: FortunaExport | FortunaEncryptedExport, passphrase?: string): Promise<{ success: boolean; error?: string }> {
+    let data = input as FortunaExport
+    if (input?._format === 'fortuna-engine-export-encrypted') {
+      if (!passphrase) return { success: false, error: 'This backup is encrypted. Enter its passphrase to import.' }
+      try {
+        data = await decryptWithPassphrase<FortunaExport>(input.payload, passphrase)
+      } catch (e) {
+        return { success: false, error: e instanceof VaultError ? e.message : 'Could not decrypt backup.' }
+      }
+    }
     if (!data || data._format !== 'fortuna-engine-export') {
       return { success: false, error: 'Invalid file format. Expected a Fortuna Engine export.' }
     }
@@ -889,9 +1573,13 @@ export const Storage = {
     }
   },
 
-  validateExport(json: string): { valid: boolean; data?: FortunaExport; error?: string } {
+  validateExport(json: string): { valid: boolean; data?: FortunaExport; encrypted?: FortunaEncryptedExport; error?: string } {
     try {
       const data = JSON.parse(json)
+      if (data._format === 'fortuna-engine-export-encrypted') {
+        if (!isPassphraseEnvelope(data.payload)) return { valid: false, error: 'Encrypted export is missing its payload' }
+        return { valid: true, encrypted: data }
+      }
       if (data._format !== 'fortuna-engine-export') return { valid: false, error: 'Not a Fortuna export' }
       if (!data.state?.profile) return { valid: false, error: 'Missing profile data' }
       return { valid: true, data }
@@ -903,6 +1591,8 @@ export const Storage = {
   // ---- Reset ----
   async clearAll(): Promise<void> {
     await Promise.all(Object.values(KEYS).map(k => rawDelete(k)))
+    vaultMetaCache = null
+    lockSession()
   },
 
   // ---- Storage diagnostics ----
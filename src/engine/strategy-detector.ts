@@ -66,7 +66,7 @@ export function detectStrategies(state: FortunaState): DetectedStrategy[] {
   const hasScorp = entities.some(e => (e.type === 'llc_scorp' || e.type === 'scorp') && e.isActive)
   if (!hasScorp && netSEIncome > 50000) {
     const reasonableSalary = Math.round(Math.max(netSEIncome * 0.5, Math.min(netSEIncome * 0.7, 80000)))
-    const savings = calculateSCorpSavings(netSEIncome, reasonableSalary)
+    const savings = calculateSCorpSavings(netSEIncome, reasonableSalary, state.taxYear)
 
     if (savings.savings > 2000) {
       strategies.push({
@@ -95,8 +95,8 @@ export function detectStrategies(state: FortunaState): DetectedStrategy[] {
 
   // 2. SEP-IRA / Solo 401(k) Maximization
   if (netSEIncome > 20000) {
-    const maxSEP = calculateMaxSEPIRA(netSEIncome)
-    const solo401k = calculateMaxSolo401k(netSEIncome, profile.age)
+    const maxSEP = calculateMaxSEPIRA(netSEIncome, state.taxYear)
+    const solo401k = calculateMaxSolo401k(netSEIncome, profile.age, state.taxYear)
     const currentRetirement = deductions
       .filter(d => d.category === 'retirement')
       .reduce((sum, d) => sum + d.amount, 0)
@@ -0,0 +1,273 @@
+/**
+ * Fortuna Engine — Three-Way Sync Merge
+ *
+ * Record-level merge of two FortunaState documents against their common
+ * ancestor (the last version both sides agreed on):
+ *  - Arrays of `{ id }` records merge per record (IncomeStream, BusinessExpense, LegalEntity, ...)
+ *  - Plain objects (profile, household, carryforwards, ...) merge per field
+ *  - Anything changed differently on both sides becomes a SyncConflict
+ *
+ * Pure and dependency-free so the Netlify state function can run the exact
+ * same merge server-side.
+ */
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export type SyncSide = 'local' | 'remote'
+
+export interface SyncConflict {
+  key: string               // Stable conflict key: "collection:recordId" or "object.field"
+  path: string              // Top-level state key (e.g. "incomeStreams", "profile")
+  recordId?: string         // Set for record collections
+  field?: string            // Set for object fields
+  label: string             // Human-readable name of the record/field
+  base?: unknown            // undefined = did not exist in ancestor
+  local?: unknown           // undefined = deleted locally
+  remote?: unknown          // undefined = deleted remotely
+}
+
+export interface MergeStats {
+  fromLocal: number         // Records/fields taken from local changes
+  fromRemote: number        // Records/fields taken from remote changes
+  conflicts: number
+}
+
+export interface MergeResult<T> {
+  merged: T                 // Conflicts default to the local side
+  conflicts: SyncConflict[]
+  stats: MergeStats
+}
+
+export interface FieldDiff {
+  field: string
+  local: unknown
+  remote: unknown
+}
+
+type Doc = Record<string, unknown>
+type Rec = Record<string, unknown> & { id: string }
+
+/** Keys that are bookkeeping, not user data — never reported as conflicts */
+const META_KEYS = new Set(['lastUpdated', 'ux'])
+
+/** Append-only logs: union by id, no conflicts possible */
+const LOG_KEYS = new Set(['automationLog'])
+
+// ===================================================================
+//  EQUALITY
+// ===================================================================
+
+/** JSON serialization with sorted keys, so key order never creates a diff */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return 'undefined'
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  const obj = value as Doc
+  return `{${Object.keys(obj).filter(k => obj[k] !== undefined).sort()
+    .map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return a === b || stableStringify(a) === stableStringify(b)
+}
+
+function isPlainObject(value: unknown): value is Doc {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isRecordArray(value: unknown): value is Rec[] {
+  return Array.isArray(value) && value.every(v => isPlainObject(v) && typeof v.id === 'string')
+}
+
+export function recordLabel(record: unknown, fallback: string): string {
+  if (!isPlainObject(record)) return fallback
+  for (const k of ['name', 'title', 'description', 'category', 'ticker', 'fileName']) {
+    if (typeof record[k] === 'string' && record[k]) return record[k] as string
+  }
+  return fallback
+}
+
+// ===================================================================
+//  MERGE
+// ===================================================================
+
+/** Three-way decision for a single value. Returns the winner or a conflict. */
+function mergeValue(base: unknown, local: unknown, remote: unknown, hasBase: boolean):
+  { value: unknown; from: SyncSide | null } | { conflict: true } {
+  if (same(local, remote)) return { value: local, from: null }
+  if (hasBase && same(local, base)) return { value: remote, from: 'remote' }
+  if (hasBase && same(remote, base)) return { value: local, from: 'local' }
+  return { conflict: true }
+}
+
+function mergeRecords(path: string, base: Rec[] | undefined, local: Rec[], remote: Rec[], stats: MergeStats, conflicts: SyncConflict[]): Rec[] {
+  const baseById = new Map((base || []).map(r => [r.id, r]))
+  const localById = new Map(local.map(r => [r.id, r]))
+  const remoteById = new Map(remote.map(r => [r.id, r]))
+
+  // Local order first, then records only remote knows about
+  const ids = [...local.map(r => r.id), ...remote.map(r => r.id).filter(id => !localById.has(id))]
+  const merged: Rec[] = []
+
+  for (const id of ids) {
+    const b = baseById.get(id)
+    const l = localById.get(id)
+    const r = remoteById.get(id)
+
+    // Added on one side only (and never seen before) — keep it even without an ancestor
+    if (!b && !l && r) { merged.push(r); stats.fromRemote++; continue }
+    if (!b && l && !r) {
+      merged.push(l)
+      if (base) stats.fromLocal++
+      continue
+    }
+
+    const result = mergeValue(b, l, r, !!b || !!base)
+    if ('conflict' in result) {
+      conflicts.push({
+        key: `${path}:${id}`, path, recordId: id,
+        label: recordLabel(l ?? r ?? b, id),
+        base: b, local: l, remote: r,
+      })
+      stats.conflicts++
+      if (l) merged.push(l)
+      continue
+    }
+    if (result.from === 'local') stats.fromLocal++
+    if (result.from === 'remote') stats.fromRemote++
+    if (result.value) merged.push(result.value as Rec)
+  }
+  return merged
+}
+
+function mergeFields(path: string, base: Doc | undefined, local: Doc, remote: Doc, stats: MergeStats, conflicts: SyncConflict[]): Doc {
+  const merged: Doc = { ...local }
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)])
+  for (const field of fields) {
+    const result = mergeValue(base?.[field], local[field], remote[field], !!base)
+    if ('conflict' in result) {
+      conflicts.push({
+        key: `${path}.${field}`, path, field,
+        label: `${path}.${field}`,
+        base: base?.[field], local: local[field], remote: remote[field],
+      })
+      stats.conflicts++
+      continue
+    }
+    if (result.from === 'local') stats.fromLocal++
+    if (result.from === 'remote') stats.fromRemote++
+    if (result.value === undefined) delete merged[field]
+    else merged[field] = result.value
+  }
+  return merged
+}
+
+function unionById(local: Rec[], remote: Rec[]): Rec[] {
+  const seen = new Set(local.map(r => r.id))
+  return [...local, ...remote.filter(r => !seen.has(r.id))]
+}
+
+/**
+ * Merge local and remote against their common ancestor. Without an ancestor
+ * (first sync from this device) every record that differs is a conflict.
+ */
+export function threeWayMerge<T extends object>(base: T | null | undefined, local: T, remote: T): MergeResult<T> {
+  const b = (base ?? undefined) as Doc | undefined
+  const l = local as unknown as Doc
+  const r = remote as unknown as Doc
+  const stats: MergeStats = { fromLocal: 0, fromRemote: 0, conflicts: 0 }
+  const conflicts: SyncConflict[] = []
+  const merged: Doc = { ...l }
+
+  for (const key of new Set([...Object.keys(l), ...Object.keys(r)])) {
+    const bv = b?.[key]
+    const lv = l[key]
+    const rv = r[key]
+
+    if (key === 'lastUpdated') {
+      merged[key] = String(lv ?? '') >= String(rv ?? '') ? lv : rv
+      continue
+    }
+    if (META_KEYS.has(key)) continue          // Device-local; keep ours
+
+    if (LOG_KEYS.has(key) && isRecordArray(lv) && isRecordArray(rv)) {
+      merged[key] = unionById(lv, rv)
+      continue
+    }
+
+    if (isRecordArray(lv) && isRecordArray(rv) && (bv === undefined || isRecordArray(bv))) {
+      merged[key] = mergeRecords(key, bv as Rec[] | undefined, lv, rv, stats, conflicts)
+      continue
+    }
+
+    if (isPlainObject(lv) && isPlainObject(rv) && (bv === undefined || isPlainObject(bv))) {
+      merged[key] = mergeFields(key, bv as Doc | undefined, lv, rv, stats, conflicts)
+      continue
+    }
+
+    const result = mergeValue(bv, lv, rv, !!b)
+    if ('conflict' in result) {
+      conflicts.push({ key, path: key, label: key, base: bv, local: lv, remote: rv })
+      stats.conflicts++
+      continue
+    }
+    if (result.from === 'local') stats.fromLocal++
+    if (result.from === 'remote') stats.fromRemote++
+    if (result.value === undefined) delete merged[key]
+    else merged[key] = result.value
+  }
+
+  return { merged: merged as unknown as T, conflicts, stats }
+}
+
+// ===================================================================
+//  RESOLUTION
+// ===================================================================
+
+/**
+ * Apply per-conflict choices to a merge result. Conflicts without a choice
+ * keep the local side (the default already present in `merged`).
+ */
+export function applyResolutions<T extends object>(merged: T, conflicts: SyncConflict[], choices: Record<string, SyncSide>): T {
+  const out = { ...(merged as unknown as Doc) }
+
+  for (const c of conflicts) {
+    const side = choices[c.key] ?? 'local'
+    const value = side === 'local' ? c.local : c.remote
+
+    if (c.recordId !== undefined) {
+      const records = [...((out[c.path] as Rec[] | undefined) ?? [])]
+      const idx = records.findIndex(r => r.id === c.recordId)
+      if (value === undefined) {
+        if (idx >= 0) records.splice(idx, 1)
+      } else if (idx >= 0) {
+        records[idx] = value as Rec
+      } else {
+        records.push(value as Rec)
+      }
+      out[c.path] = records
+    } else if (c.field !== undefined) {
+      const obj = { ...((out[c.path] as Doc | undefined) ?? {}) }
+      if (value === undefined) delete obj[c.field]
+      else obj[c.field] = value
+      out[c.path] = obj
+    } else if (value === undefined) {
+      delete out[c.path]
+    } else {
+      out[c.path] = value
+    }
+  }
+
+  return out as unknown as T
+}
+
+/** Top-level fields that differ between the two sides of a record conflict */
+export function diffFields(local: unknown, remote: unknown): FieldDiff[] {
+  if (!isPlainObject(local) || !isPlainObject(remote)) return [{ field: '', local, remote }]
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)])
+  return [...fields]
+    .filter(f => !same(local[f], remote[f]))
+    .map(f => ({ field: f, local: local[f], remote: remote[f] }))
+}
@@ -12,6 +12,8 @@ import {
   type TaxReport,
 } from './tax-calculator'
 import { createDefaultState, type FortunaState } from './storage'
+import { getTaxParameters, getPublishedTaxYears } from './tax-parameters'
+import { calculateMultiStateTax } from './state-tax-engine'
 
 function makeState(overrides: Partial<FortunaState> = {}): FortunaState {
   return { ...createDefaultState(), ...overrides } as FortunaState
@@ -250,7 +252,7 @@ describe('calculateMaxSEPIRA', () => {
   })
 
   it('should cap at SEP-IRA annual limit', () => {
-    const max = calculateMaxSEPIRA(500000)
+    const max = calculateMaxSEPIRA(500000, 2024)
     expect(max).toBeLessThanOrEqual(69000) // 2024 SEP-IRA max
   })
 })
@@ -267,7 +269,7 @@ describe('calculateKiddieTax', () => {
   })
 
   it('should apply when unearned income above $2,500 and child under 19', () => {
-    const result = calculateKiddieTax(10000, 15, false, 0.32, 'married_joint')
+    const result = calculateKiddieTax(10000, 15, false, 0.32, 'married_joint', 2023)
     expect(result.applies).toBe(true)
     expect(result.kiddieTaxLiability).toBeGreaterThan(0)
     // $1,250 tax-free + $1,250 at 10% + $7,500 at 32%
@@ -316,3 +318,120 @@ describe('calculateUnderpaymentPenalty', () => {
     expect(result.quarters.filter(q => q.shortfall > 0).length).toBeGreaterThan(0)
   })
 })
+
+// ── Tax Year Parameters ────────────────────────────────────────────────────
+
+describe('tax year parameters', () => {
+  const w2State = (taxYear: number) => makeState({
+    taxYear,
+    profile: { name: 'Test', state: 'TX', filingStatus: 'single', dependents: 0, hasHealthInsurance: true, age: 40 },
+    incomeStreams: [
+      { id: 'w2-1', name: 'Job', type: 'w2', annualAmount: 100000, isActive: true },
+    ],
+    expenses: [],
+    entities: [],
+    deductions: [],
+  })
+
+  it('should publish 2023 through 2026 at minimum', () => {
+    expect(getPublishedTaxYears()).toEqual(expect.arrayContaining([2023, 2024, 2025, 2026]))
+  })
+
+  it('should use the state tax year in generateTaxReport', () => {
+    expect(generateTaxReport(w2State(2024)).standardDeduction).toBe(14600)
+    expect(generateTaxReport(w2State(2025)).standardDeduction).toBe(15750)
+    expect(generateTaxReport(w2State(2025)).federalIncomeTax)
+      .toBeLessThan(generateTaxReport(w2State(2024)).federalIncomeTax)
+  })
+
+  it('should apply the year-specific SE wage base', () => {
+    const se2024 = calculateSelfEmploymentTax(300000, 2024)
+    const se2025 = calculateSelfEmploymentTax(300000, 2025)
+    expect(se2025.socialSecurity).toBeGreaterThan(se2024.socialSecurity)
+  })
+
+  it('should inflation-index years beyond the latest published year', () => {
+    const latest = Math.max(...getPublishedTaxYears())
+    const base = getTaxParameters(latest)
+    const projected = getTaxParameters(latest + 2)
+    expect(projected.isProjected).toBe(true)
+    expect(projected.standardDeduction.single).toBeGreaterThan(base.standardDeduction.single)
+    expect(projected.federalBrackets.single[1].min).toBeGreaterThan(base.federalBrackets.single[1].min)
+    expect(projected.federalBrackets.single.map(b => b.rate)).toEqual(base.federalBrackets.single.map(b => b.rate))
+  })
+
+  it('should clamp years before the registry to the earliest published year', () => {
+    expect(getTaxParameters(2010).year).toBe(Math.min(...getPublishedTaxYears()))
+  })
+})
+
+// ── Multi-State Residency ──────────────────────────────────────────────────
+
+describe('calculateMultiStateTax', () => {
+  const wages = (sourceStates?: { stateCode: string; pct: number }[]) => ([
+    { id: 'w2', name: 'Job', kind: 'wages' as const, amount: 120000, sourceStates },
+  ])
+
+  it('should file a single resident return when nothing crosses state lines', () => {
+    const result = calculateMultiStateTax({ taxYear: 2025, filingStatus: 'single', domicile: 'IL', residency: [], income: wages() })
+    expect(result.isMultiState).toBe(false)
+    expect(result.returns).toHaveLength(1)
+    expect(result.returns[0].returnType).toBe('resident')
+    expect(result.returns[0].apportionmentPct).toBe(100)
+  })
+
+  it('should split a mid-year move into part-year returns by residency days', () => {
+    const result = calculateMultiStateTax({
+      taxYear: 2025, filingStatus: 'single', domicile: 'CA',
+      residency: [{ id: 'r1', stateCode: 'TX', startDate: '2025-07-01', endDate: '2025-12-31' }],
+      income: wages(),
+    })
+    const ca = result.returns.find(r => r.stateCode === 'CA')!
+    const tx = result.returns.find(r => r.stateCode === 'TX')!
+    expect(ca.returnType).toBe('part_year')
+    expect(tx.returnType).toBe('part_year')
+    expect(ca.residentDays + tx.residentDays).toBe(365)
+    expect(ca.apportionmentPct).toBeGreaterThan(45)
+    expect(ca.apportionmentPct).toBeLessThan(55)
+    expect(tx.netTax).toBe(0)
+    expect(ca.netTax).toBeLessThan(ca.fullYearTax)
+  })
+
+  it('should credit tax paid to the work state against the resident state', () => {
+    const result = calculateMultiStateTax({
+      taxYear: 2025, filingStatus: 'single', domicile: 'NJ', residency: [],
+      income: wages([{ stateCode: 'NY', pct: 100 }]),
+    })
+    const nj = result.returns.find(r => r.stateCode === 'NJ')!
+    const ny = result.returns.find(r => r.stateCode === 'NY')!
+    expect(ny.returnType).toBe('nonresident')
+    expect(ny.taxBeforeCredits).toBeGreaterThan(0)
+    expect(nj.creditForOtherStates).toBeGreaterThan(0)
+    expect(nj.creditForOtherStates).toBeLessThanOrEqual(Math.min(nj.taxBeforeCredits, ny.taxBeforeCredits))
+    expect(result.totalStateTax).toBe(result.totalTaxBeforeCredits - result.totalCredits)
+  })
+
+  it('should not source wages to a reciprocity work state', () => {
+    const result = calculateMultiStateTax({
+      taxYear: 2025, filingStatus: 'single', domicile: 'WI', residency: [],
+      income: wages([{ stateCode: 'IL', pct: 100 }]),
+    })
+    expect(result.returns.map(r => r.stateCode)).toEqual(['WI'])
+  })
+
+  it('should feed multi-state totals into generateTaxReport', () => {
+    const state = makeState({
+      taxYear: 2025,
+      profile: { name: 'Test', state: 'NJ', filingStatus: 'single', dependents: 0, hasHealthInsurance: true, age: 40 },
+      incomeStreams: [
+        { id: 'w2-1', name: 'Job', type: 'w2', annualAmount: 120000, isActive: true, sourceStates: [{ stateCode: 'NY', pct: 100 }] },
+      ],
+      expenses: [],
+      entities: [],
+      deductions: [],
+    })
+    const report = generateTaxReport(state)
+    expect(report.multiState?.isMultiState).toBe(true)
+    expect(report.stateTax).toBe(report.multiState!.totalStateTax)
+  })
+})
@@ -1,101 +1,45 @@
 /**
  * Fortuna Engine - Tax Calculator
- * Real federal + state + SE tax calculations using 2024/2025 brackets
+ * Real federal + state + SE tax calculations, year-aware via tax-parameters.ts
  */
 
-import type { FortunaState, IncomeStream, Deduction, LegalEntity, EntityType } from './storage'
-
-// ==================== 2024 Federal Tax Brackets ====================
-const FEDERAL_BRACKETS_2024 = {
-  single: [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11600, max: 47150, rate: 0.12 },
-    { min: 47150, max: 100525, rate: 0.22 },
-    { min: 100525, max: 191950, rate: 0.24 },
-    { min: 191950, max: 243725, rate: 0.32 },
-    { min: 243725, max: 609350, rate: 0.35 },
-    { min: 609350, max: Infinity, rate: 0.37 },
-  ],
-  married_joint: [
-    { min: 0, max: 23200, rate: 0.10 },
-    { min: 23200, max: 94300, rate: 0.12 },
-    { min: 94300, max: 201050, rate: 0.22 },
-    { min: 201050, max: 383900, rate: 0.24 },
-    { min: 383900, max: 487450, rate: 0.32 },
-    { min: 487450, max: 731200, rate: 0.35 },
-    { min: 731200, max: Infinity, rate: 0.37 },
-  ],
-  married_separate: [
-    { min: 0, max: 11600, rate: 0.10 },
-    { min: 11600, max: 47150, rate: 0.12 },
-    { min: 47150, max: 100525, rate: 0.22 },
-    { min: 100525, max: 191950, rate: 0.24 },
-    { min: 191950, max: 243725, rate: 0.32 },
-    { min: 243725, max: 365600, rate: 0.35 },
-    { min: 365600, max: Infinity, rate: 0.37 },
-  ],
-  head_of_household: [
-    { min: 0, max: 16550, rate: 0.10 },
-    { min: 16550, max: 63100, rate: 0.12 },
-    { min: 63100, max: 100500, rate: 0.22 },
-    { min: 100500, max: 191950, rate: 0.24 },
-    { min: 191950, max: 243700, rate: 0.32 },
-    { min: 243700, max: 609350, rate: 0.35 },
-    { min: 609350, max: Infinity, rate: 0.37 },
-  ],
-}
+import type { FortunaState, IncomeStream, Deduction, LegalEntity, EntityType, EquityCompensation } from './storage'
+import { getTaxParameters, getFederalBrackets, getStandardDeduction, byStatus } from './tax-parameters'
+import { hasMultiStateActivity, calculateStateTaxForProfile, type MultiStateTaxResult } from './state-tax-engine'
+import {
+  foreignEarnedIncomeExclusion, foreignTaxCredit, type ForeignEarnedIncomeExclusion, type ForeignTaxCredit,
+} from './foreign-tax'
 
-const STANDARD_DEDUCTION_2024: Record<string, number> = {
-  single: 14600,
-  married_joint: 29200,
-  married_separate: 14600,
-  head_of_household: 21900,
-}
+// Year-dependent figures (brackets, wage base, limits, thresholds) live in
+// tax-parameters.ts; only statutory rates that do not index stay here.
 
 // SE Tax constants
 const SE_TAX_RATE = 0.153 // 15.3% (12.4% SS + 2.9% Medicare)
-const SS_WAGE_BASE_2024 = 168600
 const SE_DEDUCTIBLE_FRACTION = 0.9235 // Only 92.35% of SE income subject
 const ADDITIONAL_MEDICARE_THRESHOLD_SINGLE = 200000
 const ADDITIONAL_MEDICARE_RATE = 0.009 // 0.9%
 
 // QBI deduction
 const QBI_RATE = 0.20
-const QBI_THRESHOLD_SINGLE = 191950
-const QBI_THRESHOLD_JOINT = 383900
 
-// SEP-IRA / Solo 401k limits
-const SEP_IRA_MAX_2024 = 69000
+// SEP-IRA
 const SEP_IRA_RATE = 0.25 // 25% of net SE income
-const SOLO_401K_EMPLOYEE_MAX = 23000 // Under 50
 
-// AMT (Alternative Minimum Tax) 2024
-const AMT_EXEMPTION: Record<string, number> = {
-  single: 85700, married_joint: 133300, married_separate: 66650, head_of_household: 85700,
-}
-const AMT_PHASEOUT_START: Record<string, number> = {
-  single: 609350, married_joint: 1218700, married_separate: 609350, head_of_household: 609350,
-}
+// AMT (Alternative Minimum Tax)
 const AMT_RATE_1 = 0.26
 const AMT_RATE_2 = 0.28
-const AMT_RATE_2_THRESHOLD: Record<string, number> = {
-  single: 232600, married_joint: 232600, married_separate: 116300, head_of_household: 232600,
-}
 
 // NIIT (Net Investment Income Tax) 3.8%
 const NIIT_RATE = 0.038
 const NIIT_THRESHOLD: Record<string, number> = {
   single: 200000, married_joint: 250000, married_separate: 125000, head_of_household: 200000,
 }
-const SOLO_401K_EMPLOYEE_MAX_50PLUS = 30500
 
-// Kiddie Tax (Form 8615) — 2024
-const KIDDIE_TAX_THRESHOLD = 2500 // First $1,250 tax-free, next $1,250 at child's rate
-const KIDDIE_TAX_UNEARNED_LIMIT = 1250
+// Kiddie Tax (Form 8615) — dollar increment is year-indexed
 const KIDDIE_TAX_AGE_LIMIT = 19 // Under 19, or under 24 if full-time student
 const KIDDIE_TAX_STUDENT_AGE_LIMIT = 24
 
-// Underpayment Penalty (Form 2210) — 2024
+// Underpayment Penalty (Form 2210)
 const UNDERPAYMENT_PENALTY_RATE = 0.08 // IRS rate (adjusts quarterly, using recent rate)
 const SAFE_HARBOR_PCT = 1.00 // 100% of prior year tax (110% if AGI > $150k)
 const SAFE_HARBOR_HIGH_INCOME_PCT = 1.10
@@ -159,8 +103,8 @@ const STATE_TAX_RATES: Record<string, { rate: number; type: 'flat' | 'progressiv
 
 // ==================== Core Calculation Functions ====================
 
-export function calculateFederalIncomeTax(taxableIncome: number, filingStatus: string): number {
-  const brackets = FEDERAL_BRACKETS_2024[filingStatus as keyof typeof FEDERAL_BRACKETS_2024] || FEDERAL_BRACKETS_2024.single
+export function calculateFederalIncomeTax(taxableIncome: number, filingStatus: string, taxYear?: number): number {
+  const brackets = getFederalBrackets(filingStatus, taxYear)
   let tax = 0
   let remaining = Math.max(0, taxableIncome)
 
@@ -174,7 +118,16 @@ export function calculateFederalIncomeTax(taxableIncome: number, filingStatus: s
   return Math.round(tax)
 }
 
-export function calculateSelfEmploymentTax(netSEIncome: number): {
+/** Top federal bracket rate reached by the given taxable income */
+export function getMarginalFederalRate(taxableIncome: number, filingStatus: string, taxYear?: number): number {
+  let marginalRate = 0.10
+  for (const bracket of getFederalBrackets(filingStatus, taxYear)) {
+    if (taxableIncome > bracket.min) marginalRate = bracket.rate
+  }
+  return marginalRate
+}
+
+export function calculateSelfEmploymentTax(netSEIncome: number, taxYear?: number): {
   socialSecurity: number
   medicare: number
   additionalMedicare: number
@@ -182,7 +135,7 @@ export function calculateSelfEmploymentTax(netSEIncome: number): {
   deductibleHalf: number
 } {
   const taxableBase = netSEIncome * SE_DEDUCTIBLE_FRACTION
-  const ssBase = Math.min(taxableBase, SS_WAGE_BASE_2024)
+  const ssBase = Math.min(taxableBase, getTaxParameters(taxYear).socialSecurityWageBase)
   const socialSecurity = ssBase * 0.124
   const medicare = taxableBase * 0.029
   const additionalMedicare = taxableBase > ADDITIONAL_MEDICARE_THRESHOLD_SINGLE
@@ -202,7 +155,8 @@ export function calculateSelfEmploymentTax(netSEIncome: number): {
 
 export function calculateSCorpSavings(
   netSEIncome: number,
-  reasonableSalary: number
+  reasonableSalary: number,
+  taxYear?: number,
 ): {
   currentSETax: number
   sCorpSETax: number
@@ -211,10 +165,10 @@ export function calculateSCorpSavings(
   distributionAmount: number
 } {
   // Current: full SE tax on all income
-  const currentSE = calculateSelfEmploymentTax(netSEIncome)
+  const currentSE = calculateSelfEmploymentTax(netSEIncome, taxYear)
 
   // S-Corp: only pay payroll tax on reasonable salary
-  const payrollTax = calculateSelfEmploymentTax(reasonableSalary)
+  const payrollTax = calculateSelfEmploymentTax(reasonableSalary, taxYear)
   const distributionAmount = netSEIncome - reasonableSalary
 
   return {
@@ -226,6 +180,17 @@ export function calculateSCorpSavings(
   }
 }
 
+/**
+ * W-2 wages an entity paid in a year, for the QBI wage limit. Payroll runs
+ * are authoritative once any exist for the year; otherwise the typed-in
+ * `w2WagesPaid` estimate is used.
+ */
+export function entityW2Wages(state: FortunaState, entityId: string, taxYear: number): number {
+  const runs = (state.payrollRuns || []).filter(r => r.entityId === entityId && r.payDate.startsWith(`${taxYear}-`))
+  if (runs.length === 0) return state.entities.find(e => e.id === entityId)?.w2WagesPaid || 0
+  return Math.round(runs.reduce((s, r) => s + r.checks.reduce((t, c) => t + c.w2Wages, 0), 0) * 100) / 100
+}
+
 export function calculateStateTax(taxableIncome: number, stateCode: string): number {
   const state = STATE_TAX_RATES[stateCode]
   if (!state) return 0
@@ -239,9 +204,11 @@ export function calculateQBIDeduction(
   isSSTB: boolean = false,  // Specified Service Trade or Business (lawyers, doctors, consultants, etc.)
   w2Wages: number = 0,      // W-2 wages paid by the business
   qualifiedProperty: number = 0, // UBIA of qualified property
+  taxYear?: number,
 ): number {
-  const threshold = filingStatus === 'married_joint' ? QBI_THRESHOLD_JOINT : QBI_THRESHOLD_SINGLE
-  const phaseOutRange = filingStatus === 'married_joint' ? 100000 : 50000
+  const { qbi: qbiParams } = getTaxParameters(taxYear)
+  const threshold = byStatus(qbiParams.threshold, filingStatus)
+  const phaseOutRange = byStatus(qbiParams.phaseInRange, filingStatus)
   const phaseOutEnd = threshold + phaseOutRange
 
   // Below threshold: full 20% deduction regardless of SSTB status
@@ -278,27 +245,51 @@ export function calculateQBIDeduction(
   return Math.round(fullDeduction - reduction)
 }
 
-export function calculateMaxSEPIRA(netSEIncome: number): number {
+/**
+ * ISO bargain element (FMV at exercise − strike) on shares exercised in the
+ * tax year and still held at year-end. Same-year dispositions are taxed as
+ * ordinary income instead and carry no AMT adjustment.
+ */
+export function isoAMTAdjustment(grants: EquityCompensation[], taxYear: number): number {
+  let adjustment = 0
+  for (const grant of grants) {
+    if (grant.grantType !== 'iso') continue
+    const events = grant.events || []
+    for (const ex of events) {
+      if (ex.type !== 'exercise' || new Date(ex.date).getUTCFullYear() !== taxYear) continue
+      const soldSameYear = events
+        .filter(e => e.type === 'sale' && e.lotId === ex.id && new Date(e.date).getUTCFullYear() === taxYear)
+        .reduce((s, e) => s + e.shares, 0)
+      const held = Math.max(0, ex.shares - soldSameYear)
+      adjustment += held * Math.max(0, ex.pricePerShare - (grant.strikePrice || 0))
+    }
+  }
+  return Math.round(adjustment)
+}
+
+export function calculateMaxSEPIRA(netSEIncome: number, taxYear?: number): number {
   // SEP-IRA max is 25% of net SE earnings (after SE tax deduction)
-  const seTax = calculateSelfEmploymentTax(netSEIncome)
+  const seTax = calculateSelfEmploymentTax(netSEIncome, taxYear)
   const netAfterSE = netSEIncome - seTax.deductibleHalf
-  const maxContribution = Math.min(netAfterSE * SEP_IRA_RATE, SEP_IRA_MAX_2024)
+  const annualLimit = getTaxParameters(taxYear).retirement.annualAdditionsLimit
+  const maxContribution = Math.min(netAfterSE * SEP_IRA_RATE, annualLimit)
   return Math.round(Math.max(0, maxContribution))
 }
 
-export function calculateMaxSolo401k(netSEIncome: number, age: number): {
+export function calculateMaxSolo401k(netSEIncome: number, age: number, taxYear?: number): {
   employeeMax: number
   employerMax: number
   totalMax: number
 } {
-  const seTax = calculateSelfEmploymentTax(netSEIncome)
+  const { retirement } = getTaxParameters(taxYear)
+  const seTax = calculateSelfEmploymentTax(netSEIncome, taxYear)
   const netAfterSE = netSEIncome - seTax.deductibleHalf
-  const employeeMax = age >= 50 ? SOLO_401K_EMPLOYEE_MAX_50PLUS : SOLO_401K_EMPLOYEE_MAX
-  const employerMax = Math.min(netAfterSE * 0.25, SEP_IRA_MAX_2024 - employeeMax)
+  const employeeMax = age >= 50 ? retirement.electiveDeferral + retirement.catchUp50 : retirement.electiveDeferral
+  const employerMax = Math.min(netAfterSE * 0.25, retirement.annualAdditionsLimit - employeeMax)
   return {
     employeeMax,
     employerMax: Math.round(Math.max(0, employerMax)),
-    totalMax: Math.round(Math.min(employeeMax + Math.max(0, employerMax), SEP_IRA_MAX_2024)),
+    totalMax: Math.round(Math.min(employeeMax + Math.max(0, employerMax), retirement.annualAdditionsLimit)),
   }
 }
 
@@ -321,9 +312,12 @@ export function calculateKiddieTax(
   isStudent: boolean,
   parentMarginalRate: number,
   parentFilingStatus: string,
+  taxYear?: number,
 ): KiddieTaxResult {
+  const increment = getTaxParameters(taxYear).kiddieTaxIncrement
+  const threshold = increment * 2
   const ageLimit = isStudent ? KIDDIE_TAX_STUDENT_AGE_LIMIT : KIDDIE_TAX_AGE_LIMIT
-  const applies = dependentAge < ageLimit && unearnedIncome > KIDDIE_TAX_THRESHOLD
+  const applies = dependentAge < ageLimit && unearnedIncome > threshold
 
   if (!applies) {
     return {
@@ -332,14 +326,14 @@ export function calculateKiddieTax(
       applies: false,
       reason: dependentAge >= ageLimit
         ? `Age ${dependentAge} is at/above the ${ageLimit} limit`
-        : `Unearned income $${unearnedIncome.toLocaleString()} is below $${KIDDIE_TAX_THRESHOLD} threshold`,
+        : `Unearned income $${unearnedIncome.toLocaleString()} is below $${threshold} threshold`,
     }
   }
 
-  // First $1,250: tax-free. Next $1,250: child's rate (10%). Above $2,500: parent's rate
-  const taxFreeAmount = KIDDIE_TAX_UNEARNED_LIMIT
-  const childRateAmount = Math.min(KIDDIE_TAX_UNEARNED_LIMIT, Math.max(0, unearnedIncome - taxFreeAmount))
-  const parentRateAmount = Math.max(0, unearnedIncome - KIDDIE_TAX_THRESHOLD)
+  // First increment: tax-free. Next increment: child's rate (10%). Above both: parent's rate
+  const taxFreeAmount = increment
+  const childRateAmount = Math.min(increment, Math.max(0, unearnedIncome - taxFreeAmount))
+  const parentRateAmount = Math.max(0, unearnedIncome - threshold)
 
   const taxAtChildRate = Math.round(childRateAmount * 0.10)
   const taxAtParentRate = Math.round(parentRateAmount * parentMarginalRate)
@@ -349,7 +343,7 @@ export function calculateKiddieTax(
     taxAtChildRate, taxAtParentRate,
     kiddieTaxLiability: taxAtChildRate + taxAtParentRate,
     applies: true,
-    reason: `$${parentRateAmount.toLocaleString()} above $${KIDDIE_TAX_THRESHOLD} threshold taxed at parent's ${(parentMarginalRate * 100).toFixed(0)}% rate`,
+    reason: `$${parentRateAmount.toLocaleString()} above $${threshold} threshold taxed at parent's ${(parentMarginalRate * 100).toFixed(0)}% rate`,
   }
 }
 
@@ -370,6 +364,7 @@ export function calculateAllKiddieTax(
         d.isStudent || false,
         parentMarginalRate,
         state.profile.filingStatus,
+        state.taxYear,
       )
       result.dependentName = d.name
       return result
@@ -524,6 +519,7 @@ export interface TaxReport {
   selfEmploymentTax: number
   stateTax: number
   amt: number                    // Alternative Minimum Tax
+  isoAMTAdjustment: number       // ISO bargain element added to AMTI
   niit: number                   // Net Investment Income Tax (3.8%)
   totalTax: number
   effectiveRate: number
@@ -553,10 +549,19 @@ export interface TaxReport {
   // Portfolio gains breakdown (v10.6)
   shortTermPortfolioGains: number
   longTermPortfolioGains: number
+
+  // Part-year / nonresident state returns (only when income crosses state lines)
+  multiState?: MultiStateTaxResult
+
+  // Foreign income: Form 2555 comes off AGI, Form 1116 off federal income tax
+  foreignEarnedIncomeExclusion?: ForeignEarnedIncomeExclusion
+  foreignTaxCredit?: ForeignTaxCredit
 }
 
 export function generateTaxReport(state: FortunaState): TaxReport {
   const { profile, incomeStreams, expenses, deductions, entities } = state
+  const taxYear = state.taxYear || new Date().getFullYear()
+  const params = getTaxParameters(taxYear)
 
   // ═══════════════════════════════════════════════════════════════════
   //  PHASE 1: Build entity-level P&L
@@ -695,10 +700,10 @@ export function generateTaxReport(state: FortunaState): TaxReport {
   // Bridge portfolio realized gains from portfolioTaxEvents[]
   const portfolioTaxEvents = (state as any).portfolioTaxEvents || []
   const realizedGains = portfolioTaxEvents
-    .filter((e: any) => e.realized && e.taxYear === (state.taxYear || new Date().getFullYear()))
+    .filter((e: any) => e.realized && e.taxYear === taxYear)
     .reduce((sum: number, e: any) => sum + (e.estimatedAmount || 0), 0)
   const shortTermPortfolioGains = portfolioTaxEvents
-    .filter((e: any) => e.realized && e.taxTreatment === 'short_term_cg' && e.taxYear === (state.taxYear || new Date().getFullYear()))
+    .filter((e: any) => e.realized && e.taxTreatment === 'short_term_cg' && e.taxYear === taxYear)
     .reduce((sum: number, e: any) => sum + (e.estimatedAmount || 0), 0)
   const longTermPortfolioGains = Math.max(0, realizedGains - shortTermPortfolioGains)
 
@@ -743,7 +748,7 @@ export function generateTaxReport(state: FortunaState): TaxReport {
   )
 
   // SE tax on non-S-Corp income
-  const seTax = calculateSelfEmploymentTax(netSEIncome)
+  const seTax = calculateSelfEmploymentTax(netSEIncome, taxYear)
   const seDeduction = seTax.deductibleHalf
 
   // S-Corp officer salary SE tax (employer+employee FICA)
@@ -758,10 +763,14 @@ export function generateTaxReport(state: FortunaState): TaxReport {
   const retirementContributions = manualRetirementContributions
 
   const totalAdjustments = seDeduction + retirementContributions
-  const agi = grossIncome - totalBusinessExpenses - totalAdjustments
+
+  // Foreign earned income exclusion and housing deduction (SE tax above is still owed)
+  const feie = foreignEarnedIncomeExclusion(state, taxYear)
+  const foreignExclusion = feie ? feie.totalExclusion + feie.housingDeduction : 0
+  const agi = grossIncome - totalBusinessExpenses - totalAdjustments - foreignExclusion
 
   // Standard vs Itemized
-  const standardDed = STANDARD_DEDUCTION_2024[profile.filingStatus] || 14600
+  const standardDed = getStandardDeduction(profile.filingStatus, taxYear)
   const itemizedTotal = deductions
     .filter(d => d.isItemized)
     .reduce((sum, d) => sum + d.amount, 0)
@@ -773,22 +782,28 @@ export function generateTaxReport(state: FortunaState): TaxReport {
   // Aggregate SSTB status — if ANY QBI entity is SSTB, apply phaseout to that portion
   const sstbQBI = qbiEntities.filter(e => entityMap.get(e.entityId)?.isSSTB).reduce((s, e) => s + e.qbiEligibleAmount, 0)
   const nonSSTBQBI = totalQBIEligible - sstbQBI
-  const totalW2Wages = qbiEntities.reduce((s, e) => s + (entityMap.get(e.entityId)?.w2WagesPaid || 0), 0)
+  const totalW2Wages = qbiEntities.reduce((s, e) => s + entityW2Wages(state, e.entityId, taxYear), 0)
   const totalQualifiedProp = qbiEntities.reduce((s, e) => s + (entityMap.get(e.entityId)?.qualifiedPropertyUBIA || 0), 0)
 
   const sstbDeduction = sstbQBI > 0
-    ? calculateQBIDeduction(sstbQBI, agi - deductionAmount, profile.filingStatus, true, totalW2Wages, totalQualifiedProp)
+    ? calculateQBIDeduction(sstbQBI, agi - deductionAmount, profile.filingStatus, true, totalW2Wages, totalQualifiedProp, taxYear)
     : 0
   const nonSSTBDeduction = nonSSTBQBI > 0
-    ? calculateQBIDeduction(nonSSTBQBI, agi - deductionAmount, profile.filingStatus, false, totalW2Wages, totalQualifiedProp)
+    ? calculateQBIDeduction(nonSSTBQBI, agi - deductionAmount, profile.filingStatus, false, totalW2Wages, totalQualifiedProp, taxYear)
     : 0
   const qbiDeduction = sstbDeduction + nonSSTBDeduction
 
   // Taxable income
   const taxableIncome = Math.max(0, agi - deductionAmount - qbiDeduction)
 
-  // Federal tax
-  const federalTax = calculateFederalIncomeTax(taxableIncome, profile.filingStatus)
+  // Federal tax — with an exclusion, the rest is taxed at the rates it would
+  // bear on top of the excluded income (Form 2555 stacking rule)
+  const regularTax = feie && feie.totalExclusion > 0
+    ? calculateFederalIncomeTax(taxableIncome + feie.totalExclusion, profile.filingStatus, taxYear)
+      - calculateFederalIncomeTax(feie.totalExclusion, profile.filingStatus, taxYear)
+    : calculateFederalIncomeTax(taxableIncome, profile.filingStatus, taxYear)
+  const ftc = foreignTaxCredit(state, taxYear, regularTax, agi, feie)
+  const federalTax = Math.max(0, regularTax - (ftc?.totalCredit ?? 0))
 
   // Total SE tax (sole prop SE + S-Corp FICA)
   const actualSETax = seTax.total + scorpFICA
@@ -798,27 +813,29 @@ export function generateTaxReport(state: FortunaState): TaxReport {
     (w2Income - totalOfficerSalary) * 0.0765 // Only on actual W-2, not officer salary already counted
   )
 
-  // State tax
-  const stateT = calculateStateTax(taxableIncome, profile.state)
+  // State tax — multi-state filers get graduated per-state returns on AGI
+  const multiState = hasMultiStateActivity(state) ? calculateStateTaxForProfile(state, agi) : undefined
+  const stateT = multiState ? multiState.totalStateTax : calculateStateTax(taxableIncome, profile.state)
 
   // ── AMT (Alternative Minimum Tax) ──
-  const amtExemption = AMT_EXEMPTION[profile.filingStatus] || AMT_EXEMPTION.single
-  const amtPhaseoutStart = AMT_PHASEOUT_START[profile.filingStatus] || AMT_PHASEOUT_START.single
-  const amtRate2Threshold = AMT_RATE_2_THRESHOLD[profile.filingStatus] || AMT_RATE_2_THRESHOLD.single
+  const amtExemption = byStatus(params.amt.exemption, profile.filingStatus)
+  const amtPhaseoutStart = byStatus(params.amt.phaseoutStart, profile.filingStatus)
+  const amtRate2Threshold = byStatus(params.amt.rate2Threshold, profile.filingStatus)
 
   // AMTI = taxable income + add-backs (SALT, misc itemized, ISO spreads)
-  const saltAddBack = useItemized ? Math.min(itemizedTotal * 0.3, 10000) : 0 // SALT cap already limits this, but pre-TCJA had unlimited
-  const amti = taxableIncome + saltAddBack
+  const saltAddBack = useItemized ? Math.min(itemizedTotal * 0.3, params.saltCap) : 0 // SALT cap already limits this, but pre-TCJA had unlimited
+  const isoAdjustment = isoAMTAdjustment(state.equityCompensation || [], taxYear)
+  const amti = taxableIncome + saltAddBack + isoAdjustment
   // Phase out exemption
-  const amtExemptionReduction = amti > amtPhaseoutStart ? Math.min(amtExemption, (amti - amtPhaseoutStart) * 0.25) : 0
+  const amtExemptionReduction = amti > amtPhaseoutStart ? Math.min(amtExemption, (amti - amtPhaseoutStart) * params.amt.phaseoutRate) : 0
   const effectiveExemption = Math.max(0, amtExemption - amtExemptionReduction)
   const amtBase = Math.max(0, amti - effectiveExemption)
   // Two-rate AMT
   const amtTax = amtBase <= amtRate2Threshold
     ? amtBase * AMT_RATE_1
     : amtRate2Threshold * AMT_RATE_1 + (amtBase - amtRate2Threshold) * AMT_RATE_2
-  // AMT = excess over regular tax
-  const amt = Math.max(0, Math.round(amtTax - federalTax))
+  // AMT = excess over regular tax (before the foreign tax credit, which has its own AMT version)
+  const amt = Math.max(0, Math.round(amtTax - regularTax))
 
   // ── NIIT (Net Investment Income Tax — 3.8% surtax) ──
   const niitThreshold = NIIT_THRESHOLD[profile.filingStatus] || NIIT_THRESHOLD.single
@@ -837,19 +854,15 @@ export function generateTaxReport(state: FortunaState): TaxReport {
     .reduce((s, e) => s + e.netIncome, 0)
   const reasonableSalary = Math.round(unconvertedSEIncome * 0.6)
   const scorpCalc = unconvertedSEIncome > 0
-    ? calculateSCorpSavings(unconvertedSEIncome, reasonableSalary)
+    ? calculateSCorpSavings(unconvertedSEIncome, reasonableSalary, taxYear)
     : { savings: 0, soleProptax: 0, scorpTax: 0 }
 
   // Retirement gap
-  const maxSEP = calculateMaxSEPIRA(netSEIncome > 0 ? netSEIncome : unconvertedSEIncome)
+  const maxSEP = calculateMaxSEPIRA(netSEIncome > 0 ? netSEIncome : unconvertedSEIncome, taxYear)
   const retirementGap = Math.max(0, maxSEP - retirementContributions)
 
   // Marginal rate
-  const brackets = FEDERAL_BRACKETS_2024[profile.filingStatus as keyof typeof FEDERAL_BRACKETS_2024] || FEDERAL_BRACKETS_2024.single
-  let marginalRate = 0.10
-  for (const bracket of brackets) {
-    if (taxableIncome > bracket.min) marginalRate = bracket.rate
-  }
+  const marginalRate = getMarginalFederalRate(taxableIncome, profile.filingStatus, taxYear)
 
   return {
     grossIncome,
@@ -871,6 +884,7 @@ export function generateTaxReport(state: FortunaState): TaxReport {
     selfEmploymentTax: actualSETax,
     stateTax: stateT,
     amt,
+    isoAMTAdjustment: isoAdjustment,
     niit,
     totalTax,
     effectiveRate: grossIncome > 0 ? totalTax / grossIncome : 0,
@@ -890,6 +904,9 @@ export function generateTaxReport(state: FortunaState): TaxReport {
     entityBreakdown,
     shortTermPortfolioGains,
     longTermPortfolioGains,
+    multiState,
+    foreignEarnedIncomeExclusion: feie ?? undefined,
+    foreignTaxCredit: ftc ?? undefined,
   }
 }
 
@@ -908,9 +925,9 @@ export interface EntityComparison {
   score: number
 }
 
-export function compareEntities(netSEIncome: number, profile: FortunaState['profile']): EntityComparison[] {
+export function compareEntities(netSEIncome: number, profile: FortunaState['profile'], taxYear?: number): EntityComparison[] {
   const { filingStatus, state: stateCode } = profile
-  const standardDed = STANDARD_DEDUCTION_2024[filingStatus] || 14600
+  const standardDed = getStandardDeduction(filingStatus, taxYear)
 
   function calcForEntity(type: string): EntityComparison {
     let seTax = 0
@@ -922,21 +939,21 @@ export function compareEntities(netSEIncome: number, profile: FortunaState['prof
     switch (type) {
       case 'sole_prop':
         label = 'Sole Proprietorship'
-        seTax = calculateSelfEmploymentTax(netSEIncome).total
-        adjustedIncome = netSEIncome - calculateSelfEmploymentTax(netSEIncome).deductibleHalf
+        seTax = calculateSelfEmploymentTax(netSEIncome, taxYear).total
+        adjustedIncome = netSEIncome - calculateSelfEmploymentTax(netSEIncome, taxYear).deductibleHalf
         annualCost = 0
         break
       case 'llc':
         label = 'Single-Member LLC'
-        seTax = calculateSelfEmploymentTax(netSEIncome).total
-        adjustedIncome = netSEIncome - calculateSelfEmploymentTax(netSEIncome).deductibleHalf
+        seTax = calculateSelfEmploymentTax(netSEIncome, taxYear).total
+        adjustedIncome = netSEIncome - calculateSelfEmploymentTax(netSEIncome, taxYear).deductibleHalf
         annualCost = 300
         liabilityProtection = true
         break
       case 'llc_scorp': {
         label = 'LLC + S-Corp Election'
         const salary = Math.round(netSEIncome * 0.6)
-        seTax = calculateSelfEmploymentTax(salary).total
+        seTax = calculateSelfEmploymentTax(salary, taxYear).total
         adjustedIncome = netSEIncome - seTax / 2
         annualCost = 2000
         liabilityProtection = true
@@ -950,7 +967,7 @@ export function compareEntities(netSEIncome: number, profile: FortunaState['prof
         // C-Corp: 21% flat rate, then personal tax on distributions
         const corpTax = netSEIncome * 0.21
         const afterCorpIncome = netSEIncome - corpTax - annualCost
-        const personalTax = calculateFederalIncomeTax(Math.max(0, afterCorpIncome - standardDed), filingStatus)
+        const personalTax = calculateFederalIncomeTax(Math.max(0, afterCorpIncome - standardDed), filingStatus, taxYear)
         const stTax = calculateStateTax(Math.max(0, afterCorpIncome - standardDed), stateCode)
         return {
           type, label,
@@ -966,9 +983,9 @@ export function compareEntities(netSEIncome: number, profile: FortunaState['prof
         }
     }
 
-    const qbi = type !== 'ccorp' ? calculateQBIDeduction(netSEIncome, adjustedIncome, filingStatus) : 0
+    const qbi = type !== 'ccorp' ? calculateQBIDeduction(netSEIncome, adjustedIncome, filingStatus, false, 0, 0, taxYear) : 0
     const taxableIncome = Math.max(0, adjustedIncome - standardDed - qbi)
-    const fedTax = calculateFederalIncomeTax(taxableIncome, filingStatus)
+    const fedTax = calculateFederalIncomeTax(taxableIncome, filingStatus, taxYear)
     const stTax = calculateStateTax(taxableIncome, stateCode)
     const totalTax = fedTax + seTax + stTax
 
@@ -1003,7 +1020,7 @@ export function compareEntities(netSEIncome: number, profile: FortunaState['prof
   return results.sort((a, b) => b.score - a.score)
 }
 
-export { STATE_TAX_RATES, STANDARD_DEDUCTION_2024, FEDERAL_BRACKETS_2024 }
+export { STATE_TAX_RATES }
 
 // ─── Portfolio-Enhanced Tax Report ──────────────────────────────────────────
 
@@ -1027,7 +1044,12 @@ export interface PortfolioTaxAddendum {
  * Does NOT modify the base report — returns supplemental data.
  * Consumers can use base report alone (backward-compatible) or add portfolio layer.
  */
-export function computePortfolioTaxAddendum(baseReport: TaxReport, stateCode: string): PortfolioTaxAddendum | null {
+export function computePortfolioTaxAddendum(
+  baseReport: TaxReport,
+  stateCode: string,
+  filingStatus: string = 'single',
+  taxYear?: number,
+): PortfolioTaxAddendum | null {
   try {
     const { hasPortfolioData: hasPD, getPortfolioTaxIncome } = require('./portfolio-bridge')
     if (!hasPD()) return null
@@ -1046,7 +1068,8 @@ export function computePortfolioTaxAddendum(baseReport: TaxReport, stateCode: st
     const stcgStateTax = ptx.shortTermCapGains * stateRate
 
     // Long-term capital gains (taxed at preferential rates)
-    const ltcgRate = baseReport.taxableIncome > 492300 ? 0.20 : baseReport.taxableIncome > 44625 ? 0.15 : 0
+    const ltcg = byStatus(getTaxParameters(taxYear).ltcgBreakpoints, filingStatus)
+    const ltcgRate = baseReport.taxableIncome > ltcg.fifteenMax ? 0.20 : baseReport.taxableIncome > ltcg.zeroMax ? 0.15 : 0
     const ltcgTax = ptx.longTermCapGains * ltcgRate
     const ltcgStateTax = ptx.longTermCapGains * stateRate
 
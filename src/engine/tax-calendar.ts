@@ -7,11 +7,15 @@
  *   - Entity election windows (S-Corp, fiscal year)
  *   - Retirement contribution deadlines
  *   - State-specific deadlines (CA, NY, etc.)
+ *   - Sales tax returns per registered state at its filing frequency
  *   - Custom user deadlines
  *   - Smart reminder scheduling (7-day, 3-day, 1-day, day-of)
  *   - Penalty estimation for missed deadlines
  */
 
+import type { SalesTaxFiling } from './sales-tax'
+import { getSalesTaxJurisdiction } from './sales-tax-rates'
+
 export interface TaxDeadline {
   id: string
   title: string
@@ -19,7 +23,7 @@ export interface TaxDeadline {
   date: string             // ISO date (YYYY-MM-DD)
   category: DeadlineCategory
   priority: 'critical' | 'high' | 'medium' | 'low'
-  recurring: 'annual' | 'quarterly' | 'one-time'
+  recurring: 'annual' | 'quarterly' | 'monthly' | 'one-time'
   applicableTo: ApplicableEntity[]
   form?: string            // IRS form number
   penaltyInfo?: string     // what happens if you miss it
@@ -38,6 +42,7 @@ export type DeadlineCategory =
   | 'payroll'
   | 'information_return'
   | 'state'
+  | 'sales_tax'
   | 'custom'
 
 export type ApplicableEntity =
@@ -292,6 +297,51 @@ export function generateStateDeadlines(taxYear: number, stateCode: string): TaxD
   return deadlines
 }
 
+// ─── Sales Tax Deadline Generator ───────────────────────────────────────────
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/** Due date in the month after a period ends, rolled off weekends */
+function salesTaxDueDate(periodEndYear: number, periodEndMonth: number, dueDay: number | 'last'): string {
+  const year = periodEndMonth === 12 ? periodEndYear + 1 : periodEndYear
+  const month = periodEndMonth % 12  // 0-based month after the period
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  const due = new Date(Date.UTC(year, month, dueDay === 'last' ? lastDay : Math.min(dueDay, lastDay)))
+  while (due.getUTCDay() === 0 || due.getUTCDay() === 6) due.setUTCDate(due.getUTCDate() + 1)
+  return due.toISOString().split('T')[0]
+}
+
+export function generateSalesTaxDeadlines(taxYear: number, filings: SalesTaxFiling[]): TaxDeadline[] {
+  const deadlines: TaxDeadline[] = []
+
+  for (const { stateCode, frequency } of filings) {
+    const jurisdiction = getSalesTaxJurisdiction(stateCode)
+    if (!jurisdiction) continue
+    let idCounter = 0
+    const id = () => `sales_${stateCode}_${taxYear}_${++idCounter}`
+
+    // [label, last month of the period (1-12)]
+    const periods: [string, number][] =
+      frequency === 'monthly' ? MONTHS.map((m, i) => [`${m} ${taxYear}`, i + 1])
+      : frequency === 'quarterly' ? [1, 2, 3, 4].map(q => [`Q${q} ${taxYear}`, q * 3])
+      : [[`${taxYear}`, 12]]
+
+    for (const [label, endMonth] of periods) {
+      deadlines.push({
+        id: id(), title: `${stateCode} Sales Tax Return — ${label}`,
+        description: `File the ${frequency} ${stateCode} sales and use tax return for ${label} and remit tax collected to the ${jurisdiction.agency}.`,
+        date: salesTaxDueDate(taxYear, endMonth, jurisdiction.dueDay),
+        category: 'sales_tax', priority: 'high', recurring: frequency,
+        applicableTo: ['sole_proprietor', 'single_member_llc', 's_corp', 'c_corp', 'partnership'],
+        penaltyInfo: 'Late returns typically draw a 5–10% penalty plus interest, and forfeit any timely-filing discount. A zero return is still due.',
+        completed: false, notes: '', reminderDays: [7, 3, 1, 0],
+      })
+    }
+  }
+
+  return deadlines.sort((a, b) => a.date.localeCompare(b.date))
+}
+
 // ─── Alert Generator ────────────────────────────────────────────────────────
 
 export function getDeadlineAlerts(deadlines: TaxDeadline[], asOfDate?: Date): DeadlineAlert[] {
@@ -384,13 +434,14 @@ export function loadCalendar(): TaxDeadline[] {
   return []
 }
 
-export function initializeCalendar(taxYear: number, stateCode: string): TaxDeadline[] {
+export function initializeCalendar(taxYear: number, stateCode: string, salesTaxFilings: SalesTaxFiling[] = []): TaxDeadline[] {
   const existing = loadCalendar()
   if (existing.length > 0) return existing
 
   const federal = generateFederalDeadlines(taxYear)
   const state = generateStateDeadlines(taxYear, stateCode)
-  const all = [...federal, ...state]
+  const salesTax = generateSalesTaxDeadlines(taxYear, salesTaxFilings)
+  const all = [...federal, ...state, ...salesTax]
   saveCalendar(all)
   return all
 }
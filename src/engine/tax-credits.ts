@@ -15,14 +15,13 @@
 
 import type { FortunaState } from './storage'
 import { generateTaxReport } from './tax-calculator'
+import { getTaxParameters } from './tax-parameters'
 
 // ===================================================================
-//  2024 CREDIT CONSTANTS
+//  CREDIT CONSTANTS (year-indexed amounts come from tax-parameters)
 // ===================================================================
 
 // Child Tax Credit
-const CTC_AMOUNT = 2000
-const CTC_REFUNDABLE_MAX = 1700 // Additional CTC refundable portion
 const CTC_PHASEOUT_SINGLE = 200000
 const CTC_PHASEOUT_JOINT = 400000
 const CTC_PHASEOUT_RATE = 0.05 // $50 per $1000 over threshold
@@ -34,14 +33,6 @@ const DEPENDENT_CARE_MAX_RATE = 0.35
 const DEPENDENT_CARE_MIN_RATE = 0.20
 const DEPENDENT_CARE_RATE_THRESHOLD = 15000
 
-// EITC 2024 (zero dependents used as base)
-const EITC_LIMITS = {
-  0: { maxCredit: 632, phaseoutStart_single: 9800, phaseoutEnd_single: 18591, phaseoutStart_joint: 16510, phaseoutEnd_joint: 25511 },
-  1: { maxCredit: 3995, phaseoutStart_single: 12730, phaseoutEnd_single: 46560, phaseoutStart_joint: 22230, phaseoutEnd_joint: 53120 },
-  2: { maxCredit: 6604, phaseoutStart_single: 12730, phaseoutEnd_single: 52918, phaseoutStart_joint: 22230, phaseoutEnd_joint: 59478 },
-  3: { maxCredit: 7430, phaseoutStart_single: 12730, phaseoutEnd_single: 56838, phaseoutStart_joint: 22230, phaseoutEnd_joint: 63398 },
-}
-
 // Education Credits
 const AOTC_MAX = 2500
 const AOTC_PHASEOUT_SINGLE = 80000
@@ -52,24 +43,7 @@ const LLC_MAX = 2000
 const LLC_PHASEOUT_SINGLE = 80000
 const LLC_PHASEOUT_END_SINGLE = 90000
 
-// Saver's Credit
-const SAVERS_CREDIT_LIMITS_2024 = {
-  single: [
-    { maxAGI: 23000, rate: 0.50 },
-    { maxAGI: 25000, rate: 0.20 },
-    { maxAGI: 38250, rate: 0.10 },
-  ],
-  married_joint: [
-    { maxAGI: 46000, rate: 0.50 },
-    { maxAGI: 50000, rate: 0.20 },
-    { maxAGI: 76500, rate: 0.10 },
-  ],
-  head_of_household: [
-    { maxAGI: 34500, rate: 0.50 },
-    { maxAGI: 37500, rate: 0.20 },
-    { maxAGI: 57375, rate: 0.10 },
-  ],
-}
+// Saver's Credit (AGI tiers are year-indexed)
 const SAVERS_MAX_CONTRIBUTION = 2000
 
 // Clean Energy
@@ -86,7 +60,6 @@ const RD_SIMPLIFIED_RATE = 0.14
 const RD_PAYROLL_TAX_LIMIT = 500000 // for startups
 
 // Health Premium Tax Credit
-const ACA_FPL_2024_SINGLE = 15060
 const ACA_CONTRIBUTION_CAPS = [
   { fplPct: 1.50, contribution: 0.00 },
   { fplPct: 2.00, contribution: 0.02 },
@@ -182,18 +155,19 @@ function calcChildTaxCredit(state: FortunaState, agi: number): TaxCredit {
     }
   }
 
-  const fullCredit = qualifyingChildren * CTC_AMOUNT
+  const { childTaxCredit: ctcAmount, childTaxCreditRefundable } = getTaxParameters(state.taxYear).credits
+  const fullCredit = qualifyingChildren * ctcAmount
   const threshold = state.profile.filingStatus === 'married_joint'
     ? CTC_PHASEOUT_JOINT : CTC_PHASEOUT_SINGLE
   const excess = Math.max(0, agi - threshold)
   const reduction = Math.ceil(excess / 1000) * 50
   const credit = Math.max(0, fullCredit - reduction)
-  const refundable = Math.min(credit, qualifyingChildren * CTC_REFUNDABLE_MAX)
+  const refundable = Math.min(credit, qualifyingChildren * childTaxCreditRefundable)
 
   return {
     id: 'ctc', name: 'Child Tax Credit', category: 'family',
     amount: credit, type: 'partially_refundable', eligible: credit > 0,
-    eligibilityReason: credit > 0 ? `$${CTC_AMOUNT.toLocaleString()} per qualifying child \u00D7 ${qualifyingChildren}` : `AGI exceeds phaseout threshold`,
+    eligibilityReason: credit > 0 ? `$${ctcAmount.toLocaleString()} per qualifying child \u00D7 ${qualifyingChildren}` : `AGI exceeds phaseout threshold`,
     phaseoutApplied: reduction > 0, fullAmount: fullCredit,
     requirements: ['Child under 17 with SSN', 'Claimed as dependent', `AGI under $${(threshold + fullCredit / 0.05 * 1000).toLocaleString()}`],
     actionItems: reduction > 0 ? ['Consider retirement contributions to reduce AGI below phaseout'] : [],
@@ -203,7 +177,8 @@ function calcChildTaxCredit(state: FortunaState, agi: number): TaxCredit {
 
 function calcEITC(state: FortunaState, agi: number, earnedIncome: number): TaxCredit {
   const deps = Math.min(state.profile.dependents, 3) as 0 | 1 | 2 | 3
-  const limits = EITC_LIMITS[deps]
+  const { eitc, eitcInvestmentIncomeLimit } = getTaxParameters(state.taxYear).credits
+  const limits = eitc[deps]
   const isJoint = state.profile.filingStatus === 'married_joint'
 
   const phaseoutStart = isJoint ? limits.phaseoutStart_joint : limits.phaseoutStart_single
@@ -217,11 +192,11 @@ function calcEITC(state: FortunaState, agi: number, earnedIncome: number): TaxCr
     credit = Math.round(limits.maxCredit * pct)
   }
 
-  // Investment income limit ($11,600 for 2024)
+  // Investment income limit
   const investIncome = state.incomeStreams
     .filter(s => s.type === 'investment' && s.isActive)
     .reduce((s, i) => s + i.annualAmount, 0)
-  if (investIncome > 11600) credit = 0
+  if (investIncome > eitcInvestmentIncomeLimit) credit = 0
 
   return {
     id: 'eitc', name: 'Earned Income Tax Credit', category: 'family',
@@ -230,7 +205,7 @@ function calcEITC(state: FortunaState, agi: number, earnedIncome: number): TaxCr
       ? `Earned income of $${earnedIncome.toLocaleString()} with ${deps} qualifying children`
       : `AGI of $${agi.toLocaleString()} exceeds EITC limit of $${phaseoutEnd.toLocaleString()}`,
     phaseoutApplied: agi > phaseoutStart && credit > 0, fullAmount: limits.maxCredit,
-    requirements: ['Earned income required', 'Investment income under $11,600', `AGI under $${phaseoutEnd.toLocaleString()}`],
+    requirements: ['Earned income required', `Investment income under $${eitcInvestmentIncomeLimit.toLocaleString()}`, `AGI under $${phaseoutEnd.toLocaleString()}`],
     actionItems: credit === 0 && agi < phaseoutEnd * 1.2
       ? ['Retirement contributions could reduce AGI into EITC range']
       : [],
@@ -239,9 +214,10 @@ function calcEITC(state: FortunaState, agi: number, earnedIncome: number): TaxCr
 }
 
 function calcSaversCredit(state: FortunaState, agi: number): TaxCredit {
+  const saversLimits = getTaxParameters(state.taxYear).credits.saversCredit
   const statusKey = state.profile.filingStatus === 'married_separate'
-    ? 'single' : (state.profile.filingStatus as keyof typeof SAVERS_CREDIT_LIMITS_2024)
-  const brackets = SAVERS_CREDIT_LIMITS_2024[statusKey] || SAVERS_CREDIT_LIMITS_2024.single
+    ? 'single' : (state.profile.filingStatus as keyof typeof saversLimits)
+  const brackets = saversLimits[statusKey] || saversLimits.single
 
   const retirementContrib = state.deductions
     .filter(d => d.category === 'retirement')
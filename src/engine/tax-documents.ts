@@ -11,6 +11,7 @@
 
 import type { FortunaState } from './storage'
 import { generateTaxReport, type TaxReport } from './tax-calculator'
+import { getTaxParameters } from './tax-parameters'
 import { hasPortfolioData, computePortfolioSummary } from './portfolio-bridge'
 
 // ===================================================================
@@ -429,7 +430,8 @@ export function generateScheduleC(state: FortunaState): ScheduleCWorksheet {
 
   // SE tax calculation
   const seBase = netProfit * 0.9235
-  const seTax = seBase > 0 ? Math.min(seBase, 176100) * 0.153 + Math.max(0, seBase - 176100) * 0.029 : 0
+  const ssWageBase = getTaxParameters(state.taxYear).socialSecurityWageBase
+  const seTax = seBase > 0 ? Math.min(seBase, ssWageBase) * 0.153 + Math.max(0, seBase - ssWageBase) * 0.029 : 0
   const seDeduction = seTax / 2
 
   // Primary business entity
@@ -0,0 +1,569 @@
+/**
+ * Fortuna Engine — Tax Parameter Registry
+ *
+ * Single source of truth for every year-dependent tax figure:
+ *  - Federal brackets, standard deduction, LTCG breakpoints
+ *  - Social Security wage base, retirement plan limits
+ *  - AMT exemption / phase-out, QBI thresholds, SALT cap
+ *  - Kiddie tax, credits (CTC, EITC, Saver's, ACA FPL)
+ *  - Depreciation (§179, bonus, luxury auto, mileage)
+ *  - Federal estate tax exemption
+ *  - Foreign earned income exclusion (Form 2555)
+ *  - Information-return (1099-NEC / 1099-K) reporting thresholds
+ *
+ * Published law is stored for 2023–2026. Later years are projected by
+ * inflation-indexing the most recent year; earlier years clamp to 2023.
+ * Engines read through getTaxParameters(state.taxYear).
+ */
+
+import type { FilingStatus } from './storage'
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface TaxBracket {
+  min: number
+  max: number
+  rate: number
+}
+
+export type ByFilingStatus<T> = Record<FilingStatus, T>
+
+export interface EITCParameters {
+  maxCredit: number
+  phaseoutStart_single: number
+  phaseoutEnd_single: number
+  phaseoutStart_joint: number
+  phaseoutEnd_joint: number
+}
+
+export interface VehicleLimits {
+  firstYear_withBonus: number
+  firstYear_noBonus: number
+  secondYear: number
+  thirdYear: number
+  subsequent: number
+  suvOver6000: number // Heavy SUV Section 179 cap
+}
+
+export interface TaxYearParameters {
+  year: number
+  isProjected: boolean // true when inflation-indexed rather than published
+
+  federalBrackets: ByFilingStatus<TaxBracket[]>
+  standardDeduction: ByFilingStatus<number>
+  /** Top of the 0% and 15% long-term capital gains brackets (taxable income) */
+  ltcgBreakpoints: ByFilingStatus<{ zeroMax: number; fifteenMax: number }>
+
+  socialSecurityWageBase: number
+
+  amt: {
+    exemption: ByFilingStatus<number>
+    phaseoutStart: ByFilingStatus<number>
+    phaseoutRate: number                // Exemption reduction per $1 of AMTI over start
+    rate2Threshold: ByFilingStatus<number> // 28% bracket begins
+  }
+
+  qbi: {
+    threshold: ByFilingStatus<number>
+    phaseInRange: ByFilingStatus<number>
+  }
+
+  retirement: {
+    annualAdditionsLimit: number  // §415(c) — SEP-IRA / Solo 401(k) total
+    electiveDeferral: number      // §402(g) — 401(k) employee deferral
+    catchUp50: number
+    iraContribution: number
+  }
+
+  saltCap: number
+  kiddieTaxIncrement: number // First increment tax-free, second at child's rate
+
+  credits: {
+    childTaxCredit: number
+    childTaxCreditRefundable: number
+    eitc: Record<0 | 1 | 2 | 3, EITCParameters>
+    eitcInvestmentIncomeLimit: number
+    saversCredit: Record<'single' | 'married_joint' | 'head_of_household', { maxAGI: number; rate: number }[]>
+    acaFplSingle: number // Poverty line used for the premium tax credit
+  }
+
+  depreciation: {
+    section179Limit: number
+    section179PhaseoutStart: number
+    bonusRate: number
+    vehicleLimits: VehicleLimits
+    standardMileageRate: number
+  }
+
+  estateExemptionPerPerson: number
+
+  foreignEarnedIncomeExclusion: number // §911 per-person maximum, full qualifying year
+
+  /** Payer reporting thresholds — below these no 1099 is required */
+  informationReturns: {
+    form1099NEC: number
+    form1099K: number
+    form1099KTransactions: number // 1099-K needs both the dollar and the transaction count
+  }
+}
+
+// ===================================================================
+//  HELPERS
+// ===================================================================
+
+function brackets(tops: number[]): TaxBracket[] {
+  const rates = [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37]
+  return rates.map((rate, i) => ({
+    min: i === 0 ? 0 : tops[i - 1],
+    max: i < tops.length ? tops[i] : Infinity,
+    rate,
+  }))
+}
+
+function eitc(
+  maxCredits: [number, number, number, number],
+  start: { single: [number, number]; joint: [number, number] },
+  endSingle: [number, number, number, number],
+  endJoint: [number, number, number, number],
+): Record<0 | 1 | 2 | 3, EITCParameters> {
+  const row = (k: 0 | 1 | 2 | 3): EITCParameters => ({
+    maxCredit: maxCredits[k],
+    phaseoutStart_single: k === 0 ? start.single[0] : start.single[1],
+    phaseoutEnd_single: endSingle[k],
+    phaseoutStart_joint: k === 0 ? start.joint[0] : start.joint[1],
+    phaseoutEnd_joint: endJoint[k],
+  })
+  return { 0: row(0), 1: row(1), 2: row(2), 3: row(3) }
+}
+
+// ===================================================================
+//  PUBLISHED PARAMETERS
+// ===================================================================
+
+const TY2023: TaxYearParameters = {
+  year: 2023,
+  isProjected: false,
+  federalBrackets: {
+    single: brackets([11000, 44725, 95375, 182100, 231250, 578125]),
+    married_joint: brackets([22000, 89450, 190750, 364200, 462500, 693750]),
+    married_separate: brackets([11000, 44725, 95375, 182100, 231250, 346875]),
+    head_of_household: brackets([15700, 59850, 95350, 182100, 231250, 578100]),
+  },
+  standardDeduction: { single: 13850, married_joint: 27700, married_separate: 13850, head_of_household: 20800 },
+  ltcgBreakpoints: {
+    single: { zeroMax: 44625, fifteenMax: 492300 },
+    married_joint: { zeroMax: 89250, fifteenMax: 553850 },
+    married_separate: { zeroMax: 44625, fifteenMax: 276900 },
+    head_of_household: { zeroMax: 59750, fifteenMax: 523050 },
+  },
+  socialSecurityWageBase: 160200,
+  amt: {
+    exemption: { single: 81300, married_joint: 126500, married_separate: 63250, head_of_household: 81300 },
+    phaseoutStart: { single: 578150, married_joint: 1156300, married_separate: 578150, head_of_household: 578150 },
+    phaseoutRate: 0.25,
+    rate2Threshold: { single: 220700, married_joint: 220700, married_separate: 110350, head_of_household: 220700 },
+  },
+  qbi: {
+    threshold: { single: 182100, married_joint: 364200, married_separate: 182100, head_of_household: 182100 },
+    phaseInRange: { single: 50000, married_joint: 100000, married_separate: 50000, head_of_household: 50000 },
+  },
+  retirement: { annualAdditionsLimit: 66000, electiveDeferral: 22500, catchUp50: 7500, iraContribution: 6500 },
+  saltCap: 10000,
+  kiddieTaxIncrement: 1250,
+  credits: {
+    childTaxCredit: 2000,
+    childTaxCreditRefundable: 1600,
+    eitc: eitc(
+      [600, 3995, 6604, 7430],
+      { single: [9800, 21560], joint: [16370, 28120] },
+      [17640, 46560, 52918, 56838],
+      [24210, 53120, 59478, 63398],
+    ),
+    eitcInvestmentIncomeLimit: 11000,
+    saversCredit: {
+      single: [{ maxAGI: 21750, rate: 0.50 }, { maxAGI: 23750, rate: 0.20 }, { maxAGI: 36500, rate: 0.10 }],
+      married_joint: [{ maxAGI: 43500, rate: 0.50 }, { maxAGI: 47500, rate: 0.20 }, { maxAGI: 73000, rate: 0.10 }],
+      head_of_household: [{ maxAGI: 32625, rate: 0.50 }, { maxAGI: 35625, rate: 0.20 }, { maxAGI: 54750, rate: 0.10 }],
+    },
+    acaFplSingle: 13590,
+  },
+  depreciation: {
+    section179Limit: 1160000,
+    section179PhaseoutStart: 2890000,
+    bonusRate: 0.80,
+    vehicleLimits: { firstYear_withBonus: 20200, firstYear_noBonus: 12200, secondYear: 19500, thirdYear: 11700, subsequent: 6960, suvOver6000: 28900 },
+    standardMileageRate: 0.655,
+  },
+  estateExemptionPerPerson: 12_920_000,
+  foreignEarnedIncomeExclusion: 120_000,
+  informationReturns: { form1099NEC: 600, form1099K: 20000, form1099KTransactions: 200 },
+}
+
+const TY2024: TaxYearParameters = {
+  year: 2024,
+  isProjected: false,
+  federalBrackets: {
+    single: brackets([11600, 47150, 100525, 191950, 243725, 609350]),
+    married_joint: brackets([23200, 94300, 201050, 383900, 487450, 731200]),
+    married_separate: brackets([11600, 47150, 100525, 191950, 243725, 365600]),
+    head_of_household: brackets([16550, 63100, 100500, 191950, 243700, 609350]),
+  },
+  standardDeduction: { single: 14600, married_joint: 29200, married_separate: 14600, head_of_household: 21900 },
+  ltcgBreakpoints: {
+    single: { zeroMax: 47025, fifteenMax: 518900 },
+    married_joint: { zeroMax: 94050, fifteenMax: 583750 },
+    married_separate: { zeroMax: 47025, fifteenMax: 291850 },
+    head_of_household: { zeroMax: 63000, fifteenMax: 551350 },
+  },
+  socialSecurityWageBase: 168600,
+  amt: {
+    exemption: { single: 85700, married_joint: 133300, married_separate: 66650, head_of_household: 85700 },
+    phaseoutStart: { single: 609350, married_joint: 1218700, married_separate: 609350, head_of_household: 609350 },
+    phaseoutRate: 0.25,
+    rate2Threshold: { single: 232600, married_joint: 232600, married_separate: 116300, head_of_household: 232600 },
+  },
+  qbi: {
+    threshold: { single: 191950, married_joint: 383900, married_separate: 191950, head_of_household: 191950 },
+    phaseInRange: { single: 50000, married_joint: 100000, married_separate: 50000, head_of_household: 50000 },
+  },
+  retirement: { annualAdditionsLimit: 69000, electiveDeferral: 23000, catchUp50: 7500, iraContribution: 7000 },
+  saltCap: 10000,
+  kiddieTaxIncrement: 1300,
+  credits: {
+    childTaxCredit: 2000,
+    childTaxCreditRefundable: 1700,
+    eitc: eitc(
+      [632, 4213, 6960, 7830],
+      { single: [10330, 22720], joint: [17250, 29640] },
+      [18591, 49084, 55768, 59899],
+      [25511, 56004, 62688, 66819],
+    ),
+    eitcInvestmentIncomeLimit: 11600,
+    saversCredit: {
+      single: [{ maxAGI: 23000, rate: 0.50 }, { maxAGI: 25000, rate: 0.20 }, { maxAGI: 38250, rate: 0.10 }],
+      married_joint: [{ maxAGI: 46000, rate: 0.50 }, { maxAGI: 50000, rate: 0.20 }, { maxAGI: 76500, rate: 0.10 }],
+      head_of_household: [{ maxAGI: 34500, rate: 0.50 }, { maxAGI: 37500, rate: 0.20 }, { maxAGI: 57375, rate: 0.10 }],
+    },
+    acaFplSingle: 14580,
+  },
+  depreciation: {
+    section179Limit: 1220000,
+    section179PhaseoutStart: 3050000,
+    bonusRate: 0.60,
+    vehicleLimits: { firstYear_withBonus: 20400, firstYear_noBonus: 12400, secondYear: 19800, thirdYear: 11900, subsequent: 7160, suvOver6000: 30500 },
+    standardMileageRate: 0.67,
+  },
+  estateExemptionPerPerson: 13_610_000,
+  foreignEarnedIncomeExclusion: 126_500,
+  informationReturns: { form1099NEC: 600, form1099K: 20000, form1099KTransactions: 200 },
+}
+
+// 2025 reflects the July 2025 reconciliation act (higher standard deduction,
+// $2,200 CTC, $40k SALT cap, 100% bonus depreciation, $2.5M §179).
+const TY2025: TaxYearParameters = {
+  year: 2025,
+  isProjected: false,
+  federalBrackets: {
+    single: brackets([11925, 48475, 103350, 197300, 250525, 626350]),
+    married_joint: brackets([23850, 96950, 206700, 394600, 501050, 751600]),
+    married_separate: brackets([11925, 48475, 103350, 197300, 250525, 375800]),
+    head_of_household: brackets([17000, 64850, 103350, 197300, 250500, 626350]),
+  },
+  standardDeduction: { single: 15750, married_joint: 31500, married_separate: 15750, head_of_household: 23625 },
+  ltcgBreakpoints: {
+    single: { zeroMax: 48350, fifteenMax: 533400 },
+    married_joint: { zeroMax: 96700, fifteenMax: 600050 },
+    married_separate: { zeroMax: 48350, fifteenMax: 300000 },
+    head_of_household: { zeroMax: 64750, fifteenMax: 566700 },
+  },
+  socialSecurityWageBase: 176100,
+  amt: {
+    exemption: { single: 88100, married_joint: 137000, married_separate: 68500, head_of_household: 88100 },
+    phaseoutStart: { single: 626350, married_joint: 1252700, married_separate: 626350, head_of_household: 626350 },
+    phaseoutRate: 0.25,
+    rate2Threshold: { single: 239100, married_joint: 239100, married_separate: 119550, head_of_household: 239100 },
+  },
+  qbi: {
+    threshold: { single: 197300, married_joint: 394600, married_separate: 197300, head_of_household: 197300 },
+    phaseInRange: { single: 50000, married_joint: 100000, married_separate: 50000, head_of_household: 50000 },
+  },
+  retirement: { annualAdditionsLimit: 70000, electiveDeferral: 23500, catchUp50: 7500, iraContribution: 7000 },
+  saltCap: 40000,
+  kiddieTaxIncrement: 1350,
+  credits: {
+    childTaxCredit: 2200,
+    childTaxCreditRefundable: 1700,
+    eitc: eitc(
+      [649, 4328, 7152, 8046],
+      { single: [10620, 23350], joint: [17730, 30470] },
+      [19104, 50434, 57310, 61555],
+      [26214, 57554, 64430, 68675],
+    ),
+    eitcInvestmentIncomeLimit: 11950,
+    saversCredit: {
+      single: [{ maxAGI: 23750, rate: 0.50 }, { maxAGI: 25750, rate: 0.20 }, { maxAGI: 39500, rate: 0.10 }],
+      married_joint: [{ maxAGI: 47500, rate: 0.50 }, { maxAGI: 51500, rate: 0.20 }, { maxAGI: 79000, rate: 0.10 }],
+      head_of_household: [{ maxAGI: 35625, rate: 0.50 }, { maxAGI: 38625, rate: 0.20 }, { maxAGI: 59250, rate: 0.10 }],
+    },
+    acaFplSingle: 15060,
+  },
+  depreciation: {
+    section179Limit: 2500000,
+    section179PhaseoutStart: 4000000,
+    bonusRate: 1.00,
+    vehicleLimits: { firstYear_withBonus: 20200, firstYear_noBonus: 12200, secondYear: 19600, thirdYear: 11800, subsequent: 7060, suvOver6000: 31300 },
+    standardMileageRate: 0.70,
+  },
+  estateExemptionPerPerson: 13_990_000,
+  foreignEarnedIncomeExclusion: 130_000,
+  informationReturns: { form1099NEC: 600, form1099K: 20000, form1099KTransactions: 200 },
+}
+
+// 2026: AMT phase-out resets to $500k/$1M at 50%, QBI phase-in widens to
+// $75k/$150k, estate exemption set to $15M.
+const TY2026: TaxYearParameters = {
+  year: 2026,
+  isProjected: false,
+  federalBrackets: {
+    single: brackets([12400, 50400, 105700, 201775, 256225, 640600]),
+    married_joint: brackets([24800, 100800, 211400, 403550, 512450, 768700]),
+    married_separate: brackets([12400, 50400, 105700, 201775, 256225, 384350]),
+    head_of_household: brackets([17700, 67450, 105700, 201750, 256200, 640600]),
+  },
+  standardDeduction: { single: 16100, married_joint: 32200, married_separate: 16100, head_of_household: 24150 },
+  ltcgBreakpoints: {
+    single: { zeroMax: 49450, fifteenMax: 545500 },
+    married_joint: { zeroMax: 98900, fifteenMax: 613700 },
+    married_separate: { zeroMax: 49450, fifteenMax: 306850 },
+    head_of_household: { zeroMax: 66200, fifteenMax: 579600 },
+  },
+  socialSecurityWageBase: 184500,
+  amt: {
+    exemption: { single: 90100, married_joint: 140200, married_separate: 70100, head_of_household: 90100 },
+    phaseoutStart: { single: 500000, married_joint: 1000000, married_separate: 500000, head_of_household: 500000 },
+    phaseoutRate: 0.50,
+    rate2Threshold: { single: 244500, married_joint: 244500, married_separate: 122250, head_of_household: 244500 },
+  },
+  qbi: {
+    threshold: { single: 201750, married_joint: 403500, married_separate: 201750, head_of_household: 201750 },
+    phaseInRange: { single: 75000, married_joint: 150000, married_separate: 75000, head_of_household: 75000 },
+  },
+  retirement: { annualAdditionsLimit: 72000, electiveDeferral: 24500, catchUp50: 8000, iraContribution: 7500 },
+  saltCap: 40400,
+  kiddieTaxIncrement: 1350,
+  credits: {
+    childTaxCredit: 2200,
+    childTaxCreditRefundable: 1700,
+    eitc: eitc(
+      [664, 4427, 7316, 8231],
+      { single: [10860, 23890], joint: [18140, 31160] },
+      [19540, 51593, 58629, 62974],
+      [26820, 58863, 65899, 70244],
+    ),
+    eitcInvestmentIncomeLimit: 12200,
+    saversCredit: {
+      single: [{ maxAGI: 24250, rate: 0.50 }, { maxAGI: 26250, rate: 0.20 }, { maxAGI: 40250, rate: 0.10 }],
+      married_joint: [{ maxAGI: 48500, rate: 0.50 }, { maxAGI: 52500, rate: 0.20 }, { maxAGI: 80500, rate: 0.10 }],
+      head_of_household: [{ maxAGI: 36375, rate: 0.50 }, { maxAGI: 39375, rate: 0.20 }, { maxAGI: 60375, rate: 0.10 }],
+    },
+    acaFplSingle: 15650,
+  },
+  depreciation: {
+    section179Limit: 2560000,
+    section179PhaseoutStart: 4090000,
+    bonusRate: 1.00,
+    // Luxury auto caps not yet published — carried from 2025
+    vehicleLimits: { firstYear_withBonus: 20200, firstYear_noBonus: 12200, secondYear: 19600, thirdYear: 11800, subsequent: 7060, suvOver6000: 32000 },
+    standardMileageRate: 0.725,
+  },
+  estateExemptionPerPerson: 15_000_000,
+  foreignEarnedIncomeExclusion: 132_900,
+  // $2,000 NEC threshold for payments after 2025, indexed from 2027
+  informationReturns: { form1099NEC: 2000, form1099K: 20000, form1099KTransactions: 200 },
+}
+
+const TAX_PARAMETERS: Record<number, TaxYearParameters> = {
+  2023: TY2023,
+  2024: TY2024,
+  2025: TY2025,
+  2026: TY2026,
+}
+
+const SUPPORTED_YEARS = Object.keys(TAX_PARAMETERS).map(Number).sort((a, b) => a - b)
+const FIRST_YEAR = SUPPORTED_YEARS[0]
+const LATEST_YEAR = SUPPORTED_YEARS[SUPPORTED_YEARS.length - 1]
+
+/** Assumed annual chained-CPI growth used to project unpublished years */
+export const DEFAULT_INFLATION_RATE = 0.025
+
+// ===================================================================
+//  INFLATION INDEXING
+// ===================================================================
+
+function indexAmount(value: number, factor: number, step = 50): number {
+  if (!Number.isFinite(value)) return value
+  return Math.round((value * factor) / step) * step
+}
+
+function indexByStatus(values: ByFilingStatus<number>, factor: number, step = 50): ByFilingStatus<number> {
+  return {
+    single: indexAmount(values.single, factor, step),
+    married_joint: indexAmount(values.married_joint, factor, step),
+    married_separate: indexAmount(values.married_separate, factor, step),
+    head_of_household: indexAmount(values.head_of_household, factor, step),
+  }
+}
+
+function indexBrackets(schedule: ByFilingStatus<TaxBracket[]>, factor: number): ByFilingStatus<TaxBracket[]> {
+  const index = (rows: TaxBracket[]) => rows.map(b => ({
+    min: indexAmount(b.min, factor),
+    max: indexAmount(b.max, factor),
+    rate: b.rate,
+  }))
+  return {
+    single: index(schedule.single),
+    married_joint: index(schedule.married_joint),
+    married_separate: index(schedule.married_separate),
+    head_of_household: index(schedule.head_of_household),
+  }
+}
+
+/**
+ * Project a published year forward. Dollar thresholds grow with inflation;
+ * rates and statutory (non-indexed) amounts such as the SALT cap and the
+ * QBI phase-in range are carried unchanged.
+ */
+function projectParameters(base: TaxYearParameters, year: number, inflationRate: number): TaxYearParameters {
+  const factor = Math.pow(1 + inflationRate, year - base.year)
+  const eitcRow = (r: EITCParameters): EITCParameters => ({
+    maxCredit: indexAmount(r.maxCredit, factor, 1),
+    phaseoutStart_single: indexAmount(r.phaseoutStart_single, factor, 10),
+    phaseoutEnd_single: indexAmount(r.phaseoutEnd_single, factor, 10),
+    phaseoutStart_joint: indexAmount(r.phaseoutStart_joint, factor, 10),
+    phaseoutEnd_joint: indexAmount(r.phaseoutEnd_joint, factor, 10),
+  })
+  const saversRows = (rows: { maxAGI: number; rate: number }[]) =>
+    rows.map(r => ({ maxAGI: indexAmount(r.maxAGI, factor, 250), rate: r.rate }))
+  const ltcg = (k: FilingStatus) => ({
+    zeroMax: indexAmount(base.ltcgBreakpoints[k].zeroMax, factor),
+    fifteenMax: indexAmount(base.ltcgBreakpoints[k].fifteenMax, factor),
+  })
+  const v = base.depreciation.vehicleLimits
+
+  return {
+    ...base,
+    year,
+    isProjected: true,
+    federalBrackets: indexBrackets(base.federalBrackets, factor),
+    standardDeduction: indexByStatus(base.standardDeduction, factor),
+    ltcgBreakpoints: {
+      single: ltcg('single'),
+      married_joint: ltcg('married_joint'),
+      married_separate: ltcg('married_separate'),
+      head_of_household: ltcg('head_of_household'),
+    },
+    socialSecurityWageBase: indexAmount(base.socialSecurityWageBase, factor, 300),
+    amt: {
+      ...base.amt,
+      exemption: indexByStatus(base.amt.exemption, factor, 100),
+      phaseoutStart: indexByStatus(base.amt.phaseoutStart, factor, 100),
+      rate2Threshold: indexByStatus(base.amt.rate2Threshold, factor, 100),
+    },
+    qbi: {
+      ...base.qbi,
+      threshold: indexByStatus(base.qbi.threshold, factor),
+    },
+    retirement: {
+      annualAdditionsLimit: indexAmount(base.retirement.annualAdditionsLimit, factor, 1000),
+      electiveDeferral: indexAmount(base.retirement.electiveDeferral, factor, 500),
+      catchUp50: indexAmount(base.retirement.catchUp50, factor, 500),
+      iraContribution: indexAmount(base.retirement.iraContribution, factor, 500),
+    },
+    kiddieTaxIncrement: indexAmount(base.kiddieTaxIncrement, factor),
+    credits: {
+      ...base.credits,
+      childTaxCredit: indexAmount(base.credits.childTaxCredit, factor, 100),
+      eitc: { 0: eitcRow(base.credits.eitc[0]), 1: eitcRow(base.credits.eitc[1]), 2: eitcRow(base.credits.eitc[2]), 3: eitcRow(base.credits.eitc[3]) },
+      eitcInvestmentIncomeLimit: indexAmount(base.credits.eitcInvestmentIncomeLimit, factor),
+      saversCredit: {
+        single: saversRows(base.credits.saversCredit.single),
+        married_joint: saversRows(base.credits.saversCredit.married_joint),
+        head_of_household: saversRows(base.credits.saversCredit.head_of_household),
+      },
+      acaFplSingle: indexAmount(base.credits.acaFplSingle, factor, 10),
+    },
+    depreciation: {
+      ...base.depreciation,
+      section179Limit: indexAmount(base.depreciation.section179Limit, factor, 10000),
+      section179PhaseoutStart: indexAmount(base.depreciation.section179PhaseoutStart, factor, 10000),
+      vehicleLimits: {
+        firstYear_withBonus: indexAmount(v.firstYear_withBonus, factor, 100),
+        firstYear_noBonus: indexAmount(v.firstYear_noBonus, factor, 100),
+        secondYear: indexAmount(v.secondYear, factor, 100),
+        thirdYear: indexAmount(v.thirdYear, factor, 100),
+        subsequent: indexAmount(v.subsequent, factor, 10),
+        suvOver6000: indexAmount(v.suvOver6000, factor, 100),
+      },
+    },
+    estateExemptionPerPerson: indexAmount(base.estateExemptionPerPerson, factor, 10000),
+    foreignEarnedIncomeExclusion: indexAmount(base.foreignEarnedIncomeExclusion, factor, 100),
+    informationReturns: {
+      ...base.informationReturns,
+      form1099NEC: indexAmount(base.informationReturns.form1099NEC, factor, 100),
+    },
+  }
+}
+
+// ===================================================================
+//  PUBLIC API
+// ===================================================================
+
+const projectionCache = new Map<string, TaxYearParameters>()
+
+/** Resolve an optional tax year to a concrete one (defaults to the calendar year) */
+export function resolveTaxYear(taxYear?: number | null): number {
+  return taxYear && Number.isFinite(taxYear) ? Math.trunc(taxYear) : new Date().getFullYear()
+}
+
+/**
+ * Tax parameters for a given year.
+ * Published years return the stored law; years after the latest published
+ * year are inflation-indexed from it; years before 2023 use 2023 law.
+ */
+export function getTaxParameters(taxYear?: number | null, inflationRate: number = DEFAULT_INFLATION_RATE): TaxYearParameters {
+  const year = resolveTaxYear(taxYear)
+  if (TAX_PARAMETERS[year]) return TAX_PARAMETERS[year]
+  if (year < FIRST_YEAR) return TAX_PARAMETERS[FIRST_YEAR]
+
+  const key = `${year}:${inflationRate}`
+  let projected = projectionCache.get(key)
+  if (!projected) {
+    projected = projectParameters(TAX_PARAMETERS[LATEST_YEAR], year, inflationRate)
+    projectionCache.set(key, projected)
+  }
+  return projected
+}
+
+/** Years with published (non-projected) parameters */
+export function getPublishedTaxYears(): number[] {
+  return [...SUPPORTED_YEARS]
+}
+
+/** Bracket schedule for a filing status, falling back to single */
+export function getFederalBrackets(filingStatus: string, taxYear?: number | null): TaxBracket[] {
+  const params = getTaxParameters(taxYear)
+  return params.federalBrackets[filingStatus as FilingStatus] || params.federalBrackets.single
+}
+
+/** Standard deduction for a filing status, falling back to single */
+export function getStandardDeduction(filingStatus: string, taxYear?: number | null): number {
+  const params = getTaxParameters(taxYear)
+  return params.standardDeduction[filingStatus as FilingStatus] ?? params.standardDeduction.single
+}
+
+/** Look up any per-filing-status value with a single fallback */
+export function byStatus<T>(values: ByFilingStatus<T>, filingStatus: string): T {
+  return values[filingStatus as FilingStatus] ?? values.single
+}
@@ -195,39 +195,6 @@ function detectEntityTaxCreditNexus(
   return null
 }
 
-function detectTCJARetirementNexus(
-  multiYear: MultiYearAnalysis,
-  tax: TaxReport,
-): NexusInsight | null {
-  // If TCJA sunset is within projection window AND retirement gap exists — front-load
-  const sunsetYear = multiYear.baseline.find(y => y.bracketRegime === 'pre_tcja')
-  if (!sunsetYear || tax.retirementGap <= 0) return null
-
-  const yearsUntilSunset = sunsetYear.year - new Date().getFullYear()
-  const totalFrontLoad = Math.round(tax.retirementGap * yearsUntilSunset)
-  const postSunsetRate = sunsetYear.marginalRate
-  const rateGap = postSunsetRate - tax.marginalRate
-
-  if (rateGap > 0.02) {
-    const additionalSavings = Math.round(totalFrontLoad * rateGap)
-    return {
-      id: 'tcja-retirement-nexus',
-      title: 'Front-Load Retirement Before TCJA Sunset',
-      description: `${yearsUntilSunset} years until bracket increases. Maxing retirement contributions now deducts at ${(tax.marginalRate * 100).toFixed(0)}% — after sunset, rates jump to ${(postSunsetRate * 100).toFixed(0)}%. Front-loading saves an extra $${additionalSavings.toLocaleString()}.`,
-      engines: ['multi-year-tax', 'retirement-optimizer', 'tax-calculator'],
-      impact: additionalSavings,
-      priority: 'high',
-      category: 'timing',
-      actions: [
-        { label: 'Multi-Year Projection', view: 'multiyear', detail: 'See TCJA sunset impact on your rates' },
-        { label: 'Retirement Vehicles', view: 'retirement', detail: 'Compare contribution limits and vehicles' },
-      ],
-      reasoning: `Each $1 deducted pre-sunset saves ${(tax.marginalRate * 100).toFixed(0)}¢. Post-sunset, the same deduction saves ${(postSunsetRate * 100).toFixed(0)}¢ — but you've already locked in the higher-value deduction. Over ${yearsUntilSunset} years, the rate differential on $${totalFrontLoad.toLocaleString()} in contributions yields $${additionalSavings.toLocaleString()} extra savings.`,
-    }
-  }
-  return null
-}
-
 function detectAuditProtectionNexus(
   audit: AuditRiskProfile,
   tax: TaxReport,
@@ -515,9 +482,6 @@ export function runUnifiedIntelligence(state: FortunaState): UnifiedIntelligence
   const n3 = detectEntityTaxCreditNexus(taxReport, credits, state)
   if (n3) nexusInsights.push(n3)
 
-  const n4 = detectTCJARetirementNexus(multiYear, taxReport)
-  if (n4) nexusInsights.push(n4)
-
   const n5 = detectAuditProtectionNexus(auditRisk, taxReport, state)
   if (n5) nexusInsights.push(n5)
 
@@ -805,10 +769,7 @@ export function buildIntelligenceBrief(intel: UnifiedIntelligence): string {
   const my = intel.multiYear
   sections.push(`MULTI-YEAR PROJECTION (${my.baseline.length} years):`)
   for (const yr of my.baseline) {
-    sections.push(`  ${yr.year}: Income $${yr.grossIncome.toLocaleString()} | Tax $${yr.totalTax.toLocaleString()} | Eff ${(yr.effectiveRate * 100).toFixed(1)}% | Marginal ${(yr.marginalRate * 100).toFixed(0)}% | ${yr.bracketRegime === 'pre_tcja' ? '⚠️ POST-TCJA' : 'TCJA'}`)
-  }
-  if (my.tcjaSunsetImpact > 0) {
-    sections.push(`  TCJA Sunset Impact: +$${my.tcjaSunsetImpact.toLocaleString()}/yr additional tax`)
+    sections.push(`  ${yr.year}: Income $${yr.grossIncome.toLocaleString()} | Tax $${yr.totalTax.toLocaleString()} | Eff ${(yr.effectiveRate * 100).toFixed(1)}% | Marginal ${(yr.marginalRate * 100).toFixed(0)}%`)
   }
   sections.push(`  Bracket Headroom: $${my.bracketHeadroom.toLocaleString()} before next rate jump`)
 
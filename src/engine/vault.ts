@@ -0,0 +1,243 @@
+/**
+ * Fortuna Engine — Vault (client-side encryption at rest)
+ *
+ * Opt-in passphrase protection for persisted financial data:
+ *  - PBKDF2-SHA256 key derivation (600k iterations) → AES-256-GCM
+ *  - Session key held in memory only (non-extractable CryptoKey)
+ *  - Auto-lock after a period of user inactivity
+ *  - Passphrase-sealed envelopes for portable export bundles
+ *
+ * Pure crypto + session state only; persistence of the vault metadata and
+ * sealed records lives in storage.ts.
+ */
+
+// ===================================================================
+//  TYPES
+// ===================================================================
+
+export interface VaultEnvelope {
+  _vault: 'fortuna-vault'
+  v: 1
+  alg: 'AES-GCM'
+  iv: string          // base64, 12 bytes
+  ciphertext: string  // base64
+}
+
+/** Envelope that carries its own KDF salt — decryptable with only the passphrase */
+export interface PassphraseEnvelope extends VaultEnvelope {
+  kdf: 'PBKDF2-SHA256'
+  iterations: number
+  salt: string        // base64, 16 bytes
+}
+
+/** Persisted vault configuration (never contains the key) */
+export interface VaultMeta {
+  enabled: boolean
+  kdf: 'PBKDF2-SHA256'
+  iterations: number
+  salt: string
+  verifier: VaultEnvelope   // Known plaintext sealed with the key, used to check passphrases
+  autoLockMinutes: number   // 0 = never
+  createdAt: string
+}
+
+export type VaultErrorCode = 'LOCKED' | 'BAD_PASSPHRASE' | 'UNSUPPORTED' | 'CORRUPT' | 'STORAGE' | 'INVALID_STATE'
+
+export class VaultError extends Error {
+  code: VaultErrorCode
+
+  constructor(message: string, code: VaultErrorCode) {
+    super(message)
+    this.name = 'VaultError'
+    this.code = code
+  }
+}
+
+// ===================================================================
+//  CONSTANTS
+// ===================================================================
+
+export const VAULT_KDF_ITERATIONS = 600_000
+export const DEFAULT_AUTO_LOCK_MINUTES = 15
+export const MIN_PASSPHRASE_LENGTH = 10
+const VERIFIER_PLAINTEXT = 'fortuna-vault-verifier'
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const
+
+// ===================================================================
+//  ENCODING
+// ===================================================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary)
+}
+
+function fromBase64(b64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(b64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+function subtle(): SubtleCrypto {
+  const s = globalThis.crypto?.subtle
+  if (!s) throw new VaultError('WebCrypto is not available in this browser', 'UNSUPPORTED')
+  return s
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length))
+}
+
+// ===================================================================
+//  PRIMITIVES
+// ===================================================================
+
+export function isVaultSupported(): boolean {
+  return !!globalThis.crypto?.subtle
+}
+
+export function isVaultEnvelope(value: unknown): value is VaultEnvelope {
+  return !!value && typeof value === 'object' && (value as VaultEnvelope)._vault === 'fortuna-vault'
+}
+
+export function isPassphraseEnvelope(value: unknown): value is PassphraseEnvelope {
+  return isVaultEnvelope(value) && typeof (value as PassphraseEnvelope).salt === 'string'
+}
+
+export async function deriveKey(passphrase: string, salt: string, iterations: number = VAULT_KDF_ITERATIONS): Promise<CryptoKey> {
+  const material = await subtle().importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return subtle().deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+export function generateSalt(): string {
+  return toBase64(randomBytes(16))
+}
+
+export async function encryptJSON(value: unknown, key: CryptoKey): Promise<VaultEnvelope> {
+  const iv = randomBytes(12)
+  const data = new TextEncoder().encode(JSON.stringify(value))
+  const ciphertext = new Uint8Array(await subtle().encrypt({ name: 'AES-GCM', iv }, key, data))
+  return { _vault: 'fortuna-vault', v: 1, alg: 'AES-GCM', iv: toBase64(iv), ciphertext: toBase64(ciphertext) }
+}
+
+export async function decryptJSON<T>(envelope: VaultEnvelope, key: CryptoKey): Promise<T> {
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await subtle().decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.ciphertext))
+  } catch {
+    // GCM auth failure: wrong key or tampered ciphertext
+    throw new VaultError('Could not decrypt — wrong passphrase or corrupted data', 'BAD_PASSPHRASE')
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T
+  } catch {
+    throw new VaultError('Decrypted data is not valid JSON', 'CORRUPT')
+  }
+}
+
+/** Seal a value with a fresh salt so only the passphrase is needed to open it */
+export async function encryptWithPassphrase(value: unknown, passphrase: string): Promise<PassphraseEnvelope> {
+  const salt = generateSalt()
+  const key = await deriveKey(passphrase, salt)
+  const envelope = await encryptJSON(value, key)
+  return { ...envelope, kdf: 'PBKDF2-SHA256', iterations: VAULT_KDF_ITERATIONS, salt }
+}
+
+export async function decryptWithPassphrase<T>(envelope: PassphraseEnvelope, passphrase: string): Promise<T> {
+  const key = await deriveKey(passphrase, envelope.salt, envelope.iterations)
+  return decryptJSON<T>(envelope, key)
+}
+
+// ===================================================================
+//  VAULT METADATA
+// ===================================================================
+
+export async function createVaultMeta(passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<{ meta: VaultMeta; key: CryptoKey }> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new VaultError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`, 'BAD_PASSPHRASE')
+  }
+  const salt = generateSalt()
+  const key = await deriveKey(passphrase, salt)
+  const verifier = await encryptJSON(VERIFIER_PLAINTEXT, key)
+  return {
+    meta: {
+      enabled: true,
+      kdf: 'PBKDF2-SHA256',
+      iterations: VAULT_KDF_ITERATIONS,
+      salt,
+      verifier,
+      autoLockMinutes,
+      createdAt: new Date().toISOString(),
+    },
+    key,
+  }
+}
+
+/** Derive the key for an existing vault and confirm it against the verifier */
+export async function openVault(meta: VaultMeta, passphrase: string): Promise<CryptoKey> {
+  const key = await deriveKey(passphrase, meta.salt, meta.iterations)
+  const check = await decryptJSON<string>(meta.verifier, key)
+  if (check !== VERIFIER_PLAINTEXT) throw new VaultError('Incorrect passphrase', 'BAD_PASSPHRASE')
+  return key
+}
+
+// ===================================================================
+//  SESSION (in-memory key + auto-lock)
+// ===================================================================
+
+let sessionKey: CryptoKey | null = null
+let idleTimer: ReturnType<typeof setTimeout> | null = null
+let idleMinutes = 0
+const lockListeners = new Set<() => void>()
+
+export function getSessionKey(): CryptoKey | null {
+  return sessionKey
+}
+
+export function setSessionKey(key: CryptoKey, autoLockMinutes: number): void {
+  sessionKey = key
+  idleMinutes = autoLockMinutes
+  startIdleWatch()
+}
+
+export function lockSession(): void {
+  const wasUnlocked = sessionKey !== null
+  sessionKey = null
+  stopIdleWatch()
+  if (wasUnlocked) lockListeners.forEach(fn => fn())
+}
+
+/** Subscribe to lock events (manual or idle); returns an unsubscribe function */
+export function onVaultLock(listener: () => void): () => void {
+  lockListeners.add(listener)
+  return () => lockListeners.delete(listener)
+}
+
+function resetIdleTimer(): void {
+  if (idleTimer) clearTimeout(idleTimer)
+  if (idleMinutes > 0 && sessionKey) {
+    idleTimer = setTimeout(lockSession, idleMinutes * 60_000)
+  }
+}
+
+function startIdleWatch(): void {
+  stopIdleWatch()
+  if (typeof window === 'undefined' || idleMinutes <= 0) return
+  ACTIVITY_EVENTS.forEach(ev => window.addEventListener(ev, resetIdleTimer, { passive: true }))
+  resetIdleTimer()
+}
+
+function stopIdleWatch(): void {
+  if (idleTimer) clearTimeout(idleTimer)
+  idleTimer = null
+  if (typeof window === 'undefined') return
+  ACTIVITY_EVENTS.forEach(ev => window.removeEventListener(ev, resetIdleTimer))
+}
@@ -1,4 +1,5 @@
 import { sendAIMessage, type ProviderId } from './ai-providers'
+import type { Redactor } from './ai-redaction'
 import { type DocumentType, type DocumentRecord, type ReceiptItem, genId } from './storage'
 
 export interface VisionDocumentResult {
@@ -62,7 +63,8 @@ export async function processDocumentImage(
     base64Image: string,
     provider: ProviderId = 'openrouter',
     model: string = 'google/gemini-2.0-flash-001',
-    previousContext?: { summary: string; type: string; merchant?: string }
+    previousContext?: { summary: string; type: string; merchant?: string },
+    redactor?: Redactor          // Redacts the text context; the image itself is sent as-is
 ): Promise<VisionDocumentResult> {
     try {
         const thumbnailPromise = createThumbnail(base64Image)
@@ -87,7 +89,8 @@ export async function processDocumentImage(
                 provider,
                 model,
                 clientKeys: {}
-            }
+            },
+            { redactor }
         )
 
         const thumbnail = await thumbnailPromise
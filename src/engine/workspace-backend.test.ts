@@ -0,0 +1,153 @@
+/**
+ * Fortuna Engine — Workspace Backend Tests
+ *
+ * Exercises the Netlify workspace handlers against an in-memory blob store:
+ *   1. Workspace lifecycle and the workspace-api.ts response shapes
+ *   2. Role enforcement (owner/admin/member/viewer)
+ *   3. Invite expiry, max uses and email restriction
+ *   4. Shared state versioning and the activity log
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { handleWorkspaceRequest, type BlobStore, type WorkspaceDeps } from '../../netlify/functions/_shared/workspace-core.mts'
+import { signJWT } from '../../netlify/functions/_shared/jwt.mts'
+import type { Workspace, WorkspacePermissions, ActivityEntry } from './workspace-api'
+
+const SECRET = 'test-secret'
+
+/** Every field the workspace-api.ts calls read, across actions and error bodies */
+interface ApiResponse {
+  workspace: Workspace
+  workspaces: Workspace[]
+  my_role: Workspace['role']
+  permissions: WorkspacePermissions
+  invite_code: string
+  joined: boolean
+  left: boolean
+  message: string
+  code: string
+  version: number
+  state_data: unknown
+  last_edited_by: string
+  activity: ActivityEntry[]
+}
+
+function memoryStore(): BlobStore & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>()
+  return {
+    data,
+    async get(key) { return data.has(key) ? structuredClone(data.get(key)) : null },
+    async setJSON(key, value) { data.set(key, structuredClone(value)) },
+    async delete(key) { data.delete(key) },
+  }
+}
+
+describe('workspace backend', () => {
+  let deps: WorkspaceDeps
+  let clock: Date
+  const tokens: Record<string, string> = {}
+
+  async function call<T = ApiResponse>(user: string, action: string, body?: object, params = ''): Promise<{ status: number; data: T }> {
+    const req = new Request(`https://fortuna.test/api/workspace.php?action=${action}${params}`, {
+      method: body ? 'POST' : 'GET',
+      headers: { Authorization: `Bearer ${tokens[user]}`, 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    const res = await handleWorkspaceRequest(req, deps)
+    return { status: res.status, data: await res.json() as T }
+  }
+
+  beforeEach(async () => {
+    const users = memoryStore()
+    clock = new Date('2026-03-01T12:00:00Z')
+    deps = { workspaces: memoryStore(), users, secret: SECRET, now: () => clock }
+    for (const name of ['alice', 'bob', 'carol']) {
+      await users.setJSON(`user:${name}`, { id: name, email: `${name}@example.com`, display_name: name })
+      tokens[name] = await signJWT({ sub: name, email: `${name}@example.com`, type: 'access' }, SECRET)
+    }
+  })
+
+  async function workspaceWith(role: string, joiner = 'bob'): Promise<number> {
+    const { data } = await call('alice', 'create', { name: 'Family Office' })
+    const invite = await call('alice', 'invite', { workspace_id: data.workspace.id, role })
+    await call(joiner, 'join', { invite_code: invite.data.invite_code })
+    return data.workspace.id
+  }
+
+  it('should create, list and describe workspaces', async () => {
+    const created = await call('alice', 'create', { name: 'Family Office', description: 'Shared books' })
+    expect(created.data.workspace).toMatchObject({ name: 'Family Office', role: 'owner', member_count: 1 })
+
+    const list = await call('alice', 'list')
+    expect(list.data.workspaces).toHaveLength(1)
+
+    const detail = await call('alice', 'get', undefined, `&id=${created.data.workspace.id}`)
+    expect(detail.data.my_role).toBe('owner')
+    expect(detail.data.permissions.can_manage_members).toBe(true)
+
+    const outsider = await call('bob', 'get', undefined, `&id=${created.data.workspace.id}`)
+    expect(outsider.status).toBe(403)
+  })
+
+  it('should enforce roles on data, members and keys', async () => {
+    const id = await workspaceWith('viewer')
+
+    const save = await call('bob', 'save_state', { workspace_id: id, state_data: { a: 1 } })
+    expect(save.status).toBe(403)
+    expect((await call('bob', 'add_key', { workspace_id: id, provider: 'openai', api_key: 'sk-123456789' })).status).toBe(403)
+
+    // Admins manage members but cannot touch the owner or grant admin
+    await call('alice', 'member_role', { workspace_id: id, target_user_uuid: 'bob', role: 'admin' })
+    expect((await call('bob', 'member_role', { workspace_id: id, target_user_uuid: 'alice', role: 'viewer' })).status).toBe(403)
+    expect((await call('bob', 'invite', { workspace_id: id, role: 'admin' })).status).toBe(403)
+    expect((await call('bob', 'invite', { workspace_id: id, role: 'member' })).status).toBe(200)
+
+    expect((await call('alice', 'leave', { workspace_id: id })).status).toBe(403)
+    expect((await call('bob', 'leave', { workspace_id: id })).data.left).toBe(true)
+  })
+
+  it('should honor invite expiry, max uses and email restriction', async () => {
+    const { data } = await call('alice', 'create', { name: 'Family Office' })
+    const id = data.workspace.id
+
+    const single = await call('alice', 'invite', { workspace_id: id, max_uses: 1, expires_hours: 24 })
+    expect((await call('bob', 'join', { invite_code: single.data.invite_code })).data.joined).toBe(true)
+    expect((await call('carol', 'join', { invite_code: single.data.invite_code })).data.code).toBe('INVITE_EXHAUSTED')
+
+    const expiring = await call('alice', 'invite', { workspace_id: id, max_uses: 5, expires_hours: 1 })
+    clock = new Date(clock.getTime() + 2 * 3600_000)
+    expect((await call('carol', 'join', { invite_code: expiring.data.invite_code })).data.code).toBe('INVITE_EXPIRED')
+
+    const restricted = await call('alice', 'invite', { workspace_id: id, email: 'someone@else.com' })
+    expect((await call('carol', 'join', { invite_code: restricted.data.invite_code })).data.code).toBe('INVITE_EMAIL_MISMATCH')
+  })
+
+  it('should version shared state and record activity', async () => {
+    const id = await workspaceWith('member')
+
+    const first = await call('bob', 'save_state', { workspace_id: id, state_data: { a: 1 }, expected_version: 0 })
+    expect(first.data.version).toBe(1)
+    const stale = await call('alice', 'save_state', { workspace_id: id, state_data: { a: 2 }, expected_version: 0 })
+    expect(stale.data.code).toBe('VERSION_CONFLICT')
+
+    const loaded = await call('alice', 'state', undefined, `&id=${id}`)
+    expect(loaded.data).toMatchObject({ state_data: { a: 1 }, version: 1, last_edited_by: 'bob' })
+
+    const activity = await call('alice', 'activity', undefined, `&id=${id}&limit=10`)
+    expect(activity.data.activity.map(a => a.action)).toEqual(
+      ['state_saved', 'member_joined', 'invite_created', 'workspace_created'],
+    )
+  })
+
+  it('should reject malformed request bodies before checking roles', async () => {
+    const id = await workspaceWith('viewer')
+
+    const list = await call('alice', 'create', [{ name: 'Family Office' }])
+    expect(list).toMatchObject({ status: 400, data: { message: 'Request body must be a JSON object' } })
+    const uses = await call('bob', 'invite', { workspace_id: id, max_uses: 'lots' })
+    expect(uses).toMatchObject({ status: 400, data: { message: 'max_uses must be a number' } })
+    const force = await call('bob', 'save_state', { workspace_id: id, state_data: {}, force: 'yes' })
+    expect(force).toMatchObject({ status: 400, data: { message: 'force must be true or false' } })
+    expect((await call('bob', 'save_state', { workspace_id: id, state_data: {} })).status).toBe(403)
+  })
+})
@@ -19,6 +19,14 @@ import {
 } from '../engine/history-engine'
 import { generateSessionDigest, type SessionDigest } from '../engine/session-digest'
 import { validateState, repairState, saveBackup, recoverFromBackups, logCorruption } from '../engine/data-safety'
+import { eventBus, detectStateChanges, type FortunaEvent } from '../engine/event-bus'
+import {
+  runAutomations, rulesForEvent, rulesForNewTransactions, dueScheduledRules, findNewTransactionIds,
+  AUTOMATION_EVENTS, type AutomationRule, type AutomationBatchResult, type AutomationSideEffect,
+} from '../engine/automation-engine'
+import { scheduleNotification, checkScheduledNotifications } from '../engine/pwa'
+import { enforceReconciliationLocks } from '../engine/reconciliation'
+import { enforcePeriodLocks } from '../engine/general-ledger'
 
 interface FortunaContextType {
   state: FortunaState
@@ -42,6 +50,8 @@ interface FortunaContextType {
   projections: Projection[]
   milestones: Milestone[]
   takeManualSnapshot: (description?: string) => void
+  // Automations
+  runAutomationRules: (rules: AutomationRule[], options?: { dryRun?: boolean; trigger?: string }) => AutomationBatchResult
   // Session intelligence
   sessionDigest: SessionDigest
   // Storage info
@@ -68,6 +78,10 @@ export function FortunaProvider({ children }: { children: ReactNode }) {
   const uxSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
   const autoSnapshotDone = useRef(false)
   const saveCount = useRef(0)
+  const stateRef = useRef(state)
+  const historyRef = useRef(history)
+  const prevStateRef = useRef<FortunaState | null>(null)
+  const automationWrite = useRef(false)
 
   // Load from storage on mount — with corruption recovery
   useEffect(() => {
@@ -135,7 +149,9 @@ export function FortunaProvider({ children }: { children: ReactNode }) {
 
   const updateState = useCallback((updater: (prev: FortunaState) => FortunaState) => {
     setStateRaw(prev => {
-      const next = updater(prev)
+      // Rows cleared by a completed bank reconciliation, or dated in a closed
+      // ledger period, can't be edited or removed
+      const next = enforcePeriodLocks(prev, enforceReconciliationLocks(prev, updater(prev)))
       return { ...next, lastUpdated: new Date().toISOString() }
     })
   }, [])
@@ -151,9 +167,9 @@ export function FortunaProvider({ children }: { children: ReactNode }) {
       Storage.saveFullState(state)
       // Dispatch event for AuthContext cloud sync listener
       window.dispatchEvent(new CustomEvent('fortuna:state-saved', { detail: state }))
-      // Backup rotation: create a backup every 5th save
+      // Backup rotation: create a backup every 5th save (plaintext, so skipped in vault mode)
       saveCount.current++
-      if (saveCount.current % 5 === 0) {
+      if (saveCount.current % 5 === 0 && !Storage.isVaultEnabled()) {
         try { saveBackup(state) } catch { /* non-critical */ }
       }
     }, 1000)
@@ -209,6 +225,92 @@ export function FortunaProvider({ children }: { children: ReactNode }) {
     Storage.saveFinancialHistory(updated)
   }, [state, history])
 
+  // ---- Automations ----
+
+  useEffect(() => { stateRef.current = state }, [state])
+  useEffect(() => { historyRef.current = history }, [history])
+
+  const executeSideEffect = useCallback((effect: AutomationSideEffect) => {
+    if (effect.kind === 'notify') {
+      scheduleNotification(effect.payload, new Date(effect.at))
+    } else {
+      const updated = addSnapshot(historyRef.current, captureSnapshot(stateRef.current, 'event', effect.description))
+      historyRef.current = updated
+      setHistory(updated)
+      Storage.saveFinancialHistory(updated)
+    }
+  }, [])
+
+  const applyAutomationResult = useCallback((result: AutomationBatchResult) => {
+    if (result.runs.length === 0) return
+    // Events caused by this write are tagged so rules can't retrigger themselves
+    automationWrite.current = true
+    stateRef.current = result.state
+    setState(result.state)
+    result.sideEffects.forEach(executeSideEffect)
+    eventBus.emit('action:automation_ran', { runIds: result.runs.map(r => r.id) }, 'automation')
+  }, [setState, executeSideEffect])
+
+  const runAutomationRules = useCallback((rules: AutomationRule[], options: { dryRun?: boolean; trigger?: string } = {}) => {
+    const result = runAutomations(rules, stateRef.current, { trigger: options.trigger || 'Manual', dryRun: options.dryRun })
+    if (!options.dryRun) applyAutomationResult(result)
+    return result
+  }, [applyAutomationResult])
+
+  // Publish state changes to the event bus
+  useEffect(() => {
+    if (loading) return
+    const prev = prevStateRef.current
+    prevStateRef.current = state
+    const source = automationWrite.current ? 'automation' : 'fortuna-state'
+    automationWrite.current = false
+    if (!prev) return
+
+    const types = detectStateChanges(prev as unknown as Record<string, unknown>, state as unknown as Record<string, unknown>)
+    if (types.length === 0) return
+    eventBus.startBatch()
+    for (const type of types) {
+      const payload = type === 'state:transactions_changed'
+        ? { addedIds: findNewTransactionIds(prev.auditHistory, state.auditHistory) }
+        : {}
+      eventBus.emit(type, payload, source)
+    }
+    eventBus.commitBatch()
+  }, [state, loading])
+
+  // Run event, new-transaction and scheduled rules
+  useEffect(() => {
+    if (loading) return
+
+    const unsubscribe = eventBus.onAny(AUTOMATION_EVENTS.map(e => e.event), (event: FortunaEvent) => {
+      if (event.source === 'automation') return
+      const rules = stateRef.current.automations || []
+      let result = runAutomations(rulesForEvent(rules, event.type), stateRef.current, { trigger: `Event: ${event.type}` })
+      const addedIds = (event.payload as { addedIds?: string[] }).addedIds || []
+      if (event.type === 'state:transactions_changed' && addedIds.length > 0) {
+        const txResult = runAutomations(rulesForNewTransactions(rules), result.state, {
+          trigger: `${addedIds.length} new transaction${addedIds.length === 1 ? '' : 's'}`,
+          transactionIds: addedIds,
+        })
+        result = { state: txResult.state, runs: [...result.runs, ...txResult.runs], sideEffects: [...result.sideEffects, ...txResult.sideEffects] }
+      }
+      applyAutomationResult(result)
+    })
+
+    const tick = () => {
+      const due = dueScheduledRules(stateRef.current.automations || [])
+      if (due.length > 0) applyAutomationResult(runAutomations(due, stateRef.current, { trigger: 'Schedule' }))
+      checkScheduledNotifications().catch(() => { /* notifications unavailable */ })
+    }
+    tick()
+    const timer = setInterval(tick, 60_000)
+
+    return () => {
+      unsubscribe()
+      clearInterval(timer)
+    }
+  }, [loading, applyAutomationResult])
+
   // ---- Computed values ----
 
   const netSEIncome = state.incomeStreams
@@ -220,7 +322,7 @@ export function FortunaProvider({ children }: { children: ReactNode }) {
   const strategies = detectStrategies(state)
   const risks = analyzeRisks(state)
   const healthScore = calculateHealthScore(state)
-  const entityComparison = compareEntities(Math.max(0, netSEIncome), state.profile)
+  const entityComparison = compareEntities(Math.max(0, netSEIncome), state.profile, state.taxYear)
 
   // History computed values
   const trends = computeTrends(history)
@@ -250,6 +352,7 @@ export function FortunaProvider({ children }: { children: ReactNode }) {
       uxPrefs, updateUXPrefs,
       taxReport, strategies, risks, healthScore, entityComparison,
       history, trends, strategyEffects, projections, milestones, takeManualSnapshot,
+      runAutomationRules,
       sessionDigest,
       storageBackend,
     }}>
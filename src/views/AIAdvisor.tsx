@@ -1,16 +1,25 @@
 import { useState, useRef, useEffect } from 'react'
 import { useFortuna } from '../hooks/useFortuna'
+import { useUndoRedo } from '../hooks/useUndoRedo'
 import { buildSystemPrompt, buildConversationMessages } from '../engine/ai-context'
 import { Storage, type AdvisorMessage } from '../engine/storage'
 import {
-  sendAIMessage, getAISettings, saveAISettings, getProviderIcon, getModelDisplayName,
-  fetchServerProviders, DEFAULT_PROVIDERS,
-  type AISettings, type ProviderId, type ProviderConfig,
+  sendAIMessage, sendAIMessageWithTools, getAISettings, saveAISettings, getProviderIcon, getModelDisplayName,
+  fetchServerProviders, fetchLocalModels, DEFAULT_PROVIDERS, DEFAULT_LOCAL_BASE_URL,
+  type AISettings, type ProviderId, type ProviderConfig, type AIResponse,
 } from '../engine/ai-providers'
+import {
+  FORTUNA_TOOLS, executeToolCall, applyStatePatch, describeStatePatch, validateStatePatch,
+  type StatePatch,
+} from '../engine/ai-tools'
+import {
+  createRedactor, resolveRedactionPolicy, getAIAuditLog, clearAIAuditLog, PII_KINDS,
+  type AIAuditEntry,
+} from '../engine/ai-redaction'
 import {
   Bot, Send, Sparkles, TrendingUp, Shield, DollarSign, Building2,
   Loader2, Trash2, HelpCircle, BookOpen, Target, PiggyBank,
-  Wallet, ChevronRight, MessageSquare, Settings, X
+  Wallet, ChevronRight, MessageSquare, Settings, X, Check, Wrench, Square
 } from 'lucide-react'
 
 // ─── Query Categories ──────────────────────────────────────────────────
@@ -101,8 +110,10 @@ const QUICK_STARTS = [
 // ─── Component ─────────────────────────────────────────────────────────
 
 export function AIAdvisor() {
-  const { state, taxReport, strategies, risks, healthScore } = useFortuna()
+  const { state, updateState, taxReport, strategies, risks, healthScore } = useFortuna()
+  const { execute } = useUndoRedo()
   const [messages, setMessages] = useState<AdvisorMessage[]>([])
+  const [proposals, setProposals] = useState<StatePatch[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [activeCategory, setActiveCategory] = useState<string | null>(null)
@@ -110,8 +121,12 @@ export function AIAdvisor() {
   const [aiSettings, setAISettings] = useState<AISettings>(getAISettings)
   const [serverProviders, setServerProviders] = useState<ProviderConfig[] | null>(null)
   const [lastModel, setLastModel] = useState<string | null>(null)
+  const [streamingText, setStreamingText] = useState<string | null>(null)
+  const [localModels, setLocalModels] = useState<string[] | null>(null)
+  const [auditLog, setAuditLog] = useState<AIAuditEntry[] | null>(null)
   const chatEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
 
   useEffect(() => {
     Storage.getAdvisorHistory().then(h => { if (h.length > 0) setMessages(h) })
@@ -123,14 +138,27 @@ export function AIAdvisor() {
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [messages, streamingText])
 
-  // Get available providers based on mode
+  // Models actually pulled on the local server
+  useEffect(() => {
+    if (aiSettings.provider !== 'local') return
+    let cancelled = false
+    fetchLocalModels(aiSettings.localBaseUrl || DEFAULT_LOCAL_BASE_URL, aiSettings.clientKeys.local)
+      .then(models => { if (!cancelled) setLocalModels(models) })
+    return () => { cancelled = true }
+  }, [aiSettings.provider, aiSettings.localBaseUrl, aiSettings.clientKeys.local])
+
+  // Get available providers based on mode; the local provider is always offered
+  const localProvider = DEFAULT_PROVIDERS.find(p => p.id === 'local')!
   const availableProviders: ProviderConfig[] = aiSettings.mode === 'proxy' && serverProviders
-    ? serverProviders
+    ? [...serverProviders.filter(p => p.id !== 'local'), localProvider]
     : DEFAULT_PROVIDERS
 
-  const currentProvider = availableProviders.find(p => p.id === aiSettings.provider)
+  const listedProvider = availableProviders.find(p => p.id === aiSettings.provider)
+  const currentProvider = listedProvider?.id === 'local' && localModels?.length
+    ? { ...listedProvider, models: localModels.includes(aiSettings.model) ? localModels : [aiSettings.model, ...localModels] }
+    : listedProvider
 
   const updateSettings = (partial: Partial<AISettings>) => {
     const updated = { ...aiSettings, ...partial }
@@ -152,32 +180,66 @@ export function AIAdvisor() {
     setInput('')
     setActiveCategory(null)
     setIsLoading(true)
+    setStreamingText('')
+    const controller = new AbortController()
+    abortRef.current = controller
+    let streamed = ''
+    const onToken = (delta: string) => {
+      streamed += delta
+      setStreamingText(streamed)
+    }
+
+    // PII is tokenized per the sharing policy and restored in the reply
+    const redactor = createRedactor(state, 'advisor', aiSettings.redaction)
 
     try {
-      const systemPrompt = await buildSystemPrompt(state)
+      const useTools = aiSettings.toolsEnabled !== false
+      const systemPrompt = await buildSystemPrompt(state, { tools: useTools })
       const conversationMessages = buildConversationMessages(
         updatedMessages.map(m => ({ role: m.role, content: m.content })),
         systemPrompt
-      )
-
-      const result = await sendAIMessage(
-        conversationMessages.map(m => ({ role: m.role as 'user' | 'assistant', content: m.content })),
-        systemPrompt,
-        aiSettings,
-      )
+      ).map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+
+      let result: AIResponse
+      if (useTools) {
+        // Engines run against the state as of this message; patches wait for approval
+        const proposed: StatePatch[] = []
+        result = await sendAIMessageWithTools(conversationMessages, systemPrompt, FORTUNA_TOOLS, call => {
+          const { result: toolResult, patch } = executeToolCall(state, call)
+          if (patch) proposed.push(patch)
+          return toolResult
+        }, aiSettings, { onToken, signal: controller.signal, redactor })
+        if (proposed.length > 0) setProposals(prev => [...prev, ...proposed])
+      } else {
+        result = await sendAIMessage(conversationMessages, systemPrompt, aiSettings, { onToken, signal: controller.signal, redactor })
+      }
 
       setLastModel(`${getProviderIcon(result.provider)} ${getModelDisplayName(result.model)}`)
 
-      const assistantMsg: AdvisorMessage = { role: 'assistant', content: result.text, timestamp: new Date().toISOString() }
+      // Streamed text covers every tool round; result.text is only the last
+      const assistantMsg: AdvisorMessage = { role: 'assistant', content: streamed || result.text, timestamp: new Date().toISOString() }
       const final = [...updatedMessages, assistantMsg]
       setMessages(final)
       await Storage.saveAdvisorHistory(final.slice(-40))
     } catch (err: any) {
+      if (err?.name === 'AbortError') {
+        // Keep whatever arrived before Stop
+        const partial: AdvisorMessage = {
+          role: 'assistant',
+          content: `${streamed}${streamed ? '\n\n' : ''}_(stopped)_`,
+          timestamp: new Date().toISOString(),
+        }
+        const final = [...updatedMessages, partial]
+        setMessages(final)
+        await Storage.saveAdvisorHistory(final.slice(-40))
+        return
+      }
       console.error('AI Advisor error:', err)
       // Show error message or fallback
       const errorContent = err.message?.includes('API key')
         || err.message?.includes('not configured')
         || err.message?.includes('API not configured')
+        || err.message?.includes('not reachable')
         ? `⚙️ **Setup Required**\n\n${err.message}\n\nClick the ⚙ icon in the header to configure your AI provider.`
         : buildFallback(taxReport, strategies, risks, healthScore)
 
@@ -188,12 +250,25 @@ export function AIAdvisor() {
       }
       setMessages(prev => [...prev, fallback])
     } finally {
+      abortRef.current = null
+      if (auditLog) setAuditLog(getAIAuditLog())
+      setStreamingText(null)
       setIsLoading(false)
       inputRef.current?.focus()
     }
   }
 
-  const clearHistory = async () => { setMessages([]); await Storage.saveAdvisorHistory([]) }
+  const stopResponse = () => abortRef.current?.abort()
+
+  const clearHistory = async () => { setMessages([]); setProposals([]); await Storage.saveAdvisorHistory([]) }
+
+  const approvePatch = (patch: StatePatch) => {
+    execute(`AI Advisor: ${patch.summary}`, () => updateState(prev => applyStatePatch(prev, patch)))
+    setProposals(prev => prev.filter(p => p.id !== patch.id))
+  }
+  const dismissPatch = (id: string) => setProposals(prev => prev.filter(p => p.id !== id))
+
+  const redactionPolicy = resolveRedactionPolicy(aiSettings.redaction)
   const hasData = state.incomeStreams.length > 0
 
   return (
@@ -310,8 +385,32 @@ export function AIAdvisor() {
             </div>
           )}
 
+          {/* Local server */}
+          {aiSettings.provider === 'local' && (
+            <div style={{ marginBottom: 12 }}>
+              <label style={{ fontSize: 11, color: 'var(--text-muted)', display: 'block', marginBottom: 4 }}>Local Server URL</label>
+              <input
+                type="text"
+                placeholder={DEFAULT_LOCAL_BASE_URL}
+                value={aiSettings.localBaseUrl || ''}
+                onChange={e => updateSettings({ localBaseUrl: e.target.value })}
+                style={{
+                  width: '100%', padding: '6px 8px', borderRadius: 6, fontSize: 12,
+                  background: 'var(--bg-hover)', border: '1px solid var(--border-subtle)',
+                  color: 'var(--text-primary)', outline: 'none', fontFamily: 'var(--font-mono)',
+                  boxSizing: 'border-box',
+                }}
+              />
+              <p style={{ fontSize: 10, color: localModels ? 'var(--text-muted)' : 'var(--accent-gold)', marginTop: 4 }}>
+                {localModels
+                  ? `Connected — ${localModels.length} model${localModels.length === 1 ? '' : 's'} installed. Your data never leaves this machine.`
+                  : 'Not reachable. Start Ollama (port 11434) or llama.cpp server (use http://localhost:8080/v1).'}
+              </p>
+            </div>
+          )}
+
           {/* Client API Key (direct mode only) */}
-          {aiSettings.mode === 'direct' && (
+          {aiSettings.mode === 'direct' && aiSettings.provider !== 'local' && (
             <div style={{ marginBottom: 8 }}>
               <label style={{ fontSize: 11, color: 'var(--text-muted)', display: 'block', marginBottom: 4 }}>
                 {currentProvider?.name || 'Provider'} API Key
@@ -336,6 +435,74 @@ export function AIAdvisor() {
             </div>
           )}
 
+          {/* Tool calling */}
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 11, color: 'var(--text-secondary)', marginBottom: 8, cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={aiSettings.toolsEnabled !== false}
+              onChange={e => updateSettings({ toolsEnabled: e.target.checked })}
+            />
+            <Wrench size={11} /> Let the advisor run calculations and propose edits (you approve each change)
+          </label>
+
+          {/* Privacy — per-field sharing policy */}
+          <div style={{ borderTop: '1px solid var(--border-subtle)', paddingTop: 10, marginTop: 4, marginBottom: 8 }}>
+            <label style={{ fontSize: 11, color: 'var(--text-muted)', display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+              <Shield size={11} /> What the AI sees
+            </label>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: 6 }}>
+              {PII_KINDS.map(({ kind, label }) => {
+                const shared = redactionPolicy[kind] === 'share'
+                return (
+                  <button
+                    key={kind}
+                    onClick={() => updateSettings({ redaction: { ...aiSettings.redaction, [kind]: shared ? 'redact' : 'share' } })}
+                    style={{
+                      display: 'flex', justifyContent: 'space-between', padding: '5px 8px', borderRadius: 6, fontSize: 11, cursor: 'pointer',
+                      border: '1px solid var(--border-subtle)', background: 'var(--bg-hover)', color: 'var(--text-secondary)',
+                    }}
+                  >
+                    <span>{label}</span>
+                    <span style={{ color: shared ? 'var(--accent-gold)' : 'var(--accent-emerald)' }}>{shared ? 'Shared' : 'Redacted'}</span>
+                  </button>
+                )
+              })}
+            </div>
+            <p style={{ fontSize: 10, color: 'var(--text-muted)', marginTop: 4 }}>
+              Redacted values are replaced with placeholders like [PERSON_1] before sending and restored in replies. Scanned images are sent as-is.
+            </p>
+            <button
+              onClick={() => setAuditLog(auditLog ? null : getAIAuditLog())}
+              className="btn btn-ghost" style={{ fontSize: 11, padding: '4px 10px', marginTop: 4 }}
+            >
+              {auditLog ? 'Hide' : 'Show'} AI audit log
+            </button>
+            {auditLog && (
+              <div style={{ marginTop: 6, maxHeight: 240, overflow: 'auto' }}>
+                {auditLog.length === 0 && <p style={{ fontSize: 11, color: 'var(--text-muted)' }}>Nothing sent yet.</p>}
+                {auditLog.map(entry => (
+                  <details key={entry.id} style={{ fontSize: 11, color: 'var(--text-secondary)', padding: '4px 0', borderBottom: '1px solid var(--border-subtle)' }}>
+                    <summary style={{ cursor: 'pointer' }}>
+                      {new Date(entry.timestamp).toLocaleString()} · {entry.purpose} · {getProviderIcon(entry.provider)} {getModelDisplayName(entry.model)}
+                      {' · '}
+                      {Object.entries(entry.redacted).map(([kind, n]) => `${n} ${kind}`).join(', ') || 'nothing redacted'}
+                      {entry.images > 0 ? ` · ${entry.images} image${entry.images === 1 ? '' : 's'}` : ''}
+                    </summary>
+                    <pre style={{
+                      whiteSpace: 'pre-wrap', fontSize: 10, fontFamily: 'var(--font-mono)', color: 'var(--text-muted)',
+                      background: 'var(--bg-hover)', padding: 8, borderRadius: 6, maxHeight: 160, overflow: 'auto',
+                    }}>{entry.sent}</pre>
+                  </details>
+                ))}
+                {auditLog.length > 0 && (
+                  <button onClick={() => { clearAIAuditLog(); setAuditLog([]) }} className="btn btn-ghost" style={{ fontSize: 11, padding: '4px 10px', marginTop: 4 }}>
+                    <Trash2 size={11} /> Clear log
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
           {lastModel && (
             <p style={{ fontSize: 10, color: 'var(--text-muted)', borderTop: '1px solid var(--border-subtle)', paddingTop: 8, marginTop: 4 }}>
               Last response: {lastModel}
@@ -449,24 +616,67 @@ export function AIAdvisor() {
           </div>
         ))}
 
-        {/* Loading */}
+        {/* Proposed edits awaiting approval */}
+        {proposals.map(patch => {
+          const problems = validateStatePatch(state, patch)
+          return (
+            <div key={patch.id} style={{
+              marginLeft: 44, padding: '12px 16px', borderRadius: 12,
+              background: 'var(--bg-surface)', border: '1px dashed var(--accent-gold)',
+            }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+                <Wrench size={13} color="var(--accent-gold)" />
+                <span style={{ fontSize: 12, fontWeight: 600, color: 'var(--text-primary)', flex: 1 }}>Proposed change: {patch.summary}</span>
+              </div>
+              {describeStatePatch(state, patch).map((line, i) => (
+                <div key={i} style={{ fontSize: 12, color: 'var(--text-secondary)', paddingLeft: 21, marginBottom: 2 }}>• {line}</div>
+              ))}
+              {problems.length > 0 && (
+                <div style={{ fontSize: 11, color: 'var(--accent-red, #ef4444)', paddingLeft: 21, marginTop: 6 }}>
+                  No longer applies: {problems.join('; ')}
+                </div>
+              )}
+              <div style={{ display: 'flex', gap: 6, marginTop: 10, paddingLeft: 21 }}>
+                <button onClick={() => approvePatch(patch)} disabled={problems.length > 0} className="btn btn-primary"
+                  style={{ fontSize: 11, padding: '4px 12px', opacity: problems.length > 0 ? 0.5 : 1 }}>
+                  <Check size={11} /> Apply
+                </button>
+                <button onClick={() => dismissPatch(patch.id)} className="btn btn-ghost" style={{ fontSize: 11, padding: '4px 12px' }}>
+                  <X size={11} /> Dismiss
+                </button>
+              </div>
+            </div>
+          )
+        })}
+
+        {/* Loading / streaming reply */}
         {isLoading && (
           <div style={{ display: 'flex', gap: 12, alignItems: 'flex-start' }}>
             <div style={{
-              width: 32, height: 32, borderRadius: 10,
+              width: 32, height: 32, borderRadius: 10, flexShrink: 0,
               background: 'linear-gradient(135deg, var(--accent-gold), #b8912e)',
               display: 'flex', alignItems: 'center', justifyContent: 'center',
             }}>
               <Bot size={16} color="#0c0e12" />
             </div>
-            <div style={{
-              background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)',
-              borderRadius: '14px 14px 14px 4px', padding: '16px 20px',
-              display: 'flex', alignItems: 'center', gap: 8,
-            }}>
-              <Loader2 size={14} color="var(--accent-gold)" className="spin" />
-              <span style={{ fontSize: 13, color: 'var(--text-muted)' }}>Analyzing your financial data...</span>
-            </div>
+            {streamingText ? (
+              <div style={{
+                background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)',
+                borderRadius: '14px 14px 14px 4px', padding: '16px 20px',
+                fontSize: 13, lineHeight: 1.7, color: 'var(--text-secondary)',
+              }}>
+                {renderContent(streamingText)}
+              </div>
+            ) : (
+              <div style={{
+                background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)',
+                borderRadius: '14px 14px 14px 4px', padding: '16px 20px',
+                display: 'flex', alignItems: 'center', gap: 8,
+              }}>
+                <Loader2 size={14} color="var(--accent-gold)" className="spin" />
+                <span style={{ fontSize: 13, color: 'var(--text-muted)' }}>Analyzing your financial data...</span>
+              </div>
+            )}
           </div>
         )}
 
@@ -499,11 +709,18 @@ export function AIAdvisor() {
             color: 'var(--text-primary)', fontFamily: 'var(--font-body)', fontSize: 14,
             opacity: isLoading ? 0.5 : 1,
           }} />
-        <button onClick={() => sendMessage(input)}
-          disabled={isLoading || !input.trim()} className="btn btn-primary"
-          style={{ padding: '8px 14px', borderRadius: 10, opacity: isLoading || !input.trim() ? 0.5 : 1 }}>
-          {isLoading ? <Loader2 size={16} className="spin" /> : <Send size={16} />}
-        </button>
+        {isLoading ? (
+          <button onClick={stopResponse} className="btn btn-ghost" title="Stop generating"
+            style={{ padding: '8px 14px', borderRadius: 10 }}>
+            <Square size={14} />
+          </button>
+        ) : (
+          <button onClick={() => sendMessage(input)}
+            disabled={!input.trim()} className="btn btn-primary"
+            style={{ padding: '8px 14px', borderRadius: 10, opacity: !input.trim() ? 0.5 : 1 }}>
+            <Send size={16} />
+          </button>
+        )}
       </div>
 
       <style>{`
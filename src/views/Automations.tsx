@@ -1,18 +1,21 @@
 import { useState, useMemo } from 'react'
-import { useFortuna } from '../hooks/useFortuna'
+import { useFortuna, genId } from '../hooks/useFortuna'
 import { generateTimeline } from '../engine/execution-timeline'
 import {
-  Zap, Clock, CheckCircle2, Play, Pause,
-  Bot, DollarSign, Calendar, FileText, Shield,
-  AlertTriangle, Settings, RefreshCw, ArrowRight
+  createRuleFromTemplate, describeTrigger, CONDITION_FIELDS, AUTOMATION_EVENTS,
+  type AutomationRule, type AutomationRun, type AutomationTrigger, type AutomationAction,
+  type ConditionOperator, type ScheduleFrequency,
+} from '../engine/automation-engine'
+import {
+  Zap, Clock, CheckCircle2, Play, Eye, Plus, Trash2,
+  Bot, DollarSign, Calendar, FileText, Shield, ArrowRight
 } from 'lucide-react'
 
 interface AutomationItem {
-  id: string
+  id: string                    // Also the automation template id
   name: string
   description: string
   category: string
-  status: 'active' | 'paused' | 'available'
   frequency: string
   impact: string
   icon: React.ReactNode
@@ -21,9 +24,12 @@ interface AutomationItem {
 }
 
 export function Automations() {
-  const { state, strategies, taxReport } = useFortuna()
-  const [toggledIds, setToggledIds] = useState<Set<string>>(new Set())
+  const { state, updateState, strategies, taxReport, runAutomationRules } = useFortuna()
+  const [preview, setPreview] = useState<{ ruleId: string; runs: AutomationRun[] } | null>(null)
+  const [showBuilder, setShowBuilder] = useState(false)
   const hasData = state.incomeStreams.length > 0
+  const rules = useMemo(() => state.automations || [], [state.automations])
+  const runLog = state.automationLog || []
 
   const timeline = useMemo(() => generateTimeline(state), [state])
 
@@ -39,7 +45,6 @@ export function Automations() {
         name: 'Quarterly Estimated Tax',
         description: `Auto-calculate and remind for quarterly payments of ~$${quarterly.toLocaleString()} via IRS Direct Pay.`,
         category: 'Compliance',
-        status: 'available',
         frequency: 'Quarterly',
         impact: `$${quarterly.toLocaleString()} per quarter`,
         icon: <Calendar size={18} />,
@@ -56,7 +61,6 @@ export function Automations() {
         name: 'Business Mileage Tracker',
         description: `Track business miles automatically. At $0.67/mile (2024 rate), this could save ${vehicleStrat.impactLabel}.`,
         category: 'Deductions',
-        status: 'available',
         frequency: 'Continuous',
         impact: vehicleStrat.impactLabel,
         icon: <DollarSign size={18} />,
@@ -72,7 +76,6 @@ export function Automations() {
         name: 'AI Expense Categorizer',
         description: 'Automatically categorize business expenses and flag deductible items using AI classification.',
         category: 'Bookkeeping',
-        status: 'available',
         frequency: 'Continuous',
         impact: 'Time savings + missed deductions',
         icon: <Bot size={18} />,
@@ -87,7 +90,6 @@ export function Automations() {
       name: 'Tax Document Collector',
       description: 'Track and collect all tax documents (1099s, W-2s, receipts) as they arrive. Alert on missing documents.',
       category: 'Compliance',
-      status: 'available',
       frequency: 'Jan-Mar annually',
       impact: 'Prevent late filing',
       icon: <FileText size={18} />,
@@ -103,7 +105,6 @@ export function Automations() {
         name: 'Retirement Contribution Optimizer',
         description: `Monitor income and auto-calculate optimal retirement contributions. Gap: ${retirementStrat.impactLabel}.`,
         category: 'Retirement',
-        status: 'available',
         frequency: 'Monthly',
         impact: retirementStrat.impactLabel,
         icon: <Shield size={18} />,
@@ -119,7 +120,6 @@ export function Automations() {
         name: 'Entity Compliance Monitor',
         description: 'Track annual report filings, registered agent renewals, and entity maintenance requirements.',
         category: 'Legal',
-        status: 'available',
         frequency: 'Annually',
         impact: 'Prevent dissolution',
         icon: <Shield size={18} />,
@@ -136,7 +136,6 @@ export function Automations() {
         name: 'Deadline Intelligence',
         description: `Real-time monitoring of ${timeline.length} financial deadlines. ${urgentCount > 0 ? `${urgentCount} need immediate attention.` : 'All deadlines on track.'}`,
         category: 'Monitoring',
-        status: 'active',
         frequency: 'Continuous',
         impact: `${timeline.length} deadlines tracked`,
         icon: <Clock size={18} />,
@@ -148,7 +147,46 @@ export function Automations() {
     return items
   }, [state, strategies, taxReport, timeline])
 
-  const activeCount = automations.filter(a => toggledIds.has(a.id) || a.status === 'active').length
+  const ruleForTemplate = (templateId: string) => rules.find(r => r.templateId === templateId)
+
+  const toggleTemplate = (templateId: string) => {
+    const existing = ruleForTemplate(templateId)
+    if (existing) {
+      setRuleEnabled(existing.id, !existing.enabled)
+      return
+    }
+    const rule = createRuleFromTemplate(templateId, genId())
+    if (rule) updateState(prev => ({ ...prev, automations: [...(prev.automations || []), rule] }))
+  }
+
+  const setRuleEnabled = (ruleId: string, enabled: boolean) => {
+    updateState(prev => ({
+      ...prev,
+      automations: (prev.automations || []).map(r => r.id === ruleId ? { ...r, enabled } : r),
+    }))
+  }
+
+  const deleteRule = (ruleId: string) => {
+    updateState(prev => ({ ...prev, automations: (prev.automations || []).filter(r => r.id !== ruleId) }))
+    if (preview?.ruleId === ruleId) setPreview(null)
+  }
+
+  const previewRule = (rule: AutomationRule) => {
+    const result = runAutomationRules([rule], { dryRun: true, trigger: 'Dry run' })
+    setPreview({ ruleId: rule.id, runs: result.runs })
+  }
+
+  const runRule = (rule: AutomationRule) => {
+    runAutomationRules([rule], { trigger: 'Run now' })
+    setPreview(null)
+  }
+
+  const addRule = (rule: AutomationRule) => {
+    updateState(prev => ({ ...prev, automations: [...(prev.automations || []), rule] }))
+    setShowBuilder(false)
+  }
+
+  const activeCount = rules.filter(r => r.enabled).length
   const totalImpactStrategies = strategies.filter(s => s.automatable).reduce((s, st) => s + st.estimatedImpact, 0)
 
   if (!hasData) {
@@ -183,7 +221,7 @@ export function Automations() {
         <div className="metric-card">
           <span className="metric-label">Active</span>
           <div className="metric-value" style={{ color: 'var(--accent-emerald)' }}>{activeCount}</div>
-          <span style={{ fontSize: 12, color: 'var(--text-muted)' }}>Currently running</span>
+          <span style={{ fontSize: 12, color: 'var(--text-muted)' }}>Rules enabled</span>
         </div>
         <div className="metric-card">
           <span className="metric-label">Automatable Savings</span>
@@ -199,23 +237,244 @@ export function Automations() {
 
       {/* Automation Cards */}
       <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
-        {automations.map(auto => (
-          <AutoCard key={auto.id} auto={auto} isActive={toggledIds.has(auto.id) || auto.status === 'active'}
-            onToggle={() => {
-              setToggledIds(prev => {
-                const next = new Set(prev)
-                if (next.has(auto.id)) next.delete(auto.id)
-                else next.add(auto.id)
-                return next
-              })
-            }}
-          />
-        ))}
+        {automations.map(auto => {
+          const rule = ruleForTemplate(auto.id)
+          return (
+            <AutoCard key={auto.id} auto={auto} isActive={!!rule?.enabled}
+              onToggle={() => toggleTemplate(auto.id)}
+            />
+          )
+        })}
+      </div>
+
+      {/* Rules */}
+      <div className="card" style={{ marginTop: 24 }}>
+        <div className="card-header">
+          <span className="card-title">Rules</span>
+          <button className="btn btn-ghost" onClick={() => setShowBuilder(!showBuilder)}>
+            <Plus size={14} /> New rule
+          </button>
+        </div>
+        <div className="card-body">
+          {showBuilder && <RuleBuilder onSave={addRule} onCancel={() => setShowBuilder(false)} />}
+          {rules.length === 0 && !showBuilder && (
+            <div style={{ fontSize: 12, color: 'var(--text-muted)' }}>
+              No rules yet. Toggle an automation above or create a custom rule.
+            </div>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} style={{ padding: '12px 0', borderTop: '1px solid var(--border-subtle)' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10, flexWrap: 'wrap' }}>
+                <span style={{ fontSize: 13, fontWeight: 500, flex: 1, minWidth: 160 }}>{rule.name}</span>
+                <span className="pill" style={{ fontSize: 10 }}><Clock size={9} /> {describeTrigger(rule.trigger)}</span>
+                {rule.lastRunAt && (
+                  <span style={{ fontSize: 11, color: 'var(--text-muted)' }}>Last run {new Date(rule.lastRunAt).toLocaleString()}</span>
+                )}
+                <button className="btn btn-ghost" onClick={() => previewRule(rule)} title="Preview without changing anything">
+                  <Eye size={13} /> Dry run
+                </button>
+                <button className="btn btn-ghost" onClick={() => runRule(rule)}>
+                  <Play size={13} /> Run now
+                </button>
+                <Toggle isActive={rule.enabled} onToggle={() => setRuleEnabled(rule.id, !rule.enabled)} />
+                <button onClick={() => deleteRule(rule.id)} title="Delete rule"
+                  style={{ background: 'none', border: 'none', color: 'var(--text-muted)', cursor: 'pointer', padding: 4 }}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {preview?.ruleId === rule.id && preview.runs.map(run => <RunDetail key={run.id} run={run} />)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Run Log */}
+      {runLog.length > 0 && (
+        <div className="card" style={{ marginTop: 24 }}>
+          <div className="card-header">
+            <span className="card-title">Run Log</span>
+            <span style={{ fontSize: 11, color: 'var(--text-muted)' }}>Last {Math.min(runLog.length, 25)} of {runLog.length}</span>
+          </div>
+          <div className="card-body">
+            {runLog.slice(0, 25).map(run => <RunDetail key={run.id} run={run} showRule />)}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const STATUS_PILL: Record<AutomationRun['status'], string> = { success: 'emerald', skipped: '', error: 'red' }
+
+function RunDetail({ run, showRule }: { run: AutomationRun; showRule?: boolean }) {
+  return (
+    <div style={{ padding: '10px 0', borderTop: showRule ? '1px solid var(--border-subtle)' : 'none', fontSize: 12 }}>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', marginBottom: 4 }}>
+        <span className={`pill ${STATUS_PILL[run.status]}`} style={{ fontSize: 10 }}>{run.dryRun ? 'dry run · ' : ''}{run.status}</span>
+        {showRule && <span style={{ fontWeight: 500 }}>{run.ruleName}</span>}
+        <span style={{ color: 'var(--text-muted)' }}>{run.trigger} · {new Date(run.startedAt).toLocaleString()}</span>
       </div>
+      {run.conditions.filter(c => !c.passed).map((c, i) => (
+        <div key={i} style={{ color: 'var(--text-muted)', paddingLeft: 8 }}>
+          ✗ {CONDITION_FIELDS[c.field]?.label ?? c.field} {OPERATOR_LABELS[c.op]} {String(c.expected)} (was {c.actual === null ? 'n/a' : String(c.actual)})
+        </div>
+      ))}
+      {run.effects.map((e, i) => (
+        <div key={i} style={{ color: e.changed ? 'var(--text-secondary)' : 'var(--text-muted)', paddingLeft: 8 }}>
+          {e.changed ? '→' : '·'} {e.summary}
+        </div>
+      ))}
+      {run.error && <div style={{ color: 'var(--accent-red)', paddingLeft: 8 }}>{run.error}</div>}
     </div>
   )
 }
 
+// ─── Rule Builder ───────────────────────────────────────────────────────────
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  gt: '>', gte: '≥', lt: '<', lte: '≤', eq: '=', neq: '≠', contains: 'contains',
+}
+
+type TriggerChoice = 'new_transactions' | `event:${string}` | `schedule:${ScheduleFrequency}`
+type ActionChoice = AutomationAction['kind']
+
+function RuleBuilder({ onSave, onCancel }: { onSave: (rule: AutomationRule) => void; onCancel: () => void }) {
+  const [name, setName] = useState('')
+  const [trigger, setTrigger] = useState<TriggerChoice>('schedule:weekly')
+  const [field, setField] = useState('')
+  const [op, setOp] = useState<ConditionOperator>('gt')
+  const [value, setValue] = useState('')
+  const [actionKind, setActionKind] = useState<ActionChoice>('notify')
+  const [text1, setText1] = useState('')
+  const [text2, setText2] = useState('')
+  const [jurisdiction, setJurisdiction] = useState<'federal' | 'state'>('federal')
+
+  const inputStyle: React.CSSProperties = {
+    padding: '7px 10px', borderRadius: 8, border: '1px solid var(--border-subtle)',
+    background: 'var(--bg-surface)', color: 'var(--text-primary)', fontSize: 12, fontFamily: 'var(--font-body)',
+  }
+
+  const buildTrigger = (): AutomationTrigger => {
+    if (trigger === 'new_transactions') return { kind: 'new_transactions' }
+    const [kind, arg] = trigger.split(':')
+    return kind === 'event'
+      ? { kind: 'event', event: arg as Extract<AutomationTrigger, { kind: 'event' }>['event'] }
+      : { kind: 'schedule', frequency: arg as ScheduleFrequency }
+  }
+
+  const buildAction = (): AutomationAction => {
+    switch (actionKind) {
+      case 'notify': return { kind: 'notify', title: text1 || name, body: text2 }
+      case 'categorize_transactions': return text1 && text2 ? { kind: 'categorize_transactions', match: text1, category: text2 } : { kind: 'categorize_transactions' }
+      case 'create_estimated_payment': return { kind: 'create_estimated_payment', jurisdiction, quarter: 'next' }
+      case 'snapshot': return { kind: 'snapshot', description: text1 || undefined }
+    }
+  }
+
+  const save = () => {
+    if (!name.trim()) return
+    const numeric = Number(value)
+    onSave({
+      id: genId(),
+      name: name.trim(),
+      enabled: true,
+      trigger: buildTrigger(),
+      conditions: field && value !== '' ? [{ field, op, value: value.trim() !== '' && !Number.isNaN(numeric) ? numeric : value }] : [],
+      actions: [buildAction()],
+      createdAt: new Date().toISOString(),
+    })
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10, marginBottom: 16, padding: 14, background: 'var(--bg-surface)', borderRadius: 10 }}>
+      <input style={inputStyle} placeholder="Rule name" value={name} onChange={e => setName(e.target.value)} />
+
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', fontSize: 12 }}>
+        <span style={{ color: 'var(--text-muted)', width: 70 }}>When</span>
+        <select style={inputStyle} value={trigger} onChange={e => setTrigger(e.target.value as TriggerChoice)}>
+          <optgroup label="Schedule">
+            {(['daily', 'weekly', 'monthly', 'quarterly'] as const).map(f => <option key={f} value={`schedule:${f}`}>{describeTrigger({ kind: 'schedule', frequency: f })}</option>)}
+          </optgroup>
+          <optgroup label="Event">
+            {AUTOMATION_EVENTS.map(e => <option key={e.event} value={`event:${e.event}`}>{e.label}</option>)}
+          </optgroup>
+          <option value="new_transactions">New bank transactions</option>
+        </select>
+      </div>
+
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', fontSize: 12 }}>
+        <span style={{ color: 'var(--text-muted)', width: 70 }}>If</span>
+        <select style={inputStyle} value={field} onChange={e => setField(e.target.value)}>
+          <option value="">Always</option>
+          {Object.entries(CONDITION_FIELDS).map(([key, def]) => <option key={key} value={key}>{def.label}</option>)}
+        </select>
+        {field && (
+          <>
+            <select style={inputStyle} value={op} onChange={e => setOp(e.target.value as ConditionOperator)}>
+              {Object.entries(OPERATOR_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+            </select>
+            <input style={{ ...inputStyle, width: 120 }} value={value} onChange={e => setValue(e.target.value)} placeholder="Value" />
+          </>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', fontSize: 12 }}>
+        <span style={{ color: 'var(--text-muted)', width: 70 }}>Then</span>
+        <select style={inputStyle} value={actionKind} onChange={e => { setActionKind(e.target.value as ActionChoice); setText1(''); setText2('') }}>
+          <option value="notify">Send notification</option>
+          <option value="create_estimated_payment">Create estimated payment</option>
+          <option value="categorize_transactions">Categorize transactions</option>
+          <option value="snapshot">Capture history snapshot</option>
+        </select>
+        {actionKind === 'notify' && (
+          <>
+            <input style={inputStyle} placeholder="Title — {{netTaxOwed}} allowed" value={text1} onChange={e => setText1(e.target.value)} />
+            <input style={{ ...inputStyle, flex: 1 }} placeholder="Message" value={text2} onChange={e => setText2(e.target.value)} />
+          </>
+        )}
+        {actionKind === 'create_estimated_payment' && (
+          <select style={inputStyle} value={jurisdiction} onChange={e => setJurisdiction(e.target.value as 'federal' | 'state')}>
+            <option value="federal">Federal (next quarter)</option>
+            <option value="state">State (next quarter)</option>
+          </select>
+        )}
+        {actionKind === 'categorize_transactions' && (
+          <>
+            <input style={inputStyle} placeholder="Description contains (blank = built-in rules)" value={text1} onChange={e => setText1(e.target.value)} />
+            <input style={inputStyle} placeholder="Category" value={text2} onChange={e => setText2(e.target.value)} />
+          </>
+        )}
+        {actionKind === 'snapshot' && (
+          <input style={{ ...inputStyle, flex: 1 }} placeholder="Snapshot description (optional)" value={text1} onChange={e => setText1(e.target.value)} />
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button className="btn btn-primary" onClick={save} disabled={!name.trim()}>Save rule</button>
+        <button className="btn btn-ghost" onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  )
+}
+
+function Toggle({ isActive, onToggle }: { isActive: boolean; onToggle: () => void }) {
+  return (
+    <button onClick={onToggle} style={{
+      width: 44, height: 24, borderRadius: 12, border: 'none',
+      background: isActive ? 'var(--accent-emerald)' : 'var(--border-medium)',
+      cursor: 'pointer', position: 'relative', transition: 'background 0.2s',
+      flexShrink: 0,
+    }}>
+      <div style={{
+        width: 18, height: 18, borderRadius: 9, background: '#fff',
+        position: 'absolute', top: 3,
+        left: isActive ? 23 : 3,
+        transition: 'left 0.2s',
+      }} />
+    </button>
+  )
+}
+
 function AutoCard({ auto, isActive, onToggle }: { auto: AutomationItem; isActive: boolean; onToggle: () => void }) {
   const [expanded, setExpanded] = useState(false)
 
@@ -247,19 +506,7 @@ function AutoCard({ auto, isActive, onToggle }: { auto: AutomationItem; isActive
           <div style={{ fontFamily: 'var(--font-mono)', fontSize: 12, fontWeight: 500, color: 'var(--accent-emerald)', marginBottom: 4 }}>{auto.impact}</div>
         </div>
 
-        <button onClick={onToggle} style={{
-          width: 44, height: 24, borderRadius: 12, border: 'none',
-          background: isActive ? 'var(--accent-emerald)' : 'var(--border-medium)',
-          cursor: 'pointer', position: 'relative', transition: 'background 0.2s',
-          flexShrink: 0,
-        }}>
-          <div style={{
-            width: 18, height: 18, borderRadius: 9, background: '#fff',
-            position: 'absolute', top: 3,
-            left: isActive ? 23 : 3,
-            transition: 'left 0.2s',
-          }} />
-        </button>
+        <Toggle isActive={isActive} onToggle={onToggle} />
 
         <button onClick={() => setExpanded(!expanded)}
           style={{ background: 'none', border: 'none', color: 'var(--text-muted)', cursor: 'pointer', padding: 4 }}>
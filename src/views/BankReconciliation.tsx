@@ -0,0 +1,265 @@
+/**
+ * Fortuna Engine — Bank Reconciliation View
+ *
+ * Reconcile an account's audit history against a bank statement: enter the
+ * ending balance (or load it from an OFX file), tick cleared rows, follow the
+ * suggestions until the difference is zero, then lock the period.
+ *
+ * @view BankReconciliation
+ */
+
+import * as React from 'react'
+import { useState, useMemo, useCallback } from 'react'
+import { useFortuna } from '../hooks/useFortuna'
+import { parseOFX } from '../engine/qb-ofx-parser'
+import {
+  reconciliationAccounts, reconciliationFromStatement, startReconciliation, toggleCleared,
+  setStatementBalances, computeReconciliation, suggestReconciliationFixes, completeReconciliation,
+  reopenReconciliation, reconciliationReport, lastReconciled,
+} from '../engine/reconciliation'
+import type { FortunaState, Reconciliation } from '../engine/storage'
+
+function money(n: number): string {
+  return `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export function BankReconciliation() {
+  const { state, updateState } = useFortuna()
+  const accounts = useMemo(() => reconciliationAccounts(state), [state])
+  const [selectedAccount, setSelectedAccount] = useState('')
+  const account = selectedAccount || accounts[0] || ''
+  const [periodEnd, setPeriodEnd] = useState('')
+  const [endingBalance, setEndingBalance] = useState('')
+  const [beginningBalance, setBeginningBalance] = useState('')
+  const [statementError, setStatementError] = useState('')
+  const [source, setSource] = useState<Reconciliation['source']>('manual')
+  const [reportId, setReportId] = useState<string | null>(null)
+
+  const active = (state.reconciliations || []).find(r => r.accountName === account && r.status === 'in_progress')
+  const status = useMemo(() => active ? computeReconciliation(state, active) : null, [state, active])
+  const suggestions = useMemo(() => active ? suggestReconciliationFixes(state, active) : [], [state, active])
+  const history = (state.reconciliations || [])
+    .filter(r => r.accountName === account && r.status === 'reconciled')
+    .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))
+  const latest = lastReconciled(state, account)
+
+  const handleStart = useCallback(() => {
+    const ending = parseFloat(endingBalance)
+    if (!account || !periodEnd || isNaN(ending)) return
+    const beginning = isNaN(parseFloat(beginningBalance)) ? undefined : parseFloat(beginningBalance)
+    // An open reconciliation keeps its ticks when the statement figures change
+    updateState((prev: FortunaState) => active
+      ? setStatementBalances(prev, active.id, { periodEnd, endingBalance: ending, beginningBalance: beginning })
+      : startReconciliation(prev, { accountName: account, periodEnd, endingBalance: ending, beginningBalance: beginning, source }).state)
+  }, [account, active, periodEnd, endingBalance, beginningBalance, source, updateState])
+
+  const handleStatementFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const stmt = parseOFX(await file.text()).statements[0]
+    const input = stmt ? reconciliationFromStatement(stmt) : null
+    if (!input) {
+      setStatementError('No ledger balance found in this file')
+      return
+    }
+    setStatementError('')
+    if (accounts.includes(input.accountName)) setSelectedAccount(input.accountName)
+    setPeriodEnd(input.periodEnd)
+    setEndingBalance(String(input.endingBalance))
+    setSource('ofx')
+  }, [accounts])
+
+  const toggle = (txId: string) => {
+    if (active) updateState((prev: FortunaState) => toggleCleared(prev, active.id, txId))
+  }
+
+  // ─── Styles ───────────────────────────────────────────────────────────────
+
+  const card: React.CSSProperties = {
+    background: 'var(--bg-card)', borderRadius: 12,
+    border: '1px solid var(--border-subtle)', padding: 20, marginBottom: 16,
+  }
+  const input: React.CSSProperties = {
+    padding: '6px 10px', borderRadius: 6, fontSize: 12,
+    background: 'var(--bg-hover)', color: 'var(--text-primary)', border: '1px solid var(--border-subtle)',
+  }
+  const label: React.CSSProperties = {
+    fontSize: 10, color: 'var(--text-muted)', textTransform: 'uppercase' as const,
+    letterSpacing: '0.08em', marginBottom: 4,
+  }
+  const button = (primary: boolean, disabled = false): React.CSSProperties => ({
+    padding: '6px 16px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+    background: primary ? 'linear-gradient(135deg, #22c55e, #16a34a)' : 'var(--bg-hover)',
+    border: primary ? 'none' : '1px solid var(--border-subtle)',
+    color: primary ? '#fff' : 'var(--text-secondary)',
+    cursor: disabled ? 'not-allowed' : 'pointer', opacity: disabled ? 0.5 : 1,
+  })
+
+  return (
+    <div style={{ padding: '24px 32px', maxWidth: 1000 }}>
+      <h1 style={{ fontSize: 22, fontWeight: 700, margin: '0 0 8px', fontFamily: 'var(--font-display)', color: 'var(--text-primary)' }}>
+        🏦 Bank Reconciliation
+      </h1>
+      <p style={{ fontSize: 13, color: 'var(--text-secondary)', margin: '0 0 24px' }}>
+        Match your transaction history to each bank statement. Reconciled periods are locked from edits.
+      </p>
+
+      {accounts.length === 0 ? (
+        <div style={card}>
+          <div style={{ fontSize: 13, color: 'var(--text-secondary)' }}>
+            Import bank transactions with an account (OFX, QIF, IIF or a linked account) to start reconciling.
+          </div>
+        </div>
+      ) : (
+        <div style={card}>
+          <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+            <div>
+              <div style={label}>Account</div>
+              <select value={account} onChange={e => setSelectedAccount(e.target.value)} style={input}>
+                {accounts.map(a => <option key={a} value={a}>{a}</option>)}
+              </select>
+            </div>
+            <div>
+              <div style={label}>Statement date</div>
+              <input type="date" value={periodEnd} onChange={e => setPeriodEnd(e.target.value)} style={input} />
+            </div>
+            <div>
+              <div style={label}>Ending balance</div>
+              <input type="number" step="0.01" value={endingBalance} onChange={e => setEndingBalance(e.target.value)} style={{ ...input, width: 120 }} />
+            </div>
+            <div>
+              <div style={label}>Beginning balance</div>
+              <input type="number" step="0.01" value={beginningBalance} onChange={e => setBeginningBalance(e.target.value)}
+                placeholder={latest ? String(latest.endingBalance) : '0.00'} style={{ ...input, width: 120 }} />
+            </div>
+            <button onClick={handleStart} disabled={!periodEnd || endingBalance === ''} style={button(true, !periodEnd || endingBalance === '')}>
+              {active ? 'Update statement' : 'Start'}
+            </button>
+            <label style={{ ...button(false), display: 'inline-block' }}>
+              Load OFX statement
+              <input type="file" accept=".ofx,.qfx,.qbo" onChange={handleStatementFile} style={{ display: 'none' }} />
+            </label>
+          </div>
+          {statementError && <div style={{ fontSize: 11, color: '#ef4444', marginTop: 8 }}>{statementError}</div>}
+          {latest && (
+            <div style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 10 }}>
+              Last reconciled through {latest.periodEnd} at {money(latest.endingBalance)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {active && status && (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 12, marginBottom: 16 }}>
+            {[
+              { label: 'Beginning', value: status.beginningBalance },
+              { label: 'Cleared balance', value: status.clearedBalance },
+              { label: 'Statement', value: status.endingBalance },
+              { label: 'Difference', value: status.difference, color: status.isBalanced ? '#22c55e' : '#ef4444' },
+            ].map(s => (
+              <div key={s.label} style={{ ...card, marginBottom: 0, textAlign: 'center' }}>
+                <div style={{ fontSize: 20, fontWeight: 700, fontFamily: 'var(--font-mono)', color: s.color || 'var(--text-primary)' }}>{money(s.value)}</div>
+                <div style={{ ...label, marginTop: 4, marginBottom: 0 }}>{s.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {suggestions.length > 0 && (
+            <div style={card}>
+              <h3 style={{ fontSize: 13, fontWeight: 600, margin: '0 0 10px', color: 'var(--text-primary)' }}>
+                What might explain the difference
+              </h3>
+              {suggestions.map((s, i) => (
+                <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '6px 0', fontSize: 12, color: 'var(--text-secondary)' }}>
+                  <div style={{ flex: 1 }}>{s.message}</div>
+                  {(s.kind === 'tick' || s.kind === 'untick') && (
+                    <button onClick={() => s.transactionIds.forEach(toggle)} style={button(false)}>
+                      {s.kind === 'tick' ? 'Tick' : 'Untick'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div style={card}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+              <h3 style={{ fontSize: 13, fontWeight: 600, margin: 0, color: 'var(--text-primary)' }}>
+                {active.periodStart} → {active.periodEnd} — {status.cleared.length} cleared, {status.outstanding.length} outstanding
+              </h3>
+              <button
+                onClick={() => updateState((prev: FortunaState) => completeReconciliation(prev, active.id))}
+                disabled={!status.isBalanced}
+                style={button(true, !status.isBalanced)}
+              >
+                ✓ Finish & lock
+              </button>
+            </div>
+            <div style={{ overflowX: 'auto', maxHeight: 420 }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
+                <thead style={{ position: 'sticky', top: 0, background: 'var(--bg-card)' }}>
+                  <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                    {['', 'Date', 'Description', 'Amount'].map(h => (
+                      <th key={h} style={{ padding: '8px 10px', textAlign: 'left', fontSize: 10, color: 'var(--text-muted)', fontWeight: 500, textTransform: 'uppercase' }}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...status.cleared, ...status.outstanding]
+                    .sort((a, b) => a.date.localeCompare(b.date))
+                    .map(tx => (
+                      <tr key={tx.id} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                        <td style={{ padding: '6px 10px' }}>
+                          <input type="checkbox" checked={active.clearedIds.includes(tx.id)} onChange={() => toggle(tx.id)} />
+                        </td>
+                        <td style={{ padding: '6px 10px', fontFamily: 'var(--font-mono)', fontSize: 10, color: 'var(--text-muted)' }}>{tx.date}</td>
+                        <td style={{ padding: '6px 10px', color: 'var(--text-primary)' }}>{tx.description}</td>
+                        <td style={{ padding: '6px 10px', fontFamily: 'var(--font-mono)', fontWeight: 600, color: tx.amount >= 0 ? '#22c55e' : '#ef4444' }}>
+                          {money(tx.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {history.length > 0 && (
+        <div style={card}>
+          <h3 style={{ fontSize: 13, fontWeight: 600, margin: '0 0 10px', color: 'var(--text-primary)' }}>
+            Reconciled statements
+          </h3>
+          {history.map(r => (
+            <div key={r.id} style={{ borderBottom: '1px solid var(--border-subtle)', padding: '8px 0' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 12, fontSize: 12 }}>
+                <div style={{ flex: 1, color: 'var(--text-primary)' }}>
+                  {r.periodStart} → {r.periodEnd}
+                  <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>{money(r.endingBalance)} · {r.clearedIds.length} cleared</span>
+                </div>
+                <button onClick={() => setReportId(reportId === r.id ? null : r.id)} style={button(false)}>
+                  {reportId === r.id ? 'Hide report' : 'Report'}
+                </button>
+                {r.id === latest?.id && (
+                  <button onClick={() => updateState((prev: FortunaState) => reopenReconciliation(prev, r.id))} style={button(false)}>
+                    Reopen
+                  </button>
+                )}
+              </div>
+              {reportId === r.id && (
+                <pre style={{
+                  fontFamily: 'var(--font-mono)', fontSize: 11, lineHeight: 1.6, color: 'var(--text-secondary)',
+                  whiteSpace: 'pre-wrap', margin: '10px 0 0', padding: 12, background: 'var(--bg-primary)', borderRadius: 8,
+                }}>
+                  {reconciliationReport(state, r)}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
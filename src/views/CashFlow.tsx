@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react'
 import { useFortuna } from '../hooks/useFortuna'
 import { generateCashFlow, type CashFlowConfig, type CashFlowSummary } from '../engine/cash-flow'
+import { ledgerCashBalance, ledgerEntityIds } from '../engine/general-ledger'
 import {
   Wallet, TrendingUp, TrendingDown, Calendar, AlertTriangle,
   DollarSign, PiggyBank, Activity, ArrowUpRight, ArrowDownRight, Shield
@@ -25,7 +26,10 @@ export function CashFlow() {
 
   // Config state
   const [projMonths, setProjMonths] = useState(12)
-  const [startingCash, setStartingCash] = useState(10000)
+  // Start from the books once registers have reconciled opening balances
+  const [startingCash, setStartingCash] = useState(() => (state.reconciliations || []).length > 0
+    ? Math.round(ledgerEntityIds(state).reduce((s, id) => s + ledgerCashBalance(state, id), 0))
+    : 10000)
   const [growthRate, setGrowthRate] = useState(2)
   const [seasonality, setSeasonality] = useState<'none' | 'mild' | 'moderate' | 'strong'>('mild')
   const [personalExp, setPersonalExp] = useState(3000)
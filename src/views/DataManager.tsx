@@ -1,11 +1,15 @@
 import { useState, useEffect, useRef } from 'react'
 import { useFortuna } from '../hooks/useFortuna'
-import { Storage, type FortunaExport } from '../engine/storage'
+import { Storage, type FortunaExport, type FortunaEncryptedExport, type VaultStatus } from '../engine/storage'
+import { clearBackups } from '../engine/data-safety'
+import { MIN_PASSPHRASE_LENGTH } from '../engine/vault'
 import {
   Download, Upload, Trash2, HardDrive, Shield,
-  CheckCircle, AlertTriangle, XCircle, RefreshCw, Copy, Info,
+  CheckCircle, AlertTriangle, XCircle, RefreshCw, Copy, Info, Lock, Key,
 } from 'lucide-react'
 
+const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60]
+
 export function DataManager() {
   const { state, setState, storageBackend } = useFortuna()
   const [storageSize, setStorageSize] = useState('...')
@@ -13,8 +17,21 @@ export function DataManager() {
   const [importStatus, setImportStatus] = useState<{ state: 'idle' | 'success' | 'error' | 'confirm'; message?: string }>({ state: 'idle' })
   const [resetConfirm, setResetConfirm] = useState(false)
   const [resetDone, setResetDone] = useState(false)
+  const [exportPassphrase, setExportPassphrase] = useState('')
+  const [importPassphrase, setImportPassphrase] = useState('')
+  const [pendingEncrypted, setPendingEncrypted] = useState(false)
+  const [importPassError, setImportPassError] = useState<string | null>(null)
+  const [vault, setVault] = useState<VaultStatus | null>(null)
+  const [vaultMode, setVaultMode] = useState<'idle' | 'enable' | 'change' | 'disable'>('idle')
+  const [vaultForm, setVaultForm] = useState({ current: '', next: '', confirm: '' })
+  const [vaultMessage, setVaultMessage] = useState<{ ok: boolean; text: string } | null>(null)
+  const [vaultBusy, setVaultBusy] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  useEffect(() => {
+    Storage.getVaultStatus().then(setVault)
+  }, [])
+
   useEffect(() => {
     Storage.estimateSize().then(s => setStorageSize(s.formatted))
   }, [state])
@@ -22,14 +39,14 @@ export function DataManager() {
   // ---- Export ----
   const handleExport = async () => {
     try {
-      const data = await Storage.exportAll()
+      const data = await Storage.exportAll(exportPassphrase || undefined)
       const json = JSON.stringify(data, null, 2)
       const blob = new Blob([json], { type: 'application/json' })
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
       const dateStr = new Date().toISOString().slice(0, 10)
       a.href = url
-      a.download = `fortuna-backup-${dateStr}.json`
+      a.download = exportPassphrase ? `fortuna-backup-${dateStr}.encrypted.json` : `fortuna-backup-${dateStr}.json`
       a.click()
       URL.revokeObjectURL(url)
       setExportStatus('success')
@@ -43,7 +60,7 @@ export function DataManager() {
   // ---- Copy to clipboard ----
   const handleCopyExport = async () => {
     try {
-      const data = await Storage.exportAll()
+      const data = await Storage.exportAll(exportPassphrase || undefined)
       await navigator.clipboard.writeText(JSON.stringify(data, null, 2))
       setExportStatus('success')
       setTimeout(() => setExportStatus('idle'), 3000)
@@ -65,18 +82,23 @@ export function DataManager() {
     try {
       const text = await file.text()
       const validation = Storage.validateExport(text)
-      if (!validation.valid || !validation.data) {
+      if (!validation.valid || !(validation.data || validation.encrypted)) {
         setImportStatus({ state: 'error', message: validation.error || 'Invalid file' })
         setTimeout(() => setImportStatus({ state: 'idle' }), 5000)
         return
       }
-      // Show confirmation with summary
+      // Show confirmation with summary (encrypted bundles can't be summarized until unlocked)
       const d = validation.data
-      const summary = `${d.state.profile.name || 'Unnamed'} | ${d.state.incomeStreams.length} streams | ${d.state.expenses.length} expenses | v${d._version} from ${new Date(d._exportedAt).toLocaleDateString()}`
+      const enc = validation.encrypted
+      const summary = d
+        ? `${d.state.profile.name || 'Unnamed'} | ${d.state.incomeStreams.length} streams | ${d.state.expenses.length} expenses | v${d._version} from ${new Date(d._exportedAt).toLocaleDateString()}`
+        : `Encrypted backup | v${enc!._version} from ${new Date(enc!._exportedAt).toLocaleDateString()}`
       setImportStatus({ state: 'confirm', message: summary })
+      setPendingEncrypted(!d)
+      setImportPassError(null)
 
       // Store the data temporarily for confirm
-      ;(window as any).__fortuna_pending_import = validation.data
+      ;(window as any).__fortuna_pending_import = d ?? enc
     } catch {
       setImportStatus({ state: 'error', message: 'Could not read file' })
       setTimeout(() => setImportStatus({ state: 'idle' }), 5000)
@@ -86,11 +108,19 @@ export function DataManager() {
   }
 
   const confirmImport = async () => {
-    const data = (window as any).__fortuna_pending_import as FortunaExport
+    const data = (window as any).__fortuna_pending_import as FortunaExport | FortunaEncryptedExport
     if (!data) return
 
-    const result = await Storage.importAll(data)
+    const result = await Storage.importAll(data, pendingEncrypted ? importPassphrase : undefined)
+    if (!result.success && pendingEncrypted) {
+      // Keep the bundle pending so the passphrase can be retried
+      setImportPassError(result.error || 'Could not decrypt backup')
+      return
+    }
+    setImportPassError(null)
     delete (window as any).__fortuna_pending_import
+    setImportPassphrase('')
+    setPendingEncrypted(false)
 
     if (result.success) {
       setImportStatus({ state: 'success', message: 'Data restored successfully. Reloading...' })
@@ -103,9 +133,56 @@ export function DataManager() {
 
   const cancelImport = () => {
     delete (window as any).__fortuna_pending_import
+    setImportPassphrase('')
+    setImportPassError(null)
+    setPendingEncrypted(false)
     setImportStatus({ state: 'idle' })
   }
 
+  // ---- Vault ----
+  const closeVaultForm = () => {
+    setVaultMode('idle')
+    setVaultForm({ current: '', next: '', confirm: '' })
+  }
+
+  const runVaultAction = async (action: () => Promise<void>, success: string) => {
+    setVaultBusy(true)
+    setVaultMessage(null)
+    try {
+      await action()
+      setVaultMessage({ ok: true, text: success })
+      closeVaultForm()
+    } catch (err) {
+      setVaultMessage({ ok: false, text: err instanceof Error ? err.message : 'Vault operation failed' })
+    } finally {
+      setVaultBusy(false)
+      setVault(await Storage.getVaultStatus())
+    }
+  }
+
+  const handleVaultSubmit = () => {
+    const { current, next, confirm } = vaultForm
+    if ((vaultMode === 'enable' || vaultMode === 'change') && next !== confirm) {
+      setVaultMessage({ ok: false, text: 'Passphrases do not match' })
+      return
+    }
+    if (vaultMode === 'enable') {
+      runVaultAction(async () => {
+        await Storage.enableVault(next, vault?.autoLockMinutes)
+        // Rotating backups hold plaintext snapshots — remove them once data is sealed
+        clearBackups()
+      }, 'Vault enabled — local data is now encrypted')
+    } else if (vaultMode === 'change') {
+      runVaultAction(() => Storage.changeVaultPassphrase(current, next), 'Passphrase changed')
+    } else if (vaultMode === 'disable') {
+      runVaultAction(() => Storage.disableVault(current), 'Vault disabled — local data is stored unencrypted')
+    }
+  }
+
+  const handleAutoLockChange = (minutes: number) => {
+    runVaultAction(() => Storage.setVaultAutoLock(minutes), minutes ? `Auto-lock set to ${minutes} minutes` : 'Auto-lock disabled')
+  }
+
   // ---- Reset ----
   const handleReset = async () => {
     if (!resetConfirm) {
@@ -152,6 +229,16 @@ export function DataManager() {
     fontWeight: 500,
     transition: 'all 0.2s',
   })
+  const inputStyle: React.CSSProperties = {
+    padding: '9px 12px',
+    borderRadius: 10,
+    border: '1px solid var(--border-subtle)',
+    background: 'var(--bg-primary)',
+    color: 'var(--text-primary)',
+    fontFamily: 'var(--font-body)',
+    fontSize: 13,
+    minWidth: 240,
+  }
   const badge = (bg: string, color: string): React.CSSProperties => ({
     display: 'inline-flex',
     alignItems: 'center',
@@ -239,6 +326,14 @@ export function DataManager() {
             <button style={btn('var(--accent-blue)', 'var(--accent-blue)18')} onClick={handleCopyExport}>
               <Copy size={15} /> Copy to clipboard
             </button>
+            <input
+              type="password"
+              placeholder="Passphrase (optional — encrypts file)"
+              value={exportPassphrase}
+              onChange={e => setExportPassphrase(e.target.value)}
+              style={inputStyle}
+              autoComplete="new-password"
+            />
             {exportStatus === 'success' && (
               <span style={badge('var(--accent-emerald)18', 'var(--accent-emerald)')}>
                 <CheckCircle size={14} /> Exported
@@ -286,6 +381,21 @@ export function DataManager() {
               <div style={{ fontSize: 12, color: 'var(--text-secondary)', marginBottom: 12, lineHeight: 1.5 }}>
                 This will replace all current data with: <strong>{importStatus.message}</strong>
               </div>
+              {pendingEncrypted && (
+                <input
+                  type="password"
+                  placeholder="Backup passphrase"
+                  value={importPassphrase}
+                  onChange={e => setImportPassphrase(e.target.value)}
+                  style={{ ...inputStyle, marginBottom: 12 }}
+                  autoComplete="off"
+                />
+              )}
+              {importPassError && (
+                <div style={{ ...badge('var(--accent-red)18', 'var(--accent-red)'), marginBottom: 12 }}>
+                  <XCircle size={14} /> {importPassError}
+                </div>
+              )}
               <div style={{ display: 'flex', gap: 10 }}>
                 <button style={btn('var(--accent-gold)', 'var(--accent-gold)22')} onClick={confirmImport}>
                   <RefreshCw size={14} /> Yes, restore
@@ -310,6 +420,118 @@ export function DataManager() {
           )}
         </div>
 
+        {/* Vault Encryption */}
+        <div style={card}>
+          <div style={sectionTitle}>
+            <Lock size={15} style={{ display: 'inline', verticalAlign: -2, marginRight: 8 }} />
+            Vault Encryption
+          </div>
+          <div style={sectionDesc}>
+            Encrypt your financial data on this device with a passphrase (AES-256-GCM). You'll be asked
+            to unlock after reloading or after a period of inactivity. The passphrase cannot be recovered —
+            keep an export backup somewhere safe.
+          </div>
+
+          {vault && !vault.supported ? (
+            <div style={badge('var(--accent-red)18', 'var(--accent-red)')}>
+              <XCircle size={14} /> This browser does not support WebCrypto
+            </div>
+          ) : vault && (
+            <>
+              <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center', marginBottom: vaultMode === 'idle' ? 0 : 16 }}>
+                <span style={badge(vault.enabled ? 'var(--accent-emerald)18' : 'var(--bg-primary)', vault.enabled ? 'var(--accent-emerald)' : 'var(--text-secondary)')}>
+                  {vault.enabled ? <Lock size={14} /> : <Shield size={14} />}
+                  {vault.enabled ? 'Encrypted' : 'Not encrypted'}
+                </span>
+                {!vault.enabled && vaultMode === 'idle' && (
+                  <button style={btn('var(--accent-emerald)', 'var(--accent-emerald)18')} onClick={() => setVaultMode('enable')}>
+                    <Lock size={15} /> Enable vault...
+                  </button>
+                )}
+                {vault.enabled && vaultMode === 'idle' && (
+                  <>
+                    <button style={btn('var(--accent-gold)', 'var(--accent-gold)18')} onClick={() => Storage.lockVault()}>
+                      <Lock size={15} /> Lock now
+                    </button>
+                    <button style={btn('var(--accent-blue)', 'var(--accent-blue)18')} onClick={() => setVaultMode('change')}>
+                      <Key size={15} /> Change passphrase
+                    </button>
+                    <button style={btn('var(--accent-red)', 'transparent')} onClick={() => setVaultMode('disable')}>
+                      Disable...
+                    </button>
+                    <label style={{ fontSize: 12, color: 'var(--text-muted)', display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+                      Auto-lock
+                      <select
+                        value={vault.autoLockMinutes}
+                        onChange={e => handleAutoLockChange(Number(e.target.value))}
+                        style={{ ...inputStyle, minWidth: 0 }}
+                        disabled={vaultBusy}
+                      >
+                        {AUTO_LOCK_OPTIONS.map(m => (
+                          <option key={m} value={m}>{m === 0 ? 'Never' : `${m} min`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </>
+                )}
+              </div>
+
+              {vaultMode !== 'idle' && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 10, maxWidth: 360 }}>
+                  {(vaultMode === 'change' || vaultMode === 'disable') && (
+                    <input
+                      type="password"
+                      placeholder="Current passphrase"
+                      value={vaultForm.current}
+                      onChange={e => setVaultForm(f => ({ ...f, current: e.target.value }))}
+                      style={inputStyle}
+                      autoComplete="current-password"
+                    />
+                  )}
+                  {(vaultMode === 'enable' || vaultMode === 'change') && (
+                    <>
+                      <input
+                        type="password"
+                        placeholder={`New passphrase (min ${MIN_PASSPHRASE_LENGTH} characters)`}
+                        value={vaultForm.next}
+                        onChange={e => setVaultForm(f => ({ ...f, next: e.target.value }))}
+                        style={inputStyle}
+                        autoComplete="new-password"
+                      />
+                      <input
+                        type="password"
+                        placeholder="Confirm new passphrase"
+                        value={vaultForm.confirm}
+                        onChange={e => setVaultForm(f => ({ ...f, confirm: e.target.value }))}
+                        style={inputStyle}
+                        autoComplete="new-password"
+                      />
+                    </>
+                  )}
+                  <div style={{ display: 'flex', gap: 10 }}>
+                    <button
+                      style={btn(vaultMode === 'disable' ? 'var(--accent-red)' : 'var(--accent-emerald)', 'transparent')}
+                      onClick={handleVaultSubmit}
+                      disabled={vaultBusy}
+                    >
+                      {vaultBusy ? 'Working...' : vaultMode === 'enable' ? 'Encrypt my data' : vaultMode === 'change' ? 'Change passphrase' : 'Decrypt and disable'}
+                    </button>
+                    <button style={btn('var(--text-muted)', 'transparent')} onClick={closeVaultForm} disabled={vaultBusy}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {vaultMessage && (
+                <div style={{ ...badge(vaultMessage.ok ? 'var(--accent-emerald)18' : 'var(--accent-red)18', vaultMessage.ok ? 'var(--accent-emerald)' : 'var(--accent-red)'), marginTop: 12 }}>
+                  {vaultMessage.ok ? <CheckCircle size={14} /> : <XCircle size={14} />} {vaultMessage.text}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
         {/* Persistence Info */}
         <div style={{ ...card, background: 'var(--bg-primary)', border: '1px dashed var(--border-subtle)' }}>
           <div style={sectionTitle}>
@@ -465,6 +465,41 @@ export function DataSetup({ onComplete, editMode }: DataSetupProps) {
               </select>
             </div>
           </div>
+          {/* Part-year residency */}
+          <div style={{ padding: 16, background: 'var(--bg-surface)', borderRadius: 10, border: '1px solid var(--border-subtle)' }}>
+            <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 4 }}>
+              Moved States This Year?
+              <span style={{ fontWeight: 400, color: 'var(--text-muted)', fontSize: 11 }}> — days not listed count as {STATE_TAX_RATES[profile.state]?.name || profile.state}</span>
+            </div>
+            {(profile.residency || []).map(period => (
+              <div key={period.id} className="grid-4" style={{ gap: 10, marginTop: 10, alignItems: 'flex-end' }}>
+                <div>
+                  <label style={labelStyle}>Resident Of</label>
+                  <select style={selectStyle} value={period.stateCode} onChange={e => setProfile(p => ({ ...p, residency: (p.residency || []).map(r => r.id === period.id ? { ...r, stateCode: e.target.value } : r) }))}>
+                    {Object.entries(STATE_TAX_RATES).sort((a, b) => a[1].name.localeCompare(b[1].name)).map(([code, st]) => (
+                      <option key={code} value={code}>{st.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label style={labelStyle}>From</label>
+                  <input style={inputStyle} type="date" value={period.startDate} onChange={e => setProfile(p => ({ ...p, residency: (p.residency || []).map(r => r.id === period.id ? { ...r, startDate: e.target.value } : r) }))} />
+                </div>
+                <div>
+                  <label style={labelStyle}>Through</label>
+                  <input style={inputStyle} type="date" value={period.endDate} onChange={e => setProfile(p => ({ ...p, residency: (p.residency || []).map(r => r.id === period.id ? { ...r, endDate: e.target.value } : r) }))} />
+                </div>
+                <button onClick={() => setProfile(p => ({ ...p, residency: (p.residency || []).filter(r => r.id !== period.id) }))} style={{ background: 'none', border: 'none', color: 'var(--accent-red)', cursor: 'pointer', padding: 10 }}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <button onClick={() => setProfile(p => ({ ...p, residency: [...(p.residency || []), {
+              id: genId(), stateCode: p.state, startDate: `${state.taxYear}-01-01`, endDate: `${state.taxYear}-12-31`,
+            }] }))} className="btn btn-ghost" style={{ marginTop: 10, fontSize: 12 }}>
+              <Plus size={12} /> Add Residency Period
+            </button>
+          </div>
           {/* Spouse section for joint/separate filers */}
           {(profile.filingStatus === 'married_joint' || profile.filingStatus === 'married_separate') && (
             <div style={{ marginTop: 20, padding: 16, background: 'var(--bg-surface)', borderRadius: 10, border: '1px solid var(--border-subtle)' }}>
@@ -574,6 +609,21 @@ export function DataSetup({ onComplete, editMode }: DataSetupProps) {
                 </div>
               )}
 
+              {/* Income sourcing — where the work was performed / property is located */}
+              {inc.type !== 'investment' && inc.type !== 'passive' && (
+                <div style={{ marginTop: 8 }}>
+                  <label style={labelStyle}>{inc.type === 'rental' ? 'Property State' : 'Work State'}</label>
+                  <select style={{ ...selectStyle, maxWidth: 260 }} value={inc.sourceStates?.[0]?.stateCode || ''} onChange={e => setIncomes(prev => prev.map(x => x.id === inc.id ? {
+                    ...x, sourceStates: e.target.value ? [{ stateCode: e.target.value, pct: 100 }] : undefined,
+                  } : x))}>
+                    <option value="">Same as state of residence</option>
+                    {Object.entries(STATE_TAX_RATES).sort((a, b) => a[1].name.localeCompare(b[1].name)).map(([code, st]) => (
+                      <option key={code} value={code}>{st.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* W-2 Specific Fields */}
               {inc.type === 'w2' && (
                 <div style={{ marginTop: 12 }}>
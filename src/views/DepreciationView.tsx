@@ -3,7 +3,7 @@ import { useFortuna, genId } from '../hooks/useFortuna'
 import type { ViewKey } from '../App'
 import {
   generateDepreciationSummary, analyzeVehicleDeduction, analyzeHomeOffice,
-  ASSET_CLASSES, SECTION_179_LIMIT_2024, STANDARD_MILEAGE_RATE_2024, BONUS_DEPRECIATION_RATES,
+  ASSET_CLASSES, getDepreciationParameters,
   type BusinessAsset, type DepreciationSummary,
 } from '../engine/depreciation-engine'
 import {
@@ -93,8 +93,9 @@ export function DepreciationView({ onNavigate }: DepreciationViewProps) {
       vehicle.annualMiles, vehicle.businessMiles, vehicle.cost,
       vehicle.fuel, vehicle.insurance, vehicle.maintenance, vehicle.parking,
       summary.assetResults[0]?.taxSavingsFirstYear ? 0.24 : 0.22,
+      state.taxYear,
     ),
-    [vehicle, summary],
+    [vehicle, summary, state.taxYear],
   )
 
   const homeOfficeAnalysis = useMemo(
@@ -125,7 +126,7 @@ export function DepreciationView({ onNavigate }: DepreciationViewProps) {
 
   const removeAsset = (id: string) => setAssets(prev => prev.filter(a => a.id !== id))
 
-  const bonusRate = BONUS_DEPRECIATION_RATES[new Date().getFullYear()] ?? 0
+  const bonusRate = getDepreciationParameters(state.taxYear).bonusRate
 
   const tabs = [
     { id: 'assets' as const, label: 'Assets & §179', icon: <Package size={14} /> },
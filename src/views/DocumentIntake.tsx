@@ -3,6 +3,7 @@ import { Camera, X, Check, Loader2, ArrowRight, TrendingDown, FileText, ImageIco
 import { useFortuna } from '../hooks/useFortuna'
 import { MobileDocumentScanner } from '../components/MobileDocumentScanner'
 import { processDocumentImage } from '../engine/vision-processor'
+import { createRedactor } from '../engine/ai-redaction'
 import { createBatch, processBatch } from '../engine/batch-intake'
 import { BlobStore } from '../engine/blob-store'
 import { type IntakeBatch, type DocumentRecord, type ReceiptRecord, type FortunaState } from '../engine/storage'
@@ -112,7 +113,7 @@ export function DocumentIntake() {
             } : undefined
 
             // 1. Process via Vision AI
-            const visionResult = await processDocumentImage(base64Image, 'openrouter', 'google/gemini-2.0-flash-001', previousContext)
+            const visionResult = await processDocumentImage(base64Image, 'openrouter', 'google/gemini-2.0-flash-001', previousContext, createRedactor(state, 'vision'))
 
             if (!visionResult.success || !visionResult.document) {
                 throw new Error(visionResult.error || "Failed to extract document data.")
@@ -19,7 +19,7 @@ export function EntityOptimizer() {
       .reduce((sum, s) => sum + s.annualAmount, 0)
     const expenses = state.expenses.filter(e => e.isDeductible)
       .reduce((sum, e) => sum + (e.annualAmount * e.deductionPct / 100), 0)
-    return analyzeIncomeThresholds(Math.max(0, seIncome - expenses), state.profile.state || 'IL')
+    return analyzeIncomeThresholds(Math.max(0, seIncome - expenses), state.profile.state || 'IL', state.taxYear)
   }, [state])
 
   const activeScenario = result.scenarios.find(s => s.id === selectedScenario) || result.recommended
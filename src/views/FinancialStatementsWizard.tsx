@@ -8,6 +8,8 @@
  *   2. Balance Sheet
  *   3. Cash Flow Statement
  *   4. Statement of Owner's Equity
+ *
+ * Or skips the questions and reads every figure from an entity's books.
  */
 
 import { useState, useCallback } from 'react'
@@ -18,6 +20,8 @@ import {
   type LineItem,
   type BusinessType,
 } from '../engine/financial-statements-generator'
+import { ledgerStatementsInput, ledgerEntityIds, ledgerEntityName } from '../engine/general-ledger'
+import { useFortuna } from '../hooks/useFortuna'
 import {
   ChevronRight, ChevronLeft, FileText, BarChart3,
   TrendingUp, ArrowDownUp, CheckCircle2, AlertCircle,
@@ -505,6 +509,9 @@ function StepIndicator({ step, total }: { step: number; total: number }) {
 // ===================================================================
 
 export function FinancialStatementsWizard() {
+  const { state } = useFortuna()
+  const [bookEntity, setBookEntity] = useState('personal')
+  const [bookYear, setBookYear] = useState(String(state.taxYear || new Date().getFullYear()))
   const [step, setStep] = useState(0)
   const [form, setForm] = useState<FormInput>({ ...DEFAULT_INPUT })
   const [statements, setStatements] = useState<FinancialStatements | null>(null)
@@ -529,6 +536,13 @@ export function FinancialStatementsWizard() {
     setStatements(result)
   }
 
+  // Every figure from the ledger, so the four statements tie out
+  const handleFromBooks = () => {
+    const input = ledgerStatementsInput(state, bookEntity, `${bookYear}-01-01`, `${bookYear}-12-31`, `FY ${bookYear}`)
+    setForm(input)
+    setStatements(generateFinancialStatements(input))
+  }
+
   const handleReset = () => {
     setStatements(null)
     setStep(0)
@@ -714,6 +728,32 @@ export function FinancialStatementsWizard() {
                 { value: 'other', label: 'Other' },
               ]}
             />
+
+            <SectionHeading>Or generate from your books</SectionHeading>
+            <SelectField
+              label="Entity"
+              hint="Uses the general ledger built from your transactions, receipts and depreciation."
+              value={bookEntity}
+              onChange={setBookEntity}
+              options={ledgerEntityIds(state).map(id => ({ value: id, label: ledgerEntityName(state, id) }))}
+            />
+            <Field
+              label="Fiscal Year"
+              value={bookYear}
+              onChange={setBookYear}
+              type="text"
+            />
+            <button
+              onClick={handleFromBooks}
+              disabled={!/^\d{4}$/.test(bookYear)}
+              style={{
+                display: 'flex', alignItems: 'center', gap: 6,
+                padding: '8px 14px', borderRadius: 8, border: '1px solid var(--border-subtle)',
+                background: 'var(--bg-elevated)', color: 'var(--text-secondary)', cursor: 'pointer', fontSize: 13,
+              }}
+            >
+              <FileText size={15} /> Generate from ledger
+            </button>
           </>
         )}
 
@@ -0,0 +1,330 @@
+/**
+ * Fortuna Engine — General Ledger View
+ *
+ * Per-entity books: trial balance, the journal behind every statement,
+ * manual adjusting entries, the chart of accounts, and period close.
+ *
+ * @view GeneralLedger
+ */
+
+import * as React from 'react'
+import { useState, useMemo } from 'react'
+import { useFortuna } from '../hooks/useFortuna'
+import {
+  chartOfAccounts, generateJournal, trialBalance, postJournalEntry, deleteJournalEntry,
+  closePeriod, reopenPeriod, closedThrough, ledgerEntityIds, ledgerEntityName,
+} from '../engine/general-ledger'
+import type { FortunaState, JournalEntry } from '../engine/storage'
+
+function money(n: number): string {
+  return `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+type Tab = 'trial' | 'journal' | 'accounts' | 'close'
+
+const JOURNAL_PAGE = 200
+
+export function GeneralLedger() {
+  const { state, updateState } = useFortuna()
+  const entities = useMemo(() => ledgerEntityIds(state), [state])
+  const [entityId, setEntityId] = useState('personal')
+  const [asOf, setAsOf] = useState(`${state.taxYear || new Date().getFullYear()}-12-31`)
+  const [tab, setTab] = useState<Tab>('trial')
+  const [sourceFilter, setSourceFilter] = useState<JournalEntry['source'] | 'all'>('all')
+
+  // Manual entry form
+  const [entryDate, setEntryDate] = useState('')
+  const [entryMemo, setEntryMemo] = useState('')
+  const [debitAccount, setDebitAccount] = useState('')
+  const [creditAccount, setCreditAccount] = useState('')
+  const [entryAmount, setEntryAmount] = useState('')
+  const [closeThrough, setCloseThrough] = useState('')
+
+  const chart = useMemo(() => chartOfAccounts(state, entityId), [state, entityId])
+  const accountName = useMemo(() => {
+    const names = new Map(chart.map(a => [a.id, `${a.code} · ${a.name}`]))
+    return (id: string) => names.get(id) ?? id
+  }, [chart])
+  const tb = useMemo(() => trialBalance(state, entityId, asOf), [state, entityId, asOf])
+  const journal = useMemo(() => generateJournal(state, { entityId, through: asOf }), [state, entityId, asOf])
+  const closes = (state.periodCloses || [])
+    .filter(c => c.entityId === entityId)
+    .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))
+  const lockedThrough = closedThrough(state, entityId)
+
+  const amount = parseFloat(entryAmount)
+  const canPost = !!entryDate && !!debitAccount && !!creditAccount && debitAccount !== creditAccount && amount > 0
+    && !(lockedThrough && entryDate <= lockedThrough)
+
+  const handlePost = () => {
+    if (!canPost) return
+    updateState((prev: FortunaState) => postJournalEntry(prev, {
+      entityId,
+      date: entryDate,
+      memo: entryMemo || 'Adjusting entry',
+      source: 'manual',
+      lines: [
+        { accountId: debitAccount, debit: amount, credit: 0 },
+        { accountId: creditAccount, debit: 0, credit: amount },
+      ],
+    }))
+    setEntryMemo('')
+    setEntryAmount('')
+  }
+
+  // ─── Styles ───────────────────────────────────────────────────────────────
+
+  const card: React.CSSProperties = {
+    background: 'var(--bg-card)', borderRadius: 12,
+    border: '1px solid var(--border-subtle)', padding: 20, marginBottom: 16,
+  }
+  const input: React.CSSProperties = {
+    padding: '6px 10px', borderRadius: 6, fontSize: 12,
+    background: 'var(--bg-hover)', color: 'var(--text-primary)', border: '1px solid var(--border-subtle)',
+  }
+  const label: React.CSSProperties = {
+    fontSize: 10, color: 'var(--text-muted)', textTransform: 'uppercase' as const,
+    letterSpacing: '0.08em', marginBottom: 4,
+  }
+  const th: React.CSSProperties = {
+    padding: '8px 10px', textAlign: 'left', fontSize: 10, color: 'var(--text-muted)', fontWeight: 500, textTransform: 'uppercase',
+  }
+  const td: React.CSSProperties = { padding: '6px 10px', color: 'var(--text-primary)' }
+  const num: React.CSSProperties = { ...td, textAlign: 'right', fontFamily: 'var(--font-mono)' }
+  const button = (primary: boolean, disabled = false): React.CSSProperties => ({
+    padding: '6px 16px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+    background: primary ? 'linear-gradient(135deg, #22c55e, #16a34a)' : 'var(--bg-hover)',
+    border: primary ? 'none' : '1px solid var(--border-subtle)',
+    color: primary ? '#fff' : 'var(--text-secondary)',
+    cursor: disabled ? 'not-allowed' : 'pointer', opacity: disabled ? 0.5 : 1,
+  })
+
+  const accountOptions = chart.map(a => <option key={a.id} value={a.id}>{a.code} · {a.name}</option>)
+  const shownEntries = journal
+    .filter(e => sourceFilter === 'all' || e.source === sourceFilter)
+    .slice(-JOURNAL_PAGE)
+    .reverse()
+
+  return (
+    <div style={{ padding: '24px 32px', maxWidth: 1000 }}>
+      <h1 style={{ fontSize: 22, fontWeight: 700, margin: '0 0 8px', fontFamily: 'var(--font-display)', color: 'var(--text-primary)' }}>
+        📒 General Ledger
+      </h1>
+      <p style={{ fontSize: 13, color: 'var(--text-secondary)', margin: '0 0 24px' }}>
+        Double-entry books built from your transactions, receipts, invoices and depreciation. Every statement reads from here.
+      </p>
+
+      <div style={card}>
+        <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <div>
+            <div style={label}>Entity</div>
+            <select value={entityId} onChange={e => setEntityId(e.target.value)} style={input}>
+              {entities.map(id => <option key={id} value={id}>{ledgerEntityName(state, id)}</option>)}
+            </select>
+          </div>
+          <div>
+            <div style={label}>As of</div>
+            <input type="date" value={asOf} onChange={e => setAsOf(e.target.value)} style={input} />
+          </div>
+          <div style={{ display: 'flex', gap: 4, marginLeft: 'auto' }}>
+            {([['trial', 'Trial balance'], ['journal', 'Journal'], ['accounts', 'Chart of accounts'], ['close', 'Period close']] as const).map(([key, text]) => (
+              <button key={key} onClick={() => setTab(key)} style={{
+                ...button(false),
+                background: tab === key ? 'rgba(99,102,241,0.15)' : 'var(--bg-hover)',
+                color: tab === key ? '#818cf8' : 'var(--text-secondary)',
+              }}>
+                {text}
+              </button>
+            ))}
+          </div>
+        </div>
+        {lockedThrough && (
+          <div style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 10 }}>
+            Books closed through {lockedThrough}
+          </div>
+        )}
+      </div>
+
+      {tab === 'trial' && (
+        <div style={card}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+            <h3 style={{ fontSize: 13, fontWeight: 600, margin: 0, color: 'var(--text-primary)' }}>
+              Trial balance — {ledgerEntityName(state, entityId)} as of {asOf}
+            </h3>
+            <span style={{ fontSize: 11, fontWeight: 600, color: tb.isBalanced ? '#22c55e' : '#ef4444' }}>
+              {tb.isBalanced ? '✓ Balanced' : `Out of balance by ${money(tb.totalDebits - tb.totalCredits)}`}
+            </span>
+          </div>
+          {tb.rows.length === 0 ? (
+            <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>No activity for this entity yet.</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                  <th style={th}>Code</th>
+                  <th style={th}>Account</th>
+                  <th style={{ ...th, textAlign: 'right' }}>Debit</th>
+                  <th style={{ ...th, textAlign: 'right' }}>Credit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tb.rows.map(r => (
+                  <tr key={r.account.id} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                    <td style={{ ...td, fontFamily: 'var(--font-mono)', color: 'var(--text-muted)' }}>{r.account.code}</td>
+                    <td style={td}>{r.account.name}</td>
+                    <td style={num}>{r.debit ? money(r.debit) : ''}</td>
+                    <td style={num}>{r.credit ? money(r.credit) : ''}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td style={td} />
+                  <td style={{ ...td, fontWeight: 700 }}>Total</td>
+                  <td style={{ ...num, fontWeight: 700 }}>{money(tb.totalDebits)}</td>
+                  <td style={{ ...num, fontWeight: 700 }}>{money(tb.totalCredits)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {tab === 'journal' && (
+        <>
+          <div style={card}>
+            <h3 style={{ fontSize: 13, fontWeight: 600, margin: '0 0 10px', color: 'var(--text-primary)' }}>
+              Adjusting entry
+            </h3>
+            <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+              <div>
+                <div style={label}>Date</div>
+                <input type="date" value={entryDate} onChange={e => setEntryDate(e.target.value)} style={input} />
+              </div>
+              <div>
+                <div style={label}>Debit</div>
+                <select value={debitAccount} onChange={e => setDebitAccount(e.target.value)} style={{ ...input, maxWidth: 200 }}>
+                  <option value="">Select…</option>
+                  {accountOptions}
+                </select>
+              </div>
+              <div>
+                <div style={label}>Credit</div>
+                <select value={creditAccount} onChange={e => setCreditAccount(e.target.value)} style={{ ...input, maxWidth: 200 }}>
+                  <option value="">Select…</option>
+                  {accountOptions}
+                </select>
+              </div>
+              <div>
+                <div style={label}>Amount</div>
+                <input type="number" step="0.01" value={entryAmount} onChange={e => setEntryAmount(e.target.value)} style={{ ...input, width: 100 }} />
+              </div>
+              <div style={{ flex: 1, minWidth: 140 }}>
+                <div style={label}>Memo</div>
+                <input value={entryMemo} onChange={e => setEntryMemo(e.target.value)} style={{ ...input, width: '100%' }} />
+              </div>
+              <button onClick={handlePost} disabled={!canPost} style={button(true, !canPost)}>Post</button>
+            </div>
+            {lockedThrough && entryDate && entryDate <= lockedThrough && (
+              <div style={{ fontSize: 11, color: '#ef4444', marginTop: 8 }}>That date is in a closed period.</div>
+            )}
+          </div>
+
+          <div style={card}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+              <h3 style={{ fontSize: 13, fontWeight: 600, margin: 0, color: 'var(--text-primary)' }}>
+                Journal — {journal.length} entries{journal.length > JOURNAL_PAGE ? ` (latest ${JOURNAL_PAGE} shown)` : ''}
+              </h3>
+              <select value={sourceFilter} onChange={e => setSourceFilter(e.target.value as JournalEntry['source'] | 'all')} style={input}>
+                {['all', 'transaction', 'receipt', 'invoice', 'depreciation', 'opening', 'payroll', 'manual', 'closing'].map(s => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ overflowX: 'auto', maxHeight: 520 }}>
+              {shownEntries.map(e => (
+                <div key={e.id} style={{ borderBottom: '1px solid var(--border-subtle)', padding: '8px 0', fontSize: 12 }}>
+                  <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 4 }}>
+                    <span style={{ fontFamily: 'var(--font-mono)', fontSize: 10, color: 'var(--text-muted)' }}>{e.date}</span>
+                    <span style={{ flex: 1, color: 'var(--text-primary)' }}>{e.memo}</span>
+                    <span style={{ fontSize: 10, color: 'var(--text-muted)', textTransform: 'uppercase' }}>{e.source}</span>
+                    {(e.source === 'manual' || e.source === 'payroll') && !(lockedThrough && e.date <= lockedThrough) && (
+                      <button onClick={() => updateState((prev: FortunaState) => deleteJournalEntry(prev, e.id))} style={button(false)}>
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                  {e.lines.map((l, i) => (
+                    <div key={i} style={{ display: 'flex', gap: 12, paddingLeft: l.credit ? 36 : 12, color: 'var(--text-secondary)' }}>
+                      <span style={{ flex: 1 }}>{accountName(l.accountId)}</span>
+                      <span style={{ width: 110, textAlign: 'right', fontFamily: 'var(--font-mono)' }}>{l.debit ? money(l.debit) : ''}</span>
+                      <span style={{ width: 110, textAlign: 'right', fontFamily: 'var(--font-mono)' }}>{l.credit ? money(l.credit) : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {tab === 'accounts' && (
+        <div style={card}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                {['Code', 'Account', 'Type', 'Tax category', 'Schedule'].map(h => <th key={h} style={th}>{h}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {chart.map(a => (
+                <tr key={a.id} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                  <td style={{ ...td, fontFamily: 'var(--font-mono)', color: 'var(--text-muted)' }}>{a.code}</td>
+                  <td style={td}>{a.name}</td>
+                  <td style={{ ...td, color: 'var(--text-secondary)' }}>{a.type}</td>
+                  <td style={{ ...td, color: 'var(--text-secondary)' }}>{a.taxCategory}</td>
+                  <td style={{ ...td, color: 'var(--text-muted)' }}>{a.scheduleRef ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {tab === 'close' && (
+        <div style={card}>
+          <h3 style={{ fontSize: 13, fontWeight: 600, margin: '0 0 10px', color: 'var(--text-primary)' }}>
+            Close the books
+          </h3>
+          <p style={{ fontSize: 12, color: 'var(--text-secondary)', margin: '0 0 12px' }}>
+            Rolls revenue and expenses into retained earnings and locks every transaction dated on or before the close date.
+          </p>
+          <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end', marginBottom: 16 }}>
+            <div>
+              <div style={label}>Close through</div>
+              <input type="date" value={closeThrough} onChange={e => setCloseThrough(e.target.value)} style={input} />
+            </div>
+            <button
+              onClick={() => updateState((prev: FortunaState) => closePeriod(prev, entityId, closeThrough))}
+              disabled={!closeThrough || (!!lockedThrough && closeThrough <= lockedThrough)}
+              style={button(true, !closeThrough || (!!lockedThrough && closeThrough <= lockedThrough))}
+            >
+              Close period
+            </button>
+          </div>
+          {closes.map((c, i) => (
+            <div key={c.id} style={{ display: 'flex', alignItems: 'center', gap: 12, fontSize: 12, borderTop: '1px solid var(--border-subtle)', padding: '8px 0' }}>
+              <div style={{ flex: 1, color: 'var(--text-primary)' }}>
+                {c.periodStart} → {c.periodEnd}
+                <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>net income {money(c.netIncome)} · closed {c.closedAt.slice(0, 10)}</span>
+              </div>
+              {i === 0 && (
+                <button onClick={() => updateState((prev: FortunaState) => reopenPeriod(prev, entityId))} style={button(false)}>
+                  Reopen
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -12,7 +12,7 @@ function fmtK(n: number): string { return n >= 1000 ? `$${(n / 1000).toFixed(0)}
 
 const GOAL_ICONS: Record<GoalType, string> = {
   after_tax_income: '💰', savings_target: '🏦', retirement_balance: '🏖️',
-  tax_bill_limit: '🛡️', monthly_net: '📅',
+  tax_bill_limit: '🛡️', monthly_net: '📅', debt_payoff: '💳',
 }
 
 export function GoalPlanner() {
@@ -23,7 +23,7 @@ export function GoalPlanner() {
   // Load from persisted goals
   const initialGoals: FinancialGoal[] = (state.goals || []).map(sg => ({
     id: sg.id,
-    type: (sg.type === 'tax_reduction' ? 'tax_bill_limit' : sg.type === 'savings' ? 'savings_target' : sg.type === 'retirement' ? 'retirement_balance' : sg.type === 'income_growth' ? 'after_tax_income' : 'after_tax_income') as GoalType,
+    type: (sg.type === 'tax_reduction' ? 'tax_bill_limit' : sg.type === 'savings' ? 'savings_target' : sg.type === 'retirement' ? 'retirement_balance' : sg.type === 'income_growth' ? 'after_tax_income' : sg.type === 'debt_payoff' ? 'debt_payoff' : 'after_tax_income') as GoalType,
     name: sg.title,
     targetAmount: sg.targetAmount || 0,
     deadlineMonths: sg.targetDate ? Math.max(1, Math.round((new Date(sg.targetDate).getTime() - Date.now()) / (30 * 24 * 60 * 60 * 1000))) : 12,
@@ -39,7 +39,7 @@ export function GoalPlanner() {
       goals: goals.map(g => ({
         id: g.id,
         title: g.name,
-        type: (g.type === 'tax_bill_limit' ? 'tax_reduction' : g.type === 'savings_target' ? 'savings' : g.type === 'retirement_balance' ? 'retirement' : g.type === 'after_tax_income' ? 'income_growth' : 'other') as any,
+        type: (g.type === 'tax_bill_limit' ? 'tax_reduction' : g.type === 'savings_target' ? 'savings' : g.type === 'retirement_balance' ? 'retirement' : g.type === 'after_tax_income' ? 'income_growth' : g.type === 'debt_payoff' ? 'debt_payoff' : 'other') as any,
         targetAmount: g.targetAmount,
         currentAmount: 0,
         targetDate: g.deadlineMonths ? new Date(Date.now() + g.deadlineMonths * 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10) : undefined,
@@ -242,6 +242,31 @@ export function GoalPlanner() {
               </div>
             )}
 
+            {/* Debt payoff timeline */}
+            {plan.debtPayoff && (
+              <div style={{ marginBottom: 16 }}>
+                <div style={{ fontSize: 11, fontWeight: 500, color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '0.06em', marginBottom: 8 }}>
+                  Payoff Order (avalanche) · {plan.debtPayoff.requiredExtraMonthly === null
+                    ? 'not reachable by deadline'
+                    : `${fmt(plan.debtPayoff.requiredExtraMonthly)}/mo extra`}
+                </div>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                  {plan.debtPayoff.payoffDates.map(p => (
+                    <div key={p.liabilityId} style={{ display: 'flex', justifyContent: 'space-between', padding: '6px 10px', borderRadius: 6, background: 'var(--bg-primary)', fontSize: 12 }}>
+                      <span style={{ color: 'var(--text-secondary)' }}>{p.name}</span>
+                      <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-muted)' }}>
+                        {p.date} · {fmt(p.interestPaid)} interest
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 6 }}>
+                  Debt-free {plan.debtPayoff.debtFreeDate ?? 'beyond the planning horizon'} · total interest {fmt(plan.debtPayoff.totalInterest)}
+                  {plan.debtPayoff.afterTaxInterest < plan.debtPayoff.totalInterest && ` (${fmt(plan.debtPayoff.afterTaxInterest)} after tax)`}
+                </div>
+              </div>
+            )}
+
             {/* Entity recommendation */}
             {plan.estimatedTaxSavings > 0 && (
               <div style={{ padding: '10px 14px', borderRadius: 8, background: 'rgba(16,185,129,0.06)', border: '1px solid rgba(16,185,129,0.12)', display: 'flex', alignItems: 'center', gap: 10 }}>
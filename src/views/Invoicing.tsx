@@ -0,0 +1,445 @@
+/**
+ * Fortuna Engine — Invoicing View
+ *
+ * Accounts receivable per entity: customers, invoices and payments,
+ * deposit matching against bank transactions, A/R aging, expected
+ * collections and the 1099s each payer should send.
+ *
+ * @view Invoicing
+ */
+
+import * as React from 'react'
+import { useState, useMemo } from 'react'
+import { useFortuna } from '../hooks/useFortuna'
+import { ledgerEntityIds, ledgerEntityName } from '../engine/general-ledger'
+import {
+  addCustomer, removeCustomer, createInvoice, sendInvoice, voidInvoice, deleteDraftInvoice,
+  recordPayment, removePayment, matchDeposits, applyDepositMatch, agingReport, expected1099s,
+  invoiceTotal, invoiceBalance, invoiceStatus, customerName, invoiceIncomeForYear,
+  AGING_BUCKETS, type InvoiceStatus,
+} from '../engine/invoicing'
+import { forecastCollections } from '../engine/income-forecast'
+import type { FortunaState, Customer } from '../engine/storage'
+
+function money(n: number): string {
+  return `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+type Tab = 'invoices' | 'customers' | 'aging' | '1099'
+
+const STATUS_COLORS: Record<InvoiceStatus, string> = {
+  draft: 'var(--text-muted)',
+  open: '#818cf8',
+  partial: '#f59e0b',
+  paid: '#22c55e',
+  overdue: '#ef4444',
+  void: 'var(--text-muted)',
+}
+
+const BLANK_LINE = { description: '', quantity: '1', rate: '' }
+
+export function Invoicing() {
+  const { state, updateState } = useFortuna()
+  const entities = useMemo(() => ledgerEntityIds(state), [state])
+  const today = new Date().toISOString().slice(0, 10)
+  const year = state.taxYear || new Date().getFullYear()
+  const [entityId, setEntityId] = useState('personal')
+  const [tab, setTab] = useState<Tab>('invoices')
+
+  // Customer form
+  const [newCustomerName, setNewCustomerName] = useState('')
+  const [customerEmail, setCustomerEmail] = useState('')
+  const [payerType, setPayerType] = useState<Customer['payerType']>('client')
+
+  // Invoice form
+  const [customerId, setCustomerId] = useState('')
+  const [issueDate, setIssueDate] = useState(today)
+  const [termsDays, setTermsDays] = useState('30')
+  const [streamId, setStreamId] = useState('')
+  const [lines, setLines] = useState([BLANK_LINE])
+
+  // Payment form (one invoice at a time)
+  const [payingId, setPayingId] = useState<string | null>(null)
+  const [payDate, setPayDate] = useState(today)
+  const [payAmount, setPayAmount] = useState('')
+
+  const customers = (state.customers || []).filter(c => c.entityId === entityId)
+  const invoices = useMemo(() => (state.invoices || [])
+    .filter(i => i.entityId === entityId)
+    .sort((a, b) => b.issueDate.localeCompare(a.issueDate) || b.number.localeCompare(a.number)), [state.invoices, entityId])
+  const streams = state.incomeStreams.filter(s => s.isActive && (s.entityId || 'personal') === entityId)
+  const matches = useMemo(() => matchDeposits(state, entityId), [state, entityId])
+  const aging = useMemo(() => agingReport(state, today, entityId), [state, today, entityId])
+  const collections = useMemo(() => forecastCollections(invoices, today, 3), [invoices, today])
+  const forms = useMemo(() => expected1099s(state, year, entityId), [state, year, entityId])
+  const cashIncome = invoiceIncomeForYear(state, year, 'cash', entityId)
+  const accrualIncome = invoiceIncomeForYear(state, year, 'accrual', entityId)
+
+  const parsedLines = lines.map(l => ({ description: l.description, quantity: parseFloat(l.quantity), rate: parseFloat(l.rate) }))
+  const draftTotal = parsedLines.reduce((s, l) => s + (l.quantity > 0 && l.rate ? l.quantity * l.rate : 0), 0)
+  const canCreate = !!customerId && !!issueDate && parsedLines.some(l => l.description.trim() && l.quantity > 0 && Number.isFinite(l.rate))
+
+  const handleAddCustomer = () => {
+    if (!newCustomerName.trim()) return
+    updateState((prev: FortunaState) => addCustomer(prev, { entityId, name: newCustomerName, email: customerEmail, payerType }))
+    setNewCustomerName('')
+    setCustomerEmail('')
+  }
+
+  const handleCreate = () => {
+    if (!canCreate) return
+    updateState((prev: FortunaState) => createInvoice(prev, {
+      customerId,
+      entityId,
+      issueDate,
+      termsDays: parseInt(termsDays) || 0,
+      lines: parsedLines,
+      incomeStreamId: streamId || undefined,
+    }))
+    setLines([BLANK_LINE])
+  }
+
+  const handlePay = (invoiceId: string) => {
+    const amount = parseFloat(payAmount)
+    if (!(amount > 0)) return
+    updateState((prev: FortunaState) => recordPayment(prev, invoiceId, { date: payDate, amount, method: 'check' }))
+    setPayingId(null)
+    setPayAmount('')
+  }
+
+  // ─── Styles ───────────────────────────────────────────────────────────────
+
+  const card: React.CSSProperties = {
+    background: 'var(--bg-card)', borderRadius: 12,
+    border: '1px solid var(--border-subtle)', padding: 20, marginBottom: 16,
+  }
+  const input: React.CSSProperties = {
+    padding: '6px 10px', borderRadius: 6, fontSize: 12,
+    background: 'var(--bg-hover)', color: 'var(--text-primary)', border: '1px solid var(--border-subtle)',
+  }
+  const label: React.CSSProperties = {
+    fontSize: 10, color: 'var(--text-muted)', textTransform: 'uppercase' as const,
+    letterSpacing: '0.08em', marginBottom: 4,
+  }
+  const th: React.CSSProperties = {
+    padding: '8px 10px', textAlign: 'left', fontSize: 10, color: 'var(--text-muted)', fontWeight: 500, textTransform: 'uppercase',
+  }
+  const td: React.CSSProperties = { padding: '6px 10px', color: 'var(--text-primary)' }
+  const num: React.CSSProperties = { ...td, textAlign: 'right', fontFamily: 'var(--font-mono)' }
+  const h3: React.CSSProperties = { fontSize: 13, fontWeight: 600, margin: '0 0 10px', color: 'var(--text-primary)' }
+  const button = (primary: boolean, disabled = false): React.CSSProperties => ({
+    padding: '6px 16px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+    background: primary ? 'linear-gradient(135deg, #22c55e, #16a34a)' : 'var(--bg-hover)',
+    border: primary ? 'none' : '1px solid var(--border-subtle)',
+    color: primary ? '#fff' : 'var(--text-secondary)',
+    cursor: disabled ? 'not-allowed' : 'pointer', opacity: disabled ? 0.5 : 1,
+  })
+
+  return (
+    <div style={{ padding: '24px 32px', maxWidth: 1000 }}>
+      <h1 style={{ fontSize: 22, fontWeight: 700, margin: '0 0 8px', fontFamily: 'var(--font-display)', color: 'var(--text-primary)' }}>
+        🧾 Invoicing
+      </h1>
+      <p style={{ fontSize: 13, color: 'var(--text-secondary)', margin: '0 0 24px' }}>
+        Bill customers, match payments to bank deposits, and see who owes you what.
+      </p>
+
+      <div style={card}>
+        <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <div>
+            <div style={label}>Entity</div>
+            <select value={entityId} onChange={e => { setEntityId(e.target.value); setCustomerId('') }} style={input}>
+              {entities.map(id => <option key={id} value={id}>{ledgerEntityName(state, id)}</option>)}
+            </select>
+          </div>
+          <div>
+            <div style={label}>{year} invoiced</div>
+            <div style={{ fontSize: 14, fontWeight: 600, fontFamily: 'var(--font-mono)', color: 'var(--text-primary)' }}>
+              {money(accrualIncome)} <span style={{ fontSize: 11, color: 'var(--text-muted)' }}>accrual</span>
+              {' · '}{money(cashIncome)} <span style={{ fontSize: 11, color: 'var(--text-muted)' }}>cash</span>
+            </div>
+          </div>
+          <div>
+            <div style={label}>Outstanding</div>
+            <div style={{ fontSize: 14, fontWeight: 600, fontFamily: 'var(--font-mono)', color: aging.totals.over90 > 0 ? '#ef4444' : 'var(--text-primary)' }}>
+              {money(aging.total)}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: 4, marginLeft: 'auto' }}>
+            {([['invoices', 'Invoices'], ['customers', 'Customers'], ['aging', 'Aging'], ['1099', '1099s']] as const).map(([key, text]) => (
+              <button key={key} onClick={() => setTab(key)} style={{
+                ...button(false),
+                background: tab === key ? 'rgba(99,102,241,0.15)' : 'var(--bg-hover)',
+                color: tab === key ? '#818cf8' : 'var(--text-secondary)',
+              }}>
+                {text}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {tab === 'invoices' && (
+        <>
+          <div style={card}>
+            <h3 style={h3}>New invoice</h3>
+            {customers.length === 0 ? (
+              <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>Add a customer for this entity first.</div>
+            ) : (
+              <>
+                <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: 12 }}>
+                  <div>
+                    <div style={label}>Customer</div>
+                    <select value={customerId} onChange={e => setCustomerId(e.target.value)} style={input}>
+                      <option value="">Select…</option>
+                      {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <div style={label}>Issue date</div>
+                    <input type="date" value={issueDate} onChange={e => setIssueDate(e.target.value)} style={input} />
+                  </div>
+                  <div>
+                    <div style={label}>Terms (days)</div>
+                    <input type="number" value={termsDays} onChange={e => setTermsDays(e.target.value)} style={{ ...input, width: 70 }} />
+                  </div>
+                  {streams.length > 0 && (
+                    <div>
+                      <div style={label}>Income stream</div>
+                      <select value={streamId} onChange={e => setStreamId(e.target.value)} style={input}>
+                        <option value="">None</option>
+                        {streams.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </div>
+                {lines.map((l, i) => (
+                  <div key={i} style={{ display: 'flex', gap: 8, marginBottom: 6 }}>
+                    <input placeholder="Description" value={l.description} style={{ ...input, flex: 1 }}
+                      onChange={e => setLines(lines.map((x, j) => j === i ? { ...x, description: e.target.value } : x))} />
+                    <input type="number" placeholder="Qty" value={l.quantity} style={{ ...input, width: 60 }}
+                      onChange={e => setLines(lines.map((x, j) => j === i ? { ...x, quantity: e.target.value } : x))} />
+                    <input type="number" step="0.01" placeholder="Rate" value={l.rate} style={{ ...input, width: 100 }}
+                      onChange={e => setLines(lines.map((x, j) => j === i ? { ...x, rate: e.target.value } : x))} />
+                    {lines.length > 1 && (
+                      <button onClick={() => setLines(lines.filter((_, j) => j !== i))} style={button(false)}>✕</button>
+                    )}
+                  </div>
+                ))}
+                <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 8 }}>
+                  <button onClick={() => setLines([...lines, BLANK_LINE])} style={button(false)}>+ Line</button>
+                  <span style={{ marginLeft: 'auto', fontSize: 12, fontFamily: 'var(--font-mono)', color: 'var(--text-secondary)' }}>
+                    Total {money(draftTotal)}
+                  </span>
+                  <button onClick={handleCreate} disabled={!canCreate} style={button(true, !canCreate)}>Save draft</button>
+                </div>
+              </>
+            )}
+          </div>
+
+          {matches.length > 0 && (
+            <div style={card}>
+              <h3 style={h3}>Deposits that look like invoice payments</h3>
+              {matches.map(m => {
+                const inv = invoices.find(i => i.id === m.invoiceId)
+                const t = state.auditHistory.find(x => x.id === m.transactionId)
+                if (!inv || !t) return null
+                return (
+                  <div key={`${m.invoiceId}_${m.transactionId}`} style={{ display: 'flex', gap: 12, alignItems: 'center', fontSize: 12, padding: '6px 0', borderTop: '1px solid var(--border-subtle)' }}>
+                    <span style={{ flex: 1, color: 'var(--text-primary)' }}>
+                      {inv.number} · {customerName(state, inv.customerId)}
+                      <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>← {t.date.slice(0, 10)} {t.merchantName || t.description}</span>
+                    </span>
+                    <span style={{ fontFamily: 'var(--font-mono)' }}>{money(m.amount)}</span>
+                    <button onClick={() => updateState((prev: FortunaState) => applyDepositMatch(prev, m))} style={button(true)}>Apply</button>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          <div style={card}>
+            {invoices.length === 0 ? (
+              <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>No invoices for this entity yet.</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                    <th style={th}>Number</th>
+                    <th style={th}>Customer</th>
+                    <th style={th}>Issued</th>
+                    <th style={th}>Due</th>
+                    <th style={th}>Status</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Total</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Balance</th>
+                    <th style={th} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoices.map(inv => {
+                    const status = invoiceStatus(inv, today)
+                    const balance = invoiceBalance(inv)
+                    return (
+                      <React.Fragment key={inv.id}>
+                        <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                          <td style={{ ...td, fontFamily: 'var(--font-mono)' }}>{inv.number}</td>
+                          <td style={td}>{customerName(state, inv.customerId)}</td>
+                          <td style={{ ...td, color: 'var(--text-secondary)' }}>{inv.issueDate}</td>
+                          <td style={{ ...td, color: 'var(--text-secondary)' }}>{inv.dueDate}</td>
+                          <td style={{ ...td, color: STATUS_COLORS[status], fontWeight: 600, textTransform: 'capitalize' }}>{status}</td>
+                          <td style={num}>{money(invoiceTotal(inv))}</td>
+                          <td style={num}>{inv.status === 'sent' ? money(balance) : ''}</td>
+                          <td style={{ ...td, whiteSpace: 'nowrap', textAlign: 'right' }}>
+                            {inv.status === 'draft' && (
+                              <>
+                                <button onClick={() => updateState((prev: FortunaState) => sendInvoice(prev, inv.id))} style={button(true)}>Send</button>{' '}
+                                <button onClick={() => updateState((prev: FortunaState) => deleteDraftInvoice(prev, inv.id))} style={button(false)}>Delete</button>
+                              </>
+                            )}
+                            {inv.status === 'sent' && balance > 0 && (
+                              <button onClick={() => { setPayingId(inv.id); setPayAmount(String(balance)) }} style={button(false)}>Record payment</button>
+                            )}
+                            {inv.status !== 'void' && inv.payments.length === 0 && (
+                              <>{' '}<button onClick={() => updateState((prev: FortunaState) => voidInvoice(prev, inv.id))} style={button(false)}>Void</button></>
+                            )}
+                          </td>
+                        </tr>
+                        {payingId === inv.id && (
+                          <tr>
+                            <td colSpan={8} style={{ ...td, display: 'flex', gap: 8, alignItems: 'center' }}>
+                              <input type="date" value={payDate} onChange={e => setPayDate(e.target.value)} style={input} />
+                              <input type="number" step="0.01" value={payAmount} onChange={e => setPayAmount(e.target.value)} style={{ ...input, width: 100 }} />
+                              <button onClick={() => handlePay(inv.id)} style={button(true)}>Save</button>
+                              <button onClick={() => setPayingId(null)} style={button(false)}>Cancel</button>
+                            </td>
+                          </tr>
+                        )}
+                        {inv.payments.map(p => (
+                          <tr key={p.id} style={{ fontSize: 11, color: 'var(--text-muted)' }}>
+                            <td />
+                            <td colSpan={4} style={{ padding: '2px 10px' }}>
+                              Payment {p.date} · {p.method}{p.transactionId ? ' · matched to deposit' : ''}
+                            </td>
+                            <td />
+                            <td style={{ ...num, padding: '2px 10px', color: 'var(--text-muted)' }}>-{money(p.amount)}</td>
+                            <td style={{ padding: '2px 10px', textAlign: 'right' }}>
+                              <button onClick={() => updateState((prev: FortunaState) => removePayment(prev, inv.id, p.id))} style={{ ...button(false), padding: '2px 8px', fontSize: 10 }}>Remove</button>
+                            </td>
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    )
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      {tab === 'customers' && (
+        <div style={card}>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: 16 }}>
+            <div style={{ flex: 1, minWidth: 160 }}>
+              <div style={label}>Name</div>
+              <input value={newCustomerName} onChange={e => setNewCustomerName(e.target.value)} style={{ ...input, width: '100%' }} />
+            </div>
+            <div>
+              <div style={label}>Email</div>
+              <input value={customerEmail} onChange={e => setCustomerEmail(e.target.value)} style={input} />
+            </div>
+            <div>
+              <div style={label}>Pays through</div>
+              <select value={payerType} onChange={e => setPayerType(e.target.value as Customer['payerType'])} style={input}>
+                <option value="client">Direct (1099-NEC)</option>
+                <option value="platform">Platform / processor (1099-K)</option>
+              </select>
+            </div>
+            <button onClick={handleAddCustomer} disabled={!newCustomerName.trim()} style={button(true, !newCustomerName.trim())}>Add customer</button>
+          </div>
+          {customers.map(c => {
+            const hasInvoices = (state.invoices || []).some(i => i.customerId === c.id)
+            return (
+              <div key={c.id} style={{ display: 'flex', gap: 12, alignItems: 'center', fontSize: 12, padding: '8px 0', borderTop: '1px solid var(--border-subtle)' }}>
+                <span style={{ flex: 1, color: 'var(--text-primary)' }}>
+                  {c.name}
+                  {c.email && <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>{c.email}</span>}
+                </span>
+                <span style={{ color: 'var(--text-muted)' }}>{c.payerType === 'platform' ? '1099-K' : '1099-NEC'}</span>
+                {!hasInvoices && (
+                  <button onClick={() => updateState((prev: FortunaState) => removeCustomer(prev, c.id))} style={button(false)}>Remove</button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {tab === 'aging' && (
+        <>
+          <div style={card}>
+            <h3 style={h3}>A/R aging as of {aging.asOf}</h3>
+            {aging.rows.length === 0 ? (
+              <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>Nothing outstanding.</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                    <th style={th}>Customer</th>
+                    {AGING_BUCKETS.map(b => <th key={b.key} style={{ ...th, textAlign: 'right' }}>{b.label}</th>)}
+                    <th style={{ ...th, textAlign: 'right' }}>Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {aging.rows.map(r => (
+                    <tr key={r.customer.id} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                      <td style={td}>{r.customer.name}</td>
+                      {AGING_BUCKETS.map(b => <td key={b.key} style={num}>{r.buckets[b.key] ? money(r.buckets[b.key]) : ''}</td>)}
+                      <td style={{ ...num, fontWeight: 600 }}>{money(r.total)}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td style={{ ...td, fontWeight: 700 }}>Total</td>
+                    {AGING_BUCKETS.map(b => <td key={b.key} style={{ ...num, fontWeight: 700 }}>{money(aging.totals[b.key])}</td>)}
+                    <td style={{ ...num, fontWeight: 700 }}>{money(aging.total)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+          <div style={card}>
+            <h3 style={h3}>Expected collections</h3>
+            {collections.map(c => (
+              <div key={c.month} style={{ display: 'flex', gap: 12, fontSize: 12, padding: '4px 0' }}>
+                <span style={{ width: 80, color: 'var(--text-secondary)' }}>{c.month}</span>
+                <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-primary)' }}>{money(c.expected + c.overdue)}</span>
+                {c.overdue > 0 && <span style={{ color: '#ef4444' }}>incl. {money(c.overdue)} past due</span>}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {tab === '1099' && (
+        <div style={card}>
+          <h3 style={h3}>1099s to expect for {year}</h3>
+          <p style={{ fontSize: 12, color: 'var(--text-secondary)', margin: '0 0 12px' }}>
+            Based on payments received. Card and payment-app payments are reported by the processor on 1099-K, not by the client.
+          </p>
+          {forms.length === 0 ? (
+            <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>No payments received in {year}.</div>
+          ) : forms.map(f => (
+            <div key={f.customer.id} style={{ display: 'flex', gap: 12, alignItems: 'center', fontSize: 12, padding: '8px 0', borderTop: '1px solid var(--border-subtle)' }}>
+              <span style={{ flex: 1, color: 'var(--text-primary)' }}>{f.customer.name}</span>
+              <span style={{ width: 70, color: 'var(--text-secondary)' }}>{f.form}</span>
+              <span style={{ width: 110, textAlign: 'right', fontFamily: 'var(--font-mono)' }}>{money(f.reportable)}</span>
+              <span style={{ width: 150, textAlign: 'right', color: f.expected ? '#22c55e' : 'var(--text-muted)' }}>
+                {f.expected ? 'Expect a form' : `Under ${money(f.threshold)}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
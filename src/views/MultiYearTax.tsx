@@ -45,7 +45,6 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
   const totalTax = baseline.reduce((s, y) => s + y.totalTax, 0)
   const totalIncome = baseline.reduce((s, y) => s + y.grossIncome, 0)
   const maxAfterTax = Math.max(...baseline.map(y => y.afterTax))
-  const hasTcjaSunset = baseline.some(y => y.bracketRegime === 'pre_tcja')
 
   const tabs = [
     { id: 'projection' as const, label: 'Projection', icon: <TrendingUp size={14} /> },
@@ -60,7 +59,7 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 24 }}>
         <div>
           <h2 className="view-title" style={{ marginBottom: 4 }}>Multi-Year Tax Projection</h2>
-          <p style={{ fontSize: 13, color: 'var(--text-muted)' }}>{horizonYears}-year forecast with TCJA sunset modeling and income shifting optimization</p>
+          <p style={{ fontSize: 13, color: 'var(--text-muted)' }}>{horizonYears}-year forecast with year-indexed brackets and income shifting optimization</p>
         </div>
         <div style={{ display: 'flex', gap: 6 }}>
           {[3, 5].map(n => (
@@ -75,7 +74,7 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
       </div>
 
       {/* KPI Cards */}
-      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 14, marginBottom: 24 }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 14, marginBottom: 24 }}>
         <div className="glass-card" style={{ padding: '16px 18px' }}>
           <div style={{ fontSize: 10, fontFamily: 'var(--font-mono)', color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '0.1em', marginBottom: 6 }}>{horizonYears}-Yr Total Tax</div>
           <div style={{ fontSize: 22, fontWeight: 600, fontFamily: 'var(--font-mono)', color: 'var(--accent-red)' }}>{fmt(totalTax)}</div>
@@ -91,13 +90,6 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
           <div style={{ fontSize: 22, fontWeight: 600, fontFamily: 'var(--font-mono)', color: 'var(--accent-emerald)' }}>{fmt(analysis.bracketHeadroom)}</div>
           <div style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 4 }}>before next rate jump</div>
         </div>
-        <div className="glass-card" style={{ padding: '16px 18px', border: hasTcjaSunset ? '1px solid var(--accent-red-dim)' : undefined }}>
-          <div style={{ fontSize: 10, fontFamily: 'var(--font-mono)', color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '0.1em', marginBottom: 6 }}>TCJA Sunset Impact</div>
-          <div style={{ fontSize: 22, fontWeight: 600, fontFamily: 'var(--font-mono)', color: analysis.tcjaSunsetImpact > 0 ? 'var(--accent-red)' : 'var(--text-muted)' }}>
-            {analysis.tcjaSunsetImpact > 0 ? `+${fmt(analysis.tcjaSunsetImpact)}` : 'N/A'}
-          </div>
-          <div style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 4 }}>{hasTcjaSunset ? 'annual tax increase' : 'within projection window'}</div>
-        </div>
       </div>
 
       {/* Tabs */}
@@ -122,7 +114,6 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
               {baseline.map(yr => {
                 const incomeH = (yr.grossIncome / (maxAfterTax * 1.3)) * 180
                 const taxH = (yr.totalTax / (maxAfterTax * 1.3)) * 180
-                const isSunset = yr.bracketRegime === 'pre_tcja'
 
                 return (
                   <div key={yr.year} style={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 6 }}>
@@ -135,9 +126,7 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
                       }} />
                       <div style={{
                         width: '40%', height: taxH, borderRadius: '6px 6px 0 0',
-                        background: isSunset
-                          ? 'linear-gradient(180deg, var(--accent-red), #c0392b)'
-                          : 'linear-gradient(180deg, rgba(239,107,107,0.6), rgba(239,107,107,0.3))',
+                        background: 'linear-gradient(180deg, rgba(239,107,107,0.6), rgba(239,107,107,0.3))',
                       }} />
                     </div>
                     <div style={{ textAlign: 'center' }}>
@@ -145,9 +134,6 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
                         fontSize: 12, fontWeight: 600, color: 'var(--text-primary)',
                         fontFamily: 'var(--font-mono)',
                       }}>{yr.year}</div>
-                      {isSunset && (
-                        <div style={{ fontSize: 8, color: 'var(--accent-red)', fontFamily: 'var(--font-mono)', marginTop: 2 }}>POST-TCJA</div>
-                      )}
                     </div>
                   </div>
                 )
@@ -177,12 +163,9 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
               </thead>
               <tbody>
                 {baseline.map((yr, i) => (
-                  <tr key={yr.year} style={{
-                    borderBottom: '1px solid var(--border-subtle)',
-                    background: yr.bracketRegime === 'pre_tcja' ? 'rgba(239,107,107,0.04)' : undefined,
-                  }}>
-                    <td style={{ padding: '10px', fontWeight: 600, fontFamily: 'var(--font-mono)', color: yr.bracketRegime === 'pre_tcja' ? 'var(--accent-red)' : 'var(--text-primary)' }}>
-                      {yr.year} {yr.bracketRegime === 'pre_tcja' && '⚠️'}
+                  <tr key={yr.year} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                    <td style={{ padding: '10px', fontWeight: 600, fontFamily: 'var(--font-mono)', color: 'var(--text-primary)' }}>
+                      {yr.year}
                     </td>
                     <td style={{ padding: '10px', textAlign: 'right', fontFamily: 'var(--font-mono)', color: 'var(--text-primary)' }}>{fmt(yr.grossIncome)}</td>
                     <td style={{ padding: '10px', textAlign: 'right', fontFamily: 'var(--font-mono)', color: yr.growthRate > 0 ? 'var(--accent-emerald)' : 'var(--text-muted)' }}>
@@ -290,10 +273,10 @@ export function MultiYearTaxView({ onNavigate }: MultiYearTaxViewProps) {
               <div key={yr.year} className="glass-card" style={{ padding: 16 }}>
                 <div style={{
                   fontSize: 14, fontWeight: 600, fontFamily: 'var(--font-mono)',
-                  color: yr.bracketRegime === 'pre_tcja' ? 'var(--accent-red)' : 'var(--text-primary)',
+                  color: 'var(--text-primary)',
                   marginBottom: 12,
                 }}>
-                  {yr.year} {yr.bracketRegime === 'pre_tcja' && '⚠️'}
+                  {yr.year}
                 </div>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
                   {yr.bracketUtilization.filter(b => b.capacity < 400000).map((b, i) => (
@@ -0,0 +1,450 @@
+/**
+ * Fortuna Engine — Payroll View
+ *
+ * Runs payroll for an entity: employees (S-corp officers included), pay
+ * schedule and unemployment rates, gross-to-net runs posted to the ledger,
+ * Form 941 / 940 worksheets with deposit dates, and W-2 / W-3 output.
+ *
+ * @view Payroll
+ */
+
+import * as React from 'react'
+import { useState, useMemo } from 'react'
+import { useFortuna } from '../hooks/useFortuna'
+import {
+  addEmployee, updateEmployee, removeEmployee, setPayrollSettings, nextPayPeriod, runPayroll, voidPayrollRun,
+  form941, form940, buildW2s, buildW3, w2Issues, w2Pdf, employerTaxes, DEFAULT_PAYROLL_SETTINGS,
+} from '../engine/payroll'
+import { entityW2Wages } from '../engine/tax-calculator'
+import type { FortunaState, FilingStatus, PayFrequency, PayrollSettings } from '../engine/storage'
+
+function money(n: number): string {
+  return `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+type Tab = 'run' | 'employees' | '941' | 'annual'
+
+const FREQUENCIES: [PayFrequency, string][] = [
+  ['weekly', 'Weekly'], ['biweekly', 'Every two weeks'], ['semimonthly', 'Twice a month'], ['monthly', 'Monthly'],
+]
+
+export function Payroll() {
+  const { state, updateState } = useFortuna()
+  const year = state.taxYear || new Date().getFullYear()
+  const payers = state.entities.filter(e => e.isActive && e.type !== 'sole_prop')
+  const [entityId, setEntityId] = useState(payers[0]?.id ?? '')
+  const [tab, setTab] = useState<Tab>('run')
+  const [quarter, setQuarter] = useState<1 | 2 | 3 | 4>(1)
+
+  const entity = state.entities.find(e => e.id === entityId)
+  const settings = entity?.payroll
+
+  // Employee form
+  const [name, setName] = useState('')
+  const [salary, setSalary] = useState('')
+  const [isOfficer, setIsOfficer] = useState(false)
+  const [filingStatus, setFilingStatus] = useState<FilingStatus>('single')
+  const [hireDate, setHireDate] = useState(`${year}-01-01`)
+  const [pretax401k, setPretax401k] = useState('')
+  const [ssn, setSsn] = useState('')
+
+  const employees = (state.employees || []).filter(e => e.entityId === entityId)
+  const runs = useMemo(() => (state.payrollRuns || [])
+    .filter(r => r.entityId === entityId)
+    .sort((a, b) => b.payDate.localeCompare(a.payDate)), [state.payrollRuns, entityId])
+  const next = useMemo(() => nextPayPeriod(state, entityId, year), [state, entityId, year])
+  const quarterly = useMemo(() => form941(state, entityId, year, quarter), [state, entityId, year, quarter])
+  const annual = useMemo(() => form940(state, entityId, year), [state, entityId, year])
+  const w2s = useMemo(() => buildW2s(state, entityId, year), [state, entityId, year])
+  const w3 = buildW3(w2s, year)
+  const issues = w2Issues(w2s)
+  const qbiWages = entityId ? entityW2Wages(state, entityId, year) : 0
+  const latestRunId = runs[0]?.id
+
+  const saveSettings = (patch: Partial<PayrollSettings>) => {
+    const base: PayrollSettings = settings ?? { ...DEFAULT_PAYROLL_SETTINGS, firstPayDate: `${year}-01-31` }
+    updateState((prev: FortunaState) => setPayrollSettings(prev, entityId, { ...base, ...patch }))
+  }
+
+  const handleAddEmployee = () => {
+    const annualSalary = parseFloat(salary)
+    if (!name.trim() || !(annualSalary >= 0)) return
+    updateState((prev: FortunaState) => addEmployee(prev, {
+      entityId, name, isOfficer, annualSalary, filingStatus, hireDate,
+      ...(ssn ? { ssn } : {}),
+      ...(parseFloat(pretax401k) > 0 ? { pretax401k: parseFloat(pretax401k) } : {}),
+    }))
+    setName('')
+    setSalary('')
+    setSsn('')
+    setPretax401k('')
+  }
+
+  const prefillOfficer = () => {
+    setName(state.profile.name)
+    setSalary(String(entity?.officerSalary || ''))
+    setIsOfficer(true)
+    setFilingStatus(state.profile.filingStatus)
+  }
+
+  const download = (data: Uint8Array<ArrayBuffer>, filename: string) => {
+    const blob = new Blob([data], { type: 'application/pdf' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  // ─── Styles ───────────────────────────────────────────────────────────────
+
+  const card: React.CSSProperties = {
+    background: 'var(--bg-card)', borderRadius: 12,
+    border: '1px solid var(--border-subtle)', padding: 20, marginBottom: 16,
+  }
+  const input: React.CSSProperties = {
+    padding: '6px 10px', borderRadius: 6, fontSize: 12,
+    background: 'var(--bg-hover)', color: 'var(--text-primary)', border: '1px solid var(--border-subtle)',
+  }
+  const label: React.CSSProperties = {
+    fontSize: 10, color: 'var(--text-muted)', textTransform: 'uppercase' as const,
+    letterSpacing: '0.08em', marginBottom: 4,
+  }
+  const th: React.CSSProperties = {
+    padding: '8px 10px', textAlign: 'left', fontSize: 10, color: 'var(--text-muted)', fontWeight: 500, textTransform: 'uppercase',
+  }
+  const td: React.CSSProperties = { padding: '6px 10px', color: 'var(--text-primary)' }
+  const num: React.CSSProperties = { ...td, textAlign: 'right', fontFamily: 'var(--font-mono)' }
+  const h3: React.CSSProperties = { fontSize: 13, fontWeight: 600, margin: '0 0 10px', color: 'var(--text-primary)' }
+  const button = (primary: boolean, disabled = false): React.CSSProperties => ({
+    padding: '6px 16px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+    background: primary ? 'linear-gradient(135deg, #22c55e, #16a34a)' : 'var(--bg-hover)',
+    border: primary ? 'none' : '1px solid var(--border-subtle)',
+    color: primary ? '#fff' : 'var(--text-secondary)',
+    cursor: disabled ? 'not-allowed' : 'pointer', opacity: disabled ? 0.5 : 1,
+  })
+  const line = (text: string, value: string, strong = false) => (
+    <div style={{ display: 'flex', gap: 12, fontSize: 12, padding: '4px 0', borderTop: '1px solid var(--border-subtle)' }}>
+      <span style={{ flex: 1, color: strong ? 'var(--text-primary)' : 'var(--text-secondary)', fontWeight: strong ? 600 : 400 }}>{text}</span>
+      <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-primary)', fontWeight: strong ? 700 : 400 }}>{value}</span>
+    </div>
+  )
+
+  if (payers.length === 0) {
+    return (
+      <div style={{ padding: '24px 32px', maxWidth: 1000 }}>
+        <h1 style={{ fontSize: 22, fontWeight: 700, margin: '0 0 8px', fontFamily: 'var(--font-display)', color: 'var(--text-primary)' }}>💵 Payroll</h1>
+        <div style={card}>
+          <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>Add an LLC or corporation in Entity Design to run payroll.</div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ padding: '24px 32px', maxWidth: 1000 }}>
+      <h1 style={{ fontSize: 22, fontWeight: 700, margin: '0 0 8px', fontFamily: 'var(--font-display)', color: 'var(--text-primary)' }}>
+        💵 Payroll
+      </h1>
+      <p style={{ fontSize: 13, color: 'var(--text-secondary)', margin: '0 0 24px' }}>
+        Pay yourself and your team, track what you owe the IRS and when, and produce W-2s at year end.
+      </p>
+
+      <div style={card}>
+        <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <div>
+            <div style={label}>Employer</div>
+            <select value={entityId} onChange={e => setEntityId(e.target.value)} style={input}>
+              {payers.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <div style={label}>{year} W-2 wages (QBI)</div>
+            <div style={{ fontSize: 14, fontWeight: 600, fontFamily: 'var(--font-mono)', color: 'var(--text-primary)' }}>
+              {money(qbiWages)} <span style={{ fontSize: 11, color: 'var(--text-muted)' }}>{runs.some(r => r.payDate.startsWith(`${year}-`)) ? 'from payroll' : 'estimate'}</span>
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: 4, marginLeft: 'auto' }}>
+            {([['run', 'Run payroll'], ['employees', 'Employees'], ['941', 'Form 941'], ['annual', '940 & W-2']] as const).map(([key, text]) => (
+              <button key={key} onClick={() => setTab(key)} style={{
+                ...button(false),
+                background: tab === key ? 'rgba(99,102,241,0.15)' : 'var(--bg-hover)',
+                color: tab === key ? '#818cf8' : 'var(--text-secondary)',
+              }}>
+                {text}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {tab === 'run' && (
+        <>
+          <div style={card}>
+            <h3 style={h3}>Pay schedule</h3>
+            <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+              <div>
+                <div style={label}>Frequency</div>
+                <select value={settings?.frequency ?? ''} onChange={e => saveSettings({ frequency: e.target.value as PayFrequency })} style={input}>
+                  {!settings && <option value="">Not set up</option>}
+                  {FREQUENCIES.map(([key, text]) => <option key={key} value={key}>{text}</option>)}
+                </select>
+              </div>
+              {settings && (settings.frequency === 'weekly' || settings.frequency === 'biweekly') && (
+                <div>
+                  <div style={label}>A pay date</div>
+                  <input type="date" value={settings.firstPayDate} onChange={e => saveSettings({ firstPayDate: e.target.value })} style={input} />
+                </div>
+              )}
+              {settings && (
+                <>
+                  <div>
+                    <div style={label}>SUTA rate %</div>
+                    <input type="number" step="0.01" value={Math.round(settings.sutaRate * 10000) / 100}
+                      onChange={e => saveSettings({ sutaRate: (parseFloat(e.target.value) || 0) / 100 })} style={{ ...input, width: 80 }} />
+                  </div>
+                  <div>
+                    <div style={label}>SUTA wage base</div>
+                    <input type="number" value={settings.sutaWageBase}
+                      onChange={e => saveSettings({ sutaWageBase: parseFloat(e.target.value) || 0 })} style={{ ...input, width: 90 }} />
+                  </div>
+                  <div>
+                    <div style={label}>Deposits</div>
+                    <select value={settings.depositSchedule} onChange={e => saveSettings({ depositSchedule: e.target.value as PayrollSettings['depositSchedule'] })} style={input}>
+                      <option value="monthly">Monthly</option>
+                      <option value="semiweekly">Semiweekly</option>
+                    </select>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {settings && (
+            <div style={card}>
+              <h3 style={h3}>Next payroll</h3>
+              {!next ? (
+                <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>Every {year} pay date has been run.</div>
+              ) : employees.length === 0 ? (
+                <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>Add an employee first.</div>
+              ) : (
+                <div style={{ display: 'flex', gap: 12, alignItems: 'center', fontSize: 12 }}>
+                  <span style={{ flex: 1, color: 'var(--text-primary)' }}>
+                    Pay date {next.payDate}
+                    <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>period {next.periodStart} – {next.periodEnd}</span>
+                  </span>
+                  <button onClick={() => updateState((prev: FortunaState) => runPayroll(prev, entityId, next))} style={button(true)}>Run payroll</button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div style={card}>
+            {runs.length === 0 ? (
+              <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>No payroll runs yet.</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                    <th style={th}>Pay date</th>
+                    <th style={th}>Employee</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Gross</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Withheld</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Net</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Employer tax</th>
+                    <th style={th} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(r => r.checks.map((c, i) => (
+                    <tr key={`${r.id}_${c.employeeId}`} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                      <td style={{ ...td, color: 'var(--text-secondary)' }}>{i === 0 ? r.payDate : ''}</td>
+                      <td style={td}>{employees.find(e => e.id === c.employeeId)?.name ?? 'Former employee'}</td>
+                      <td style={num}>{money(c.gross)}</td>
+                      <td style={num}>{money(c.gross - c.net)}</td>
+                      <td style={{ ...num, fontWeight: 600 }}>{money(c.net)}</td>
+                      <td style={num}>{money(employerTaxes(c))}</td>
+                      <td style={{ ...td, textAlign: 'right' }}>
+                        {i === 0 && r.id === latestRunId && (
+                          <button onClick={() => updateState((prev: FortunaState) => voidPayrollRun(prev, r.id))} style={{ ...button(false), padding: '2px 8px', fontSize: 10 }}>Void</button>
+                        )}
+                      </td>
+                    </tr>
+                  )))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      {tab === 'employees' && (
+        <div style={card}>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: 16 }}>
+            <div style={{ flex: 1, minWidth: 150 }}>
+              <div style={label}>Name</div>
+              <input value={name} onChange={e => setName(e.target.value)} style={{ ...input, width: '100%' }} />
+            </div>
+            <div>
+              <div style={label}>Annual salary</div>
+              <input type="number" value={salary} onChange={e => setSalary(e.target.value)} style={{ ...input, width: 100 }} />
+            </div>
+            <div>
+              <div style={label}>W-4 status</div>
+              <select value={filingStatus} onChange={e => setFilingStatus(e.target.value as FilingStatus)} style={input}>
+                <option value="single">Single</option>
+                <option value="married_joint">Married filing jointly</option>
+                <option value="head_of_household">Head of household</option>
+              </select>
+            </div>
+            <div>
+              <div style={label}>401(k) / yr</div>
+              <input type="number" value={pretax401k} onChange={e => setPretax401k(e.target.value)} style={{ ...input, width: 90 }} />
+            </div>
+            <div>
+              <div style={label}>SSN</div>
+              <input value={ssn} onChange={e => setSsn(e.target.value)} style={{ ...input, width: 110 }} />
+            </div>
+            <div>
+              <div style={label}>Hired</div>
+              <input type="date" value={hireDate} onChange={e => setHireDate(e.target.value)} style={input} />
+            </div>
+            <label style={{ fontSize: 12, color: 'var(--text-secondary)', display: 'flex', gap: 6, alignItems: 'center' }}>
+              <input type="checkbox" checked={isOfficer} onChange={e => setIsOfficer(e.target.checked)} /> Officer
+            </label>
+            <button onClick={handleAddEmployee} disabled={!name.trim() || !salary} style={button(true, !name.trim() || !salary)}>Add</button>
+          </div>
+          {employees.length === 0 && !!entity?.officerSalary && (
+            <div style={{ fontSize: 12, color: 'var(--text-secondary)', marginBottom: 12 }}>
+              {entity.name} has an officer salary of {money(entity.officerSalary)} but no one on payroll.{' '}
+              <button onClick={prefillOfficer} style={{ ...button(false), padding: '2px 8px', fontSize: 11 }}>Add me as officer</button>
+            </div>
+          )}
+          {employees.map(e => {
+            const paid = runs.some(r => r.checks.some(c => c.employeeId === e.id))
+            return (
+              <div key={e.id} style={{ display: 'flex', gap: 12, alignItems: 'center', fontSize: 12, padding: '8px 0', borderTop: '1px solid var(--border-subtle)' }}>
+                <span style={{ flex: 1, color: 'var(--text-primary)' }}>
+                  {e.name}{e.isOfficer && <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>officer</span>}
+                  {e.terminationDate && <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>left {e.terminationDate}</span>}
+                </span>
+                <span style={{ fontFamily: 'var(--font-mono)' }}>{money(e.annualSalary)}/yr</span>
+                <span style={{ width: 40, color: 'var(--text-muted)' }}>{e.workState}</span>
+                {paid ? (
+                  !e.terminationDate && (
+                    <button onClick={() => updateState((prev: FortunaState) => updateEmployee(prev, e.id, { terminationDate: new Date().toISOString().slice(0, 10) }))} style={button(false)}>Terminate</button>
+                  )
+                ) : (
+                  <button onClick={() => updateState((prev: FortunaState) => removeEmployee(prev, e.id))} style={button(false)}>Remove</button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {tab === '941' && (
+        <div style={card}>
+          <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 12 }}>
+            <h3 style={{ ...h3, margin: 0, flex: 1 }}>Form 941 — Q{quarter} {year}</h3>
+            <select value={quarter} onChange={e => setQuarter(parseInt(e.target.value) as 1 | 2 | 3 | 4)} style={input}>
+              {[1, 2, 3, 4].map(q => <option key={q} value={q}>Q{q}</option>)}
+            </select>
+            <span style={{ fontSize: 12, color: 'var(--text-muted)' }}>Due {quarterly.dueDate}</span>
+          </div>
+          {line('1  Number of employees', String(quarterly.employees))}
+          {line('2  Wages, tips, and other compensation', money(quarterly.wages))}
+          {line('3  Federal income tax withheld', money(quarterly.federalWithholding))}
+          {line(`5a  Taxable social security wages ${money(quarterly.socialSecurityWages)} × 0.124`, money(quarterly.socialSecurityTax))}
+          {line(`5c  Taxable Medicare wages ${money(quarterly.medicareWages)} × 0.029`, money(quarterly.medicareTax))}
+          {line(`5d  Additional Medicare wages ${money(quarterly.additionalMedicareWages)} × 0.009`, money(quarterly.additionalMedicareTax))}
+          {line('5e  Total social security and Medicare taxes', money(quarterly.totalFicaTax))}
+          {line('6  Total taxes before adjustments', money(quarterly.taxBeforeAdjustments))}
+          {line('7  Fractions of cents', money(quarterly.fractionsOfCents))}
+          {line('12  Total taxes after adjustments', money(quarterly.totalTax), true)}
+          <div style={{ marginTop: 16 }}>
+            <h3 style={h3}>Deposits</h3>
+            {quarterly.deposits.length === 0 ? (
+              <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>No payroll this quarter.</div>
+            ) : quarterly.deposits.map(d => (
+              <div key={d.dueDate} style={{ display: 'flex', gap: 12, fontSize: 12, padding: '4px 0' }}>
+                <span style={{ width: 100, color: 'var(--text-primary)' }}>{d.dueDate}</span>
+                <span style={{ width: 110, fontFamily: 'var(--font-mono)' }}>{money(d.amount)}</span>
+                <span style={{ color: 'var(--text-muted)' }}>for paydays {d.payDates.join(', ')}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {tab === 'annual' && (
+        <>
+          <div style={card}>
+            <h3 style={h3}>Form 940 — {year} <span style={{ fontWeight: 400, color: 'var(--text-muted)', fontSize: 12 }}>due {annual.dueDate}</span></h3>
+            {line('3  Total payments to all employees', money(annual.totalPayments))}
+            {line('4  Payments exempt from FUTA tax', money(annual.exemptPayments))}
+            {line('5  Payments over $7,000 per employee', money(annual.excessPayments))}
+            {line('7  Total taxable FUTA wages', money(annual.taxableWages))}
+            {line('12  Total FUTA tax', money(annual.futaTax), true)}
+            {annual.deposits.map(d => line(`Deposit due ${d.dueDate}`, money(d.amount)))}
+          </div>
+
+          <div style={card}>
+            <h3 style={h3}>W-2s</h3>
+            {w2s.length === 0 ? (
+              <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>No wages paid in {year}.</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                    <th style={th}>Employee</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Box 1</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Box 2</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Box 3</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Box 5</th>
+                    <th style={{ ...th, textAlign: 'right' }}>Box 17</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {w2s.map(w => (
+                    <tr key={w.employee.id} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                      <td style={td}>{w.employee.name}</td>
+                      <td style={num}>{money(w.wages)}</td>
+                      <td style={num}>{money(w.federalWithholding)}</td>
+                      <td style={num}>{money(w.socialSecurityWages)}</td>
+                      <td style={num}>{money(w.medicareWages)}</td>
+                      <td style={num}>{money(w.stateWithholding)}</td>
+                    </tr>
+                  ))}
+                  {w3 && (
+                    <tr>
+                      <td style={{ ...td, fontWeight: 700 }}>W-3 total ({w3.count})</td>
+                      <td style={{ ...num, fontWeight: 700 }}>{money(w3.wages)}</td>
+                      <td style={{ ...num, fontWeight: 700 }}>{money(w3.federalWithholding)}</td>
+                      <td style={{ ...num, fontWeight: 700 }}>{money(w3.socialSecurityWages)}</td>
+                      <td style={{ ...num, fontWeight: 700 }}>{money(w3.medicareWages)}</td>
+                      <td style={{ ...num, fontWeight: 700 }}>{money(w3.stateWithholding)}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+            {issues.length > 0 && (
+              <div style={{ marginTop: 12, fontSize: 12, color: '#f59e0b' }}>
+                {issues.map(i => <div key={i}>⚠ {i}</div>)}
+              </div>
+            )}
+            {w2s.length > 0 && (
+              <div style={{ marginTop: 16 }}>
+                <button onClick={() => download(w2Pdf(w2s, w3), `w2-${year}.pdf`)} style={button(true)}>Download W-2s and W-3 (PDF)</button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
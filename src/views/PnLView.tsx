@@ -7,7 +7,8 @@
 
 import { useMemo, useState } from 'react'
 import { useFortuna } from '../hooks/useFortuna'
-import { generatePnL, type PnLLineItem, type PnLStatement } from '../engine/pnl-engine'
+import { generatePnL, generateLedgerPnL, type PnLLineItem, type PnLStatement } from '../engine/pnl-engine'
+import { ledgerEntityIds, ledgerEntityName } from '../engine/general-ledger'
 import { useNavigation, RelatedViews, ViewBreadcrumb } from '../context/NavigationContext'
 import {
   FileText, TrendingUp, TrendingDown, Minus, ArrowRight,
@@ -106,16 +107,22 @@ function MarginBar({ label, value, color }: { label: string; value: number; colo
   )
 }
 
+type PnLSource = 'projected' | 'invoiced_cash' | 'invoiced_accrual' | 'books'
+
 export function PnLView() {
   const { state } = useFortuna()
   const { navigate } = useNavigation()
   const [showPrevious, setShowPrevious] = useState(true)
   const [growthRate, setGrowthRate] = useState(10)
   const [activeTab, setActiveTab] = useState<'statement' | 'analysis'>('statement')
+  const [source, setSource] = useState<PnLSource>('projected')
+  const [bookEntity, setBookEntity] = useState('personal')
 
   const pnl: PnLStatement = useMemo(() => {
-    return generatePnL(state, growthRate / 100)
-  }, [state, growthRate])
+    if (source === 'books') return generateLedgerPnL(state, bookEntity)
+    if (source === 'projected') return generatePnL(state, growthRate / 100)
+    return generatePnL(state, growthRate / 100, undefined, source === 'invoiced_cash' ? 'cash' : 'accrual')
+  }, [state, growthRate, source, bookEntity])
 
   // Build the statement rows
   const buildRows = (): PnLLineItem[] => {
@@ -246,12 +253,31 @@ export function PnLView() {
           ))}
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <select value={source} onChange={e => setSource(e.target.value as PnLSource)}
+            style={{
+              fontSize: 12, padding: '3px 6px', borderRadius: 4,
+              background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)', color: 'var(--text-primary)',
+            }}>
+            <option value="projected">Projected</option>
+            <option value="invoiced_cash">Invoiced (cash basis)</option>
+            <option value="invoiced_accrual">Invoiced (accrual basis)</option>
+            <option value="books">Books (ledger)</option>
+          </select>
+          {source === 'books' && (
+            <select value={bookEntity} onChange={e => setBookEntity(e.target.value)}
+              style={{
+                fontSize: 12, padding: '3px 6px', borderRadius: 4,
+                background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)', color: 'var(--text-primary)',
+              }}>
+              {ledgerEntityIds(state).map(id => <option key={id} value={id}>{ledgerEntityName(state, id)}</option>)}
+            </select>
+          )}
           <label style={{ fontSize: 12, color: 'var(--text-muted)' }}>
             <input type="checkbox" checked={showPrevious} onChange={e => setShowPrevious(e.target.checked)}
               style={{ marginRight: 6 }} />
             Compare
           </label>
-          {showPrevious && (
+          {showPrevious && source !== 'books' && (
             <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
               <span style={{ fontSize: 11, color: 'var(--text-muted)' }}>Growth:</span>
               <input type="number" value={growthRate} onChange={e => setGrowthRate(Number(e.target.value))}
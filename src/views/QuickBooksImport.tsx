@@ -18,44 +18,36 @@ import {
   type AccountMapping, type QBImportSummary,
   trnsTypeToFlow,
 } from '../engine/qb-coa-mapper'
-import { categorizeTransactions, type CategorizedTransaction, normalizeDate } from '../engine/data-import'
+import { categorizeTransactions, type CategorizedTransaction } from '../engine/data-import'
+import {
+  parseImportFile, stageImport, setRowAction, summarizeStaged, commitImport, rollbackImport,
+  type StagedImport, type RowAction, type NormalizedRow,
+} from '../engine/import-pipeline'
+import { buildCategorizer } from '../engine/categorizer'
 import { importTaxReturn, preFillFortunaFromReturn, type ExtractedReturn } from '../engine/tax-return-import'
-import type { BankTransaction, IncomeStream, BusinessExpense, FortunaState } from '../engine/storage'
+import type { IncomeStream, BusinessExpense, FortunaState } from '../engine/storage'
 
 type ImportPhase = 'upload' | 'preview' | 'mapping' | 'confirm' | 'complete'
+type StagedCategorized = NormalizedRow & CategorizedTransaction
 type FileKind = 'iif' | 'ofx' | 'qif' | 'pdf' | ''
 
 // ─── OFX → FortunaState helpers ──────────────────────────────────────────────
 
+// Audit-history rows go through the import pipeline; this only aggregates the
+// rows the user accepted into income streams and expenses.
 function ofxTransactionsToFortuna(
-  categorized: CategorizedTransaction[],
-  accountId: string,
-  existingTxnKeys: Set<string>,
+  categorized: StagedCategorized[],
+  staged: StagedImport,
 ): {
   newIncomeStreams: Partial<IncomeStream>[]
   newExpenses: Partial<BusinessExpense>[]
-  newBankTxns: BankTransaction[]
 } {
   const incomeMap = new Map<string, number>()
   const expenseMap = new Map<string, { total: number; isDeductible: boolean; deductionPct: number }>()
-  const newBankTxns: BankTransaction[] = []
 
+  const actions = new Map(staged.rows.map(r => [r.rowId, r.action]))
   for (const tx of categorized) {
-    const key = `${tx.date}|${tx.description}|${tx.amount}`
-    if (existingTxnKeys.has(key)) continue
-
-    // Add to audit history
-    newBankTxns.push({
-      id: genId(),
-      date: tx.date,
-      description: tx.description,
-      amount: tx.amount,
-      category: tx.autoCategory,
-      isReconciled: false,
-      accountName: accountId,
-      entityId: 'personal',
-    } as BankTransaction)
-
+    if (actions.get(tx.rowId) !== 'accept') continue
     if (tx.autoCategory === 'transfer') continue
 
     if (tx.isIncome) {
@@ -98,7 +90,7 @@ function ofxTransactionsToFortuna(
       entityId: 'personal',
     }))
 
-  return { newIncomeStreams, newExpenses, newBankTxns }
+  return { newIncomeStreams, newExpenses }
 }
 
 // ─── Tax Return → FortunaState helper ────────────────────────────────────────
@@ -214,7 +206,10 @@ export default function QuickBooksImport() {
   const [pdfLoading, setPdfLoading] = useState(false)
 
   // OFX categorized cache
-  const [ofxCategorized, setOfxCategorized] = useState<CategorizedTransaction[]>([])
+  const [ofxCategorized, setOfxCategorized] = useState<StagedCategorized[]>([])
+
+  // Staged bank rows (duplicate detection + per-row action)
+  const [staged, setStaged] = useState<StagedImport | null>(null)
 
   // IIF mapping + import
   const [accountMappings, setAccountMappings] = useState<Map<string, AccountMapping>>(new Map())
@@ -232,6 +227,7 @@ export default function QuickBooksImport() {
     setQifResult(null)
     setTaxResult(null)
     setOfxCategorized([])
+    setStaged(null)
     setImportSummary(null)
     setFileName('')
     setFileKind('')
@@ -251,6 +247,7 @@ export default function QuickBooksImport() {
       setAccountMappings(mappings)
       const { summary } = generateFortunaStatePatch(result.accounts, result.transactions, result.vendors, result.classes)
       setImportSummary(summary)
+      setStaged(stageImport(parseImportFile(text, 'iif'), 'iif', state, { label: file.name }))
       setPhase('preview')
 
     } else if (['ofx', 'qbo', 'qfx'].includes(ext)) {
@@ -258,16 +255,10 @@ export default function QuickBooksImport() {
       setFileKind('ofx')
       const result = parseOFXFile(text)
       setOfxResult(result)
-      // Pre-categorize all transactions so the import button can use them
-      const allTxns = result.statements.flatMap(s => s.transactions).map(tx => ({
-        date: tx.dateISO,
-        description: tx.name || tx.memo || `${tx.type} transaction`,
-        amount: tx.amount,
-        memo: tx.memo,
-        fitId: tx.fitId,
-      }))
-      const categorized = categorizeTransactions(allTxns)
-      setOfxCategorized(categorized)
+      // Pre-categorize the staged rows so the import button can aggregate the accepted ones
+      const parsed = parseImportFile(text, 'ofx')
+      setOfxCategorized(categorizeTransactions(parsed.rows, buildCategorizer(state)))
+      setStaged(stageImport(parsed, 'ofx', state, { label: file.name }))
       setPhase('preview')
 
     } else if (ext === 'qif') {
@@ -275,15 +266,9 @@ export default function QuickBooksImport() {
       setFileKind('qif')
       const result = parseQIF(text)
       setQifResult(result)
-      const txns = result.transactions.map(tx => ({
-        date: normalizeDate(tx.date),
-        description: tx.payee || tx.memo || 'QIF Transaction',
-        amount: tx.amount,
-        category: tx.category,
-        memo: tx.memo,
-      }))
-      const categorized = categorizeTransactions(txns)
-      setOfxCategorized(categorized) // reuse same state slot
+      const parsed = parseImportFile(text, 'qif')
+      setOfxCategorized(categorizeTransactions(parsed.rows, buildCategorizer(state))) // reuse same state slot
+      setStaged(stageImport(parsed, 'qif', state, { label: file.name }))
       setPhase('preview')
 
     } else if (ext === 'pdf') {
@@ -315,7 +300,7 @@ export default function QuickBooksImport() {
     } else {
       alert(`Unsupported file type: .${ext}\n\nSupported: .iif, .qbo, .ofx, .qfx, .qif, .pdf`)
     }
-  }, [])
+  }, [state])
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -332,39 +317,24 @@ export default function QuickBooksImport() {
   // ─── IIF Import ─────────────────────────────────────────────────────────────
 
   const executeIIFImport = useCallback(() => {
-    if (!iifResult) return
+    if (!iifResult || !staged) return
     const { patch } = generateFortunaStatePatch(
       iifResult.accounts, iifResult.transactions, iifResult.vendors, iifResult.classes,
     )
-    updateState((prev: FortunaState) => ({
-      ...prev,
-      incomeStreams: [...(prev.incomeStreams || []), ...(patch.incomeStreams || [])],
-      expenses: [...(prev.expenses || []), ...(patch.expenses || [])],
-      entities: [...(prev.entities || []), ...(patch.entities || [])],
-      auditHistory: [...(prev.auditHistory || []), ...(patch.auditHistory || [])],
-    }))
+    updateState((prev: FortunaState) => commitImport(prev, staged, new Date(), {
+      incomeStreams: patch.incomeStreams,
+      expenses: patch.expenses,
+      entities: patch.entities,
+    }).state)
     setPhase('complete')
-  }, [iifResult, updateState])
+  }, [iifResult, staged, updateState])
 
   // ─── OFX / QIF Import ───────────────────────────────────────────────────────
 
   const executeOFXImport = useCallback(() => {
-    if (ofxCategorized.length === 0) return
+    if (ofxCategorized.length === 0 || !staged) return
 
-    // Build dedup key set from existing audit history
-    const existingKeys = new Set<string>(
-      (state.auditHistory || []).map((t: BankTransaction) => `${normalizeDate(t.date)}|${t.description}|${t.amount}`)
-    )
-
-    const accountId = ofxResult
-      ? (ofxResult.statements[0]?.bankAccount?.accountId ||
-        ofxResult.statements[0]?.creditCardAccount?.accountId ||
-        'bank')
-      : (qifResult?.accountName || 'bank')
-
-    const { newIncomeStreams, newExpenses, newBankTxns } = ofxTransactionsToFortuna(
-      ofxCategorized, accountId, existingKeys,
-    )
+    const { newIncomeStreams, newExpenses } = ofxTransactionsToFortuna(ofxCategorized, staged)
 
     // Deduplicate income streams vs existing (by type + amount within 1%)
     const filteredIncome = newIncomeStreams.filter((ns: Partial<IncomeStream>) => {
@@ -383,15 +353,21 @@ export default function QuickBooksImport() {
       )
     })
 
-    updateState((prev: FortunaState) => ({
-      ...prev,
-      incomeStreams: [...prev.incomeStreams, ...filteredIncome as IncomeStream[]],
-      expenses: [...prev.expenses, ...filteredExpenses as BusinessExpense[]],
-      auditHistory: [...(prev.auditHistory || []), ...newBankTxns],
-    }))
+    updateState((prev: FortunaState) => commitImport(prev, staged, new Date(), {
+      incomeStreams: filteredIncome,
+      expenses: filteredExpenses,
+    }).state)
 
     setPhase('complete')
-  }, [ofxCategorized, ofxResult, qifResult, state, updateState])
+  }, [ofxCategorized, staged, state, updateState])
+
+  const changeRowAction = useCallback((rowId: string, action: RowAction) => {
+    setStaged(prev => prev && setRowAction(prev, rowId, action))
+  }, [])
+
+  const handleRollback = useCallback((importId: string) => {
+    updateState((prev: FortunaState) => rollbackImport(prev, importId))
+  }, [updateState])
 
   // ─── Tax PDF Apply ───────────────────────────────────────────────────────────
 
@@ -509,6 +485,34 @@ export default function QuickBooksImport() {
           />
         </div>
 
+        {/* Import History */}
+        {(state.imports || []).length > 0 && (
+          <div style={{ ...card, marginTop: 24 }}>
+            <h3 style={{ fontSize: 14, fontWeight: 600, margin: '0 0 12px', color: 'var(--text-primary)' }}>
+              Import History
+            </h3>
+            {[...state.imports].reverse().slice(0, 10).map(imp => (
+              <div key={imp.id} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '8px 0', borderBottom: '1px solid var(--border-subtle)', fontSize: 12 }}>
+                <span style={badge(imp.rolledBackAt ? '#6b7280' : '#22c55e')}>{imp.source.toUpperCase()}</span>
+                <div style={{ flex: 1, color: 'var(--text-primary)' }}>
+                  {imp.label}
+                  <div style={{ fontSize: 10, color: 'var(--text-muted)' }}>
+                    {new Date(imp.importedAt).toLocaleString()} — {imp.transactionIds.length} added, {imp.merges.length} merged, {imp.skipped} skipped
+                  </div>
+                </div>
+                {imp.rolledBackAt ? (
+                  <span style={{ fontSize: 11, color: 'var(--text-muted)' }}>Rolled back</span>
+                ) : (
+                  <button onClick={() => handleRollback(imp.id)}
+                    style={{ padding: '4px 12px', borderRadius: 6, fontSize: 11, background: 'var(--bg-hover)', border: '1px solid var(--border-subtle)', color: '#ef4444', cursor: 'pointer' }}>
+                    ↶ Roll back
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* How-to Guide */}
         <div style={{ ...card, marginTop: 24 }}>
           <h3 style={{ fontSize: 14, fontWeight: 600, margin: '0 0 12px', color: 'var(--text-primary)' }}>
@@ -678,6 +682,7 @@ export default function QuickBooksImport() {
     const totalIncome = income.reduce((s, t) => s + t.amount, 0)
     const totalExpenses = Math.abs(expenses.reduce((s, t) => s + t.amount, 0))
     const unclassified = txns.filter(t => t.confidence < 0.5 && t.autoCategory !== 'transfer').length
+    const rowSummary = staged ? summarizeStaged(staged) : null
 
     return (
       <div style={{ padding: '24px 32px', maxWidth: 1100 }}>
@@ -687,7 +692,7 @@ export default function QuickBooksImport() {
               💳 {fileName}
             </h1>
             <p style={{ fontSize: 11, color: 'var(--text-muted)', margin: '4px 0 0' }}>
-              {fileKind === 'ofx' ? `${ofxResult?.statements[0]?.flavor?.toUpperCase() || 'OFX'} File` : 'QIF File'} — {txns.length} transactions
+              {fileKind === 'ofx' ? `${ofxResult?.statements[0]?.flavor?.toUpperCase() || 'OFX'} File` : `QIF File${qifResult?.accountName ? ` (${qifResult.accountName})` : ''}`} — {txns.length} transactions
             </p>
           </div>
           <div style={{ display: 'flex', gap: 8 }}>
@@ -708,6 +713,7 @@ export default function QuickBooksImport() {
             { label: 'Total Income', value: `$${Math.round(totalIncome).toLocaleString()}`, color: '#22c55e' },
             { label: 'Total Expenses', value: `$${Math.round(totalExpenses).toLocaleString()}`, color: '#ef4444' },
             { label: 'Unclassified', value: unclassified, color: unclassified > 10 ? '#f59e0b' : undefined },
+            { label: 'Duplicates', value: rowSummary?.duplicates ?? 0, color: rowSummary?.duplicates ? '#6366f1' : undefined },
           ].map(s => (
             <div key={s.label} style={{ ...card, ...stat, marginBottom: 0 }}>
               <div style={{ ...statValue, color: s.color || 'var(--text-primary)' }}>{s.value}</div>
@@ -724,8 +730,8 @@ export default function QuickBooksImport() {
           <div style={{ fontSize: 12, color: 'var(--text-secondary)', lineHeight: 1.8, display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
             <div>✅ {income.length} income transactions → aggregated income streams</div>
             <div>✅ {expenses.length} expense transactions → categorized expense entries</div>
-            <div>✅ All {txns.length} transactions → audit history (bank ledger)</div>
-            <div>🔒 Duplicate transactions will be skipped automatically</div>
+            <div>✅ {rowSummary?.accept ?? 0} new transactions → audit history (bank ledger)</div>
+            <div>🔒 {rowSummary?.skip ?? 0} skipped, {rowSummary?.merge ?? 0} merged into existing rows — undo any time from Import History</div>
           </div>
         </div>
 
@@ -735,14 +741,16 @@ export default function QuickBooksImport() {
             <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
               <thead style={{ position: 'sticky', top: 0, background: 'var(--bg-card)' }}>
                 <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
-                  {['Date', 'Description', 'Amount', 'Category', 'Confidence'].map(h => (
+                  {['Date', 'Description', 'Amount', 'Category', 'Confidence', 'Match', 'Action'].map(h => (
                     <th key={h} style={{ padding: '8px 10px', textAlign: 'left', fontSize: 10, color: 'var(--text-muted)', fontWeight: 500, textTransform: 'uppercase' }}>{h}</th>
                   ))}
                 </tr>
               </thead>
               <tbody>
-                {txns.slice(0, 100).map((tx, i) => (
-                  <tr key={i} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                {txns.slice(0, 100).map((tx, i) => {
+                  const row = staged?.rows[i]
+                  return (
+                  <tr key={i} style={{ borderBottom: '1px solid var(--border-subtle)', opacity: row?.action === 'skip' ? 0.5 : 1 }}>
                     <td style={{ padding: '6px 10px', fontFamily: 'var(--font-mono)', fontSize: 10, color: 'var(--text-muted)' }}>{tx.date}</td>
                     <td style={{ padding: '6px 10px', color: 'var(--text-primary)', maxWidth: 240, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{tx.description}</td>
                     <td style={{ padding: '6px 10px', fontFamily: 'var(--font-mono)', fontWeight: 600, color: tx.amount >= 0 ? '#22c55e' : '#ef4444' }}>
@@ -758,8 +766,26 @@ export default function QuickBooksImport() {
                         <div style={{ height: '100%', width: `${Math.round((tx.confidence || 0) * 100)}%`, background: (tx.confidence || 0) > 0.7 ? '#22c55e' : '#f59e0b', borderRadius: 3 }} />
                       </div>
                     </td>
+                    <td style={{ padding: '6px 10px' }}>
+                      {row?.match && (
+                        <span style={badge('#6366f1')} title={`Matches existing transaction (${row.match.dayDiff}d apart)`}>
+                          {row.match.reason === 'fitid' ? 'FITID' : `${Math.round(row.match.score * 100)}%`}
+                        </span>
+                      )}
+                    </td>
+                    <td style={{ padding: '6px 10px' }}>
+                      {row && (
+                        <select value={row.action} onChange={e => changeRowAction(row.rowId, e.target.value as RowAction)}
+                          style={{ fontSize: 10, padding: '2px 4px', borderRadius: 4, background: 'var(--bg-hover)', color: 'var(--text-primary)', border: '1px solid var(--border-subtle)' }}>
+                          <option value="accept">Accept</option>
+                          <option value="skip">Skip</option>
+                          {row.match && <option value="merge">Merge</option>}
+                        </select>
+                      )}
+                    </td>
                   </tr>
-                ))}
+                  )
+                })}
               </tbody>
             </table>
             {txns.length > 100 && (
@@ -785,6 +811,9 @@ export default function QuickBooksImport() {
             </h1>
             <p style={{ fontSize: 11, color: 'var(--text-muted)', margin: '4px 0 0' }}>
               IIF File — {iifResult.stats.transactionCount} transactions, {iifResult.stats.accountCount} accounts
+              {staged && summarizeStaged(staged).duplicates > 0 && (
+                <> — {summarizeStaged(staged).duplicates} already in audit history will be skipped</>
+              )}
             </p>
           </div>
           <div style={{ display: 'flex', gap: 8 }}>
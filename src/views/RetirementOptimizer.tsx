@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import { useFortuna } from '../hooks/useFortuna'
 import {
   compareRetirementVehicles,
@@ -6,6 +6,13 @@ import {
   projectRetirement,
   type RetirementVehicle,
 } from '../engine/retirement-optimizer'
+import {
+  buildMonteCarloInput,
+  runMonteCarloAsync,
+  type MonteCarloResult,
+  type WithdrawalStrategy,
+  type PercentileBand,
+} from '../engine/retirement-monte-carlo'
 import {
   PiggyBank, TrendingUp, ArrowRight, Shield, CheckCircle, XCircle,
   AlertTriangle, Info, ChevronDown,
@@ -58,6 +65,41 @@ export function RetirementOptimizer() {
   const rothLadder = useMemo(() => analyzeRothLadder(state, tradBalance, retirementAge), [state, tradBalance, retirementAge])
   const projection = useMemo(() => projectRetirement(state, currentBalance, annualContribution, returnRate / 100, retirementAge), [state, currentBalance, annualContribution, returnRate, retirementAge])
 
+  // Monte Carlo (runs in a Web Worker)
+  const [mcStrategy, setMcStrategy] = useState<WithdrawalStrategy>('fixed_percent')
+  const [mcModel, setMcModel] = useState<'normal' | 'bootstrap'>('normal')
+  const [withdrawalRate, setWithdrawalRate] = useState(4)
+  const [claimAge, setClaimAge] = useState(67)
+  const [mcRun, setMcRun] = useState<{ key: string; result: MonteCarloResult | null } | null>(null)
+
+  const mcInput = useMemo(() => {
+    const base = buildMonteCarloInput(state, {
+      retirementAge,
+      claimAge,
+      withdrawal: { strategy: mcStrategy, initialRate: withdrawalRate / 100 },
+      ...(mcModel === 'bootstrap' ? { returns: { type: 'bootstrap', blockLength: 5 } } : {}),
+    })
+    // Without saved accounts, use the projection inputs as pre-tax savings
+    return accounts.length > 0 ? base : {
+      ...base, pretaxBalance: currentBalance, afterTaxBalance: 0, pretaxContribution: annualContribution, afterTaxContribution: 0,
+    }
+  }, [state, accounts.length, currentBalance, annualContribution, retirementAge, claimAge, mcStrategy, mcModel, withdrawalRate])
+  const mcKey = useMemo(() => JSON.stringify(mcInput), [mcInput])
+
+  useEffect(() => {
+    if (activeTab !== 'projection') return
+    const job = runMonteCarloAsync(mcInput)
+    job.promise
+      .then(result => setMcRun({ key: mcKey, result }))
+      .catch(err => {
+        if (err?.name !== 'AbortError') setMcRun({ key: mcKey, result: null })
+      })
+    return () => job.cancel()
+  }, [activeTab, mcInput, mcKey])
+
+  const monteCarlo = mcRun?.result ?? null
+  const mcRunning = mcRun?.key !== mcKey
+
   const card: React.CSSProperties = { background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)', borderRadius: 14, padding: 24 }
   const tabBtn = (active: boolean): React.CSSProperties => ({
     padding: '8px 16px', borderRadius: 8, border: 'none',
@@ -255,6 +297,68 @@ export function RetirementOptimizer() {
             <GrowthChart years={projection.years} retirementAge={retirementAge} />
           </div>
 
+          {/* Monte Carlo */}
+          <div style={card}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 16 }}>
+              <div style={{ fontSize: 14, fontWeight: 500, color: 'var(--text-primary)' }}>Monte Carlo Simulation</div>
+              <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>
+                {mcRunning ? 'Simulating…' : monteCarlo ? `${monteCarlo.paths.toLocaleString()} paths · seed ${monteCarlo.seed} · today's dollars` : ''}
+              </div>
+            </div>
+            <div style={{ display: 'flex', gap: 20, alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: 16 }}>
+              <div>
+                <label style={{ fontSize: 11, color: 'var(--text-muted)', display: 'block', marginBottom: 4 }}>Withdrawal Strategy</label>
+                <select value={mcStrategy} onChange={e => setMcStrategy(e.target.value as WithdrawalStrategy)} style={{ ...inputStyle, width: 150 }}>
+                  <option value="fixed_percent">Fixed %</option>
+                  <option value="guardrails">Guardrails</option>
+                  <option value="bucket">Cash Bucket</option>
+                </select>
+              </div>
+              <div>
+                <label style={{ fontSize: 11, color: 'var(--text-muted)', display: 'block', marginBottom: 4 }}>Returns</label>
+                <select value={mcModel} onChange={e => setMcModel(e.target.value as 'normal' | 'bootstrap')} style={{ ...inputStyle, width: 150 }}>
+                  <option value="normal">Normal distribution</option>
+                  <option value="bootstrap">Historical bootstrap</option>
+                </select>
+              </div>
+              {[
+                { label: 'Withdrawal Rate %', value: withdrawalRate, set: setWithdrawalRate },
+                { label: 'SS Claim Age', value: claimAge, set: (v: number) => setClaimAge(Math.min(70, Math.max(62, v))) },
+              ].map(inp => (
+                <div key={inp.label}>
+                  <label style={{ fontSize: 11, color: 'var(--text-muted)', display: 'block', marginBottom: 4 }}>{inp.label}</label>
+                  <input type="number" value={inp.value} onChange={e => inp.set(Number(e.target.value))} style={inputStyle} />
+                </div>
+              ))}
+            </div>
+            {monteCarlo && (
+              <>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 12, marginBottom: 16 }}>
+                  {[
+                    {
+                      label: 'Probability of Success', value: `${Math.round(monteCarlo.successProbability * 100)}%`,
+                      color: monteCarlo.successProbability >= 0.85 ? 'var(--accent-emerald)' : monteCarlo.successProbability >= 0.7 ? 'var(--accent-gold)' : 'var(--accent-red)',
+                    },
+                    { label: 'Median at Retirement', value: `$${(monteCarlo.medianBalanceAtRetirement / 1000).toFixed(0)}K`, color: 'var(--accent-gold)' },
+                    { label: 'Median at End', value: `$${(monteCarlo.medianEndingBalance / 1000).toFixed(0)}K`, color: 'var(--accent-blue)' },
+                    { label: 'SS at Claim Age', value: `$${Math.round(monteCarlo.socialSecurityAnnual / 12).toLocaleString()}/mo`, color: 'var(--accent-purple)' },
+                  ].map(m => (
+                    <div key={m.label} style={{ textAlign: 'center', padding: 12, borderRadius: 10, background: 'var(--bg-primary)' }}>
+                      <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 4 }}>{m.label}</div>
+                      <div style={{ fontFamily: 'var(--font-mono)', fontSize: 18, fontWeight: 600, color: m.color }}>{m.value}</div>
+                    </div>
+                  ))}
+                </div>
+                <PercentileChart bands={monteCarlo.balanceBands} retirementAge={retirementAge} />
+                <div style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 8, lineHeight: 1.5 }}>
+                  Shaded bands show the 10th–90th and 25th–75th percentile balances; the line is the median.
+                  RMDs begin at {monteCarlo.rmdStartAge}.
+                  {monteCarlo.depletionAgeP10 !== null && ` In the worst 10% of paths the portfolio runs out by age ${monteCarlo.depletionAgeP10}.`}
+                </div>
+              </>
+            )}
+          </div>
+
           {/* Year-by-year (condensed, every 5 years) */}
           <div style={card}>
             <div style={{ fontSize: 14, fontWeight: 500, color: 'var(--text-primary)', marginBottom: 16 }}>Milestone Years</div>
@@ -467,3 +571,56 @@ function GrowthChart({ years, retirementAge }: { years: { age: number; balance:
     </svg>
   )
 }
+
+// ===================================================================
+//  MONTE CARLO PERCENTILE CHART SVG
+// ===================================================================
+
+function PercentileChart({ bands, retirementAge }: { bands: PercentileBand[]; retirementAge: number }) {
+  if (bands.length < 2) return null
+  const W = 700, H = 200, P = 40
+  const maxBal = Math.max(...bands.map(b => b.p90), 1)
+  const x = (i: number) => P + (i / (bands.length - 1)) * W
+  const y = (v: number) => P + H - (v / maxBal) * H
+  const area = (hi: keyof PercentileBand, lo: keyof PercentileBand) =>
+    `M${bands.map((b, i) => `${x(i)},${y(b[hi])}`).join(' L')} L${bands.map((b, i) => `${x(i)},${y(b[lo])}`).reverse().join(' L')} Z`
+  const retIdx = bands.findIndex(b => b.age === retirementAge)
+
+  return (
+    <svg viewBox={`0 0 ${W + P * 2} ${H + P * 2}`} style={{ width: '100%', height: 'auto' }}>
+      {[0, 0.25, 0.5, 0.75, 1].map(pct => (
+        <g key={pct}>
+          <line x1={P} y1={P + H - pct * H} x2={P + W} y2={P + H - pct * H} stroke="var(--border-subtle)" strokeWidth="1" />
+          <text x={P - 8} y={P + H - pct * H + 4} textAnchor="end" fill="var(--text-muted)" fontSize="10" fontFamily="var(--font-mono)">
+            ${(maxBal * pct / 1000).toFixed(0)}K
+          </text>
+        </g>
+      ))}
+      {retIdx > 0 && (
+        <line x1={x(retIdx)} y1={P} x2={x(retIdx)} y2={P + H} stroke="var(--accent-gold)" strokeWidth="1" strokeDasharray="4,4" />
+      )}
+      <path d={area('p90', 'p10')} fill="var(--accent-blue)" fillOpacity="0.12" />
+      <path d={area('p75', 'p25')} fill="var(--accent-blue)" fillOpacity="0.22" />
+      <path
+        d={bands.map((b, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(b.p50)}`).join(' ')}
+        fill="none"
+        stroke="var(--accent-blue)"
+        strokeWidth="2"
+        strokeLinecap="round"
+      />
+      {bands.filter((_, i) => i % Math.max(1, Math.floor(bands.length / 8)) === 0).map(b => (
+        <text
+          key={b.age}
+          x={x(bands.indexOf(b))}
+          y={P + H + 16}
+          textAnchor="middle"
+          fill="var(--text-muted)"
+          fontSize="10"
+          fontFamily="var(--font-mono)"
+        >
+          {b.age}
+        </text>
+      ))}
+    </svg>
+  )
+}
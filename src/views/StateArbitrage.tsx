@@ -1,9 +1,9 @@
 import { useState, useMemo } from 'react'
 import { useFortuna } from '../hooks/useFortuna'
-import { analyzeStateArbitrage, type StateComparison } from '../engine/state-arbitrage'
+import { analyzeStateArbitrage, analyzeEntityNexus, type StateComparison } from '../engine/state-arbitrage'
 import {
   MapPin, TrendingUp, TrendingDown, ArrowRight, Filter,
-  ChevronDown, Star, DollarSign,
+  ChevronDown, Star, DollarSign, Building2,
 } from 'lucide-react'
 
 type SortKey = 'adjustedSavings' | 'totalStateTax' | 'costOfLivingIndex' | 'estimatedIncomeTax'
@@ -17,6 +17,7 @@ export function StateArbitrage() {
   const [filter, setFilter] = useState<'all' | 'no_income_tax' | 'low_col'>('all')
 
   const analysis = useMemo(() => analyzeStateArbitrage(state, spending, homeValue), [state, spending, homeValue])
+  const entityNexus = useMemo(() => analyzeEntityNexus(state), [state])
 
   let filtered = [...analysis.comparisons]
   if (filter === 'no_income_tax') filtered = filtered.filter(c => c.incomeTaxType === 'None')
@@ -111,6 +112,46 @@ export function StateArbitrage() {
         </div>
       </div>
 
+      {/* Multi-state filing breakdown */}
+      {analysis.multiState && (
+        <div style={{ ...card, marginBottom: 20 }}>
+          <div style={{ fontSize: 14, fontWeight: 500, color: 'var(--text-primary)', marginBottom: 4 }}>
+            Your {analysis.multiState.taxYear} State Returns
+          </div>
+          <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 12 }}>
+            Part-year and nonresident apportionment with credit for taxes paid to other states
+          </div>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                {['State', 'Return', 'Days', 'Source Income', 'Apportioned', 'Tax', 'Credit', 'Net'].map(h => (
+                  <th key={h} style={{ padding: '6px 8px', textAlign: h === 'State' || h === 'Return' ? 'left' : 'right', fontSize: 10, color: 'var(--text-muted)', fontWeight: 500, textTransform: 'uppercase' }}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.multiState.returns.map(r => (
+                <tr key={r.stateCode} style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                  <td style={{ padding: '6px 8px', color: 'var(--text-primary)' }}>{r.stateName}</td>
+                  <td style={{ padding: '6px 8px', color: 'var(--text-secondary)' }}>{r.returnType === 'part_year' ? 'Part-year' : r.returnType === 'resident' ? 'Resident' : 'Nonresident'}</td>
+                  <td style={{ padding: '6px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>{r.residentDays}</td>
+                  <td style={{ padding: '6px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>${r.stateSourceIncome.toLocaleString()}</td>
+                  <td style={{ padding: '6px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>{r.apportionmentPct.toFixed(1)}%</td>
+                  <td style={{ padding: '6px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>${r.taxBeforeCredits.toLocaleString()}</td>
+                  <td style={{ padding: '6px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)', color: r.creditForOtherStates > 0 ? 'var(--accent-emerald)' : 'var(--text-muted)' }}>
+                    {r.creditForOtherStates > 0 ? `-$${r.creditForOtherStates.toLocaleString()}` : '—'}
+                  </td>
+                  <td style={{ padding: '6px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)', fontWeight: 600, color: 'var(--text-primary)' }}>${r.netTax.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {analysis.multiState.notes.map((n, i) => (
+            <div key={i} style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 6 }}>{n}</div>
+          ))}
+        </div>
+      )}
+
       {/* Top recommendations */}
       <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: 12, marginBottom: 20 }}>
         {analysis.topRecommendations.slice(0, 4).map((rec, i) => (
@@ -245,6 +286,64 @@ export function StateArbitrage() {
         )}
       </div>
 
+      {/* Entity nexus & apportionment */}
+      {entityNexus.length > 0 && (
+        <div style={{ ...card, marginTop: 16 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+            <Building2 size={16} color="var(--accent-gold)" />
+            <span style={{ fontSize: 14, fontWeight: 600, color: 'var(--text-primary)' }}>Entity Nexus & Apportionment</span>
+          </div>
+          {entityNexus.map(({ entityId, entityName, apportionment: a, nexusWarnings }) => (
+            <div key={entityId} style={{ marginBottom: 16 }}>
+              <div style={{ fontSize: 13, fontWeight: 600, color: 'var(--text-secondary)', marginBottom: 6 }}>
+                {entityName} — nexus in {a.nexusStates.join(', ') || 'no state'}
+                {a.nowhereIncome > 0 && <span style={{ fontSize: 11, color: 'var(--text-muted)', fontWeight: 400 }}> · ${a.nowhereIncome.toLocaleString()} apportioned nowhere</span>}
+              </div>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                <thead>
+                  <tr style={{ color: 'var(--text-muted)', textAlign: 'left' }}>
+                    <th style={{ padding: '4px 8px' }}>State</th>
+                    <th style={{ padding: '4px 8px', textAlign: 'right' }}>Receipts</th>
+                    <th style={{ padding: '4px 8px', textAlign: 'right' }}>Payroll</th>
+                    <th style={{ padding: '4px 8px', textAlign: 'right' }}>Property</th>
+                    <th style={{ padding: '4px 8px' }}>Nexus</th>
+                    <th style={{ padding: '4px 8px', textAlign: 'right' }}>Apportioned</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {a.states.map(s => (
+                    <tr key={s.stateCode} style={{ borderTop: '1px solid var(--border-subtle)', color: 'var(--text-secondary)' }}>
+                      <td style={{ padding: '4px 8px' }}>{s.stateCode}</td>
+                      <td style={{ padding: '4px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>${Math.round(s.receipts).toLocaleString()}</td>
+                      <td style={{ padding: '4px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>${Math.round(s.payroll).toLocaleString()}</td>
+                      <td style={{ padding: '4px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>${Math.round(s.property).toLocaleString()}</td>
+                      <td style={{ padding: '4px 8px', color: s.pl86272Protected ? 'var(--accent-blue)' : s.nexus ? 'var(--accent-gold)' : 'var(--text-muted)' }}>
+                        {s.pl86272Protected ? 'P.L. 86-272' : s.nexus ? s.nexusBasis.join(', ') : '—'}
+                      </td>
+                      <td style={{ padding: '4px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>
+                        {s.taxable ? `${s.apportionmentPct}% · $${s.apportionedIncome.toLocaleString()}` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {a.passThrough.filter(p => p.pteAvailable || p.compositeTax !== undefined).map(p => (
+                <div key={p.stateCode} style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 6 }}>
+                  {p.stateCode}: individual ${p.individualTax.toLocaleString()}
+                  {p.pteAvailable && ` · PTE $${p.pteTax.toLocaleString()} (net ${p.pteNetBenefit >= 0 ? 'saves' : 'costs'} $${Math.abs(p.pteNetBenefit).toLocaleString()})`}
+                  {p.compositeTax !== undefined && ` · composite $${p.compositeTax.toLocaleString()}`}
+                  {' → '}{p.recommendation === 'elect_pte' ? 'elect PTE' : p.recommendation === 'composite' ? 'file composite' : 'file individually'}
+                  {p.pteElected && ' (elected)'}
+                </div>
+              ))}
+              {nexusWarnings.map((w, i) => (
+                <div key={i} style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 4 }}>⚠ {w}</div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Disclaimer */}
       <div style={{ marginTop: 16, fontSize: 11, color: 'var(--text-muted)', lineHeight: 1.6 }}>
         * Estimates based on simplified tax models. Income tax uses effective rates approximated from marginal brackets.
@@ -6,6 +6,7 @@
  *   - Filter by category, deductibility, date, amount, review status
  *   - Override/confirm tax categorizations
  *   - Bulk approve or re-categorize
+ *   - Corrections train the learning categorizer (categorizer.ts)
  *   - Deduction discovery dashboard
  *   - Recurring stream summary
  *   - Export reviewed transactions
@@ -16,6 +17,7 @@
 import { useState, useMemo, useCallback, useEffect } from 'react'
 import { useFortuna } from '../hooks/useFortuna'
 import type { BankTransaction, FortunaState } from '../engine/storage'
+import { recordCorrection, collectTrainingExamples, evaluateCategorizer, categorizeUnreviewed } from '../engine/categorizer'
 
 // ─── Local enrichment type (compatible with bridge output) ────────────────
 
@@ -85,7 +87,7 @@ export default function TransactionReview() {
 
   // Build reviewable transactions from state
   const transactions: ReviewableTransaction[] = useMemo(() => {
-    return (state.bankTransactions || []).map(txn => ({
+    return (state.auditHistory || []).map(txn => ({
       ...txn,
       enrichment: (txn as any).enrichment || {
         fortunaCategory: txn.category || 'uncategorized',
@@ -94,11 +96,18 @@ export default function TransactionReview() {
         isTaxPayment: false,
         is1099Reportable: false,
         confidence: 0.5,
-        needsReview: !txn.isReconciled,
+        needsReview: !txn.isReconciled && !txn.reviewed,
       },
       userOverride: (txn as any).userOverride,
     }))
-  }, [state.bankTransactions])
+  }, [state.auditHistory])
+
+  // Learned categorizer quality on held-out reviewed transactions
+  const { auditHistory, categoryCorrections } = state
+  const evaluation = useMemo(
+    () => evaluateCategorizer(collectTrainingExamples({ auditHistory, categoryCorrections })),
+    [auditHistory, categoryCorrections],
+  )
 
   // Stats
   const stats = useMemo(() => {
@@ -174,14 +183,15 @@ export default function TransactionReview() {
 
   // ── Handlers ──────────────────────────────────────────────────────────
 
-  const handleOverride = useCallback((txnId: string, category: string) => {
+  const withOverride = (prev: FortunaState, ids: Set<string>, category: string): FortunaState => {
     const catInfo = TAX_CATEGORIES.find(c => c.value === category)
-    updateState((prev: FortunaState) => ({
-      ...prev,
-      bankTransactions: (prev.bankTransactions || []).map(t =>
-        t.id === txnId ? {
+    let next = prev
+    for (const id of ids) next = recordCorrection(next, id, category)
+    return {
+      ...next,
+      auditHistory: next.auditHistory.map(t =>
+        ids.has(t.id) ? {
           ...t,
-          category,
           isReconciled: true,
           userOverride: {
             category,
@@ -191,7 +201,11 @@ export default function TransactionReview() {
           },
         } as any : t,
       ),
-    }))
+    }
+  }
+
+  const handleOverride = useCallback((txnId: string, category: string) => {
+    updateState((prev: FortunaState) => withOverride(prev, new Set([txnId]), category))
     setEditingId(null)
   }, [updateState])
 
@@ -199,9 +213,9 @@ export default function TransactionReview() {
     if (selectedIds.size === 0) return
     updateState((prev: FortunaState) => ({
       ...prev,
-      bankTransactions: (prev.bankTransactions || []).map(t =>
+      auditHistory: (prev.auditHistory || []).map(t =>
         selectedIds.has(t.id)
-          ? { ...t, isReconciled: true, userOverride: { ...((t as any).userOverride || {}), approved: true } } as any
+          ? { ...t, isReconciled: true, reviewed: true, userOverride: { ...((t as any).userOverride || {}), approved: true } } as any
           : t,
       ),
     }))
@@ -210,20 +224,15 @@ export default function TransactionReview() {
 
   const handleBulkCategorize = useCallback(() => {
     if (selectedIds.size === 0 || !bulkCategory) return
-    const catInfo = TAX_CATEGORIES.find(c => c.value === bulkCategory)
-    updateState((prev: FortunaState) => ({
-      ...prev,
-      bankTransactions: (prev.bankTransactions || []).map(t =>
-        selectedIds.has(t.id) ? {
-          ...t, category: bulkCategory, isReconciled: true,
-          userOverride: { category: bulkCategory, isDeductible: catInfo?.deductible || false, deductionPct: catInfo?.pct || 0, approved: true },
-        } as any : t,
-      ),
-    }))
+    updateState((prev: FortunaState) => withOverride(prev, selectedIds, bulkCategory))
     setSelectedIds(new Set())
     setBulkCategory('')
   }, [selectedIds, bulkCategory, updateState])
 
+  const handleApplyLearned = useCallback(() => {
+    updateState((prev: FortunaState) => categorizeUnreviewed(prev).state)
+  }, [updateState])
+
   const toggleSelect = (id: string) => {
     setSelectedIds(prev => {
       const next = new Set(prev)
@@ -329,6 +338,25 @@ export default function TransactionReview() {
         </div>
       )}
 
+      {/* Learned Categorizer */}
+      {showStats && (
+        <div style={{ ...card, marginBottom: 20, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12 }}>
+          <div>
+            <h4 style={{ margin: '0 0 4px', fontSize: 13, color: '#9ca3af' }}>Learned Categorizer</h4>
+            <div style={{ fontSize: 12, color: '#6b7280' }}>
+              {evaluation.trainSize + evaluation.testSize === 0
+                ? 'Correct a category to start training — your fixes are ranked ahead of the built-in rules.'
+                : evaluation.testSize === 0
+                  ? `${evaluation.trainSize} reviewed transactions · not enough held out to measure precision yet`
+                  : `${evaluation.trainSize + evaluation.testSize} reviewed transactions · ${Math.round(evaluation.precision * 100)}% precision on ${evaluation.testSize} held out (${Math.round(evaluation.coverage * 100)}% coverage)`}
+            </div>
+          </div>
+          <button style={btn('#6366f1', true)} onClick={handleApplyLearned} disabled={evaluation.trainSize === 0}>
+            Apply to unreviewed
+          </button>
+        </div>
+      )}
+
       {/* Filters + Search */}
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16, flexWrap: 'wrap', gap: 8 }}>
         <div style={{ display: 'flex', gap: 6 }}>
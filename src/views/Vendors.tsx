@@ -0,0 +1,436 @@
+/**
+ * Fortuna Engine — Vendors View
+ *
+ * Accounts payable per entity: vendor registry with W-9 status and TIN,
+ * each vendor's payments for the year, 1099-NEC / 1099-MISC requirements,
+ * and the FIRE transmission file and recipient copies for filing.
+ *
+ * @view Vendors
+ */
+
+import * as React from 'react'
+import { useState, useMemo } from 'react'
+import { useFortuna } from '../hooks/useFortuna'
+import { ledgerEntityIds, ledgerEntityName } from '../engine/general-ledger'
+import {
+  addVendor, removeVendor, requestW9, recordW9, tagVendorPayments, vendor1099Summary, build1099Filings,
+  boxThreshold, maskTin, FORM_1099_BOXES, type W9Details,
+} from '../engine/accounts-payable'
+import { generateFireFile, fireFileIssues, recipientCopiesPdf, type FirePayer, type FireTransmitter } from '../engine/form-1099-export'
+import type { FortunaState, Form1099Box, W9Classification, PostalAddress } from '../engine/storage'
+
+function money(n: number): string {
+  return `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function download(data: BlobPart, type: string, filename: string) {
+  const blob = new Blob([data], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+type Tab = 'vendors' | '1099' | 'file'
+
+const CLASSIFICATIONS: [W9Classification, string][] = [
+  ['individual', 'Individual / sole proprietor'],
+  ['llc_p', 'LLC (partnership)'],
+  ['partnership', 'Partnership'],
+  ['llc_c', 'LLC (C corporation)'],
+  ['llc_s', 'LLC (S corporation)'],
+  ['c_corp', 'C corporation'],
+  ['s_corp', 'S corporation'],
+  ['trust', 'Trust / estate'],
+  ['exempt', 'Exempt payee'],
+  ['other', 'Other'],
+]
+
+const BLANK_ADDRESS: PostalAddress = { street: '', city: '', state: '', zip: '' }
+const BLANK_W9 = { name: '', businessName: '', tin: '', tinType: 'ssn' as W9Details['tinType'], classification: 'individual' as W9Classification, address: BLANK_ADDRESS }
+
+export function Vendors() {
+  const { state, updateState } = useFortuna()
+  const entities = useMemo(() => ledgerEntityIds(state), [state])
+  const today = new Date().toISOString().slice(0, 10)
+  const [year, setYear] = useState((state.taxYear || new Date().getFullYear()))
+  const [entityId, setEntityId] = useState('personal')
+  const [tab, setTab] = useState<Tab>('vendors')
+
+  // Vendor form
+  const [vendorName, setVendorName] = useState('')
+  const [defaultBox, setDefaultBox] = useState<Form1099Box | ''>('')
+  const [isAttorney, setIsAttorney] = useState(false)
+
+  // W-9 form (one vendor at a time)
+  const [w9For, setW9For] = useState<string | null>(null)
+  const [w9, setW9] = useState(BLANK_W9)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  // Filing details
+  const entity = state.entities.find(e => e.id === entityId)
+  const [payer, setPayer] = useState<FirePayer>({
+    name: entity?.name || state.profile.name,
+    tin: entity?.einNumber || '',
+    address: entity?.address || BLANK_ADDRESS,
+    phone: entity?.phone,
+  })
+  const [transmitter, setTransmitter] = useState<Omit<FireTransmitter, 'name' | 'tin' | 'address'>>({
+    tcc: '', contactName: state.profile.name, contactPhone: '', contactEmail: '',
+  })
+  const [testFile, setTestFile] = useState(true)
+
+  const vendors = (state.vendors || []).filter(v => v.entityId === entityId)
+  const summaries = useMemo(() => vendor1099Summary(state, year, entityId), [state, year, entityId])
+  const filings = useMemo(() => build1099Filings(summaries), [summaries])
+  const fireOptions = { year, payer, transmitter: { ...transmitter, name: payer.name, tin: payer.tin, address: payer.address }, test: testFile }
+  const issues = fireFileIssues(filings, fireOptions)
+  const blocked = summaries.filter(s => s.requiresFiling && s.issues.length > 0)
+
+  const selectEntity = (id: string) => {
+    const e = state.entities.find(x => x.id === id)
+    setEntityId(id)
+    setPayer({ name: e?.name || state.profile.name, tin: e?.einNumber || '', address: e?.address || BLANK_ADDRESS, phone: e?.phone })
+  }
+
+  const handleAddVendor = () => {
+    if (!vendorName.trim()) return
+    updateState((prev: FortunaState) => addVendor(prev, { entityId, name: vendorName, defaultBox: defaultBox || undefined, isAttorney }))
+    setVendorName('')
+    setDefaultBox('')
+    setIsAttorney(false)
+  }
+
+  const openW9 = (vendorId: string) => {
+    const v = vendors.find(x => x.id === vendorId)
+    setW9For(vendorId)
+    setW9({
+      name: v?.name || '',
+      businessName: v?.businessName || '',
+      tin: '',
+      tinType: v?.tinType || 'ssn',
+      classification: v?.classification || 'individual',
+      address: v?.address || BLANK_ADDRESS,
+    })
+  }
+
+  const handleSaveW9 = () => {
+    if (!w9For) return
+    updateState((prev: FortunaState) => recordW9(prev, w9For, w9, today))
+    setW9For(null)
+  }
+
+  // ─── Styles ───────────────────────────────────────────────────────────────
+
+  const card: React.CSSProperties = {
+    background: 'var(--bg-card)', borderRadius: 12,
+    border: '1px solid var(--border-subtle)', padding: 20, marginBottom: 16,
+  }
+  const input: React.CSSProperties = {
+    padding: '6px 10px', borderRadius: 6, fontSize: 12,
+    background: 'var(--bg-hover)', color: 'var(--text-primary)', border: '1px solid var(--border-subtle)',
+  }
+  const label: React.CSSProperties = {
+    fontSize: 10, color: 'var(--text-muted)', textTransform: 'uppercase' as const,
+    letterSpacing: '0.08em', marginBottom: 4,
+  }
+  const th: React.CSSProperties = {
+    padding: '8px 10px', textAlign: 'left', fontSize: 10, color: 'var(--text-muted)', fontWeight: 500, textTransform: 'uppercase',
+  }
+  const td: React.CSSProperties = { padding: '6px 10px', color: 'var(--text-primary)' }
+  const num: React.CSSProperties = { ...td, textAlign: 'right', fontFamily: 'var(--font-mono)' }
+  const h3: React.CSSProperties = { fontSize: 13, fontWeight: 600, margin: '0 0 10px', color: 'var(--text-primary)' }
+  const button = (primary: boolean, disabled = false): React.CSSProperties => ({
+    padding: '6px 16px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+    background: primary ? 'linear-gradient(135deg, #22c55e, #16a34a)' : 'var(--bg-hover)',
+    border: primary ? 'none' : '1px solid var(--border-subtle)',
+    color: primary ? '#fff' : 'var(--text-secondary)',
+    cursor: disabled ? 'not-allowed' : 'pointer', opacity: disabled ? 0.5 : 1,
+  })
+
+  const addressFields = (value: PostalAddress, onChange: (a: PostalAddress) => void) => (
+    <>
+      <div style={{ flex: 1, minWidth: 180 }}>
+        <div style={label}>Street</div>
+        <input value={value.street} onChange={e => onChange({ ...value, street: e.target.value })} style={{ ...input, width: '100%' }} />
+      </div>
+      <div>
+        <div style={label}>City</div>
+        <input value={value.city} onChange={e => onChange({ ...value, city: e.target.value })} style={{ ...input, width: 120 }} />
+      </div>
+      <div>
+        <div style={label}>State</div>
+        <input value={value.state} maxLength={2} onChange={e => onChange({ ...value, state: e.target.value.toUpperCase() })} style={{ ...input, width: 44 }} />
+      </div>
+      <div>
+        <div style={label}>ZIP</div>
+        <input value={value.zip} onChange={e => onChange({ ...value, zip: e.target.value })} style={{ ...input, width: 90 }} />
+      </div>
+    </>
+  )
+
+  return (
+    <div style={{ padding: '24px 32px', maxWidth: 1000 }}>
+      <h1 style={{ fontSize: 22, fontWeight: 700, margin: '0 0 8px', fontFamily: 'var(--font-display)', color: 'var(--text-primary)' }}>
+        📇 Vendors & 1099s
+      </h1>
+      <p style={{ fontSize: 13, color: 'var(--text-secondary)', margin: '0 0 24px' }}>
+        Track who you pay, collect W-9s, and produce the 1099-NEC and 1099-MISC forms you owe contractors and landlords.
+      </p>
+
+      <div style={card}>
+        <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <div>
+            <div style={label}>Entity</div>
+            <select value={entityId} onChange={e => selectEntity(e.target.value)} style={input}>
+              {entities.map(id => <option key={id} value={id}>{ledgerEntityName(state, id)}</option>)}
+            </select>
+          </div>
+          <div>
+            <div style={label}>Tax year</div>
+            <input type="number" value={year} onChange={e => setYear(parseInt(e.target.value) || year)} style={{ ...input, width: 80 }} />
+          </div>
+          <div>
+            <div style={label}>1099s due</div>
+            <div style={{ fontSize: 14, fontWeight: 600, fontFamily: 'var(--font-mono)', color: blocked.length > 0 ? '#f59e0b' : 'var(--text-primary)' }}>
+              {filings.length}{blocked.length > 0 && <span style={{ fontSize: 11, marginLeft: 6 }}>({blocked.length} need info)</span>}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: 4, marginLeft: 'auto' }}>
+            {([['vendors', 'Vendors'], ['1099', '1099 summary'], ['file', 'File']] as const).map(([key, text]) => (
+              <button key={key} onClick={() => setTab(key)} style={{
+                ...button(false),
+                background: tab === key ? 'rgba(99,102,241,0.15)' : 'var(--bg-hover)',
+                color: tab === key ? '#818cf8' : 'var(--text-secondary)',
+              }}>
+                {text}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {tab === 'vendors' && (
+        <>
+          <div style={card}>
+            <h3 style={h3}>Add vendor</h3>
+            <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+              <div style={{ flex: 1, minWidth: 160 }}>
+                <div style={label}>Name (as it appears on payments)</div>
+                <input value={vendorName} onChange={e => setVendorName(e.target.value)} style={{ ...input, width: '100%' }} />
+              </div>
+              <div>
+                <div style={label}>Usually paid for</div>
+                <select value={defaultBox} onChange={e => setDefaultBox(e.target.value as Form1099Box | '')} style={input}>
+                  <option value="">From category</option>
+                  {(Object.keys(FORM_1099_BOXES) as Form1099Box[]).map(b => (
+                    <option key={b} value={b}>{FORM_1099_BOXES[b].label} ({FORM_1099_BOXES[b].form} {FORM_1099_BOXES[b].box})</option>
+                  ))}
+                </select>
+              </div>
+              <label style={{ fontSize: 12, color: 'var(--text-secondary)', display: 'flex', gap: 6, alignItems: 'center' }}>
+                <input type="checkbox" checked={isAttorney} onChange={e => setIsAttorney(e.target.checked)} /> Attorney
+              </label>
+              <button onClick={handleAddVendor} disabled={!vendorName.trim()} style={button(true, !vendorName.trim())}>Add vendor</button>
+            </div>
+          </div>
+
+          <div style={card}>
+            {vendors.length === 0 ? (
+              <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>No vendors for this entity yet.</div>
+            ) : vendors.map(v => (
+              <div key={v.id} style={{ padding: '8px 0', borderTop: '1px solid var(--border-subtle)' }}>
+                <div style={{ display: 'flex', gap: 12, alignItems: 'center', fontSize: 12 }}>
+                  <span style={{ flex: 1, color: 'var(--text-primary)' }}>
+                    {v.name}
+                    {v.businessName && <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>{v.businessName}</span>}
+                  </span>
+                  <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-muted)' }}>{v.tin ? maskTin(v.tin, v.tinType) : '—'}</span>
+                  <span style={{ width: 110, color: v.w9Status === 'received' ? '#22c55e' : v.w9Status === 'requested' ? '#f59e0b' : 'var(--text-muted)' }}>
+                    {v.w9Status === 'received' ? `W-9 ${v.w9ReceivedDate}` : v.w9Status === 'requested' ? 'W-9 requested' : 'No W-9'}
+                  </span>
+                  {v.w9Status === 'not_requested' && (
+                    <button onClick={() => updateState((prev: FortunaState) => requestW9(prev, v.id))} style={button(false)}>Mark requested</button>
+                  )}
+                  <button onClick={() => openW9(v.id)} style={button(false)}>{v.w9Status === 'received' ? 'Update W-9' : 'Enter W-9'}</button>
+                  <button onClick={() => updateState((prev: FortunaState) => removeVendor(prev, v.id))} style={button(false)}>Remove</button>
+                </div>
+
+                {w9For === v.id && (
+                  <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginTop: 10 }}>
+                    <div>
+                      <div style={label}>Name (line 1)</div>
+                      <input value={w9.name} onChange={e => setW9({ ...w9, name: e.target.value })} style={input} />
+                    </div>
+                    <div>
+                      <div style={label}>Business name (line 2)</div>
+                      <input value={w9.businessName} onChange={e => setW9({ ...w9, businessName: e.target.value })} style={input} />
+                    </div>
+                    <div>
+                      <div style={label}>Classification</div>
+                      <select value={w9.classification} onChange={e => setW9({ ...w9, classification: e.target.value as W9Classification })} style={input}>
+                        {CLASSIFICATIONS.map(([key, text]) => <option key={key} value={key}>{text}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <div style={label}>TIN</div>
+                      <div style={{ display: 'flex', gap: 4 }}>
+                        <select value={w9.tinType} onChange={e => setW9({ ...w9, tinType: e.target.value as W9Details['tinType'] })} style={input}>
+                          <option value="ssn">SSN</option>
+                          <option value="ein">EIN</option>
+                        </select>
+                        <input value={w9.tin} placeholder={v.tin ? 'Re-enter to change' : ''} onChange={e => setW9({ ...w9, tin: e.target.value })} style={{ ...input, width: 110 }} />
+                      </div>
+                    </div>
+                    {addressFields(w9.address, address => setW9({ ...w9, address }))}
+                    <button onClick={handleSaveW9} disabled={!w9.tin || !w9.name} style={button(true, !w9.tin || !w9.name)}>Save W-9</button>
+                    <button onClick={() => setW9For(null)} style={button(false)}>Cancel</button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {tab === '1099' && (
+        <div style={card}>
+          <h3 style={h3}>{year} payments by vendor</h3>
+          <p style={{ fontSize: 12, color: 'var(--text-secondary)', margin: '0 0 12px' }}>
+            Card and payment-app payments are left out: the processor reports them on 1099-K.
+          </p>
+          {summaries.length === 0 ? (
+            <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>No vendor payments found for {year}.</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                  <th style={th}>Vendor</th>
+                  <th style={th}>Boxes</th>
+                  <th style={{ ...th, textAlign: 'right' }}>Excluded</th>
+                  <th style={th}>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map(s => (
+                  <React.Fragment key={s.vendor.id}>
+                    <tr style={{ borderBottom: '1px solid var(--border-subtle)', cursor: 'pointer' }} onClick={() => setExpanded(expanded === s.vendor.id ? null : s.vendor.id)}>
+                      <td style={td}>{s.vendor.name}</td>
+                      <td style={{ ...td, fontFamily: 'var(--font-mono)' }}>
+                        {(Object.entries(s.boxes) as [Form1099Box, number][]).map(([box, amount]) => (
+                          <div key={box} style={{ color: s.reportableBoxes.includes(box) ? 'var(--text-primary)' : 'var(--text-muted)' }}>
+                            {FORM_1099_BOXES[box].form}-{FORM_1099_BOXES[box].box} {money(amount)}
+                            {!s.reportableBoxes.includes(box) && !s.exempt && <span style={{ fontSize: 10 }}> · under {money(boxThreshold(box, year))}</span>}
+                          </div>
+                        ))}
+                      </td>
+                      <td style={num}>{s.excluded > 0 ? money(s.excluded) : ''}</td>
+                      <td style={{ ...td, color: !s.requiresFiling ? 'var(--text-muted)' : s.issues.length ? '#f59e0b' : '#22c55e' }}>
+                        {!s.requiresFiling ? (s.exempt ? 'Exempt (corporation)' : 'Not required') : s.issues.length ? s.issues.join(' · ') : 'Ready'}
+                      </td>
+                    </tr>
+                    {expanded === s.vendor.id && s.payments.map(p => (
+                      <tr key={p.id} style={{ fontSize: 11, color: 'var(--text-muted)' }}>
+                        <td style={{ padding: '2px 10px' }}>{p.date}</td>
+                        <td style={{ padding: '2px 10px' }}>
+                          {p.description} · {p.channel === 'direct' ? FORM_1099_BOXES[p.box].label : p.channel === 'card' ? 'card' : 'payment app'}
+                        </td>
+                        <td style={{ ...num, padding: '2px 10px', color: 'var(--text-muted)' }}>{money(p.amount)}</td>
+                        <td style={{ padding: '2px 10px' }}>
+                          {p.matchedBy === 'payee' && p.source === 'bank' && (
+                            <button onClick={e => { e.stopPropagation(); updateState((prev: FortunaState) => tagVendorPayments(prev, [p.id], s.vendor.id)) }}
+                              style={{ ...button(false), padding: '2px 8px', fontSize: 10 }}>Confirm match</button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {tab === 'file' && (
+        <>
+          <div style={card}>
+            <h3 style={h3}>Payer</h3>
+            <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+              <div>
+                <div style={label}>Name</div>
+                <input value={payer.name} onChange={e => setPayer({ ...payer, name: e.target.value })} style={input} />
+              </div>
+              <div>
+                <div style={label}>EIN</div>
+                <input value={payer.tin} onChange={e => setPayer({ ...payer, tin: e.target.value })} style={{ ...input, width: 110 }} />
+              </div>
+              <div>
+                <div style={label}>Phone</div>
+                <input value={payer.phone || ''} onChange={e => setPayer({ ...payer, phone: e.target.value })} style={{ ...input, width: 120 }} />
+              </div>
+              {addressFields(payer.address, address => setPayer({ ...payer, address }))}
+            </div>
+          </div>
+
+          <div style={card}>
+            <h3 style={h3}>FIRE transmitter</h3>
+            <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+              <div>
+                <div style={label}>TCC</div>
+                <input value={transmitter.tcc} maxLength={5} onChange={e => setTransmitter({ ...transmitter, tcc: e.target.value.toUpperCase() })} style={{ ...input, width: 70 }} />
+              </div>
+              <div>
+                <div style={label}>Contact</div>
+                <input value={transmitter.contactName} onChange={e => setTransmitter({ ...transmitter, contactName: e.target.value })} style={input} />
+              </div>
+              <div>
+                <div style={label}>Phone</div>
+                <input value={transmitter.contactPhone} onChange={e => setTransmitter({ ...transmitter, contactPhone: e.target.value })} style={{ ...input, width: 120 }} />
+              </div>
+              <div>
+                <div style={label}>Email</div>
+                <input value={transmitter.contactEmail} onChange={e => setTransmitter({ ...transmitter, contactEmail: e.target.value })} style={input} />
+              </div>
+              <label style={{ fontSize: 12, color: 'var(--text-secondary)', display: 'flex', gap: 6, alignItems: 'center' }}>
+                <input type="checkbox" checked={testFile} onChange={e => setTestFile(e.target.checked)} /> Test file
+              </label>
+            </div>
+          </div>
+
+          <div style={card}>
+            <h3 style={h3}>{filings.length} return{filings.length === 1 ? '' : 's'} for {year}</h3>
+            {filings.map(f => (
+              <div key={`${f.vendor.id}_${f.form}`} style={{ display: 'flex', gap: 12, fontSize: 12, padding: '4px 0' }}>
+                <span style={{ flex: 1, color: 'var(--text-primary)' }}>{f.vendor.name}</span>
+                <span style={{ width: 90, color: 'var(--text-secondary)' }}>1099-{f.form}</span>
+                <span style={{ width: 110, textAlign: 'right', fontFamily: 'var(--font-mono)' }}>
+                  {money(Object.values(f.amounts).reduce((s, a) => s + (a || 0), 0))}
+                </span>
+              </div>
+            ))}
+            {issues.length > 0 && (
+              <div style={{ marginTop: 12, fontSize: 12, color: '#f59e0b' }}>
+                {issues.map(i => <div key={i}>⚠ {i}</div>)}
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: 8, marginTop: 16 }}>
+              <button disabled={issues.length > 0} style={button(true, issues.length > 0)}
+                onClick={() => download(generateFireFile(filings, fireOptions), 'text/plain', `1099-${year}-fire${testFile ? '-test' : ''}.txt`)}>
+                Download FIRE file
+              </button>
+              <button disabled={filings.length === 0} style={button(false, filings.length === 0)}
+                onClick={() => download(recipientCopiesPdf(filings, payer, year), 'application/pdf', `1099-${year}-recipient-copies.pdf`)}>
+                Recipient copies (PDF)
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}